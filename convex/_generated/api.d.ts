@@ -8,13 +8,19 @@
  * @module
  */
 
+import type * as appeals from "../appeals.js";
 import type * as auth from "../auth.js";
+import type * as capabilityLint from "../capabilityLint.js";
+import type * as collections from "../collections.js";
 import type * as commentModeration from "../commentModeration.js";
 import type * as comments from "../comments.js";
 import type * as crons from "../crons.js";
 import type * as devSeed from "../devSeed.js";
 import type * as devSeedExtra from "../devSeedExtra.js";
 import type * as downloads from "../downloads.js";
+import type * as emailDigests from "../emailDigests.js";
+import type * as emailDigestsNode from "../emailDigestsNode.js";
+import type * as embeddingMigration from "../embeddingMigration.js";
 import type * as githubBackups from "../githubBackups.js";
 import type * as githubBackupsNode from "../githubBackupsNode.js";
 import type * as githubIdentity from "../githubIdentity.js";
@@ -26,21 +32,30 @@ import type * as githubSoulBackupsNode from "../githubSoulBackupsNode.js";
 import type * as http from "../http.js";
 import type * as httpApi from "../httpApi.js";
 import type * as httpApiV1 from "../httpApiV1.js";
+import type * as httpApiV1_collectionsV1 from "../httpApiV1/collectionsV1.js";
+import type * as httpApiV1_emailV1 from "../httpApiV1/emailV1.js";
+import type * as httpApiV1_notificationsV1 from "../httpApiV1/notificationsV1.js";
 import type * as httpApiV1_shared from "../httpApiV1/shared.js";
 import type * as httpApiV1_skillsV1 from "../httpApiV1/skillsV1.js";
 import type * as httpApiV1_soulsV1 from "../httpApiV1/soulsV1.js";
 import type * as httpApiV1_starsV1 from "../httpApiV1/starsV1.js";
 import type * as httpApiV1_usersV1 from "../httpApiV1/usersV1.js";
+import type * as httpApiV1_webhooksV1 from "../httpApiV1/webhooksV1.js";
 import type * as httpApiV1_whoamiV1 from "../httpApiV1/whoamiV1.js";
 import type * as httpPreflight from "../httpPreflight.js";
 import type * as leaderboards from "../leaderboards.js";
 import type * as lib_access from "../lib/access.js";
+import type * as lib_appeals from "../lib/appeals.js";
 import type * as lib_apiTokenAuth from "../lib/apiTokenAuth.js";
 import type * as lib_badges from "../lib/badges.js";
 import type * as lib_batching from "../lib/batching.js";
+import type * as lib_capabilityLint from "../lib/capabilityLint.js";
 import type * as lib_changelog from "../lib/changelog.js";
+import type * as lib_collections from "../lib/collections.js";
 import type * as lib_commentScamPrompt from "../lib/commentScamPrompt.js";
+import type * as lib_comments from "../lib/comments.js";
 import type * as lib_contentTypes from "../lib/contentTypes.js";
+import type * as lib_emailDigest from "../lib/emailDigest.js";
 import type * as lib_embeddingVisibility from "../lib/embeddingVisibility.js";
 import type * as lib_embeddings from "../lib/embeddings.js";
 import type * as lib_githubAccount from "../lib/githubAccount.js";
@@ -54,32 +69,55 @@ import type * as lib_globalStats from "../lib/globalStats.js";
 import type * as lib_httpHeaders from "../lib/httpHeaders.js";
 import type * as lib_httpRateLimit from "../lib/httpRateLimit.js";
 import type * as lib_leaderboards from "../lib/leaderboards.js";
+import type * as lib_llmSecurityEval from "../lib/llmSecurityEval.js";
+import type * as lib_mail from "../lib/mail.js";
+import type * as lib_mailTransport from "../lib/mailTransport.js";
 import type * as lib_moderation from "../lib/moderation.js";
+import type * as lib_moderationCases from "../lib/moderationCases.js";
+import type * as lib_notifications from "../lib/notifications.js";
 import type * as lib_openaiResponse from "../lib/openaiResponse.js";
+import type * as lib_orgs from "../lib/orgs.js";
 import type * as lib_public from "../lib/public.js";
 import type * as lib_reporting from "../lib/reporting.js";
 import type * as lib_reservedSlugs from "../lib/reservedSlugs.js";
+import type * as lib_scanPolicy from "../lib/scanPolicy.js";
+import type * as lib_scanners from "../lib/scanners.js";
+import type * as lib_searchFacets from "../lib/searchFacets.js";
+import type * as lib_searchIndex from "../lib/searchIndex.js";
 import type * as lib_searchText from "../lib/searchText.js";
 import type * as lib_securityPrompt from "../lib/securityPrompt.js";
+import type * as lib_skillAnalytics from "../lib/skillAnalytics.js";
 import type * as lib_skillBackfill from "../lib/skillBackfill.js";
+import type * as lib_skillDependencies from "../lib/skillDependencies.js";
 import type * as lib_skillPublish from "../lib/skillPublish.js";
-import type * as lib_skillQuality from "../lib/skillQuality.js";
 import type * as lib_skillSafety from "../lib/skillSafety.js";
 import type * as lib_skillStats from "../lib/skillStats.js";
 import type * as lib_skillSummary from "../lib/skillSummary.js";
+import type * as lib_skillVisibility from "../lib/skillVisibility.js";
 import type * as lib_skillZip from "../lib/skillZip.js";
 import type * as lib_skills from "../lib/skills.js";
 import type * as lib_soulChangelog from "../lib/soulChangelog.js";
 import type * as lib_soulPublish from "../lib/soulPublish.js";
+import type * as lib_tokenScopes from "../lib/tokenScopes.js";
 import type * as lib_tokens from "../lib/tokens.js";
 import type * as lib_userSearch from "../lib/userSearch.js";
 import type * as lib_webhooks from "../lib/webhooks.js";
+import type * as lib_yaraRules from "../lib/yaraRules.js";
 import type * as llmEval from "../llmEval.js";
 import type * as maintenance from "../maintenance.js";
+import type * as moderationCases from "../moderationCases.js";
+import type * as notifications from "../notifications.js";
+import type * as orgs from "../orgs.js";
 import type * as rateLimits from "../rateLimits.js";
+import type * as scanRulesets from "../scanRulesets.js";
+import type * as scanners from "../scanners.js";
 import type * as search from "../search.js";
+import type * as searchIndex from "../searchIndex.js";
 import type * as seed from "../seed.js";
 import type * as seedSouls from "../seedSouls.js";
+import type * as skillAnalytics from "../skillAnalytics.js";
+import type * as skillDependencies from "../skillDependencies.js";
+import type * as skillShares from "../skillShares.js";
 import type * as skillStatEvents from "../skillStatEvents.js";
 import type * as skills from "../skills.js";
 import type * as soulComments from "../soulComments.js";
@@ -102,13 +140,19 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  appeals: typeof appeals;
   auth: typeof auth;
+  capabilityLint: typeof capabilityLint;
+  collections: typeof collections;
   commentModeration: typeof commentModeration;
   comments: typeof comments;
   crons: typeof crons;
   devSeed: typeof devSeed;
   devSeedExtra: typeof devSeedExtra;
   downloads: typeof downloads;
+  emailDigests: typeof emailDigests;
+  emailDigestsNode: typeof emailDigestsNode;
+  embeddingMigration: typeof embeddingMigration;
   githubBackups: typeof githubBackups;
   githubBackupsNode: typeof githubBackupsNode;
   githubIdentity: typeof githubIdentity;
@@ -120,21 +164,30 @@ declare const fullApi: ApiFromModules<{
   http: typeof http;
   httpApi: typeof httpApi;
   httpApiV1: typeof httpApiV1;
+  "httpApiV1/collectionsV1": typeof httpApiV1_collectionsV1;
+  "httpApiV1/emailV1": typeof httpApiV1_emailV1;
+  "httpApiV1/notificationsV1": typeof httpApiV1_notificationsV1;
   "httpApiV1/shared": typeof httpApiV1_shared;
   "httpApiV1/skillsV1": typeof httpApiV1_skillsV1;
   "httpApiV1/soulsV1": typeof httpApiV1_soulsV1;
   "httpApiV1/starsV1": typeof httpApiV1_starsV1;
   "httpApiV1/usersV1": typeof httpApiV1_usersV1;
+  "httpApiV1/webhooksV1": typeof httpApiV1_webhooksV1;
   "httpApiV1/whoamiV1": typeof httpApiV1_whoamiV1;
   httpPreflight: typeof httpPreflight;
   leaderboards: typeof leaderboards;
   "lib/access": typeof lib_access;
+  "lib/appeals": typeof lib_appeals;
   "lib/apiTokenAuth": typeof lib_apiTokenAuth;
   "lib/badges": typeof lib_badges;
   "lib/batching": typeof lib_batching;
+  "lib/capabilityLint": typeof lib_capabilityLint;
   "lib/changelog": typeof lib_changelog;
+  "lib/collections": typeof lib_collections;
   "lib/commentScamPrompt": typeof lib_commentScamPrompt;
+  "lib/comments": typeof lib_comments;
   "lib/contentTypes": typeof lib_contentTypes;
+  "lib/emailDigest": typeof lib_emailDigest;
   "lib/embeddingVisibility": typeof lib_embeddingVisibility;
   "lib/embeddings": typeof lib_embeddings;
   "lib/githubAccount": typeof lib_githubAccount;
@@ -148,32 +201,55 @@ declare const fullApi: ApiFromModules<{
   "lib/httpHeaders": typeof lib_httpHeaders;
   "lib/httpRateLimit": typeof lib_httpRateLimit;
   "lib/leaderboards": typeof lib_leaderboards;
+  "lib/llmSecurityEval": typeof lib_llmSecurityEval;
+  "lib/mail": typeof lib_mail;
+  "lib/mailTransport": typeof lib_mailTransport;
   "lib/moderation": typeof lib_moderation;
+  "lib/moderationCases": typeof lib_moderationCases;
+  "lib/notifications": typeof lib_notifications;
   "lib/openaiResponse": typeof lib_openaiResponse;
+  "lib/orgs": typeof lib_orgs;
   "lib/public": typeof lib_public;
   "lib/reporting": typeof lib_reporting;
   "lib/reservedSlugs": typeof lib_reservedSlugs;
+  "lib/scanPolicy": typeof lib_scanPolicy;
+  "lib/scanners": typeof lib_scanners;
+  "lib/searchFacets": typeof lib_searchFacets;
+  "lib/searchIndex": typeof lib_searchIndex;
   "lib/searchText": typeof lib_searchText;
   "lib/securityPrompt": typeof lib_securityPrompt;
+  "lib/skillAnalytics": typeof lib_skillAnalytics;
   "lib/skillBackfill": typeof lib_skillBackfill;
+  "lib/skillDependencies": typeof lib_skillDependencies;
   "lib/skillPublish": typeof lib_skillPublish;
-  "lib/skillQuality": typeof lib_skillQuality;
   "lib/skillSafety": typeof lib_skillSafety;
   "lib/skillStats": typeof lib_skillStats;
   "lib/skillSummary": typeof lib_skillSummary;
+  "lib/skillVisibility": typeof lib_skillVisibility;
   "lib/skillZip": typeof lib_skillZip;
   "lib/skills": typeof lib_skills;
   "lib/soulChangelog": typeof lib_soulChangelog;
   "lib/soulPublish": typeof lib_soulPublish;
+  "lib/tokenScopes": typeof lib_tokenScopes;
   "lib/tokens": typeof lib_tokens;
   "lib/userSearch": typeof lib_userSearch;
   "lib/webhooks": typeof lib_webhooks;
+  "lib/yaraRules": typeof lib_yaraRules;
   llmEval: typeof llmEval;
   maintenance: typeof maintenance;
+  moderationCases: typeof moderationCases;
+  notifications: typeof notifications;
+  orgs: typeof orgs;
   rateLimits: typeof rateLimits;
+  scanRulesets: typeof scanRulesets;
+  scanners: typeof scanners;
   search: typeof search;
+  searchIndex: typeof searchIndex;
   seed: typeof seed;
   seedSouls: typeof seedSouls;
+  skillAnalytics: typeof skillAnalytics;
+  skillDependencies: typeof skillDependencies;
+  skillShares: typeof skillShares;
   skillStatEvents: typeof skillStatEvents;
   skills: typeof skills;
   soulComments: typeof soulComments;
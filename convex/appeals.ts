@@ -0,0 +1,253 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
+import { ConvexError, v } from 'convex/values'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import { internalMutation, internalQuery, mutation, query } from './_generated/server'
+import { assertModerator, requireUser } from './lib/access'
+import {
+  APPEAL_RESOLUTIONS,
+  appealResolutionValidator,
+  buildAppealRestorePatch,
+  getAppealableDecision,
+  MAX_APPEAL_MESSAGE_LENGTH,
+  MAX_APPEAL_QUEUE,
+  MAX_APPEAL_RESPONSE_LENGTH,
+  toPublicAppeal,
+} from './lib/appeals'
+import { closeModerationCase, openModerationCase } from './lib/moderationCases'
+import { insertNotification } from './lib/notifications'
+import { canManageSkill } from './lib/skillVisibility'
+import { buildWebhookSkillRef } from './lib/webhooks'
+import { patchSkillModeration } from './skills'
+
+async function getSkillBySlug(ctx: QueryCtx | MutationCtx, slug: string) {
+  return await ctx.db
+    .query('skills')
+    .withIndex('by_slug', (q) => q.eq('slug', slug.trim().toLowerCase()))
+    .unique()
+}
+
+async function getLatestAppeal(ctx: QueryCtx | MutationCtx, skillId: Id<'skills'>) {
+  return await ctx.db
+    .query('appeals')
+    .withIndex('by_skill', (q) => q.eq('skillId', skillId))
+    .order('desc')
+    .first()
+}
+
+/** Appeal state for the skill page and `clawhub appeal`; null without publish rights. */
+async function getAppealStateForUser(ctx: QueryCtx, userId: Id<'users'>, slug: string) {
+  const skill = await getSkillBySlug(ctx, slug)
+  if (!skill || !(await canManageSkill(ctx, skill, userId))) return null
+  const decision = getAppealableDecision(skill)
+  const latest = await getLatestAppeal(ctx, skill._id)
+  return {
+    skillId: skill._id,
+    decision,
+    canAppeal: Boolean(decision) && latest?.status !== 'open',
+    appeal: latest ? toPublicAppeal(latest) : null,
+  }
+}
+
+async function createAppealForUser(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  args: { slug: string; message: string },
+) {
+  const skill = await getSkillBySlug(ctx, args.slug)
+  if (!skill || !(await canManageSkill(ctx, skill, userId))) {
+    throw new ConvexError('Skill not found')
+  }
+  const message = args.message.trim()
+  if (!message) throw new ConvexError('Appeal message required.')
+  if (message.length > MAX_APPEAL_MESSAGE_LENGTH) {
+    throw new ConvexError(
+      `Appeal message is too long (max ${MAX_APPEAL_MESSAGE_LENGTH} characters).`,
+    )
+  }
+  const decision = getAppealableDecision(skill)
+  if (!decision) throw new ConvexError('There is no moderation decision to appeal on this skill.')
+  const latest = await getLatestAppeal(ctx, skill._id)
+  if (latest?.status === 'open') {
+    throw new ConvexError('An appeal for this skill is already waiting for review.')
+  }
+
+  const now = Date.now()
+  const appealId = await ctx.db.insert('appeals', {
+    skillId: skill._id,
+    userId,
+    message,
+    status: 'open',
+    decision: {
+      kind: decision.kind,
+      reason: skill.moderationReason,
+      flags: skill.moderationFlags,
+    },
+    createdAt: now,
+    updatedAt: now,
+  })
+  await ctx.db.insert('auditLogs', {
+    actorUserId: userId,
+    action: 'appeal.create',
+    targetType: 'skill',
+    targetId: skill._id,
+    metadata: { appealId, decision: decision.kind, reason: skill.moderationReason },
+    createdAt: now,
+  })
+  await openModerationCase(
+    ctx,
+    {
+      kind: 'appeal',
+      targetType: 'skill',
+      targetId: skill._id,
+      skillId: skill._id,
+      appealId,
+      summary: `Appeal (${decision.label.toLowerCase()}): ${message.slice(0, 200)}`,
+    },
+    now,
+  )
+  const appeal = await ctx.db.get(appealId)
+  if (!appeal) throw new Error('Appeal not found')
+  return toPublicAppeal(appeal)
+}
+
+export const getForSkill = query({
+  args: { slug: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx)
+    if (!userId) return null
+    return getAppealStateForUser(ctx, userId, args.slug)
+  },
+})
+
+export const getForSkillInternal = internalQuery({
+  args: { userId: v.id('users'), slug: v.string() },
+  handler: async (ctx, args) => getAppealStateForUser(ctx, args.userId, args.slug),
+})
+
+export const create = mutation({
+  args: { slug: v.string(), message: v.string() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    return createAppealForUser(ctx, userId, args)
+  },
+})
+
+export const createInternal = internalMutation({
+  args: { userId: v.id('users'), slug: v.string(), message: v.string() },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId)
+    if (!user || user.deletedAt || user.deactivatedAt) throw new ConvexError('User not found')
+    return createAppealForUser(ctx, args.userId, args)
+  },
+})
+
+/** Open appeals, oldest first, with the skill as it stands now next to the contested decision. */
+export const listQueue = query({
+  args: {},
+  handler: async (ctx) => {
+    const { user } = await requireUser(ctx)
+    assertModerator(user)
+    const appeals = await ctx.db
+      .query('appeals')
+      .withIndex('by_status', (q) => q.eq('status', 'open'))
+      .order('asc')
+      .take(MAX_APPEAL_QUEUE)
+    const userCache = new Map<Id<'users'>, Promise<Doc<'users'> | null>>()
+    const getUser = (id: Id<'users'>) => {
+      const cached = userCache.get(id)
+      if (cached) return cached
+      const pending = ctx.db.get(id)
+      userCache.set(id, pending)
+      return pending
+    }
+
+    const items = []
+    for (const appeal of appeals) {
+      const skill = await ctx.db.get(appeal.skillId)
+      if (!skill) continue
+      const [owner, appellant] = await Promise.all([
+        getUser(skill.ownerUserId),
+        getUser(appeal.userId),
+      ])
+      items.push({
+        _id: appeal._id,
+        message: appeal.message,
+        decision: appeal.decision,
+        createdAt: appeal.createdAt,
+        appellantHandle: appellant?.handle ?? appellant?.name ?? null,
+        ownerHandle: owner?.handle ?? owner?.name ?? null,
+        skill: {
+          _id: skill._id,
+          slug: skill.slug,
+          displayName: skill.displayName,
+          ownerUserId: skill.ownerUserId,
+          moderationStatus: skill.moderationStatus ?? (skill.softDeletedAt ? 'hidden' : 'active'),
+          moderationReason: skill.moderationReason ?? null,
+          moderationFlags: skill.moderationFlags ?? [],
+          reportCount: skill.reportCount ?? 0,
+        },
+      })
+    }
+    return items
+  },
+})
+
+/**
+ * Accepting lifts the decision (see `buildAppealRestorePatch`); rejecting or asking for
+ * changes leaves the skill as it is. Reject and request-changes need a response for the owner.
+ */
+export const resolve = mutation({
+  args: {
+    appealId: v.id('appeals'),
+    resolution: appealResolutionValidator,
+    response: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    assertModerator(user)
+    const appeal = await ctx.db.get(args.appealId)
+    if (!appeal) throw new ConvexError('Appeal not found')
+    if (appeal.status !== 'open') throw new ConvexError('Appeal was already resolved.')
+    const skill = await ctx.db.get(appeal.skillId)
+    if (!skill) throw new ConvexError('Skill not found')
+
+    const response = args.response?.trim().slice(0, MAX_APPEAL_RESPONSE_LENGTH) || undefined
+    if (args.resolution !== 'accept' && !response) {
+      throw new ConvexError('Tell the owner why: a response is required.')
+    }
+
+    const now = Date.now()
+    const status = APPEAL_RESOLUTIONS[args.resolution]
+    await ctx.db.patch(appeal._id, {
+      status,
+      response,
+      resolvedBy: user._id,
+      resolvedAt: now,
+      updatedAt: now,
+    })
+    if (args.resolution === 'accept') {
+      const handle = user.handle ?? user.name ?? 'moderator'
+      const notes = `Appeal accepted by @${handle}${response ? `: ${response}` : '.'}`
+      await patchSkillModeration(ctx, skill, buildAppealRestorePatch(skill, now, notes))
+    }
+    await ctx.db.insert('auditLogs', {
+      actorUserId: user._id,
+      action: `appeal.${args.resolution}`,
+      targetType: 'skill',
+      targetId: skill._id,
+      metadata: { appealId: appeal._id, decision: appeal.decision.kind, response },
+      createdAt: now,
+    })
+    await closeModerationCase(ctx, 'appeal', skill._id, user._id, now)
+    await insertNotification(ctx, {
+      userId: appeal.userId,
+      kind: 'skill.appeal',
+      data: {
+        skill: await buildWebhookSkillRef(ctx, skill),
+        appeal: { status, response: response ?? null },
+      },
+    })
+    return { ok: true as const, status }
+  },
+})
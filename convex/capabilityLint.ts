@@ -0,0 +1,43 @@
+import { isTextFile, lintSkillCapabilities, readDeclaredCapabilities } from 'clawhub-schema'
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Doc } from './_generated/dataModel'
+import { internalAction } from './_generated/server'
+
+const MAX_LINT_FILES = 200
+const MAX_LINT_FILE_BYTES = 512 * 1024
+
+/**
+ * Diffs what a version's files reference (env vars, binaries, hosts, config
+ * paths) against its declared `requires` and stores the result on the version.
+ * Deterministic, so it runs on every publish alongside the LLM evaluation.
+ */
+export const lintVersionCapabilities = internalAction({
+  args: { versionId: v.id('skillVersions') },
+  handler: async (ctx, args) => {
+    const version = (await ctx.runQuery(internal.skills.getVersionByIdInternal, {
+      versionId: args.versionId,
+    })) as Doc<'skillVersions'> | null
+    if (!version) return
+
+    const files: Array<{ path: string; text: string }> = []
+    for (const file of version.files.slice(0, MAX_LINT_FILES)) {
+      if (file.size > MAX_LINT_FILE_BYTES || !isTextFile(file.path, file.contentType)) continue
+      try {
+        const blob = await ctx.storage.get(file.storageId)
+        if (blob) files.push({ path: file.path, text: await blob.text() })
+      } catch {
+        // Skip files that can't be read
+      }
+    }
+
+    const result = lintSkillCapabilities({
+      files,
+      declared: readDeclaredCapabilities(version.parsed.clawdis),
+    })
+    await ctx.runMutation(internal.skills.updateVersionCapabilityLintInternal, {
+      versionId: args.versionId,
+      capabilityLint: { ...result, checkedAt: Date.now() },
+    })
+  },
+})
@@ -0,0 +1,319 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
+import { v } from 'convex/values'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import { mutation, query } from './_generated/server'
+import { requireUser } from './lib/access'
+import {
+  MAX_COLLECTION_DESCRIPTION_LENGTH,
+  MAX_COLLECTION_ITEMS,
+  MAX_COLLECTION_NOTE_LENGTH,
+  MAX_COLLECTIONS_PER_USER,
+  normalizeCollectionName,
+  normalizeCollectionText,
+  normalizeVersionPin,
+  planCollectionReorder,
+} from './lib/collections'
+import { toPublicSkill, toPublicUser } from './lib/public'
+import { isSkillListed } from './lib/skillVisibility'
+
+const MAX_PUBLIC_COLLECTIONS_LIMIT = 100
+
+const visibilityValidator = v.union(v.literal('public'), v.literal('unlisted'))
+
+async function getUserByHandle(ctx: QueryCtx, handle: string) {
+  const user = await ctx.db
+    .query('users')
+    .withIndex('handle', (q) => q.eq('handle', handle.trim().replace(/^@/, '')))
+    .unique()
+  return toPublicUser(user)
+}
+
+async function requireOwnedCollection(ctx: MutationCtx, collectionId: Id<'collections'>) {
+  const { userId } = await requireUser(ctx)
+  const collection = await ctx.db.get(collectionId)
+  if (!collection || collection.ownerUserId !== userId) throw new Error('Collection not found')
+  return collection
+}
+
+async function listItems(ctx: QueryCtx, collectionId: Id<'collections'>) {
+  return ctx.db
+    .query('collectionItems')
+    .withIndex('by_collection_position', (q) => q.eq('collectionId', collectionId))
+    .take(MAX_COLLECTION_ITEMS)
+}
+
+function toPublicCollection(collection: Doc<'collections'>) {
+  return {
+    _id: collection._id,
+    name: collection.name,
+    displayName: collection.displayName,
+    description: collection.description ?? null,
+    visibility: collection.visibility,
+    itemCount: collection.itemCount,
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+  }
+}
+
+/** Members in order; skills that stopped being public (deleted, hidden, private) drop out. */
+async function buildCollectionEntries(ctx: QueryCtx, collectionId: Id<'collections'>) {
+  const items = await listItems(ctx, collectionId)
+  const entries = []
+  for (const item of items) {
+    const skill = await ctx.db.get(item.skillId)
+    if (!skill || !isSkillListed(skill)) continue
+    const publicSkill = toPublicSkill(skill)
+    if (!publicSkill) continue
+    const latestVersion = skill.latestVersionId ? await ctx.db.get(skill.latestVersionId) : null
+    entries.push({
+      _id: item._id,
+      position: item.position,
+      note: item.note ?? null,
+      versionPin: item.versionPin ?? null,
+      skill: publicSkill,
+      latestVersion: latestVersion?.version ?? null,
+    })
+  }
+  return entries
+}
+
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const { userId } = await requireUser(ctx)
+    const collections = await ctx.db
+      .query('collections')
+      .withIndex('by_owner_name', (q) => q.eq('ownerUserId', userId))
+      .take(MAX_COLLECTIONS_PER_USER)
+    return collections.map(toPublicCollection)
+  },
+})
+
+/** Recently updated public collections, optionally for one owner handle. */
+export const listPublic = query({
+  args: { owner: v.optional(v.string()), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const limit = Math.min(Math.max(Math.trunc(args.limit ?? 25), 1), MAX_PUBLIC_COLLECTIONS_LIMIT)
+    if (args.owner) {
+      const owner = await getUserByHandle(ctx, args.owner)
+      if (!owner) return []
+      const collections = await ctx.db
+        .query('collections')
+        .withIndex('by_owner_name', (q) => q.eq('ownerUserId', owner._id))
+        .take(MAX_COLLECTIONS_PER_USER)
+      return collections
+        .filter((collection) => collection.visibility === 'public')
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, limit)
+        .map((collection) => ({ ...toPublicCollection(collection), owner }))
+    }
+
+    const collections = await ctx.db
+      .query('collections')
+      .withIndex('by_visibility_updated', (q) => q.eq('visibility', 'public'))
+      .order('desc')
+      .take(limit)
+    const result = []
+    for (const collection of collections) {
+      const owner = toPublicUser(await ctx.db.get(collection.ownerUserId))
+      if (!owner) continue
+      result.push({ ...toPublicCollection(collection), owner })
+    }
+    return result
+  },
+})
+
+export const getByOwnerAndName = query({
+  args: { owner: v.string(), name: v.string() },
+  handler: async (ctx, args) => {
+    const owner = await getUserByHandle(ctx, args.owner)
+    if (!owner) return null
+    const collection = await ctx.db
+      .query('collections')
+      .withIndex('by_owner_name', (q) =>
+        q.eq('ownerUserId', owner._id).eq('name', args.name.trim().toLowerCase()),
+      )
+      .unique()
+    if (!collection) return null
+    const viewerId = await getAuthUserId(ctx)
+    return {
+      collection: toPublicCollection(collection),
+      owner,
+      items: await buildCollectionEntries(ctx, collection._id),
+      isOwner: viewerId === collection.ownerUserId,
+    }
+  },
+})
+
+export const create = mutation({
+  args: {
+    name: v.string(),
+    displayName: v.optional(v.string()),
+    description: v.optional(v.string()),
+    visibility: v.optional(visibilityValidator),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const name = normalizeCollectionName(args.name)
+    const existing = await ctx.db
+      .query('collections')
+      .withIndex('by_owner_name', (q) => q.eq('ownerUserId', userId))
+      .take(MAX_COLLECTIONS_PER_USER)
+    if (existing.some((collection) => collection.name === name)) {
+      throw new Error(`You already have a collection named "${name}"`)
+    }
+    if (existing.length >= MAX_COLLECTIONS_PER_USER) {
+      throw new Error(`Collection limit reached (max ${MAX_COLLECTIONS_PER_USER})`)
+    }
+
+    const now = Date.now()
+    const collectionId = await ctx.db.insert('collections', {
+      ownerUserId: userId,
+      name,
+      displayName: args.displayName?.trim() || name,
+      description: normalizeCollectionText(
+        args.description,
+        MAX_COLLECTION_DESCRIPTION_LENGTH,
+        'Description',
+      ),
+      visibility: args.visibility ?? 'public',
+      itemCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    })
+    return { ok: true as const, collectionId, name }
+  },
+})
+
+export const update = mutation({
+  args: {
+    collectionId: v.id('collections'),
+    displayName: v.optional(v.string()),
+    description: v.optional(v.string()),
+    visibility: v.optional(visibilityValidator),
+  },
+  handler: async (ctx, args) => {
+    const collection = await requireOwnedCollection(ctx, args.collectionId)
+    await ctx.db.patch(collection._id, {
+      ...(args.displayName !== undefined
+        ? { displayName: args.displayName.trim() || collection.name }
+        : {}),
+      ...(args.description !== undefined
+        ? {
+            description: normalizeCollectionText(
+              args.description,
+              MAX_COLLECTION_DESCRIPTION_LENGTH,
+              'Description',
+            ),
+          }
+        : {}),
+      ...(args.visibility ? { visibility: args.visibility } : {}),
+      updatedAt: Date.now(),
+    })
+    return { ok: true as const }
+  },
+})
+
+export const remove = mutation({
+  args: { collectionId: v.id('collections') },
+  handler: async (ctx, args) => {
+    const collection = await requireOwnedCollection(ctx, args.collectionId)
+    for (const item of await listItems(ctx, collection._id)) await ctx.db.delete(item._id)
+    await ctx.db.delete(collection._id)
+    return { ok: true as const }
+  },
+})
+
+export const addItem = mutation({
+  args: {
+    collectionId: v.id('collections'),
+    slug: v.string(),
+    note: v.optional(v.string()),
+    versionPin: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const collection = await requireOwnedCollection(ctx, args.collectionId)
+    const skill = await ctx.db
+      .query('skills')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug.trim().toLowerCase()))
+      .unique()
+    if (!skill || !isSkillListed(skill) || !toPublicSkill(skill)) {
+      throw new Error('Only public skills can be added to a collection')
+    }
+    const existing = await ctx.db
+      .query('collectionItems')
+      .withIndex('by_collection_skill', (q) =>
+        q.eq('collectionId', collection._id).eq('skillId', skill._id),
+      )
+      .unique()
+    if (existing) throw new Error(`${skill.slug} is already in this collection`)
+
+    const items = await listItems(ctx, collection._id)
+    if (items.length >= MAX_COLLECTION_ITEMS) {
+      throw new Error(`Collection is full (max ${MAX_COLLECTION_ITEMS} skills)`)
+    }
+    const now = Date.now()
+    const itemId = await ctx.db.insert('collectionItems', {
+      collectionId: collection._id,
+      skillId: skill._id,
+      position: (items.at(-1)?.position ?? -1) + 1,
+      note: normalizeCollectionText(args.note, MAX_COLLECTION_NOTE_LENGTH, 'Note'),
+      versionPin: normalizeVersionPin(args.versionPin),
+      addedAt: now,
+    })
+    await ctx.db.patch(collection._id, { itemCount: items.length + 1, updatedAt: now })
+    return { ok: true as const, itemId }
+  },
+})
+
+export const updateItem = mutation({
+  args: {
+    itemId: v.id('collectionItems'),
+    note: v.optional(v.string()),
+    versionPin: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.itemId)
+    if (!item) throw new Error('Collection item not found')
+    const collection = await requireOwnedCollection(ctx, item.collectionId)
+    await ctx.db.patch(item._id, {
+      ...(args.note !== undefined
+        ? { note: normalizeCollectionText(args.note, MAX_COLLECTION_NOTE_LENGTH, 'Note') }
+        : {}),
+      ...(args.versionPin !== undefined
+        ? { versionPin: normalizeVersionPin(args.versionPin) }
+        : {}),
+    })
+    await ctx.db.patch(collection._id, { updatedAt: Date.now() })
+    return { ok: true as const }
+  },
+})
+
+export const removeItem = mutation({
+  args: { itemId: v.id('collectionItems') },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.itemId)
+    if (!item) throw new Error('Collection item not found')
+    const collection = await requireOwnedCollection(ctx, item.collectionId)
+    await ctx.db.delete(item._id)
+    await ctx.db.patch(collection._id, {
+      itemCount: Math.max(0, collection.itemCount - 1),
+      updatedAt: Date.now(),
+    })
+    return { ok: true as const }
+  },
+})
+
+export const reorder = mutation({
+  args: { collectionId: v.id('collections'), itemIds: v.array(v.id('collectionItems')) },
+  handler: async (ctx, args) => {
+    const collection = await requireOwnedCollection(ctx, args.collectionId)
+    const items = await listItems(ctx, collection._id)
+    for (const move of planCollectionReorder(items, args.itemIds)) {
+      await ctx.db.patch(move.item._id, { position: move.position })
+    }
+    await ctx.db.patch(collection._id, { updatedAt: Date.now() })
+    return { ok: true as const }
+  },
+})
@@ -10,6 +10,7 @@ import {
   type CommentScamConfidence,
   type CommentScamVerdict,
 } from './lib/commentScamPrompt'
+import { insertStatEvent } from './skillStatEvents'
 
 const DEFAULT_BATCH_SIZE = 25
 const MAX_BATCH_SIZE = 100
@@ -250,6 +251,137 @@ export const applyCommentScamResultInternal = internalMutation({
   handler: applyCommentScamResultInternalHandler,
 })
 
+export const getCommentForScanInternal = internalQuery({
+  args: { commentId: v.id('comments') },
+  handler: async (ctx, args) => {
+    const comment = await ctx.db.get(args.commentId)
+    if (!comment || comment.softDeletedAt) return null
+    return {
+      commentId: comment._id,
+      skillId: comment.skillId,
+      userId: comment.userId,
+      body: comment.body,
+    }
+  },
+})
+
+/**
+ * Records the scan of an edited comment. Certain scams are hidden right away; bans stay with
+ * the moderator-run backfill since they need a moderator as the acting user.
+ */
+export async function applyEditedCommentScamResultInternalHandler(
+  ctx: MutationCtx,
+  args: {
+    commentId: Id<'comments'>
+    body: string
+    verdict: CommentScamVerdict
+    confidence: CommentScamConfidence
+    explanation: string
+    evidence: string[]
+    model: string
+    checkedAt: number
+  },
+) {
+  const comment = await ctx.db.get(args.commentId)
+  // A newer edit has its own scan queued; drop this stale result.
+  if (!comment || comment.softDeletedAt || comment.body !== args.body) {
+    return { ok: true as const, hidden: false }
+  }
+
+  const hide = isCertainScam({ verdict: args.verdict, confidence: args.confidence })
+  await ctx.db.patch(comment._id, {
+    scamScanVerdict: args.verdict,
+    scamScanConfidence: args.confidence,
+    scamScanExplanation: args.explanation.trim().slice(0, 1200),
+    scamScanEvidence: args.evidence
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .slice(0, 5),
+    scamScanModel: args.model,
+    scamScanCheckedAt: args.checkedAt,
+    ...(hide ? { softDeletedAt: args.checkedAt } : {}),
+  })
+  if (!hide) return { ok: true as const, hidden: false }
+
+  await insertStatEvent(ctx, { skillId: comment.skillId, kind: 'uncomment' })
+  await ctx.db.insert('auditLogs', {
+    actorUserId: comment.userId,
+    action: 'comment.scam_hide',
+    targetType: 'comment',
+    targetId: comment._id,
+    metadata: {
+      skillId: comment.skillId,
+      source: 'edit',
+      verdict: args.verdict,
+      confidence: args.confidence,
+      model: args.model,
+    },
+    createdAt: args.checkedAt,
+  })
+  return { ok: true as const, hidden: true }
+}
+
+export const applyEditedCommentScamResultInternal = internalMutation({
+  args: {
+    commentId: v.id('comments'),
+    body: v.string(),
+    verdict: v.union(v.literal('not_scam'), v.literal('likely_scam'), v.literal('certain_scam')),
+    confidence: v.union(v.literal('low'), v.literal('medium'), v.literal('high')),
+    explanation: v.string(),
+    evidence: v.array(v.string()),
+    model: v.string(),
+    checkedAt: v.number(),
+  },
+  handler: applyEditedCommentScamResultInternalHandler,
+})
+
+export async function scanEditedCommentInternalHandler(
+  ctx: ActionCtx,
+  args: { commentId: Id<'comments'> },
+) {
+  // Same gate as the backfill: without a key there is no scanner to run.
+  if (!process.env.OPENAI_API_KEY) return { ok: true as const, scanned: false }
+
+  const comment = await ctx.runQuery(internal.commentModeration.getCommentForScanInternal, {
+    commentId: args.commentId,
+  })
+  if (!comment) return { ok: true as const, scanned: false }
+
+  const evalResult = (await ctx.runAction(internal.llmEval.evaluateCommentForScam, {
+    commentId: comment.commentId,
+    skillId: comment.skillId,
+    userId: comment.userId,
+    body: comment.body,
+  })) as
+    | {
+        ok: true
+        model: string
+        verdict: CommentScamVerdict
+        confidence: CommentScamConfidence
+        explanation: string
+        evidence: string[]
+      }
+    | { ok: false; error: string }
+  if (!evalResult.ok) return { ok: true as const, scanned: false }
+
+  await ctx.runMutation(internal.commentModeration.applyEditedCommentScamResultInternal, {
+    commentId: comment.commentId,
+    body: comment.body,
+    verdict: evalResult.verdict,
+    confidence: evalResult.confidence,
+    explanation: evalResult.explanation,
+    evidence: evalResult.evidence,
+    model: evalResult.model,
+    checkedAt: Date.now(),
+  })
+  return { ok: true as const, scanned: true }
+}
+
+export const scanEditedCommentInternal = internalAction({
+  args: { commentId: v.id('comments') },
+  handler: scanEditedCommentInternalHandler,
+})
+
 export async function backfillCommentScamModerationInternalHandler(
   ctx: ActionCtx,
   args: CommentScamBackfillActionArgs,
@@ -1,34 +1,209 @@
+import { internal } from './_generated/api'
 import type { Id } from './_generated/dataModel'
 import type { MutationCtx } from './_generated/server'
 import { assertModerator, requireUser } from './lib/access'
+import {
+  extractMentions,
+  MAX_PINNED_COMMENTS,
+  newMentions,
+  normalizeCommentBody,
+} from './lib/comments'
 import { requireGitHubAccountAge } from './lib/githubAccount'
 import {
   AUTO_HIDE_REPORT_THRESHOLD,
   MAX_ACTIVE_REPORTS_PER_USER,
   MAX_REPORT_REASON_LENGTH,
 } from './lib/reporting'
+import { openModerationCase } from './lib/moderationCases'
+import { queueNotification } from './lib/notifications'
+import { canManageSkill, canViewSkill } from './lib/skillVisibility'
+import { buildWebhookSkillRef, queueUserWebhookEvent } from './lib/webhooks'
 import { insertStatEvent } from './skillStatEvents'
 
-export async function addHandler(ctx: MutationCtx, args: { skillId: Id<'skills'>; body: string }) {
-  const { userId } = await requireUser(ctx)
+/**
+ * Sends `comment.mention` (webhook and inbox) to each mentioned user that exists and is active.
+ * The author is skipped, so mentioning yourself is a no-op. Shared by skill and soul comments;
+ * `canView` drops users who cannot see the thread (private skills).
+ */
+export async function notifyMentionedUsers(
+  ctx: MutationCtx,
+  params: {
+    handles: string[]
+    authorUserId: Id<'users'>
+    data: Record<string, unknown>
+    canView?: (userId: Id<'users'>) => Promise<boolean>
+  },
+) {
+  for (const handle of params.handles) {
+    const user =
+      (await findUserByHandle(ctx, handle)) ??
+      (handle === handle.toLowerCase() ? null : await findUserByHandle(ctx, handle.toLowerCase()))
+    if (!user || user._id === params.authorUserId || user.deletedAt || user.deactivatedAt) continue
+    if (params.canView && !(await params.canView(user._id))) continue
+    await queueUserWebhookEvent(ctx, {
+      userId: user._id,
+      event: 'comment.mention',
+      data: params.data,
+    })
+    await queueNotification(ctx, { userId: user._id, kind: 'comment.mention', data: params.data })
+  }
+}
+
+async function findUserByHandle(ctx: MutationCtx, handle: string) {
+  return ctx.db
+    .query('users')
+    .withIndex('handle', (q) => q.eq('handle', handle))
+    .unique()
+}
+
+export async function addHandler(
+  ctx: MutationCtx,
+  args: { skillId: Id<'skills'>; body: string; parentCommentId?: Id<'comments'> },
+) {
+  const { userId, user } = await requireUser(ctx)
   await requireGitHubAccountAge(ctx, userId)
 
-  const body = args.body.trim()
-  if (!body) throw new Error('Comment body required')
+  const body = normalizeCommentBody(args.body)
 
   const skill = await ctx.db.get(args.skillId)
-  if (!skill) throw new Error('Skill not found')
+  if (!skill || !(await canViewSkill(ctx, skill, userId))) throw new Error('Skill not found')
 
-  await ctx.db.insert('comments', {
+  let parentCommentId: Id<'comments'> | undefined
+  if (args.parentCommentId) {
+    const parent = await ctx.db.get(args.parentCommentId)
+    if (!parent || parent.softDeletedAt || parent.skillId !== skill._id) {
+      throw new Error('Comment not found')
+    }
+    parentCommentId = parent.parentCommentId ?? parent._id
+  }
+
+  const createdAt = Date.now()
+  const commentId = await ctx.db.insert('comments', {
     skillId: args.skillId,
     userId,
+    ...(parentCommentId ? { parentCommentId } : {}),
     body,
-    createdAt: Date.now(),
+    createdAt,
     softDeletedAt: undefined,
     deletedBy: undefined,
   })
 
   await insertStatEvent(ctx, { skillId: skill._id, kind: 'comment' })
+
+  const comment = { id: commentId, body, authorHandle: user.handle ?? null, createdAt }
+  if (skill.ownerUserId !== userId) {
+    const data = { skill: await buildWebhookSkillRef(ctx, skill), comment }
+    await queueUserWebhookEvent(ctx, { userId: skill.ownerUserId, event: 'skill.comment', data })
+    await queueNotification(ctx, { userId: skill.ownerUserId, kind: 'skill.comment', data })
+  }
+
+  const handles = extractMentions(body)
+  if (handles.length > 0) {
+    await notifyMentionedUsers(ctx, {
+      handles,
+      authorUserId: userId,
+      data: { skill: await buildWebhookSkillRef(ctx, skill), comment },
+      canView: (mentionedUserId) => canViewSkill(ctx, skill, mentionedUserId),
+    })
+  }
+}
+
+/**
+ * Author-only. The previous body goes to `commentEdits`, the scam verdict is cleared and the
+ * comment is rescanned, and only mentions added by the edit are notified.
+ */
+export async function editHandler(
+  ctx: MutationCtx,
+  args: { commentId: Id<'comments'>; body: string },
+) {
+  const { userId, user } = await requireUser(ctx)
+  const comment = await ctx.db.get(args.commentId)
+  if (!comment || comment.softDeletedAt) throw new Error('Comment not found')
+  if (comment.userId !== userId) throw new Error('Only the author can edit this comment')
+  const skill = await ctx.db.get(comment.skillId)
+  if (!skill || !(await canViewSkill(ctx, skill, userId))) throw new Error('Comment not found')
+
+  const body = normalizeCommentBody(args.body)
+  if (body === comment.body) return { ok: true as const, edited: false }
+
+  const editedAt = Date.now()
+  await ctx.db.insert('commentEdits', {
+    commentId: comment._id,
+    userId,
+    previousBody: comment.body,
+    editedAt,
+  })
+  await ctx.db.patch(comment._id, {
+    body,
+    editedAt,
+    scamScanVerdict: undefined,
+    scamScanConfidence: undefined,
+    scamScanExplanation: undefined,
+    scamScanEvidence: undefined,
+    scamScanModel: undefined,
+    scamScanCheckedAt: undefined,
+  })
+  await ctx.scheduler.runAfter(0, internal.commentModeration.scanEditedCommentInternal, {
+    commentId: comment._id,
+  })
+
+  const handles = newMentions(comment.body, body)
+  if (handles.length > 0) {
+    await notifyMentionedUsers(ctx, {
+      handles,
+      authorUserId: userId,
+      canView: (mentionedUserId) => canViewSkill(ctx, skill, mentionedUserId),
+      data: {
+        skill: await buildWebhookSkillRef(ctx, skill),
+        comment: {
+          id: comment._id,
+          body,
+          authorHandle: user.handle ?? null,
+          createdAt: comment.createdAt,
+        },
+      },
+    })
+  }
+  return { ok: true as const, edited: true }
+}
+
+/** Skill managers and moderators pin up to MAX_PINNED_COMMENTS top-level comments. */
+export async function pinHandler(
+  ctx: MutationCtx,
+  args: { commentId: Id<'comments'>; pinned: boolean },
+) {
+  const { userId, user } = await requireUser(ctx)
+  const comment = await ctx.db.get(args.commentId)
+  if (!comment || comment.softDeletedAt) throw new Error('Comment not found')
+  if (comment.parentCommentId) throw new Error('Only top-level comments can be pinned')
+  const skill = await ctx.db.get(comment.skillId)
+  if (!skill) throw new Error('Skill not found')
+  if (!(await canManageSkill(ctx, skill, userId))) assertModerator(user)
+  if (Boolean(comment.pinnedAt) === args.pinned) return { ok: true as const }
+
+  const now = Date.now()
+  if (args.pinned) {
+    const pinned = await ctx.db
+      .query('comments')
+      .withIndex('by_skill_pinned', (q) => q.eq('skillId', skill._id).gt('pinnedAt', 0))
+      .take(MAX_PINNED_COMMENTS + 1)
+    if (pinned.filter((entry) => !entry.softDeletedAt).length >= MAX_PINNED_COMMENTS) {
+      throw new Error(`At most ${MAX_PINNED_COMMENTS} comments can be pinned`)
+    }
+    await ctx.db.patch(comment._id, { pinnedAt: now, pinnedBy: userId })
+  } else {
+    await ctx.db.patch(comment._id, { pinnedAt: undefined, pinnedBy: undefined })
+  }
+
+  await ctx.db.insert('auditLogs', {
+    actorUserId: userId,
+    action: args.pinned ? 'comment.pin' : 'comment.unpin',
+    targetType: 'comment',
+    targetId: comment._id,
+    metadata: { skillId: comment.skillId },
+    createdAt: now,
+  })
+  return { ok: true as const }
 }
 
 export async function removeHandler(ctx: MutationCtx, args: { commentId: Id<'comments'> }) {
@@ -118,6 +293,18 @@ export async function reportHandler(
     reason: reason.slice(0, MAX_REPORT_REASON_LENGTH),
     createdAt: now,
   })
+  await openModerationCase(
+    ctx,
+    {
+      kind: 'comment_report',
+      targetType: 'comment',
+      targetId: comment._id,
+      skillId: comment.skillId,
+      commentId: comment._id,
+      summary: `Reported: ${reason.slice(0, MAX_REPORT_REASON_LENGTH)}`,
+    },
+    now,
+  )
 
   const nextReportCount = (comment.reportCount ?? 0) + 1
   const shouldAutoHide = nextReportCount > AUTO_HIDE_REPORT_THRESHOLD && !comment.softDeletedAt
@@ -1,20 +1,40 @@
 /* @vitest-environment node */
-import { describe, expect, it } from 'vitest'
-import { listBySkill } from './comments'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@convex-dev/auth/server', () => ({
+  getAuthUserId: vi.fn(async () => null),
+}))
+
+const { getAuthUserId } = await import('@convex-dev/auth/server')
+const { listBySkill, listEdits } = await import('./comments')
 
 function makeCtx(args: {
   comments: Array<Record<string, unknown>>
   usersById: Record<string, Record<string, unknown> | null>
+  skill?: Record<string, unknown>
 }) {
-  const get = async (id: string) => args.usersById[id] ?? null
+  const skill = args.skill ?? { _id: 'skills:1', ownerUserId: 'users:owner' }
+  const get = async (id: string) => (id === skill._id ? skill : (args.usersById[id] ?? null))
   const take = async () => args.comments
   const order = () => ({ take })
-  const withIndex = () => ({ order })
+  const withIndex = () => ({ order, take: async () => [] })
   const query = () => ({ withIndex })
   return { db: { get, query } } as never
 }
 
 describe('comments.listBySkill', () => {
+  it('returns nothing for a private skill the caller cannot view', async () => {
+    const ctx = makeCtx({
+      comments: [{ _id: 'comments:1', skillId: 'skills:1', userId: 'users:live', body: 'hi' }],
+      usersById: {},
+      skill: { _id: 'skills:1', ownerUserId: 'users:owner', visibility: 'private' },
+    })
+
+    const result = await listBySkill._handler(ctx, { skillId: 'skills:1', limit: 50 } as never)
+
+    expect(result).toEqual([])
+  })
+
   it('skips soft-deleted comments', async () => {
     const ctx = makeCtx({
       comments: [
@@ -125,3 +145,39 @@ describe('comments.listBySkill', () => {
     expect(result[0]?.user._id).toBe('users:ok')
   })
 })
+
+describe('comments.listEdits', () => {
+  function makeEditsCtx(viewer: Record<string, unknown>) {
+    const docs: Record<string, Record<string, unknown>> = {
+      'comments:1': { _id: 'comments:1', skillId: 'skills:1', userId: 'users:author' },
+      'skills:1': { _id: 'skills:1', ownerUserId: 'users:owner' },
+      [String(viewer._id)]: viewer,
+    }
+    const edits = [{ previousBody: 'see https://scam.example', editedAt: 5 }]
+    const query = () => ({ withIndex: () => ({ order: () => ({ take: async () => edits }) }) })
+    return { db: { get: async (id: string) => docs[id] ?? null, query } } as never
+  }
+
+  it('hides earlier bodies from other viewers', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue('users:reader' as never)
+    const ctx = makeEditsCtx({ _id: 'users:reader', role: 'user' })
+
+    expect(await listEdits._handler(ctx, { commentId: 'comments:1' } as never)).toEqual([])
+  })
+
+  it('shows earlier bodies to the author and moderators', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue('users:author' as never)
+    const authorResult = await listEdits._handler(
+      makeEditsCtx({ _id: 'users:author', role: 'user' }),
+      { commentId: 'comments:1' } as never,
+    )
+    vi.mocked(getAuthUserId).mockResolvedValue('users:mod' as never)
+    const modResult = await listEdits._handler(
+      makeEditsCtx({ _id: 'users:mod', role: 'moderator' }),
+      { commentId: 'comments:1' } as never,
+    )
+
+    expect(authorResult).toEqual([{ previousBody: 'see https://scam.example', editedAt: 5 }])
+    expect(modResult).toEqual(authorResult)
+  })
+})
@@ -17,7 +17,13 @@ vi.mock('./lib/githubAccount', () => ({
 const { requireUser, assertModerator } = await import('./lib/access')
 const { insertStatEvent } = await import('./skillStatEvents')
 const { requireGitHubAccountAge } = await import('./lib/githubAccount')
-const { addHandler, removeHandler, reportHandler } = await import('./comments.handlers')
+const { addHandler, editHandler, pinHandler, removeHandler, reportHandler } = await import(
+  './comments.handlers'
+)
+
+const noModerationCases = {
+  withIndex: () => ({ order: () => ({ take: vi.fn().mockResolvedValue([]) }) }),
+}
 
 describe('comments mutations', () => {
   afterEach(() => {
@@ -40,7 +46,8 @@ describe('comments mutations', () => {
     })
     const insert = vi.fn()
     const patch = vi.fn()
-    const ctx = { db: { get, insert, patch } } as never
+    const runAfter = vi.fn()
+    const ctx = { db: { get, insert, patch }, scheduler: { runAfter } } as never
 
     await addHandler(ctx, { skillId: 'skills:1', body: ' hello ' } as never)
 
@@ -52,6 +59,34 @@ describe('comments mutations', () => {
     })
   })
 
+  it('add queues a comment webhook for the skill owner', async () => {
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user', handle: 'commenter' },
+    } as never)
+    vi.mocked(requireGitHubAccountAge).mockResolvedValue(undefined as never)
+
+    const get = vi.fn(async (id: string) =>
+      id === 'skills:1'
+        ? { _id: 'skills:1', slug: 'demo', displayName: 'Demo', ownerUserId: 'users:owner' }
+        : { _id: 'users:owner', handle: 'owner' },
+    )
+    const insert = vi.fn().mockResolvedValue('comments:1')
+    const runAfter = vi.fn()
+    const ctx = { db: { get, insert, patch: vi.fn() }, scheduler: { runAfter } } as never
+
+    await addHandler(ctx, { skillId: 'skills:1', body: 'hello' } as never)
+
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+      userId: 'users:owner',
+      event: 'skill.comment',
+      data: {
+        skill: expect.objectContaining({ slug: 'demo', ownerHandle: 'owner' }),
+        comment: expect.objectContaining({ id: 'comments:1', authorHandle: 'commenter' }),
+      },
+    })
+  })
+
   it('add blocks new comments when github account age gate fails', async () => {
     vi.mocked(requireUser).mockResolvedValue({
       userId: 'users:new',
@@ -76,6 +111,28 @@ describe('comments mutations', () => {
     expect(insertStatEvent).not.toHaveBeenCalled()
   })
 
+  it('add rejects comments on a private skill the author cannot view', async () => {
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:stranger',
+      user: { _id: 'users:stranger', role: 'user' },
+    } as never)
+    vi.mocked(requireGitHubAccountAge).mockResolvedValue(undefined as never)
+
+    const get = vi.fn().mockResolvedValue({
+      _id: 'skills:private',
+      ownerUserId: 'users:owner',
+      visibility: 'private',
+    })
+    const query = vi.fn(() => ({ withIndex: () => ({ take: async () => [] }) }))
+    const insert = vi.fn()
+    const ctx = { db: { get, insert, query } } as never
+
+    await expect(
+      addHandler(ctx, { skillId: 'skills:private', body: 'hello @owner' } as never),
+    ).rejects.toThrow('Skill not found')
+    expect(insert).not.toHaveBeenCalled()
+  })
+
   it('remove keeps comment soft-delete patch free of updatedAt', async () => {
     vi.mocked(requireUser).mockResolvedValue({
       userId: 'users:2',
@@ -198,6 +255,7 @@ describe('comments mutations', () => {
           },
         }
       }
+      if (table === 'moderationCases') return noModerationCases
       throw new Error(`Unexpected table ${table}`)
     })
     const ctx = { db: { get, insert, patch, query } } as never
@@ -217,6 +275,16 @@ describe('comments mutations', () => {
       lastReportedAt: 1_700_000_000_000,
     })
     expect(insertStatEvent).not.toHaveBeenCalled()
+    expect(insert).toHaveBeenCalledWith(
+      'moderationCases',
+      expect.objectContaining({
+        kind: 'comment_report',
+        targetType: 'comment',
+        targetId: 'comments:1',
+        status: 'open',
+        summary: 'Reported: spam',
+      }),
+    )
   })
 
   it('report returns alreadyReported for duplicate reporter/comment pair', async () => {
@@ -353,6 +421,7 @@ describe('comments mutations', () => {
     const insert = vi.fn()
     const patch = vi.fn()
     const query = vi.fn((table: string) => {
+      if (table === 'moderationCases') return noModerationCases
       if (table !== 'commentReports') throw new Error(`Unexpected table ${table}`)
       return {
         withIndex: (index: string) => {
@@ -429,6 +498,7 @@ describe('comments mutations', () => {
     const insert = vi.fn()
     const patch = vi.fn()
     const query = vi.fn((table: string) => {
+      if (table === 'moderationCases') return noModerationCases
       if (table !== 'commentReports') throw new Error(`Unexpected table ${table}`)
       return {
         withIndex: (index: string) => {
@@ -558,6 +628,7 @@ describe('comments mutations', () => {
           },
         }
       }
+      if (table === 'moderationCases') return noModerationCases
       throw new Error(`Unexpected table ${table}`)
     })
     const ctx = { db: { get, insert, patch, query } } as never
@@ -583,4 +654,203 @@ describe('comments mutations', () => {
       createdAt: 1_700_000_000_100,
     })
   })
+
+  it('add attaches replies to the root of the thread', async () => {
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user' },
+    } as never)
+    vi.mocked(requireGitHubAccountAge).mockResolvedValue(undefined as never)
+
+    const docs: Record<string, unknown> = {
+      'skills:1': { _id: 'skills:1', slug: 'demo', displayName: 'Demo', ownerUserId: 'users:1' },
+      'comments:reply': {
+        _id: 'comments:reply',
+        skillId: 'skills:1',
+        parentCommentId: 'comments:root',
+      },
+    }
+    const get = vi.fn(async (id: string) => docs[id] ?? null)
+    const insert = vi.fn().mockResolvedValue('comments:2')
+    const ctx = { db: { get, insert, patch: vi.fn() }, scheduler: { runAfter: vi.fn() } } as never
+
+    await addHandler(ctx, {
+      skillId: 'skills:1',
+      body: 'same here',
+      parentCommentId: 'comments:reply',
+    } as never)
+
+    expect(insert).toHaveBeenCalledWith(
+      'comments',
+      expect.objectContaining({ parentCommentId: 'comments:root', body: 'same here' }),
+    )
+  })
+
+  it('add rejects replies to comments on another skill', async () => {
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user' },
+    } as never)
+    vi.mocked(requireGitHubAccountAge).mockResolvedValue(undefined as never)
+
+    const docs: Record<string, unknown> = {
+      'skills:1': { _id: 'skills:1', ownerUserId: 'users:1' },
+      'comments:other': { _id: 'comments:other', skillId: 'skills:2' },
+    }
+    const get = vi.fn(async (id: string) => docs[id] ?? null)
+    const insert = vi.fn()
+    const ctx = { db: { get, insert, patch: vi.fn() }, scheduler: { runAfter: vi.fn() } } as never
+
+    await expect(
+      addHandler(ctx, {
+        skillId: 'skills:1',
+        body: 'hi',
+        parentCommentId: 'comments:other',
+      } as never),
+    ).rejects.toThrow('Comment not found')
+    expect(insert).not.toHaveBeenCalled()
+  })
+
+  it('add notifies mentioned users but not the author', async () => {
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user', handle: 'author' },
+    } as never)
+    vi.mocked(requireGitHubAccountAge).mockResolvedValue(undefined as never)
+
+    const get = vi.fn(async (id: string) =>
+      id === 'skills:1'
+        ? { _id: 'skills:1', slug: 'demo', displayName: 'Demo', ownerUserId: 'users:1' }
+        : { _id: 'users:1', handle: 'author' },
+    )
+    const usersByHandle: Record<string, unknown> = {
+      alice: { _id: 'users:alice', handle: 'alice' },
+      author: { _id: 'users:1', handle: 'author' },
+      gone: { _id: 'users:gone', handle: 'gone', deactivatedAt: 1 },
+    }
+    const query = vi.fn(() => ({
+      withIndex: (_index: string, build: (q: unknown) => unknown) => {
+        let handle = ''
+        build({ eq: (_field: string, value: string) => (handle = value) })
+        return { unique: async () => usersByHandle[handle] ?? null }
+      },
+    }))
+    const runAfter = vi.fn()
+    const ctx = {
+      db: { get, insert: vi.fn().mockResolvedValue('comments:1'), patch: vi.fn(), query },
+      scheduler: { runAfter },
+    } as never
+
+    await addHandler(ctx, {
+      skillId: 'skills:1',
+      body: 'cc @alice @author @gone @nobody, see `@alice`',
+    } as never)
+
+    const mentionCalls = runAfter.mock.calls.filter(
+      ([, , params]) => (params as { event: string }).event === 'comment.mention',
+    )
+    expect(mentionCalls).toHaveLength(1)
+    expect(mentionCalls[0]?.[2]).toEqual({
+      userId: 'users:alice',
+      event: 'comment.mention',
+      data: {
+        skill: expect.objectContaining({ slug: 'demo' }),
+        comment: expect.objectContaining({ id: 'comments:1', authorHandle: 'author' }),
+      },
+    })
+  })
+
+  it('edit keeps history, clears the scam verdict and queues a rescan', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user', handle: 'author' },
+    } as never)
+
+    const get = vi.fn().mockResolvedValue({
+      _id: 'comments:1',
+      skillId: 'skills:1',
+      userId: 'users:1',
+      body: 'old body',
+      createdAt: 1,
+      scamScanVerdict: 'not_scam',
+    })
+    const insert = vi.fn()
+    const patch = vi.fn()
+    const runAfter = vi.fn()
+    const ctx = { db: { get, insert, patch }, scheduler: { runAfter } } as never
+
+    const result = await editHandler(ctx, { commentId: 'comments:1', body: ' new body ' } as never)
+
+    expect(result).toEqual({ ok: true, edited: true })
+    expect(insert).toHaveBeenCalledWith('commentEdits', {
+      commentId: 'comments:1',
+      userId: 'users:1',
+      previousBody: 'old body',
+      editedAt: 1_700_000_000_000,
+    })
+    expect(patch).toHaveBeenCalledWith(
+      'comments:1',
+      expect.objectContaining({
+        body: 'new body',
+        editedAt: 1_700_000_000_000,
+        scamScanVerdict: undefined,
+        scamScanCheckedAt: undefined,
+      }),
+    )
+    expect(runAfter).toHaveBeenCalledTimes(1)
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), { commentId: 'comments:1' })
+  })
+
+  it('edit rejects other users and skips unchanged bodies', async () => {
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:2',
+      user: { _id: 'users:2', role: 'moderator' },
+    } as never)
+    const comment = { _id: 'comments:1', skillId: 'skills:1', userId: 'users:1', body: 'same' }
+    const insert = vi.fn()
+    const ctx = {
+      db: { get: vi.fn().mockResolvedValue(comment), insert, patch: vi.fn() },
+      scheduler: { runAfter: vi.fn() },
+    } as never
+
+    await expect(
+      editHandler(ctx, { commentId: 'comments:1', body: 'changed' } as never),
+    ).rejects.toThrow('Only the author can edit this comment')
+
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user' },
+    } as never)
+    const result = await editHandler(ctx, { commentId: 'comments:1', body: ' same ' } as never)
+
+    expect(result).toEqual({ ok: true, edited: false })
+    expect(insert).not.toHaveBeenCalled()
+  })
+
+  it('pin enforces the pinned comment limit', async () => {
+    vi.mocked(requireUser).mockResolvedValue({
+      userId: 'users:owner',
+      user: { _id: 'users:owner', role: 'user' },
+    } as never)
+
+    const docs: Record<string, unknown> = {
+      'comments:4': { _id: 'comments:4', skillId: 'skills:1', userId: 'users:2' },
+      'skills:1': { _id: 'skills:1', ownerUserId: 'users:owner' },
+    }
+    const pinned = [1, 2, 3].map((n) => ({ _id: `comments:${n}`, pinnedAt: n }))
+    const query = vi.fn(() => ({
+      withIndex: () => ({ take: async () => pinned }),
+    }))
+    const patch = vi.fn()
+    const ctx = {
+      db: { get: vi.fn(async (id: string) => docs[id] ?? null), insert: vi.fn(), patch, query },
+    } as never
+
+    await expect(
+      pinHandler(ctx, { commentId: 'comments:4', pinned: true } as never),
+    ).rejects.toThrow('At most 3 comments can be pinned')
+    expect(patch).not.toHaveBeenCalled()
+    expect(assertModerator).not.toHaveBeenCalled()
+  })
 })
@@ -1,36 +1,112 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
 import { v } from 'convex/values'
-import type { Doc } from './_generated/dataModel'
+import type { Doc, Id } from './_generated/dataModel'
 import { mutation, query } from './_generated/server'
-import { addHandler, removeHandler, reportHandler } from './comments.handlers'
+import {
+  addHandler,
+  editHandler,
+  pinHandler,
+  removeHandler,
+  reportHandler,
+} from './comments.handlers'
+import { buildCommentThreads, MAX_PINNED_COMMENTS } from './lib/comments'
 import { type PublicUser, toPublicUser } from './lib/public'
+import { canManageSkill, canViewSkill } from './lib/skillVisibility'
+
+type CommentRow = { comment: Doc<'comments'>; user: PublicUser; isSkillOwner: boolean }
 
 export const listBySkill = query({
   args: { skillId: v.id('skills'), limit: v.optional(v.number()) },
   handler: async (ctx, args) => {
     const limit = args.limit ?? 50
-    const comments = await ctx.db
+    const skill = await ctx.db.get(args.skillId)
+    // Comments on a private skill are as private as the skill.
+    if (!skill || !(await canViewSkill(ctx, skill, await getAuthUserId(ctx)))) return []
+    const recent = await ctx.db
       .query('comments')
       .withIndex('by_skill', (q) => q.eq('skillId', args.skillId))
       .order('desc')
       .take(limit)
+    // Pinned comments stay visible even when they fall outside the newest page.
+    const pinned = await ctx.db
+      .query('comments')
+      .withIndex('by_skill_pinned', (q) => q.eq('skillId', args.skillId).gt('pinnedAt', 0))
+      .order('desc')
+      .take(MAX_PINNED_COMMENTS)
+
+    const byId = new Map<string, Doc<'comments'>>()
+    for (const comment of [...recent, ...pinned]) {
+      if (comment.skillId === args.skillId) byId.set(comment._id, comment)
+    }
+    // Pull in parents of replies on this page so threads render under their root.
+    const missingParentIds = new Set<Id<'comments'>>()
+    for (const comment of byId.values()) {
+      if (comment.parentCommentId && !byId.has(comment.parentCommentId)) {
+        missingParentIds.add(comment.parentCommentId)
+      }
+    }
+    for (const parentId of missingParentIds) {
+      const parent = await ctx.db.get(parentId)
+      if (parent) byId.set(parent._id, parent)
+    }
 
     const rows = await Promise.all(
-      comments.map(async (comment): Promise<{ comment: Doc<'comments'>; user: PublicUser } | null> => {
+      [...byId.values()].map(async (comment): Promise<CommentRow | null> => {
         if (comment.softDeletedAt) return null
         const user = toPublicUser(await ctx.db.get(comment.userId))
         if (!user) return null
-        return { comment, user }
+        return { comment, user, isSkillOwner: comment.userId === skill.ownerUserId }
       }),
     )
-    return rows.filter((row): row is { comment: Doc<'comments'>; user: PublicUser } => row !== null)
+    return buildCommentThreads(rows.filter((row): row is CommentRow => row !== null))
+  },
+})
+
+/**
+ * Earlier bodies of a comment, for its author, the skill's managers and moderators only: an
+ * edited-away link must not stay readable in public history.
+ */
+export const listEdits = query({
+  args: { commentId: v.id('comments') },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx)
+    if (!userId) return []
+    const comment = await ctx.db.get(args.commentId)
+    if (!comment || comment.softDeletedAt) return []
+    const [skill, user] = await Promise.all([ctx.db.get(comment.skillId), ctx.db.get(userId)])
+    if (!skill || !user || !(await canViewSkill(ctx, skill, userId))) return []
+    const isStaff = user.role === 'admin' || user.role === 'moderator'
+    if (comment.userId !== userId && !isStaff && !(await canManageSkill(ctx, skill, userId))) {
+      return []
+    }
+    const edits = await ctx.db
+      .query('commentEdits')
+      .withIndex('by_comment', (q) => q.eq('commentId', args.commentId))
+      .order('desc')
+      .take(50)
+    return edits.map((edit) => ({ previousBody: edit.previousBody, editedAt: edit.editedAt }))
   },
 })
 
 export const add = mutation({
-  args: { skillId: v.id('skills'), body: v.string() },
+  args: {
+    skillId: v.id('skills'),
+    body: v.string(),
+    parentCommentId: v.optional(v.id('comments')),
+  },
   handler: addHandler,
 })
 
+export const edit = mutation({
+  args: { commentId: v.id('comments'), body: v.string() },
+  handler: editHandler,
+})
+
+export const pin = mutation({
+  args: { commentId: v.id('comments'), pinned: v.boolean() },
+  handler: pinHandler,
+})
+
 export const remove = mutation({
   args: { commentId: v.id('comments') },
   handler: removeHandler,
@@ -11,9 +11,9 @@ crons.interval(
 )
 
 crons.interval(
-  'trending-leaderboard',
+  'leaderboards',
   { minutes: 60 },
-  internal.leaderboards.rebuildTrendingLeaderboardInternal,
+  internal.leaderboards.rebuildLeaderboardsInternal,
   { limit: 200 },
 )
 
@@ -66,4 +66,31 @@ crons.interval(
   {},
 )
 
+// Retries failed user webhook deliveries (backoff is stored per delivery).
+crons.interval('webhook-delivery-retry', { minutes: 5 }, internal.webhooks.retryDueDeliveriesInternal, {
+  batchSize: 100,
+})
+
+// Email digests go out at 15:00 UTC; weekly ones on Mondays.
+crons.daily(
+  'email-digest-daily',
+  { hourUTC: 15, minuteUTC: 0 },
+  internal.emailDigestsNode.sendDigestsInternal,
+  { frequency: 'daily' },
+)
+
+crons.weekly(
+  'email-digest-weekly',
+  { dayOfWeek: 'monday', hourUTC: 15, minuteUTC: 0 },
+  internal.emailDigestsNode.sendDigestsInternal,
+  { frequency: 'weekly' },
+)
+
+crons.interval(
+  'webhook-delivery-prune',
+  { hours: 24 },
+  internal.webhooks.pruneDeliveriesInternal,
+  {},
+)
+
 export default crons
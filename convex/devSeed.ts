@@ -2,8 +2,10 @@ import { v } from 'convex/values'
 import { internal } from './_generated/api'
 import type { ActionCtx } from './_generated/server'
 import { internalAction, internalMutation } from './_generated/server'
-import { EMBEDDING_DIMENSIONS } from './lib/embeddings'
-import { parseClawdisMetadata, parseFrontmatter } from './lib/skills'
+import { EMBEDDING_DIMENSIONS, generateStoredEmbeddings } from './lib/embeddings'
+import { deriveSkillRuntimeFacets } from './lib/searchFacets'
+import { buildEmbeddingText, parseClawdisMetadata, parseFrontmatter } from './lib/skills'
+import { removeSkillSearchDoc } from './searchIndex'
 
 type SeedSkillSpec = {
   slug: string
@@ -249,6 +251,20 @@ function injectMetadata(rawSkillMd: string, metadata: Record<string, unknown>) {
   )}${rawSkillMd.slice(frontmatterEnd)}`
 }
 
+/**
+ * Embeds seeded skills like publish does, into every configured slot. Without
+ * `OPENAI_API_KEY` this is the zero vector; with `EMBEDDING_PROVIDER=hash` it's
+ * deterministic, which the search eval relies on.
+ */
+export async function embedSeedSkill(
+  skillMd: string,
+  frontmatter: ReturnType<typeof parseFrontmatter>,
+) {
+  return generateStoredEmbeddings(
+    buildEmbeddingText({ frontmatter, readme: skillMd, otherFiles: [] }),
+  )
+}
+
 async function seedNixSkillsHandler(
   ctx: ActionCtx,
   args: SeedActionArgs,
@@ -268,6 +284,7 @@ async function seedNixSkillsHandler(
       frontmatter,
       clawdis,
       skillMd,
+      ...(await embedSeedSkill(skillMd, frontmatter)),
       slug: spec.slug,
       displayName: spec.displayName,
       summary: spec.summary,
@@ -306,6 +323,7 @@ async function seedPadelSkillHandler(
     frontmatter,
     clawdis,
     skillMd,
+    ...(await embedSeedSkill(skillMd, frontmatter)),
     slug: spec.slug,
     displayName: spec.displayName,
     summary: spec.summary,
@@ -328,6 +346,10 @@ export const seedSkillMutation = internalMutation({
     frontmatter: v.any(),
     clawdis: v.any(),
     skillMd: v.string(),
+    embedding: v.optional(v.array(v.number())),
+    embeddingModel: v.optional(v.string()),
+    embeddingNext: v.optional(v.array(v.number())),
+    embeddingNextModel: v.optional(v.string()),
     slug: v.string(),
     displayName: v.string(),
     summary: v.optional(v.string()),
@@ -358,6 +380,7 @@ export const seedSkillMutation = internalMutation({
       for (const embedding of embeddings) {
         await ctx.db.delete(embedding._id)
       }
+      await removeSkillSearchDoc(ctx, existing._id)
       await ctx.db.delete(existing._id)
     }
 
@@ -429,7 +452,10 @@ export const seedSkillMutation = internalMutation({
       skillId,
       versionId,
       ownerId: userId,
-      embedding: Array.from({ length: EMBEDDING_DIMENSIONS }, () => 0),
+      embedding: args.embedding ?? Array.from({ length: EMBEDDING_DIMENSIONS }, () => 0),
+      embeddingModel: args.embeddingModel,
+      embeddingNext: args.embeddingNext,
+      embeddingNextModel: args.embeddingNextModel,
       isLatest: true,
       isApproved: true,
       visibility: 'latest-approved',
@@ -440,6 +466,7 @@ export const seedSkillMutation = internalMutation({
     await ctx.db.patch(skillId, {
       latestVersionId: versionId,
       tags: { latest: versionId },
+      runtimeFacets: deriveSkillRuntimeFacets(args.clawdis),
       statsDownloads: 0,
       statsStars: 0,
       statsInstallsCurrent: 0,
@@ -454,6 +481,7 @@ export const seedSkillMutation = internalMutation({
       },
       updatedAt: now,
     })
+    await ctx.scheduler.runAfter(0, internal.searchIndex.indexSkillVersion, { versionId })
 
     return { ok: true, skillId, versionId, embeddingId }
   },
@@ -11,6 +11,7 @@ import { internal } from './_generated/api'
 import type { Id } from './_generated/dataModel'
 import type { ActionCtx } from './_generated/server'
 import { internalAction, internalMutation } from './_generated/server'
+import { embedSeedSkill } from './devSeed'
 import { parseClawdisMetadata, parseFrontmatter } from './lib/skills'
 
 type SeedSkillSpec = {
@@ -458,12 +459,19 @@ function injectMetadata(rawSkillMd: string, metadata: Record<string, unknown>) {
   )}${rawSkillMd.slice(frontmatterEnd)}`
 }
 
-function randomStats() {
+// Pseudo-random but stable per slug, so search evals see the same popularity every seed.
+function randomStats(slug: string) {
+  let state = 0
+  for (const char of slug) state = (Math.imul(state, 31) + char.charCodeAt(0)) >>> 0
+  const next = () => {
+    state = (Math.imul(state ^ (state >>> 15), 0x2c1b3c6d) + 0x6d2b79f5) >>> 0
+    return state / 0x100000000
+  }
   return {
-    downloads: Math.floor(Math.random() * 5000),
-    stars: Math.floor(Math.random() * 500),
-    installsCurrent: Math.floor(Math.random() * 200),
-    installsAllTime: Math.floor(Math.random() * 1000),
+    downloads: Math.floor(next() * 5000),
+    stars: Math.floor(next() * 500),
+    installsCurrent: Math.floor(next() * 200),
+    installsAllTime: Math.floor(next() * 1000),
   }
 }
 
@@ -515,6 +523,7 @@ export const seedExtraSkillsInternal = internalAction({
         frontmatter,
         clawdis,
         skillMd,
+        ...(await embedSeedSkill(skillMd, frontmatter)),
         slug: spec.slug,
         displayName: spec.displayName,
         summary: spec.summary,
@@ -523,7 +532,7 @@ export const seedExtraSkillsInternal = internalAction({
 
       // Apply random stats after creation (only if not skipped)
       if (result.skillId && !result.skipped) {
-        const stats = randomStats()
+        const stats = randomStats(spec.slug)
         await ctx.runMutation(internal.devSeedExtra.applyRandomStats, {
           skillId: result.skillId as Id<'skills'>,
           stats,
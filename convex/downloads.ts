@@ -29,7 +29,11 @@ export const downloadZip = httpAction(async (ctx, request) => {
   const rate = await applyRateLimit(ctx, request, 'download')
   if (!rate.ok) return rate.response
 
-  const skillResult = await ctx.runQuery(api.skills.getBySlug, { slug })
+  // Private skills download with the caller's API token; everyone else hits the public query.
+  const viewerUserId = await getOptionalApiTokenUserId(ctx, request, 'read')
+  const skillResult = viewerUserId
+    ? await ctx.runQuery(internal.skills.getBySlugForViewerInternal, { slug, viewerUserId })
+    : await ctx.runQuery(api.skills.getBySlug, { slug })
   if (!skillResult?.skill) {
     return new Response('Skill not found', {
       status: 404,
@@ -74,14 +78,14 @@ export const downloadZip = httpAction(async (ctx, request) => {
   let version = skillResult.latestVersion
 
   if (versionParam) {
-    version = await ctx.runQuery(api.skills.getVersionBySkillAndVersion, {
+    version = await ctx.runQuery(internal.skills.getVersionBySkillAndVersionInternal, {
       skillId: skill._id,
       version: versionParam,
     })
   } else if (tagParam) {
     const versionId = skill.tags[tagParam]
     if (versionId) {
-      version = await ctx.runQuery(api.skills.getVersionById, { versionId })
+      version = await ctx.runQuery(internal.skills.getVersionByIdInternal, { versionId })
     }
   }
 
@@ -114,8 +118,7 @@ export const downloadZip = httpAction(async (ctx, request) => {
   const zipBlob = new Blob([zipArray], { type: 'application/zip' })
 
   try {
-    const userId = await getOptionalApiTokenUserId(ctx, request)
-    const identity = getDownloadIdentityValue(request, userId ? String(userId) : null)
+    const identity = getDownloadIdentityValue(request, viewerUserId ? String(viewerUserId) : null)
     if (identity) {
       await ctx.runMutation(internal.downloads.recordDownloadInternal, {
         skillId: skill._id,
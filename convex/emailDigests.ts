@@ -0,0 +1,87 @@
+import { v } from 'convex/values'
+import { internalMutation, internalQuery } from './_generated/server'
+import {
+  DIGEST_NOTIFICATION_KINDS,
+  type DigestItem,
+  digestWindowStart,
+  MAX_DIGEST_ITEMS,
+} from './lib/emailDigest'
+
+const DEFAULT_RECIPIENT_BATCH_SIZE = 50
+const MAX_RECIPIENT_BATCH_SIZE = 200
+
+const digestFrequencyArg = v.union(v.literal('daily'), v.literal('weekly'))
+
+export const listRecipientsInternal = internalQuery({
+  args: {
+    frequency: digestFrequencyArg,
+    cursor: v.optional(v.string()),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const numItems = Math.min(
+      Math.max(Math.trunc(args.batchSize ?? DEFAULT_RECIPIENT_BATCH_SIZE), 1),
+      MAX_RECIPIENT_BATCH_SIZE,
+    )
+    const page = await ctx.db
+      .query('users')
+      .withIndex('by_digest_frequency', (q) => q.eq('digestFrequency', args.frequency))
+      .paginate({ cursor: args.cursor ?? null, numItems })
+    return {
+      userIds: page.page.map((user) => user._id),
+      cursor: page.continueCursor,
+      isDone: page.isDone,
+    }
+  },
+})
+
+/**
+ * Unread digest-worthy notifications since the last digest, or null when there is
+ * nothing to send (no address, deactivated, unsubscribed meanwhile, or an empty window).
+ */
+export const getDigestInternal = internalQuery({
+  args: { userId: v.id('users'), frequency: digestFrequencyArg, now: v.number() },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId)
+    if (!user?.email || user.deactivatedAt || user.deletedAt) return null
+    if (user.digestFrequency !== args.frequency) return null
+
+    const since = digestWindowStart(args.frequency, user.digestSentAt, args.now)
+    const recent = await ctx.db
+      .query('notifications')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId).gt('createdAt', since))
+      .order('desc')
+      .take(MAX_DIGEST_ITEMS * 2)
+    const items: DigestItem[] = recent
+      .filter((entry) => !entry.readAt && DIGEST_NOTIFICATION_KINDS.includes(entry.kind))
+      .slice(0, MAX_DIGEST_ITEMS)
+      .map((entry) => ({
+        kind: entry.kind,
+        title: entry.title,
+        body: entry.body ?? null,
+        url: entry.url ?? null,
+        createdAt: entry.createdAt,
+      }))
+    if (items.length === 0) return null
+    return { email: user.email, handle: user.handle ?? null, items }
+  },
+})
+
+export const recordDigestSentInternal = internalMutation({
+  args: { userId: v.id('users'), sentAt: v.number() },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.userId, { digestSentAt: args.sentAt })
+  },
+})
+
+export const unsubscribeInternal = internalMutation({
+  args: { userId: v.id('users') },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId)
+    if (!user) return { ok: false as const }
+    if (user.digestFrequency && user.digestFrequency !== 'off') {
+      await ctx.db.patch(user._id, { digestFrequency: 'off', updatedAt: Date.now() })
+    }
+    return { ok: true as const }
+  },
+})
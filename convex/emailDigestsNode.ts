@@ -0,0 +1,98 @@
+'use node'
+
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import { internalAction } from './_generated/server'
+import {
+  buildUnsubscribeUrl,
+  getEmailConfig,
+  renderDigestEmail,
+  signUnsubscribeToken,
+} from './lib/emailDigest'
+import { getMailTransport } from './lib/mailTransport'
+
+export type SendDigestsResult = {
+  sent: number
+  skipped: number
+  failed: number
+  isDone: boolean
+}
+
+export const sendDigestsInternal = internalAction({
+  args: {
+    frequency: v.union(v.literal('daily'), v.literal('weekly')),
+    cursor: v.optional(v.string()),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<SendDigestsResult> => {
+    const result: SendDigestsResult = { sent: 0, skipped: 0, failed: 0, isDone: true }
+    const transport = getMailTransport()
+    const config = getEmailConfig()
+    if (!transport || !config.unsubscribeSecret) {
+      console.info('[digest] skipped: MAIL_TRANSPORT or EMAIL_UNSUBSCRIBE_SECRET not configured')
+      return result
+    }
+
+    const page = await ctx.runQuery(internal.emailDigests.listRecipientsInternal, {
+      frequency: args.frequency,
+      cursor: args.cursor,
+      batchSize: args.batchSize,
+    })
+    const now = Date.now()
+    for (const userId of page.userIds) {
+      const digest = await ctx.runQuery(internal.emailDigests.getDigestInternal, {
+        userId,
+        frequency: args.frequency,
+        now,
+      })
+      if (!digest) {
+        result.skipped += 1
+        continue
+      }
+      try {
+        const token = await signUnsubscribeToken(config.unsubscribeSecret, userId)
+        const unsubscribeUrl = buildUnsubscribeUrl(config.siteUrl, userId, token)
+        const email = renderDigestEmail({
+          handle: digest.handle,
+          frequency: args.frequency,
+          items: digest.items,
+          siteUrl: config.siteUrl,
+          unsubscribeUrl,
+        })
+        await transport.send({
+          from: config.from,
+          to: digest.email,
+          ...email,
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        })
+        await ctx.runMutation(internal.emailDigests.recordDigestSentInternal, {
+          userId,
+          sentAt: now,
+        })
+        result.sent += 1
+      } catch (error) {
+        // One bad address or relay hiccup must not starve the rest of the batch.
+        console.error('[digest] send failed', { userId, error: String(error) })
+        result.failed += 1
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.emailDigestsNode.sendDigestsInternal, {
+        frequency: args.frequency,
+        cursor: page.cursor,
+        batchSize: args.batchSize,
+      })
+      result.isDone = false
+    }
+    console.info('[digest] batch done', {
+      frequency: args.frequency,
+      transport: transport.kind,
+      ...result,
+    })
+    return result
+  },
+})
@@ -0,0 +1,165 @@
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import type { ActionCtx } from './_generated/server'
+import { internalAction, internalMutation, internalQuery } from './_generated/server'
+import {
+  type EmbeddingSlot,
+  getEmbeddingProvider,
+  LEGACY_EMBEDDING_MODEL_ID,
+} from './lib/embeddings'
+import { buildSkillEmbeddingText, fetchText } from './lib/skillPublish'
+import { buildEmbeddingText } from './lib/skills'
+
+type EmbeddingTable = 'skillEmbeddings' | 'soulEmbeddings'
+
+type BackfillPage = {
+  rows: Array<{ embeddingId: Id<EmbeddingTable>; versionId: Id<'skillVersions' | 'soulVersions'> }>
+  continueCursor: string
+  isDone: boolean
+}
+
+const embeddingTableValidator = v.union(v.literal('skillEmbeddings'), v.literal('soulEmbeddings'))
+const embeddingSlotValidator = v.union(v.literal('primary'), v.literal('next'))
+
+/** Model a row currently holds in a slot; rows written before providers were tracked are OpenAI. */
+export function getStoredEmbeddingModel(
+  row: Pick<Doc<EmbeddingTable>, 'embeddingModel' | 'embeddingNext' | 'embeddingNextModel'>,
+  slot: EmbeddingSlot,
+) {
+  if (slot === 'primary') return row.embeddingModel ?? LEGACY_EMBEDDING_MODEL_ID
+  return row.embeddingNext ? row.embeddingNextModel : undefined
+}
+
+export const getEmbeddingBackfillPageInternal = internalQuery({
+  args: {
+    table: embeddingTableValidator,
+    slot: embeddingSlotValidator,
+    model: v.string(),
+    cursor: v.optional(v.string()),
+    batchSize: v.number(),
+  },
+  handler: async (ctx, args): Promise<BackfillPage> => {
+    const paginationOpts = { cursor: args.cursor ?? null, numItems: args.batchSize }
+    const { page, continueCursor, isDone } =
+      args.table === 'skillEmbeddings'
+        ? await ctx.db.query('skillEmbeddings').paginate(paginationOpts)
+        : await ctx.db.query('soulEmbeddings').paginate(paginationOpts)
+    const rows = page
+      .filter((row) => getStoredEmbeddingModel(row, args.slot) !== args.model)
+      .map((row) => ({ embeddingId: row._id, versionId: row.versionId }))
+    return { rows, continueCursor, isDone }
+  },
+})
+
+export const setEmbeddingSlotInternal = internalMutation({
+  args: {
+    embeddingId: v.union(v.id('skillEmbeddings'), v.id('soulEmbeddings')),
+    slot: embeddingSlotValidator,
+    embedding: v.array(v.number()),
+    model: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.embeddingId)
+    if (!row) return
+    await ctx.db.patch(
+      args.embeddingId,
+      args.slot === 'primary'
+        ? { embedding: args.embedding, embeddingModel: args.model }
+        : { embeddingNext: args.embedding, embeddingNextModel: args.model },
+    )
+  },
+})
+
+async function buildVersionEmbeddingText(
+  ctx: ActionCtx,
+  table: EmbeddingTable,
+  versionId: Id<'skillVersions' | 'soulVersions'>,
+) {
+  if (table === 'skillEmbeddings') {
+    const version = (await ctx.runQuery(internal.skills.getVersionByIdInternal, {
+      versionId: versionId as Id<'skillVersions'>,
+    })) as Doc<'skillVersions'> | null
+    const readmeFile = version?.files.find((file) => {
+      const path = file.path.toLowerCase()
+      return path === 'skill.md' || path === 'skills.md'
+    })
+    if (!version || !readmeFile) return null
+    return buildSkillEmbeddingText(ctx, {
+      frontmatter: version.parsed.frontmatter,
+      readmeText: await fetchText(ctx, readmeFile.storageId),
+      files: version.files,
+    })
+  }
+
+  const version = (await ctx.runQuery(internal.souls.getVersionByIdInternal, {
+    versionId: versionId as Id<'soulVersions'>,
+  })) as Doc<'soulVersions'> | null
+  const readmeFile = version?.files.find((file) => file.path.toLowerCase() === 'soul.md')
+  if (!version || !readmeFile) return null
+  return buildEmbeddingText({
+    frontmatter: version.parsed.frontmatter,
+    readme: await fetchText(ctx, readmeFile.storageId),
+    otherFiles: [],
+  })
+}
+
+/**
+ * Re-embeds every skill then soul version whose vector in `slot` came from another model,
+ * one page per run, rescheduling until done. Search keeps reading its current slot
+ * throughout; see docs/embeddings.md for the cutover.
+ */
+export const backfillEmbeddingsInternal = internalAction({
+  args: {
+    slot: v.optional(embeddingSlotValidator),
+    table: v.optional(embeddingTableValidator),
+    cursor: v.optional(v.string()),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const slot = args.slot ?? 'next'
+    const table = args.table ?? 'skillEmbeddings'
+    const provider = getEmbeddingProvider(slot)
+    if (!provider) throw new Error('EMBEDDING_NEXT_PROVIDER is not configured')
+    const batchSize = Math.min(Math.max(Math.trunc(args.batchSize ?? 20), 1), 100)
+
+    const page = (await ctx.runQuery(internal.embeddingMigration.getEmbeddingBackfillPageInternal, {
+      table,
+      slot,
+      model: provider.id,
+      cursor: args.cursor,
+      batchSize,
+    })) as BackfillPage
+
+    let updated = 0
+    let failed = 0
+    for (const row of page.rows) {
+      try {
+        const text = await buildVersionEmbeddingText(ctx, table, row.versionId)
+        if (text === null) continue
+        await ctx.runMutation(internal.embeddingMigration.setEmbeddingSlotInternal, {
+          embeddingId: row.embeddingId,
+          slot,
+          embedding: await provider.embed(text),
+          model: provider.id,
+        })
+        updated++
+      } catch (error) {
+        failed++
+        console.error('Embedding backfill failed for version', row.versionId, error)
+      }
+    }
+
+    // Skills first, then souls from the start of their table.
+    const isDone = page.isDone && table === 'soulEmbeddings'
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.embeddingMigration.backfillEmbeddingsInternal, {
+        slot,
+        table: page.isDone ? 'soulEmbeddings' : table,
+        cursor: page.isDone ? undefined : page.continueCursor,
+        batchSize: args.batchSize,
+      })
+    }
+    return { table, slot, model: provider.id, updated, failed, isDone }
+  },
+})
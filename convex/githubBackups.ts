@@ -3,6 +3,7 @@ import { internal } from './_generated/api'
 import type { Doc, Id } from './_generated/dataModel'
 import { action, internalMutation, internalQuery } from './_generated/server'
 import { assertRole, requireUserFromAction } from './lib/access'
+import { formatOrgOwnerParam } from './lib/orgs'
 
 const DEFAULT_BATCH_SIZE = 50
 const MAX_BATCH_SIZE = 200
@@ -83,6 +84,7 @@ export const getGitHubBackupPageInternal = internalQuery({
         items.push({ kind: 'missingOwner', skillId: skill._id, ownerUserId: skill.ownerUserId })
         continue
       }
+      const org = skill.ownerOrgId ? await ctx.db.get(skill.ownerOrgId) : null
 
       items.push({
         kind: 'ok',
@@ -91,7 +93,8 @@ export const getGitHubBackupPageInternal = internalQuery({
         slug: skill.slug,
         displayName: skill.displayName,
         version: version.version,
-        ownerHandle: owner.handle ?? owner._id,
+        ownerHandle:
+          org && !org.deletedAt ? formatOrgOwnerParam(org.handle) : (owner.handle ?? owner._id),
         files: version.files,
         publishedAt: version.createdAt,
       })
@@ -14,6 +14,7 @@ import {
   listGitHubSkillBackupEntries,
   normalizeOwner,
 } from './lib/githubBackup'
+import { formatOrgOwnerParam } from './lib/orgs'
 
 const DEFAULT_BATCH_SIZE = 50
 const MAX_BATCH_SIZE = 200
@@ -209,7 +210,14 @@ async function pruneDeletedSkillBackups(
         continue
       }
 
-      const ownerHandle = normalizeOwner(owner.handle ?? owner._id)
+      const org = skill.ownerOrgId
+        ? ((await ctx.runQuery(internal.orgs.getByIdInternal, {
+            orgId: skill.ownerOrgId,
+          })) as Doc<'orgs'> | null)
+        : null
+      const ownerHandle = normalizeOwner(
+        org ? formatOrgOwnerParam(org.handle) : (owner.handle ?? owner._id),
+      )
       if (ownerHandle !== entry.owner) {
         await deleteBackupIfNeeded(context, entry, dryRun, stats)
       }
@@ -2,6 +2,7 @@ import { v } from 'convex/values'
 import { internal } from './_generated/api'
 import { internalMutation } from './_generated/server'
 import { assertAdmin } from './lib/access'
+import { removeSkillSearchDoc } from './searchIndex'
 
 export const evictSquatterSkillForRestoreInternal = internalMutation({
   args: {
@@ -50,6 +51,7 @@ export const evictSquatterSkillForRestoreInternal = internalMutation({
         updatedAt: now,
       })
     }
+    await removeSkillSearchDoc(ctx, existingSkill._id)
 
     // Cleanup the rest asynchronously (versions, fingerprints, installs, etc.)
     await ctx.scheduler.runAfter(0, internal.skills.hardDeleteInternal, {
@@ -14,8 +14,12 @@ import {
   searchSkillsHttp,
 } from './httpApi'
 import {
+  collectionsGetRouterV1Http,
+  emailUnsubscribeV1Http,
   listSkillsV1Http,
   listSoulsV1Http,
+  notificationsGetRouterV1Http,
+  notificationsPostRouterV1Http,
   publishSkillV1Http,
   publishSoulV1Http,
   resolveSkillVersionV1Http,
@@ -30,6 +34,9 @@ import {
   starsPostRouterV1Http,
   usersListV1Http,
   usersPostRouterV1Http,
+  webhooksDeleteRouterV1Http,
+  webhooksGetRouterV1Http,
+  webhooksPostRouterV1Http,
   whoamiV1Http,
 } from './httpApiV1'
 import { preflightHandler } from './httpPreflight'
@@ -98,6 +105,42 @@ http.route({
   handler: starsDeleteRouterV1Http,
 })
 
+http.route({
+  path: ApiRoutes.collections,
+  method: 'GET',
+  handler: collectionsGetRouterV1Http,
+})
+
+http.route({
+  pathPrefix: `${ApiRoutes.collections}/`,
+  method: 'GET',
+  handler: collectionsGetRouterV1Http,
+})
+
+http.route({
+  path: ApiRoutes.notifications,
+  method: 'GET',
+  handler: notificationsGetRouterV1Http,
+})
+
+http.route({
+  pathPrefix: `${ApiRoutes.notifications}/`,
+  method: 'POST',
+  handler: notificationsPostRouterV1Http,
+})
+
+http.route({
+  path: ApiRoutes.emailUnsubscribe,
+  method: 'GET',
+  handler: emailUnsubscribeV1Http,
+})
+
+http.route({
+  path: ApiRoutes.emailUnsubscribe,
+  method: 'POST',
+  handler: emailUnsubscribeV1Http,
+})
+
 http.route({
   path: ApiRoutes.whoami,
   method: 'GET',
@@ -146,6 +189,36 @@ http.route({
   handler: soulsDeleteRouterV1Http,
 })
 
+http.route({
+  path: ApiRoutes.webhooks,
+  method: 'GET',
+  handler: webhooksGetRouterV1Http,
+})
+
+http.route({
+  pathPrefix: `${ApiRoutes.webhooks}/`,
+  method: 'GET',
+  handler: webhooksGetRouterV1Http,
+})
+
+http.route({
+  path: ApiRoutes.webhooks,
+  method: 'POST',
+  handler: webhooksPostRouterV1Http,
+})
+
+http.route({
+  pathPrefix: `${ApiRoutes.webhooks}/`,
+  method: 'POST',
+  handler: webhooksPostRouterV1Http,
+})
+
+http.route({
+  pathPrefix: `${ApiRoutes.webhooks}/`,
+  method: 'DELETE',
+  handler: webhooksDeleteRouterV1Http,
+})
+
 http.route({
   pathPrefix: '/api/',
   method: 'OPTIONS',
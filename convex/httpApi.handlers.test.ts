@@ -295,6 +295,31 @@ describe('httpApi handlers', () => {
     expect(response.status).toBe(401)
   })
 
+  it('cliTelemetrySyncHttp requires the telemetry scope', async () => {
+    const request = () =>
+      new Request('https://x/api/cli/telemetry/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roots: [] }),
+      })
+    vi.mocked(requireApiTokenUser).mockRejectedValueOnce(
+      new Error('Forbidden: token is missing the "telemetry" scope'),
+    )
+    const runMutation = vi.fn().mockResolvedValue(null)
+    const denied = await __handlers.cliTelemetrySyncHandler(makeCtx({ runMutation }), request())
+    expect(denied.status).toBe(403)
+    expect(await denied.text()).toContain('"telemetry"')
+    expect(runMutation).not.toHaveBeenCalled()
+
+    vi.mocked(requireApiTokenUser).mockResolvedValueOnce({ userId: 'users:1' } as never)
+    await __handlers.cliTelemetrySyncHandler(makeCtx({ runMutation }), request())
+    expect(requireApiTokenUser).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.anything(),
+      'telemetry',
+    )
+  })
+
   it('cliUploadUrlHttp returns uploadUrl', async () => {
     vi.mocked(requireApiTokenUser).mockResolvedValueOnce({ userId: 'user1' } as never)
     const runMutation = vi.fn().mockResolvedValue('https://upload.local')
@@ -12,6 +12,7 @@ import type { ActionCtx } from './_generated/server'
 import { httpAction } from './_generated/server'
 import { requireApiTokenUser } from './lib/apiTokenAuth'
 import { corsHeaders, mergeHeaders } from './lib/httpHeaders'
+import { isMissingTokenScopeError, requireTokenScope } from './lib/tokenScopes'
 import { publishVersionForUser } from './skills'
 
 type SearchSkillEntry = {
@@ -140,12 +141,13 @@ export const cliWhoamiHttp = httpAction(cliWhoamiHandler)
 
 async function cliUploadUrlHandler(ctx: ActionCtx, request: Request) {
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, 'publish')
     const uploadUrl = await ctx.runMutation(internal.uploads.generateUploadUrlForUserInternal, {
       userId,
     })
     return json({ uploadUrl })
-  } catch {
+  } catch (error) {
+    if (isMissingTokenScopeError(error)) return text(error.message, 403)
     return text('Unauthorized', 401)
   }
 }
@@ -161,13 +163,15 @@ async function cliPublishHandler(ctx: ActionCtx, request: Request) {
   }
 
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId, scopes } = await requireApiTokenUser(ctx, request, 'publish')
     const args = parsePublishBody(body)
+    requireTokenScope(scopes, `publish:${args.slug}`)
     const result = await publishVersionForUser(ctx, userId, args)
     return json({ ok: true, ...result })
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Publish failed'
     if (message.toLowerCase().includes('unauthorized')) return text('Unauthorized', 401)
+    if (isMissingTokenScopeError(error)) return text(message, 403)
     return text(message, 400)
   }
 }
@@ -183,8 +187,9 @@ async function cliSkillDeleteHandler(ctx: ActionCtx, request: Request, deleted:
   }
 
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId, scopes } = await requireApiTokenUser(ctx, request)
     const args = parseArk(CliSkillDeleteRequestSchema, body, 'Delete payload')
+    requireTokenScope(scopes, [`publish:${args.slug}`, 'admin'])
     await ctx.runMutation(internal.skills.setSkillSoftDeletedInternal, {
       userId,
       slug: args.slug,
@@ -195,6 +200,7 @@ async function cliSkillDeleteHandler(ctx: ActionCtx, request: Request, deleted:
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Delete failed'
     if (message.toLowerCase().includes('unauthorized')) return text('Unauthorized', 401)
+    if (isMissingTokenScopeError(error)) return text(message, 403)
     return text(message, 400)
   }
 }
@@ -215,7 +221,7 @@ async function cliTelemetrySyncHandler(ctx: ActionCtx, request: Request) {
   }
 
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, 'telemetry')
     const args = parseArk(CliTelemetrySyncRequestSchema, body, 'Telemetry payload')
     await ctx.runMutation(internal.telemetry.reportCliSyncInternal, {
       userId,
@@ -233,6 +239,7 @@ async function cliTelemetrySyncHandler(ctx: ActionCtx, request: Request) {
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Telemetry failed'
     if (message.toLowerCase().includes('unauthorized')) return text('Unauthorized', 401)
+    if (isMissingTokenScopeError(error)) return text(message, 403)
     return text(message, 400)
   }
 }
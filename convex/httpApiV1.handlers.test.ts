@@ -7,11 +7,15 @@ vi.mock('./lib/apiTokenAuth', () => ({
 }))
 
 vi.mock('./skills', () => ({
+  discardPreviewUploads: vi.fn(),
+  previewPublishForUser: vi.fn(),
   publishVersionForUser: vi.fn(),
 }))
 
 const { getOptionalApiTokenUserId, requireApiTokenUser } = await import('./lib/apiTokenAuth')
-const { publishVersionForUser } = await import('./skills')
+const { discardPreviewUploads, previewPublishForUser, publishVersionForUser } = await import(
+  './skills'
+)
 const { __handlers } = await import('./httpApiV1')
 
 type ActionCtx = import('./_generated/server').ActionCtx
@@ -70,6 +74,7 @@ beforeEach(() => {
   vi.mocked(getOptionalApiTokenUserId).mockResolvedValue(null)
   vi.mocked(requireApiTokenUser).mockReset()
   vi.mocked(publishVersionForUser).mockReset()
+  vi.mocked(previewPublishForUser).mockReset()
 })
 
 describe('httpApiV1 handlers', () => {
@@ -206,13 +211,16 @@ describe('httpApiV1 handlers', () => {
   })
 
   it('search forwards limit and highlightedOnly', async () => {
-    const runAction = vi.fn().mockResolvedValue([
-      {
-        score: 1,
-        skill: { slug: 'a', displayName: 'A', summary: null, updatedAt: 1 },
-        version: { version: '1.0.0' },
-      },
-    ])
+    const runAction = vi.fn().mockResolvedValue({
+      results: [
+        {
+          score: 1,
+          skill: { slug: 'a', displayName: 'A', summary: null, updatedAt: 1 },
+          version: { version: '1.0.0' },
+        },
+      ],
+      facets: {},
+    })
     const runMutation = vi.fn().mockResolvedValue(okRate())
     const response = await __handlers.searchSkillsV1Handler(
       makeCtx({ runAction, runMutation }),
@@ -228,6 +236,69 @@ describe('httpApiV1 handlers', () => {
     })
   })
 
+  it('search parses facet filters and returns facet counts', async () => {
+    const facets = { os: [{ value: 'linux', count: 2 }], env: [{ value: 'none', count: 1 }] }
+    const runAction = vi.fn().mockResolvedValue({ results: [], facets })
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const response = await __handlers.searchSkillsV1Handler(
+      makeCtx({ runAction, runMutation }),
+      new Request(
+        'https://example.com/api/v1/search?q=test&os=linux,macOS&bins=gh&bins=jq&env=none' +
+          '&install=brew&deprecated=false&owner=steipete',
+      ),
+    )
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ results: [], facets })
+    expect(runAction).toHaveBeenCalledWith(expect.anything(), {
+      query: 'test',
+      limit: undefined,
+      highlightedOnly: undefined,
+      filters: {
+        os: ['linux', 'macos'],
+        bins: ['gh', 'jq'],
+        env: 'none',
+        install: ['brew'],
+        nix: undefined,
+        official: undefined,
+        deprecated: false,
+        owner: 'steipete',
+      },
+    })
+  })
+
+  it('search returns score breakdowns with explain=true', async () => {
+    const explain = {
+      vector: { score: 0.5, rank: 1, contribution: 0.5 },
+      bm25: null,
+      lexicalBoost: 0,
+      popularity: 0.1,
+      total: 0.6,
+    }
+    const runAction = vi.fn().mockResolvedValue({
+      results: [
+        {
+          score: 0.6,
+          skill: { slug: 'a', displayName: 'A', summary: null, updatedAt: 1 },
+          version: null,
+          explain,
+        },
+      ],
+      facets: {},
+    })
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const response = await __handlers.searchSkillsV1Handler(
+      makeCtx({ runAction, runMutation }),
+      new Request('https://example.com/api/v1/search?q=test&explain=true'),
+    )
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.results[0].explain).toEqual(explain)
+    expect(runAction).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ query: 'test', explain: true }),
+    )
+  })
+
   it('search rate limits', async () => {
     const runMutation = vi.fn().mockResolvedValue(blockedRate())
     const response = await __handlers.searchSkillsV1Handler(
@@ -535,6 +606,9 @@ describe('httpApiV1 handlers', () => {
       ['installs', 'installsCurrent'],
       ['installs-all-time', 'installsAllTime'],
       ['trending', 'trending'],
+      ['rising', 'rising'],
+      ['new', 'new'],
+      ['top-month', 'topMonth'],
     ]
 
     for (const [input, expected] of checks) {
@@ -554,6 +628,246 @@ describe('httpApiV1 handlers', () => {
     }
   })
 
+  it('skill stats export requires a token and serves csv attachments', async () => {
+    vi.mocked(requireApiTokenUser).mockRejectedValueOnce(new Error('Unauthorized'))
+    const unauthorized = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery: vi.fn(), runMutation: vi.fn().mockResolvedValue(okRate()) }),
+      new Request('https://example.com/api/v1/skills/demo/stats'),
+    )
+    expect(unauthorized.status).toBe(401)
+
+    vi.mocked(requireApiTokenUser).mockResolvedValue({ userId: 'users:1' } as never)
+    const runQuery = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
+      expect(args).toEqual({ userId: 'users:1', slug: 'demo', days: 7, format: 'csv' })
+      return {
+        ok: true,
+        filename: 'demo-stats.csv',
+        contentType: 'text/csv; charset=utf-8',
+        body: 'date,downloads\n',
+      }
+    })
+    const response = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation: vi.fn().mockResolvedValue(okRate()) }),
+      new Request('https://example.com/api/v1/skills/demo/stats?days=7&format=CSV'),
+    )
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8')
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="demo-stats.csv"',
+    )
+    expect(await response.text()).toBe('date,downloads\n')
+
+    const forbidden = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({
+        runQuery: vi.fn().mockResolvedValue({ ok: false, status: 403, message: 'Only the owner' }),
+        runMutation: vi.fn().mockResolvedValue(okRate()),
+      }),
+      new Request('https://example.com/api/v1/skills/demo/stats'),
+    )
+    expect(forbidden.status).toBe(403)
+
+    const badFormat = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery: vi.fn(), runMutation: vi.fn().mockResolvedValue(okRate()) }),
+      new Request('https://example.com/api/v1/skills/demo/stats?format=xml'),
+    )
+    expect(badFormat.status).toBe(400)
+  })
+
+  it('collections list public sets and resolve one by owner/name', async () => {
+    const collection = {
+      _id: 'collections:1',
+      name: 'onboarding',
+      displayName: 'Onboarding kit',
+      description: null,
+      visibility: 'public',
+      itemCount: 1,
+      createdAt: 1,
+      updatedAt: 2,
+    }
+    const runQuery = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
+      if ('name' in args) {
+        if (args.name !== 'onboarding') return null
+        return {
+          collection,
+          owner: { handle: 'alice' },
+          isOwner: false,
+          items: [
+            {
+              note: 'Start here',
+              versionPin: '^1.0.0',
+              latestVersion: '1.2.0',
+              skill: { slug: 'demo', displayName: 'Demo', summary: 'A demo' },
+            },
+          ],
+        }
+      }
+      expect(args).toEqual({ owner: 'alice', limit: 5 })
+      return [{ ...collection, owner: { handle: 'alice' } }]
+    })
+
+    const list = await __handlers.collectionsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation: vi.fn().mockResolvedValue(okRate()) }),
+      new Request('https://example.com/api/v1/collections?owner=alice&limit=5'),
+    )
+    expect(list.status).toBe(200)
+    expect(await list.json()).toEqual({
+      items: [
+        {
+          owner: 'alice',
+          name: 'onboarding',
+          displayName: 'Onboarding kit',
+          description: null,
+          itemCount: 1,
+          updatedAt: 2,
+        },
+      ],
+    })
+
+    const detail = await __handlers.collectionsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation: vi.fn().mockResolvedValue(okRate()) }),
+      new Request('https://example.com/api/v1/collections/alice/onboarding'),
+    )
+    expect(detail.status).toBe(200)
+    const body = await detail.json()
+    expect(body.items).toEqual([
+      {
+        slug: 'demo',
+        displayName: 'Demo',
+        summary: 'A demo',
+        note: 'Start here',
+        versionPin: '^1.0.0',
+        latestVersion: '1.2.0',
+      },
+    ])
+
+    const missing = await __handlers.collectionsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation: vi.fn().mockResolvedValue(okRate()) }),
+      new Request('https://example.com/api/v1/collections/alice/missing'),
+    )
+    expect(missing.status).toBe(404)
+  })
+
+  it('notifications lists the token owner inbox', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user' },
+    } as never)
+    const runQuery = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
+      expect(args).toEqual({ userId: 'users:1', limit: 5, unreadOnly: true })
+      return {
+        items: [
+          {
+            _id: 'notifications:1',
+            kind: 'skill.comment',
+            title: '@bob commented on Demo',
+            body: 'Nice',
+            url: '/alice/demo',
+            createdAt: 1,
+            readAt: null,
+          },
+        ],
+        unreadCount: 1,
+      }
+    })
+
+    const response = await __handlers.notificationsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation: vi.fn().mockResolvedValue(okRate()) }),
+      new Request('https://example.com/api/v1/notifications?unread=1&limit=5'),
+    )
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      items: [
+        {
+          id: 'notifications:1',
+          kind: 'skill.comment',
+          title: '@bob commented on Demo',
+          body: 'Nice',
+          url: '/alice/demo',
+          createdAt: 1,
+          readAt: null,
+        },
+      ],
+      unreadCount: 1,
+    })
+  })
+
+  it('notifications/read requires ids or all', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { _id: 'users:1', role: 'user' },
+    } as never)
+    const runMutation = vi.fn(async (_mutation: unknown, args: Record<string, unknown>) => {
+      if (isRateLimitArgs(args)) return okRate()
+      return { ok: true, updated: 2 }
+    })
+
+    const missing = await __handlers.notificationsPostRouterV1Handler(
+      makeCtx({ runMutation }),
+      new Request('https://example.com/api/v1/notifications/read', {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }),
+    )
+    expect(missing.status).toBe(400)
+
+    const response = await __handlers.notificationsPostRouterV1Handler(
+      makeCtx({ runMutation }),
+      new Request('https://example.com/api/v1/notifications/read', {
+        method: 'POST',
+        body: JSON.stringify({ all: true }),
+      }),
+    )
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ ok: true, updated: 2 })
+    expect(runMutation).toHaveBeenLastCalledWith(expect.anything(), {
+      userId: 'users:1',
+      notificationIds: undefined,
+      all: true,
+    })
+    expect(requireApiTokenUser).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.anything(),
+      'notifications',
+    )
+  })
+
+  it('email/unsubscribe confirms on GET and turns digests off on a signed POST only', async () => {
+    vi.stubEnv('EMAIL_UNSUBSCRIBE_SECRET', 'digest-secret')
+    const { signUnsubscribeToken } = await import('./lib/emailDigest')
+    const token = await signUnsubscribeToken('digest-secret', 'users:1')
+    const runMutation = vi.fn(async (_mutation: unknown, args: Record<string, unknown>) => {
+      if (isRateLimitArgs(args)) return okRate()
+      return { ok: true }
+    })
+
+    const forged = await __handlers.emailUnsubscribeV1Handler(
+      makeCtx({ runMutation }),
+      new Request(`https://example.com/api/v1/email/unsubscribe?user=users:2&token=${token}`),
+    )
+    expect(forged.status).toBe(400)
+
+    const confirm = await __handlers.emailUnsubscribeV1Handler(
+      makeCtx({ runMutation }),
+      new Request(`https://example.com/api/v1/email/unsubscribe?user=users:1&token=${token}`),
+    )
+    expect(confirm.status).toBe(200)
+    expect(confirm.headers.get('Content-Type')).toContain('text/html')
+    expect(await confirm.text()).toContain(
+      `<form method="post" action="/api/v1/email/unsubscribe?user=users:1&amp;token=${token}">`,
+    )
+    expect(runMutation.mock.calls.every(([, args]) => isRateLimitArgs(args))).toBe(true)
+
+    const response = await __handlers.emailUnsubscribeV1Handler(
+      makeCtx({ runMutation }),
+      new Request(`https://example.com/api/v1/email/unsubscribe?user=users:1&token=${token}`, {
+        method: 'POST',
+      }),
+    )
+    expect(response.status).toBe(200)
+    expect(runMutation).toHaveBeenLastCalledWith(expect.anything(), { userId: 'users:1' })
+    vi.unstubAllEnvs()
+  })
+
   it('get skill returns 404 when missing', async () => {
     const runQuery = vi.fn().mockResolvedValue(null)
     const runMutation = vi.fn().mockResolvedValue(okRate())
@@ -681,6 +995,50 @@ describe('httpApiV1 handlers', () => {
     expect(json.items[0].version).toBe('1.0.0')
   })
 
+  it('hides private skill versions unless the api token has access', async () => {
+    const privateSkill = {
+      _id: 'skills:1',
+      slug: 'demo',
+      displayName: 'Demo',
+      visibility: 'private',
+      ownerUserId: 'users:owner',
+    }
+    const canView = vi.fn(async () => false)
+    const runQuery = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
+      if ('viewerUserId' in args) return canView()
+      if ('slug' in args) return privateSkill
+      if ('skillId' in args && 'cursor' in args) return { items: [], nextCursor: null }
+      return null
+    })
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const request = () => new Request('https://example.com/api/v1/skills/demo/versions')
+
+    const anonymous = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation }),
+      request(),
+    )
+    expect(anonymous.status).toBe(404)
+    expect(canView).not.toHaveBeenCalled()
+
+    vi.mocked(getOptionalApiTokenUserId).mockResolvedValue('users:grantee' as never)
+    const stranger = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation }),
+      request(),
+    )
+    expect(stranger.status).toBe(404)
+
+    canView.mockResolvedValueOnce(true)
+    const grantee = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation }),
+      request(),
+    )
+    expect(grantee.status).toBe(200)
+    expect(runQuery).toHaveBeenCalledWith(expect.anything(), {
+      skillId: 'skills:1',
+      viewerUserId: 'users:grantee',
+    })
+  })
+
   it('returns version detail', async () => {
     const runQuery = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
       if ('slug' in args) {
@@ -715,6 +1073,35 @@ describe('httpApiV1 handlers', () => {
     expect(json.version.files[0].path).toBe('SKILL.md')
   })
 
+  it('includes declared skill dependencies in version detail', async () => {
+    const runQuery = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
+      if ('slug' in args) {
+        return { _id: 'skills:1', slug: 'demo', displayName: 'Demo' }
+      }
+      if ('skillId' in args && 'version' in args) {
+        return {
+          version: '1.0.0',
+          createdAt: 1,
+          changelog: 'c',
+          files: [],
+          parsed: {
+            frontmatter: {},
+            clawdis: { requires: { skills: [{ slug: 'gh-cli', version: '^1.0.0' }] } },
+          },
+        }
+      }
+      return null
+    })
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const response = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery, runMutation }),
+      new Request('https://example.com/api/v1/skills/demo/versions/1.0.0'),
+    )
+    expect(response.status).toBe(200)
+    const json = await response.json()
+    expect(json.version.dependencies).toEqual([{ slug: 'gh-cli', version: '^1.0.0' }])
+  })
+
   it('returns raw file content', async () => {
     const version = {
       version: '1.0.0',
@@ -872,6 +1259,90 @@ describe('httpApiV1 handlers', () => {
     }
   })
 
+  it('publish dry run returns the preview without publishing', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValueOnce({
+      userId: 'users:1',
+      user: { handle: 'p' },
+    } as never)
+    vi.mocked(previewPublishForUser).mockResolvedValueOnce({
+      slug: 'demo',
+      version: '1.0.0',
+      quality: null,
+      moderation: { status: 'hidden', reason: 'pending.scan', flags: [] },
+      scanResults: [],
+    } as never)
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const form = new FormData()
+    form.set(
+      'payload',
+      JSON.stringify({
+        slug: 'demo',
+        displayName: 'Demo',
+        version: '1.0.0',
+        changelog: '',
+        tags: ['latest'],
+        dryRun: true,
+      }),
+    )
+    form.append('files', new Blob(['hello'], { type: 'text/plain' }), 'SKILL.md')
+    const response = await __handlers.publishSkillV1Handler(
+      makeCtx({
+        runMutation,
+        storage: { store: vi.fn().mockResolvedValue('storage:1') },
+      }),
+      new Request('https://example.com/api/v1/skills', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer clh_test' },
+        body: form,
+      }),
+    )
+    if (response.status !== 200) throw new Error(await response.text())
+    expect(await response.json()).toMatchObject({
+      ok: true,
+      dryRun: true,
+      moderation: { reason: 'pending.scan' },
+    })
+    expect(publishVersionForUser).not.toHaveBeenCalled()
+    const previewArgs = vi.mocked(previewPublishForUser).mock.calls[0]?.[2]
+    expect(previewArgs).not.toHaveProperty('dryRun')
+    expect(discardPreviewUploads).toHaveBeenCalledWith(expect.anything(), [
+      expect.objectContaining({ storageId: 'storage:1' }),
+    ])
+  })
+
+  it('json publish dry run discards the staged uploads even when the preview fails', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValueOnce({
+      userId: 'users:1',
+      user: { handle: 'p' },
+    } as never)
+    vi.mocked(previewPublishForUser).mockRejectedValueOnce(new Error('Version already exists'))
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const files = [
+      { path: 'SKILL.md', size: 5, storageId: '_storage:1', sha256: 'a'.repeat(64) },
+    ]
+    const response = await __handlers.publishSkillV1Handler(
+      makeCtx({ runMutation }),
+      new Request('https://example.com/api/v1/skills', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer clh_test', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slug: 'demo',
+          displayName: 'Demo',
+          version: '1.0.0',
+          changelog: '',
+          files,
+          dryRun: true,
+        }),
+      }),
+    )
+
+    expect(response.status).toBe(400)
+    expect(await response.text()).toBe('Version already exists')
+    expect(discardPreviewUploads).toHaveBeenCalledWith(expect.anything(), [
+      expect.objectContaining({ storageId: '_storage:1' }),
+    ])
+  })
+
   it('publish multipart ignores mac junk files', async () => {
     vi.mocked(requireApiTokenUser).mockResolvedValueOnce({
       userId: 'users:1',
@@ -925,6 +1396,49 @@ describe('httpApiV1 handlers', () => {
     expect(response.status).toBe(401)
   })
 
+  it('publish rejects tokens scoped to other slugs', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValueOnce({
+      userId: 'users:1',
+      user: { handle: 'p' },
+      scopes: ['read', 'publish:acme-*'],
+    } as never)
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const response = await __handlers.publishSkillV1Handler(
+      makeCtx({ runMutation }),
+      new Request('https://example.com/api/v1/skills', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer clh_test' },
+        body: JSON.stringify({
+          slug: 'demo',
+          displayName: 'Demo',
+          version: '1.0.0',
+          changelog: 'c',
+          files: [{ path: 'SKILL.md', size: 1, storageId: 'storage:1', sha256: 'abc' }],
+        }),
+      }),
+    )
+    expect(response.status).toBe(403)
+    expect(await response.text()).toBe('Forbidden: token is missing the "publish:demo" scope')
+    expect(publishVersionForUser).not.toHaveBeenCalled()
+  })
+
+  it('star returns 403 naming the missing scope', async () => {
+    vi.mocked(requireApiTokenUser).mockRejectedValueOnce(
+      new Error('Forbidden: token is missing the "star" scope'),
+    )
+    const runMutation = vi.fn().mockResolvedValue(okRate())
+    const response = await __handlers.starsPostRouterV1Handler(
+      makeCtx({ runMutation }),
+      new Request('https://example.com/api/v1/stars/demo', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer clh_test' },
+      }),
+    )
+    expect(response.status).toBe(403)
+    expect(await response.text()).toContain('"star"')
+    expect(vi.mocked(requireApiTokenUser).mock.calls[0]?.[2]).toBe('star')
+  })
+
   it('whoami returns user payload', async () => {
     vi.mocked(requireApiTokenUser).mockResolvedValueOnce({
       userId: 'users:1',
@@ -988,6 +1502,85 @@ describe('httpApiV1 handlers', () => {
     expect(response2.status).toBe(200)
   })
 
+  it('appeal files for the owner and reports the current state', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { handle: 'p' },
+    } as never)
+    const appeal = {
+      id: 'appeals:1',
+      status: 'open',
+      message: 'False positive',
+      response: null,
+      createdAt: 1,
+      resolvedAt: null,
+    }
+    const runMutation = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
+      if ('key' in args) return okRate()
+      return appeal
+    })
+    const response = await __handlers.skillsPostRouterV1Handler(
+      makeCtx({ runMutation }),
+      new Request('https://example.com/api/v1/skills/demo/appeal', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer clh_test', 'content-type': 'application/json' },
+        body: JSON.stringify({ message: 'False positive' }),
+      }),
+    )
+    if (response.status !== 200) throw new Error(await response.text())
+    expect(await response.json()).toEqual({ ok: true, appeal })
+    expect(runMutation).toHaveBeenCalledWith(expect.anything(), {
+      userId: 'users:1',
+      slug: 'demo',
+      message: 'False positive',
+    })
+
+    const runQuery = vi.fn().mockResolvedValue({
+      skillId: 'skills:1',
+      decision: { kind: 'suspicious', label: 'Flagged as suspicious', reason: null },
+      canAppeal: false,
+      appeal,
+    })
+    const response2 = await __handlers.skillsGetRouterV1Handler(
+      makeCtx({ runQuery }),
+      new Request('https://example.com/api/v1/skills/demo/appeal', {
+        headers: { Authorization: 'Bearer clh_test' },
+      }),
+    )
+    expect(response2.status).toBe(200)
+    const json = await response2.json()
+    expect(json.canAppeal).toBe(false)
+    expect(json.appeal.status).toBe('open')
+    expect(json).not.toHaveProperty('skillId')
+  })
+
+  it('appeal rejects missing messages and maps errors', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { handle: 'p' },
+    } as never)
+    const runMutation = vi.fn(async (_query: unknown, args: Record<string, unknown>) => {
+      if ('key' in args) return okRate()
+      throw new Error('Skill not found')
+    })
+    const request = (body: unknown) =>
+      new Request('https://example.com/api/v1/skills/demo/appeal', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer clh_test', 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+    const missing = await __handlers.skillsPostRouterV1Handler(
+      makeCtx({ runMutation }),
+      request({ message: '  ' }),
+    )
+    expect(missing.status).toBe(400)
+    const notFound = await __handlers.skillsPostRouterV1Handler(
+      makeCtx({ runMutation }),
+      request({ message: 'Please review' }),
+    )
+    expect(notFound.status).toBe(404)
+  })
+
   it('ban user requires auth', async () => {
     vi.mocked(requireApiTokenUser).mockRejectedValueOnce(new Error('Unauthorized'))
     const runMutation = vi.fn().mockResolvedValue(okRate())
@@ -1148,6 +1741,76 @@ describe('httpApiV1 handlers', () => {
     expect(json.unstarred).toBe(true)
   })
 
+  it('webhooks create registers an endpoint for the token user', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { handle: 'p' },
+    } as never)
+    const runMutation = vi
+      .fn()
+      .mockResolvedValueOnce(okRate())
+      .mockResolvedValueOnce({ endpointId: 'webhookEndpoints:1', secret: 'whsec_x' })
+    const response = await __handlers.webhooksPostRouterV1Handler(
+      makeCtx({ runMutation }),
+      new Request('https://example.com/api/v1/webhooks', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer clh_test' },
+        body: JSON.stringify({ url: 'https://hooks.example/x', events: ['skill.comment', 42] }),
+      }),
+    )
+    expect(response.status).toBe(201)
+    expect(runMutation).toHaveBeenLastCalledWith(expect.anything(), {
+      userId: 'users:1',
+      url: 'https://hooks.example/x',
+      events: ['skill.comment'],
+      label: undefined,
+    })
+    expect((await response.json()).secret).toBe('whsec_x')
+  })
+
+  it('webhooks map ownership and validation errors', async () => {
+    vi.mocked(requireApiTokenUser).mockResolvedValue({
+      userId: 'users:1',
+      user: { handle: 'p' },
+    } as never)
+    const forbidden = await __handlers.webhooksPostRouterV1Handler(
+      makeCtx({
+        runMutation: vi
+          .fn()
+          .mockResolvedValueOnce(okRate())
+          .mockRejectedValueOnce(new Error('Forbidden')),
+      }),
+      new Request('https://example.com/api/v1/webhooks/webhookEndpoints:2/test', {
+        method: 'POST',
+      }),
+    )
+    expect(forbidden.status).toBe(403)
+
+    const invalid = await __handlers.webhooksPostRouterV1Handler(
+      makeCtx({
+        runMutation: vi
+          .fn()
+          .mockResolvedValueOnce(okRate())
+          .mockRejectedValueOnce(new Error('Webhook URL must use https')),
+      }),
+      new Request('https://example.com/api/v1/webhooks', {
+        method: 'POST',
+        body: JSON.stringify({ url: 'http://hooks.example/x', events: ['skill.comment'] }),
+      }),
+    )
+    expect(invalid.status).toBe(400)
+    expect(await invalid.text()).toBe('Webhook URL must use https')
+  })
+
+  it('webhooks require auth', async () => {
+    vi.mocked(requireApiTokenUser).mockRejectedValueOnce(new Error('Unauthorized'))
+    const response = await __handlers.webhooksGetRouterV1Handler(
+      makeCtx({}),
+      new Request('https://example.com/api/v1/webhooks'),
+    )
+    expect(response.status).toBe(401)
+  })
+
   it('delete/undelete map forbidden/not-found/unknown to 403/404/500', async () => {
     vi.mocked(requireApiTokenUser).mockResolvedValue({
       userId: 'users:1',
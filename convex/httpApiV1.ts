@@ -1,5 +1,11 @@
 import { httpAction } from './_generated/server'
 
+import { collectionsGetRouterV1Handler } from './httpApiV1/collectionsV1'
+import { emailUnsubscribeV1Handler } from './httpApiV1/emailV1'
+import {
+  notificationsGetRouterV1Handler,
+  notificationsPostRouterV1Handler,
+} from './httpApiV1/notificationsV1'
 import {
   listSkillsV1Handler,
   publishSkillV1Handler,
@@ -18,6 +24,11 @@ import {
 } from './httpApiV1/soulsV1'
 import { starsDeleteRouterV1Handler, starsPostRouterV1Handler } from './httpApiV1/starsV1'
 import { usersListV1Handler, usersPostRouterV1Handler } from './httpApiV1/usersV1'
+import {
+  webhooksDeleteRouterV1Handler,
+  webhooksGetRouterV1Handler,
+  webhooksPostRouterV1Handler,
+} from './httpApiV1/webhooksV1'
 import { whoamiV1Handler } from './httpApiV1/whoamiV1'
 
 export const searchSkillsV1Http = httpAction(searchSkillsV1Handler)
@@ -37,10 +48,21 @@ export const soulsDeleteRouterV1Http = httpAction(soulsDeleteRouterV1Handler)
 export const starsPostRouterV1Http = httpAction(starsPostRouterV1Handler)
 export const starsDeleteRouterV1Http = httpAction(starsDeleteRouterV1Handler)
 
+export const collectionsGetRouterV1Http = httpAction(collectionsGetRouterV1Handler)
+
+export const notificationsGetRouterV1Http = httpAction(notificationsGetRouterV1Handler)
+export const notificationsPostRouterV1Http = httpAction(notificationsPostRouterV1Handler)
+
+export const emailUnsubscribeV1Http = httpAction(emailUnsubscribeV1Handler)
+
 export const whoamiV1Http = httpAction(whoamiV1Handler)
 export const usersPostRouterV1Http = httpAction(usersPostRouterV1Handler)
 export const usersListV1Http = httpAction(usersListV1Handler)
 
+export const webhooksGetRouterV1Http = httpAction(webhooksGetRouterV1Handler)
+export const webhooksPostRouterV1Http = httpAction(webhooksPostRouterV1Handler)
+export const webhooksDeleteRouterV1Http = httpAction(webhooksDeleteRouterV1Handler)
+
 export const __handlers = {
   searchSkillsV1Handler,
   resolveSkillVersionV1Handler,
@@ -56,7 +78,14 @@ export const __handlers = {
   soulsDeleteRouterV1Handler,
   starsPostRouterV1Handler,
   starsDeleteRouterV1Handler,
+  collectionsGetRouterV1Handler,
+  notificationsGetRouterV1Handler,
+  notificationsPostRouterV1Handler,
+  emailUnsubscribeV1Handler,
   whoamiV1Handler,
   usersPostRouterV1Handler,
   usersListV1Handler,
+  webhooksGetRouterV1Handler,
+  webhooksPostRouterV1Handler,
+  webhooksDeleteRouterV1Handler,
 }
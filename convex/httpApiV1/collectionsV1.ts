@@ -0,0 +1,81 @@
+import { api } from '../_generated/api'
+import type { ActionCtx } from '../_generated/server'
+import { applyRateLimit } from '../lib/httpRateLimit'
+import { getPathSegments, json, text, toOptionalNumber } from './shared'
+
+const COLLECTIONS_PREFIX = '/api/v1/collections'
+
+type CollectionSummary = {
+  name: string
+  displayName: string
+  description: string | null
+  itemCount: number
+  updatedAt: number
+  owner: { handle?: string }
+}
+
+type CollectionResult = {
+  collection: Omit<CollectionSummary, 'owner'>
+  owner: { handle?: string }
+  items: Array<{
+    note: string | null
+    versionPin: string | null
+    latestVersion: string | null
+    skill: { slug: string; displayName: string; summary?: string }
+  }>
+} | null
+
+function toCollectionSummary(collection: Omit<CollectionSummary, 'owner'>, owner: string | null) {
+  return {
+    owner,
+    name: collection.name,
+    displayName: collection.displayName,
+    description: collection.description,
+    itemCount: collection.itemCount,
+    updatedAt: collection.updatedAt,
+  }
+}
+
+export async function collectionsGetRouterV1Handler(ctx: ActionCtx, request: Request) {
+  const rate = await applyRateLimit(ctx, request, 'read')
+  if (!rate.ok) return rate.response
+
+  const segments = getPathSegments(request, `${COLLECTIONS_PREFIX}/`)
+  if (segments.length === 0) {
+    const url = new URL(request.url)
+    const owner = url.searchParams.get('owner')?.trim() || undefined
+    const limit = toOptionalNumber(url.searchParams.get('limit'))
+    const collections = (await ctx.runQuery(api.collections.listPublic, {
+      owner,
+      limit,
+    })) as CollectionSummary[]
+    const items = collections.map((collection) =>
+      toCollectionSummary(collection, collection.owner.handle ?? null),
+    )
+    return json({ items }, 200, rate.headers)
+  }
+
+  if (segments.length !== 2) return text('Not found', 404, rate.headers)
+  const [owner, name] = segments
+  const result = (await ctx.runQuery(api.collections.getByOwnerAndName, {
+    owner,
+    name,
+  })) as CollectionResult
+  if (!result) return text('Collection not found', 404, rate.headers)
+
+  return json(
+    {
+      collection: toCollectionSummary(result.collection, result.owner.handle ?? null),
+      items: result.items.map((item) => ({
+        slug: item.skill.slug,
+        displayName: item.skill.displayName,
+        summary: item.skill.summary ?? null,
+        note: item.note,
+        versionPin: item.versionPin,
+        latestVersion: item.latestVersion,
+      })),
+    },
+    200,
+    rate.headers,
+  )
+}
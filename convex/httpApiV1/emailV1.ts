@@ -0,0 +1,59 @@
+import { internal } from '../_generated/api'
+import type { Id } from '../_generated/dataModel'
+import type { ActionCtx } from '../_generated/server'
+import { escapeHtml, getEmailConfig, verifyUnsubscribeToken } from '../lib/emailDigest'
+import { applyRateLimit } from '../lib/httpRateLimit'
+import { html, text } from './shared'
+
+function unsubscribeConfirmPage(action: string) {
+  return [
+    '<!doctype html>',
+    '<html><head><meta charset="utf-8"><title>Unsubscribe from ClawHub digests</title></head>',
+    '<body style="font-family: sans-serif; max-width: 480px; margin: 48px auto;">',
+    '<p>Stop receiving ClawHub email digests?</p>',
+    `<form method="post" action="${escapeHtml(action)}">`,
+    '<button type="submit">Unsubscribe</button>',
+    '</form>',
+    '</body></html>',
+  ].join('\n')
+}
+
+/**
+ * Digest unsubscribe. GET serves the link in the email body and only renders a confirmation
+ * form, so link scanners and prefetchers cannot unsubscribe anyone; POST (the form, or mail
+ * clients honoring `List-Unsubscribe-Post`, RFC 8058) turns digests off and is idempotent.
+ */
+export async function emailUnsubscribeV1Handler(ctx: ActionCtx, request: Request) {
+  const rate = await applyRateLimit(ctx, request, 'read')
+  if (!rate.ok) return rate.response
+
+  const url = new URL(request.url)
+  const userId = url.searchParams.get('user')?.trim() ?? ''
+  const token = url.searchParams.get('token')?.trim() ?? ''
+  const { siteUrl, unsubscribeSecret } = getEmailConfig()
+  if (!userId || !token || !unsubscribeSecret) {
+    return text('Invalid unsubscribe link', 400, rate.headers)
+  }
+  if (!(await verifyUnsubscribeToken(unsubscribeSecret, userId, token))) {
+    return text('Invalid unsubscribe link', 400, rate.headers)
+  }
+  if (request.method !== 'POST') {
+    return html(unsubscribeConfirmPage(`${url.pathname}${url.search}`), 200, rate.headers)
+  }
+
+  try {
+    const result = await ctx.runMutation(internal.emailDigests.unsubscribeInternal, {
+      userId: userId as Id<'users'>,
+    })
+    if (!result.ok) return text('Invalid unsubscribe link', 400, rate.headers)
+  } catch {
+    // A signed but malformed id only happens if the secret leaked; treat it like a bad link.
+    return text('Invalid unsubscribe link', 400, rate.headers)
+  }
+
+  return text(
+    `You are unsubscribed from ClawHub email digests. Turn them back on at ${siteUrl}/settings`,
+    200,
+    rate.headers,
+  )
+}
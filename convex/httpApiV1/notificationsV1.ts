@@ -0,0 +1,98 @@
+import { internal } from '../_generated/api'
+import type { Id } from '../_generated/dataModel'
+import type { ActionCtx } from '../_generated/server'
+import { applyRateLimit } from '../lib/httpRateLimit'
+import {
+  getPathSegments,
+  json,
+  parseJsonPayload,
+  requireApiTokenUserOrResponse,
+  text,
+  toOptionalNumber,
+} from './shared'
+
+const NOTIFICATIONS_PREFIX = '/api/v1/notifications'
+
+type NotificationRow = {
+  _id: string
+  kind: string
+  title: string
+  body: string | null
+  url: string | null
+  createdAt: number
+  readAt: number | null
+}
+
+function toApiNotification(notification: NotificationRow) {
+  return {
+    id: notification._id,
+    kind: notification.kind,
+    title: notification.title,
+    body: notification.body,
+    url: notification.url,
+    createdAt: notification.createdAt,
+    readAt: notification.readAt,
+  }
+}
+
+export async function notificationsGetRouterV1Handler(ctx: ActionCtx, request: Request) {
+  const rate = await applyRateLimit(ctx, request, 'read')
+  if (!rate.ok) return rate.response
+
+  const auth = await requireApiTokenUserOrResponse(ctx, request, rate.headers, 'read')
+  if (!auth.ok) return auth.response
+
+  const segments = getPathSegments(request, `${NOTIFICATIONS_PREFIX}/`)
+  if (segments.length > 0) return text('Not found', 404, rate.headers)
+
+  const url = new URL(request.url)
+  const unread = url.searchParams.get('unread')
+  const result = (await ctx.runQuery(internal.notifications.listForUserInternal, {
+    userId: auth.userId,
+    limit: toOptionalNumber(url.searchParams.get('limit')),
+    unreadOnly: unread === '1' || unread === 'true',
+  })) as { items: NotificationRow[]; unreadCount: number }
+
+  return json(
+    { items: result.items.map(toApiNotification), unreadCount: result.unreadCount },
+    200,
+    rate.headers,
+  )
+}
+
+export async function notificationsPostRouterV1Handler(ctx: ActionCtx, request: Request) {
+  const rate = await applyRateLimit(ctx, request, 'write')
+  if (!rate.ok) return rate.response
+
+  // Marking read changes state, so a read-only token is not enough.
+  const auth = await requireApiTokenUserOrResponse(ctx, request, rate.headers, 'notifications')
+  if (!auth.ok) return auth.response
+
+  const segments = getPathSegments(request, `${NOTIFICATIONS_PREFIX}/`)
+  if (segments.length !== 1 || segments[0] !== 'read') {
+    return text('Not found', 404, rate.headers)
+  }
+
+  const payloadResult = await parseJsonPayload(request, rate.headers)
+  if (!payloadResult.ok) return payloadResult.response
+  const payload = payloadResult.payload
+  const all = payload.all === true
+  const ids = Array.isArray(payload.ids)
+    ? payload.ids.filter((id): id is string => typeof id === 'string')
+    : []
+  if (!all && ids.length === 0) return text('Pass ids or all: true', 400, rate.headers)
+
+  try {
+    const result = await ctx.runMutation(internal.notifications.markReadForUserInternal, {
+      userId: auth.userId,
+      notificationIds: all ? undefined : (ids as Id<'notifications'>[]),
+      all,
+    })
+    return json(result, 200, rate.headers)
+  } catch (error) {
+    // Malformed ids fail argument validation.
+    const message = error instanceof Error ? error.message : 'Invalid notification ids'
+    const invalidIds = message.includes('validator')
+    return text(invalidIds ? 'Invalid notification ids' : message, 400, rate.headers)
+  }
+}
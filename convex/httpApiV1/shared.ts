@@ -6,6 +6,7 @@ import { assertAdmin } from '../lib/access'
 import { requireApiTokenUser } from '../lib/apiTokenAuth'
 import { corsHeaders, mergeHeaders } from '../lib/httpHeaders'
 import { isMacJunkPath } from '../lib/skills'
+import { isMissingTokenScopeError, type RequiredTokenScope } from '../lib/tokenScopes'
 
 export const MAX_RAW_FILE_BYTES = 200 * 1024
 
@@ -78,6 +79,20 @@ export function text(value: string, status: number, headers?: HeadersInit) {
   })
 }
 
+export function html(value: string, status: number, headers?: HeadersInit) {
+  return new Response(value, {
+    status,
+    headers: mergeHeaders(
+      {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+      headers,
+      corsHeaders(),
+    ),
+  })
+}
+
 export async function parseJsonPayload(request: Request, headers: HeadersInit) {
   try {
     const payload = (await request.json()) as Record<string, unknown>
@@ -91,15 +106,22 @@ export async function requireApiTokenUserOrResponse(
   ctx: ActionCtx,
   request: Request,
   headers: HeadersInit,
+  scope?: RequiredTokenScope | RequiredTokenScope[],
 ) {
   try {
-    const auth = await requireApiTokenUser(ctx, request)
+    const auth = await requireApiTokenUser(ctx, request, scope)
     return { ok: true as const, userId: auth.userId, user: auth.user as Doc<'users'> }
-  } catch {
-    return { ok: false as const, response: text('Unauthorized', 401, headers) }
+  } catch (error) {
+    return { ok: false as const, response: tokenAuthErrorResponse(error, headers) }
   }
 }
 
+/** A missing token scope is a 403 that names the scope; anything else is a plain 401. */
+export function tokenAuthErrorResponse(error: unknown, headers: HeadersInit) {
+  if (isMissingTokenScopeError(error)) return text(error.message, 403, headers)
+  return text('Unauthorized', 401, headers)
+}
+
 export function requireAdminOrResponse(user: Doc<'users'>, headers: HeadersInit) {
   try {
     assertAdmin(user)
@@ -228,6 +250,9 @@ export async function parseMultipartPublish(
   changelog: string
   tags?: string[]
   forkOf?: { slug: string; version?: string }
+  org?: string
+  visibility?: 'public' | 'unlisted' | 'private'
+  dryRun: boolean
   files: Array<{
     path: string
     size: number
@@ -279,6 +304,9 @@ export async function parseMultipartPublish(
     ...(payload.source ? { source: payload.source } : {}),
     files,
     ...(forkOf ? { forkOf } : {}),
+    ...(typeof payload.org === 'string' && payload.org.trim() ? { org: payload.org } : {}),
+    ...(typeof payload.visibility === 'string' ? { visibility: payload.visibility } : {}),
+    ...(payload.dryRun === true ? { dryRun: true } : {}),
   }
 
   return parsePublishBody(body)
@@ -301,6 +329,9 @@ export function parsePublishBody(body: unknown) {
           version: parsed.forkOf.version ?? undefined,
         }
       : undefined,
+    org: parsed.org?.trim() || undefined,
+    visibility: parsed.visibility,
+    dryRun: parsed.dryRun === true,
     files: parsed.files.map((file) => ({
       ...file,
       storageId: file.storageId as Id<'_storage'>,
@@ -317,6 +348,7 @@ export function softDeleteErrorToResponse(
   const lower = message.toLowerCase()
 
   if (lower.includes('unauthorized')) return text('Unauthorized', 401, headers)
+  if (isMissingTokenScopeError(error)) return text(message, 403, headers)
   if (lower.includes('forbidden')) return text('Forbidden', 403, headers)
   if (lower.includes('not found')) return text(message, 404, headers)
   if (lower.includes('slug required')) return text('Slug required', 400, headers)
@@ -2,19 +2,30 @@ import { api, internal } from '../_generated/api'
 import type { Doc, Id } from '../_generated/dataModel'
 import type { ActionCtx } from '../_generated/server'
 import { getOptionalApiTokenUserId, requireApiTokenUser } from '../lib/apiTokenAuth'
+import { corsHeaders, mergeHeaders } from '../lib/httpHeaders'
 import { applyRateLimit, parseBearerToken } from '../lib/httpRateLimit'
-import { publishVersionForUser } from '../skills'
+import {
+  hasSearchFilters,
+  type SearchFacetCounts,
+  type SkillSearchFilters,
+} from '../lib/searchFacets'
+import { getSkillVisibility } from '../lib/skillVisibility'
+import { isMissingTokenScopeError, requireTokenScope } from '../lib/tokenScopes'
+import { discardPreviewUploads, previewPublishForUser, publishVersionForUser } from '../skills'
 import {
   MAX_RAW_FILE_BYTES,
   getPathSegments,
   json,
+  parseJsonPayload,
   parseMultipartPublish,
   parsePublishBody,
+  requireApiTokenUserOrResponse,
   resolveTagsBatch,
   safeTextFileResponse,
   softDeleteErrorToResponse,
   text,
   toOptionalNumber,
+  tokenAuthErrorResponse,
 } from './shared'
 
 type SearchSkillEntry = {
@@ -26,8 +37,24 @@ type SearchSkillEntry = {
     updatedAt?: number
   } | null
   version: { version?: string; createdAt?: number } | null
+  explain?: unknown
 }
 
+type AppealState = {
+  decision: { kind: string; label: string; reason: string | null } | null
+  canAppeal: boolean
+  appeal: {
+    id: string
+    status: string
+    message: string
+    response: string | null
+    createdAt: number
+    resolvedAt: number | null
+  } | null
+}
+
+type FacetedSearchResult = { results: SearchSkillEntry[]; facets: SearchFacetCounts }
+
 type ListSkillsResult = {
   items: Array<{
     skill: {
@@ -63,9 +90,11 @@ type GetBySlugResult = {
     stats: unknown
     createdAt: number
     updatedAt: number
+    visibility?: 'public' | 'unlisted' | 'private'
   } | null
   latestVersion: Doc<'skillVersions'> | null
   owner: { _id: Id<'users'>; handle?: string; displayName?: string; image?: string } | null
+  ownerOrg?: { _id: Id<'orgs'>; handle: string; displayName: string } | null
   moderationInfo?: {
     isPendingScan: boolean
     isMalwareBlocked: boolean
@@ -102,14 +131,18 @@ export async function searchSkillsV1Handler(ctx: ActionCtx, request: Request) {
   const query = url.searchParams.get('q')?.trim() ?? ''
   const limit = toOptionalNumber(url.searchParams.get('limit'))
   const highlightedOnly = url.searchParams.get('highlightedOnly') === 'true'
+  const filters = parseSearchFilters(url.searchParams)
+  const explain = url.searchParams.get('explain') === 'true'
 
   if (!query) return json({ results: [] }, 200, rate.headers)
 
-  const results = (await ctx.runAction(api.search.searchSkills, {
+  const { results, facets } = (await ctx.runAction(api.search.searchSkillsWithFacets, {
     query,
     limit,
     highlightedOnly: highlightedOnly || undefined,
-  })) as SearchSkillEntry[]
+    ...(hasSearchFilters(filters) ? { filters } : {}),
+    ...(explain ? { explain } : {}),
+  })) as FacetedSearchResult
 
   return json(
     {
@@ -120,13 +153,44 @@ export async function searchSkillsV1Handler(ctx: ActionCtx, request: Request) {
         summary: result.skill?.summary ?? null,
         version: result.version?.version ?? null,
         updatedAt: result.skill?.updatedAt,
+        ...(explain ? { explain: result.explain } : {}),
       })),
+      facets,
     },
     200,
     rate.headers,
   )
 }
 
+/** `?os=linux,macos&bins=gh&env=none&install=brew&nix=true&official=true&owner=steipete` */
+function parseSearchFilters(params: URLSearchParams): SkillSearchFilters {
+  const list = (name: string) => {
+    const values = params
+      .getAll(name)
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim().toLowerCase())
+      .filter(Boolean)
+    return values.length ? values : undefined
+  }
+  const flag = (name: string) => {
+    const value = params.get(name)?.trim().toLowerCase()
+    if (value === 'true' || value === '1') return true
+    if (value === 'false' || value === '0') return false
+    return undefined
+  }
+  const env = params.get('env')?.trim().toLowerCase()
+  return {
+    os: list('os'),
+    bins: list('bins'),
+    env: env === 'required' || env === 'none' ? env : undefined,
+    install: list('install'),
+    nix: flag('nix'),
+    official: flag('official'),
+    deprecated: flag('deprecated'),
+    owner: params.get('owner')?.trim() || undefined,
+  }
+}
+
 export async function resolveSkillVersionV1Handler(ctx: ActionCtx, request: Request) {
   const rate = await applyRateLimit(ctx, request, 'read')
   if (!rate.ok) return rate.response
@@ -137,7 +201,14 @@ export async function resolveSkillVersionV1Handler(ctx: ActionCtx, request: Requ
   if (!slug || !hash) return text('Missing slug or hash', 400, rate.headers)
   if (!/^[a-f0-9]{64}$/.test(hash)) return text('Invalid hash', 400, rate.headers)
 
-  const resolved = await ctx.runQuery(api.skills.resolveVersionByHash, { slug, hash })
+  const viewerUserId = await getOptionalApiTokenUserId(ctx, request, 'read')
+  const resolved = viewerUserId
+    ? await ctx.runQuery(internal.skills.resolveVersionByHashForViewerInternal, {
+        slug,
+        hash,
+        viewerUserId,
+      })
+    : await ctx.runQuery(api.skills.resolveVersionByHash, { slug, hash })
   if (!resolved) return text('Skill not found', 404, rate.headers)
 
   return json({ slug, match: resolved.match, latestVersion: resolved.latestVersion }, 200, rate.headers)
@@ -150,6 +221,9 @@ type SkillListSort =
   | 'installsCurrent'
   | 'installsAllTime'
   | 'trending'
+  | 'rising'
+  | 'new'
+  | 'topMonth'
 
 function parseListSort(value: string | null): SkillListSort {
   const normalized = value?.trim().toLowerCase()
@@ -167,6 +241,9 @@ function parseListSort(value: string | null): SkillListSort {
     return 'installsAllTime'
   }
   if (normalized === 'trending') return 'trending'
+  if (normalized === 'rising') return 'rising'
+  if (normalized === 'new') return 'new'
+  if (normalized === 'top-month' || normalized === 'topmonth') return 'topMonth'
   return 'updated'
 }
 
@@ -178,7 +255,10 @@ export async function listSkillsV1Handler(ctx: ActionCtx, request: Request) {
   const limit = toOptionalNumber(url.searchParams.get('limit'))
   const rawCursor = url.searchParams.get('cursor')?.trim() || undefined
   const sort = parseListSort(url.searchParams.get('sort'))
-  const cursor = sort === 'trending' ? undefined : rawCursor
+  // Leaderboard sorts are a single precomputed page.
+  const isLeaderboardSort =
+    sort === 'trending' || sort === 'rising' || sort === 'new' || sort === 'topMonth'
+  const cursor = isLeaderboardSort ? undefined : rawCursor
 
   const result = (await ctx.runQuery(api.skills.listPublicPage, {
     limit,
@@ -218,6 +298,38 @@ export async function listSkillsV1Handler(ctx: ActionCtx, request: Request) {
   return json({ items, nextCursor: result.nextCursor ?? null }, 200, rate.headers)
 }
 
+/**
+ * Private skills are resolved against the API token's user; anonymous reads stay on the cached
+ * public query.
+ */
+async function getSkillForRequest(ctx: ActionCtx, request: Request, slug: string) {
+  const viewerUserId = await getOptionalApiTokenUserId(ctx, request, 'read')
+  if (viewerUserId) {
+    return (await ctx.runQuery(internal.skills.getBySlugForViewerInternal, {
+      slug,
+      viewerUserId,
+    })) as GetBySlugResult
+  }
+  return (await ctx.runQuery(api.skills.getBySlug, { slug })) as GetBySlugResult
+}
+
+async function canViewSkillForRequest(ctx: ActionCtx, request: Request, skill: Doc<'skills'>) {
+  if (getSkillVisibility(skill) !== 'private') return true
+  const viewerUserId = await getOptionalApiTokenUserId(ctx, request, 'read')
+  if (!viewerUserId) return false
+  return (await ctx.runQuery(internal.skills.canViewSkillInternal, {
+    skillId: skill._id,
+    viewerUserId,
+  })) as boolean
+}
+
+// Owners get the full record back from getBySlug; the API keeps answering them with the
+// actionable status message instead.
+function isOwnerOnlyModerationState(moderation: NonNullable<GetBySlugResult>['moderationInfo']) {
+  if (!moderation || moderation.isMalwareBlocked) return false
+  return moderation.isPendingScan || moderation.isHiddenByMod || moderation.isRemoved
+}
+
 async function describeOwnerVisibleSkillState(
   ctx: ActionCtx,
   request: Request,
@@ -277,8 +389,8 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
   const third = segments[2]
 
   if (segments.length === 1) {
-    const result = (await ctx.runQuery(api.skills.getBySlug, { slug })) as GetBySlugResult
-    if (!result?.skill) {
+    const result = await getSkillForRequest(ctx, request, slug)
+    if (!result?.skill || isOwnerOnlyModerationState(result.moderationInfo)) {
       const hidden = await describeOwnerVisibleSkillState(ctx, request, slug)
       if (hidden) return text(hidden.message, hidden.status, rate.headers)
       return text('Skill not found', 404, rate.headers)
@@ -295,6 +407,7 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
           stats: result.skill.stats,
           createdAt: result.skill.createdAt,
           updatedAt: result.skill.updatedAt,
+          visibility: result.skill.visibility ?? 'public',
         },
         latestVersion: result.latestVersion
           ? {
@@ -317,6 +430,9 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
               image: result.owner.image ?? null,
             }
           : null,
+        org: result.ownerOrg
+          ? { handle: result.ownerOrg.handle, displayName: result.ownerOrg.displayName }
+          : null,
         moderation: result.moderationInfo
           ? {
               isSuspicious: result.moderationInfo.isSuspicious ?? false,
@@ -331,12 +447,14 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
 
   if (second === 'versions' && segments.length === 2) {
     const skill = await ctx.runQuery(internal.skills.getSkillBySlugInternal, { slug })
-    if (!skill || skill.softDeletedAt) return text('Skill not found', 404, rate.headers)
+    if (!skill || skill.softDeletedAt || !(await canViewSkillForRequest(ctx, request, skill))) {
+      return text('Skill not found', 404, rate.headers)
+    }
 
     const url = new URL(request.url)
     const limit = toOptionalNumber(url.searchParams.get('limit'))
     const cursor = url.searchParams.get('cursor')?.trim() || undefined
-    const result = (await ctx.runQuery(api.skills.listVersionsPage, {
+    const result = (await ctx.runQuery(internal.skills.listVersionsPageInternal, {
       skillId: skill._id,
       limit,
       cursor,
@@ -356,9 +474,11 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
 
   if (second === 'versions' && third && segments.length === 3) {
     const skill = await ctx.runQuery(internal.skills.getSkillBySlugInternal, { slug })
-    if (!skill || skill.softDeletedAt) return text('Skill not found', 404, rate.headers)
+    if (!skill || skill.softDeletedAt || !(await canViewSkillForRequest(ctx, request, skill))) {
+      return text('Skill not found', 404, rate.headers)
+    }
 
-    const version = await ctx.runQuery(api.skills.getVersionBySkillAndVersion, {
+    const version = await ctx.runQuery(internal.skills.getVersionBySkillAndVersionInternal, {
       skillId: skill._id,
       version: third,
     })
@@ -416,6 +536,7 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
             sha256: file.sha256,
             contentType: file.contentType ?? null,
           })),
+          dependencies: version.parsed?.clawdis?.requires?.skills ?? [],
           security,
         },
       },
@@ -424,6 +545,51 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
     )
   }
 
+  if (second === 'stats' && segments.length === 2) {
+    let auth: Awaited<ReturnType<typeof requireApiTokenUser>>
+    try {
+      auth = await requireApiTokenUser(ctx, request, 'read')
+    } catch (error) {
+      return tokenAuthErrorResponse(error, rate.headers)
+    }
+    const url = new URL(request.url)
+    const format = url.searchParams.get('format')?.trim().toLowerCase() || 'json'
+    if (format !== 'json' && format !== 'csv') {
+      return text('format must be json or csv', 400, rate.headers)
+    }
+    const result = await ctx.runQuery(internal.skillAnalytics.exportForUserInternal, {
+      userId: auth.userId,
+      slug,
+      days: toOptionalNumber(url.searchParams.get('days')),
+      format,
+    })
+    if (!result.ok) return text(result.message, result.status, rate.headers)
+    return new Response(result.body, {
+      status: 200,
+      headers: mergeHeaders(
+        {
+          'Content-Type': result.contentType,
+          'Content-Disposition': `attachment; filename="${result.filename}"`,
+          'Cache-Control': 'no-store',
+        },
+        rate.headers,
+        corsHeaders(),
+      ),
+    })
+  }
+
+  if (second === 'appeal' && segments.length === 2) {
+    const auth = await requireApiTokenUserOrResponse(ctx, request, rate.headers, 'read')
+    if (!auth.ok) return auth.response
+    const state = (await ctx.runQuery(internal.appeals.getForSkillInternal, {
+      userId: auth.userId,
+      slug,
+    })) as AppealState | null
+    if (!state) return text('Skill not found', 404, rate.headers)
+    const { decision, canAppeal, appeal } = state
+    return json({ decision, canAppeal, appeal }, 200, rate.headers)
+  }
+
   if (second === 'file' && segments.length === 2) {
     const url = new URL(request.url)
     const path = url.searchParams.get('path')?.trim()
@@ -431,19 +597,19 @@ export async function skillsGetRouterV1Handler(ctx: ActionCtx, request: Request)
     const versionParam = url.searchParams.get('version')?.trim()
     const tagParam = url.searchParams.get('tag')?.trim()
 
-    const skillResult = (await ctx.runQuery(api.skills.getBySlug, { slug })) as GetBySlugResult
+    const skillResult = await getSkillForRequest(ctx, request, slug)
     if (!skillResult?.skill) return text('Skill not found', 404, rate.headers)
 
     let version = skillResult.latestVersion
     if (versionParam) {
-      version = await ctx.runQuery(api.skills.getVersionBySkillAndVersion, {
+      version = await ctx.runQuery(internal.skills.getVersionBySkillAndVersionInternal, {
         skillId: skillResult.skill._id,
         version: versionParam,
       })
     } else if (tagParam) {
       const versionId = skillResult.skill.tags[tagParam]
       if (versionId) {
-        version = await ctx.runQuery(api.skills.getVersionById, { versionId })
+        version = await ctx.runQuery(internal.skills.getVersionByIdInternal, { versionId })
       }
     }
 
@@ -483,23 +649,50 @@ export async function publishSkillV1Handler(ctx: ActionCtx, request: Request) {
   } catch {
     return text('Unauthorized', 401, rate.headers)
   }
-  const { userId } = await requireApiTokenUser(ctx, request)
+  let auth: Awaited<ReturnType<typeof requireApiTokenUser>>
+  try {
+    auth = await requireApiTokenUser(ctx, request, 'publish')
+  } catch (error) {
+    return tokenAuthErrorResponse(error, rate.headers)
+  }
+  const { userId } = auth
 
   const contentType = request.headers.get('content-type') ?? ''
   try {
     if (contentType.includes('application/json')) {
       const body = await request.json()
-      const payload = parsePublishBody(body)
+      const { dryRun, ...payload } = parsePublishBody(body)
+      requireTokenScope(auth.scopes, `publish:${payload.slug}`)
+      if (dryRun) {
+        try {
+          const preview = await previewPublishForUser(ctx, userId, payload)
+          return json({ ok: true, dryRun: true, ...preview }, 200, rate.headers)
+        } finally {
+          await discardPreviewUploads(ctx, payload.files)
+        }
+      }
       const result = await publishVersionForUser(ctx, userId, payload)
       return json({ ok: true, ...result }, 200, rate.headers)
     }
 
     if (contentType.includes('multipart/form-data')) {
-      const payload = await parseMultipartPublish(ctx, request)
+      const { dryRun, ...payload } = await parseMultipartPublish(ctx, request)
+      if (dryRun) {
+        // Files were only stored to be scanned; nothing references them afterwards.
+        try {
+          requireTokenScope(auth.scopes, `publish:${payload.slug}`)
+          const preview = await previewPublishForUser(ctx, userId, payload)
+          return json({ ok: true, dryRun: true, ...preview }, 200, rate.headers)
+        } finally {
+          await discardPreviewUploads(ctx, payload.files)
+        }
+      }
+      requireTokenScope(auth.scopes, `publish:${payload.slug}`)
       const result = await publishVersionForUser(ctx, userId, payload)
       return json({ ok: true, ...result }, 200, rate.headers)
     }
   } catch (error) {
+    if (isMissingTokenScopeError(error)) return text(error.message, 403, rate.headers)
     const message = error instanceof Error ? error.message : 'Publish failed'
     return text(message, 400, rate.headers)
   }
@@ -512,12 +705,14 @@ export async function skillsPostRouterV1Handler(ctx: ActionCtx, request: Request
   if (!rate.ok) return rate.response
 
   const segments = getPathSegments(request, '/api/v1/skills/')
-  if (segments.length !== 2 || segments[1] !== 'undelete') {
+  const action = segments.length === 2 ? segments[1] : null
+  if (action !== 'undelete' && action !== 'appeal') {
     return text('Not found', 404, rate.headers)
   }
   const slug = segments[0]?.trim().toLowerCase() ?? ''
+  if (action === 'appeal') return createAppealV1(ctx, request, slug, rate.headers)
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, [`publish:${slug}`, 'admin'])
     await ctx.runMutation(internal.skills.setSkillSoftDeletedInternal, {
       userId,
       slug,
@@ -529,6 +724,39 @@ export async function skillsPostRouterV1Handler(ctx: ActionCtx, request: Request
   }
 }
 
+async function createAppealV1(
+  ctx: ActionCtx,
+  request: Request,
+  slug: string,
+  headers: HeadersInit,
+) {
+  const auth = await requireApiTokenUserOrResponse(ctx, request, headers, [
+    `publish:${slug}`,
+    'admin',
+  ])
+  if (!auth.ok) return auth.response
+
+  const payloadResult = await parseJsonPayload(request, headers)
+  if (!payloadResult.ok) return payloadResult.response
+  const message = payloadResult.payload.message
+  if (typeof message !== 'string' || !message.trim()) {
+    return text('Appeal message required.', 400, headers)
+  }
+
+  try {
+    const appeal = await ctx.runMutation(internal.appeals.createInternal, {
+      userId: auth.userId,
+      slug,
+      message,
+    })
+    return json({ ok: true, appeal }, 200, headers)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Appeal failed'
+    const status = errorMessage.toLowerCase().includes('not found') ? 404 : 400
+    return text(errorMessage, status, headers)
+  }
+}
+
 export async function skillsDeleteRouterV1Handler(ctx: ActionCtx, request: Request) {
   const rate = await applyRateLimit(ctx, request, 'write')
   if (!rate.ok) return rate.response
@@ -537,7 +765,7 @@ export async function skillsDeleteRouterV1Handler(ctx: ActionCtx, request: Reque
   if (segments.length !== 1) return text('Not found', 404, rate.headers)
   const slug = segments[0]?.trim().toLowerCase() ?? ''
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, [`publish:${slug}`, 'admin'])
     await ctx.runMutation(internal.skills.setSkillSoftDeletedInternal, {
       userId,
       slug,
@@ -3,6 +3,7 @@ import type { Doc, Id } from '../_generated/dataModel'
 import type { ActionCtx } from '../_generated/server'
 import { requireApiTokenUser } from '../lib/apiTokenAuth'
 import { applyRateLimit, parseBearerToken } from '../lib/httpRateLimit'
+import { isMissingTokenScopeError, requireTokenScope } from '../lib/tokenScopes'
 import { publishSoulVersionForUser } from '../souls'
 import {
   MAX_RAW_FILE_BYTES,
@@ -15,6 +16,7 @@ import {
   softDeleteErrorToResponse,
   text,
   toOptionalNumber,
+  tokenAuthErrorResponse,
 } from './shared'
 
 type ListSoulsResult = {
@@ -273,23 +275,34 @@ export async function publishSoulV1Handler(ctx: ActionCtx, request: Request) {
   } catch {
     return text('Unauthorized', 401, rate.headers)
   }
-  const { userId } = await requireApiTokenUser(ctx, request)
+  let auth: Awaited<ReturnType<typeof requireApiTokenUser>>
+  try {
+    auth = await requireApiTokenUser(ctx, request, 'publish')
+  } catch (error) {
+    return tokenAuthErrorResponse(error, rate.headers)
+  }
+  const { userId } = auth
 
   const contentType = request.headers.get('content-type') ?? ''
   try {
     if (contentType.includes('application/json')) {
       const body = await request.json()
       const payload = parsePublishBody(body)
+      if (payload.dryRun) throw new Error('Dry runs are only supported for skills')
+      requireTokenScope(auth.scopes, `publish:${payload.slug}`)
       const result = await publishSoulVersionForUser(ctx, userId, payload)
       return json({ ok: true, ...result }, 200, rate.headers)
     }
 
     if (contentType.includes('multipart/form-data')) {
       const payload = await parseMultipartPublish(ctx, request)
+      if (payload.dryRun) throw new Error('Dry runs are only supported for skills')
+      requireTokenScope(auth.scopes, `publish:${payload.slug}`)
       const result = await publishSoulVersionForUser(ctx, userId, payload)
       return json({ ok: true, ...result }, 200, rate.headers)
     }
   } catch (error) {
+    if (isMissingTokenScopeError(error)) return text(error.message, 403, rate.headers)
     const message = error instanceof Error ? error.message : 'Publish failed'
     return text(message, 400, rate.headers)
   }
@@ -307,7 +320,7 @@ export async function soulsPostRouterV1Handler(ctx: ActionCtx, request: Request)
   }
   const slug = segments[0]?.trim().toLowerCase() ?? ''
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, [`publish:${slug}`, 'admin'])
     await ctx.runMutation(internal.souls.setSoulSoftDeletedInternal, {
       userId,
       slug,
@@ -327,7 +340,7 @@ export async function soulsDeleteRouterV1Handler(ctx: ActionCtx, request: Reques
   if (segments.length !== 1) return text('Not found', 404, rate.headers)
   const slug = segments[0]?.trim().toLowerCase() ?? ''
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, [`publish:${slug}`, 'admin'])
     await ctx.runMutation(internal.souls.setSoulSoftDeletedInternal, {
       userId,
       slug,
@@ -2,7 +2,7 @@ import { internal } from '../_generated/api'
 import type { ActionCtx } from '../_generated/server'
 import { requireApiTokenUser } from '../lib/apiTokenAuth'
 import { applyRateLimit } from '../lib/httpRateLimit'
-import { getPathSegments, json, text } from './shared'
+import { getPathSegments, json, text, tokenAuthErrorResponse } from './shared'
 
 export async function starsPostRouterV1Handler(ctx: ActionCtx, request: Request) {
   const rate = await applyRateLimit(ctx, request, 'write')
@@ -13,7 +13,7 @@ export async function starsPostRouterV1Handler(ctx: ActionCtx, request: Request)
   const slug = segments[0]?.trim().toLowerCase() ?? ''
 
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, 'star')
     const skill = await ctx.runQuery(internal.skills.getSkillBySlugInternal, { slug })
     if (!skill) return text('Skill not found', 404, rate.headers)
 
@@ -22,8 +22,8 @@ export async function starsPostRouterV1Handler(ctx: ActionCtx, request: Request)
       skillId: skill._id,
     })
     return json(result, 200, rate.headers)
-  } catch {
-    return text('Unauthorized', 401, rate.headers)
+  } catch (error) {
+    return tokenAuthErrorResponse(error, rate.headers)
   }
 }
 
@@ -36,7 +36,7 @@ export async function starsDeleteRouterV1Handler(ctx: ActionCtx, request: Reques
   const slug = segments[0]?.trim().toLowerCase() ?? ''
 
   try {
-    const { userId } = await requireApiTokenUser(ctx, request)
+    const { userId } = await requireApiTokenUser(ctx, request, 'star')
     const skill = await ctx.runQuery(internal.skills.getSkillBySlugInternal, { slug })
     if (!skill) return text('Skill not found', 404, rate.headers)
 
@@ -45,7 +45,7 @@ export async function starsDeleteRouterV1Handler(ctx: ActionCtx, request: Reques
       skillId: skill._id,
     })
     return json(result, 200, rate.headers)
-  } catch {
-    return text('Unauthorized', 401, rate.headers)
+  } catch (error) {
+    return tokenAuthErrorResponse(error, rate.headers)
   }
 }
@@ -11,6 +11,7 @@ import {
   requireApiTokenUserOrResponse,
   text,
   toOptionalNumber,
+  tokenAuthErrorResponse,
 } from './shared'
 
 export async function usersPostRouterV1Handler(ctx: ActionCtx, request: Request) {
@@ -30,7 +31,7 @@ export async function usersPostRouterV1Handler(ctx: ActionCtx, request: Request)
   if (!payloadResult.ok) return payloadResult.response
   const payload = payloadResult.payload
 
-  const authResult = await requireApiTokenUserOrResponse(ctx, request, rate.headers)
+  const authResult = await requireApiTokenUserOrResponse(ctx, request, rate.headers, 'admin')
   if (!authResult.ok) return authResult.response
   const actorUserId = authResult.userId
   const actorUser = authResult.user
@@ -220,10 +221,10 @@ export async function usersListV1Handler(ctx: ActionCtx, request: Request) {
 
   let actorUserId: Id<'users'>
   try {
-    const auth = await requireApiTokenUser(ctx, request)
+    const auth = await requireApiTokenUser(ctx, request, 'admin')
     actorUserId = auth.userId
-  } catch {
-    return text('Unauthorized', 401, rate.headers)
+  } catch (error) {
+    return tokenAuthErrorResponse(error, rate.headers)
   }
 
   const limit = Math.min(Math.max(limitRaw ?? 20, 1), 200)
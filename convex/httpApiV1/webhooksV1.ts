@@ -0,0 +1,128 @@
+import { internal } from '../_generated/api'
+import type { Id } from '../_generated/dataModel'
+import type { ActionCtx } from '../_generated/server'
+import { applyRateLimit } from '../lib/httpRateLimit'
+import {
+  getPathSegments,
+  json,
+  parseJsonPayload,
+  requireApiTokenUserOrResponse,
+  text,
+  toOptionalNumber,
+} from './shared'
+
+const WEBHOOKS_PREFIX = '/api/v1/webhooks'
+
+function webhookSegments(request: Request) {
+  return getPathSegments(request, `${WEBHOOKS_PREFIX}/`)
+}
+
+function webhookErrorToResponse(error: unknown, headers: HeadersInit) {
+  const message = error instanceof Error ? error.message : 'Webhook request failed'
+  const lower = message.toLowerCase()
+  if (lower.includes('forbidden')) return text('Forbidden', 403, headers)
+  // Malformed ids fail argument validation; treat them like unknown webhooks.
+  if (lower.includes('not found') || lower.includes('validator')) {
+    return text('Webhook not found', 404, headers)
+  }
+  return text(message, 400, headers)
+}
+
+export async function webhooksGetRouterV1Handler(ctx: ActionCtx, request: Request) {
+  const rate = await applyRateLimit(ctx, request, 'read')
+  if (!rate.ok) return rate.response
+
+  const auth = await requireApiTokenUserOrResponse(ctx, request, rate.headers, 'webhooks')
+  if (!auth.ok) return auth.response
+
+  const segments = webhookSegments(request)
+  if (segments.length === 0) {
+    const items = await ctx.runQuery(internal.webhooks.listForUserInternal, {
+      userId: auth.userId,
+    })
+    return json({ items }, 200, rate.headers)
+  }
+
+  if (segments.length === 2 && segments[1] === 'deliveries') {
+    const limit = toOptionalNumber(new URL(request.url).searchParams.get('limit'))
+    try {
+      const items = await ctx.runQuery(internal.webhooks.listDeliveriesForUserInternal, {
+        userId: auth.userId,
+        endpointId: segments[0] as Id<'webhookEndpoints'>,
+        limit,
+      })
+      return json({ items }, 200, rate.headers)
+    } catch (error) {
+      return webhookErrorToResponse(error, rate.headers)
+    }
+  }
+
+  return text('Not found', 404, rate.headers)
+}
+
+export async function webhooksPostRouterV1Handler(ctx: ActionCtx, request: Request) {
+  const rate = await applyRateLimit(ctx, request, 'write')
+  if (!rate.ok) return rate.response
+
+  const auth = await requireApiTokenUserOrResponse(ctx, request, rate.headers, 'webhooks')
+  if (!auth.ok) return auth.response
+
+  const segments = webhookSegments(request)
+  if (segments.length === 0) {
+    const payloadResult = await parseJsonPayload(request, rate.headers)
+    if (!payloadResult.ok) return payloadResult.response
+    const payload = payloadResult.payload
+    const url = typeof payload.url === 'string' ? payload.url : ''
+    const events = Array.isArray(payload.events)
+      ? payload.events.filter((event): event is string => typeof event === 'string')
+      : []
+    const label = typeof payload.label === 'string' ? payload.label : undefined
+    if (!url) return text('Missing url', 400, rate.headers)
+    try {
+      const result = await ctx.runMutation(internal.webhooks.createForUserInternal, {
+        userId: auth.userId,
+        url,
+        events,
+        label,
+      })
+      return json(result, 201, rate.headers)
+    } catch (error) {
+      return webhookErrorToResponse(error, rate.headers)
+    }
+  }
+
+  if (segments.length === 2 && segments[1] === 'test') {
+    try {
+      const result = await ctx.runMutation(internal.webhooks.sendTestForUserInternal, {
+        userId: auth.userId,
+        endpointId: segments[0] as Id<'webhookEndpoints'>,
+      })
+      return json(result, 202, rate.headers)
+    } catch (error) {
+      return webhookErrorToResponse(error, rate.headers)
+    }
+  }
+
+  return text('Not found', 404, rate.headers)
+}
+
+export async function webhooksDeleteRouterV1Handler(ctx: ActionCtx, request: Request) {
+  const rate = await applyRateLimit(ctx, request, 'write')
+  if (!rate.ok) return rate.response
+
+  const segments = webhookSegments(request)
+  if (segments.length !== 1) return text('Not found', 404, rate.headers)
+
+  const auth = await requireApiTokenUserOrResponse(ctx, request, rate.headers, 'webhooks')
+  if (!auth.ok) return auth.response
+
+  try {
+    const result = await ctx.runMutation(internal.webhooks.removeForUserInternal, {
+      userId: auth.userId,
+      endpointId: segments[0] as Id<'webhookEndpoints'>,
+    })
+    return json(result, 200, rate.headers)
+  } catch (error) {
+    return webhookErrorToResponse(error, rate.headers)
+  }
+}
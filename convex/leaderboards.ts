@@ -1,36 +1,166 @@
 import { v } from 'convex/values'
-import { internalMutation } from './_generated/server'
-import { buildTrendingLeaderboard } from './lib/leaderboards'
+import { internal } from './_generated/api'
+import type { Id } from './_generated/dataModel'
+import { internalAction, internalMutation, internalQuery } from './_generated/server'
+import {
+  type BuiltLeaderboard,
+  buildLeaderboards,
+  type DailyStatRow,
+  getLeaderboardStatsStartDay,
+  type LeaderboardSkill,
+  NEW_SKILL_DAYS,
+} from './lib/leaderboards'
+import { isSkillListed } from './lib/skillVisibility'
 
-const MAX_TRENDING_LIMIT = 200
+const MAX_LEADERBOARD_LIMIT = 200
 const KEEP_LEADERBOARD_ENTRIES = 3
+const DAILY_STATS_PAGE_SIZE = 2000
+const SKILL_LOOKUP_BATCH_SIZE = 200
+const DAY_MS = 24 * 60 * 60 * 1000
+// Boards of a kind the last run no longer produced (e.g. an emptied category).
+const STALE_LEADERBOARD_MS = DAY_MS
+const STALE_LEADERBOARD_DELETE_LIMIT = 50
 
-export const rebuildTrendingLeaderboardInternal = internalMutation({
-  args: { limit: v.optional(v.number()) },
+const leaderboardItemValidator = v.object({
+  skillId: v.id('skills'),
+  score: v.number(),
+  installs: v.number(),
+  downloads: v.number(),
+  stars: v.optional(v.number()),
+  previousInstalls: v.optional(v.number()),
+})
+
+export const getDailyStatsPageInternal = internalQuery({
+  args: { startDay: v.number(), cursor: v.optional(v.string()), numItems: v.number() },
   handler: async (ctx, args) => {
-    const limit = clampInt(args.limit ?? MAX_TRENDING_LIMIT, 1, MAX_TRENDING_LIMIT)
-    const now = Date.now()
-    const { startDay, endDay, items } = await buildTrendingLeaderboard(ctx, { limit, now })
+    const { page, continueCursor, isDone } = await ctx.db
+      .query('skillDailyStats')
+      .withIndex('by_day', (q) => q.gte('day', args.startDay))
+      .paginate({ cursor: args.cursor ?? null, numItems: args.numItems })
+    const rows: DailyStatRow[] = page.map((row) => ({
+      skillId: row.skillId,
+      day: row.day,
+      downloads: row.downloads,
+      installs: row.installs,
+      stars: row.stars,
+    }))
+    return { rows, continueCursor, isDone }
+  },
+})
 
-    await ctx.db.insert('skillLeaderboards', {
-      kind: 'trending',
-      generatedAt: now,
-      rangeStartDay: startDay,
-      rangeEndDay: endDay,
-      items,
-    })
+export const listRecentSkillIdsInternal = internalQuery({
+  args: { since: v.number() },
+  handler: async (ctx, args) => {
+    const skills = await ctx.db
+      .query('skills')
+      .withIndex('by_active_created', (q) =>
+        q.eq('softDeletedAt', undefined).gte('createdAt', args.since),
+      )
+      .collect()
+    return skills.map((skill) => skill._id)
+  },
+})
+
+/** Leaderboard inputs for skills that can be ranked: listed, not deleted, not moderated. */
+export const getLeaderboardSkillsInternal = internalQuery({
+  args: { skillIds: v.array(v.id('skills')) },
+  handler: async (ctx, args) => {
+    const skills = await Promise.all(args.skillIds.map((skillId) => ctx.db.get(skillId)))
+    const result: LeaderboardSkill[] = []
+    for (const skill of skills) {
+      if (!skill || skill.softDeletedAt || !isSkillListed(skill)) continue
+      if (skill.moderationStatus && skill.moderationStatus !== 'active') continue
+      result.push({
+        skillId: skill._id,
+        createdAt: skill.createdAt,
+        category: skill.category,
+        os: skill.runtimeFacets?.os ?? [],
+      })
+    }
+    return result
+  },
+})
 
-    const recent = await ctx.db
+export const writeLeaderboardsInternal = internalMutation({
+  args: {
+    generatedAt: v.number(),
+    boards: v.array(
+      v.object({
+        kind: v.string(),
+        rangeStartDay: v.number(),
+        rangeEndDay: v.number(),
+        items: v.array(leaderboardItemValidator),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    for (const board of args.boards) {
+      await ctx.db.insert('skillLeaderboards', { ...board, generatedAt: args.generatedAt })
+
+      const recent = await ctx.db
+        .query('skillLeaderboards')
+        .withIndex('by_kind', (q) => q.eq('kind', board.kind))
+        .order('desc')
+        .take(KEEP_LEADERBOARD_ENTRIES + 5)
+      for (const entry of recent.slice(KEEP_LEADERBOARD_ENTRIES)) {
+        await ctx.db.delete(entry._id)
+      }
+    }
+
+    const stale = await ctx.db
       .query('skillLeaderboards')
-      .withIndex('by_kind', (q) => q.eq('kind', 'trending'))
-      .order('desc')
-      .take(KEEP_LEADERBOARD_ENTRIES + 5)
+      .withIndex('by_generated', (q) =>
+        q.lt('generatedAt', args.generatedAt - STALE_LEADERBOARD_MS),
+      )
+      .take(STALE_LEADERBOARD_DELETE_LIMIT)
+    for (const entry of stale) await ctx.db.delete(entry._id)
+
+    return { ok: true as const, boards: args.boards.length }
+  },
+})
 
-    for (const entry of recent.slice(KEEP_LEADERBOARD_ENTRIES)) {
-      await ctx.db.delete(entry._id)
+/**
+ * Rebuilds every leaderboard kind from `skillDailyStats` on the hourly cron. Runs as an
+ * action so the 30-day stats scan is paged across queries instead of one transaction.
+ */
+export const rebuildLeaderboardsInternal = internalAction({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const limit = clampInt(args.limit ?? MAX_LEADERBOARD_LIMIT, 1, MAX_LEADERBOARD_LIMIT)
+    const now = Date.now()
+    const startDay = getLeaderboardStatsStartDay(now)
+
+    const rows: DailyStatRow[] = []
+    let cursor: string | undefined
+    while (true) {
+      const page = (await ctx.runQuery(internal.leaderboards.getDailyStatsPageInternal, {
+        startDay,
+        cursor,
+        numItems: DAILY_STATS_PAGE_SIZE,
+      })) as { rows: DailyStatRow[]; continueCursor: string; isDone: boolean }
+      rows.push(...page.rows)
+      if (page.isDone) break
+      cursor = page.continueCursor
     }
 
-    return { ok: true as const, count: items.length }
+    const recentSkillIds = (await ctx.runQuery(internal.leaderboards.listRecentSkillIdsInternal, {
+      since: now - NEW_SKILL_DAYS * DAY_MS,
+    })) as Id<'skills'>[]
+    const skillIds = Array.from(new Set([...rows.map((row) => row.skillId), ...recentSkillIds]))
+    const skills: LeaderboardSkill[] = []
+    for (let i = 0; i < skillIds.length; i += SKILL_LOOKUP_BATCH_SIZE) {
+      const batch = (await ctx.runQuery(internal.leaderboards.getLeaderboardSkillsInternal, {
+        skillIds: skillIds.slice(i, i + SKILL_LOOKUP_BATCH_SIZE),
+      })) as LeaderboardSkill[]
+      skills.push(...batch)
+    }
+
+    const boards: BuiltLeaderboard[] = buildLeaderboards({ rows, skills, now, limit })
+    await ctx.runMutation(internal.leaderboards.writeLeaderboardsInternal, {
+      generatedAt: now,
+      boards,
+    })
+    return { ok: true as const, boards: boards.length, skills: skills.length }
   },
 })
 
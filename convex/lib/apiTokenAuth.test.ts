@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest'
-import { getOptionalApiTokenUserId } from './apiTokenAuth'
+import { getOptionalApiTokenUserId, requireApiTokenUser } from './apiTokenAuth'
 import { hashToken } from './tokens'
 
 describe('getOptionalApiTokenUserId', () => {
@@ -108,3 +108,47 @@ describe('getOptionalApiTokenUserId', () => {
     expect(ctx.runQuery).toHaveBeenCalledTimes(2)
   })
 })
+
+describe('requireApiTokenUser', () => {
+  function makeCtx(token: Record<string, unknown>) {
+    return {
+      runQuery: vi
+        .fn()
+        .mockImplementation(async (_fn, args: { tokenHash?: string; tokenId?: string }) => {
+          if (args.tokenHash) return { _id: 'apiTokens_1', ...token }
+          if (args.tokenId) return { _id: 'users_1' }
+          return null
+        }),
+      runMutation: vi.fn(),
+    }
+  }
+
+  const request = () =>
+    new Request('https://example.com', { headers: { authorization: 'Bearer token-5' } })
+
+  it('rejects expired tokens', async () => {
+    const ctx = makeCtx({ expiresAt: Date.now() - 1000 })
+
+    await expect(requireApiTokenUser(ctx as never, request())).rejects.toThrow('Unauthorized')
+    expect(await getOptionalApiTokenUserId(ctx as never, request())).toBeNull()
+  })
+
+  it('names the missing scope and skips the usage touch', async () => {
+    const ctx = makeCtx({ scopes: ['read'] })
+
+    await expect(requireApiTokenUser(ctx as never, request(), 'star')).rejects.toThrow(
+      'Forbidden: token is missing the "star" scope',
+    )
+    expect(ctx.runMutation).not.toHaveBeenCalled()
+
+    const auth = await requireApiTokenUser(ctx as never, request(), 'read')
+    expect(auth).toMatchObject({ userId: 'users_1', scopes: ['read'] })
+  })
+
+  it('treats tokens without the requested scope as anonymous for optional auth', async () => {
+    const ctx = makeCtx({ scopes: ['publish:*'] })
+
+    expect(await getOptionalApiTokenUserId(ctx as never, request(), 'read')).toBeNull()
+    expect(await getOptionalApiTokenUserId(ctx as never, request())).toBe('users_1')
+  })
+})
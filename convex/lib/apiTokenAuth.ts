@@ -2,13 +2,24 @@ import { ConvexError } from 'convex/values'
 import { internal } from '../_generated/api'
 import type { Doc } from '../_generated/dataModel'
 import type { ActionCtx } from '../_generated/server'
-import { hashToken } from './tokens'
+import { hasTokenScope, type RequiredTokenScope, requireTokenScope } from './tokenScopes'
+import { hashToken, isApiTokenActive } from './tokens'
 
-type TokenAuthResult = { user: Doc<'users'>; userId: Doc<'users'>['_id'] }
+type TokenAuthResult = {
+  user: Doc<'users'>
+  userId: Doc<'users'>['_id']
+  /** `undefined` for legacy tokens, which keep full access. */
+  scopes?: string[]
+}
 
+/**
+ * Resolves the bearer token's user. With `scope`, also throws a `Forbidden` error naming the
+ * scope when the token does not carry it (any one of them, for a list).
+ */
 export async function requireApiTokenUser(
   ctx: ActionCtx,
   request: Request,
+  scope?: RequiredTokenScope | RequiredTokenScope[],
 ): Promise<TokenAuthResult> {
   const header = request.headers.get('authorization') ?? request.headers.get('Authorization')
   const token = parseBearerToken(header)
@@ -16,20 +27,24 @@ export async function requireApiTokenUser(
 
   const tokenHash = await hashToken(token)
   const apiToken = await ctx.runQuery(internal.tokens.getByHashInternal, { tokenHash })
-  if (!apiToken || apiToken.revokedAt) throw new ConvexError('Unauthorized')
+  if (!apiToken || !isApiTokenActive(apiToken, Date.now())) throw new ConvexError('Unauthorized')
 
   const user = await ctx.runQuery(internal.tokens.getUserForTokenInternal, {
     tokenId: apiToken._id,
   })
   if (!user || user.deletedAt || user.deactivatedAt) throw new ConvexError('Unauthorized')
 
+  if (scope) requireTokenScope(apiToken.scopes, scope)
+
   await ctx.runMutation(internal.tokens.touchInternal, { tokenId: apiToken._id })
-  return { user, userId: user._id }
+  return { user, userId: user._id, scopes: apiToken.scopes }
 }
 
+/** With `scope`, tokens that lack it are treated as anonymous (e.g. `read` for private skills). */
 export async function getOptionalApiTokenUserId(
   ctx: ActionCtx,
   request: Request,
+  scope?: RequiredTokenScope,
 ): Promise<Doc<'users'>['_id'] | null> {
   const header = request.headers.get('authorization') ?? request.headers.get('Authorization')
   const token = parseBearerToken(header)
@@ -37,7 +52,8 @@ export async function getOptionalApiTokenUserId(
 
   const tokenHash = await hashToken(token)
   const apiToken = await ctx.runQuery(internal.tokens.getByHashInternal, { tokenHash })
-  if (!apiToken || apiToken.revokedAt) return null
+  if (!apiToken || !isApiTokenActive(apiToken, Date.now())) return null
+  if (scope && !hasTokenScope(apiToken.scopes, scope)) return null
 
   const user = await ctx.runQuery(internal.tokens.getUserForTokenInternal, {
     tokenId: apiToken._id,
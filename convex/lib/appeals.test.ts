@@ -0,0 +1,94 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import type { Id } from '../_generated/dataModel'
+import { buildAppealRestorePatch, getAppealableDecision } from './appeals'
+
+const owner = 'users:owner' as Id<'users'>
+const moderator = 'users:mod' as Id<'users'>
+
+describe('getAppealableDecision', () => {
+  it('names the decision behind a hidden or flagged skill', () => {
+    expect(
+      getAppealableDecision({
+        ownerUserId: owner,
+        softDeletedAt: 1,
+        moderationStatus: 'hidden',
+        moderationReason: 'auto.reports',
+      }),
+    ).toEqual({ kind: 'reports', label: 'Hidden after user reports', reason: 'auto.reports' })
+    expect(
+      getAppealableDecision({
+        ownerUserId: owner,
+        moderationStatus: 'hidden',
+        moderationReason: 'quality.low',
+      })?.kind,
+    ).toBe('quality')
+    expect(
+      getAppealableDecision({
+        ownerUserId: owner,
+        moderationStatus: 'active',
+        moderationReason: 'scanner.yara.suspicious',
+        moderationFlags: ['flagged.suspicious', 'suspicious.exec_pipe'],
+      })?.kind,
+    ).toBe('suspicious')
+    expect(
+      getAppealableDecision({
+        ownerUserId: owner,
+        softDeletedAt: 1,
+        hiddenBy: moderator,
+        moderationStatus: 'hidden',
+      })?.kind,
+    ).toBe('hidden')
+  })
+
+  it('skips pending scans, owner deletes and active skills', () => {
+    expect(
+      getAppealableDecision({
+        ownerUserId: owner,
+        moderationStatus: 'hidden',
+        moderationReason: 'pending.scan',
+      }),
+    ).toBeNull()
+    expect(
+      getAppealableDecision({
+        ownerUserId: owner,
+        softDeletedAt: 1,
+        hiddenBy: owner,
+        moderationStatus: 'hidden',
+      }),
+    ).toBeNull()
+    expect(
+      getAppealableDecision({
+        ownerUserId: owner,
+        moderationStatus: 'active',
+        moderationReason: 'scanner.vt.clean',
+        moderationFlags: ['suspicious.keyword'],
+      }),
+    ).toBeNull()
+  })
+})
+
+describe('buildAppealRestorePatch', () => {
+  it('clears block flags, keeps rule flags and resets the report count', () => {
+    const patch = buildAppealRestorePatch(
+      {
+        moderationReason: 'auto.reports',
+        moderationFlags: ['blocked.malware', 'flagged.suspicious', 'suspicious.exec_pipe'],
+      },
+      10,
+      'Appeal accepted',
+    )
+    expect(patch).toMatchObject({
+      softDeletedAt: undefined,
+      moderationStatus: 'active',
+      moderationReason: 'appeal.accepted',
+      moderationFlags: ['suspicious.exec_pipe'],
+      reportCount: 0,
+      updatedAt: 10,
+    })
+    expect(
+      buildAppealRestorePatch({ moderationReason: 'quality.low' }, 10, 'ok'),
+    ).not.toHaveProperty('reportCount')
+  })
+})
@@ -0,0 +1,121 @@
+import { v } from 'convex/values'
+import type { Doc } from '../_generated/dataModel'
+
+export const APPEAL_STATUSES = ['open', 'accepted', 'rejected', 'changes_requested'] as const
+export type AppealStatus = (typeof APPEAL_STATUSES)[number]
+export const appealStatusValidator = v.union(
+  v.literal('open'),
+  v.literal('accepted'),
+  v.literal('rejected'),
+  v.literal('changes_requested'),
+)
+
+// What a moderator can do with an open appeal, and the status each one leaves it in.
+export const APPEAL_RESOLUTIONS = {
+  accept: 'accepted',
+  reject: 'rejected',
+  request_changes: 'changes_requested',
+} as const satisfies Record<string, Exclude<AppealStatus, 'open'>>
+export type AppealResolution = keyof typeof APPEAL_RESOLUTIONS
+export const appealResolutionValidator = v.union(
+  v.literal('accept'),
+  v.literal('reject'),
+  v.literal('request_changes'),
+)
+
+export const MAX_APPEAL_MESSAGE_LENGTH = 2000
+export const MAX_APPEAL_RESPONSE_LENGTH = 1000
+export const MAX_APPEAL_QUEUE = 100
+
+export type AppealDecisionKind =
+  | 'removed'
+  | 'malware'
+  | 'reports'
+  | 'quality'
+  | 'suspicious'
+  | 'hidden'
+
+export type AppealDecision = {
+  kind: AppealDecisionKind
+  label: string
+  reason: string | null
+}
+
+const DECISION_LABELS: Record<AppealDecisionKind, string> = {
+  removed: 'Removed by a moderator',
+  malware: 'Blocked as malware',
+  reports: 'Hidden after user reports',
+  quality: 'Quarantined by the quality gate',
+  suspicious: 'Flagged as suspicious',
+  hidden: 'Hidden by a moderator',
+}
+
+type AppealSkill = Pick<
+  Doc<'skills'>,
+  | 'ownerUserId'
+  | 'softDeletedAt'
+  | 'hiddenBy'
+  | 'moderationStatus'
+  | 'moderationReason'
+  | 'moderationFlags'
+>
+
+/**
+ * The moderation decision an owner can contest, or null when there is none. Pending scans
+ * resolve on their own and owners undo their own deletes with `clawhub undelete`, so
+ * neither is appealable.
+ */
+export function getAppealableDecision(skill: AppealSkill): AppealDecision | null {
+  const reason = skill.moderationReason ?? null
+  const flags = skill.moderationFlags ?? []
+  const hidden = skill.moderationStatus === 'hidden' || Boolean(skill.softDeletedAt)
+  const decide = (kind: AppealDecisionKind) => ({ kind, label: DECISION_LABELS[kind], reason })
+
+  if (skill.moderationStatus === 'removed') return decide('removed')
+  if (flags.includes('blocked.malware')) return decide('malware')
+  if (hidden && reason === 'auto.reports') return decide('reports')
+  if (hidden && reason === 'quality.low') return decide('quality')
+  if (flags.includes('flagged.suspicious')) return decide('suspicious')
+  if (!hidden) return null
+  if (reason === 'pending.scan' || reason === 'scanner.vt.pending') return null
+  if (skill.softDeletedAt && skill.hiddenBy === skill.ownerUserId) return null
+  return decide('hidden')
+}
+
+/**
+ * Skill fields after an accepted appeal: visible again, without the scanner block flags.
+ * Rule flags (`suspicious.*`) stay for transparency; report-hidden skills start a fresh count
+ * so the next report does not hide them straight away.
+ */
+export function buildAppealRestorePatch(
+  skill: Pick<Doc<'skills'>, 'moderationFlags' | 'moderationReason'>,
+  now: number,
+  notes: string,
+): Partial<Doc<'skills'>> {
+  const flags = (skill.moderationFlags ?? []).filter(
+    (flag) => flag !== 'blocked.malware' && flag !== 'flagged.suspicious',
+  )
+  return {
+    softDeletedAt: undefined,
+    moderationStatus: 'active',
+    moderationReason: 'appeal.accepted',
+    moderationNotes: notes,
+    moderationFlags: flags.length ? flags : undefined,
+    hiddenAt: undefined,
+    hiddenBy: undefined,
+    ...(skill.moderationReason === 'auto.reports' ? { reportCount: 0 } : {}),
+    lastReviewedAt: now,
+    updatedAt: now,
+  }
+}
+
+export function toPublicAppeal(appeal: Doc<'appeals'>) {
+  return {
+    id: appeal._id,
+    status: appeal.status,
+    message: appeal.message,
+    response: appeal.response ?? null,
+    createdAt: appeal.createdAt,
+    resolvedAt: appeal.resolvedAt ?? null,
+  }
+}
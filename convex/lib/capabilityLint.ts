@@ -0,0 +1,23 @@
+import { v } from 'convex/values'
+
+export const capabilityKindValidator = v.union(
+  v.literal('env'),
+  v.literal('bin'),
+  v.literal('host'),
+  v.literal('config'),
+)
+
+/** `skillVersions.capabilityLint`, written by `capabilityLint.lintVersionCapabilities`. */
+export const capabilityLintValidator = v.object({
+  status: v.union(v.literal('clean'), v.literal('mismatch')),
+  undeclared: v.array(
+    v.object({
+      kind: capabilityKindValidator,
+      name: v.string(),
+      file: v.string(),
+      line: v.number(),
+    }),
+  ),
+  unused: v.array(v.object({ kind: capabilityKindValidator, name: v.string() })),
+  checkedAt: v.number(),
+})
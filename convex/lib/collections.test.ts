@@ -0,0 +1,67 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  normalizeCollectionName,
+  normalizeCollectionText,
+  normalizeVersionPin,
+  parseCollectionRef,
+  planCollectionReorder,
+} from './collections'
+
+describe('normalizeCollectionName', () => {
+  it('lowercases and rejects anything that is not a url-safe name', () => {
+    expect(normalizeCollectionName(' Onboarding-Kit ')).toBe('onboarding-kit')
+    expect(() => normalizeCollectionName('-kit')).toThrow(/lowercase letters/)
+    expect(() => normalizeCollectionName('team/kit')).toThrow(/lowercase letters/)
+    expect(() => normalizeCollectionName('a'.repeat(49))).toThrow(/1-48/)
+  })
+})
+
+describe('normalizeVersionPin', () => {
+  it('accepts exact versions and ranges, clears on empty', () => {
+    expect(normalizeVersionPin('1.2.0')).toBe('1.2.0')
+    expect(normalizeVersionPin(' ^1.2.0 ')).toBe('^1.2.0')
+    expect(normalizeVersionPin('  ')).toBeUndefined()
+    expect(() => normalizeVersionPin('latest-ish')).toThrow('Invalid version pin "latest-ish"')
+  })
+})
+
+describe('normalizeCollectionText', () => {
+  it('trims, drops empty text and enforces the limit', () => {
+    expect(normalizeCollectionText(' hi ', 10, 'Note')).toBe('hi')
+    expect(normalizeCollectionText('', 10, 'Note')).toBeUndefined()
+    expect(() => normalizeCollectionText('x'.repeat(11), 10, 'Note')).toThrow(
+      'Note must be at most 10 characters',
+    )
+  })
+})
+
+describe('parseCollectionRef', () => {
+  it('splits owner/name and ignores a leading @', () => {
+    expect(parseCollectionRef('@Alice/Onboarding')).toEqual({ owner: 'alice', name: 'onboarding' })
+    expect(parseCollectionRef('onboarding')).toBeNull()
+    expect(parseCollectionRef('a/b/c')).toBeNull()
+  })
+})
+
+describe('planCollectionReorder', () => {
+  const items = [
+    { _id: 'a', position: 0 },
+    { _id: 'b', position: 1 },
+    { _id: 'c', position: 2 },
+  ]
+
+  it('only moves items whose position changes', () => {
+    expect(planCollectionReorder(items, ['a', 'c', 'b'])).toEqual([
+      { item: items[2], position: 1 },
+      { item: items[1], position: 2 },
+    ])
+  })
+
+  it('rejects partial, duplicate or foreign lists', () => {
+    expect(() => planCollectionReorder(items, ['a', 'b'])).toThrow(/exactly once/)
+    expect(() => planCollectionReorder(items, ['a', 'a', 'b'])).toThrow(/exactly once/)
+    expect(() => planCollectionReorder(items, ['a', 'b', 'z'])).toThrow(/exactly once/)
+  })
+})
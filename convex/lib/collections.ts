@@ -0,0 +1,66 @@
+import semver from 'semver'
+import type { Doc } from '../_generated/dataModel'
+
+export const MAX_COLLECTIONS_PER_USER = 50
+export const MAX_COLLECTION_ITEMS = 100
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 2000
+export const MAX_COLLECTION_NOTE_LENGTH = 500
+
+const COLLECTION_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/
+
+export type CollectionVisibility = Doc<'collections'>['visibility']
+
+export function normalizeCollectionName(value: string) {
+  const name = value.trim().toLowerCase()
+  if (!COLLECTION_NAME_PATTERN.test(name)) {
+    throw new Error('Collection name must be 1-48 lowercase letters, digits, or dashes')
+  }
+  return name
+}
+
+/** Empty clears the pin; anything else must be an exact version or a semver range. */
+export function normalizeVersionPin(value: string | undefined) {
+  const pin = value?.trim()
+  if (!pin) return undefined
+  if (!semver.validRange(pin)) throw new Error(`Invalid version pin "${pin}"`)
+  return pin
+}
+
+export function normalizeCollectionText(
+  value: string | undefined,
+  maxLength: number,
+  label: string,
+) {
+  const text = value?.trim()
+  if (!text) return undefined
+  if (text.length > maxLength) throw new Error(`${label} must be at most ${maxLength} characters`)
+  return text
+}
+
+/** `owner/name` as typed on the CLI; a leading `@` on the owner is ignored. */
+export function parseCollectionRef(value: string) {
+  const [owner, name, ...rest] = value.trim().replace(/^@/, '').split('/')
+  if (!owner || !name || rest.length > 0) return null
+  return { owner: owner.toLowerCase(), name: name.toLowerCase() }
+}
+
+/**
+ * Positions for `ordered`, which must list exactly the collection's current items. Items
+ * keep their ids; only `position` changes, so notes and pins survive a reorder.
+ */
+export function planCollectionReorder<T extends { _id: string; position: number }>(
+  items: T[],
+  ordered: string[],
+) {
+  const byId = new Map(items.map((item) => [item._id, item]))
+  if (ordered.length !== items.length || new Set(ordered).size !== ordered.length) {
+    throw new Error('Reorder must list every item exactly once')
+  }
+  const moves: Array<{ item: T; position: number }> = []
+  ordered.forEach((id, position) => {
+    const item = byId.get(id)
+    if (!item) throw new Error('Reorder must list every item exactly once')
+    if (item.position !== position) moves.push({ item, position })
+  })
+  return moves
+}
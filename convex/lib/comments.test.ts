@@ -0,0 +1,50 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildCommentThreads,
+  extractMentions,
+  newMentions,
+  normalizeCommentBody,
+} from './comments'
+
+describe('normalizeCommentBody', () => {
+  it('trims and enforces presence and length', () => {
+    expect(normalizeCommentBody('  hi  ')).toBe('hi')
+    expect(() => normalizeCommentBody('   ')).toThrow('Comment body required')
+    expect(() => normalizeCommentBody('x'.repeat(5001))).toThrow(/at most 5000/)
+  })
+})
+
+describe('extractMentions', () => {
+  it('finds handles outside code and ignores emails', () => {
+    expect(
+      extractMentions('thanks @Alice and @bob-2! mail me@example.com, `@code` @alice'),
+    ).toEqual(['Alice', 'bob-2'])
+    expect(extractMentions('```\n@fenced\n```\n(@paren)')).toEqual(['paren'])
+  })
+
+  it('only reports mentions added by an edit', () => {
+    expect(newMentions('hi @alice', 'hi @Alice and @carol')).toEqual(['carol'])
+  })
+})
+
+describe('buildCommentThreads', () => {
+  const row = (id: string, createdAt: number, extra: Record<string, unknown> = {}) => ({
+    comment: { _id: id, createdAt, ...extra },
+  })
+
+  it('puts pinned threads first and nests replies oldest first', () => {
+    const threads = buildCommentThreads([
+      row('a', 1),
+      row('b', 2),
+      row('c', 3, { pinnedAt: 10 }),
+      row('r2', 5, { parentCommentId: 'a' }),
+      row('r1', 4, { parentCommentId: 'a' }),
+      row('orphan', 6, { parentCommentId: 'gone' }),
+    ])
+
+    expect(threads.map((thread) => thread.comment._id)).toEqual(['c', 'orphan', 'b', 'a'])
+    expect(threads[3]?.replies.map((reply) => reply.comment._id)).toEqual(['r1', 'r2'])
+  })
+})
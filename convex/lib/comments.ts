@@ -0,0 +1,80 @@
+export const MAX_COMMENT_BODY_LENGTH = 5000
+export const MAX_COMMENT_MENTIONS = 10
+export const MAX_PINNED_COMMENTS = 3
+
+// GitHub-style handles; the lookbehind keeps emails (`a@b.com`) and paths from matching.
+const MENTION_PATTERN = /(^|[^\w@./-])@([a-z0-9][a-z0-9-]{0,38})/gi
+const FENCED_CODE_PATTERN = /```[\s\S]*?(```|$)/g
+const INLINE_CODE_PATTERN = /`[^`\n]*`/g
+
+export function normalizeCommentBody(value: string) {
+  const body = value.trim()
+  if (!body) throw new Error('Comment body required')
+  if (body.length > MAX_COMMENT_BODY_LENGTH) {
+    throw new Error(`Comment must be at most ${MAX_COMMENT_BODY_LENGTH} characters`)
+  }
+  return body
+}
+
+/**
+ * `@handle` mentions outside code, as typed, in first occurrence order. Duplicates are
+ * compared case-insensitively (handles follow GitHub logins) and the list is capped.
+ */
+export function extractMentions(body: string) {
+  const text = body.replace(FENCED_CODE_PATTERN, ' ').replace(INLINE_CODE_PATTERN, ' ')
+  const handles: string[] = []
+  const seen = new Set<string>()
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = match[2]
+    if (seen.has(handle.toLowerCase())) continue
+    seen.add(handle.toLowerCase())
+    handles.push(handle)
+    if (handles.length >= MAX_COMMENT_MENTIONS) break
+  }
+  return handles
+}
+
+/** Mentions present in `next` but not in `previous`, so edits only notify new names. */
+export function newMentions(previous: string, next: string) {
+  const before = new Set(extractMentions(previous).map((handle) => handle.toLowerCase()))
+  return extractMentions(next).filter((handle) => !before.has(handle.toLowerCase()))
+}
+
+type ThreadableComment = {
+  _id: string
+  parentCommentId?: string
+  createdAt: number
+  pinnedAt?: number
+}
+
+/**
+ * Groups rows into one-level threads: pinned threads first (latest pin first), then newest
+ * first; replies oldest first. Replies whose parent is not in `rows` (hidden, deleted, outside
+ * the page) are shown as top-level comments rather than dropped.
+ */
+export function buildCommentThreads<T extends { comment: ThreadableComment }>(rows: T[]) {
+  const ids = new Set(rows.map((row) => row.comment._id))
+  const repliesByParent = new Map<string, T[]>()
+  const roots: T[] = []
+  for (const row of rows) {
+    const parentId = row.comment.parentCommentId
+    if (parentId && ids.has(parentId)) {
+      const replies = repliesByParent.get(parentId) ?? []
+      replies.push(row)
+      repliesByParent.set(parentId, replies)
+    } else {
+      roots.push(row)
+    }
+  }
+  roots.sort(
+    (a, b) =>
+      (b.comment.pinnedAt ?? 0) - (a.comment.pinnedAt ?? 0) ||
+      b.comment.createdAt - a.comment.createdAt,
+  )
+  return roots.map((row) => ({
+    ...row,
+    replies: (repliesByParent.get(row.comment._id) ?? []).sort(
+      (a, b) => a.comment.createdAt - b.comment.createdAt,
+    ),
+  }))
+}
@@ -0,0 +1,80 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildUnsubscribeUrl,
+  DIGEST_PERIOD_MS,
+  digestWindowStart,
+  renderDigestEmail,
+  signUnsubscribeToken,
+  verifyUnsubscribeToken,
+} from './emailDigest'
+
+describe('digestWindowStart', () => {
+  it('starts at the last digest but never more than one period back', () => {
+    const now = 10 * DIGEST_PERIOD_MS.weekly
+    expect(digestWindowStart('daily', now - 1000, now)).toBe(now - 1000)
+    expect(digestWindowStart('daily', undefined, now)).toBe(now - DIGEST_PERIOD_MS.daily)
+    expect(digestWindowStart('weekly', 1, now)).toBe(now - DIGEST_PERIOD_MS.weekly)
+  })
+})
+
+describe('unsubscribe tokens', () => {
+  it('verifies tokens signed for the same user only', async () => {
+    const token = await signUnsubscribeToken('secret', 'users:1')
+    expect(token).toMatch(/^[0-9a-f]{64}$/)
+    expect(await verifyUnsubscribeToken('secret', 'users:1', token)).toBe(true)
+    expect(await verifyUnsubscribeToken('secret', 'users:2', token)).toBe(false)
+    expect(await verifyUnsubscribeToken('other', 'users:1', token)).toBe(false)
+    expect(await verifyUnsubscribeToken('secret', 'users:1', 'abc')).toBe(false)
+  })
+
+  it('builds the link on the site origin', () => {
+    expect(buildUnsubscribeUrl('https://clawhub.ai', 'users:1', 'abc')).toBe(
+      'https://clawhub.ai/api/v1/email/unsubscribe?user=users%3A1&token=abc',
+    )
+  })
+})
+
+describe('renderDigestEmail', () => {
+  const email = renderDigestEmail({
+    handle: 'alice',
+    frequency: 'weekly',
+    siteUrl: 'https://clawhub.ai',
+    unsubscribeUrl: 'https://clawhub.ai/api/v1/email/unsubscribe?user=u&token=t',
+    items: [
+      {
+        kind: 'skill.comment',
+        title: '@bob commented on <Demo>',
+        body: 'Nice & tidy',
+        url: '/alice/demo',
+        createdAt: 2,
+      },
+      {
+        kind: 'starred.version',
+        title: 'Other v2.0.0 was published',
+        url: '/x/other',
+        createdAt: 1,
+      },
+    ],
+  })
+
+  it('groups items into sections in a fixed order', () => {
+    expect(email.subject).toBe('Your ClawHub weekly digest: 2 updates')
+    const starred = email.text.indexOf('New versions of skills you starred')
+    const comments = email.text.indexOf('Comments on your skills')
+    expect(starred).toBeGreaterThan(-1)
+    expect(comments).toBeGreaterThan(starred)
+    expect(email.text).not.toContain('Moderation outcomes')
+    expect(email.text).toContain('  https://clawhub.ai/alice/demo')
+    expect(email.text).toContain('Unsubscribe from digests: https://clawhub.ai/api/v1/email/')
+  })
+
+  it('escapes user content in the html part', () => {
+    expect(email.html).toContain('@bob commented on &lt;Demo&gt;')
+    expect(email.html).toContain('Nice &amp; tidy')
+    expect(email.html).toContain(
+      'href="https://clawhub.ai/api/v1/email/unsubscribe?user=u&amp;token=t"',
+    )
+  })
+})
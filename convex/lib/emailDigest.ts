@@ -0,0 +1,179 @@
+import { v } from 'convex/values'
+import type { NotificationKind } from './notifications'
+
+export const DIGEST_FREQUENCIES = ['daily', 'weekly'] as const
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number]
+export const digestFrequencyValidator = v.union(
+  v.literal('off'),
+  v.literal('daily'),
+  v.literal('weekly'),
+)
+
+export const DIGEST_PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60_000,
+  weekly: 7 * 24 * 60 * 60_000,
+}
+
+// Digests summarize the inbox, so muted notification kinds never reach them either.
+export const DIGEST_SECTIONS: ReadonlyArray<{ title: string; kinds: NotificationKind[] }> = [
+  { title: 'New versions of skills you starred', kinds: ['starred.version'] },
+  { title: 'Comments on your skills', kinds: ['skill.comment', 'comment.mention'] },
+  { title: 'Moderation outcomes', kinds: ['skill.moderation', 'skill.verdict', 'skill.appeal'] },
+]
+export const DIGEST_NOTIFICATION_KINDS = DIGEST_SECTIONS.flatMap((section) => section.kinds)
+export const MAX_DIGEST_ITEMS = 50
+export const EMAIL_UNSUBSCRIBE_PATH = '/api/v1/email/unsubscribe'
+
+const DEFAULT_SITE_URL = 'https://clawhub.ai'
+const DEFAULT_MAIL_FROM = 'ClawHub <noreply@clawhub.ai>'
+const encoder = new TextEncoder()
+
+export type DigestItem = {
+  kind: NotificationKind
+  title: string
+  body?: string | null
+  url?: string | null
+  createdAt: number
+}
+
+export type EmailConfig = {
+  from: string
+  siteUrl: string
+  /** Signs unsubscribe links; digests are not sent without it. */
+  unsubscribeSecret: string | null
+}
+
+export function getEmailConfig(env: NodeJS.ProcessEnv = process.env): EmailConfig {
+  return {
+    from: env.MAIL_FROM?.trim() || DEFAULT_MAIL_FROM,
+    siteUrl: (env.SITE_URL?.trim() || DEFAULT_SITE_URL).replace(/\/+$/, ''),
+    unsubscribeSecret: env.EMAIL_UNSUBSCRIBE_SECRET?.trim() || null,
+  }
+}
+
+/** A digest covers at most one period, even after a long pause or a frequency switch. */
+export function digestWindowStart(
+  frequency: DigestFrequency,
+  lastSentAt: number | undefined,
+  now: number,
+) {
+  return Math.max(lastSentAt ?? 0, now - DIGEST_PERIOD_MS[frequency])
+}
+
+/** HMAC-SHA256 over `unsubscribe:<userId>`, hex encoded; stable per user and secret. */
+export async function signUnsubscribeToken(secret: string, userId: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`unsubscribe:${userId}`))
+  return toHex(new Uint8Array(signature))
+}
+
+export async function verifyUnsubscribeToken(secret: string, userId: string, token: string) {
+  const expected = await signUnsubscribeToken(secret, userId)
+  if (token.length !== expected.length) return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ token.charCodeAt(i)
+  return diff === 0
+}
+
+export function buildUnsubscribeUrl(siteUrl: string, userId: string, token: string) {
+  const url = new URL(EMAIL_UNSUBSCRIBE_PATH, siteUrl)
+  url.searchParams.set('user', userId)
+  url.searchParams.set('token', token)
+  return url.toString()
+}
+
+export function renderDigestEmail(params: {
+  handle?: string | null
+  frequency: DigestFrequency
+  items: DigestItem[]
+  siteUrl: string
+  unsubscribeUrl: string
+}) {
+  const count = params.items.length
+  const updates = `${count} update${count === 1 ? '' : 's'}`
+  const subject = `Your ClawHub ${params.frequency} digest: ${updates}`
+  const greeting = params.handle ? `Hi @${params.handle},` : 'Hi,'
+  const intro = `Here's what happened on ClawHub since your last ${params.frequency} digest.`
+  const settingsUrl = `${params.siteUrl}/settings`
+  const sections = DIGEST_SECTIONS.map((section) => ({
+    title: section.title,
+    items: params.items.filter((item) => section.kinds.includes(item.kind)),
+  })).filter((section) => section.items.length > 0)
+
+  const text = [greeting, '', intro, '']
+  for (const section of sections) {
+    text.push(section.title, '')
+    for (const item of section.items) {
+      text.push(`- ${item.title}`)
+      if (item.body) text.push(`  ${item.body.replace(/\s+/g, ' ')}`)
+      if (item.url) text.push(`  ${absoluteUrl(params.siteUrl, item.url)}`)
+    }
+    text.push('')
+  }
+  text.push(
+    '--',
+    `Manage notifications: ${settingsUrl}`,
+    `Unsubscribe from digests: ${params.unsubscribeUrl}`,
+    '',
+  )
+
+  const html = [
+    '<!doctype html>',
+    '<html><body style="font-family: -apple-system, Segoe UI, sans-serif; color: #2a1f19;">',
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+  ]
+  for (const section of sections) {
+    html.push(`<h2 style="font-size: 16px; margin: 24px 0 8px;">${escapeHtml(section.title)}</h2>`)
+    html.push('<ul style="padding-left: 20px;">')
+    for (const item of section.items) {
+      const href = item.url ? escapeHtml(absoluteUrl(params.siteUrl, item.url)) : null
+      const title = href
+        ? `<a href="${href}">${escapeHtml(item.title)}</a>`
+        : escapeHtml(item.title)
+      const body = item.body
+        ? `<br><span style="color: #6b5a50;">${escapeHtml(item.body)}</span>`
+        : ''
+      html.push(`<li style="margin-bottom: 8px;">${title}${body}</li>`)
+    }
+    html.push('</ul>')
+  }
+  html.push(
+    '<p style="font-size: 12px; color: #6b5a50; margin-top: 32px;">',
+    `<a href="${escapeHtml(settingsUrl)}">Manage notifications</a> · `,
+    `<a href="${escapeHtml(params.unsubscribeUrl)}">Unsubscribe from digests</a>`,
+    '</p>',
+    '</body></html>',
+  )
+
+  return { subject, text: text.join('\n'), html: html.join('\n') }
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function absoluteUrl(siteUrl: string, path: string) {
+  try {
+    return new URL(path, siteUrl).toString()
+  } catch {
+    return siteUrl
+  }
+}
+
+function toHex(bytes: Uint8Array) {
+  let out = ''
+  for (const byte of bytes) out += byte.toString(16).padStart(2, '0')
+  return out
+}
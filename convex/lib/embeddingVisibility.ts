@@ -3,12 +3,16 @@ export type EmbeddingVisibility =
   | 'latest-approved'
   | 'archived'
   | 'archived-approved'
+  | 'unlisted'
   | 'deleted'
 
-export function embeddingVisibilityFor(isLatest: boolean, isApproved: boolean): Exclude<
-  EmbeddingVisibility,
-  'deleted'
-> {
+export function embeddingVisibilityFor(
+  isLatest: boolean,
+  isApproved: boolean,
+  isListed = true,
+): Exclude<EmbeddingVisibility, 'deleted'> {
+  // Unlisted and private skills stay out of vector search entirely.
+  if (!isListed) return 'unlisted'
   if (isLatest && isApproved) return 'latest-approved'
   if (isLatest) return 'latest'
   if (isApproved) return 'archived-approved'
@@ -1,7 +1,14 @@
 /* @vitest-environment node */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { EMBEDDING_DIMENSIONS, generateEmbedding } from './embeddings'
+import {
+  EMBEDDING_DIMENSIONS,
+  generateEmbedding,
+  generateHashEmbedding,
+  generateStoredEmbeddings,
+  getEmbeddingProvider,
+  getSearchEmbeddingSlot,
+} from './embeddings'
 
 const fetchMock = vi.fn<typeof fetch>()
 const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
@@ -93,3 +100,110 @@ describe('generateEmbedding', () => {
     expect(fetchMock).toHaveBeenCalledTimes(3)
   })
 })
+
+describe('generateHashEmbedding', () => {
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+  it('is deterministic, unit length and closer for overlapping text', async () => {
+    process.env.EMBEDDING_PROVIDER = 'hash'
+    try {
+      const query = await generateEmbedding('kubernetes cluster')
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(query).toEqual(generateHashEmbedding('Kubernetes cluster'))
+      expect(query).toHaveLength(EMBEDDING_DIMENSIONS)
+      expect(cosine(query, query)).toBeCloseTo(1)
+
+      const related = generateHashEmbedding('Interactive Kubernetes cluster management')
+      const unrelated = generateHashEmbedding('Control Spotify playback')
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+    } finally {
+      delete process.env.EMBEDDING_PROVIDER
+    }
+  })
+})
+
+describe('embedding providers', () => {
+  const providerEnv = [
+    'EMBEDDING_PROVIDER',
+    'EMBEDDING_MODEL',
+    'EMBEDDING_BASE_URL',
+    'EMBEDDING_API_KEY',
+    'EMBEDDING_NEXT_PROVIDER',
+    'EMBEDDING_NEXT_MODEL',
+    'EMBEDDING_NEXT_BASE_URL',
+    'EMBEDDING_SEARCH_SLOT',
+  ]
+  const vector = (value: number) => Array.from({ length: EMBEDDING_DIMENSIONS }, () => value)
+
+  afterEach(() => {
+    for (const name of providerEnv) delete process.env[name]
+  })
+
+  it('defaults the primary slot to OpenAI and leaves the next slot unset', () => {
+    expect(getEmbeddingProvider()).toMatchObject({
+      kind: 'openai',
+      id: 'openai:text-embedding-3-small',
+      dimensions: EMBEDDING_DIMENSIONS,
+    })
+    expect(getEmbeddingProvider('next')).toBeNull()
+    expect(getSearchEmbeddingSlot()).toBe('primary')
+  })
+
+  it('calls an OpenAI-compatible endpoint without auth when no key is set', async () => {
+    process.env.EMBEDDING_PROVIDER = 'openai-compatible'
+    process.env.EMBEDDING_BASE_URL = 'http://localhost:11434/v1/'
+    process.env.EMBEDDING_MODEL = 'local-embed'
+    fetchMock.mockResolvedValueOnce(jsonResponse({ data: [{ embedding: vector(0.5) }] }))
+
+    await expect(generateEmbedding('hello')).resolves.toEqual(vector(0.5))
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://localhost:11434/v1/embeddings')
+    expect(init?.headers).not.toHaveProperty('Authorization')
+    expect(JSON.parse(init?.body as string)).toEqual({ model: 'local-embed', input: 'hello' })
+    expect(getEmbeddingProvider()?.id).toBe('openai-compatible:local-embed')
+  })
+
+  it('rejects local vectors that do not fit the index', async () => {
+    process.env.EMBEDDING_PROVIDER = 'openai-compatible'
+    process.env.EMBEDDING_BASE_URL = 'http://localhost:11434/v1'
+    process.env.EMBEDDING_MODEL = 'small-embed'
+    fetchMock.mockResolvedValueOnce(jsonResponse({ data: [{ embedding: [1, 2, 3] }] }))
+
+    await expect(generateEmbedding('hello')).rejects.toThrow(
+      `Embedding failed: small-embed returned 3 dimensions, expected ${EMBEDDING_DIMENSIONS}`,
+    )
+  })
+
+  it('reports misconfigured providers', () => {
+    process.env.EMBEDDING_PROVIDER = 'openai-compatible'
+    expect(() => getEmbeddingProvider()).toThrow(
+      'EMBEDDING_PROVIDER=openai-compatible needs EMBEDDING_BASE_URL and EMBEDDING_MODEL',
+    )
+    process.env.EMBEDDING_NEXT_PROVIDER = 'cohere'
+    expect(() => getEmbeddingProvider('next')).toThrow(
+      'Unknown EMBEDDING_NEXT_PROVIDER "cohere"; expected openai, openai-compatible or hash',
+    )
+  })
+
+  it('embeds into both slots while a migration is configured', async () => {
+    process.env.EMBEDDING_NEXT_PROVIDER = 'hash'
+    process.env.EMBEDDING_SEARCH_SLOT = 'next'
+    fetchMock.mockResolvedValueOnce(jsonResponse({ data: [{ embedding: vector(0.25) }] }))
+
+    await expect(generateStoredEmbeddings('kubernetes')).resolves.toEqual({
+      embedding: vector(0.25),
+      embeddingModel: 'openai:text-embedding-3-small',
+      embeddingNext: generateHashEmbedding('kubernetes'),
+      embeddingNextModel: `hash:${EMBEDDING_DIMENSIONS}`,
+    })
+    expect(getSearchEmbeddingSlot()).toBe('next')
+  })
+
+  it('omits the next slot outside a migration', async () => {
+    process.env.EMBEDDING_PROVIDER = 'hash'
+    await expect(generateStoredEmbeddings('kubernetes')).resolves.toEqual({
+      embedding: generateHashEmbedding('kubernetes'),
+      embeddingModel: `hash:${EMBEDDING_DIMENSIONS}`,
+    })
+  })
+})
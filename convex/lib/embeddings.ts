@@ -1,7 +1,37 @@
 export const EMBEDDING_MODEL = 'text-embedding-3-small'
 export const EMBEDDING_DIMENSIONS = 1536
+/**
+ * Width of the `embeddingNext` vector indexes, the staging slot a model migration re-embeds
+ * into while search keeps reading `embedding`. Set it to the new model's output size before
+ * a migration; see docs/embeddings.md.
+ */
+export const NEXT_EMBEDDING_DIMENSIONS = 1536
+/** `embeddingModel` of rows written before the model was recorded. */
+export const LEGACY_EMBEDDING_MODEL_ID = `openai:${EMBEDDING_MODEL}`
 
-const EMBEDDING_ENDPOINT = 'https://api.openai.com/v1/embeddings'
+export type EmbeddingSlot = 'primary' | 'next'
+
+export type EmbeddingProviderKind = 'openai' | 'openai-compatible' | 'hash'
+
+export type EmbeddingProvider = {
+  kind: EmbeddingProviderKind
+  /** Recorded on every stored vector, e.g. `openai:text-embedding-3-small`. */
+  id: string
+  dimensions: number
+  embed: (text: string) => Promise<number[]>
+}
+
+export const EMBEDDING_SLOT_DIMENSIONS: Record<EmbeddingSlot, number> = {
+  primary: EMBEDDING_DIMENSIONS,
+  next: NEXT_EMBEDDING_DIMENSIONS,
+}
+
+export const EMBEDDING_VECTOR_INDEX = {
+  primary: 'by_embedding',
+  next: 'by_embedding_next',
+} as const
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
 const REQUEST_TIMEOUT_MS = 10_000
 const MAX_ATTEMPTS = 3
 const BASE_RETRY_DELAY_MS = 1_000
@@ -13,8 +43,37 @@ class RetryableEmbeddingError extends Error {
   }
 }
 
-function emptyEmbedding() {
-  return Array.from({ length: EMBEDDING_DIMENSIONS }, () => 0)
+function emptyEmbedding(dimensions = EMBEDDING_DIMENSIONS) {
+  return Array.from({ length: dimensions }, () => 0)
+}
+
+function fnv1a(value: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Deterministic, offline stand-in for OpenAI: feature-hashes each word and its
+ * character trigrams into a signed unit vector, so texts sharing words (or word
+ * stems) score a positive cosine. Not semantic; meant for tests and search evals.
+ */
+export function generateHashEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS) {
+  const vector = emptyEmbedding(dimensions)
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    const padded = `^${word}$`
+    const features = [word]
+    for (let i = 0; i + 3 <= padded.length; i++) features.push(padded.slice(i, i + 3))
+    for (const feature of features) {
+      const hash = fnv1a(feature)
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1
+    }
+  }
+  const norm = Math.hypot(...vector)
+  return norm > 0 ? vector.map((value) => value / norm) : vector
 }
 
 function parseRetryAfterMs(retryAfterHeader: string | null) {
@@ -39,12 +98,12 @@ function getRetryDelayMs(attempt: number, retryAfterMs: number | null) {
   return Math.max(exponentialDelayMs, retryAfterMs)
 }
 
-function normalizeRetryableNetworkError(error: unknown) {
+function normalizeRetryableNetworkError(error: unknown, label: string) {
   if (!(error instanceof Error)) return null
 
   if (error.name === 'AbortError') {
     return new RetryableEmbeddingError(
-      `OpenAI API request timed out after ${Math.floor(REQUEST_TIMEOUT_MS / 1000)} seconds`,
+      `${label} API request timed out after ${Math.floor(REQUEST_TIMEOUT_MS / 1000)} seconds`,
       { cause: error },
     )
   }
@@ -62,13 +121,18 @@ function sleep(ms: number) {
   })
 }
 
-export async function generateEmbedding(text: string) {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    console.warn('OPENAI_API_KEY is not configured; using zero embeddings')
-    return emptyEmbedding()
-  }
+type EmbeddingRequest = {
+  /** Names the backend in retry warnings and timeout errors. */
+  label: string
+  baseUrl: string
+  apiKey?: string
+  model: string
+  dimensions?: number
+}
 
+/** POSTs to an OpenAI-style `/embeddings` endpoint, retrying 429s, 5xx and network errors. */
+async function requestEmbedding(text: string, request: EmbeddingRequest) {
+  const { label } = request
   let lastRetryableError: RetryableEmbeddingError | null = null
 
   for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
@@ -76,15 +140,16 @@ export async function generateEmbedding(text: string) {
     const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
 
     try {
-      const response = await fetch(EMBEDDING_ENDPOINT, {
+      const response = await fetch(`${request.baseUrl.replace(/\/+$/, '')}/embeddings`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
+          ...(request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {}),
         },
         body: JSON.stringify({
-          model: EMBEDDING_MODEL,
+          model: request.model,
           input: text,
+          ...(request.dimensions ? { dimensions: request.dimensions } : {}),
         }),
         signal: controller.signal,
       })
@@ -102,7 +167,7 @@ export async function generateEmbedding(text: string) {
             const retryAfterMs = parseRetryAfterMs(response.headers.get('retry-after'))
             const delayMs = getRetryDelayMs(attempt, retryAfterMs)
             console.warn(
-              `OpenAI embeddings retry in ${delayMs}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`,
+              `${label} embeddings retry in ${delayMs}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`,
             )
             await sleep(delayMs)
             continue
@@ -121,13 +186,13 @@ export async function generateEmbedding(text: string) {
       if (!embedding) throw new Error('Embedding missing from response')
       return embedding
     } catch (error) {
-      const retryableNetworkError = normalizeRetryableNetworkError(error)
+      const retryableNetworkError = normalizeRetryableNetworkError(error, label)
       if (retryableNetworkError) {
         lastRetryableError = retryableNetworkError
         if (attempt < MAX_ATTEMPTS - 1) {
           const delayMs = getRetryDelayMs(attempt, null)
           console.warn(
-            `OpenAI embeddings network retry in ${delayMs}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`,
+            `${label} embeddings network retry in ${delayMs}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`,
           )
           await sleep(delayMs)
           continue
@@ -143,3 +208,125 @@ export async function generateEmbedding(text: string) {
 
   throw lastRetryableError ?? new Error('Embedding failed after retries')
 }
+
+function readSlotEnv(slot: EmbeddingSlot, name: string) {
+  const value = process.env[slot === 'primary' ? `EMBEDDING_${name}` : `EMBEDDING_NEXT_${name}`]
+  return value?.trim() || undefined
+}
+
+/**
+ * Resolves the provider for a slot from the deployment env: `EMBEDDING_PROVIDER`,
+ * `EMBEDDING_MODEL`, `EMBEDDING_BASE_URL` and `EMBEDDING_API_KEY` for the primary slot, the
+ * same names with `EMBEDDING_NEXT_` for the next slot. The primary slot defaults to OpenAI; the
+ * next slot is null until a migration configures it.
+ */
+export function getEmbeddingProvider(slot: EmbeddingSlot = 'primary'): EmbeddingProvider | null {
+  const kind = readSlotEnv(slot, 'PROVIDER') ?? (slot === 'primary' ? 'openai' : undefined)
+  if (!kind) return null
+  const dimensions = EMBEDDING_SLOT_DIMENSIONS[slot]
+  const model = readSlotEnv(slot, 'MODEL')
+  const variable = slot === 'primary' ? 'EMBEDDING' : 'EMBEDDING_NEXT'
+
+  if (kind === 'hash') {
+    return {
+      kind,
+      id: `hash:${dimensions}`,
+      dimensions,
+      embed: async (text) => generateHashEmbedding(text, dimensions),
+    }
+  }
+
+  if (kind === 'openai') {
+    const openaiModel = model ?? EMBEDDING_MODEL
+    return {
+      kind,
+      id: `openai:${openaiModel}`,
+      dimensions,
+      embed: async (text) => {
+        const apiKey = readSlotEnv(slot, 'API_KEY') ?? process.env.OPENAI_API_KEY
+        if (!apiKey) {
+          console.warn('OPENAI_API_KEY is not configured; using zero embeddings')
+          return emptyEmbedding(dimensions)
+        }
+        return requestEmbedding(text, {
+          label: 'OpenAI',
+          baseUrl: OPENAI_BASE_URL,
+          apiKey,
+          model: openaiModel,
+          // text-embedding-3 models can shorten their output to fit a narrower index.
+          dimensions: dimensions === EMBEDDING_DIMENSIONS ? undefined : dimensions,
+        })
+      },
+    }
+  }
+
+  if (kind === 'openai-compatible') {
+    const baseUrl = readSlotEnv(slot, 'BASE_URL')
+    if (!baseUrl || !model) {
+      throw new Error(
+        `${variable}_PROVIDER=openai-compatible needs ${variable}_BASE_URL and ${variable}_MODEL`,
+      )
+    }
+    return {
+      kind,
+      id: `openai-compatible:${model}`,
+      dimensions,
+      embed: async (text) => {
+        const embedding = await requestEmbedding(text, {
+          label: 'Embedding endpoint',
+          baseUrl,
+          apiKey: readSlotEnv(slot, 'API_KEY'),
+          model,
+        })
+        // Local models have fixed output sizes; a mismatch would be rejected by the vector index.
+        if (embedding.length !== dimensions) {
+          throw new Error(
+            `Embedding failed: ${model} returned ${embedding.length} dimensions, expected ${dimensions}`,
+          )
+        }
+        return embedding
+      },
+    }
+  }
+
+  throw new Error(
+    `Unknown ${variable}_PROVIDER "${kind}"; expected openai, openai-compatible or hash`,
+  )
+}
+
+/** Which vector index search reads; `EMBEDDING_SEARCH_SLOT=next` cuts over after a migration. */
+export function getSearchEmbeddingSlot(): EmbeddingSlot {
+  return process.env.EMBEDDING_SEARCH_SLOT?.trim() === 'next' ? 'next' : 'primary'
+}
+
+export async function generateEmbedding(text: string, slot: EmbeddingSlot = 'primary') {
+  const provider = getEmbeddingProvider(slot)
+  if (!provider) throw new Error('EMBEDDING_NEXT_PROVIDER is not configured')
+  return provider.embed(text)
+}
+
+export type StoredEmbeddings = {
+  embedding: number[]
+  embeddingModel: string
+  embeddingNext?: number[]
+  embeddingNextModel?: string
+}
+
+/**
+ * Embeds a published version for every configured slot, so versions published mid-migration
+ * land in both vector indexes and the backfill never has to chase new publishes.
+ */
+export async function generateStoredEmbeddings(text: string): Promise<StoredEmbeddings> {
+  const primary = getEmbeddingProvider('primary')
+  const next = getEmbeddingProvider('next')
+  if (!primary) throw new Error('Embedding provider is not configured')
+  const [embedding, embeddingNext] = await Promise.all([
+    primary.embed(text),
+    next ? next.embed(text) : Promise.resolve(undefined),
+  ])
+  return {
+    embedding,
+    embeddingModel: primary.id,
+    ...(next && embeddingNext ? { embeddingNext, embeddingNextModel: next.id } : {}),
+  }
+}
@@ -502,13 +502,16 @@ function parseRepo(repo: string) {
 }
 
 export function normalizeOwner(value: string) {
+  // Org owners keep their `@` so `@acme/` never collides with a user named `acme`.
+  const isOrg = value.trim().startsWith('@')
   const normalized = value
     .trim()
     .toLowerCase()
     .replace(/[^a-z0-9-]/g, '-')
     .replace(/-+/g, '-')
     .replace(/^-+|-+$/g, '')
-  return normalized || 'unknown'
+  if (!normalized) return 'unknown'
+  return isOrg ? `@${normalized}` : normalized
 }
 
 function commitUrl(repo: string, sha: string) {
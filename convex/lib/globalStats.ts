@@ -1,11 +1,12 @@
 import type { Doc } from '../_generated/dataModel'
 import type { MutationCtx, QueryCtx } from '../_generated/server'
+import { isSkillListed } from './skillVisibility'
 
 export const GLOBAL_STATS_KEY = 'default'
 
 type SkillVisibilityFields = Pick<
   Doc<'skills'>,
-  'softDeletedAt' | 'moderationStatus' | 'moderationFlags'
+  'softDeletedAt' | 'moderationStatus' | 'moderationFlags' | 'visibility'
 >
 
 type GlobalStatsReadCtx = Pick<MutationCtx | QueryCtx, 'db'>
@@ -18,12 +19,17 @@ export function isPublicSkillDoc(skill: SkillVisibilityFields | null | undefined
   return true
 }
 
+// Unlisted and private skills stay out of the public skill count.
+function isCountedPublicSkillDoc(skill: SkillVisibilityFields | null | undefined) {
+  return isPublicSkillDoc(skill) && isSkillListed(skill as SkillVisibilityFields)
+}
+
 export function getPublicSkillVisibilityDelta(
   before: SkillVisibilityFields | null | undefined,
   after: SkillVisibilityFields | null | undefined,
 ) {
-  const beforePublic = isPublicSkillDoc(before)
-  const afterPublic = isPublicSkillDoc(after)
+  const beforePublic = isCountedPublicSkillDoc(before)
+  const afterPublic = isCountedPublicSkillDoc(after)
   if (beforePublic === afterPublic) return 0
   return afterPublic ? 1 : -1
 }
@@ -59,7 +65,7 @@ export async function countPublicSkillsForGlobalStats(ctx: GlobalStatsReadCtx) {
     .collect()
   let count = 0
   for (const skill of skills) {
-    if (isPublicSkillDoc(skill)) count += 1
+    if (isCountedPublicSkillDoc(skill)) count += 1
   }
   return count
 }
@@ -0,0 +1,140 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import type { Id } from '../_generated/dataModel'
+import {
+  buildLeaderboards,
+  type DailyStatRow,
+  getDecayWeight,
+  getLeaderboardKey,
+  type LeaderboardSkill,
+  parseLeaderboardKey,
+  scoreRisingEntries,
+  scoreTopMonthEntries,
+  scoreTrendingEntries,
+  toDayKey,
+} from './leaderboards'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2026, 0, 31, 12)
+const TODAY = toDayKey(NOW)
+
+function id(name: string) {
+  return `skills:${name}` as Id<'skills'>
+}
+
+function row(name: string, daysAgo: number, stats: Partial<DailyStatRow> = {}): DailyStatRow {
+  return { skillId: id(name), day: TODAY - daysAgo, downloads: 0, installs: 0, ...stats }
+}
+
+function skill(name: string, extra: Partial<LeaderboardSkill> = {}): LeaderboardSkill {
+  return { skillId: id(name), createdAt: NOW - 90 * DAY_MS, os: [], ...extra }
+}
+
+describe('leaderboard keys', () => {
+  it('round-trips kinds and scopes', () => {
+    expect(getLeaderboardKey('top-month')).toBe('top-month')
+    expect(getLeaderboardKey({ type: 'os', value: 'macos' })).toBe('os:macos')
+    expect(parseLeaderboardKey('category:devops')).toEqual({ type: 'category', value: 'devops' })
+    expect(parseLeaderboardKey('rising')).toBe('rising')
+    expect(parseLeaderboardKey('hot')).toBeNull()
+    expect(parseLeaderboardKey('os:')).toBeNull()
+  })
+})
+
+describe('scoreTrendingEntries', () => {
+  it('halves an install every half-life and ignores days outside the week', () => {
+    expect(getDecayWeight(0)).toBe(1)
+    expect(getDecayWeight(3)).toBeCloseTo(0.5)
+
+    const [fresh, stale] = ['fresh', 'stale'].map((name) =>
+      scoreTrendingEntries(
+        [row(name, name === 'fresh' ? 0 : 6, { installs: 10 }), row(name, 7, { installs: 99 })],
+        TODAY,
+      ).find((entry) => entry.skillId === id(name)),
+    )
+    expect(fresh).toMatchObject({ installs: 10, score: 10 })
+    expect(stale?.installs).toBe(10)
+    expect(stale?.score).toBeCloseTo(2.5)
+  })
+})
+
+describe('scoreRisingEntries', () => {
+  it('ranks growth over the prior week and skips tiny or shrinking skills', () => {
+    const entries = scoreRisingEntries(
+      [
+        row('big', 1, { installs: 60 }),
+        row('big', 8, { installs: 40 }),
+        row('breakout', 1, { installs: 12 }),
+        row('tiny', 1, { installs: 2 }),
+        row('shrinking', 1, { installs: 5 }),
+        row('shrinking', 10, { installs: 8 }),
+      ],
+      TODAY,
+    )
+    expect(entries.map((entry) => entry.skillId).sort()).toEqual([id('big'), id('breakout')])
+    const breakout = entries.find((entry) => entry.skillId === id('breakout'))
+    const big = entries.find((entry) => entry.skillId === id('big'))
+    expect(breakout).toMatchObject({ previousInstalls: 0, score: 12 / 5 })
+    expect(big).toMatchObject({ previousInstalls: 40, score: 20 / 45 })
+  })
+})
+
+describe('scoreTopMonthEntries', () => {
+  it('sums net stars across 30 days', () => {
+    const entries = scoreTopMonthEntries(
+      [
+        row('loved', 0, { stars: 3 }),
+        row('loved', 29, { stars: 2 }),
+        row('loved', 30, { stars: 50 }),
+        row('unstarred', 2, { stars: 0, installs: 9 }),
+      ],
+      TODAY,
+    )
+    expect(entries).toEqual([
+      { skillId: id('loved'), installs: 0, downloads: 0, stars: 5, score: 5 },
+    ])
+  })
+})
+
+describe('buildLeaderboards', () => {
+  it('builds every kind plus category and OS boards from listed skills', () => {
+    const boards = buildLeaderboards({
+      rows: [
+        row('cli', 0, { installs: 5 }),
+        row('mac', 0, { installs: 8, stars: 1 }),
+        row('hidden', 0, { installs: 100 }),
+      ],
+      skills: [
+        skill('cli', { category: 'devops' }),
+        skill('mac', { category: 'devops', os: ['macos'] }),
+        skill('fresh', { createdAt: NOW - DAY_MS }),
+      ],
+      now: NOW,
+      limit: 10,
+    })
+    const byKind = new Map(boards.map((board) => [board.kind, board]))
+    const ids = (kind: string) => byKind.get(kind)?.items.map((entry) => entry.skillId)
+
+    expect(Array.from(byKind.keys())).toEqual([
+      'trending',
+      'rising',
+      'new',
+      'top-month',
+      'category:devops',
+      'os:linux',
+      'os:macos',
+      'os:windows',
+    ])
+    expect(ids('trending')).toEqual([id('mac'), id('cli')])
+    expect(ids('rising')).toEqual([id('mac'), id('cli')])
+    expect(ids('new')).toEqual([id('fresh')])
+    expect(ids('top-month')).toEqual([id('mac')])
+    expect(ids('category:devops')).toEqual([id('mac'), id('cli')])
+    expect(ids('os:linux')).toEqual([id('cli')])
+    expect(byKind.get('top-month')).toMatchObject({
+      rangeStartDay: TODAY - 29,
+      rangeEndDay: TODAY,
+    })
+  })
+})
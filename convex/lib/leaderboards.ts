@@ -1,14 +1,53 @@
-import type { Id } from '../_generated/dataModel'
+import type { Doc, Id } from '../_generated/dataModel'
 import type { MutationCtx, QueryCtx } from '../_generated/server'
 
 const DAY_MS = 24 * 60 * 60 * 1000
 export const TRENDING_DAYS = 7
+export const RISING_DAYS = 7
+export const NEW_SKILL_DAYS = 7
+export const TOP_MONTH_DAYS = 30
+/** Trending activity loses half its weight every this many days. */
+export const TRENDING_HALF_LIFE_DAYS = 3
+/** Rising needs real volume; 1 → 2 installs shouldn't outrank 40 → 60. */
+export const RISING_MIN_INSTALLS = 3
+const RISING_SMOOTHING = 5
+const NEW_SKILL_DOWNLOAD_WEIGHT = 0.25
+export const MAX_CATEGORY_LEADERBOARDS = 20
+export const LEADERBOARD_OS = ['linux', 'macos', 'windows'] as const
 
-type LeaderboardEntry = {
+export const LEADERBOARD_KINDS = ['trending', 'rising', 'new', 'top-month'] as const
+export type LeaderboardKind = (typeof LEADERBOARD_KINDS)[number]
+
+/** Per-category and per-OS boards rank by the trending score within their scope. */
+export type LeaderboardScope = { type: 'category' | 'os'; value: string }
+
+export type LeaderboardEntry = {
   skillId: Id<'skills'>
   score: number
   installs: number
   downloads: number
+  stars?: number
+  previousInstalls?: number
+}
+
+export type DailyStatRow = Pick<
+  Doc<'skillDailyStats'>,
+  'skillId' | 'day' | 'downloads' | 'installs' | 'stars'
+>
+
+export type LeaderboardSkill = {
+  skillId: Id<'skills'>
+  createdAt: number
+  category?: string
+  /** Empty when the skill runs everywhere. */
+  os: string[]
+}
+
+export type BuiltLeaderboard = {
+  kind: string
+  rangeStartDay: number
+  rangeEndDay: number
+  items: LeaderboardEntry[]
 }
 
 export function toDayKey(timestamp: number) {
@@ -21,41 +60,215 @@ export function getTrendingRange(now: number) {
   return { startDay, endDay }
 }
 
-export async function buildTrendingLeaderboard(
-  ctx: QueryCtx | MutationCtx,
-  params: { limit: number; now?: number },
-) {
-  const now = params.now ?? Date.now()
-  const { startDay, endDay } = getTrendingRange(now)
-  const rows = await ctx.db
-    .query('skillDailyStats')
-    .withIndex('by_day', (q) => q.gte('day', startDay).lte('day', endDay))
-    .collect()
+/** First day of `skillDailyStats` any leaderboard reads; rising also needs its prior window. */
+export function getLeaderboardStatsStartDay(now: number) {
+  return toDayKey(now) - (Math.max(TOP_MONTH_DAYS, RISING_DAYS * 2) - 1)
+}
+
+export function getLeaderboardKey(kind: LeaderboardKind | LeaderboardScope) {
+  return typeof kind === 'string' ? kind : `${kind.type}:${kind.value}`
+}
+
+export function parseLeaderboardKey(key: string): LeaderboardKind | LeaderboardScope | null {
+  if ((LEADERBOARD_KINDS as readonly string[]).includes(key)) return key as LeaderboardKind
+  const [type, value] = key.split(':', 2)
+  if ((type === 'category' || type === 'os') && value) return { type, value }
+  return null
+}
+
+export function getDecayWeight(ageDays: number) {
+  return 0.5 ** (Math.max(0, ageDays) / TRENDING_HALF_LIFE_DAYS)
+}
+
+type StatTotals = {
+  installs: number
+  downloads: number
+  stars: number
+  decayedInstalls: number
+  decayedDownloads: number
+}
 
-  const totals = new Map<Id<'skills'>, { installs: number; downloads: number }>()
+function sumDailyStats(rows: DailyStatRow[], startDay: number, endDay: number) {
+  const totals = new Map<Id<'skills'>, StatTotals>()
   for (const row of rows) {
-    const current = totals.get(row.skillId) ?? { installs: 0, downloads: 0 }
+    if (row.day < startDay || row.day > endDay) continue
+    const current = totals.get(row.skillId) ?? {
+      installs: 0,
+      downloads: 0,
+      stars: 0,
+      decayedInstalls: 0,
+      decayedDownloads: 0,
+    }
+    const weight = getDecayWeight(endDay - row.day)
     current.installs += row.installs
     current.downloads += row.downloads
+    current.stars += row.stars ?? 0
+    current.decayedInstalls += row.installs * weight
+    current.decayedDownloads += row.downloads * weight
     totals.set(row.skillId, current)
   }
+  return totals
+}
 
-  const entries = Array.from(totals, ([skillId, totalsEntry]) => ({
+/** Installs over the last week, each day weighted by its age. */
+export function scoreTrendingEntries(rows: DailyStatRow[], endDay: number): LeaderboardEntry[] {
+  const totals = sumDailyStats(rows, endDay - (TRENDING_DAYS - 1), endDay)
+  return Array.from(totals, ([skillId, entry]) => ({
     skillId,
-    installs: totalsEntry.installs,
-    downloads: totalsEntry.downloads,
-    score: totalsEntry.installs,
+    installs: entry.installs,
+    downloads: entry.downloads,
+    score: entry.decayedInstalls,
   }))
+}
 
-  const items = topN(entries, params.limit, compareTrendingEntries).sort((a, b) =>
-    compareTrendingEntries(b, a),
-  )
+/** Install growth against the previous window, smoothed so tiny bases don't dominate. */
+export function scoreRisingEntries(rows: DailyStatRow[], endDay: number): LeaderboardEntry[] {
+  const current = sumDailyStats(rows, endDay - (RISING_DAYS - 1), endDay)
+  const prior = sumDailyStats(rows, endDay - (RISING_DAYS * 2 - 1), endDay - RISING_DAYS)
+  const entries: LeaderboardEntry[] = []
+  for (const [skillId, entry] of current) {
+    const previousInstalls = prior.get(skillId)?.installs ?? 0
+    if (entry.installs < RISING_MIN_INSTALLS || entry.installs <= previousInstalls) continue
+    entries.push({
+      skillId,
+      installs: entry.installs,
+      downloads: entry.downloads,
+      previousInstalls,
+      score: (entry.installs - previousInstalls) / (previousInstalls + RISING_SMOOTHING),
+    })
+  }
+  return entries
+}
+
+/** Skills first published this week, including ones nobody has installed yet. */
+export function scoreNewEntries(
+  rows: DailyStatRow[],
+  skills: LeaderboardSkill[],
+  now: number,
+): LeaderboardEntry[] {
+  const endDay = toDayKey(now)
+  const totals = sumDailyStats(rows, endDay - (NEW_SKILL_DAYS - 1), endDay)
+  const cutoff = now - NEW_SKILL_DAYS * DAY_MS
+  return skills
+    .filter((skill) => skill.createdAt >= cutoff)
+    .map((skill) => {
+      const entry = totals.get(skill.skillId)
+      return {
+        skillId: skill.skillId,
+        installs: entry?.installs ?? 0,
+        downloads: entry?.downloads ?? 0,
+        score: entry
+          ? entry.decayedInstalls + entry.decayedDownloads * NEW_SKILL_DOWNLOAD_WEIGHT
+          : 0,
+      }
+    })
+}
+
+/** Stars gained over the last 30 days. */
+export function scoreTopMonthEntries(rows: DailyStatRow[], endDay: number): LeaderboardEntry[] {
+  const totals = sumDailyStats(rows, endDay - (TOP_MONTH_DAYS - 1), endDay)
+  const entries: LeaderboardEntry[] = []
+  for (const [skillId, entry] of totals) {
+    if (entry.stars <= 0) continue
+    entries.push({
+      skillId,
+      installs: entry.installs,
+      downloads: entry.downloads,
+      stars: entry.stars,
+      score: entry.stars,
+    })
+  }
+  return entries
+}
+
+function matchesScope(skill: LeaderboardSkill, scope: LeaderboardScope) {
+  if (scope.type === 'category') return skill.category === scope.value
+  return skill.os.length === 0 || skill.os.includes(scope.value)
+}
+
+/**
+ * Every leaderboard for one cron run. Stats rows must cover `getLeaderboardStatsStartDay`;
+ * skills must include everything listed that has activity or was created this week. Entries
+ * for skills missing from `skills` (unlisted, deleted, hidden) are dropped.
+ */
+export function buildLeaderboards(params: {
+  rows: DailyStatRow[]
+  skills: LeaderboardSkill[]
+  now: number
+  limit: number
+}): BuiltLeaderboard[] {
+  const endDay = toDayKey(params.now)
+  const skillById = new Map(params.skills.map((skill) => [skill.skillId, skill]))
+  const listed = (entries: LeaderboardEntry[]) =>
+    entries.filter((entry) => skillById.has(entry.skillId))
+  const board = (kind: string, days: number, entries: LeaderboardEntry[], newest = false) => ({
+    kind,
+    rangeStartDay: endDay - (days - 1),
+    rangeEndDay: endDay,
+    items: rankLeaderboardEntries(entries, params.limit, newest ? skillById : undefined),
+  })
+
+  const trending = listed(scoreTrendingEntries(params.rows, endDay))
+  const boards: BuiltLeaderboard[] = [
+    board('trending', TRENDING_DAYS, trending),
+    board('rising', RISING_DAYS, listed(scoreRisingEntries(params.rows, endDay))),
+    board('new', NEW_SKILL_DAYS, scoreNewEntries(params.rows, params.skills, params.now), true),
+    board('top-month', TOP_MONTH_DAYS, listed(scoreTopMonthEntries(params.rows, endDay))),
+  ]
+
+  const categoryCounts = new Map<string, number>()
+  for (const skill of params.skills) {
+    if (skill.category) {
+      categoryCounts.set(skill.category, (categoryCounts.get(skill.category) ?? 0) + 1)
+    }
+  }
+  const categories = Array.from(categoryCounts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_CATEGORY_LEADERBOARDS)
+    .map(([value]) => ({ type: 'category' as const, value }))
+  const osScopes = LEADERBOARD_OS.map((value) => ({ type: 'os' as const, value }))
+  for (const scope of [...categories, ...osScopes]) {
+    const scoped = trending.filter((entry) => {
+      const skill = skillById.get(entry.skillId)
+      return skill ? matchesScope(skill, scope) : false
+    })
+    boards.push(board(getLeaderboardKey(scope), TRENDING_DAYS, scoped))
+  }
+  return boards
+}
+
+export function rankLeaderboardEntries(
+  entries: LeaderboardEntry[],
+  limit: number,
+  newestFirst?: Map<Id<'skills'>, LeaderboardSkill>,
+) {
+  const compare = (a: LeaderboardEntry, b: LeaderboardEntry) => {
+    const byScore = compareLeaderboardEntries(a, b)
+    if (byScore !== 0 || !newestFirst) return byScore
+    const createdAt = (entry: LeaderboardEntry) => newestFirst.get(entry.skillId)?.createdAt ?? 0
+    return createdAt(a) - createdAt(b)
+  }
+  return topN(entries, limit, compare).sort((a, b) => compare(b, a))
+}
+
+export async function buildTrendingLeaderboard(
+  ctx: QueryCtx | MutationCtx,
+  params: { limit: number; now?: number },
+) {
+  const now = params.now ?? Date.now()
+  const { startDay, endDay } = getTrendingRange(now)
+  const rows = await ctx.db
+    .query('skillDailyStats')
+    .withIndex('by_day', (q) => q.gte('day', startDay).lte('day', endDay))
+    .collect()
 
+  const items = rankLeaderboardEntries(scoreTrendingEntries(rows, endDay), params.limit)
   return { startDay, endDay, items }
 }
 
-function compareTrendingEntries(a: LeaderboardEntry, b: LeaderboardEntry) {
+function compareLeaderboardEntries(a: LeaderboardEntry, b: LeaderboardEntry) {
   if (a.score !== b.score) return a.score - b.score
+  if (a.installs !== b.installs) return a.installs - b.installs
   if (a.downloads !== b.downloads) return a.downloads - b.downloads
   return 0
 }
@@ -0,0 +1,112 @@
+import { extractResponseText } from './openaiResponse'
+import {
+  assembleEvalUserMessage,
+  LLM_EVAL_MAX_OUTPUT_TOKENS,
+  type LlmEvalResponse,
+  parseLlmEvalResponse,
+  SECURITY_EVALUATOR_SYSTEM_PROMPT,
+  type SkillEvalContext,
+} from './securityPrompt'
+
+const MAX_RETRIES = 3
+
+export function verdictToStatus(verdict: string): string {
+  switch (verdict) {
+    case 'benign':
+      return 'clean'
+    case 'malicious':
+      return 'malicious'
+    case 'suspicious':
+      return 'suspicious'
+    default:
+      return 'pending'
+  }
+}
+
+/** The `llmAnalysis` payload stored on a version (and returned by publish previews). */
+export function toLlmAnalysis(result: LlmEvalResponse, model: string) {
+  return {
+    status: verdictToStatus(result.verdict),
+    verdict: result.verdict,
+    confidence: result.confidence,
+    summary: result.summary,
+    dimensions: result.dimensions,
+    guidance: result.guidance,
+    findings: result.findings || undefined,
+    model,
+    checkedAt: Date.now(),
+  }
+}
+
+/**
+ * Sends one skill to the OpenAI Responses API with the security evaluator prompt,
+ * retrying rate limits and 5xx responses with backoff.
+ */
+export async function requestLlmSecurityEval(
+  evalCtx: SkillEvalContext,
+  options: { apiKey: string; model: string },
+): Promise<{ ok: true; result: LlmEvalResponse } | { ok: false; error: string }> {
+  let raw: string | null = null
+  try {
+    const body = JSON.stringify({
+      model: options.model,
+      instructions: SECURITY_EVALUATOR_SYSTEM_PROMPT,
+      input: assembleEvalUserMessage(evalCtx),
+      max_output_tokens: LLM_EVAL_MAX_OUTPUT_TOKENS,
+      text: {
+        format: {
+          type: 'json_object',
+        },
+      },
+    })
+
+    let response: Response | null = null
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      response = await fetch('https://api.openai.com/v1/responses', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${options.apiKey}`,
+        },
+        body,
+      })
+
+      if (response.status === 429 || response.status >= 500) {
+        if (attempt < MAX_RETRIES) {
+          const delay = 2 ** attempt * 2000 + Math.random() * 1000
+          console.log(
+            `[llmEval] Rate limited (${response.status}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`,
+          )
+          await new Promise((r) => setTimeout(r, delay))
+          continue
+        }
+      }
+      break
+    }
+
+    if (!response || !response.ok) {
+      const errorText = response ? await response.text() : 'No response'
+      return {
+        ok: false,
+        error: `OpenAI API error (${response?.status}): ${errorText.slice(0, 200)}`,
+      }
+    }
+
+    const payload = (await response.json()) as unknown
+    raw = extractResponseText(payload)
+  } catch (error) {
+    return {
+      ok: false,
+      error: `OpenAI API call failed: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+
+  if (!raw) return { ok: false, error: 'Empty response from OpenAI' }
+
+  const result = parseLlmEvalResponse(raw)
+  if (!result) {
+    console.error(`[llmEval] Raw response (first 500 chars): ${raw.slice(0, 500)}`)
+    return { ok: false, error: 'Failed to parse LLM evaluation response' }
+  }
+  return { ok: true, result }
+}
@@ -0,0 +1,55 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import { buildMimeMessage, encodeHeader, mailAddress } from './mail'
+
+const message = {
+  from: 'ClawHub <noreply@clawhub.ai>',
+  to: 'alice@example.com',
+  subject: 'Your digest',
+  text: 'Hello',
+  html: '<p>Hello</p>',
+}
+
+describe('mailAddress', () => {
+  it('extracts the address from a display name', () => {
+    expect(mailAddress('ClawHub <noreply@clawhub.ai>')).toBe('noreply@clawhub.ai')
+    expect(mailAddress(' alice@example.com ')).toBe('alice@example.com')
+  })
+})
+
+describe('encodeHeader', () => {
+  it('leaves ASCII alone and encodes the rest', () => {
+    expect(encodeHeader('Plain subject')).toBe('Plain subject')
+    expect(encodeHeader('Grüße')).toBe('=?utf-8?B?R3LDvMOfZQ==?=')
+  })
+})
+
+describe('buildMimeMessage', () => {
+  it('renders both parts as base64 with CRLF line endings', () => {
+    const raw = buildMimeMessage(
+      { ...message, headers: { 'List-Unsubscribe': '<https://clawhub.ai/u>' } },
+      { date: new Date(0), messageId: '<id@clawhub.ai>', boundary: 'b' },
+    )
+    expect(raw.split('\r\n\r\n')[0].split('\r\n')).toEqual([
+      'From: ClawHub <noreply@clawhub.ai>',
+      'To: alice@example.com',
+      'Subject: Your digest',
+      'Date: Thu, 01 Jan 1970 00:00:00 GMT',
+      'Message-ID: <id@clawhub.ai>',
+      'MIME-Version: 1.0',
+      'List-Unsubscribe: <https://clawhub.ai/u>',
+      'Content-Type: multipart/alternative; boundary="b"',
+    ])
+    expect(raw).toContain('Content-Type: text/plain; charset=utf-8\r\n')
+    expect(raw).toContain(`\r\n${btoa('Hello')}\r\n`)
+    expect(raw).toContain(`\r\n${btoa('<p>Hello</p>')}\r\n`)
+    expect(raw.endsWith('--b--\r\n')).toBe(true)
+  })
+
+  it('keeps header values on one line', () => {
+    const raw = buildMimeMessage({ ...message, to: 'alice@example.com\r\nBcc: eve@example.com' })
+    expect(raw).toContain('To: alice@example.com Bcc: eve@example.com\r\n')
+    expect(raw).not.toContain('\r\nBcc:')
+  })
+})
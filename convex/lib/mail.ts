@@ -0,0 +1,92 @@
+export type MailMessage = {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html: string
+  headers?: Record<string, string>
+}
+
+export type MailTransportKind = 'smtp' | 'file' | 'console'
+
+export type MailTransport = {
+  kind: MailTransportKind
+  send: (message: MailMessage) => Promise<void>
+}
+
+const MIME_LINE_LENGTH = 76
+
+/** Extracts the bare address from `Name <addr>` (or returns the input when there is none). */
+export function mailAddress(value: string) {
+  const match = /<([^<>]+)>\s*$/.exec(value)
+  return (match ? match[1] : value).trim()
+}
+
+/**
+ * Renders a multipart/alternative RFC 5322 message with base64 bodies, so
+ * long lines and non-ASCII text survive any relay without extra escaping.
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  options: { date?: Date; messageId?: string; boundary?: string } = {},
+) {
+  const boundary = options.boundary ?? `clawhub-${randomToken()}`
+  const domain = mailAddress(message.from).split('@')[1] || 'localhost'
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: (options.date ?? new Date()).toUTCString(),
+    'Message-ID': options.messageId ?? `<${randomToken()}@${domain}>`,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  }
+  // Header values come from user data (addresses, skill names); never let them add headers.
+  const lines = Object.entries(headers).map(
+    ([name, value]) => `${name}: ${value.replace(/[\r\n]+/g, ' ')}`,
+  )
+  lines.push('')
+  for (const [type, body] of [
+    ['text/plain', message.text],
+    ['text/html', message.html],
+  ] as const) {
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      ...wrapBase64(encodeBase64(body)),
+    )
+  }
+  lines.push(`--${boundary}--`, '')
+  return lines.join('\r\n')
+}
+
+/** RFC 2047 encoded-word for non-ASCII header values. */
+export function encodeHeader(value: string) {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+  return `=?utf-8?B?${encodeBase64(value)}?=`
+}
+
+function encodeBase64(value: string) {
+  let binary = ''
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function wrapBase64(value: string) {
+  const lines: string[] = []
+  for (let i = 0; i < value.length; i += MIME_LINE_LENGTH) {
+    lines.push(value.slice(i, i + MIME_LINE_LENGTH))
+  }
+  return lines
+}
+
+function randomToken() {
+  const bytes = new Uint8Array(12)
+  crypto.getRandomValues(bytes)
+  let out = ''
+  for (const byte of bytes) out += byte.toString(16).padStart(2, '0')
+  return out
+}
@@ -0,0 +1,137 @@
+/* @vitest-environment node */
+
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { createServer, type Server } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createFileTransport, dotStuff, getMailTransport, sendSmtpMail } from './mailTransport'
+
+const message = {
+  from: 'ClawHub <noreply@clawhub.ai>',
+  to: 'alice@example.com',
+  subject: 'Digest',
+  text: 'Hello',
+  html: '<p>Hello</p>',
+}
+
+let server: Server | null = null
+
+afterEach(async () => {
+  const current = server
+  server = null
+  if (current) await new Promise((resolve) => current.close(resolve))
+})
+
+/** Minimal SMTP peer: records commands and DATA, and lets a test override replies per verb. */
+async function startFakeSmtp(replies: Record<string, string> = {}) {
+  const commands: string[] = []
+  let data = ''
+  server = createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 fake ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      let index = buffer.indexOf('\r\n')
+      while (index !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        index = buffer.indexOf('\r\n')
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 queued\r\n')
+          } else {
+            data += `${line}\r\n`
+          }
+          continue
+        }
+        commands.push(line)
+        const verb = line.split(/[ :]/)[0].toUpperCase()
+        if (replies[verb]) {
+          socket.write(`${replies[verb]}\r\n`)
+        } else if (verb === 'EHLO') {
+          socket.write('250-fake\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n')
+        } else if (verb === 'AUTH') {
+          socket.write('235 ok\r\n')
+        } else if (verb === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else {
+          socket.write('250 ok\r\n')
+        }
+      }
+    })
+  })
+  const listening = server
+  await new Promise<void>((resolve) => listening.listen(0, '127.0.0.1', resolve))
+  const address = listening.address()
+  const port = typeof address === 'object' && address ? address.port : 0
+  return { port, commands, getData: () => data }
+}
+
+describe('sendSmtpMail', () => {
+  it('authenticates and delivers the MIME message', async () => {
+    const smtp = await startFakeSmtp()
+    await sendSmtpMail(
+      { host: '127.0.0.1', port: smtp.port, secure: false, user: 'u', password: 'p' },
+      message,
+    )
+    expect(smtp.commands).toEqual([
+      'EHLO clawhub',
+      `AUTH PLAIN ${Buffer.from('\0u\0p').toString('base64')}`,
+      'MAIL FROM:<noreply@clawhub.ai>',
+      'RCPT TO:<alice@example.com>',
+      'DATA',
+      'QUIT',
+    ])
+    expect(smtp.getData()).toContain('Subject: Digest\r\n')
+    expect(smtp.getData()).toContain('To: alice@example.com\r\n')
+  })
+
+  it('surfaces rejected recipients', async () => {
+    const smtp = await startFakeSmtp({ RCPT: '550 no such user' })
+    await expect(
+      sendSmtpMail({ host: '127.0.0.1', port: smtp.port, secure: false }, message),
+    ).rejects.toThrow('SMTP RCPT failed: 550 no such user')
+  })
+})
+
+describe('dotStuff', () => {
+  it('escapes leading dots and normalizes line endings', () => {
+    expect(dotStuff('a\n.b\r\n..c\r\n')).toBe('a\r\n..b\r\n...c')
+  })
+})
+
+describe('getMailTransport', () => {
+  it('is disabled until MAIL_TRANSPORT is set', () => {
+    expect(getMailTransport({})).toBeNull()
+    expect(getMailTransport({ MAIL_TRANSPORT: 'console' })?.kind).toBe('console')
+    expect(getMailTransport({ MAIL_TRANSPORT: 'smtp', SMTP_HOST: 'mail.test' })?.kind).toBe(
+      'smtp',
+    )
+  })
+
+  it('rejects incomplete or unknown configuration', () => {
+    expect(() => getMailTransport({ MAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST is required')
+    expect(() => getMailTransport({ MAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown MAIL_TRANSPORT')
+  })
+})
+
+describe('createFileTransport', () => {
+  it('writes one .eml file per message', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'clawhub-mail-test-'))
+    try {
+      await createFileTransport(dir).send(message)
+      const files = await readdir(dir)
+      expect(files).toHaveLength(1)
+      expect(files[0]).toMatch(/-alice@example\.com\.eml$/)
+      expect(await readFile(join(dir, files[0]), 'utf8')).toContain('Subject: Digest\r\n')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,214 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { connect as netConnect, type Socket } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { connect as tlsConnect } from 'node:tls'
+import { buildMimeMessage, type MailMessage, type MailTransport, mailAddress } from './mail'
+
+// Node-only (sockets, filesystem): import this from `'use node'` actions only.
+
+export type SmtpConfig = {
+  host: string
+  port: number
+  /** Implicit TLS (port 465). Otherwise the session upgrades with STARTTLS when offered. */
+  secure: boolean
+  user?: string
+  password?: string
+  heloName?: string
+  timeoutMs?: number
+}
+
+type SmtpReply = { code: number; lines: string[] }
+
+const DEFAULT_SMTP_TIMEOUT_MS = 30_000
+const LOCAL_SMTP_HOSTS = new Set(['localhost', '127.0.0.1', '::1'])
+
+export function getMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport | null {
+  const kind = env.MAIL_TRANSPORT?.trim().toLowerCase()
+  if (!kind) return null
+  switch (kind) {
+    case 'smtp': {
+      const host = env.SMTP_HOST?.trim()
+      if (!host) throw new Error('SMTP_HOST is required when MAIL_TRANSPORT=smtp')
+      const port = Number.parseInt(env.SMTP_PORT ?? '', 10) || 587
+      const secureEnv = env.SMTP_SECURE?.trim().toLowerCase()
+      return createSmtpTransport({
+        host,
+        port,
+        secure: secureEnv ? secureEnv === 'true' || secureEnv === '1' : port === 465,
+        user: env.SMTP_USER?.trim() || undefined,
+        password: env.SMTP_PASSWORD,
+      })
+    }
+    case 'file':
+      return createFileTransport(env.MAIL_FILE_DIR?.trim() || join(tmpdir(), 'clawhub-mail'))
+    case 'console':
+      return createConsoleTransport()
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected smtp, file or console)`)
+  }
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    kind: 'smtp',
+    send: (message) => sendSmtpMail(config, message),
+  }
+}
+
+/** Writes each message as an `.eml` file; handy for inspecting digests locally. */
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    kind: 'file',
+    send: async (message) => {
+      await mkdir(dir, { recursive: true })
+      const name = `${Date.now()}-${mailAddress(message.to).replace(/[^a-z0-9@._-]/gi, '_')}.eml`
+      await writeFile(join(dir, name), buildMimeMessage(message))
+    },
+  }
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    kind: 'console',
+    send: async (message) => {
+      console.info('[mail]', { to: message.to, subject: message.subject })
+      console.info(message.text)
+    },
+  }
+}
+
+export async function sendSmtpMail(config: SmtpConfig, message: MailMessage) {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS
+  let socket = await openSocket(config, timeoutMs)
+  let reader = createReplyReader(socket)
+  let encrypted = config.secure
+  try {
+    await expectReply(reader, [220])
+    const helo = `EHLO ${config.heloName ?? 'clawhub'}`
+    let capabilities = await sendCommand(socket, reader, helo, [250])
+    if (!encrypted && hasCapability(capabilities, 'STARTTLS')) {
+      await sendCommand(socket, reader, 'STARTTLS', [220])
+      reader.detach()
+      socket = await upgradeSocket(socket, config.host, timeoutMs)
+      reader = createReplyReader(socket)
+      encrypted = true
+      capabilities = await sendCommand(socket, reader, helo, [250])
+    }
+    if (config.user) {
+      if (!encrypted && !LOCAL_SMTP_HOSTS.has(config.host)) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials')
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString(
+        'base64',
+      )
+      await sendCommand(socket, reader, `AUTH PLAIN ${credentials}`, [235])
+    }
+    await sendCommand(socket, reader, `MAIL FROM:<${mailAddress(message.from)}>`, [250])
+    await sendCommand(socket, reader, `RCPT TO:<${mailAddress(message.to)}>`, [250, 251])
+    await sendCommand(socket, reader, 'DATA', [354])
+    await sendCommand(socket, reader, `${dotStuff(buildMimeMessage(message))}\r\n.`, [250])
+    await sendCommand(socket, reader, 'QUIT', [221]).catch(() => undefined)
+  } finally {
+    reader.detach()
+    socket.destroy()
+  }
+}
+
+/** Escapes lines starting with `.` so they can't end the DATA section early (RFC 5321 4.5.2). */
+export function dotStuff(data: string) {
+  return data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..').replace(/\r\n$/, '')
+}
+
+function hasCapability(reply: SmtpReply, name: string) {
+  return reply.lines.some((line) => line.toUpperCase().split(' ')[0] === name)
+}
+
+async function sendCommand(
+  socket: Socket,
+  reader: ReplyReader,
+  command: string,
+  expected: number[],
+) {
+  socket.write(`${command}\r\n`)
+  return expectReply(reader, expected, command.split(' ')[0])
+}
+
+async function expectReply(reader: ReplyReader, expected: number[], command = 'greeting') {
+  const reply = await reader.next()
+  if (!expected.includes(reply.code)) {
+    throw new Error(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`)
+  }
+  return reply
+}
+
+function openSocket(config: SmtpConfig, timeoutMs: number) {
+  return new Promise<Socket>((resolve, reject) => {
+    const options = { host: config.host, port: config.port }
+    const socket = config.secure
+      ? tlsConnect({ ...options, servername: config.host }, () => resolve(socket))
+      : netConnect(options, () => resolve(socket))
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')))
+    socket.once('error', reject)
+  })
+}
+
+function upgradeSocket(socket: Socket, host: string, timeoutMs: number) {
+  return new Promise<Socket>((resolve, reject) => {
+    const secure = tlsConnect({ socket, servername: host }, () => resolve(secure))
+    secure.setTimeout(timeoutMs, () => secure.destroy(new Error('SMTP connection timed out')))
+    secure.once('error', reject)
+  })
+}
+
+type ReplyReader = ReturnType<typeof createReplyReader>
+
+function createReplyReader(socket: Socket) {
+  let buffer = ''
+  let lines: string[] = []
+  let failure: Error | null = null
+  const replies: SmtpReply[] = []
+  const waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> =
+    []
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let index = buffer.indexOf('\r\n')
+    while (index !== -1) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+      lines.push(line)
+      // `250-...` continues a multi-line reply; `250 ...` ends it.
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: lines.map((l) => l.slice(4)) }
+        lines = []
+        const waiter = waiters.shift()
+        if (waiter) waiter.resolve(reply)
+        else replies.push(reply)
+      }
+      index = buffer.indexOf('\r\n')
+    }
+  }
+  const onEnd = (error?: Error) => {
+    failure = error instanceof Error ? error : new Error('SMTP connection closed')
+    for (const waiter of waiters.splice(0)) waiter.reject(failure)
+  }
+
+  socket.on('data', onData)
+  socket.on('error', onEnd)
+  socket.on('close', onEnd)
+
+  return {
+    next() {
+      const reply = replies.shift()
+      if (reply) return Promise.resolve(reply)
+      if (failure) return Promise.reject(failure)
+      return new Promise<SmtpReply>((resolve, reject) => waiters.push({ resolve, reject }))
+    },
+    detach() {
+      socket.off('data', onData)
+      socket.off('error', onEnd)
+      socket.off('close', onEnd)
+    },
+  }
+}
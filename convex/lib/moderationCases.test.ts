@@ -0,0 +1,100 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import type { Id } from '../_generated/dataModel'
+import { buildCaseActionPatch, getCaseSla, getSkillCaseKinds } from './moderationCases'
+
+const HOUR = 60 * 60 * 1000
+const me = 'users:me' as Id<'users'>
+const other = 'users:other' as Id<'users'>
+
+describe('getCaseSla', () => {
+  it('reports ok, due soon and overdue against the kind window', () => {
+    const entry = {
+      kind: 'skill_report' as const,
+      status: 'open' as const,
+      createdAt: 0,
+      slaDueAt: 24 * HOUR,
+    }
+    expect(getCaseSla(entry, HOUR)).toEqual({ ageMs: HOUR, dueAt: 24 * HOUR, state: 'ok' })
+    expect(getCaseSla(entry, 20 * HOUR).state).toBe('due_soon')
+    expect(getCaseSla(entry, 25 * HOUR).state).toBe('overdue')
+  })
+
+  it('stops the clock once a case is closed', () => {
+    const sla = getCaseSla(
+      {
+        kind: 'appeal',
+        status: 'resolved',
+        createdAt: 0,
+        slaDueAt: 72 * HOUR,
+        resolvedAt: 5 * HOUR,
+      },
+      100 * HOUR,
+    )
+    expect(sla).toEqual({ ageMs: 5 * HOUR, dueAt: 72 * HOUR, state: 'closed' })
+  })
+})
+
+describe('buildCaseActionPatch', () => {
+  it('assigns, starts and unassigns active cases', () => {
+    const open = { kind: 'scanner_flag' as const, status: 'open' as const }
+    expect(buildCaseActionPatch(open, 'assign_to_me', me, 10)).toEqual({
+      assigneeUserId: me,
+      assignedAt: 10,
+      status: 'in_progress',
+      updatedAt: 10,
+    })
+    expect(buildCaseActionPatch({ ...open, assigneeUserId: other }, 'start', me, 10)).toEqual({
+      status: 'in_progress',
+      updatedAt: 10,
+    })
+    expect(
+      buildCaseActionPatch(
+        { ...open, status: 'in_progress', assigneeUserId: me },
+        'unassign',
+        me,
+        10,
+      ),
+    ).toMatchObject({ assigneeUserId: undefined, status: 'open' })
+    expect(
+      buildCaseActionPatch({ ...open, assigneeUserId: me }, 'assign_to_me', me, 10),
+    ).toBeNull()
+  })
+
+  it('closes active cases and only reopens closed ones with a fresh SLA', () => {
+    const active = { kind: 'appeal' as const, status: 'in_progress' as const }
+    expect(buildCaseActionPatch(active, 'dismiss', me, 10)).toEqual({
+      status: 'dismissed',
+      resolvedBy: me,
+      resolvedAt: 10,
+      updatedAt: 10,
+    })
+    expect(buildCaseActionPatch(active, 'reopen', me, 10)).toBeNull()
+    const closed = { kind: 'appeal' as const, status: 'resolved' as const }
+    expect(buildCaseActionPatch(closed, 'resolve', me, 10)).toBeNull()
+    expect(buildCaseActionPatch(closed, 'reopen', me, 10)).toMatchObject({
+      status: 'open',
+      resolvedAt: undefined,
+      slaDueAt: 10 + 72 * HOUR,
+    })
+  })
+})
+
+describe('getSkillCaseKinds', () => {
+  it('maps scanner flags and quality quarantine to case kinds', () => {
+    expect(getSkillCaseKinds({ moderationFlags: ['flagged.suspicious'] })).toEqual([
+      'scanner_flag',
+    ])
+    expect(
+      getSkillCaseKinds({
+        moderationStatus: 'hidden',
+        moderationReason: 'quality.low',
+        moderationFlags: ['blocked.malware'],
+      }),
+    ).toEqual(['scanner_flag', 'quality_quarantine'])
+    expect(
+      getSkillCaseKinds({ moderationStatus: 'active', moderationFlags: ['suspicious.keyword'] }),
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,269 @@
+import { v } from 'convex/values'
+import type { Doc, Id } from '../_generated/dataModel'
+import type { MutationCtx } from '../_generated/server'
+
+export const MODERATION_CASE_KINDS = [
+  'skill_report',
+  'comment_report',
+  'scanner_flag',
+  'quality_quarantine',
+  'appeal',
+] as const
+export type ModerationCaseKind = (typeof MODERATION_CASE_KINDS)[number]
+export const moderationCaseKindValidator = v.union(
+  v.literal('skill_report'),
+  v.literal('comment_report'),
+  v.literal('scanner_flag'),
+  v.literal('quality_quarantine'),
+  v.literal('appeal'),
+)
+
+export const MODERATION_CASE_STATUSES = ['open', 'in_progress', 'resolved', 'dismissed'] as const
+export type ModerationCaseStatus = (typeof MODERATION_CASE_STATUSES)[number]
+export const moderationCaseStatusValidator = v.union(
+  v.literal('open'),
+  v.literal('in_progress'),
+  v.literal('resolved'),
+  v.literal('dismissed'),
+)
+export const ACTIVE_CASE_STATUSES = ['open', 'in_progress'] as const
+
+export const MODERATION_CASE_ACTIONS = [
+  'assign_to_me',
+  'unassign',
+  'start',
+  'resolve',
+  'dismiss',
+  'reopen',
+] as const
+export type ModerationCaseAction = (typeof MODERATION_CASE_ACTIONS)[number]
+export const moderationCaseActionValidator = v.union(
+  v.literal('assign_to_me'),
+  v.literal('unassign'),
+  v.literal('start'),
+  v.literal('resolve'),
+  v.literal('dismiss'),
+  v.literal('reopen'),
+)
+
+// Hours a case may stay unresolved before it shows as overdue.
+export const MODERATION_CASE_SLA_HOURS: Record<ModerationCaseKind, number> = {
+  skill_report: 24,
+  comment_report: 48,
+  scanner_flag: 24,
+  quality_quarantine: 72,
+  appeal: 72,
+}
+
+export const MAX_CASE_NOTE_LENGTH = 1000
+export const MAX_CASE_NOTES = 50
+export const MAX_BULK_CASES = 50
+export const MAX_CASE_QUEUE = 200
+
+const HOUR_MS = 60 * 60 * 1000
+// Share of the SLA window left when a case starts showing as due soon.
+const DUE_SOON_FRACTION = 0.25
+
+export type CaseSlaState = 'ok' | 'due_soon' | 'overdue' | 'closed'
+
+type CaseTiming = Pick<
+  Doc<'moderationCases'>,
+  'kind' | 'status' | 'createdAt' | 'slaDueAt' | 'resolvedAt'
+>
+
+export function isActiveCaseStatus(status: ModerationCaseStatus) {
+  return status === 'open' || status === 'in_progress'
+}
+
+export function getCaseSlaDueAt(kind: ModerationCaseKind, openedAt: number) {
+  return openedAt + MODERATION_CASE_SLA_HOURS[kind] * HOUR_MS
+}
+
+/** Age of a case and where it stands against its SLA; closed cases stop the clock. */
+export function getCaseSla(entry: CaseTiming, now: number) {
+  const end = isActiveCaseStatus(entry.status) ? now : (entry.resolvedAt ?? now)
+  const ageMs = Math.max(0, end - entry.createdAt)
+  if (!isActiveCaseStatus(entry.status)) {
+    return { ageMs, dueAt: entry.slaDueAt, state: 'closed' as CaseSlaState }
+  }
+  const windowMs = MODERATION_CASE_SLA_HOURS[entry.kind] * HOUR_MS
+  const remaining = entry.slaDueAt - now
+  const state: CaseSlaState =
+    remaining <= 0 ? 'overdue' : remaining <= windowMs * DUE_SOON_FRACTION ? 'due_soon' : 'ok'
+  return { ageMs, dueAt: entry.slaDueAt, state }
+}
+
+type CaseForAction = Pick<Doc<'moderationCases'>, 'kind' | 'status' | 'assigneeUserId'>
+
+/**
+ * Patch for one queue action, or null when it does not apply to the case as it stands
+ * (e.g. resolving a closed case). Bulk actions skip those instead of failing the batch.
+ */
+export function buildCaseActionPatch(
+  entry: CaseForAction,
+  action: ModerationCaseAction,
+  actorUserId: Id<'users'>,
+  now: number,
+): Partial<Doc<'moderationCases'>> | null {
+  const active = isActiveCaseStatus(entry.status)
+  switch (action) {
+    case 'assign_to_me':
+      if (!active || entry.assigneeUserId === actorUserId) return null
+      return {
+        assigneeUserId: actorUserId,
+        assignedAt: now,
+        status: 'in_progress',
+        updatedAt: now,
+      }
+    case 'unassign':
+      if (!active || !entry.assigneeUserId) return null
+      return { assigneeUserId: undefined, assignedAt: undefined, status: 'open', updatedAt: now }
+    case 'start':
+      if (entry.status !== 'open') return null
+      return {
+        status: 'in_progress',
+        ...(entry.assigneeUserId ? {} : { assigneeUserId: actorUserId, assignedAt: now }),
+        updatedAt: now,
+      }
+    case 'resolve':
+    case 'dismiss':
+      if (!active) return null
+      return {
+        status: action === 'resolve' ? 'resolved' : 'dismissed',
+        resolvedBy: actorUserId,
+        resolvedAt: now,
+        updatedAt: now,
+      }
+    case 'reopen':
+      if (active) return null
+      return {
+        status: 'open',
+        resolvedBy: undefined,
+        resolvedAt: undefined,
+        slaDueAt: getCaseSlaDueAt(entry.kind, now),
+        updatedAt: now,
+      }
+  }
+}
+
+type CaseSkill = Pick<
+  Doc<'skills'>,
+  'moderationStatus' | 'moderationReason' | 'moderationFlags' | 'moderationNotes'
+>
+
+/** Case kinds implied by a skill's moderation state (scanner flags and quality quarantine). */
+export function getSkillCaseKinds(skill: CaseSkill): ModerationCaseKind[] {
+  const flags = skill.moderationFlags ?? []
+  const kinds: ModerationCaseKind[] = []
+  if (flags.includes('blocked.malware') || flags.includes('flagged.suspicious')) {
+    kinds.push('scanner_flag')
+  }
+  if (skill.moderationStatus === 'hidden' && skill.moderationReason === 'quality.low') {
+    kinds.push('quality_quarantine')
+  }
+  return kinds
+}
+
+type CaseTarget = {
+  kind: ModerationCaseKind
+  targetType: 'skill' | 'comment'
+  targetId: string
+  skillId?: Id<'skills'>
+  commentId?: Id<'comments'>
+  appealId?: Id<'appeals'>
+  summary: string
+}
+
+/** Case target for a kind from `getSkillCaseKinds`, summarised from the skill's state. */
+export function buildSkillCaseTarget(
+  kind: ModerationCaseKind,
+  skill: CaseSkill & Pick<Doc<'skills'>, '_id'>,
+): CaseTarget {
+  const flags = (skill.moderationFlags ?? []).join(', ')
+  const reason = skill.moderationReason ? ` (${skill.moderationReason})` : ''
+  return {
+    kind,
+    targetType: 'skill',
+    targetId: skill._id,
+    skillId: skill._id,
+    summary:
+      kind === 'quality_quarantine'
+        ? (skill.moderationNotes ?? 'Quarantined by the quality gate.')
+        : `Scanner flagged ${flags}${reason}.`,
+  }
+}
+
+export async function getActiveModerationCase(
+  ctx: Pick<MutationCtx, 'db'>,
+  kind: ModerationCaseKind,
+  targetId: string,
+) {
+  const cases = await ctx.db
+    .query('moderationCases')
+    .withIndex('by_kind_target', (q) => q.eq('kind', kind).eq('targetId', targetId))
+    .order('desc')
+    .take(10)
+  return cases.find((entry) => isActiveCaseStatus(entry.status)) ?? null
+}
+
+/**
+ * Opens a case for the target, or folds the new signal into the case already open for it
+ * (a fifth report on a skill bumps `signalCount` rather than opening another case).
+ */
+export async function openModerationCase(
+  ctx: Pick<MutationCtx, 'db'>,
+  target: CaseTarget,
+  now = Date.now(),
+) {
+  const existing = await getActiveModerationCase(ctx, target.kind, target.targetId)
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      summary: target.summary,
+      signalCount: existing.signalCount + 1,
+      appealId: target.appealId ?? existing.appealId,
+      updatedAt: now,
+    })
+    return existing._id
+  }
+  return await ctx.db.insert('moderationCases', {
+    ...target,
+    status: 'open',
+    signalCount: 1,
+    notes: [],
+    slaDueAt: getCaseSlaDueAt(target.kind, now),
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+/** Opens cases for scanner flags or a quarantine the skill has just picked up. */
+export async function syncSkillModerationCases(
+  ctx: Pick<MutationCtx, 'db'>,
+  before: CaseSkill | null,
+  after: Doc<'skills'>,
+) {
+  const previous = new Set(before ? getSkillCaseKinds(before) : [])
+  for (const kind of getSkillCaseKinds(after)) {
+    if (previous.has(kind)) continue
+    await openModerationCase(ctx, buildSkillCaseTarget(kind, after))
+  }
+}
+
+/** Closes the active case for a target once it was settled elsewhere (e.g. an appeal answer). */
+export async function closeModerationCase(
+  ctx: Pick<MutationCtx, 'db'>,
+  kind: ModerationCaseKind,
+  targetId: string,
+  actorUserId: Id<'users'>,
+  now = Date.now(),
+) {
+  const existing = await getActiveModerationCase(ctx, kind, targetId)
+  if (!existing) return null
+  await ctx.db.patch(existing._id, {
+    status: 'resolved',
+    resolvedBy: actorUserId,
+    resolvedAt: now,
+    updatedAt: now,
+  })
+  return existing._id
+}
@@ -0,0 +1,144 @@
+/* @vitest-environment node */
+
+import { describe, expect, it, vi } from 'vitest'
+import {
+  crossedStarMilestone,
+  describeNotification,
+  insertNotification,
+  normalizeMutedKinds,
+} from './notifications'
+
+const skill = {
+  slug: 'demo',
+  displayName: 'Demo',
+  url: 'https://clawhub.ai/alice/demo',
+}
+
+function makeCtx(options: {
+  user?: Record<string, unknown> | null
+  existing?: Record<string, unknown> | null
+}) {
+  const insert = vi.fn(async () => 'notifications:1')
+  const first = vi.fn(async () => options.existing ?? null)
+  const withIndex = vi.fn(() => ({ first }))
+  const ctx = {
+    db: {
+      get: vi.fn(async () => (options.user === undefined ? { _id: 'users:1' } : options.user)),
+      query: vi.fn(() => ({ withIndex })),
+      insert,
+    },
+  }
+  return { ctx: ctx as never, insert, withIndex }
+}
+
+describe('normalizeMutedKinds', () => {
+  it('dedupes, drops required kinds and rejects unknown ones', () => {
+    expect(normalizeMutedKinds(['skill.comment', ' skill.comment', 'account.ban'])).toEqual([
+      'skill.comment',
+    ])
+    expect(() => normalizeMutedKinds(['skill.nope'])).toThrow('Unknown notification type')
+  })
+})
+
+describe('crossedStarMilestone', () => {
+  it('returns the highest milestone passed', () => {
+    expect(crossedStarMilestone(9, 10)).toBe(10)
+    expect(crossedStarMilestone(40, 120)).toBe(100)
+    expect(crossedStarMilestone(10, 11)).toBeNull()
+    expect(crossedStarMilestone(11, 9)).toBeNull()
+  })
+})
+
+describe('describeNotification', () => {
+  it('links skill events to the skill page', () => {
+    expect(
+      describeNotification('skill.comment', {
+        skill,
+        comment: { authorHandle: 'bob', body: 'Nice work' },
+      }),
+    ).toEqual({ title: '@bob commented on Demo', body: 'Nice work', url: '/alice/demo' })
+  })
+
+  it('describes moderation changes and truncates long reasons', () => {
+    const content = describeNotification('skill.moderation', {
+      skill,
+      moderation: { status: 'hidden', reason: 'x'.repeat(400) },
+    })
+    expect(content.title).toBe('Demo was hidden')
+    expect(content.body).toHaveLength(280)
+  })
+
+  it('describes appeal outcomes with the moderator response', () => {
+    const content = describeNotification('skill.appeal', {
+      skill,
+      appeal: { status: 'changes_requested', response: 'Drop the curl | sh line.' },
+    })
+    expect(content.title).toBe('Changes requested on your appeal for Demo')
+    expect(content.body).toBe('Drop the curl | sh line.')
+  })
+
+  it('points soul mentions at the soul page', () => {
+    expect(
+      describeNotification('comment.mention', {
+        soul: { slug: 'calm', displayName: 'Calm' },
+        comment: { authorHandle: 'bob', body: 'hi @alice' },
+      }).url,
+    ).toBe('/souls/calm')
+  })
+})
+
+describe('insertNotification', () => {
+  it('stores the rendered notification', async () => {
+    const { ctx, insert } = makeCtx({})
+    await insertNotification(ctx, {
+      userId: 'users:1' as never,
+      kind: 'star.milestone',
+      data: { skill, milestone: 50 },
+    })
+    expect(insert).toHaveBeenCalledWith(
+      'notifications',
+      expect.objectContaining({ kind: 'star.milestone', title: 'Demo reached 50 stars' }),
+    )
+  })
+
+  it('skips muted kinds but always delivers account notices', async () => {
+    const user = { _id: 'users:1', mutedNotificationKinds: ['skill.comment', 'account.ban'] }
+    const muted = makeCtx({ user })
+    expect(
+      await insertNotification(muted.ctx, {
+        userId: 'users:1' as never,
+        kind: 'skill.comment',
+        data: { skill },
+      }),
+    ).toBeNull()
+    expect(muted.insert).not.toHaveBeenCalled()
+
+    const required = makeCtx({ user })
+    await insertNotification(required.ctx, {
+      userId: 'users:1' as never,
+      kind: 'account.ban',
+      data: { reason: 'spam' },
+    })
+    expect(required.insert).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips deactivated users and duplicate dedupe keys', async () => {
+    const deactivated = makeCtx({ user: { _id: 'users:1', deactivatedAt: 1 } })
+    await insertNotification(deactivated.ctx, {
+      userId: 'users:1' as never,
+      kind: 'account.unban',
+      data: {},
+    })
+    expect(deactivated.insert).not.toHaveBeenCalled()
+
+    const duplicate = makeCtx({ existing: { _id: 'notifications:0' } })
+    await insertNotification(duplicate.ctx, {
+      userId: 'users:1' as never,
+      kind: 'star.milestone',
+      data: { skill, milestone: 10 },
+      dedupeKey: 'star.milestone:skills:1:10',
+    })
+    expect(duplicate.withIndex).toHaveBeenCalledWith('by_user_dedupe', expect.any(Function))
+    expect(duplicate.insert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,224 @@
+import { v } from 'convex/values'
+import { internal } from '../_generated/api'
+import type { Id } from '../_generated/dataModel'
+import type { MutationCtx } from '../_generated/server'
+
+// Inbox entries; the first five mirror the user webhook events of the same name.
+export const NOTIFICATION_KINDS = [
+  'starred.version',
+  'skill.moderation',
+  'skill.verdict',
+  'skill.comment',
+  'comment.mention',
+  'star.milestone',
+  'skill.appeal',
+  'account.ban',
+  'account.unban',
+] as const
+export type NotificationKind = (typeof NOTIFICATION_KINDS)[number]
+export const notificationKindValidator = v.union(
+  v.literal('starred.version'),
+  v.literal('skill.moderation'),
+  v.literal('skill.verdict'),
+  v.literal('skill.comment'),
+  v.literal('comment.mention'),
+  v.literal('star.milestone'),
+  v.literal('skill.appeal'),
+  v.literal('account.ban'),
+  v.literal('account.unban'),
+)
+
+// Account notices can't be muted: they are the only place a user learns why access changed.
+export const REQUIRED_NOTIFICATION_KINDS: readonly NotificationKind[] = [
+  'account.ban',
+  'account.unban',
+]
+
+export const STAR_MILESTONES = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000] as const
+export const MAX_NOTIFICATIONS_PAGE = 100
+// The badge shows `99+` beyond this; counting further is wasted reads.
+export const MAX_UNREAD_COUNT = 100
+
+const MAX_BODY_LENGTH = 280
+
+export type NotificationParams = {
+  userId: Id<'users'>
+  kind: NotificationKind
+  data: Record<string, unknown>
+  // Skips the insert when the user already has a notification with this key.
+  dedupeKey?: string
+}
+
+export type NotificationContent = {
+  title: string
+  body?: string
+  url?: string
+}
+
+export function isNotificationKind(value: string): value is NotificationKind {
+  return (NOTIFICATION_KINDS as readonly string[]).includes(value)
+}
+
+/** Drops unknown and required kinds so the stored mute list only holds what can be muted. */
+export function normalizeMutedKinds(raw: string[]) {
+  const muted: NotificationKind[] = []
+  for (const entry of raw) {
+    const kind = entry.trim()
+    if (!isNotificationKind(kind)) throw new Error(`Unknown notification type "${entry}"`)
+    if (REQUIRED_NOTIFICATION_KINDS.includes(kind) || muted.includes(kind)) continue
+    muted.push(kind)
+  }
+  return muted
+}
+
+/** Highest milestone passed going from `before` to `after` stars, or null. */
+export function crossedStarMilestone(before: number, after: number) {
+  let crossed: number | null = null
+  for (const milestone of STAR_MILESTONES) {
+    if (before < milestone && after >= milestone) crossed = milestone
+  }
+  return crossed
+}
+
+export function describeNotification(
+  kind: NotificationKind,
+  data: Record<string, unknown>,
+): NotificationContent {
+  const skill = readRecord(data.skill)
+  const soul = readRecord(data.soul)
+  const comment = readRecord(data.comment)
+  const name = readString(skill?.displayName) ?? readString(soul?.displayName) ?? 'your skill'
+  const url = skill ? toSitePath(readString(skill.url)) : soulPath(readString(soul?.slug))
+  const author = readString(comment?.authorHandle)
+  const by = author ? `@${author}` : 'Someone'
+
+  switch (kind) {
+    case 'starred.version':
+      return { title: `${name} v${readString(data.version) ?? '?'} was published`, url }
+    case 'skill.moderation': {
+      const moderation = readRecord(data.moderation)
+      const status = readString(moderation?.status) ?? 'active'
+      return {
+        title:
+          status === 'active' ? `${name} is visible again` : `${name} was ${statusLabel(status)}`,
+        body: truncate(readString(moderation?.reason)),
+        url,
+      }
+    }
+    case 'skill.verdict': {
+      const verdict = readRecord(data.verdict)
+      const label = readString(verdict?.verdict) ?? readString(verdict?.status) ?? 'updated'
+      return {
+        title: `VirusTotal marked ${name} v${readString(data.version) ?? '?'} as ${label}`,
+        url,
+      }
+    }
+    case 'skill.comment':
+      return {
+        title: `${by} commented on ${name}`,
+        body: truncate(readString(comment?.body)),
+        url,
+      }
+    case 'comment.mention':
+      return {
+        title: `${by} mentioned you on ${name}`,
+        body: truncate(readString(comment?.body)),
+        url,
+      }
+    case 'star.milestone':
+      return { title: `${name} reached ${String(data.milestone)} stars`, url }
+    case 'skill.appeal': {
+      const appeal = readRecord(data.appeal)
+      const status = readString(appeal?.status)
+      return {
+        title:
+          status === 'accepted'
+            ? `Your appeal for ${name} was accepted`
+            : status === 'changes_requested'
+              ? `Changes requested on your appeal for ${name}`
+              : `Your appeal for ${name} was rejected`,
+        body: truncate(readString(appeal?.response)),
+        url,
+      }
+    }
+    case 'account.ban':
+      return {
+        title: 'Your account was banned',
+        body: truncate(readString(data.reason)),
+        url: '/settings',
+      }
+    case 'account.unban':
+      return { title: 'Your account was reinstated', url: '/settings' }
+  }
+}
+
+export async function queueNotification(
+  ctx: Pick<MutationCtx, 'scheduler'>,
+  params: NotificationParams,
+) {
+  await ctx.scheduler.runAfter(0, internal.notifications.createInternal, params)
+}
+
+/** Inserts right away; paths that already hold a mutation ctx use this instead of queueing. */
+export async function insertNotification(
+  ctx: Pick<MutationCtx, 'db'>,
+  params: NotificationParams,
+) {
+  const user = await ctx.db.get(params.userId)
+  if (!user || user.deactivatedAt) return null
+  if (!REQUIRED_NOTIFICATION_KINDS.includes(params.kind)) {
+    if (user.mutedNotificationKinds?.includes(params.kind)) return null
+  }
+  if (params.dedupeKey) {
+    const existing = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_dedupe', (q) =>
+        q.eq('userId', params.userId).eq('dedupeKey', params.dedupeKey),
+      )
+      .first()
+    if (existing) return null
+  }
+  const content = describeNotification(params.kind, params.data)
+  return ctx.db.insert('notifications', {
+    userId: params.userId,
+    kind: params.kind,
+    title: content.title,
+    body: content.body,
+    url: content.url,
+    data: params.data,
+    dedupeKey: params.dedupeKey,
+    createdAt: Date.now(),
+  })
+}
+
+function statusLabel(status: string) {
+  if (status === 'hidden') return 'hidden'
+  if (status === 'removed') return 'removed'
+  return `moved to ${status}`
+}
+
+function toSitePath(url: string | undefined) {
+  if (!url) return undefined
+  try {
+    return new URL(url).pathname
+  } catch {
+    return undefined
+  }
+}
+
+function soulPath(slug: string | undefined) {
+  return slug ? `/souls/${encodeURIComponent(slug)}` : undefined
+}
+
+function truncate(value: string | undefined) {
+  if (!value) return undefined
+  return value.length > MAX_BODY_LENGTH ? `${value.slice(0, MAX_BODY_LENGTH - 1)}…` : value
+}
+
+function readRecord(value: unknown) {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : undefined
+}
+
+function readString(value: unknown) {
+  return typeof value === 'string' && value ? value : undefined
+}
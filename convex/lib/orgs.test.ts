@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import {
+  canManageOrg,
+  canPublishForOrg,
+  formatOrgOwnerParam,
+  normalizeOrgHandle,
+} from './orgs'
+
+describe('org helpers', () => {
+  it('normalizes org handles', () => {
+    expect(normalizeOrgHandle(' @Acme-Labs ')).toBe('acme-labs')
+    expect(() => normalizeOrgHandle('-acme')).toThrow(/Org handle must be/)
+    expect(() => normalizeOrgHandle('acme_labs')).toThrow(/Org handle must be/)
+  })
+
+  it('maps roles to permissions', () => {
+    expect(canPublishForOrg('owner')).toBe(true)
+    expect(canPublishForOrg('maintainer')).toBe(true)
+    expect(canPublishForOrg('member')).toBe(false)
+    expect(canPublishForOrg(null)).toBe(false)
+    expect(canManageOrg('owner')).toBe(true)
+    expect(canManageOrg('maintainer')).toBe(false)
+  })
+
+  it('formats @org owner params', () => {
+    expect(formatOrgOwnerParam('acme')).toBe('@acme')
+  })
+})
@@ -0,0 +1,79 @@
+import type { Doc, Id } from '../_generated/dataModel'
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+
+export const ORG_ROLES = ['owner', 'maintainer', 'member'] as const
+export type OrgRole = (typeof ORG_ROLES)[number]
+
+// Members can see the org; only owners and maintainers can ship versions.
+const ORG_PUBLISH_ROLES: ReadonlySet<OrgRole> = new Set(['owner', 'maintainer'])
+
+const ORG_HANDLE_PATTERN = /^[a-z0-9][a-z0-9-]{1,38}$/
+
+export type PublicOrg = Pick<Doc<'orgs'>, '_id' | 'handle' | 'displayName' | 'bio' | 'createdAt'>
+
+export function isOrgRole(value: string): value is OrgRole {
+  return (ORG_ROLES as readonly string[]).includes(value)
+}
+
+export function canPublishForOrg(role: OrgRole | null | undefined) {
+  return Boolean(role && ORG_PUBLISH_ROLES.has(role))
+}
+
+export function canManageOrg(role: OrgRole | null | undefined) {
+  return role === 'owner'
+}
+
+export function normalizeOrgHandle(value: string) {
+  const handle = value.trim().replace(/^@/, '').toLowerCase()
+  if (!ORG_HANDLE_PATTERN.test(handle)) {
+    throw new Error('Org handle must be 2-39 lowercase letters, digits, or dashes')
+  }
+  return handle
+}
+
+/** Org skills are addressed as `@org/slug`; user skills keep the bare handle. */
+export function formatOrgOwnerParam(handle: string) {
+  return `@${handle}`
+}
+
+export function toPublicOrg(org: Doc<'orgs'> | null | undefined): PublicOrg | null {
+  if (!org || org.deletedAt) return null
+  return {
+    _id: org._id,
+    handle: org.handle,
+    displayName: org.displayName,
+    bio: org.bio,
+    createdAt: org.createdAt,
+  }
+}
+
+export async function getOrgByHandle(ctx: QueryCtx | MutationCtx, handle: string) {
+  const org = await ctx.db
+    .query('orgs')
+    .withIndex('by_handle', (q) => q.eq('handle', handle.trim().replace(/^@/, '').toLowerCase()))
+    .unique()
+  return org && !org.deletedAt ? org : null
+}
+
+export async function getOrgMembership(
+  ctx: QueryCtx | MutationCtx,
+  orgId: Id<'orgs'>,
+  userId: Id<'users'>,
+) {
+  return ctx.db
+    .query('orgMembers')
+    .withIndex('by_org_user', (q) => q.eq('orgId', orgId).eq('userId', userId))
+    .unique()
+}
+
+export async function requireOrgPublisher(
+  ctx: QueryCtx | MutationCtx,
+  orgId: Id<'orgs'>,
+  userId: Id<'users'>,
+) {
+  const membership = await getOrgMembership(ctx, orgId, userId)
+  if (!canPublishForOrg(membership?.role)) {
+    throw new Error('Only org owners and maintainers can publish for this org')
+  }
+  return membership as Doc<'orgMembers'>
+}
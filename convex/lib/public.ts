@@ -14,6 +14,8 @@ export type PublicSkill = Pick<
   | 'displayName'
   | 'summary'
   | 'ownerUserId'
+  | 'ownerOrgId'
+  | 'visibility'
   | 'canonicalSkillId'
   | 'forkOf'
   | 'latestVersionId'
@@ -79,6 +81,8 @@ export function toPublicSkill(skill: Doc<'skills'> | null | undefined): PublicSk
     displayName: skill.displayName,
     summary: skill.summary,
     ownerUserId: skill.ownerUserId,
+    ownerOrgId: skill.ownerOrgId,
+    visibility: skill.visibility,
     canonicalSkillId: skill.canonicalSkillId,
     forkOf: skill.forkOf,
     latestVersionId: skill.latestVersionId,
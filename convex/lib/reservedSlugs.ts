@@ -107,6 +107,21 @@ export async function upsertReservedSlugForRightfulOwner(
   await releaseDuplicateActiveReservations(ctx, active, keepId, params.deletedAt)
 }
 
+/** Throws while `reservation` still holds the slug for someone other than `userId`. */
+export function assertSlugNotReservedForOthers(
+  reservation: Doc<'reservedSlugs'> | null,
+  params: { slug: string; userId: Id<'users'>; now: number },
+) {
+  if (!reservation) return
+  if (reservation.expiresAt > params.now && reservation.originalOwnerUserId !== params.userId) {
+    const until = new Date(reservation.expiresAt).toISOString()
+    throw new Error(
+      `Slug "${params.slug}" is reserved for its previous owner until ${until}. ` +
+        'Please choose a different slug.',
+    )
+  }
+}
+
 export async function enforceReservedSlugCooldownForNewSkill(
   ctx: MutationCtx,
   params: { slug: string; userId: Id<'users'>; now: number },
@@ -115,12 +130,7 @@ export async function enforceReservedSlugCooldownForNewSkill(
   const latest = active[0] ?? null
   if (!latest) return
 
-  if (latest.expiresAt > params.now && latest.originalOwnerUserId !== params.userId) {
-    throw new Error(
-      `Slug "${params.slug}" is reserved for its previous owner until ${new Date(latest.expiresAt).toISOString()}. ` +
-        'Please choose a different slug.',
-    )
-  }
+  assertSlugNotReservedForOthers(latest, params)
 
   await ctx.db.patch(latest._id, { releasedAt: params.now })
   await releaseDuplicateActiveReservations(ctx, active, latest._id, params.now)
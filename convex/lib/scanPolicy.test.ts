@@ -0,0 +1,117 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import { applyScanPolicy, combineScanVerdicts, escalateScanVerdict } from './scanPolicy'
+
+describe('combineScanVerdicts', () => {
+  it('picks the strictest enforcing verdict', () => {
+    expect(
+      combineScanVerdicts([
+        { scanner: 'vt', verdict: 'clean' },
+        { scanner: 'yara', verdict: 'suspicious' },
+        { scanner: 'llm', verdict: 'malicious' },
+      ]),
+    ).toEqual({ verdict: 'suspicious', scanner: 'yara' })
+  })
+
+  it('ignores errors and unknown scanners', () => {
+    expect(
+      combineScanVerdicts([
+        { scanner: 'yara', verdict: 'error' },
+        { scanner: 'retired', verdict: 'malicious' },
+      ]),
+    ).toEqual({ verdict: 'pending', scanner: null })
+  })
+})
+
+describe('escalateScanVerdict', () => {
+  it('lets a stricter local verdict override a clean remote one', () => {
+    const others = [{ scanner: 'yara', verdict: 'malicious' as const }]
+    expect(escalateScanVerdict({ scanner: 'vt', status: 'clean' }, others)).toEqual({
+      scanner: 'yara',
+      status: 'malicious',
+    })
+    expect(escalateScanVerdict({ scanner: 'vt', status: 'malicious' }, others)).toEqual({
+      scanner: 'vt',
+      status: 'malicious',
+    })
+  })
+})
+
+describe('applyScanPolicy', () => {
+  const privilegedOwner = false
+
+  it('blocks malicious results and keeps pipeline reasons', () => {
+    expect(
+      applyScanPolicy(
+        { moderationReason: 'pending.scan', moderationFlags: undefined },
+        { verdict: 'malicious', scanner: 'yara' },
+        { privilegedOwner },
+      ),
+    ).toEqual({
+      moderationStatus: 'hidden',
+      moderationReason: 'pending.scan',
+      moderationFlags: ['blocked.malware'],
+    })
+  })
+
+  it('hides an active skill when any enforcing scanner finds malware', () => {
+    const decision = combineScanVerdicts([
+      { scanner: 'vt', verdict: 'clean' },
+      { scanner: 'yara', verdict: 'malicious' },
+    ])
+    const skill = {
+      moderationStatus: 'active' as const,
+      moderationReason: 'scanner.vt.clean',
+      moderationFlags: undefined,
+    }
+    expect(applyScanPolicy(skill, decision, { privilegedOwner })).toEqual({
+      moderationStatus: 'hidden',
+      moderationReason: 'scanner.yara.malicious',
+      moderationFlags: ['blocked.malware'],
+    })
+    expect(
+      applyScanPolicy({ ...skill, moderationStatus: 'removed' }, decision, { privilegedOwner }),
+    ).toMatchObject({ moderationStatus: 'removed' })
+  })
+
+  it('flags suspicious results unless the owner is staff', () => {
+    const skill = { moderationReason: 'scanner.vt.clean', moderationFlags: undefined }
+    const decision = { verdict: 'suspicious' as const, scanner: 'yara' }
+    expect(applyScanPolicy(skill, decision, { privilegedOwner })).toEqual({
+      moderationReason: 'scanner.yara.suspicious',
+      moderationFlags: ['flagged.suspicious'],
+    })
+    expect(applyScanPolicy(skill, decision, { privilegedOwner: true })).toBeNull()
+  })
+
+  it('clears a local flag once rescans come back clean', () => {
+    const skill = {
+      moderationReason: 'scanner.yara.suspicious',
+      moderationFlags: ['flagged.suspicious'],
+    }
+    expect(
+      applyScanPolicy(skill, { verdict: 'clean', scanner: 'yara' }, { privilegedOwner }),
+    ).toEqual({ moderationReason: 'scanner.yara.clean', moderationFlags: undefined })
+    expect(
+      applyScanPolicy(
+        { ...skill, moderationReason: 'scanner.vt.suspicious' },
+        { verdict: 'clean', scanner: 'yara' },
+        { privilegedOwner },
+      ),
+    ).toBeNull()
+  })
+
+  it('adds rule flags alongside the verdict', () => {
+    expect(
+      applyScanPolicy(
+        { moderationReason: 'pending.scan', moderationFlags: ['suspicious.secrets'] },
+        { verdict: 'suspicious', scanner: 'yara' },
+        { privilegedOwner: true, findingFlags: ['suspicious.exec_pipe', 'suspicious.secrets'] },
+      ),
+    ).toEqual({
+      moderationReason: 'pending.scan',
+      moderationFlags: ['suspicious.secrets', 'suspicious.exec_pipe'],
+    })
+  })
+})
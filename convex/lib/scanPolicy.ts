@@ -0,0 +1,132 @@
+import type { Doc } from '../_generated/dataModel'
+import {
+  collectFindingFlags,
+  getScanner,
+  type LocalScanResult,
+  type ScanVerdict,
+} from './scanners'
+
+export type ScanPolicyDecision = {
+  verdict: 'clean' | 'suspicious' | 'malicious' | 'pending'
+  /** Scanner whose verdict decided the outcome; null when nothing enforcing has reported. */
+  scanner: string | null
+}
+
+const VERDICT_RANK: Record<ScanPolicyDecision['verdict'], number> = {
+  clean: 0,
+  pending: 1,
+  suspicious: 2,
+  malicious: 3,
+}
+
+/**
+ * The strictest verdict from an enforcing scanner wins; advisory scanners, unknown
+ * scanner ids and errored scans are ignored. Ties go to the earliest entry, so callers
+ * list the scanner that just reported first.
+ */
+export function combineScanVerdicts(
+  results: Array<{ scanner: string; verdict: ScanVerdict }>,
+): ScanPolicyDecision {
+  let decision: ScanPolicyDecision = { verdict: 'pending', scanner: null }
+  for (const result of results) {
+    if (result.verdict === 'error' || !getScanner(result.scanner)?.enforce) continue
+    if (!decision.scanner || VERDICT_RANK[result.verdict] > VERDICT_RANK[decision.verdict]) {
+      decision = { verdict: result.verdict, scanner: result.scanner }
+    }
+  }
+  return decision
+}
+
+/**
+ * Used when a remote scanner reports: another enforcing scanner's stricter verdict
+ * (e.g. a local rule match) replaces the reported one, so a clean VirusTotal result
+ * cannot clear it.
+ */
+export function escalateScanVerdict(
+  reported: { scanner: string; status: string },
+  others: Array<{ scanner: string; verdict: ScanVerdict }>,
+) {
+  const other = combineScanVerdicts(others.filter((result) => result.scanner !== reported.scanner))
+  const reportedRank =
+    reported.status === 'malicious' ? 3 : reported.status === 'suspicious' ? 2 : 0
+  if (!other.scanner || other.verdict === 'clean' || other.verdict === 'pending') return reported
+  if (VERDICT_RANK[other.verdict] <= reportedRank) return reported
+  return { scanner: other.scanner, status: other.verdict }
+}
+
+type PolicySkill = Pick<Doc<'skills'>, 'moderationStatus' | 'moderationReason' | 'moderationFlags'>
+
+/**
+ * Moderation changes for a combined verdict from locally run scanners. Mirrors the VT
+ * merge in `approveSkillByHashInternal` and `escalateByVtInternal`: a malicious verdict
+ * hides an active skill, while suspicious ones stay visible with a flag. Nothing here
+ * un-hides a skill; pending skills wait for VirusTotal to finalize them. Reasons set by
+ * staff or the publish pipeline are left alone.
+ * `findingFlags` (e.g. `suspicious.exec_pipe` from matching rules) are always added.
+ */
+export function applyScanPolicy(
+  skill: PolicySkill,
+  decision: ScanPolicyDecision,
+  options: { privilegedOwner: boolean; findingFlags?: string[] },
+): Pick<Doc<'skills'>, 'moderationStatus' | 'moderationReason' | 'moderationFlags'> | null {
+  const flags = skill.moderationFlags ?? []
+  const reason = skill.moderationReason
+  const status = skill.moderationStatus
+  const ownsReason = !reason || reason.startsWith('scanner.')
+  let nextStatus = status
+  let nextReason = reason
+  let nextFlags = flags
+
+  if (decision.scanner && decision.verdict === 'malicious') {
+    if ((status ?? 'active') === 'active') nextStatus = 'hidden'
+    if (ownsReason) nextReason = `scanner.${decision.scanner}.malicious`
+    nextFlags = ['blocked.malware', ...flags.filter((flag) => flag.startsWith('suspicious.'))]
+  } else if (decision.scanner && decision.verdict === 'suspicious') {
+    if (!flags.includes('blocked.malware') && !options.privilegedOwner) {
+      if (ownsReason) nextReason = `scanner.${decision.scanner}.suspicious`
+      nextFlags = [...flags, 'flagged.suspicious']
+    }
+  } else if (decision.verdict === 'clean') {
+    // A rescan came back clean: lift a suspicious flag that a local scanner had set.
+    const flaggedBy = reason?.match(/^scanner\.([^.]+)\.suspicious$/)?.[1]
+    if (flaggedBy && getScanner(flaggedBy)?.kind === 'local') {
+      nextReason = `scanner.${flaggedBy}.clean`
+      nextFlags = flags.filter((flag) => flag !== 'flagged.suspicious')
+    }
+  }
+
+  nextFlags = Array.from(new Set([...nextFlags, ...(options.findingFlags ?? [])]))
+  const unchanged =
+    nextStatus === status &&
+    nextReason === reason &&
+    nextFlags.length === flags.length &&
+    nextFlags.every((flag) => flags.includes(flag))
+  if (unchanged) return null
+  return {
+    moderationStatus: nextStatus,
+    moderationReason: nextReason,
+    moderationFlags: nextFlags.length ? nextFlags : undefined,
+  }
+}
+
+/**
+ * Moderation flags for a version being published: the derived `flags` plus whatever the
+ * local scanners that ran during publish add. Publish always starts at `pending.scan`
+ * (or `quality.low`), so only the flags can change here.
+ */
+export function applyPublishScanFlags(
+  flags: string[],
+  scanResults: LocalScanResult[],
+  privilegedOwner: boolean,
+) {
+  if (scanResults.length === 0) return flags
+  const next = applyScanPolicy(
+    { moderationReason: 'pending.scan', moderationFlags: flags },
+    combineScanVerdicts(scanResults),
+    {
+      privilegedOwner,
+      findingFlags: collectFindingFlags(scanResults.flatMap((result) => result.findings)),
+    },
+  )
+  return next ? (next.moderationFlags ?? []) : flags
+}
@@ -0,0 +1,221 @@
+import { isTextFile } from 'clawhub-schema'
+import { v } from 'convex/values'
+import type { Doc, Id } from '../_generated/dataModel'
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import { type YaraRuleset, yaraScanner } from './yaraRules'
+
+export const SCAN_VERDICTS = ['clean', 'suspicious', 'malicious', 'pending', 'error'] as const
+export type ScanVerdict = (typeof SCAN_VERDICTS)[number]
+export const scanVerdictValidator = v.union(
+  v.literal('clean'),
+  v.literal('suspicious'),
+  v.literal('malicious'),
+  v.literal('pending'),
+  v.literal('error'),
+)
+
+export const scanFindingValidator = v.object({
+  ruleId: v.string(),
+  severity: v.union(v.literal('suspicious'), v.literal('malicious')),
+  message: v.string(),
+  flag: v.optional(v.string()),
+  file: v.optional(v.string()),
+  line: v.optional(v.number()),
+  excerpt: v.optional(v.string()),
+})
+
+export type ScanFinding = {
+  ruleId: string
+  severity: 'suspicious' | 'malicious'
+  message: string
+  /** Moderation flag the matching rule adds to the skill. */
+  flag?: string
+  file?: string
+  line?: number
+  excerpt?: string
+}
+
+/** Text files of one version, as handed to local scanners. */
+export type ScanBundle = {
+  slug: string
+  version: string
+  files: Array<{ path: string; text: string }>
+}
+
+/** Shared inputs, loaded once per run and handed to every local scanner. */
+export type ScanContext = {
+  ruleset: YaraRuleset
+}
+
+export type ScanOutcome = {
+  verdict: ScanVerdict
+  summary?: string
+  findings: ScanFinding[]
+  /** Version of the rule set that produced the findings, for rule-driven scanners. */
+  rulesetVersion?: number
+}
+
+export type LocalScanResult = ScanOutcome & { scanner: string }
+
+export type SkillScanner = {
+  id: string
+  label: string
+  /**
+   * Local scanners run in-process during publish (and `scanners:scanVersionLocally`).
+   * Remote scanners report back from their own actions (VirusTotal, OpenAI).
+   */
+  kind: 'local' | 'remote'
+  /** Enforcing verdicts feed moderation through the scan policy; advisory ones are display-only. */
+  enforce: boolean
+  scan?: (bundle: ScanBundle, context: ScanContext) => ScanOutcome | Promise<ScanOutcome>
+}
+
+const registry = new Map<string, SkillScanner>()
+
+export function registerScanner(scanner: SkillScanner) {
+  if (!/^[a-z][a-z0-9_-]*$/.test(scanner.id)) {
+    throw new Error(`Invalid scanner id "${scanner.id}"`)
+  }
+  if (registry.has(scanner.id)) throw new Error(`Scanner "${scanner.id}" is already registered`)
+  if (scanner.kind === 'local' && !scanner.scan) {
+    throw new Error(`Local scanner "${scanner.id}" needs a scan function`)
+  }
+  registry.set(scanner.id, scanner)
+}
+
+export function getScanner(id: string) {
+  return registry.get(id) ?? null
+}
+
+export function listScanners() {
+  return Array.from(registry.values())
+}
+
+/** Local scanners minus any listed in `SKILL_SCANNERS_DISABLED` (comma-separated ids). */
+export function getEnabledLocalScanners(env: NodeJS.ProcessEnv = process.env) {
+  const disabled = new Set(
+    (env.SKILL_SCANNERS_DISABLED ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+  )
+  return listScanners().filter((scanner) => scanner.kind === 'local' && !disabled.has(scanner.id))
+}
+
+const MAX_SCAN_FILES = 200
+const MAX_SCAN_FILE_BYTES = 512 * 1024
+const MAX_STORED_FINDINGS = 50
+
+/** Loads the text files local scanners look at; oversized or unreadable files are skipped. */
+export async function readScanFiles(
+  ctx: { storage: { get: (id: Id<'_storage'>) => Promise<Blob | null> } },
+  files: Array<{ path: string; size: number; storageId: Id<'_storage'>; contentType?: string }>,
+) {
+  const texts: ScanBundle['files'] = []
+  for (const file of files.slice(0, MAX_SCAN_FILES)) {
+    if (file.size > MAX_SCAN_FILE_BYTES || !isTextFile(file.path, file.contentType)) continue
+    try {
+      const blob = await ctx.storage.get(file.storageId)
+      if (blob) texts.push({ path: file.path, text: await blob.text() })
+    } catch {
+      // Skip files that can't be read
+    }
+  }
+  return texts
+}
+
+/**
+ * Runs every enabled local scanner over one bundle. A scanner that throws records an
+ * `error` verdict instead of failing the caller (publish must not break on a bad rule).
+ */
+export async function runLocalScanners(
+  bundle: ScanBundle,
+  context: ScanContext,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<LocalScanResult[]> {
+  const results: LocalScanResult[] = []
+  for (const scanner of getEnabledLocalScanners(env)) {
+    if (!scanner.scan) continue
+    try {
+      const outcome = await scanner.scan(bundle, context)
+      results.push({
+        ...outcome,
+        scanner: scanner.id,
+        findings: outcome.findings.slice(0, MAX_STORED_FINDINGS),
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`[scanners] ${scanner.id} failed on ${bundle.slug}@${bundle.version}`, error)
+      results.push({
+        scanner: scanner.id,
+        verdict: 'error',
+        summary: message.slice(0, 200),
+        findings: [],
+      })
+    }
+  }
+  return results
+}
+
+/** Moderation flags named by matching rules, e.g. `suspicious.exec_pipe`. */
+export function collectFindingFlags(findings: ScanFinding[]) {
+  return Array.from(
+    new Set(findings.map((finding) => finding.flag).filter((flag): flag is string => !!flag)),
+  )
+}
+
+/** Maps the free-form status strings stored by VT and the LLM evaluator onto scan verdicts. */
+export function toScanVerdict(status: string | undefined): ScanVerdict {
+  switch (status) {
+    case 'clean':
+    case 'suspicious':
+    case 'malicious':
+    case 'error':
+      return status
+    default:
+      return 'pending'
+  }
+}
+
+export async function listScanResultsForVersion(
+  ctx: QueryCtx | MutationCtx,
+  versionId: Id<'skillVersions'>,
+) {
+  return await ctx.db
+    .query('scanResults')
+    .withIndex('by_version', (q) => q.eq('versionId', versionId))
+    .collect()
+}
+
+export async function upsertScanResult(
+  ctx: MutationCtx,
+  version: Pick<Doc<'skillVersions'>, '_id' | 'skillId'>,
+  scanner: string,
+  outcome: ScanOutcome & { checkedAt: number },
+) {
+  const existing = await ctx.db
+    .query('scanResults')
+    .withIndex('by_version_scanner', (q) => q.eq('versionId', version._id).eq('scanner', scanner))
+    .unique()
+  const fields = {
+    verdict: outcome.verdict,
+    summary: outcome.summary,
+    findings: outcome.findings,
+    rulesetVersion: outcome.rulesetVersion,
+    checkedAt: outcome.checkedAt,
+  }
+  if (existing) {
+    await ctx.db.patch(existing._id, fields)
+    return existing._id
+  }
+  return await ctx.db.insert('scanResults', {
+    versionId: version._id,
+    skillId: version.skillId,
+    scanner,
+    ...fields,
+  })
+}
+
+registerScanner({ id: 'vt', label: 'VirusTotal', kind: 'remote', enforce: true })
+registerScanner({ id: 'llm', label: 'OpenClaw', kind: 'remote', enforce: false })
+registerScanner(yaraScanner)
@@ -0,0 +1,81 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  countSearchFacets,
+  deriveSkillRuntimeFacets,
+  getSearchFacetValues,
+  matchesSearchFilters,
+  type SearchFacetSubject,
+} from './searchFacets'
+
+function subject(clawdis: unknown, extra: Partial<SearchFacetSubject> = {}): SearchFacetSubject {
+  return {
+    skill: { badges: {} },
+    ownerHandle: 'Steipete',
+    runtimeFacets: deriveSkillRuntimeFacets(clawdis),
+    ...extra,
+  }
+}
+
+describe('deriveSkillRuntimeFacets', () => {
+  it('normalizes os names and collects bins, env, install kinds and nix', () => {
+    expect(
+      deriveSkillRuntimeFacets({
+        os: ['darwin', 'linux', 'macos'],
+        primaryEnv: 'GITHUB_TOKEN',
+        requires: { bins: ['gh'], anyBins: ['rg', 'gh'] },
+        install: [{ kind: 'brew', formula: 'gh' }, { kind: 'node' }, { kind: 'brew' }],
+        nix: { plugin: 'github:owner/repo' },
+      }),
+    ).toEqual({
+      os: ['macos', 'linux'],
+      bins: ['gh', 'rg'],
+      requiresEnv: true,
+      installKinds: ['brew', 'node'],
+      nixPlugin: true,
+    })
+    expect(deriveSkillRuntimeFacets(undefined)).toEqual({
+      os: [],
+      bins: [],
+      requiresEnv: false,
+      installKinds: [],
+      nixPlugin: false,
+    })
+  })
+})
+
+describe('matchesSearchFilters', () => {
+  it('treats skills without an os restriction as running everywhere', () => {
+    const values = getSearchFacetValues(subject({ requires: { bins: ['gh', 'jq'] } }))
+    expect(matchesSearchFilters(values, { os: ['Linux'], env: 'none' })).toBe(true)
+    expect(matchesSearchFilters(values, { bins: ['gh', 'jq'] })).toBe(true)
+    expect(matchesSearchFilters(values, { bins: ['gh', 'curl'] })).toBe(false)
+    expect(matchesSearchFilters(values, { owner: '@steipete', deprecated: false })).toBe(true)
+    expect(matchesSearchFilters(values, { official: true })).toBe(false)
+  })
+})
+
+describe('countSearchFacets', () => {
+  it('counts each facet against the other active filters only', () => {
+    const subjects = [
+      subject({ os: ['linux'], install: [{ kind: 'brew' }] }),
+      subject({ os: ['macos'], requires: { env: ['API_KEY'] } }),
+      subject({ nix: { plugin: 'x' } }, { skill: { badges: { official: { at: 1 } } } }),
+    ]
+    const facets = countSearchFacets(subjects, { os: ['macos'] })
+    expect(facets.os).toEqual([
+      { value: 'linux', count: 2 },
+      { value: 'macos', count: 2 },
+      { value: 'windows', count: 1 },
+    ])
+    expect(facets.env).toEqual([
+      { value: 'none', count: 1 },
+      { value: 'required', count: 1 },
+    ])
+    expect(facets.install).toEqual([])
+    expect(facets.nix).toEqual([{ value: 'plugin', count: 1 }])
+    expect(facets.badges).toEqual([{ value: 'official', count: 1 }])
+    expect(facets.owner).toEqual([{ value: 'steipete', count: 2 }])
+  })
+})
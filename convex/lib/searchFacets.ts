@@ -0,0 +1,173 @@
+import type { Doc } from '../_generated/dataModel'
+
+export type SkillRuntimeFacets = NonNullable<Doc<'skills'>['runtimeFacets']>
+
+export const SEARCH_FACET_KEYS = ['os', 'bins', 'env', 'install', 'nix', 'badges', 'owner'] as const
+
+export type SearchFacetKey = (typeof SEARCH_FACET_KEYS)[number]
+
+export type SkillSearchFilters = {
+  /** Any of these; skills without an `os` restriction run everywhere. */
+  os?: string[]
+  /** All of these binaries are required. */
+  bins?: string[]
+  env?: 'required' | 'none'
+  /** Any of these install kinds. */
+  install?: string[]
+  nix?: boolean
+  official?: boolean
+  deprecated?: boolean
+  owner?: string
+}
+
+export type SearchFacetCounts = Record<SearchFacetKey, Array<{ value: string; count: number }>>
+
+export type SearchFacetSubject = {
+  skill: { badges?: { official?: unknown; deprecated?: unknown } | null }
+  ownerHandle: string | null
+  runtimeFacets?: SkillRuntimeFacets | null
+}
+
+const KNOWN_OS = ['linux', 'macos', 'windows']
+const MAX_FACET_VALUES = 20
+
+export function normalizeOsName(value: string) {
+  const key = value.trim().toLowerCase()
+  if (key === 'darwin' || key === 'mac' || key === 'macos') return 'macos'
+  if (key === 'win32' || key === 'windows') return 'windows'
+  return key
+}
+
+/** Reduces a version's parsed `clawdis` block to the values search can filter on. */
+export function deriveSkillRuntimeFacets(clawdis: unknown): SkillRuntimeFacets {
+  const block = isRecord(clawdis) ? clawdis : {}
+  const requires = isRecord(block.requires) ? block.requires : {}
+  const install = Array.isArray(block.install) ? block.install.filter(isRecord) : []
+  const envVars = Array.isArray(block.envVars) ? block.envVars : []
+  return {
+    os: unique(stringList(block.os).map(normalizeOsName)),
+    bins: unique([...stringList(requires.bins), ...stringList(requires.anyBins)]),
+    requiresEnv:
+      stringList(requires.env).length > 0 ||
+      (typeof block.primaryEnv === 'string' && block.primaryEnv.trim().length > 0) ||
+      envVars.length > 0,
+    installKinds: unique(install.flatMap((spec) => stringList(spec.kind))),
+    nixPlugin: isRecord(block.nix) && typeof block.nix.plugin === 'string',
+  }
+}
+
+export function getSearchFacetValues(
+  subject: SearchFacetSubject,
+): Record<SearchFacetKey, string[]> {
+  const runtime = subject.runtimeFacets
+  const badges: string[] = []
+  if (subject.skill.badges?.official) badges.push('official')
+  if (subject.skill.badges?.deprecated) badges.push('deprecated')
+  return {
+    os: runtime?.os.length ? runtime.os : KNOWN_OS,
+    bins: runtime?.bins ?? [],
+    env: [runtime?.requiresEnv ? 'required' : 'none'],
+    install: runtime?.installKinds ?? [],
+    nix: runtime?.nixPlugin ? ['plugin'] : [],
+    badges,
+    owner: subject.ownerHandle ? [subject.ownerHandle.toLowerCase()] : [],
+  }
+}
+
+export function hasSearchFilters(filters: SkillSearchFilters | undefined) {
+  if (!filters) return false
+  return SEARCH_FACET_KEYS.some((key) => isFacetFiltered(filters, key))
+}
+
+/** `except` skips one facet so its counts reflect what picking another value would return. */
+export function matchesSearchFilters(
+  values: Record<SearchFacetKey, string[]>,
+  filters: SkillSearchFilters,
+  except?: SearchFacetKey,
+) {
+  return SEARCH_FACET_KEYS.every(
+    (key) => key === except || !isFacetFiltered(filters, key) || matchesFacet(values, filters, key),
+  )
+}
+
+export function countSearchFacets(
+  subjects: SearchFacetSubject[],
+  filters: SkillSearchFilters = {},
+): SearchFacetCounts {
+  const valueSets = subjects.map(getSearchFacetValues)
+  const counts = {} as SearchFacetCounts
+  for (const key of SEARCH_FACET_KEYS) {
+    const tally = new Map<string, number>()
+    for (const values of valueSets) {
+      if (!matchesSearchFilters(values, filters, key)) continue
+      for (const value of values[key]) tally.set(value, (tally.get(value) ?? 0) + 1)
+    }
+    counts[key] = [...tally.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, MAX_FACET_VALUES)
+  }
+  return counts
+}
+
+function isFacetFiltered(filters: SkillSearchFilters, key: SearchFacetKey) {
+  switch (key) {
+    case 'os':
+      return Boolean(filters.os?.length)
+    case 'bins':
+      return Boolean(filters.bins?.length)
+    case 'env':
+      return filters.env !== undefined
+    case 'install':
+      return Boolean(filters.install?.length)
+    case 'nix':
+      return filters.nix !== undefined
+    case 'badges':
+      return filters.official !== undefined || filters.deprecated !== undefined
+    case 'owner':
+      return Boolean(filters.owner?.trim())
+  }
+}
+
+function matchesFacet(
+  values: Record<SearchFacetKey, string[]>,
+  filters: SkillSearchFilters,
+  key: SearchFacetKey,
+) {
+  const has = (value: string) => values[key].includes(value)
+  switch (key) {
+    case 'os':
+      return (filters.os ?? []).some((os) => has(normalizeOsName(os)))
+    case 'bins':
+      return (filters.bins ?? []).every((bin) => has(bin.trim()))
+    case 'env':
+      return has(filters.env ?? 'none')
+    case 'install':
+      return (filters.install ?? []).some((kind) => has(kind.trim().toLowerCase()))
+    case 'nix':
+      return has('plugin') === filters.nix
+    case 'badges':
+      return (
+        (filters.official === undefined || has('official') === filters.official) &&
+        (filters.deprecated === undefined || has('deprecated') === filters.deprecated)
+      )
+    case 'owner':
+      return has((filters.owner ?? '').trim().replace(/^@/, '').toLowerCase())
+  }
+}
+
+function stringList(value: unknown) {
+  const items = typeof value === 'string' ? [value] : Array.isArray(value) ? value : []
+  return items
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+function unique(values: string[]) {
+  return [...new Set(values)]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
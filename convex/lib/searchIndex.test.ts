@@ -0,0 +1,103 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  BM25_FUSION_WEIGHT,
+  buildSkillSearchDocument,
+  getBm25Contribution,
+  getSearchQueryTerms,
+  scoreBm25,
+} from './searchIndex'
+
+describe('buildSkillSearchDocument', () => {
+  it('weights terms by field and skips frontmatter and stopwords', () => {
+    const document = buildSkillSearchDocument({
+      slug: 'pdf-tools',
+      displayName: 'PDF Tools',
+      summary: 'Merge the PDF files',
+      readme: '---\nname: pdf-tools\n---\n# Usage\nRun merge with a list of files.\n',
+      filePaths: ['SKILL.md', 'scripts/merge.py'],
+    })
+    const weights = Object.fromEntries(document.terms.map((entry) => [entry.term, entry.weight]))
+    expect(weights).toEqual({
+      pdf: 8,
+      tools: 6,
+      merge: 4,
+      files: 3,
+      list: 1,
+      md: 1,
+      py: 1,
+      run: 1,
+      scripts: 1,
+      skill: 1,
+      usage: 1,
+    })
+    expect(document.length).toBe(28)
+  })
+})
+
+describe('scoreBm25', () => {
+  const stats = { docCount: 10, totalLength: 200 }
+
+  it('favours higher term weight, shorter docs and exact over prefix matches', () => {
+    const scores = scoreBm25(
+      ['pdf'],
+      new Map([
+        [
+          'pdf',
+          [
+            { docId: 'heavy', term: 'pdf', weight: 6, docLength: 20 },
+            { docId: 'light', term: 'pdf', weight: 1, docLength: 20 },
+            { docId: 'long', term: 'pdf', weight: 1, docLength: 200 },
+            { docId: 'prefix', term: 'pdfs', weight: 6, docLength: 20 },
+          ],
+        ],
+      ]),
+      stats,
+    )
+    const order = [...scores.entries()].sort((a, b) => b[1].score - a[1].score).map(([id]) => id)
+    expect(order).toEqual(['heavy', 'prefix', 'light', 'long'])
+    expect(scores.get('prefix')?.terms).toEqual([
+      { term: 'pdfs', score: expect.any(Number) as number },
+    ])
+  })
+
+  it('takes IDF from stored document frequencies over capped postings', () => {
+    const postings = new Map([['pdf', [{ docId: 'a', term: 'pdf', weight: 1, docLength: 20 }]]])
+    const counted = scoreBm25(['pdf'], postings, stats)
+    const stored = scoreBm25(['pdf'], postings, stats, new Map([['pdf', 8]]))
+    expect(stored.get('a')?.score).toBeLessThan(counted.get('a')?.score ?? 0)
+  })
+
+  it('sums one best match per query term', () => {
+    const scores = scoreBm25(
+      ['merge', 'pdf'],
+      new Map([
+        ['merge', [{ docId: 'a', term: 'merge', weight: 1, docLength: 20 }]],
+        [
+          'pdf',
+          [
+            { docId: 'a', term: 'pdf', weight: 1, docLength: 20 },
+            { docId: 'a', term: 'pdfs', weight: 1, docLength: 20 },
+            { docId: 'b', term: 'pdf', weight: 1, docLength: 20 },
+          ],
+        ],
+      ]),
+      stats,
+    )
+    expect(scores.get('a')?.terms.map((match) => match.term)).toEqual(['merge', 'pdf'])
+    expect(scores.get('a')?.score).toBeGreaterThan(scores.get('b')?.score ?? 0)
+  })
+})
+
+describe('search query helpers', () => {
+  it('drops stopwords and duplicate query terms', () => {
+    expect(getSearchQueryTerms('Merge the PDF and the pdf')).toEqual(['merge', 'pdf'])
+  })
+
+  it('normalises BM25 against the best score in the candidate set', () => {
+    expect(getBm25Contribution(4, 4)).toBe(BM25_FUSION_WEIGHT)
+    expect(getBm25Contribution(2, 4)).toBe(BM25_FUSION_WEIGHT / 2)
+    expect(getBm25Contribution(null, 4)).toBe(0)
+  })
+})
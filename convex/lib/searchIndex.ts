@@ -0,0 +1,192 @@
+import { tokenize } from './searchText'
+
+/** Per-occurrence term weight by field; name hits count three times a body hit. */
+export const SEARCH_FIELD_WEIGHTS = {
+  name: 3,
+  summary: 2,
+  body: 1,
+  files: 1,
+} as const
+
+export const BM25_K1 = 1.2
+export const BM25_B = 0.75
+/** Weight of the best BM25 match in the fused score; vector scores are cosine, 0..1. */
+export const BM25_FUSION_WEIGHT = 0.6
+/** Query tokens this long also match longer indexed terms, at a discount. */
+export const PREFIX_MIN_LENGTH = 3
+export const PREFIX_MATCH_WEIGHT = 0.5
+
+const MAX_INDEXED_TERMS = 300
+const MAX_BODY_CHARS = 50_000
+const MAX_QUERY_TERMS = 8
+
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'will',
+  'with',
+  'you',
+  'your',
+])
+
+export type SkillSearchDocumentInput = {
+  slug: string
+  displayName: string
+  summary?: string | null
+  readme: string
+  filePaths: string[]
+}
+
+export type SkillSearchDocument = {
+  /** Field-weighted token count, used for BM25 length normalisation. */
+  length: number
+  terms: Array<{ term: string; weight: number }>
+}
+
+export type Bm25Posting = { term: string; weight: number; docLength: number }
+
+export type Bm25TermMatch = { term: string; score: number }
+
+export type Bm25CorpusStats = { docCount: number; totalLength: number }
+
+function isIndexableTerm(term: string) {
+  return term.length > 1 && !STOPWORDS.has(term)
+}
+
+function stripFrontmatter(readme: string) {
+  return readme.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '')
+}
+
+/**
+ * Turns a skill's name, summary, SKILL.md body and file names into weighted
+ * term frequencies. Only the heaviest terms are kept so a long README can't
+ * blow up the postings table.
+ */
+export function buildSkillSearchDocument(input: SkillSearchDocumentInput): SkillSearchDocument {
+  const weights = new Map<string, number>()
+  let length = 0
+  const add = (text: string | null | undefined, weight: number) => {
+    for (const term of tokenize(text ?? '')) {
+      if (!isIndexableTerm(term)) continue
+      weights.set(term, (weights.get(term) ?? 0) + weight)
+      length += weight
+    }
+  }
+
+  add(`${input.displayName} ${input.slug}`, SEARCH_FIELD_WEIGHTS.name)
+  add(input.summary, SEARCH_FIELD_WEIGHTS.summary)
+  add(stripFrontmatter(input.readme).slice(0, MAX_BODY_CHARS), SEARCH_FIELD_WEIGHTS.body)
+  add(input.filePaths.join(' '), SEARCH_FIELD_WEIGHTS.files)
+
+  const terms = [...weights.entries()]
+    .map(([term, weight]) => ({ term, weight }))
+    .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+    .slice(0, MAX_INDEXED_TERMS)
+  return { length, terms }
+}
+
+export function getSearchQueryTerms(query: string) {
+  return [...new Set(tokenize(query).filter(isIndexableTerm))].slice(0, MAX_QUERY_TERMS)
+}
+
+export function getBm25Idf(docCount: number, docFrequency: number) {
+  return Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5))
+}
+
+export function getBm25TermScore(params: {
+  weight: number
+  docLength: number
+  avgDocLength: number
+  idf: number
+}) {
+  const norm = 1 - BM25_B + BM25_B * (params.docLength / Math.max(params.avgDocLength, 1))
+  return (params.idf * params.weight * (BM25_K1 + 1)) / (params.weight + BM25_K1 * norm)
+}
+
+/**
+ * Scores documents for each query term's postings. A query term matches its
+ * exact indexed term and, when long enough, longer terms it prefixes; each
+ * query term contributes its single best match per document. IDF uses the
+ * stored `docFrequencies` where given, since the postings may be capped.
+ */
+export function scoreBm25<Id extends string>(
+  queryTerms: string[],
+  postingsByQueryTerm: Map<string, Array<Bm25Posting & { docId: Id }>>,
+  stats: Bm25CorpusStats,
+  docFrequencies?: Map<string, number>,
+) {
+  const docCount = Math.max(stats.docCount, 1)
+  const avgDocLength = stats.docCount > 0 ? stats.totalLength / stats.docCount : 1
+  const scores = new Map<Id, { score: number; terms: Bm25TermMatch[] }>()
+
+  for (const queryTerm of queryTerms) {
+    const postings = postingsByQueryTerm.get(queryTerm) ?? []
+    const docFrequency = new Map<string, number>()
+    for (const posting of postings) {
+      docFrequency.set(posting.term, (docFrequency.get(posting.term) ?? 0) + 1)
+    }
+
+    const best = new Map<Id, Bm25TermMatch>()
+    for (const posting of postings) {
+      const frequency = Math.max(
+        docFrequencies?.get(posting.term) ?? 0,
+        docFrequency.get(posting.term) ?? 1,
+      )
+      const idf = getBm25Idf(docCount, frequency)
+      const discount = posting.term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT
+      const score =
+        discount *
+        getBm25TermScore({
+          weight: posting.weight,
+          docLength: posting.docLength,
+          avgDocLength,
+          idf,
+        })
+      const current = best.get(posting.docId)
+      if (!current || score > current.score) best.set(posting.docId, { term: posting.term, score })
+    }
+
+    for (const [docId, match] of best) {
+      const entry = scores.get(docId) ?? { score: 0, terms: [] }
+      entry.score += match.score
+      entry.terms.push(match)
+      scores.set(docId, entry)
+    }
+  }
+
+  return scores
+}
+
+/**
+ * Fuses BM25 into the vector score. BM25 is normalised against the best BM25
+ * score in the candidate set, so a query's strongest keyword match is worth
+ * `BM25_FUSION_WEIGHT` however large raw BM25 scores get. Score fusion rather
+ * than rank fusion keeps the vector score's magnitude, which the lexical and
+ * popularity boosts are tuned against.
+ */
+export function getBm25Contribution(score: number | null, maxScore: number) {
+  if (score === null || maxScore <= 0) return 0
+  return (score / maxScore) * BM25_FUSION_WEIGHT
+}
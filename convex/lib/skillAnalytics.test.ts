@@ -0,0 +1,120 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildSkillAnalytics,
+  clampAnalyticsDays,
+  formatSkillAnalyticsCsv,
+} from './skillAnalytics'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2026, 2, 10, 15)
+const TODAY = Math.floor(NOW / DAY_MS)
+
+describe('clampAnalyticsDays', () => {
+  it('defaults to 30 and caps at a year', () => {
+    expect(clampAnalyticsDays(undefined)).toBe(30)
+    expect(clampAnalyticsDays(Number.NaN)).toBe(30)
+    expect(clampAnalyticsDays(0)).toBe(1)
+    expect(clampAnalyticsDays(7.9)).toBe(7)
+    expect(clampAnalyticsDays(5000)).toBe(365)
+  })
+})
+
+describe('buildSkillAnalytics', () => {
+  const analytics = buildSkillAnalytics({
+    now: NOW,
+    days: 3,
+    dailyStats: [
+      { day: TODAY - 5, downloads: 99, installs: 99 },
+      { day: TODAY - 2, downloads: 4, installs: 1 },
+      { day: TODAY, downloads: 6, installs: 2 },
+    ],
+    events: [
+      { kind: 'star', occurredAt: NOW - DAY_MS },
+      { kind: 'star', occurredAt: NOW - DAY_MS },
+      { kind: 'unstar', occurredAt: NOW },
+      { kind: 'comment', occurredAt: NOW - 2 * DAY_MS },
+      { kind: 'download', occurredAt: NOW },
+    ],
+    installs: [
+      { activeRoots: 2, lastVersion: '1.1.0' },
+      { activeRoots: 1, lastVersion: '1.1.0' },
+      { activeRoots: 1, lastVersion: '1.0.0' },
+      { activeRoots: 1 },
+      { activeRoots: 0, lastVersion: '0.9.0' },
+    ],
+    rootInstalls: [
+      { firstSeenAt: NOW - 40 * DAY_MS },
+      { firstSeenAt: NOW - 40 * DAY_MS, removedAt: NOW - 38 * DAY_MS },
+      { firstSeenAt: NOW - 20 * DAY_MS, removedAt: NOW - DAY_MS },
+      { firstSeenAt: NOW - 10 * DAY_MS },
+    ],
+  })
+
+  it('fills one row per day in the range', () => {
+    expect(analytics.range).toEqual({ startDay: TODAY - 2, endDay: TODAY, days: 3 })
+    expect(analytics.series).toEqual([
+      {
+        day: TODAY - 2,
+        date: '2026-03-08',
+        downloads: 4,
+        installs: 1,
+        uninstalls: 0,
+        stars: 0,
+        comments: 1,
+      },
+      {
+        day: TODAY - 1,
+        date: '2026-03-09',
+        downloads: 0,
+        installs: 0,
+        uninstalls: 1,
+        stars: 2,
+        comments: 0,
+      },
+      {
+        day: TODAY,
+        date: '2026-03-10',
+        downloads: 6,
+        installs: 2,
+        uninstalls: 0,
+        stars: -1,
+        comments: 0,
+      },
+    ])
+    expect(analytics.totals).toEqual({
+      downloads: 10,
+      installs: 3,
+      uninstalls: 1,
+      stars: 1,
+      comments: 1,
+    })
+  })
+
+  it('splits active users by version and measures lifetime retention', () => {
+    expect(analytics.versions).toEqual([
+      { version: '1.1.0', users: 2, share: 0.5 },
+      { version: null, users: 1, share: 0.25 },
+      { version: '1.0.0', users: 1, share: 0.25 },
+    ])
+    expect(analytics.retention).toEqual({
+      installs: 4,
+      active: 2,
+      removed: 2,
+      retentionRate: 0.5,
+      removedWithinWeek: 1,
+      medianDaysToRemoval: 10.5,
+    })
+  })
+
+  it('exports the daily series as csv', () => {
+    expect(formatSkillAnalyticsCsv(analytics).split('\n')).toEqual([
+      'date,downloads,installs,uninstalls,stars,comments',
+      '2026-03-08,4,1,0,0,1',
+      '2026-03-09,0,0,1,2,0',
+      '2026-03-10,6,2,0,-1,0',
+      '',
+    ])
+  })
+})
@@ -0,0 +1,171 @@
+import type { Doc } from '../_generated/dataModel'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const DEFAULT_ANALYTICS_DAYS = 30
+export const MAX_ANALYTICS_DAYS = 365
+/** Installs removed within this many days of their first sighting count as early churn. */
+export const EARLY_REMOVAL_DAYS = 7
+
+export type AnalyticsStatEvent = Pick<Doc<'skillStatEvents'>, 'kind' | 'occurredAt'>
+export type AnalyticsDailyStat = Pick<Doc<'skillDailyStats'>, 'day' | 'downloads' | 'installs'>
+export type AnalyticsInstall = Pick<Doc<'userSkillInstalls'>, 'activeRoots' | 'lastVersion'>
+export type AnalyticsRootInstall = Pick<Doc<'userSkillRootInstalls'>, 'firstSeenAt' | 'removedAt'>
+
+export type SkillAnalyticsDay = {
+  day: number
+  /** UTC `YYYY-MM-DD`. */
+  date: string
+  downloads: number
+  installs: number
+  uninstalls: number
+  /** Net of unstars. */
+  stars: number
+  /** Net of deleted comments. */
+  comments: number
+}
+
+export type SkillAnalytics = {
+  range: { startDay: number; endDay: number; days: number }
+  series: SkillAnalyticsDay[]
+  totals: Omit<SkillAnalyticsDay, 'day' | 'date'>
+  versions: Array<{ version: string | null; users: number; share: number }>
+  retention: {
+    installs: number
+    active: number
+    removed: number
+    retentionRate: number | null
+    removedWithinWeek: number
+    medianDaysToRemoval: number | null
+  }
+}
+
+export function clampAnalyticsDays(days: number | undefined) {
+  if (days === undefined || !Number.isFinite(days)) return DEFAULT_ANALYTICS_DAYS
+  return Math.min(Math.max(Math.trunc(days), 1), MAX_ANALYTICS_DAYS)
+}
+
+export function getAnalyticsRange(now: number, days: number) {
+  const endDay = Math.floor(now / DAY_MS)
+  return { startDay: endDay - (days - 1), endDay, days }
+}
+
+function formatDay(day: number) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10)
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Owner analytics for one skill. Daily downloads and installs come from `skillDailyStats`,
+ * stars and comments from raw `skillStatEvents`, version adoption from active
+ * `userSkillInstalls` and retention from `userSkillRootInstalls` over the skill's lifetime.
+ */
+export function buildSkillAnalytics(params: {
+  now: number
+  days: number
+  dailyStats: AnalyticsDailyStat[]
+  events: AnalyticsStatEvent[]
+  installs: AnalyticsInstall[]
+  rootInstalls: AnalyticsRootInstall[]
+}): SkillAnalytics {
+  const range = getAnalyticsRange(params.now, params.days)
+  const series: SkillAnalyticsDay[] = []
+  for (let day = range.startDay; day <= range.endDay; day++) {
+    series.push({
+      day,
+      date: formatDay(day),
+      downloads: 0,
+      installs: 0,
+      uninstalls: 0,
+      stars: 0,
+      comments: 0,
+    })
+  }
+  const dayEntry = (timestampOrDay: number, isDay = false) => {
+    const day = isDay ? timestampOrDay : Math.floor(timestampOrDay / DAY_MS)
+    return series[day - range.startDay]
+  }
+
+  for (const row of params.dailyStats) {
+    const entry = dayEntry(row.day, true)
+    if (!entry) continue
+    entry.downloads += row.downloads
+    entry.installs += row.installs
+  }
+  for (const event of params.events) {
+    const entry = dayEntry(event.occurredAt)
+    if (!entry) continue
+    if (event.kind === 'star') entry.stars++
+    else if (event.kind === 'unstar') entry.stars--
+    else if (event.kind === 'comment') entry.comments++
+    else if (event.kind === 'uncomment') entry.comments--
+  }
+
+  const removalDays: number[] = []
+  let removed = 0
+  let removedWithinWeek = 0
+  for (const install of params.rootInstalls) {
+    if (install.removedAt === undefined) continue
+    removed++
+    const daysKept = Math.max(0, install.removedAt - install.firstSeenAt) / DAY_MS
+    removalDays.push(daysKept)
+    if (daysKept <= EARLY_REMOVAL_DAYS) removedWithinWeek++
+    const entry = dayEntry(install.removedAt)
+    if (entry) entry.uninstalls++
+  }
+  const total = params.rootInstalls.length
+
+  const usersByVersion = new Map<string | null, number>()
+  let activeUsers = 0
+  for (const install of params.installs) {
+    if (install.activeRoots <= 0) continue
+    activeUsers++
+    const version = install.lastVersion ?? null
+    usersByVersion.set(version, (usersByVersion.get(version) ?? 0) + 1)
+  }
+  const versions = Array.from(usersByVersion, ([version, users]) => ({
+    version,
+    users,
+    share: users / activeUsers,
+  })).sort((a, b) => b.users - a.users || (a.version ?? '').localeCompare(b.version ?? ''))
+
+  const totals = { downloads: 0, installs: 0, uninstalls: 0, stars: 0, comments: 0 }
+  for (const entry of series) {
+    totals.downloads += entry.downloads
+    totals.installs += entry.installs
+    totals.uninstalls += entry.uninstalls
+    totals.stars += entry.stars
+    totals.comments += entry.comments
+  }
+
+  return {
+    range,
+    series,
+    totals,
+    versions,
+    retention: {
+      installs: total,
+      active: total - removed,
+      removed,
+      retentionRate: total > 0 ? (total - removed) / total : null,
+      removedWithinWeek,
+      medianDaysToRemoval: median(removalDays),
+    },
+  }
+}
+
+const CSV_COLUMNS = ['date', 'downloads', 'installs', 'uninstalls', 'stars', 'comments'] as const
+
+/** The daily series as CSV, one row per day; version and retention data stay JSON-only. */
+export function formatSkillAnalyticsCsv(analytics: SkillAnalytics) {
+  const lines: string[] = [CSV_COLUMNS.join(',')]
+  for (const entry of analytics.series) {
+    lines.push(CSV_COLUMNS.map((column) => String(entry[column])).join(','))
+  }
+  return `${lines.join('\n')}\n`
+}
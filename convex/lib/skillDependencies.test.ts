@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { assertValidSkillDependencies } from './skillDependencies'
+
+describe('skillDependencies', () => {
+  it('accepts well-formed dependencies', () => {
+    expect(() =>
+      assertValidSkillDependencies('demo', [
+        { slug: 'gh-cli' },
+        { slug: 'jq-tools', version: '^2.1.0' },
+      ]),
+    ).not.toThrow()
+  })
+
+  it('rejects self, duplicate and malformed dependencies', () => {
+    expect(() => assertValidSkillDependencies('demo', [{ slug: 'demo' }])).toThrow(/itself/)
+    expect(() =>
+      assertValidSkillDependencies('demo', [{ slug: 'gh-cli' }, { slug: 'gh-cli' }]),
+    ).toThrow(/Duplicate skill dependency: gh-cli/)
+    expect(() => assertValidSkillDependencies('demo', [{ slug: 'Bad Slug' }])).toThrow(
+      /Invalid skill dependency slug/,
+    )
+    expect(() =>
+      assertValidSkillDependencies('demo', [{ slug: 'gh-cli', version: 'not a range' }]),
+    ).toThrow(/Invalid version range/)
+  })
+})
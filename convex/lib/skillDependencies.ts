@@ -0,0 +1,38 @@
+import { findSkillDependencyProblems, type SkillDependency } from 'clawhub-schema'
+import { ConvexError } from 'convex/values'
+import type { Id } from '../_generated/dataModel'
+import type { MutationCtx } from '../_generated/server'
+
+export function formatSkillDependency(dependency: SkillDependency) {
+  return dependency.version ? `${dependency.slug}@${dependency.version}` : dependency.slug
+}
+
+/** Throws the first shape problem (see `findSkillDependencyProblems` in clawhub-schema). */
+export function assertValidSkillDependencies(slug: string, dependencies: SkillDependency[]) {
+  const [problem] = findSkillDependencyProblems(slug, dependencies)
+  if (problem) throw new ConvexError(problem)
+}
+
+/** Replace the stored dependency edges for a skill with the latest declared set. */
+export async function syncSkillDependencies(
+  ctx: MutationCtx,
+  skillId: Id<'skills'>,
+  dependencies: SkillDependency[],
+  now: number,
+) {
+  const existing = await ctx.db
+    .query('skillDependencies')
+    .withIndex('by_skill', (q) => q.eq('skillId', skillId))
+    .collect()
+  for (const row of existing) {
+    await ctx.db.delete(row._id)
+  }
+  for (const dependency of dependencies) {
+    await ctx.db.insert('skillDependencies', {
+      skillId,
+      dependencySlug: dependency.slug,
+      range: dependency.version,
+      updatedAt: now,
+    })
+  }
+}
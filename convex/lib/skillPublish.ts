@@ -1,3 +1,14 @@
+import {
+  computeQualitySignals,
+  evaluateQuality,
+  getTrustTier,
+  lintSkillCapabilities,
+  MAX_SKILL_BUNDLE_BYTES,
+  type QualityAssessment,
+  readDeclaredCapabilities,
+  SKILL_SLUG_PATTERN,
+  toStructuralFingerprint,
+} from 'clawhub-schema'
 import { ConvexError } from 'convex/values'
 import semver from 'semver'
 import { api, internal } from '../_generated/api'
@@ -5,17 +16,18 @@ import type { Doc, Id } from '../_generated/dataModel'
 import type { ActionCtx, MutationCtx } from '../_generated/server'
 import { getSkillBadgeMap, isSkillHighlighted } from './badges'
 import { generateChangelogForPublish } from './changelog'
-import { generateEmbedding } from './embeddings'
+import { generateStoredEmbeddings } from './embeddings'
 import { requireGitHubAccountAge } from './githubAccount'
+import { requestLlmSecurityEval, toLlmAnalysis } from './llmSecurityEval'
+import { deriveModerationFlags } from './moderation'
+import { canPublishForOrg, formatOrgOwnerParam } from './orgs'
 import type { PublicUser } from './public'
-import {
-  computeQualitySignals,
-  evaluateQuality,
-  getTrustTier,
-  type QualityAssessment,
-  toStructuralFingerprint,
-} from './skillQuality'
+import { applyPublishScanFlags } from './scanPolicy'
+import { getScanner, readScanFiles, runLocalScanners } from './scanners'
+import { detectInjectionPatterns, getLlmEvalModel, type SkillEvalContext } from './securityPrompt'
+import { assertValidSkillDependencies } from './skillDependencies'
 import { generateSkillSummary } from './skillSummary'
+import type { SkillVisibility } from './skillVisibility'
 import {
   buildEmbeddingText,
   getFrontmatterMetadata,
@@ -24,12 +36,12 @@ import {
   isMacJunkPath,
   isTextFile,
   parseClawdisMetadata,
+  type ParsedSkillFrontmatter,
   parseFrontmatter,
   sanitizePath,
 } from './skills'
 import type { WebhookSkillPayload } from './webhooks'
 
-const MAX_TOTAL_BYTES = 50 * 1024 * 1024
 const MAX_FILES_FOR_EMBEDDING = 40
 const QUALITY_WINDOW_MS = 24 * 60 * 60 * 1000
 const QUALITY_ACTIVITY_LIMIT = 60
@@ -47,6 +59,8 @@ export type PublishVersionArgs = {
   changelog: string
   tags?: string[]
   forkOf?: { slug: string; version?: string }
+  org?: string
+  visibility?: SkillVisibility
   source?: {
     kind: 'github'
     url: string
@@ -79,11 +93,288 @@ export async function publishVersionForUser(
   args: PublishVersionArgs,
   options: PublishOptions = {},
 ): Promise<PublishResult> {
+  const {
+    slug,
+    version,
+    displayName,
+    publishOrg,
+    owner,
+    changelogSource,
+    suppliedChangelog,
+    publishFiles,
+    readmeText,
+    frontmatter,
+    frontmatterMetadata,
+    clawdis,
+    summary,
+    qualityAssessment,
+  } = await prepareSkillPublish(ctx, userId, args, options)
+  if (qualityAssessment?.decision === 'reject') {
+    throw new ConvexError(qualityAssessment.reason)
+  }
+
+  const metadata = mergeSourceIntoMetadata(frontmatterMetadata, args.source, qualityAssessment)
+
+  const embeddingText = await buildSkillEmbeddingText(ctx, {
+    frontmatter,
+    readmeText,
+    files: publishFiles,
+  })
+
+  const fingerprintPromise = hashSkillFiles(
+    publishFiles.map((file) => ({ path: file.path, sha256: file.sha256 })),
+  )
+
+  const changelogPromise =
+    changelogSource === 'user'
+      ? Promise.resolve(suppliedChangelog)
+      : generateChangelogForPublish(ctx, {
+          slug,
+          version,
+          readmeText,
+          files: publishFiles.map((file) => ({ path: file.path, sha256: file.sha256 })),
+        })
+
+  const embeddingPromise = generateStoredEmbeddings(embeddingText)
+
+  const [fingerprint, changelogText, embeddings] = await Promise.all([
+    fingerprintPromise,
+    changelogPromise,
+    embeddingPromise.catch((error) => {
+      throw new ConvexError(formatEmbeddingError(error))
+    }),
+  ])
+
+  // Static heuristics run inline so their findings and flags land with the version.
+  const ruleset = await ctx.runQuery(internal.scanRulesets.getActiveInternal, {})
+  const scanResults = await runLocalScanners(
+    { slug, version, files: await readScanFiles(ctx, publishFiles) },
+    { ruleset },
+  )
+
+  const publishResult = (await ctx.runMutation(internal.skills.insertVersion, {
+    userId,
+    slug,
+    displayName,
+    version,
+    changelog: changelogText,
+    changelogSource,
+    tags: args.tags?.map((tag) => tag.trim()).filter(Boolean),
+    fingerprint,
+    orgId: publishOrg?._id,
+    visibility: args.visibility,
+    forkOf: args.forkOf
+      ? {
+          slug: args.forkOf.slug.trim().toLowerCase(),
+          version: args.forkOf.version?.trim() || undefined,
+        }
+      : undefined,
+    bypassNewSkillRateLimit: options.bypassNewSkillRateLimit || undefined,
+    files: publishFiles.map((file) => ({
+      ...file,
+      path: file.path,
+    })),
+    parsed: {
+      frontmatter,
+      metadata,
+      clawdis,
+    },
+    summary,
+    ...embeddings,
+    qualityAssessment: qualityAssessment
+      ? {
+          decision: qualityAssessment.decision,
+          score: qualityAssessment.score,
+          reason: qualityAssessment.reason,
+          trustTier: qualityAssessment.trustTier,
+          similarRecentCount: qualityAssessment.similarRecentCount,
+          signals: qualityAssessment.signals,
+        }
+      : undefined,
+    scanResults,
+  })) as PublishResult
+
+  await ctx.scheduler.runAfter(0, internal.vt.scanWithVirusTotal, {
+    versionId: publishResult.versionId,
+  })
+
+  await ctx.scheduler.runAfter(0, internal.llmEval.evaluateWithLlm, {
+    versionId: publishResult.versionId,
+  })
+
+  await ctx.scheduler.runAfter(0, internal.capabilityLint.lintVersionCapabilities, {
+    versionId: publishResult.versionId,
+  })
+
+  await ctx.scheduler.runAfter(0, internal.searchIndex.indexSkillVersion, {
+    versionId: publishResult.versionId,
+  })
+
+  // Org skills are backed up under `@org/` so they stay put as members come and go.
+  const ownerHandle = publishOrg
+    ? formatOrgOwnerParam(publishOrg.handle)
+    : (owner?.handle ?? owner?.displayName ?? owner?.name ?? 'unknown')
+
+  if (!options.skipBackup) {
+    void ctx.scheduler
+      .runAfter(0, internal.githubBackupsNode.backupSkillForPublishInternal, {
+        slug,
+        version,
+        displayName,
+        ownerHandle,
+        files: publishFiles,
+        publishedAt: Date.now(),
+      })
+      .catch((error) => {
+        console.error('GitHub backup scheduling failed', error)
+      })
+  }
+
+  if (!options.skipWebhook) {
+    void schedulePublishWebhook(ctx, {
+      slug,
+      version,
+      displayName,
+    })
+  }
+
+  return publishResult
+}
+
+export type PublishPreview = Awaited<ReturnType<typeof previewPublishForUser>>
+
+/**
+ * Dry run of `publishVersionForUser`: runs the same checks, the quality gate, the local
+ * scanners, the capability lint and (when configured) the LLM evaluator on the staged
+ * files, and predicts the moderation state, without creating the version.
+ */
+export async function previewPublishForUser(
+  ctx: ActionCtx,
+  userId: Id<'users'>,
+  args: PublishVersionArgs,
+  options: PublishOptions = {},
+) {
+  const {
+    slug,
+    version,
+    displayName,
+    owner,
+    publishFiles,
+    readmeText,
+    frontmatter,
+    frontmatterMetadata,
+    clawdis,
+    summary,
+    qualityAssessment,
+  } = await prepareSkillPublish(ctx, userId, args, options)
+
+  const files = await readScanFiles(ctx, publishFiles)
+  const ruleset = await ctx.runQuery(internal.scanRulesets.getActiveInternal, {})
+  const localResults = await runLocalScanners({ slug, version, files }, { ruleset })
+  const checkedAt = Date.now()
+
+  const isPrivileged = owner?.role === 'admin' || owner?.role === 'moderator'
+  const isQuarantined = qualityAssessment?.decision === 'quarantine'
+  const moderationFlags = applyPublishScanFlags(
+    deriveModerationFlags({
+      skill: { slug, displayName, summary },
+      parsed: { frontmatter, metadata: frontmatterMetadata, clawdis },
+      files: publishFiles,
+    }),
+    localResults,
+    isPrivileged,
+  )
+
+  return {
+    slug,
+    version,
+    quality: qualityAssessment
+      ? {
+          decision: qualityAssessment.decision,
+          score: qualityAssessment.score,
+          reason: qualityAssessment.reason,
+          trustTier: qualityAssessment.trustTier,
+        }
+      : null,
+    moderation: {
+      status: (owner?.trustedPublisher || isPrivileged) && !isQuarantined ? 'active' : 'hidden',
+      reason: isQuarantined ? 'quality.low' : 'pending.scan',
+      flags: moderationFlags,
+    },
+    scanResults: localResults.map((result) => ({
+      ...result,
+      label: getScanner(result.scanner)?.label ?? result.scanner,
+      checkedAt,
+    })),
+    capabilityLint: {
+      ...lintSkillCapabilities({ files, declared: readDeclaredCapabilities(clawdis) }),
+      checkedAt,
+    },
+    llmAnalysis: await previewLlmAnalysis({
+      slug,
+      displayName,
+      ownerUserId: String(userId),
+      version,
+      createdAt: checkedAt,
+      summary,
+      source: getFrontmatterValue(frontmatter, 'source'),
+      homepage: getFrontmatterValue(frontmatter, 'homepage'),
+      parsed: { frontmatter, metadata: frontmatterMetadata, clawdis },
+      files: publishFiles.map((file) => ({ path: file.path, size: file.size })),
+      skillMdContent: readmeText,
+      fileContents: files
+        .filter((file) => {
+          const lower = file.path.toLowerCase()
+          return lower !== 'skill.md' && lower !== 'skills.md'
+        })
+        .map((file) => ({ path: file.path, content: file.text })),
+    }),
+  }
+}
+
+/** Discards the blobs staged for a dry run; every dry-run entry point calls this when done. */
+export async function discardPreviewUploads(ctx: ActionCtx, files: PublishVersionArgs['files']) {
+  await ctx.runMutation(internal.uploads.discardUnusedUploadsInternal, {
+    storageIds: files.map((file) => file.storageId),
+  })
+}
+
+async function previewLlmAnalysis(evalCtx: Omit<SkillEvalContext, 'injectionSignals'>) {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) return null
+  const model = getLlmEvalModel()
+  const evaluation = await requestLlmSecurityEval(
+    {
+      ...evalCtx,
+      injectionSignals: detectInjectionPatterns(
+        [evalCtx.skillMdContent, ...evalCtx.fileContents.map((file) => file.content)].join('\n'),
+      ),
+    },
+    { apiKey, model },
+  )
+  if (!evaluation.ok) {
+    return { status: 'error', summary: evaluation.error, model, checkedAt: Date.now() }
+  }
+  return toLlmAnalysis(evaluation.result, model)
+}
+
+/**
+ * Everything publish checks before anything is written: slug/semver/file validation,
+ * org access, ownership, duplicate versions, the new-skill rate limit, dependencies, the
+ * summary and (for new skills) the quality assessment.
+ * Shared by publish and its dry run, so a rejected quality gate is returned, not thrown.
+ */
+async function prepareSkillPublish(
+  ctx: ActionCtx,
+  userId: Id<'users'>,
+  args: PublishVersionArgs,
+  options: PublishOptions,
+) {
   const version = args.version.trim()
   const slug = args.slug.trim().toLowerCase()
   const displayName = args.displayName.trim()
   if (!slug || !displayName) throw new ConvexError('Slug and display name required')
-  if (!/^[a-z0-9][a-z0-9-]*$/.test(slug)) {
+  if (!SKILL_SLUG_PATTERN.test(slug)) {
     throw new ConvexError('Slug must be lowercase and url-safe')
   }
   if (!semver.valid(version)) {
@@ -97,6 +388,13 @@ export async function publishVersionForUser(
     slug,
   })) as Doc<'skills'> | null
   const isNewSkill = !existingSkill
+  const publishOrg = await resolvePublishOrg(ctx, userId, args.org, existingSkill)
+  await ctx.runQuery(internal.skills.checkPublishAllowedInternal, {
+    userId,
+    slug,
+    version,
+    bypassNewSkillRateLimit: options.bypassNewSkillRateLimit || undefined,
+  })
 
   const suppliedChangelog = args.changelog.trim()
   const changelogSource = suppliedChangelog ? ('user' as const) : ('auto' as const)
@@ -118,7 +416,7 @@ export async function publishVersionForUser(
   }
 
   const totalBytes = publishFiles.reduce((sum, file) => sum + file.size, 0)
-  if (totalBytes > MAX_TOTAL_BYTES) {
+  if (totalBytes > MAX_SKILL_BUNDLE_BYTES) {
     throw new ConvexError('Skill bundle exceeds 50MB limit')
   }
 
@@ -130,6 +428,16 @@ export async function publishVersionForUser(
   const readmeText = await fetchText(ctx, readmeFile.storageId)
   const frontmatter = parseFrontmatter(readmeText)
   const clawdis = parseClawdisMetadata(frontmatter)
+  const skillDependencies = clawdis?.requires?.skills ?? []
+  if (skillDependencies.length > 0) {
+    assertValidSkillDependencies(slug, skillDependencies)
+    const problems = (await ctx.runQuery(internal.skillDependencies.checkDependenciesInternal, {
+      dependencies: skillDependencies,
+      userId,
+      visibility: args.visibility ?? existingSkill?.visibility ?? 'public',
+    })) as string[]
+    if (problems.length > 0) throw new ConvexError(problems.join('; '))
+  }
   const owner = (await ctx.runQuery(internal.users.getByIdInternal, {
     userId,
   })) as Doc<'users'> | null
@@ -198,125 +506,56 @@ export async function publishVersionForUser(
       trustTier,
       similarRecentCount,
     })
-    if (qualityAssessment.decision === 'reject') {
-      throw new ConvexError(qualityAssessment.reason)
-    }
   }
 
-  const metadata = mergeSourceIntoMetadata(frontmatterMetadata, args.source, qualityAssessment)
-
-  const otherFiles = [] as Array<{ path: string; content: string }>
-  for (const file of publishFiles) {
-    if (!file.path || file.path.toLowerCase().endsWith('.md')) continue
-    if (!isTextFile(file.path, file.contentType ?? undefined)) continue
-    const content = await fetchText(ctx, file.storageId)
-    otherFiles.push({ path: file.path, content })
-    if (otherFiles.length >= MAX_FILES_FOR_EMBEDDING) break
-  }
-
-  const embeddingText = buildEmbeddingText({
-    frontmatter,
-    readme: readmeText,
-    otherFiles,
-  })
-
-  const fingerprintPromise = hashSkillFiles(
-    publishFiles.map((file) => ({ path: file.path, sha256: file.sha256 })),
-  )
-
-  const changelogPromise =
-    changelogSource === 'user'
-      ? Promise.resolve(suppliedChangelog)
-      : generateChangelogForPublish(ctx, {
-          slug,
-          version,
-          readmeText,
-          files: publishFiles.map((file) => ({ path: file.path, sha256: file.sha256 })),
-        })
-
-  const embeddingPromise = generateEmbedding(embeddingText)
-
-  const [fingerprint, changelogText, embedding] = await Promise.all([
-    fingerprintPromise,
-    changelogPromise,
-    embeddingPromise.catch((error) => {
-      throw new ConvexError(formatEmbeddingError(error))
-    }),
-  ])
-
-  const publishResult = (await ctx.runMutation(internal.skills.insertVersion, {
-    userId,
+  return {
     slug,
-    displayName,
     version,
-    changelog: changelogText,
+    displayName,
+    existingSkill,
+    publishOrg,
+    owner,
     changelogSource,
-    tags: args.tags?.map((tag) => tag.trim()).filter(Boolean),
-    fingerprint,
-    forkOf: args.forkOf
-      ? {
-          slug: args.forkOf.slug.trim().toLowerCase(),
-          version: args.forkOf.version?.trim() || undefined,
-        }
-      : undefined,
-    bypassNewSkillRateLimit: options.bypassNewSkillRateLimit || undefined,
-    files: publishFiles.map((file) => ({
-      ...file,
-      path: file.path,
-    })),
-    parsed: {
-      frontmatter,
-      metadata,
-      clawdis,
-    },
+    suppliedChangelog,
+    publishFiles,
+    readmeText,
+    frontmatter,
+    frontmatterMetadata,
+    clawdis,
     summary,
-    embedding,
-    qualityAssessment: qualityAssessment
-      ? {
-          decision: qualityAssessment.decision,
-          score: qualityAssessment.score,
-          reason: qualityAssessment.reason,
-          trustTier: qualityAssessment.trustTier,
-          similarRecentCount: qualityAssessment.similarRecentCount,
-          signals: qualityAssessment.signals,
-        }
-      : undefined,
-  })) as PublishResult
-
-  await ctx.scheduler.runAfter(0, internal.vt.scanWithVirusTotal, {
-    versionId: publishResult.versionId,
-  })
-
-  await ctx.scheduler.runAfter(0, internal.llmEval.evaluateWithLlm, {
-    versionId: publishResult.versionId,
-  })
-
-  const ownerHandle = owner?.handle ?? owner?.displayName ?? owner?.name ?? 'unknown'
-
-  if (!options.skipBackup) {
-    void ctx.scheduler
-      .runAfter(0, internal.githubBackupsNode.backupSkillForPublishInternal, {
-        slug,
-        version,
-        displayName,
-        ownerHandle,
-        files: publishFiles,
-        publishedAt: Date.now(),
-      })
-      .catch((error) => {
-        console.error('GitHub backup scheduling failed', error)
-      })
+    qualityAssessment,
   }
+}
 
-  if (!options.skipWebhook) {
-    void schedulePublishWebhook(ctx, {
-      slug,
-      version,
-      displayName,
-    })
+async function resolvePublishOrg(
+  ctx: ActionCtx,
+  userId: Id<'users'>,
+  orgHandle: string | undefined,
+  existingSkill: Doc<'skills'> | null,
+) {
+  const requested = orgHandle?.trim()
+  if (!requested && !existingSkill?.ownerOrgId) return null
+
+  const org = (
+    requested
+      ? await ctx.runQuery(internal.orgs.getByHandleInternal, { handle: requested })
+      : await ctx.runQuery(internal.orgs.getByIdInternal, {
+          orgId: existingSkill?.ownerOrgId as Id<'orgs'>,
+        })
+  ) as Doc<'orgs'> | null
+  if (!org) throw new ConvexError(requested ? `Org not found: ${requested}` : 'Org not found')
+  if (existingSkill && existingSkill.ownerOrgId !== org._id) {
+    throw new ConvexError(`Skill is not owned by @${org.handle}`)
   }
 
-  return publishResult
+  const membership = (await ctx.runQuery(internal.orgs.getMembershipInternal, {
+    orgId: org._id,
+    userId,
+  })) as Doc<'orgMembers'> | null
+  if (!canPublishForOrg(membership?.role)) {
+    throw new ConvexError(`Only owners and maintainers of @${org.handle} can publish`)
+  }
+  return org
 }
 
 function mergeSourceIntoMetadata(
@@ -386,6 +625,30 @@ export async function queueHighlightedWebhook(ctx: MutationCtx, skillId: Id<'ski
   })
 }
 
+/** SKILL.md plus the first text files, as embedded at publish and by the re-embed backfill. */
+export async function buildSkillEmbeddingText(
+  ctx: { storage: { get: (id: Id<'_storage'>) => Promise<Blob | null> } },
+  args: {
+    frontmatter: ParsedSkillFrontmatter
+    readmeText: string
+    files: Array<{ path: string; storageId: Id<'_storage'>; contentType?: string | null }>
+  },
+) {
+  const otherFiles = [] as Array<{ path: string; content: string }>
+  for (const file of args.files) {
+    if (!file.path || file.path.toLowerCase().endsWith('.md')) continue
+    if (!isTextFile(file.path, file.contentType ?? undefined)) continue
+    const content = await fetchText(ctx, file.storageId)
+    otherFiles.push({ path: file.path, content })
+    if (otherFiles.length >= MAX_FILES_FOR_EMBEDDING) break
+  }
+  return buildEmbeddingText({
+    frontmatter: args.frontmatter,
+    readme: args.readmeText,
+    otherFiles,
+  })
+}
+
 export async function fetchText(
   ctx: { storage: { get: (id: Id<'_storage'>) => Promise<Blob | null> } },
   storageId: Id<'_storage'>,
@@ -430,4 +693,8 @@ async function schedulePublishWebhook(
     event: 'skill.publish',
     skill: payload,
   })
+  await ctx.scheduler.runAfter(0, internal.webhooks.fanOutStarredVersionInternal, {
+    skillId: result.skill._id,
+    version: params.version,
+  })
 }
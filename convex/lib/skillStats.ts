@@ -53,11 +53,13 @@ export async function bumpDailySkillStats(
     now: number
     downloads?: number
     installs?: number
+    stars?: number
   },
 ) {
   const downloads = params.downloads ?? 0
   const installs = params.installs ?? 0
-  if (downloads === 0 && installs === 0) return
+  const stars = params.stars ?? 0
+  if (downloads === 0 && installs === 0 && stars === 0) return
 
   const day = toDayKey(params.now)
   const existing = await ctx.db
@@ -69,6 +71,7 @@ export async function bumpDailySkillStats(
     await ctx.db.patch(existing._id, {
       downloads: Math.max(0, existing.downloads + downloads),
       installs: Math.max(0, existing.installs + installs),
+      stars: Math.max(0, (existing.stars ?? 0) + stars),
       updatedAt: params.now,
     })
     return
@@ -79,6 +82,7 @@ export async function bumpDailySkillStats(
     day,
     downloads: Math.max(0, downloads),
     installs: Math.max(0, installs),
+    stars: Math.max(0, stars),
     updatedAt: params.now,
   })
 }
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { embeddingVisibilityFor } from './embeddingVisibility'
+import { canViewSkill, getSkillVisibility, isSkillListed } from './skillVisibility'
+
+type Row = Record<string, unknown>
+
+function makeCtx(tables: Record<string, Row[]>) {
+  return {
+    db: {
+      query: (table: string) => ({
+        withIndex: (_name: string, build: (q: unknown) => unknown) => {
+          const filters: Array<[string, unknown]> = []
+          const q = {
+            eq: (field: string, value: unknown) => {
+              filters.push([field, value])
+              return q
+            },
+          }
+          build(q)
+          const rows = () =>
+            (tables[table] ?? []).filter((row) =>
+              filters.every(([field, value]) => row[field] === value),
+            )
+          return {
+            unique: async () => rows()[0] ?? null,
+            take: async (limit: number) => rows().slice(0, limit),
+          }
+        },
+      }),
+    },
+  } as never
+}
+
+const privateSkill = {
+  _id: 'skills:1',
+  visibility: 'private',
+  ownerUserId: 'users:owner',
+  ownerOrgId: 'orgs:acme',
+} as never
+
+describe('skill visibility', () => {
+  it('treats skills without a visibility as public and listed', () => {
+    expect(getSkillVisibility({})).toBe('public')
+    expect(isSkillListed({})).toBe(true)
+    expect(isSkillListed({ visibility: 'unlisted' })).toBe(false)
+    expect(isSkillListed({ visibility: 'private' })).toBe(false)
+  })
+
+  it('keeps unlisted skills out of vector search', () => {
+    expect(embeddingVisibilityFor(true, true)).toBe('latest-approved')
+    expect(embeddingVisibilityFor(true, true, false)).toBe('unlisted')
+  })
+
+  it('lets owners, org members, and share grantees view private skills', async () => {
+    const ctx = makeCtx({
+      orgMembers: [
+        { orgId: 'orgs:acme', userId: 'users:member', role: 'member' },
+        { orgId: 'orgs:friends', userId: 'users:friend', role: 'member' },
+      ],
+      skillShares: [
+        { skillId: 'skills:1', userId: 'users:grantee' },
+        { skillId: 'skills:1', orgId: 'orgs:friends' },
+      ],
+    })
+
+    expect(await canViewSkill(ctx, privateSkill, 'users:owner' as never)).toBe(true)
+    expect(await canViewSkill(ctx, privateSkill, 'users:member' as never)).toBe(true)
+    expect(await canViewSkill(ctx, privateSkill, 'users:grantee' as never)).toBe(true)
+    expect(await canViewSkill(ctx, privateSkill, 'users:friend' as never)).toBe(true)
+    expect(await canViewSkill(ctx, privateSkill, 'users:stranger' as never)).toBe(false)
+    expect(await canViewSkill(ctx, privateSkill, null)).toBe(false)
+  })
+
+  it('lets anyone view unlisted skills by slug', async () => {
+    const ctx = makeCtx({})
+    const unlisted = { _id: 'skills:2', visibility: 'unlisted', ownerUserId: 'users:owner' }
+    expect(await canViewSkill(ctx, unlisted as never, null)).toBe(true)
+  })
+})
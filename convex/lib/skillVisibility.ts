@@ -0,0 +1,74 @@
+import { v } from 'convex/values'
+import type { Doc, Id } from '../_generated/dataModel'
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import { canPublishForOrg, getOrgMembership } from './orgs'
+
+export const SKILL_VISIBILITIES = ['public', 'unlisted', 'private'] as const
+export type SkillVisibility = (typeof SKILL_VISIBILITIES)[number]
+
+export const MAX_SKILL_SHARES = 100
+
+export const skillVisibilityValidator = v.union(
+  v.literal('public'),
+  v.literal('unlisted'),
+  v.literal('private'),
+)
+
+type VisibilitySkill = Pick<Doc<'skills'>, 'visibility'>
+
+export function isSkillVisibility(value: string): value is SkillVisibility {
+  return (SKILL_VISIBILITIES as readonly string[]).includes(value)
+}
+
+/** Skills published before visibility existed are public. */
+export function getSkillVisibility(skill: VisibilitySkill): SkillVisibility {
+  return skill.visibility ?? 'public'
+}
+
+/** Only public skills show up in listings, search, and profiles; unlisted ones need the link. */
+export function isSkillListed(skill: VisibilitySkill) {
+  return getSkillVisibility(skill) === 'public'
+}
+
+export async function canViewSkill(
+  ctx: QueryCtx | MutationCtx,
+  skill: Pick<Doc<'skills'>, '_id' | 'visibility' | 'ownerUserId' | 'ownerOrgId'>,
+  userId: Id<'users'> | null | undefined,
+) {
+  if (getSkillVisibility(skill) !== 'private') return true
+  if (!userId) return false
+  if (skill.ownerUserId === userId) return true
+  if (skill.ownerOrgId && (await getOrgMembership(ctx, skill.ownerOrgId, userId))) return true
+
+  const shares = await ctx.db
+    .query('skillShares')
+    .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+    .take(MAX_SKILL_SHARES)
+  for (const share of shares) {
+    if (share.userId === userId) return true
+    if (share.orgId && (await getOrgMembership(ctx, share.orgId, userId))) return true
+  }
+  return false
+}
+
+/** Publish rights on a skill: its owner, or an owner/maintainer of its org. */
+export async function canManageSkill(
+  ctx: QueryCtx | MutationCtx,
+  skill: Pick<Doc<'skills'>, 'ownerUserId' | 'ownerOrgId'>,
+  userId: Id<'users'>,
+) {
+  if (skill.ownerUserId === userId) return true
+  if (!skill.ownerOrgId) return false
+  const membership = await getOrgMembership(ctx, skill.ownerOrgId, userId)
+  return canPublishForOrg(membership?.role)
+}
+
+/** Visibility and share grants follow publish rights: the owner, or an org owner/maintainer. */
+export async function requireSkillAccessManager(
+  ctx: QueryCtx | MutationCtx,
+  skill: Pick<Doc<'skills'>, 'ownerUserId' | 'ownerOrgId'>,
+  userId: Id<'users'>,
+) {
+  if (await canManageSkill(ctx, skill, userId)) return
+  throw new Error('Only the owner can change who can see this skill')
+}
@@ -8,6 +8,7 @@ import {
   isTextFile,
   parseClawdisMetadata,
   parseFrontmatter,
+  parseSkillCategory,
   sanitizePath,
 } from './skills'
 
@@ -204,6 +205,13 @@ describe('skills utils', () => {
     ])
     expect(a).toBe(b)
   })
+
+  it('normalizes the category frontmatter into a slug', () => {
+    expect(parseSkillCategory({ category: '  Dev Ops / Infra ' })).toBe('dev-ops-infra')
+    expect(parseSkillCategory({ category: '!!!' })).toBeUndefined()
+    expect(parseSkillCategory({ category: ['devops'] })).toBeUndefined()
+    expect(parseSkillCategory({})).toBeUndefined()
+  })
 })
 
 describe('parseClawdisMetadata — env/deps/author/links (#350)', () => {
@@ -321,3 +329,38 @@ description: A simple skill
     expect(meta).toBeUndefined()
   })
 })
+
+describe('parseClawdisMetadata — requires.skills', () => {
+  it('parses slug, slug@range and object declarations', () => {
+    const frontmatter = parseFrontmatter(`---
+metadata:
+  openclaw:
+    requires:
+      skills:
+        - gh-cli
+        - Git-Helpers@^1.2.0
+        - slug: jq-tools
+          version: ">=2.0.0 <3"
+---`)
+    const meta = parseClawdisMetadata(frontmatter)
+    expect(meta?.requires?.skills).toEqual([
+      { slug: 'gh-cli' },
+      { slug: 'git-helpers', version: '^1.2.0' },
+      { slug: 'jq-tools', version: '>=2.0.0 <3' },
+    ])
+  })
+
+  it('drops malformed skill dependency entries', () => {
+    const frontmatter = parseFrontmatter(`---
+metadata:
+  openclaw:
+    requires:
+      skills:
+        - ""
+        - 42
+        - version: ^1.0.0
+---`)
+    const meta = parseClawdisMetadata(frontmatter)
+    expect(meta?.requires).toBeUndefined()
+  })
+})
@@ -2,16 +2,16 @@ import {
   type ClawdbotConfigSpec,
   type ClawdisSkillMetadata,
   ClawdisSkillMetadataSchema,
-  isTextContentType,
   type NixPluginSpec,
   parseArk,
+  parseSkillDependencyList,
   type SkillInstallSpec,
-  TEXT_FILE_EXTENSION_SET,
 } from 'clawhub-schema'
 import { parse as parseYaml } from 'yaml'
 
 export type ParsedSkillFrontmatter = Record<string, unknown>
 export type { ClawdisSkillMetadata, SkillInstallSpec }
+export { isMacJunkPath, isTextFile, sanitizeSkillPath as sanitizePath } from 'clawhub-schema'
 
 const FRONTMATTER_START = '---'
 const DEFAULT_EMBEDDING_MAX_CHARS = 12_000
@@ -44,6 +44,21 @@ export function getFrontmatterValue(frontmatter: ParsedSkillFrontmatter, key: st
   return typeof raw === 'string' ? raw : undefined
 }
 
+const MAX_CATEGORY_LENGTH = 32
+
+/** `category: Dev Ops` → `dev-ops`; undefined when missing or nothing usable is left. */
+export function parseSkillCategory(frontmatter: ParsedSkillFrontmatter) {
+  const raw = getFrontmatterValue(frontmatter, 'category')
+  const slug = raw
+    ?.trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_CATEGORY_LENGTH)
+    .replace(/-+$/, '')
+  return slug || undefined
+}
+
 export function getFrontmatterMetadata(frontmatter: ParsedSkillFrontmatter) {
   const raw = frontmatter.metadata
   if (!raw) return undefined
@@ -112,12 +127,17 @@ export function parseClawdisMetadata(frontmatter: ParsedSkillFrontmatter) {
       const anyBins = normalizeStringList(requiresRaw.anyBins)
       const env = normalizeStringList(requiresRaw.env)
       const config = normalizeStringList(requiresRaw.config)
-      if (bins.length || anyBins.length || env.length || config.length) {
+      const hosts = normalizeStringList(requiresRaw.hosts)
+      const skills = parseSkillDependencyList(requiresRaw.skills)
+      const declaresAny = [bins, anyBins, env, config, hosts, skills].some((list) => list.length)
+      if (declaresAny) {
         metadata.requires = {}
         if (bins.length) metadata.requires.bins = bins
         if (anyBins.length) metadata.requires.anyBins = anyBins
         if (env.length) metadata.requires.env = env
         if (config.length) metadata.requires.config = config
+        if (hosts.length) metadata.requires.hosts = hosts
+        if (skills.length) metadata.requires.skills = skills
       }
     }
 
@@ -146,42 +166,6 @@ export function parseClawdisMetadata(frontmatter: ParsedSkillFrontmatter) {
   }
 }
 
-export function isTextFile(path: string, contentType?: string | null) {
-  const trimmed = path.trim().toLowerCase()
-  if (!trimmed) return false
-  const parts = trimmed.split('.')
-  const extension = parts.length > 1 ? (parts.at(-1) ?? '') : ''
-  if (contentType) {
-    if (isTextContentType(contentType)) return true
-  }
-  if (extension && TEXT_FILE_EXTENSION_SET.has(extension)) return true
-  return false
-}
-
-export function isMacJunkPath(path: string) {
-  const normalized = path
-    .trim()
-    .replaceAll('\\', '/')
-    .replace(/^\/+/, '')
-    .toLowerCase()
-  if (!normalized) return false
-  const segments = normalized.split('/').filter(Boolean)
-  if (segments.length === 0) return false
-  if (segments.includes('__macosx')) return true
-  const basename = segments.at(-1) ?? ''
-  if (basename === '.ds_store') return true
-  if (basename.startsWith('._')) return true
-  return false
-}
-
-export function sanitizePath(path: string) {
-  const trimmed = path.trim().replace(/^\/+/, '')
-  if (!trimmed || trimmed.includes('..') || trimmed.includes('\\')) {
-    return null
-  }
-  return trimmed
-}
-
 export function buildEmbeddingText(params: {
   frontmatter: ParsedSkillFrontmatter
   readme: string
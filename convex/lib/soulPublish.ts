@@ -3,7 +3,7 @@ import semver from 'semver'
 import { internal } from '../_generated/api'
 import type { Doc, Id } from '../_generated/dataModel'
 import type { ActionCtx } from '../_generated/server'
-import { generateEmbedding } from './embeddings'
+import { generateStoredEmbeddings } from './embeddings'
 import { requireGitHubAccountAge } from './githubAccount'
 import {
   buildEmbeddingText,
@@ -150,9 +150,9 @@ export async function publishSoulVersionForUser(
           files: publishFiles.map((file) => ({ path: file.path, sha256: file.sha256 })),
         })
 
-  const embeddingPromise = generateEmbedding(embeddingText)
+  const embeddingPromise = generateStoredEmbeddings(embeddingText)
 
-  const [changelogText, embedding] = await Promise.all([
+  const [changelogText, embeddings] = await Promise.all([
     changelogPromise,
     embeddingPromise.catch((error) => {
       throw new ConvexError(formatEmbeddingError(error))
@@ -174,7 +174,7 @@ export async function publishSoulVersionForUser(
       metadata,
     },
     summary,
-    embedding,
+    ...embeddings,
   })) as PublishResult
 
   const owner = (await ctx.runQuery(internal.users.getByIdInternal, {
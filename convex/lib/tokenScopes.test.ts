@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_TOKEN_SCOPES,
+  hasTokenScope,
+  isMissingTokenScopeError,
+  normalizeTokenScopes,
+  requireTokenScope,
+} from './tokenScopes'
+
+describe('token scopes', () => {
+  it('normalizes and validates scope lists', () => {
+    expect(normalizeTokenScopes([' READ ', 'publish:acme-*', 'read'])).toEqual([
+      'read',
+      'publish:acme-*',
+    ])
+    expect(() => normalizeTokenScopes(['delete'])).toThrow('Invalid token scope "delete"')
+    expect(() => normalizeTokenScopes(['publish:'])).toThrow('Invalid token scope')
+    expect(() => normalizeTokenScopes(['publish:Bad/Slug'])).toThrow('Invalid token scope')
+    expect(() => normalizeTokenScopes([' '])).toThrow('Pick at least one token scope')
+  })
+
+  it('matches publish scopes against slug patterns', () => {
+    const scopes = ['publish:acme-*', 'publish:gifgrep']
+    expect(hasTokenScope(scopes, 'publish:acme-deploy')).toBe(true)
+    expect(hasTokenScope(scopes, 'publish:gifgrep')).toBe(true)
+    expect(hasTokenScope(scopes, 'publish:gifgrep-pro')).toBe(false)
+    expect(hasTokenScope(scopes, 'publish')).toBe(true)
+    expect(hasTokenScope(['read'], 'publish')).toBe(false)
+    expect(hasTokenScope(DEFAULT_TOKEN_SCOPES, 'publish:anything')).toBe(true)
+    expect(hasTokenScope(DEFAULT_TOKEN_SCOPES, 'admin')).toBe(false)
+  })
+
+  it('gives legacy tokens without scopes full access', () => {
+    expect(hasTokenScope(undefined, 'admin')).toBe(true)
+    expect(hasTokenScope(undefined, 'publish:demo')).toBe(true)
+  })
+
+  it('names the missing scope in the error', () => {
+    expect(() => requireTokenScope(['read'], 'star')).toThrow(
+      'Forbidden: token is missing the "star" scope',
+    )
+    expect(() => requireTokenScope(['read'], ['publish:demo', 'admin'])).toThrow(
+      'Forbidden: token is missing the "publish:demo" or "admin" scope',
+    )
+    expect(() => requireTokenScope(['admin'], ['publish:demo', 'admin'])).not.toThrow()
+
+    expect(() => requireTokenScope([], 'publish')).toThrow('"publish:<slug>"')
+
+    expect(isMissingTokenScopeError(new Error('Forbidden: token is missing the "star" scope'))).toBe(
+      true,
+    )
+    expect(isMissingTokenScopeError(new Error('Forbidden'))).toBe(false)
+  })
+})
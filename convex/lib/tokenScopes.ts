@@ -0,0 +1,103 @@
+export const TOKEN_SCOPE_NAMES = [
+  'read',
+  'publish',
+  'star',
+  'webhooks',
+  'notifications',
+  'telemetry',
+  'admin',
+] as const
+
+/** What a token may do: `publish:<pattern>` limits publish/delete to matching slugs (`*` globs). */
+export type ApiTokenScope =
+  | 'read'
+  | 'star'
+  | 'webhooks'
+  | 'notifications'
+  | 'telemetry'
+  | 'admin'
+  | `publish:${string}`
+
+/** `publish` alone (no slug) asks for any publish scope, e.g. to hand out an upload URL. */
+export type RequiredTokenScope = ApiTokenScope | 'publish'
+
+/** Granted when a token is created without an explicit list; `admin` is always opt-in. */
+export const DEFAULT_TOKEN_SCOPES: ApiTokenScope[] = [
+  'read',
+  'publish:*',
+  'star',
+  'webhooks',
+  'notifications',
+  'telemetry',
+]
+
+export const MAX_TOKEN_SCOPES = 20
+
+const SIMPLE_SCOPES = new Set(['read', 'star', 'webhooks', 'notifications', 'telemetry', 'admin'])
+const PUBLISH_PATTERN = /^[a-z0-9*][a-z0-9*-]{0,63}$/
+const MISSING_SCOPE_PREFIX = 'Forbidden: token is missing the '
+
+export function normalizeTokenScopes(raw: string[]): ApiTokenScope[] {
+  const scopes: ApiTokenScope[] = []
+  for (const entry of raw) {
+    const scope = entry.trim().toLowerCase()
+    if (!scope) continue
+    if (!isTokenScope(scope)) throw new Error(`Invalid token scope "${entry.trim()}"`)
+    if (!scopes.includes(scope)) scopes.push(scope)
+  }
+  if (scopes.length === 0) throw new Error('Pick at least one token scope')
+  if (scopes.length > MAX_TOKEN_SCOPES) {
+    throw new Error(`Too many token scopes (max ${MAX_TOKEN_SCOPES})`)
+  }
+  return scopes
+}
+
+export function isTokenScope(value: string): value is ApiTokenScope {
+  if (SIMPLE_SCOPES.has(value)) return true
+  if (!value.startsWith('publish:')) return false
+  return PUBLISH_PATTERN.test(value.slice('publish:'.length))
+}
+
+/** Tokens minted before scopes existed carry no list and keep full access until revoked. */
+export function hasTokenScope(
+  scopes: readonly string[] | undefined,
+  required: RequiredTokenScope,
+) {
+  if (!scopes) return true
+  if (required === 'publish') return scopes.some((scope) => scope.startsWith('publish:'))
+  if (!required.startsWith('publish:')) return scopes.includes(required)
+
+  const slug = required.slice('publish:'.length)
+  return scopes.some(
+    (scope) => scope.startsWith('publish:') && matchesSlugPattern(scope.slice(8), slug),
+  )
+}
+
+/** Throws a `Forbidden` error naming the scope when none of `required` is granted. */
+export function requireTokenScope(
+  scopes: readonly string[] | undefined,
+  required: RequiredTokenScope | RequiredTokenScope[],
+) {
+  const options = Array.isArray(required) ? required : [required]
+  if (options.some((scope) => hasTokenScope(scopes, scope))) return
+  throw new Error(formatMissingScope(options))
+}
+
+export function isMissingTokenScopeError(error: unknown): error is Error {
+  return error instanceof Error && error.message.startsWith(MISSING_SCOPE_PREFIX)
+}
+
+function formatMissingScope(options: RequiredTokenScope[]) {
+  const names = options.map((scope) => `"${scope === 'publish' ? 'publish:<slug>' : scope}"`)
+  return `${MISSING_SCOPE_PREFIX}${names.join(' or ')} scope`
+}
+
+function matchesSlugPattern(pattern: string, slug: string) {
+  if (pattern === '*') return true
+  if (!pattern.includes('*')) return pattern === slug
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`).test(slug)
+}
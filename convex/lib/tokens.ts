@@ -8,6 +8,12 @@ export async function hashToken(token: string) {
   return toHex(new Uint8Array(digest))
 }
 
+/** Revoked and expired tokens are rejected everywhere; expiry is optional. */
+export function isApiTokenActive(token: { revokedAt?: number; expiresAt?: number }, now: number) {
+  if (token.revokedAt) return false
+  return token.expiresAt === undefined || token.expiresAt > now
+}
+
 export function generateToken() {
   const bytes = new Uint8Array(32)
   crypto.getRandomValues(bytes)
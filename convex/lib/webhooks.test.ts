@@ -1,6 +1,20 @@
 /* @vitest-environment node */
+import { createHmac } from 'node:crypto'
 import { afterEach, describe, expect, it } from 'vitest'
-import { buildDiscordPayload, buildSkillUrl, getWebhookConfig, shouldSendWebhook } from './webhooks'
+import {
+  buildDiscordPayload,
+  buildSkillUrl,
+  buildWebhookBody,
+  didModerationChange,
+  getWebhookConfig,
+  isPrivateWebhookHost,
+  MAX_WEBHOOK_ATTEMPTS,
+  nextWebhookRetryAt,
+  normalizeWebhookEvents,
+  normalizeWebhookUrl,
+  shouldSendWebhook,
+  signWebhookPayload,
+} from './webhooks'
 
 const originalEnv = { ...process.env }
 
@@ -89,3 +103,71 @@ describe('payload building', () => {
     expect(embed.fields[0].value).toBe('v1.2.3')
   })
 })
+
+describe('user webhooks', () => {
+  it('accepts public https urls only', () => {
+    expect(normalizeWebhookUrl(' https://hooks.example/x ')).toBe('https://hooks.example/x')
+    expect(normalizeWebhookUrl('https://93.184.216.34/hook')).toBe('https://93.184.216.34/hook')
+    expect(() => normalizeWebhookUrl('http://hooks.example/x')).toThrow('must use https')
+    expect(() => normalizeWebhookUrl('http://127.0.0.1:8787/hook')).toThrow('must use https')
+    expect(() => normalizeWebhookUrl('https://user:pw@hooks.example')).toThrow('credentials')
+    expect(() => normalizeWebhookUrl('nope')).toThrow('Invalid webhook URL')
+  })
+
+  it('rejects loopback, private and link-local hosts', () => {
+    for (const url of [
+      'https://localhost/x',
+      'https://api.localhost/x',
+      'https://127.0.0.1/x',
+      'https://0x7f.1/x',
+      'https://0.0.0.0/x',
+      'https://10.1.2.3/x',
+      'https://172.20.0.1/x',
+      'https://192.168.1.10/x',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::1]/x',
+      'https://[::ffff:127.0.0.1]/x',
+      'https://[fd12::1]/x',
+      'https://[fe80::1]/x',
+    ]) {
+      expect(() => normalizeWebhookUrl(url), url).toThrow('private or local address')
+    }
+    expect(isPrivateWebhookHost('172.32.0.1')).toBe(false)
+    expect(isPrivateWebhookHost('[2606:4700::1111]')).toBe(false)
+    expect(isPrivateWebhookHost('[fc0::1]')).toBe(false)
+  })
+
+  it('normalizes event subscriptions', () => {
+    expect(normalizeWebhookEvents(['skill.comment', 'starred.version', 'skill.comment'])).toEqual([
+      'starred.version',
+      'skill.comment',
+    ])
+    expect(() => normalizeWebhookEvents(['skill.deleted'])).toThrow('Unknown webhook event')
+    expect(() => normalizeWebhookEvents([])).toThrow('at least one')
+  })
+
+  it('signs timestamp and body with HMAC-SHA256', async () => {
+    const body = buildWebhookBody('webhook.test', { ok: true }, 1)
+    const signature = await signWebhookPayload('whsec_test', 1700000000000, body)
+    const expected = createHmac('sha256', 'whsec_test')
+      .update(`1700000000000.${body}`)
+      .digest('hex')
+    expect(signature).toBe(`sha256=${expected}`)
+  })
+
+  it('backs off between attempts and gives up after the last one', () => {
+    const now = 1_000
+    expect(nextWebhookRetryAt(1, now)).toBe(now + 5 * 60_000)
+    expect(nextWebhookRetryAt(2, now)).toBe(now + 15 * 60_000)
+    expect(nextWebhookRetryAt(MAX_WEBHOOK_ATTEMPTS - 1, now)).toBe(now + 12 * 60 * 60_000)
+    expect(nextWebhookRetryAt(MAX_WEBHOOK_ATTEMPTS, now)).toBeNull()
+  })
+
+  it('detects moderation changes', () => {
+    const before = { moderationStatus: 'active' as const, moderationFlags: ['flagged.suspicious'] }
+    expect(didModerationChange(before, { ...before })).toBe(false)
+    expect(didModerationChange(before, { ...before, moderationStatus: 'hidden' })).toBe(true)
+    expect(didModerationChange(before, { ...before, moderationFlags: undefined })).toBe(true)
+    expect(didModerationChange({}, { moderationStatus: 'active' })).toBe(false)
+  })
+})
@@ -1,3 +1,8 @@
+import { internal } from '../_generated/api'
+import type { Doc, Id } from '../_generated/dataModel'
+import type { MutationCtx } from '../_generated/server'
+import { queueNotification } from './notifications'
+
 export type WebhookEvent = 'skill.publish' | 'skill.highlighted'
 
 export type WebhookSkillPayload = {
@@ -18,6 +23,31 @@ export type WebhookConfig = {
 
 const DEFAULT_SITE_URL = 'https://clawhub.ai'
 
+// User-registered endpoints (settings page + /api/v1/webhooks).
+export const USER_WEBHOOK_EVENTS = [
+  'starred.version',
+  'skill.moderation',
+  'skill.comment',
+  'skill.verdict',
+  'comment.mention',
+] as const
+export type UserWebhookEvent = (typeof USER_WEBHOOK_EVENTS)[number]
+export const WEBHOOK_TEST_EVENT = 'webhook.test'
+
+export const MAX_WEBHOOK_ENDPOINTS_PER_USER = 10
+export const MAX_WEBHOOK_ATTEMPTS = 6
+export const WEBHOOK_DELIVERY_TIMEOUT_MS = 10_000
+// Retry delays after attempt 1..5; attempt 6 is final.
+const WEBHOOK_RETRY_DELAYS_MS = [
+  5 * 60_000,
+  15 * 60_000,
+  60 * 60_000,
+  4 * 60 * 60_000,
+  12 * 60 * 60_000,
+]
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal']
+const encoder = new TextEncoder()
+
 export function getWebhookConfig(env: NodeJS.ProcessEnv = process.env): WebhookConfig {
   const url = env.DISCORD_WEBHOOK_URL?.trim() || null
   const highlightedOnly = parseBoolean(env.DISCORD_WEBHOOK_HIGHLIGHTED_ONLY)
@@ -110,3 +140,195 @@ function truncate(value: string, max: number) {
   if (value.length <= max) return value
   return `${value.slice(0, max - 1).trim()}…`
 }
+
+export function isUserWebhookEvent(value: string): value is UserWebhookEvent {
+  return (USER_WEBHOOK_EVENTS as readonly string[]).includes(value)
+}
+
+export function normalizeWebhookEvents(events: string[]) {
+  const normalized = new Set<UserWebhookEvent>()
+  for (const raw of events) {
+    const event = raw.trim()
+    if (!isUserWebhookEvent(event)) throw new Error(`Unknown webhook event: ${event}`)
+    normalized.add(event)
+  }
+  if (normalized.size === 0) throw new Error('Select at least one webhook event')
+  return USER_WEBHOOK_EVENTS.filter((event) => normalized.has(event))
+}
+
+/** https only, and never to loopback, private or link-local hosts. */
+export function normalizeWebhookUrl(raw: string) {
+  let url: URL
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    throw new Error('Invalid webhook URL')
+  }
+  if (url.protocol !== 'https:') throw new Error('Webhook URL must use https')
+  if (url.username || url.password) throw new Error('Webhook URL must not contain credentials')
+  if (isPrivateWebhookHost(url.hostname)) {
+    throw new Error('Webhook URL must not point to a private or local address')
+  }
+  return url.toString()
+}
+
+/**
+ * Literal-address check on a URL hostname (as normalized by `new URL`, so IPv4 shorthand like
+ * `0x7f.1` is already dotted and IPv6 is bracketed). Names are not resolved.
+ */
+export function isPrivateWebhookHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  if (host === 'localhost' || PRIVATE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return true
+  }
+  if (host.startsWith('[') && host.endsWith(']')) return isPrivateIpv6(host.slice(1, -1))
+  const ipv4 = parseIpv4(host)
+  return ipv4 ? isPrivateIpv4(ipv4) : false
+}
+
+function parseIpv4(host: string) {
+  const parts = host.split('.')
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null
+  const octets = parts.map(Number)
+  return octets.every((octet) => octet <= 255) ? octets : null
+}
+
+function isPrivateIpv4([a = 0, b = 0]: number[]) {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  )
+}
+
+function isPrivateIpv6(address: string) {
+  if (address === '::' || address === '::1') return true
+  // IPv4-mapped (`::ffff:7f00:1`) inherits the IPv4 verdict.
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(address)
+  if (mapped) {
+    const high = Number.parseInt(mapped[1] ?? '0', 16)
+    const low = Number.parseInt(mapped[2] ?? '0', 16)
+    return isPrivateIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff])
+  }
+  // fc00::/7 unique-local, fe80::/10 link-local, ff00::/8 multicast.
+  const first = Number.parseInt(address.split(':')[0] || '0', 16)
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || first >= 0xff00
+}
+
+export function generateWebhookSecret() {
+  const bytes = new Uint8Array(24)
+  crypto.getRandomValues(bytes)
+  return `whsec_${toHex(bytes)}`
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex encoded. Receivers recompute it
+ * from the `X-ClawHub-Timestamp` header and the raw request body.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return `sha256=${toHex(new Uint8Array(signature))}`
+}
+
+export function buildWebhookHeaders(params: {
+  event: string
+  deliveryId: string
+  timestamp: number
+  signature: string
+}) {
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'ClawHub-Webhooks/1',
+    'X-ClawHub-Event': params.event,
+    'X-ClawHub-Delivery': params.deliveryId,
+    'X-ClawHub-Timestamp': String(params.timestamp),
+    'X-ClawHub-Signature': params.signature,
+  }
+}
+
+export function buildWebhookBody(event: string, data: unknown, createdAt: number) {
+  return JSON.stringify({ event, createdAt, data })
+}
+
+/** Returns when to retry after `attempts` failed deliveries, or null to give up. */
+export function nextWebhookRetryAt(attempts: number, now: number) {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) return null
+  const delay =
+    WEBHOOK_RETRY_DELAYS_MS[Math.max(0, attempts - 1)] ?? WEBHOOK_RETRY_DELAYS_MS.at(-1) ?? 0
+  return now + delay
+}
+
+type ModerationSnapshot = Pick<
+  Doc<'skills'>,
+  'moderationStatus' | 'moderationReason' | 'moderationFlags'
+>
+
+export function summarizeModeration(skill: ModerationSnapshot) {
+  return {
+    status: skill.moderationStatus ?? 'active',
+    reason: skill.moderationReason ?? null,
+    flags: skill.moderationFlags ?? [],
+  }
+}
+
+export function didModerationChange(before: ModerationSnapshot, after: ModerationSnapshot) {
+  const prev = summarizeModeration(before)
+  const next = summarizeModeration(after)
+  return (
+    prev.status !== next.status ||
+    prev.reason !== next.reason ||
+    prev.flags.join(',') !== next.flags.join(',')
+  )
+}
+
+export async function queueUserWebhookEvent(
+  ctx: Pick<MutationCtx, 'scheduler'>,
+  params: { userId: Id<'users'>; event: UserWebhookEvent; data: Record<string, unknown> },
+) {
+  await ctx.scheduler.runAfter(0, internal.webhooks.enqueueUserEventInternal, params)
+}
+
+export async function buildWebhookSkillRef(ctx: Pick<MutationCtx, 'db'>, skill: Doc<'skills'>) {
+  const owner = await ctx.db.get(skill.ownerUserId)
+  const ownerHandle = owner?.handle ?? owner?.name ?? undefined
+  const { siteUrl } = getWebhookConfig()
+  return {
+    slug: skill.slug,
+    displayName: skill.displayName,
+    ownerHandle: ownerHandle ?? null,
+    url: buildSkillUrl({ slug: skill.slug, displayName: skill.displayName, ownerHandle }, siteUrl),
+  }
+}
+
+export async function queueModerationWebhook(
+  ctx: Pick<MutationCtx, 'db' | 'scheduler'>,
+  before: Doc<'skills'>,
+  after: Doc<'skills'>,
+) {
+  if (!didModerationChange(before, after)) return
+  const data = {
+    skill: await buildWebhookSkillRef(ctx, after),
+    moderation: summarizeModeration(after),
+    previous: summarizeModeration(before),
+  }
+  await queueUserWebhookEvent(ctx, { userId: after.ownerUserId, event: 'skill.moderation', data })
+  await queueNotification(ctx, { userId: after.ownerUserId, kind: 'skill.moderation', data })
+}
+
+function toHex(bytes: Uint8Array) {
+  let out = ''
+  for (const byte of bytes) out += byte.toString(16).padStart(2, '0')
+  return out
+}
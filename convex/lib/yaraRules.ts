@@ -0,0 +1,304 @@
+import { v } from 'convex/values'
+import type {
+  ScanBundle,
+  ScanContext,
+  ScanFinding,
+  ScanOutcome,
+  SkillScanner,
+} from './scanners'
+
+/**
+ * A YARA-style rule: named strings plus a condition over how many of them must appear
+ * in the same file. Strings use YARA notation: `/regex/flags` is a regular expression
+ * (add `i` for `nocase`), anything else is a case-sensitive literal. Rules are plain
+ * data so rulesets can be stored and edited from the management console.
+ */
+export type YaraRule = {
+  id: string
+  description: string
+  severity: 'suspicious' | 'malicious'
+  /** Moderation flag added to the skill when the rule matches (e.g. `suspicious.exec_pipe`). */
+  flag?: string
+  /** `skill_md` limits the rule to SKILL.md; defaults to every text file. */
+  scope?: 'all' | 'skill_md'
+  strings: Record<string, string>
+  condition: 'any' | 'all' | { atLeast: number }
+}
+
+export type YaraRuleset = {
+  /** 0 is the built-in default; stored rulesets count up from 1. */
+  version: number
+  rules: YaraRule[]
+}
+
+export const yaraRuleValidator = v.object({
+  id: v.string(),
+  description: v.string(),
+  severity: v.union(v.literal('suspicious'), v.literal('malicious')),
+  flag: v.optional(v.string()),
+  scope: v.optional(v.union(v.literal('all'), v.literal('skill_md'))),
+  strings: v.record(v.string(), v.string()),
+  condition: v.union(v.literal('any'), v.literal('all'), v.object({ atLeast: v.number() })),
+})
+
+const MAX_EXCERPT_LENGTH = 160
+const MAX_RULES = 200
+const MAX_STRINGS_PER_RULE = 20
+const RULE_ID_PATTERN = /^[a-z][a-z0-9_]{0,63}$/
+const FLAG_PATTERN = /^suspicious\.[a-z][a-z0-9_]{0,63}$/
+
+// Keep these narrow: a match on a `malicious` rule blocks downloads until a moderator
+// reviews the skill, and `suspicious` ones flag it publicly.
+export const DEFAULT_YARA_RULES: YaraRule[] = [
+  {
+    id: 'reverse_shell',
+    description: 'Opens an interactive shell over a network socket',
+    severity: 'malicious',
+    strings: {
+      devTcp: '/\\b(?:ba)?sh\\s+-i\\s*>&\\s*\\/dev\\/(?:tcp|udp)\\//',
+      netcatExec: '/\\bnc(?:at)?\\b[^\\n]*\\s-e\\s+\\/bin\\/(?:ba)?sh\\b/',
+    },
+    condition: 'any',
+  },
+  {
+    id: 'crypto_miner',
+    description: 'Connects to a cryptocurrency mining pool',
+    severity: 'malicious',
+    strings: {
+      stratum: '/stratum\\+(?:tcp|ssl):\\/\\//i',
+      donateLevel: '--donate-level',
+    },
+    condition: 'any',
+  },
+  {
+    id: 'pipe_to_shell',
+    description: 'Pipes a downloaded script straight into a shell',
+    severity: 'suspicious',
+    flag: 'suspicious.exec_pipe',
+    strings: {
+      curlSh: '/\\b(?:curl|wget)\\b[^\\n|]*\\|\\s*(?:sudo\\s+)?(?:ba|z)?sh\\b/i',
+      iwrIex:
+        '/\\b(?:iwr|irm|Invoke-(?:WebRequest|RestMethod))\\b[^\\n|]*\\|\\s*(?:iex|Invoke-Expression)\\b/i',
+    },
+    condition: 'any',
+  },
+  {
+    id: 'encoded_exec',
+    description: 'Decodes base64 and executes the result',
+    severity: 'suspicious',
+    flag: 'suspicious.encoded_exec',
+    strings: {
+      base64Shell: '/base64\\s+(?:-d|--decode|-D)\\b[^\\n|]*\\|\\s*(?:sudo\\s+)?(?:ba|z)?sh\\b/i',
+      jsEval: '/\\b(?:eval|Function)\\s*\\(\\s*(?:atob|Buffer\\.from)\\s*\\(/',
+      pyExec: '/\\bexec\\s*\\(\\s*(?:base64\\.b64decode|codecs\\.decode)\\s*\\(/',
+      psEncoded:
+        '/\\bpowershell(?:\\.exe)?\\b[^\\n]*\\s-(?:e|enc|encodedcommand)\\s+[A-Za-z0-9+/=]{20,}/i',
+    },
+    condition: 'any',
+  },
+  {
+    id: 'credential_access',
+    description: 'Reads SSH keys, cloud credentials or browser password stores',
+    severity: 'suspicious',
+    flag: 'suspicious.credential_access',
+    strings: {
+      sshKeys: '/\\.ssh\\/(?:id_(?:rsa|ed25519|ecdsa|dsa)\\b|authorized_keys)/',
+      cloudCredentials: '/\\.(?:aws\\/credentials|config\\/gcloud\\/credentials|kube\\/config)\\b/',
+      browserStores: '/\\b(?:Login Data|logins\\.json|key4\\.db|cookies\\.sqlite)\\b/',
+      keychain: '/\\bsecurity\\s+find-(?:generic|internet)-password\\b/',
+    },
+    condition: 'any',
+  },
+  {
+    id: 'obfuscated_url',
+    description: 'Hides a URL behind encoding or a misleading host',
+    severity: 'suspicious',
+    flag: 'suspicious.obfuscated_url',
+    strings: {
+      base64Url: '/aHR0cHM6Ly[A-Za-z0-9+/=]{8,}|aHR0cDovL[A-Za-z0-9+/=]{8,}/',
+      numericHost: '/https?:\\/\\/(?:0x[0-9a-f]{8}|\\d{8,10})(?=[:/?#\\s]|$)/i',
+      userinfoHost: '/https?:\\/\\/[a-z0-9-]+(?:\\.[a-z0-9-]+)*\\.[a-z]{2,}@[^\\s/]+/i',
+      hexEscapes: '/(?:\\\\x68\\\\x74\\\\x74\\\\x70|%68%74%74%70)/i',
+    },
+    condition: 'any',
+  },
+  {
+    id: 'prompt_injection',
+    description: 'Tries to override the agent instructions',
+    severity: 'suspicious',
+    flag: 'suspicious.prompt_injection',
+    scope: 'skill_md',
+    strings: {
+      ignorePrevious: '/ignore\\s+(?:all\\s+)?(?:previous|prior|above)\\s+instructions/i',
+      systemOverride: '/system\\s*prompt\\s*[:=]/i',
+      disregardRules: '/disregard\\s+(?:your|all|the)\\s+(?:rules|guidelines|instructions)/i',
+      hiddenControl: '/[\\u202A-\\u202E\\u2066-\\u2069]/',
+    },
+    condition: 'any',
+  },
+]
+
+export const DEFAULT_YARA_RULESET: YaraRuleset = { version: 0, rules: DEFAULT_YARA_RULES }
+
+const compiledPatterns = new Map<string, string | RegExp>()
+
+/** `/body/flags` becomes a RegExp (global and sticky flags are dropped); the rest is literal. */
+export function compileYaraString(value: string): string | RegExp {
+  const cached = compiledPatterns.get(value)
+  if (cached !== undefined) return cached
+  const match = value.match(/^\/([\s\S]+)\/([a-z]*)$/)
+  const compiled = match ? new RegExp(match[1], match[2].replace(/[gy]/g, '')) : value
+  compiledPatterns.set(value, compiled)
+  return compiled
+}
+
+/**
+ * Checks an untrusted ruleset (from the management console) and returns it typed.
+ * Throws with the offending rule id so editors can fix it.
+ */
+export function parseYaraRules(input: unknown): YaraRule[] {
+  if (!Array.isArray(input)) throw new Error('Ruleset must be a JSON array of rules')
+  if (input.length > MAX_RULES) throw new Error(`Ruleset is limited to ${MAX_RULES} rules`)
+  const seen = new Set<string>()
+  return input.map((raw, index) => {
+    if (!raw || typeof raw !== 'object') throw new Error(`Rule ${index + 1} must be an object`)
+    const rule = raw as Record<string, unknown>
+    const id = typeof rule.id === 'string' ? rule.id : ''
+    const label = id || `#${index + 1}`
+    if (!RULE_ID_PATTERN.test(id)) throw new Error(`Rule ${label}: id must be snake_case`)
+    if (seen.has(id)) throw new Error(`Rule ${label}: duplicate id`)
+    seen.add(id)
+    if (typeof rule.description !== 'string' || !rule.description.trim()) {
+      throw new Error(`Rule ${label}: description is required`)
+    }
+    if (rule.severity !== 'suspicious' && rule.severity !== 'malicious') {
+      throw new Error(`Rule ${label}: severity must be suspicious or malicious`)
+    }
+    const flag = rule.flag
+    if (flag !== undefined && (typeof flag !== 'string' || !FLAG_PATTERN.test(flag))) {
+      throw new Error(`Rule ${label}: flag must look like suspicious.<name>`)
+    }
+    if (rule.scope !== undefined && rule.scope !== 'all' && rule.scope !== 'skill_md') {
+      throw new Error(`Rule ${label}: scope must be all or skill_md`)
+    }
+    const strings = rule.strings
+    if (!strings || typeof strings !== 'object' || Array.isArray(strings)) {
+      throw new Error(`Rule ${label}: strings must be an object of name → pattern`)
+    }
+    const entries = Object.entries(strings as Record<string, unknown>)
+    if (entries.length === 0 || entries.length > MAX_STRINGS_PER_RULE) {
+      throw new Error(`Rule ${label}: needs 1-${MAX_STRINGS_PER_RULE} strings`)
+    }
+    for (const [name, pattern] of entries) {
+      if (typeof pattern !== 'string' || !pattern) {
+        throw new Error(`Rule ${label}: string ${name} must be a non-empty string`)
+      }
+      try {
+        compileYaraString(pattern)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(`Rule ${label}: string ${name} is not a valid regex (${message})`, {
+          cause: error,
+        })
+      }
+    }
+    const condition = rule.condition
+    const atLeast =
+      condition && typeof condition === 'object'
+        ? (condition as { atLeast?: unknown }).atLeast
+        : undefined
+    const validCondition =
+      condition === 'any' ||
+      condition === 'all' ||
+      (typeof atLeast === 'number' && Number.isInteger(atLeast) && atLeast >= 1)
+    if (!validCondition) {
+      throw new Error(`Rule ${label}: condition must be "any", "all" or { "atLeast": n }`)
+    }
+    return {
+      id,
+      description: rule.description.trim(),
+      severity: rule.severity,
+      ...(rule.flag ? { flag: rule.flag as string } : {}),
+      ...(rule.scope ? { scope: rule.scope as YaraRule['scope'] } : {}),
+      strings: Object.fromEntries(entries) as Record<string, string>,
+      condition: typeof atLeast === 'number' ? { atLeast } : (condition as 'any' | 'all'),
+    }
+  })
+}
+
+function firstMatchIndex(text: string, pattern: string | RegExp) {
+  if (typeof pattern === 'string') return text.indexOf(pattern)
+  return text.search(pattern)
+}
+
+function conditionMet(condition: YaraRule['condition'], matched: number, total: number) {
+  if (condition === 'any') return matched > 0
+  if (condition === 'all') return matched === total
+  return matched >= condition.atLeast
+}
+
+function isSkillMd(path: string) {
+  const lower = path.toLowerCase()
+  return lower === 'skill.md' || lower === 'skills.md'
+}
+
+function lineAt(text: string, index: number) {
+  const start = text.lastIndexOf('\n', index - 1) + 1
+  const end = text.indexOf('\n', index)
+  let line = 1
+  for (let i = 0; i < start; i++) if (text.charCodeAt(i) === 10) line++
+  const excerpt = text.slice(start, end === -1 ? undefined : end).trim()
+  return { line, excerpt: excerpt.slice(0, MAX_EXCERPT_LENGTH) }
+}
+
+/** One finding per rule and file, located at the earliest matching string. */
+export function matchYaraRules(rules: YaraRule[], files: ScanBundle['files']): ScanFinding[] {
+  const findings: ScanFinding[] = []
+  for (const file of files) {
+    for (const rule of rules) {
+      if (rule.scope === 'skill_md' && !isSkillMd(file.path)) continue
+      const patterns = Object.values(rule.strings).map(compileYaraString)
+      let matched = 0
+      let earliest = -1
+      for (const pattern of patterns) {
+        const index = firstMatchIndex(file.text, pattern)
+        if (index === -1) continue
+        matched++
+        if (earliest === -1 || index < earliest) earliest = index
+      }
+      if (!conditionMet(rule.condition, matched, patterns.length)) continue
+      const { line, excerpt } = lineAt(file.text, earliest)
+      findings.push({
+        ruleId: rule.id,
+        severity: rule.severity,
+        message: rule.description,
+        ...(rule.flag ? { flag: rule.flag } : {}),
+        file: file.path,
+        line,
+        excerpt,
+      })
+    }
+  }
+  return findings
+}
+
+export function scanWithYaraRules(rules: YaraRule[], bundle: ScanBundle): ScanOutcome {
+  const findings = matchYaraRules(rules, bundle.files)
+  if (findings.length === 0) return { verdict: 'clean', summary: 'No rules matched', findings }
+  const verdict = findings.some((finding) => finding.severity === 'malicious')
+    ? 'malicious'
+    : 'suspicious'
+  const ruleIds = Array.from(new Set(findings.map((finding) => finding.ruleId)))
+  return { verdict, summary: `Matched ${ruleIds.join(', ')}`, findings }
+}
+
+export const yaraScanner: SkillScanner = {
+  id: 'yara',
+  label: 'Rule scan',
+  kind: 'local',
+  enforce: true,
+  scan: (bundle: ScanBundle, context: ScanContext) => ({
+    ...scanWithYaraRules(context.ruleset.rules, bundle),
+    rulesetVersion: context.ruleset.version,
+  }),
+}
@@ -9,34 +9,11 @@ import {
   getCommentScamEvalModel,
   parseCommentScamEvalResponse,
 } from './lib/commentScamPrompt'
+import { requestLlmSecurityEval, toLlmAnalysis } from './lib/llmSecurityEval'
 import type { SkillEvalContext } from './lib/securityPrompt'
-import {
-  assembleEvalUserMessage,
-  detectInjectionPatterns,
-  getLlmEvalModel,
-  LLM_EVAL_MAX_OUTPUT_TOKENS,
-  parseLlmEvalResponse,
-  SECURITY_EVALUATOR_SYSTEM_PROMPT,
-} from './lib/securityPrompt'
+import { detectInjectionPatterns, getLlmEvalModel } from './lib/securityPrompt'
 import { extractResponseText } from './lib/openaiResponse'
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function verdictToStatus(verdict: string): string {
-  switch (verdict) {
-    case 'benign':
-      return 'clean'
-    case 'malicious':
-      return 'malicious'
-    case 'suspicious':
-      return 'suspicious'
-    default:
-      return 'pending'
-  }
-}
-
 // ---------------------------------------------------------------------------
 // Publish-time evaluation action
 // ---------------------------------------------------------------------------
@@ -146,92 +123,18 @@ export const evaluateWithLlm = internalAction({
       injectionSignals,
     }
 
-    // 6. Assemble user message
-    const userMessage = assembleEvalUserMessage(evalCtx)
-
     // 7. Call OpenAI Responses API (with retry for rate limits)
-    const MAX_RETRIES = 3
-    let raw: string | null = null
-    try {
-      const body = JSON.stringify({
-        model,
-        instructions: SECURITY_EVALUATOR_SYSTEM_PROMPT,
-        input: userMessage,
-        max_output_tokens: LLM_EVAL_MAX_OUTPUT_TOKENS,
-        text: {
-          format: {
-            type: 'json_object',
-          },
-        },
-      })
-
-      let response: Response | null = null
-      for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-        response = await fetch('https://api.openai.com/v1/responses', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body,
-        })
-
-        if (response.status === 429 || response.status >= 500) {
-          if (attempt < MAX_RETRIES) {
-            const delay = 2 ** attempt * 2000 + Math.random() * 1000
-            console.log(
-              `[llmEval] Rate limited (${response.status}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`,
-            )
-            await new Promise((r) => setTimeout(r, delay))
-            continue
-          }
-        }
-        break
-      }
-
-      if (!response || !response.ok) {
-        const errorText = response ? await response.text() : 'No response'
-        await storeError(`OpenAI API error (${response?.status}): ${errorText.slice(0, 200)}`)
-        return
-      }
-
-      const payload = (await response.json()) as unknown
-      raw = extractResponseText(payload)
-    } catch (error) {
-      await storeError(
-        `OpenAI API call failed: ${error instanceof Error ? error.message : String(error)}`,
-      )
-      return
-    }
-
-    if (!raw) {
-      await storeError('Empty response from OpenAI')
-      return
-    }
-
-    // 8. Parse response
-    const result = parseLlmEvalResponse(raw)
-
-    if (!result) {
-      console.error(`[llmEval] Raw response (first 500 chars): ${raw.slice(0, 500)}`)
-      await storeError('Failed to parse LLM evaluation response')
+    const evaluation = await requestLlmSecurityEval(evalCtx, { apiKey, model })
+    if (!evaluation.ok) {
+      await storeError(evaluation.error)
       return
     }
+    const result = evaluation.result
 
-    // 9. Store result
+    // 8. Store result
     await ctx.runMutation(internal.skills.updateVersionLlmAnalysisInternal, {
       versionId: args.versionId,
-      llmAnalysis: {
-        status: verdictToStatus(result.verdict),
-        verdict: result.verdict,
-        confidence: result.confidence,
-        summary: result.summary,
-        dimensions: result.dimensions,
-        guidance: result.guidance,
-        findings: result.findings || undefined,
-        model,
-        checkedAt: Date.now(),
-      },
+      llmAnalysis: toLlmAnalysis(result, model),
     })
 
     console.log(
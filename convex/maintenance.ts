@@ -1,18 +1,20 @@
+import {
+  computeQualitySignals,
+  evaluateQuality,
+  getTrustTier,
+  type TrustTier,
+} from 'clawhub-schema'
 import { ConvexError, v } from 'convex/values'
 import { internal } from './_generated/api'
 import type { Doc, Id } from './_generated/dataModel'
 import type { ActionCtx } from './_generated/server'
 import { action, internalAction, internalMutation, internalQuery } from './_generated/server'
 import { assertRole, requireUserFromAction } from './lib/access'
+import { deriveSkillRuntimeFacets } from './lib/searchFacets'
 import { buildSkillSummaryBackfillPatch, type ParsedSkillData } from './lib/skillBackfill'
-import {
-  computeQualitySignals,
-  evaluateQuality,
-  getTrustTier,
-  type TrustTier,
-} from './lib/skillQuality'
 import { generateSkillSummary } from './lib/skillSummary'
 import { hashSkillFiles } from './lib/skills'
+import { removeSkillSearchDoc } from './searchIndex'
 
 const DEFAULT_BATCH_SIZE = 50
 const MAX_BATCH_SIZE = 200
@@ -1040,6 +1042,7 @@ export const applyEmptySkillCleanupInternal = internalMutation({
       },
       updatedAt: now,
     })
+    await removeSkillSearchDoc(ctx, skill._id)
 
     await ctx.db.insert('auditLogs', {
       actorUserId: skill.ownerUserId,
@@ -1529,6 +1532,42 @@ export const backfillDenormalizedBadgesInternal = internalMutation({
   },
 })
 
+// Derive skill.runtimeFacets (search filters) from each skill's latest version.
+// Run once after deploying faceted search:
+//   npx convex run maintenance:backfillSkillRuntimeFacetsInternal --prod
+export const backfillSkillRuntimeFacetsInternal = internalMutation({
+  args: {
+    cursor: v.optional(v.string()),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const batchSize = clampInt(args.batchSize ?? 100, 10, 200)
+    const { page, continueCursor, isDone } = await ctx.db
+      .query('skills')
+      .paginate({ cursor: args.cursor ?? null, numItems: batchSize })
+
+    let patched = 0
+    for (const skill of page) {
+      if (!skill.latestVersionId) continue
+      const version = await ctx.db.get(skill.latestVersionId)
+      if (!version) continue
+      const runtimeFacets = deriveSkillRuntimeFacets(version.parsed.clawdis)
+      if (JSON.stringify(runtimeFacets) === JSON.stringify(skill.runtimeFacets)) continue
+      await ctx.db.patch(skill._id, { runtimeFacets })
+      patched++
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.maintenance.backfillSkillRuntimeFacetsInternal, {
+        cursor: continueCursor,
+        batchSize: args.batchSize,
+      })
+    }
+
+    return { patched, isDone, scanned: page.length }
+  },
+})
+
 function clampInt(value: number, min: number, max: number) {
   const rounded = Math.trunc(value)
   if (!Number.isFinite(rounded)) return min
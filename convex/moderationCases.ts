@@ -0,0 +1,287 @@
+import { ConvexError, v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import type { QueryCtx } from './_generated/server'
+import { internalMutation, mutation, query } from './_generated/server'
+import { assertModerator, requireUser } from './lib/access'
+import { scheduleNextBatchIfNeeded } from './lib/batching'
+import {
+  ACTIVE_CASE_STATUSES,
+  buildCaseActionPatch,
+  buildSkillCaseTarget,
+  getActiveModerationCase,
+  getCaseSla,
+  getSkillCaseKinds,
+  MAX_BULK_CASES,
+  MAX_CASE_NOTE_LENGTH,
+  MAX_CASE_NOTES,
+  MAX_CASE_QUEUE,
+  moderationCaseActionValidator,
+  moderationCaseKindValidator,
+  type ModerationCaseStatus,
+  openModerationCase,
+} from './lib/moderationCases'
+
+const BACKFILL_BATCH_SIZE = 100
+const MAX_CASE_HISTORY = 50
+
+const queueStatusValidator = v.union(
+  v.literal('active'),
+  v.literal('open'),
+  v.literal('in_progress'),
+  v.literal('resolved'),
+  v.literal('dismissed'),
+)
+
+function createUserLookup(ctx: QueryCtx) {
+  const cache = new Map<Id<'users'>, Promise<Doc<'users'> | null>>()
+  return (id: Id<'users'> | undefined) => {
+    if (!id) return Promise.resolve(null)
+    const cached = cache.get(id)
+    if (cached) return cached
+    const pending = ctx.db.get(id)
+    cache.set(id, pending)
+    return pending
+  }
+}
+
+function userHandle(user: Doc<'users'> | null) {
+  return user ? (user.handle ?? user.name ?? String(user._id)) : null
+}
+
+/**
+ * The moderation queue: active cases soonest-due first (closed ones most recent first), with
+ * the target, assignee and SLA state resolved for display.
+ */
+export const listQueue = query({
+  args: {
+    status: v.optional(queueStatusValidator),
+    kind: v.optional(moderationCaseKindValidator),
+    assignee: v.optional(v.union(v.literal('all'), v.literal('me'), v.literal('unassigned'))),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    assertModerator(user)
+    const status = args.status ?? 'active'
+    const statuses: readonly ModerationCaseStatus[] =
+      status === 'active' ? ACTIVE_CASE_STATUSES : [status]
+    const closed = status === 'resolved' || status === 'dismissed'
+
+    const cases: Doc<'moderationCases'>[] = []
+    for (const entry of statuses) {
+      const page = await ctx.db
+        .query('moderationCases')
+        .withIndex('by_status_due', (q) => q.eq('status', entry))
+        .order(closed ? 'desc' : 'asc')
+        .take(MAX_CASE_QUEUE)
+      cases.push(...page)
+    }
+    const assignee = args.assignee ?? 'all'
+    const filtered = cases
+      .filter((entry) => !args.kind || entry.kind === args.kind)
+      .filter((entry) => {
+        if (assignee === 'me') return entry.assigneeUserId === user._id
+        if (assignee === 'unassigned') return !entry.assigneeUserId
+        return true
+      })
+      .sort((a, b) => (closed ? b.slaDueAt - a.slaDueAt : a.slaDueAt - b.slaDueAt))
+      .slice(0, MAX_CASE_QUEUE)
+
+    const getUser = createUserLookup(ctx)
+    const now = Date.now()
+    const items = []
+    for (const entry of filtered) {
+      const [skill, comment, assigneeUser] = await Promise.all([
+        entry.skillId ? ctx.db.get(entry.skillId) : null,
+        entry.commentId ? ctx.db.get(entry.commentId) : null,
+        getUser(entry.assigneeUserId),
+      ])
+      const owner = await getUser(skill?.ownerUserId)
+      const sla = getCaseSla(entry, now)
+      items.push({
+        _id: entry._id,
+        kind: entry.kind,
+        status: entry.status,
+        summary: entry.summary,
+        signalCount: entry.signalCount,
+        noteCount: entry.notes.length,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+        slaDueAt: entry.slaDueAt,
+        slaState: sla.state,
+        ageMs: sla.ageMs,
+        assignee: entry.assigneeUserId
+          ? { userId: entry.assigneeUserId, handle: userHandle(assigneeUser) }
+          : null,
+        assignedToMe: entry.assigneeUserId === user._id,
+        target: {
+          type: entry.targetType,
+          id: entry.targetId,
+          skill: skill
+            ? {
+                slug: skill.slug,
+                displayName: skill.displayName,
+                ownerParam: owner?.handle ?? String(skill.ownerUserId),
+                moderationStatus: skill.moderationStatus ?? 'active',
+              }
+            : null,
+          commentBody: comment ? comment.body.slice(0, 200) : null,
+        },
+      })
+    }
+    return items
+  },
+})
+
+/** Internal notes on a case (oldest first) and its target's audit log history (newest first). */
+export const getHistory = query({
+  args: { caseId: v.id('moderationCases') },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    assertModerator(user)
+    const entry = await ctx.db.get(args.caseId)
+    if (!entry) return null
+    const logs = await ctx.db
+      .query('auditLogs')
+      .withIndex('by_target', (q) =>
+        q.eq('targetType', entry.targetType).eq('targetId', entry.targetId),
+      )
+      .order('desc')
+      .take(MAX_CASE_HISTORY)
+    const getUser = createUserLookup(ctx)
+    const notes = await Promise.all(
+      entry.notes.map(async (note) => ({
+        body: note.body,
+        createdAt: note.createdAt,
+        authorHandle: userHandle(await getUser(note.authorUserId)),
+      })),
+    )
+    const auditLogs = await Promise.all(
+      logs.map(async (log) => ({
+        _id: log._id,
+        action: log.action,
+        createdAt: log.createdAt,
+        actorHandle: userHandle(await getUser(log.actorUserId)),
+        metadata: log.metadata ?? null,
+      })),
+    )
+    return { notes, auditLogs }
+  },
+})
+
+/**
+ * Applies one action to up to `MAX_BULK_CASES` cases. Cases the action does not apply to
+ * (already closed, already assigned to you, …) are skipped and counted, not failed.
+ */
+export const bulkUpdate = mutation({
+  args: {
+    caseIds: v.array(v.id('moderationCases')),
+    action: moderationCaseActionValidator,
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    assertModerator(user)
+    if (args.caseIds.length === 0) throw new ConvexError('Select at least one case.')
+    if (args.caseIds.length > MAX_BULK_CASES) {
+      throw new ConvexError(`Too many cases selected (max ${MAX_BULK_CASES}).`)
+    }
+
+    const now = Date.now()
+    let updated = 0
+    let skipped = 0
+    for (const caseId of new Set(args.caseIds)) {
+      const entry = await ctx.db.get(caseId)
+      const patch = entry ? buildCaseActionPatch(entry, args.action, user._id, now) : null
+      if (!entry || !patch) {
+        skipped += 1
+        continue
+      }
+      await ctx.db.patch(entry._id, patch)
+      await ctx.db.insert('auditLogs', {
+        actorUserId: user._id,
+        action: `case.${args.action}`,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        metadata: { caseId: entry._id, kind: entry.kind, status: patch.status ?? entry.status },
+        createdAt: now,
+      })
+      updated += 1
+    }
+    return { ok: true as const, updated, skipped }
+  },
+})
+
+export const addNote = mutation({
+  args: { caseId: v.id('moderationCases'), body: v.string() },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    assertModerator(user)
+    const body = args.body.trim()
+    if (!body) throw new ConvexError('Note required.')
+    if (body.length > MAX_CASE_NOTE_LENGTH) {
+      throw new ConvexError(`Note is too long (max ${MAX_CASE_NOTE_LENGTH} characters).`)
+    }
+    const entry = await ctx.db.get(args.caseId)
+    if (!entry) throw new ConvexError('Case not found')
+
+    const now = Date.now()
+    const notes = [...entry.notes, { authorUserId: user._id, body, createdAt: now }]
+    await ctx.db.patch(entry._id, { notes: notes.slice(-MAX_CASE_NOTES), updatedAt: now })
+    await ctx.db.insert('auditLogs', {
+      actorUserId: user._id,
+      action: 'case.note',
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      metadata: { caseId: entry._id, kind: entry.kind },
+      createdAt: now,
+    })
+    return { ok: true as const }
+  },
+})
+
+/**
+ * Opens cases for skills that were reported, flagged or quarantined before the queue existed.
+ * Safe to re-run: targets that already have an active case are left alone.
+ */
+export const backfillSkillCasesInternal = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query('skills')
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH_SIZE })
+
+    let opened = 0
+    for (const skill of page) {
+      if (skill.moderationStatus === 'removed') continue
+      const kinds = getSkillCaseKinds(skill)
+      if ((skill.reportCount ?? 0) > 0 && !skill.softDeletedAt) kinds.push('skill_report')
+      for (const kind of kinds) {
+        if (await getActiveModerationCase(ctx, kind, skill._id)) continue
+        const reports = skill.reportCount ?? 0
+        await openModerationCase(
+          ctx,
+          kind === 'skill_report'
+            ? {
+                kind,
+                targetType: 'skill',
+                targetId: skill._id,
+                skillId: skill._id,
+                summary: `Reported ${reports} time${reports === 1 ? '' : 's'}.`,
+              }
+            : buildSkillCaseTarget(kind, skill),
+        )
+        opened += 1
+      }
+    }
+
+    scheduleNextBatchIfNeeded(
+      ctx.scheduler,
+      internal.moderationCases.backfillSkillCasesInternal,
+      args,
+      isDone,
+      continueCursor,
+    )
+
+    return { ok: true as const, opened, scheduled: !isDone }
+  },
+})
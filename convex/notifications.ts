@@ -0,0 +1,183 @@
+import { v } from 'convex/values'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import { internalMutation, internalQuery, mutation, query } from './_generated/server'
+import { requireUser } from './lib/access'
+import { digestFrequencyValidator } from './lib/emailDigest'
+import {
+  insertNotification,
+  MAX_NOTIFICATIONS_PAGE,
+  MAX_UNREAD_COUNT,
+  normalizeMutedKinds,
+  notificationKindValidator,
+  REQUIRED_NOTIFICATION_KINDS,
+} from './lib/notifications'
+
+const DEFAULT_PAGE_SIZE = 30
+
+function toPublicNotification(notification: Doc<'notifications'>) {
+  return {
+    _id: notification._id,
+    kind: notification.kind,
+    title: notification.title,
+    body: notification.body ?? null,
+    url: notification.url ?? null,
+    createdAt: notification.createdAt,
+    readAt: notification.readAt ?? null,
+  }
+}
+
+async function listForUser(
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  args: { limit?: number; unreadOnly?: boolean },
+) {
+  const limit = Math.min(
+    Math.max(Math.trunc(args.limit ?? DEFAULT_PAGE_SIZE), 1),
+    MAX_NOTIFICATIONS_PAGE,
+  )
+  const rows = args.unreadOnly
+    ? await ctx.db
+        .query('notifications')
+        .withIndex('by_user_read', (q) => q.eq('userId', userId).eq('readAt', undefined))
+        .order('desc')
+        .take(limit)
+    : await ctx.db
+        .query('notifications')
+        .withIndex('by_user', (q) => q.eq('userId', userId))
+        .order('desc')
+        .take(limit)
+  return rows.map(toPublicNotification)
+}
+
+async function countUnread(ctx: QueryCtx, userId: Id<'users'>) {
+  const unread = await ctx.db
+    .query('notifications')
+    .withIndex('by_user_read', (q) => q.eq('userId', userId).eq('readAt', undefined))
+    .take(MAX_UNREAD_COUNT)
+  return unread.length
+}
+
+/** Marks the given ids (or every unread notification) read; ids of other users are ignored. */
+async function markReadForUser(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  args: { notificationIds?: Id<'notifications'>[]; all?: boolean },
+) {
+  const now = Date.now()
+  let updated = 0
+  if (args.all) {
+    const unread = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_read', (q) => q.eq('userId', userId).eq('readAt', undefined))
+      .take(500)
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { readAt: now })
+      updated += 1
+    }
+    return { ok: true as const, updated }
+  }
+  for (const notificationId of (args.notificationIds ?? []).slice(0, MAX_NOTIFICATIONS_PAGE)) {
+    const notification = await ctx.db.get(notificationId)
+    if (!notification || notification.userId !== userId || notification.readAt) continue
+    await ctx.db.patch(notification._id, { readAt: now })
+    updated += 1
+  }
+  return { ok: true as const, updated }
+}
+
+export const list = query({
+  args: { limit: v.optional(v.number()), unreadOnly: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    return listForUser(ctx, userId, args)
+  },
+})
+
+export const unreadCount = query({
+  args: {},
+  handler: async (ctx) => {
+    const { userId } = await requireUser(ctx)
+    return countUnread(ctx, userId)
+  },
+})
+
+export const markRead = mutation({
+  args: {
+    notificationIds: v.optional(v.array(v.id('notifications'))),
+    all: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    return markReadForUser(ctx, userId, args)
+  },
+})
+
+export const getPreferences = query({
+  args: {},
+  handler: async (ctx) => {
+    const { user } = await requireUser(ctx)
+    return {
+      muted: user.mutedNotificationKinds ?? [],
+      required: [...REQUIRED_NOTIFICATION_KINDS],
+      digest: user.digestFrequency ?? 'off',
+      hasEmail: Boolean(user.email),
+    }
+  },
+})
+
+export const updatePreferences = mutation({
+  args: { muted: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const muted = normalizeMutedKinds(args.muted)
+    await ctx.db.patch(userId, { mutedNotificationKinds: muted, updatedAt: Date.now() })
+    return { ok: true as const, muted }
+  },
+})
+
+export const updateDigest = mutation({
+  args: { frequency: digestFrequencyValidator },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    if (args.frequency !== 'off' && !user.email) {
+      throw new Error('Add an email address to your account to receive digests')
+    }
+    await ctx.db.patch(user._id, { digestFrequency: args.frequency, updatedAt: Date.now() })
+    return { ok: true as const, frequency: args.frequency }
+  },
+})
+
+export const createInternal = internalMutation({
+  args: {
+    userId: v.id('users'),
+    kind: notificationKindValidator,
+    data: v.any(),
+    dedupeKey: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const notificationId = await insertNotification(ctx, args)
+    return { created: Boolean(notificationId) }
+  },
+})
+
+export const listForUserInternal = internalQuery({
+  args: {
+    userId: v.id('users'),
+    limit: v.optional(v.number()),
+    unreadOnly: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const items = await listForUser(ctx, args.userId, args)
+    return { items, unreadCount: await countUnread(ctx, args.userId) }
+  },
+})
+
+export const markReadForUserInternal = internalMutation({
+  args: {
+    userId: v.id('users'),
+    notificationIds: v.optional(v.array(v.id('notifications'))),
+    all: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => markReadForUser(ctx, args.userId, args),
+})
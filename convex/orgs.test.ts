@@ -0,0 +1,184 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { create, setMemberRole, transferSkill } from './orgs'
+import { insertVersion } from './skills'
+
+vi.mock('@convex-dev/auth/server', () => ({
+  getAuthUserId: vi.fn(),
+  authTables: {},
+}))
+
+type WrappedHandler<TArgs> = {
+  _handler: (ctx: unknown, args: TArgs) => Promise<unknown>
+}
+
+const createHandler = (create as unknown as WrappedHandler<Record<string, unknown>>)._handler
+const setMemberRoleHandler = (setMemberRole as unknown as WrappedHandler<Record<string, unknown>>)
+  ._handler
+const transferSkillHandler = (transferSkill as unknown as WrappedHandler<Record<string, unknown>>)
+  ._handler
+const insertVersionHandler = (insertVersion as unknown as WrappedHandler<Record<string, unknown>>)
+  ._handler
+
+type Row = Record<string, unknown> & { _id: string }
+
+function makeDb(tables: Record<string, Row[]>) {
+  const byId = () => new Map(Object.values(tables).flat().map((row) => [row._id, row]))
+  const insert = vi.fn(async (table: string, value: Record<string, unknown>) => {
+    const id = `${table}:new${(tables[table]?.length ?? 0) + 1}`
+    tables[table] = [...(tables[table] ?? []), { ...value, _id: id }]
+    return id
+  })
+  const patch = vi.fn(async () => {})
+  const query = vi.fn((table: string) => ({
+    withIndex: (_name: string, build: (q: unknown) => unknown) => {
+      const filters: Array<[string, unknown]> = []
+      const q = {
+        eq: (field: string, value: unknown) => {
+          filters.push([field, value])
+          return q
+        },
+      }
+      build(q)
+      const rows = () =>
+        (tables[table] ?? []).filter((row) =>
+          filters.every(([field, value]) => row[field] === value),
+        )
+      return {
+        unique: async () => rows()[0] ?? null,
+        take: async (limit: number) => rows().slice(0, limit),
+      }
+    },
+  }))
+  return {
+    db: { get: vi.fn(async (id: string) => byId().get(id) ?? null), insert, patch, query },
+    insert,
+    patch,
+  }
+}
+
+const alice = { _id: 'users:alice', handle: 'alice' }
+const bob = { _id: 'users:bob', handle: 'bob' }
+const acme = { _id: 'orgs:acme', handle: 'acme', displayName: 'Acme' }
+
+afterEach(() => {
+  vi.mocked(getAuthUserId).mockReset()
+})
+
+describe('orgs', () => {
+  it('creates an org with the caller as owner', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue('users:alice' as never)
+    const { db, insert } = makeDb({ users: [alice], orgs: [], orgMembers: [] })
+
+    const result = await createHandler({ db }, { handle: '@Acme-Labs' })
+
+    expect(result).toEqual({ orgId: 'orgs:new1', handle: 'acme-labs' })
+    expect(insert).toHaveBeenCalledWith(
+      'orgMembers',
+      expect.objectContaining({ orgId: 'orgs:new1', userId: 'users:alice', role: 'owner' }),
+    )
+  })
+
+  it('rejects taken and malformed handles', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue('users:alice' as never)
+    const { db } = makeDb({ users: [alice], orgs: [acme], orgMembers: [] })
+
+    await expect(createHandler({ db }, { handle: 'acme' })).rejects.toThrow(
+      'Org handle already taken',
+    )
+    await expect(createHandler({ db }, { handle: 'a' })).rejects.toThrow(/Org handle must be/)
+  })
+
+  it('keeps at least one owner', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue('users:alice' as never)
+    const { db, patch } = makeDb({
+      users: [alice, bob],
+      orgs: [acme],
+      orgMembers: [
+        { _id: 'orgMembers:1', orgId: 'orgs:acme', userId: 'users:alice', role: 'owner' },
+        { _id: 'orgMembers:2', orgId: 'orgs:acme', userId: 'users:bob', role: 'maintainer' },
+      ],
+    })
+
+    await expect(
+      setMemberRoleHandler({ db }, { orgId: 'orgs:acme', userId: 'users:alice', role: 'member' }),
+    ).rejects.toThrow('Org must keep at least one owner')
+    expect(patch).not.toHaveBeenCalled()
+
+    await setMemberRoleHandler({ db }, { orgId: 'orgs:acme', userId: 'users:bob', role: 'owner' })
+    expect(patch).toHaveBeenCalledWith('orgMembers:2', expect.objectContaining({ role: 'owner' }))
+  })
+
+  it('only lets the skill owner move a skill into an org they can publish for', async () => {
+    const skill = { _id: 'skills:1', slug: 'demo', ownerUserId: 'users:alice' }
+    const tables = () => ({
+      users: [alice, bob],
+      orgs: [acme],
+      skills: [skill],
+      orgMembers: [
+        { _id: 'orgMembers:1', orgId: 'orgs:acme', userId: 'users:alice', role: 'maintainer' },
+        { _id: 'orgMembers:2', orgId: 'orgs:acme', userId: 'users:bob', role: 'owner' },
+      ],
+    })
+
+    vi.mocked(getAuthUserId).mockResolvedValue('users:bob' as never)
+    const asBob = makeDb(tables())
+    await expect(
+      transferSkillHandler({ db: asBob.db }, { orgId: 'orgs:acme', slug: 'demo' }),
+    ).rejects.toThrow('Only the owner can transfer this skill')
+
+    vi.mocked(getAuthUserId).mockResolvedValue('users:alice' as never)
+    const asAlice = makeDb(tables())
+    await transferSkillHandler({ db: asAlice.db }, { orgId: 'orgs:acme', slug: 'demo' })
+    expect(asAlice.patch).toHaveBeenCalledWith(
+      'skills:1',
+      expect.objectContaining({ ownerOrgId: 'orgs:acme' }),
+    )
+  })
+})
+
+describe('org publishing', () => {
+  function publishArgs(userId: string) {
+    return {
+      userId,
+      slug: 'demo',
+      displayName: 'Demo',
+      version: '1.1.0',
+      changelog: '',
+      fingerprint: 'f'.repeat(64),
+      files: [],
+      parsed: { frontmatter: {} },
+      embedding: [0.1],
+    }
+  }
+
+  it('blocks plain members from publishing org skills', async () => {
+    const { db } = makeDb({
+      users: [alice, bob],
+      orgs: [acme],
+      skills: [
+        { _id: 'skills:1', slug: 'demo', ownerUserId: 'users:alice', ownerOrgId: 'orgs:acme' },
+      ],
+      orgMembers: [
+        { _id: 'orgMembers:2', orgId: 'orgs:acme', userId: 'users:bob', role: 'member' },
+      ],
+    })
+
+    await expect(insertVersionHandler({ db }, publishArgs('users:bob'))).rejects.toThrow(
+      'Only org owners and maintainers can publish for this org',
+    )
+  })
+
+  it('refuses org publishes into a skill the org does not own', async () => {
+    const { db } = makeDb({
+      users: [alice],
+      orgs: [acme],
+      skills: [{ _id: 'skills:1', slug: 'demo', ownerUserId: 'users:alice' }],
+      orgMembers: [],
+    })
+
+    await expect(
+      insertVersionHandler({ db }, { ...publishArgs('users:alice'), orgId: 'orgs:acme' }),
+    ).rejects.toThrow('Skill is not owned by this org')
+  })
+})
@@ -0,0 +1,293 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
+import { v } from 'convex/values'
+import type { Id } from './_generated/dataModel'
+import type { MutationCtx } from './_generated/server'
+import { internalQuery, mutation, query } from './_generated/server'
+import { requireUser } from './lib/access'
+import {
+  canManageOrg,
+  canPublishForOrg,
+  getOrgByHandle,
+  getOrgMembership,
+  normalizeOrgHandle,
+  toPublicOrg,
+} from './lib/orgs'
+import { toPublicUser } from './lib/public'
+import { isSkillListed } from './lib/skillVisibility'
+
+const MAX_ORGS_PER_USER = 20
+const MAX_ORG_MEMBERS = 200
+const MAX_ORG_SKILLS = 200
+
+const orgRoleValidator = v.union(v.literal('owner'), v.literal('maintainer'), v.literal('member'))
+
+export const getByHandle = query({
+  args: { handle: v.string() },
+  handler: async (ctx, args) => {
+    const org = await getOrgByHandle(ctx, args.handle)
+    if (!org) return null
+
+    const memberships = await ctx.db
+      .query('orgMembers')
+      .withIndex('by_org', (q) => q.eq('orgId', org._id))
+      .take(MAX_ORG_MEMBERS)
+    const members = []
+    for (const membership of memberships) {
+      const user = toPublicUser(await ctx.db.get(membership.userId))
+      if (!user) continue
+      members.push({ user, role: membership.role })
+    }
+
+    const skills = await ctx.db
+      .query('skills')
+      .withIndex('by_owner_org', (q) => q.eq('ownerOrgId', org._id))
+      .take(MAX_ORG_SKILLS)
+    // Members see the org's unlisted and private skills; everyone else only the listed ones.
+    const viewerId = await getAuthUserId(ctx)
+    const isMember = Boolean(viewerId && members.some((member) => member.user._id === viewerId))
+
+    return {
+      org: toPublicOrg(org),
+      members,
+      skills: skills
+        .filter((skill) => !skill.softDeletedAt && skill.moderationStatus !== 'removed')
+        .filter((skill) => isMember || isSkillListed(skill))
+        .map((skill) => ({
+          _id: skill._id,
+          slug: skill.slug,
+          displayName: skill.displayName,
+          summary: skill.summary,
+        })),
+    }
+  },
+})
+
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const { userId } = await requireUser(ctx)
+    const memberships = await ctx.db
+      .query('orgMembers')
+      .withIndex('by_user', (q) => q.eq('userId', userId))
+      .take(MAX_ORGS_PER_USER)
+    const items = []
+    for (const membership of memberships) {
+      const org = toPublicOrg(await ctx.db.get(membership.orgId))
+      if (!org) continue
+      items.push({ org, role: membership.role })
+    }
+    return items
+  },
+})
+
+export const getByHandleInternal = internalQuery({
+  args: { handle: v.string() },
+  handler: async (ctx, args) => getOrgByHandle(ctx, args.handle),
+})
+
+export const getByIdInternal = internalQuery({
+  args: { orgId: v.id('orgs') },
+  handler: async (ctx, args) => {
+    const org = await ctx.db.get(args.orgId)
+    return org && !org.deletedAt ? org : null
+  },
+})
+
+export const getMembershipInternal = internalQuery({
+  args: { orgId: v.id('orgs'), userId: v.id('users') },
+  handler: async (ctx, args) => getOrgMembership(ctx, args.orgId, args.userId),
+})
+
+export const create = mutation({
+  args: { handle: v.string(), displayName: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const handle = normalizeOrgHandle(args.handle)
+    const existing = await ctx.db
+      .query('orgs')
+      .withIndex('by_handle', (q) => q.eq('handle', handle))
+      .unique()
+    if (existing) throw new Error('Org handle already taken')
+
+    const memberships = await ctx.db
+      .query('orgMembers')
+      .withIndex('by_user', (q) => q.eq('userId', userId))
+      .take(MAX_ORGS_PER_USER)
+    if (memberships.length >= MAX_ORGS_PER_USER) {
+      throw new Error(`Org limit reached (max ${MAX_ORGS_PER_USER})`)
+    }
+
+    const now = Date.now()
+    const orgId = await ctx.db.insert('orgs', {
+      handle,
+      displayName: args.displayName?.trim() || handle,
+      createdByUserId: userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    await ctx.db.insert('orgMembers', {
+      orgId,
+      userId,
+      role: 'owner',
+      addedByUserId: userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'org.create',
+      targetType: 'org',
+      targetId: orgId,
+      metadata: { handle },
+      createdAt: now,
+    })
+    return { orgId, handle }
+  },
+})
+
+export const addMember = mutation({
+  args: { orgId: v.id('orgs'), handle: v.string(), role: orgRoleValidator },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    await requireOrgManager(ctx, args.orgId, userId)
+
+    const target = await ctx.db
+      .query('users')
+      .withIndex('handle', (q) => q.eq('handle', args.handle.trim().replace(/^@/, '')))
+      .unique()
+    if (!target || target.deletedAt || target.deactivatedAt) throw new Error('User not found')
+
+    const existing = await getOrgMembership(ctx, args.orgId, target._id)
+    if (existing) throw new Error('User is already a member')
+
+    const members = await ctx.db
+      .query('orgMembers')
+      .withIndex('by_org', (q) => q.eq('orgId', args.orgId))
+      .take(MAX_ORG_MEMBERS)
+    if (members.length >= MAX_ORG_MEMBERS) {
+      throw new Error(`Member limit reached (max ${MAX_ORG_MEMBERS})`)
+    }
+
+    const now = Date.now()
+    await ctx.db.insert('orgMembers', {
+      orgId: args.orgId,
+      userId: target._id,
+      role: args.role,
+      addedByUserId: userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'org.member.add',
+      targetType: 'org',
+      targetId: args.orgId,
+      metadata: { userId: target._id, role: args.role },
+      createdAt: now,
+    })
+    return { ok: true as const }
+  },
+})
+
+export const setMemberRole = mutation({
+  args: { orgId: v.id('orgs'), userId: v.id('users'), role: orgRoleValidator },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    await requireOrgManager(ctx, args.orgId, userId)
+
+    const membership = await getOrgMembership(ctx, args.orgId, args.userId)
+    if (!membership) throw new Error('Member not found')
+    if (membership.role === args.role) return { ok: true as const }
+    if (membership.role === 'owner') await assertAnotherOwner(ctx, args.orgId, args.userId)
+
+    const now = Date.now()
+    await ctx.db.patch(membership._id, { role: args.role, updatedAt: now })
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'org.member.role',
+      targetType: 'org',
+      targetId: args.orgId,
+      metadata: { userId: args.userId, from: membership.role, to: args.role },
+      createdAt: now,
+    })
+    return { ok: true as const }
+  },
+})
+
+export const removeMember = mutation({
+  args: { orgId: v.id('orgs'), userId: v.id('users') },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    // Anyone can leave; removing someone else takes an owner.
+    if (args.userId !== userId) await requireOrgManager(ctx, args.orgId, userId)
+
+    const membership = await getOrgMembership(ctx, args.orgId, args.userId)
+    if (!membership) throw new Error('Member not found')
+    if (membership.role === 'owner') await assertAnotherOwner(ctx, args.orgId, args.userId)
+
+    const now = Date.now()
+    await ctx.db.delete(membership._id)
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'org.member.remove',
+      targetType: 'org',
+      targetId: args.orgId,
+      metadata: { userId: args.userId },
+      createdAt: now,
+    })
+    return { ok: true as const }
+  },
+})
+
+export const transferSkill = mutation({
+  args: { orgId: v.id('orgs'), slug: v.string() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const org = await ctx.db.get(args.orgId)
+    if (!org || org.deletedAt) throw new Error('Org not found')
+
+    const membership = await getOrgMembership(ctx, args.orgId, userId)
+    if (!canPublishForOrg(membership?.role)) throw new Error('Forbidden')
+
+    const slug = args.slug.trim().toLowerCase()
+    const skill = await ctx.db
+      .query('skills')
+      .withIndex('by_slug', (q) => q.eq('slug', slug))
+      .unique()
+    if (!skill || skill.softDeletedAt) throw new Error('Skill not found')
+    if (skill.ownerOrgId === args.orgId) return { ok: true as const }
+    if (skill.ownerOrgId) throw new Error('Skill already belongs to an org')
+    if (skill.ownerUserId !== userId) throw new Error('Only the owner can transfer this skill')
+
+    const now = Date.now()
+    await ctx.db.patch(skill._id, { ownerOrgId: args.orgId, updatedAt: now })
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'skill.owner.org',
+      targetType: 'skill',
+      targetId: skill._id,
+      metadata: { orgId: args.orgId, handle: org.handle },
+      createdAt: now,
+    })
+    return { ok: true as const }
+  },
+})
+
+async function requireOrgManager(ctx: MutationCtx, orgId: Id<'orgs'>, userId: Id<'users'>) {
+  const org = await ctx.db.get(orgId)
+  if (!org || org.deletedAt) throw new Error('Org not found')
+  const membership = await getOrgMembership(ctx, orgId, userId)
+  if (!canManageOrg(membership?.role)) throw new Error('Forbidden')
+  return org
+}
+
+async function assertAnotherOwner(ctx: MutationCtx, orgId: Id<'orgs'>, userId: Id<'users'>) {
+  const members = await ctx.db
+    .query('orgMembers')
+    .withIndex('by_org', (q) => q.eq('orgId', orgId))
+    .take(MAX_ORG_MEMBERS)
+  const hasOtherOwner = members.some(
+    (member) => member.role === 'owner' && member.userId !== userId,
+  )
+  if (!hasOtherOwner) throw new Error('Org must keep at least one owner')
+}
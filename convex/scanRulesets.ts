@@ -0,0 +1,114 @@
+import { ConvexError, v } from 'convex/values'
+import type { QueryCtx } from './_generated/server'
+import { internalQuery, mutation, query } from './_generated/server'
+import { assertAdmin, requireUser } from './lib/access'
+import { DEFAULT_YARA_RULES, DEFAULT_YARA_RULESET, parseYaraRules } from './lib/yaraRules'
+
+const HISTORY_LIMIT = 20
+const MAX_NOTES_LENGTH = 500
+
+async function getLatestRuleset(ctx: QueryCtx) {
+  return await ctx.db.query('scanRulesets').withIndex('by_version').order('desc').first()
+}
+
+/** The ruleset publish and rescans run against; the built-in one until an admin edits it. */
+export const getActiveInternal = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const latest = await getLatestRuleset(ctx)
+    return latest ? { version: latest.version, rules: latest.rules } : DEFAULT_YARA_RULESET
+  },
+})
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const { user } = await requireUser(ctx)
+    assertAdmin(user)
+    const history = await ctx.db
+      .query('scanRulesets')
+      .withIndex('by_version')
+      .order('desc')
+      .take(HISTORY_LIMIT)
+    const entries = await Promise.all(
+      history.map(async (entry) => {
+        const author = await ctx.db.get(entry.createdBy)
+        return {
+          version: entry.version,
+          ruleCount: entry.rules.length,
+          notes: entry.notes ?? null,
+          createdAt: entry.createdAt,
+          createdByHandle: author?.handle ?? author?.name ?? null,
+        }
+      }),
+    )
+    const active = history[0]
+    return {
+      active: active
+        ? { version: active.version, rules: active.rules }
+        : { version: DEFAULT_YARA_RULESET.version, rules: DEFAULT_YARA_RULES },
+      defaults: DEFAULT_YARA_RULES,
+      history: entries,
+    }
+  },
+})
+
+export const get = query({
+  args: { version: v.number() },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    assertAdmin(user)
+    if (args.version === DEFAULT_YARA_RULESET.version) return DEFAULT_YARA_RULESET
+    const entry = await ctx.db
+      .query('scanRulesets')
+      .withIndex('by_version', (q) => q.eq('version', args.version))
+      .unique()
+    return entry ? { version: entry.version, rules: entry.rules } : null
+  },
+})
+
+/**
+ * Saves `rulesJson` (a JSON array of rules) as the next ruleset version. New publishes
+ * use it immediately; already-scanned versions keep their findings until rescanned.
+ */
+export const publish = mutation({
+  args: { rulesJson: v.string(), notes: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const { user } = await requireUser(ctx)
+    assertAdmin(user)
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(args.rulesJson)
+    } catch {
+      throw new ConvexError('Ruleset is not valid JSON')
+    }
+    let rules
+    try {
+      rules = parseYaraRules(parsed)
+    } catch (error) {
+      throw new ConvexError(error instanceof Error ? error.message : 'Invalid ruleset')
+    }
+    const notes = args.notes?.trim().slice(0, MAX_NOTES_LENGTH) || undefined
+
+    const latest = await getLatestRuleset(ctx)
+    const version = (latest?.version ?? DEFAULT_YARA_RULESET.version) + 1
+    const now = Date.now()
+    await ctx.db.insert('scanRulesets', {
+      version,
+      rules,
+      notes,
+      createdBy: user._id,
+      createdAt: now,
+    })
+    await ctx.db.insert('auditLogs', {
+      actorUserId: user._id,
+      action: 'scanRuleset.publish',
+      targetType: 'scanRuleset',
+      targetId: String(version),
+      metadata: { ruleCount: rules.length, notes },
+      createdAt: now,
+    })
+    return { version, ruleCount: rules.length }
+  },
+})
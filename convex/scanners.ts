@@ -0,0 +1,42 @@
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Doc } from './_generated/dataModel'
+import { internalAction } from './_generated/server'
+import { getEnabledLocalScanners, readScanFiles, runLocalScanners } from './lib/scanners'
+
+/**
+ * Re-runs every enabled local scanner (no network) over a version's text files with the
+ * active ruleset and records one `scanResults` row per scanner. Publish runs the same
+ * scanners inline; use this after editing the ruleset:
+ * npx convex run scanners:scanVersionLocally '{"versionId": "..."}'
+ */
+export const scanVersionLocally = internalAction({
+  args: { versionId: v.id('skillVersions') },
+  handler: async (ctx, args) => {
+    if (getEnabledLocalScanners().length === 0) return
+
+    const version = (await ctx.runQuery(internal.skills.getVersionByIdInternal, {
+      versionId: args.versionId,
+    })) as Doc<'skillVersions'> | null
+    if (!version) return
+    const skill = (await ctx.runQuery(internal.skills.getSkillByIdInternal, {
+      skillId: version.skillId,
+    })) as Doc<'skills'> | null
+    if (!skill) return
+
+    const ruleset = await ctx.runQuery(internal.scanRulesets.getActiveInternal, {})
+    const files = await readScanFiles(ctx, version.files)
+    const results = await runLocalScanners(
+      { slug: skill.slug, version: version.version, files },
+      { ruleset },
+    )
+    for (const { scanner, ...outcome } of results) {
+      await ctx.runMutation(internal.skills.recordScanResultInternal, {
+        versionId: args.versionId,
+        scanner,
+        ...outcome,
+        checkedAt: Date.now(),
+      })
+    }
+  },
+})
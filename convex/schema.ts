@@ -1,7 +1,18 @@
 import { authTables } from '@convex-dev/auth/server'
 import { defineSchema, defineTable } from 'convex/server'
 import { v } from 'convex/values'
-import { EMBEDDING_DIMENSIONS } from './lib/embeddings'
+import { appealStatusValidator } from './lib/appeals'
+import { capabilityLintValidator } from './lib/capabilityLint'
+import { digestFrequencyValidator } from './lib/emailDigest'
+import { EMBEDDING_DIMENSIONS, NEXT_EMBEDDING_DIMENSIONS } from './lib/embeddings'
+import {
+  moderationCaseKindValidator,
+  moderationCaseStatusValidator,
+} from './lib/moderationCases'
+import { notificationKindValidator } from './lib/notifications'
+import { scanFindingValidator, scanVerdictValidator } from './lib/scanners'
+import { skillVisibilityValidator } from './lib/skillVisibility'
+import { yaraRuleValidator } from './lib/yaraRules'
 
 const users = defineTable({
   name: v.optional(v.string()),
@@ -23,12 +34,38 @@ const users = defineTable({
   purgedAt: v.optional(v.number()),
   deletedAt: v.optional(v.number()),
   banReason: v.optional(v.string()),
+  mutedNotificationKinds: v.optional(v.array(notificationKindValidator)),
+  digestFrequency: v.optional(digestFrequencyValidator),
+  digestSentAt: v.optional(v.number()),
   createdAt: v.optional(v.number()),
   updatedAt: v.optional(v.number()),
 })
   .index('email', ['email'])
   .index('phone', ['phone'])
   .index('handle', ['handle'])
+  .index('by_digest_frequency', ['digestFrequency'])
+
+const orgs = defineTable({
+  handle: v.string(),
+  displayName: v.string(),
+  bio: v.optional(v.string()),
+  createdByUserId: v.id('users'),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+  deletedAt: v.optional(v.number()),
+}).index('by_handle', ['handle'])
+
+const orgMembers = defineTable({
+  orgId: v.id('orgs'),
+  userId: v.id('users'),
+  role: v.union(v.literal('owner'), v.literal('maintainer'), v.literal('member')),
+  addedByUserId: v.optional(v.id('users')),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+})
+  .index('by_org', ['orgId'])
+  .index('by_user', ['userId'])
+  .index('by_org_user', ['orgId', 'userId'])
 
 const skills = defineTable({
   slug: v.string(),
@@ -36,6 +73,8 @@ const skills = defineTable({
   summary: v.optional(v.string()),
   resourceId: v.optional(v.string()),
   ownerUserId: v.id('users'),
+  ownerOrgId: v.optional(v.id('orgs')),
+  visibility: v.optional(skillVisibilityValidator),
   canonicalSkillId: v.optional(v.id('skills')),
   forkOf: v.optional(
     v.object({
@@ -102,6 +141,19 @@ const skills = defineTable({
     }),
   ),
   moderationFlags: v.optional(v.array(v.string())),
+  // Normalized `category` frontmatter of the latest version; drives per-category leaderboards.
+  category: v.optional(v.string()),
+  // Search facets from the latest version's runtime metadata, denormalized so
+  // search hydration doesn't have to load version docs.
+  runtimeFacets: v.optional(
+    v.object({
+      os: v.array(v.string()),
+      bins: v.array(v.string()),
+      requiresEnv: v.boolean(),
+      installKinds: v.array(v.string()),
+      nixPlugin: v.boolean(),
+    }),
+  ),
   lastReviewedAt: v.optional(v.number()),
   // VT scan tracking
   scanLastCheckedAt: v.optional(v.number()),
@@ -128,6 +180,7 @@ const skills = defineTable({
 })
   .index('by_slug', ['slug'])
   .index('by_owner', ['ownerUserId'])
+  .index('by_owner_org', ['ownerOrgId'])
   .index('by_updated', ['updatedAt'])
   .index('by_stats_downloads', ['statsDownloads', 'updatedAt'])
   .index('by_stats_stars', ['statsStars', 'updatedAt'])
@@ -147,6 +200,45 @@ const skills = defineTable({
   .index('by_canonical', ['canonicalSkillId'])
   .index('by_fork_of', ['forkOf.skillId'])
 
+const skillShares = defineTable({
+  skillId: v.id('skills'),
+  userId: v.optional(v.id('users')),
+  orgId: v.optional(v.id('orgs')),
+  grantedByUserId: v.id('users'),
+  createdAt: v.number(),
+})
+  .index('by_skill', ['skillId'])
+  .index('by_skill_user', ['skillId', 'userId'])
+  .index('by_skill_org', ['skillId', 'orgId'])
+  .index('by_user', ['userId'])
+
+const collections = defineTable({
+  ownerUserId: v.id('users'),
+  // URL name, unique per owner: `/collections/<handle>/<name>`, `clawhub install --collection`.
+  name: v.string(),
+  displayName: v.string(),
+  description: v.optional(v.string()),
+  visibility: v.union(v.literal('public'), v.literal('unlisted')),
+  itemCount: v.number(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+})
+  .index('by_owner_name', ['ownerUserId', 'name'])
+  .index('by_visibility_updated', ['visibility', 'updatedAt'])
+
+const collectionItems = defineTable({
+  collectionId: v.id('collections'),
+  skillId: v.id('skills'),
+  position: v.number(),
+  note: v.optional(v.string()),
+  // Exact version or semver range installs resolve against; latest when unset.
+  versionPin: v.optional(v.string()),
+  addedAt: v.number(),
+})
+  .index('by_collection_position', ['collectionId', 'position'])
+  .index('by_collection_skill', ['collectionId', 'skillId'])
+  .index('by_skill', ['skillId'])
+
 const souls = defineTable({
   slug: v.string(),
   displayName: v.string(),
@@ -224,11 +316,38 @@ const skillVersions = defineTable({
       checkedAt: v.number(),
     }),
   ),
+  // Static declared-vs-actual check (clawhub-schema `lintSkillCapabilities`).
+  capabilityLint: v.optional(capabilityLintValidator),
 })
   .index('by_skill', ['skillId'])
   .index('by_skill_version', ['skillId', 'version'])
   .index('by_sha256hash', ['sha256hash'])
 
+// One row per version and scanner (`lib/scanners` registry). VT and the LLM evaluator
+// still keep their detailed payloads on the version; this is the common summary.
+const scanResults = defineTable({
+  versionId: v.id('skillVersions'),
+  skillId: v.id('skills'),
+  scanner: v.string(),
+  verdict: scanVerdictValidator,
+  summary: v.optional(v.string()),
+  findings: v.array(scanFindingValidator),
+  rulesetVersion: v.optional(v.number()),
+  checkedAt: v.number(),
+})
+  .index('by_version', ['versionId'])
+  .index('by_version_scanner', ['versionId', 'scanner'])
+  .index('by_skill', ['skillId'])
+
+// Append-only history of the rule scanner's ruleset; the highest version is active.
+const scanRulesets = defineTable({
+  version: v.number(),
+  rules: v.array(yaraRuleValidator),
+  notes: v.optional(v.string()),
+  createdBy: v.id('users'),
+  createdAt: v.number(),
+}).index('by_version', ['version'])
+
 const soulVersions = defineTable({
   soulId: v.id('souls'),
   version: v.string(),
@@ -297,6 +416,11 @@ const skillEmbeddings = defineTable({
   versionId: v.id('skillVersions'),
   ownerId: v.id('users'),
   embedding: v.array(v.number()),
+  // Provider id that produced `embedding`; unset on rows that predate providers (OpenAI).
+  embeddingModel: v.optional(v.string()),
+  // Staging slot for a model migration, indexed separately so search can cut over atomically.
+  embeddingNext: v.optional(v.array(v.number())),
+  embeddingNextModel: v.optional(v.string()),
   isLatest: v.boolean(),
   isApproved: v.boolean(),
   visibility: v.string(),
@@ -309,6 +433,11 @@ const skillEmbeddings = defineTable({
     dimensions: EMBEDDING_DIMENSIONS,
     filterFields: ['visibility'],
   })
+  .vectorIndex('by_embedding_next', {
+    vectorField: 'embeddingNext',
+    dimensions: NEXT_EMBEDDING_DIMENSIONS,
+    filterFields: ['visibility'],
+  })
 
 // Lightweight lookup: embeddingId → skillId (~100 bytes per doc).
 // Avoids reading full skillEmbeddings docs (~12KB each with vector)
@@ -318,17 +447,54 @@ const embeddingSkillMap = defineTable({
   skillId: v.id('skills'),
 }).index('by_embedding', ['embeddingId'])
 
+// Inverted full-text index for BM25 ranking. One doc row per indexed skill,
+// one posting per (term, skill) with the field-weighted term frequency and the
+// doc length denormalized so scoring never has to read skillSearchDocs.
+const skillSearchDocs = defineTable({
+  skillId: v.id('skills'),
+  versionId: v.id('skillVersions'),
+  length: v.number(),
+  termCount: v.number(),
+  indexedAt: v.number(),
+}).index('by_skill', ['skillId'])
+
+const skillSearchPostings = defineTable({
+  term: v.string(),
+  skillId: v.id('skills'),
+  weight: v.number(),
+  docLength: v.number(),
+})
+  .index('by_term', ['term'])
+  .index('by_skill', ['skillId'])
+
+// Documents per indexed term, kept in step with the postings so IDF stays exact
+// however many postings a query reads.
+const skillSearchTerms = defineTable({
+  term: v.string(),
+  docFrequency: v.number(),
+}).index('by_term', ['term'])
+
+const skillSearchStats = defineTable({
+  key: v.string(),
+  docCount: v.number(),
+  totalLength: v.number(),
+  updatedAt: v.number(),
+}).index('by_key', ['key'])
+
 const skillDailyStats = defineTable({
   skillId: v.id('skills'),
   day: v.number(),
   downloads: v.number(),
   installs: v.number(),
+  // Stars gained that day (net of unstars); absent on rows from before star tracking.
+  stars: v.optional(v.number()),
   updatedAt: v.number(),
 })
   .index('by_skill_day', ['skillId', 'day'])
   .index('by_day', ['day'])
 
 const skillLeaderboards = defineTable({
+  // 'trending' | 'rising' | 'new' | 'top-month', or a scoped 'category:<slug>' / 'os:<os>'.
   kind: v.string(),
   generatedAt: v.number(),
   rangeStartDay: v.number(),
@@ -339,9 +505,13 @@ const skillLeaderboards = defineTable({
       score: v.number(),
       installs: v.number(),
       downloads: v.number(),
+      stars: v.optional(v.number()),
+      previousInstalls: v.optional(v.number()),
     }),
   ),
-}).index('by_kind', ['kind', 'generatedAt'])
+})
+  .index('by_kind', ['kind', 'generatedAt'])
+  .index('by_generated', ['generatedAt'])
 
 const skillStatBackfillState = defineTable({
   key: v.string(),
@@ -380,6 +550,7 @@ const skillStatEvents = defineTable({
 })
   .index('by_unprocessed', ['processedAt'])
   .index('by_skill', ['skillId'])
+  .index('by_skill_kind_occurred', ['skillId', 'kind', 'occurredAt'])
 
 const skillStatUpdateCursors = defineTable({
   key: v.string(),
@@ -392,6 +563,11 @@ const soulEmbeddings = defineTable({
   versionId: v.id('soulVersions'),
   ownerId: v.id('users'),
   embedding: v.array(v.number()),
+  // Provider id that produced `embedding`; unset on rows that predate providers (OpenAI).
+  embeddingModel: v.optional(v.string()),
+  // Staging slot for a model migration, indexed separately so search can cut over atomically.
+  embeddingNext: v.optional(v.array(v.number())),
+  embeddingNextModel: v.optional(v.string()),
   isLatest: v.boolean(),
   isApproved: v.boolean(),
   visibility: v.string(),
@@ -404,11 +580,21 @@ const soulEmbeddings = defineTable({
     dimensions: EMBEDDING_DIMENSIONS,
     filterFields: ['visibility'],
   })
+  .vectorIndex('by_embedding_next', {
+    vectorField: 'embeddingNext',
+    dimensions: NEXT_EMBEDDING_DIMENSIONS,
+    filterFields: ['visibility'],
+  })
 
 const comments = defineTable({
   skillId: v.id('skills'),
   userId: v.id('users'),
+  // Replies are one level deep: replying to a reply attaches to its top-level comment.
+  parentCommentId: v.optional(v.id('comments')),
   body: v.string(),
+  editedAt: v.optional(v.number()),
+  pinnedAt: v.optional(v.number()),
+  pinnedBy: v.optional(v.id('users')),
   reportCount: v.optional(v.number()),
   lastReportedAt: v.optional(v.number()),
   scamScanVerdict: v.optional(
@@ -425,9 +611,18 @@ const comments = defineTable({
   deletedBy: v.optional(v.id('users')),
 })
   .index('by_skill', ['skillId'])
+  .index('by_skill_pinned', ['skillId', 'pinnedAt'])
   .index('by_user', ['userId'])
   .index('by_scam_scan_checked', ['scamScanCheckedAt'])
 
+// Previous bodies, one row per edit, newest last.
+const commentEdits = defineTable({
+  commentId: v.id('comments'),
+  userId: v.id('users'),
+  previousBody: v.string(),
+  editedAt: v.number(),
+}).index('by_comment', ['commentId', 'editedAt'])
+
 const commentReports = defineTable({
   commentId: v.id('comments'),
   skillId: v.id('skills'),
@@ -452,17 +647,84 @@ const skillReports = defineTable({
   .index('by_user', ['userId'])
   .index('by_skill_user', ['skillId', 'userId'])
 
+// Owner requests to lift a moderation decision, resolved from the management queue.
+const appeals = defineTable({
+  skillId: v.id('skills'),
+  userId: v.id('users'),
+  message: v.string(),
+  status: appealStatusValidator,
+  // The decision being contested, captured when the appeal was filed.
+  decision: v.object({
+    kind: v.string(),
+    reason: v.optional(v.string()),
+    flags: v.optional(v.array(v.string())),
+  }),
+  response: v.optional(v.string()),
+  resolvedBy: v.optional(v.id('users')),
+  resolvedAt: v.optional(v.number()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+})
+  .index('by_skill', ['skillId', 'createdAt'])
+  .index('by_status', ['status', 'createdAt'])
+  .index('by_user', ['userId', 'createdAt'])
+
+// One moderation work item per signal and target, worked from the management queue.
+const moderationCases = defineTable({
+  kind: moderationCaseKindValidator,
+  status: moderationCaseStatusValidator,
+  targetType: v.union(v.literal('skill'), v.literal('comment')),
+  targetId: v.string(),
+  skillId: v.optional(v.id('skills')),
+  commentId: v.optional(v.id('comments')),
+  appealId: v.optional(v.id('appeals')),
+  summary: v.string(),
+  // Reports or flags folded into the case while it was open.
+  signalCount: v.number(),
+  assigneeUserId: v.optional(v.id('users')),
+  assignedAt: v.optional(v.number()),
+  // Internal only; never shown to the owner.
+  notes: v.array(
+    v.object({
+      authorUserId: v.id('users'),
+      body: v.string(),
+      createdAt: v.number(),
+    }),
+  ),
+  slaDueAt: v.number(),
+  resolvedBy: v.optional(v.id('users')),
+  resolvedAt: v.optional(v.number()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+})
+  .index('by_status_due', ['status', 'slaDueAt'])
+  .index('by_kind_target', ['kind', 'targetId'])
+  .index('by_assignee_status', ['assigneeUserId', 'status'])
+  .index('by_skill', ['skillId'])
+
 const soulComments = defineTable({
   soulId: v.id('souls'),
   userId: v.id('users'),
+  parentCommentId: v.optional(v.id('soulComments')),
   body: v.string(),
+  editedAt: v.optional(v.number()),
+  pinnedAt: v.optional(v.number()),
+  pinnedBy: v.optional(v.id('users')),
   createdAt: v.number(),
   softDeletedAt: v.optional(v.number()),
   deletedBy: v.optional(v.id('users')),
 })
   .index('by_soul', ['soulId'])
+  .index('by_soul_pinned', ['soulId', 'pinnedAt'])
   .index('by_user', ['userId'])
 
+const soulCommentEdits = defineTable({
+  commentId: v.id('soulComments'),
+  userId: v.id('users'),
+  previousBody: v.string(),
+  editedAt: v.number(),
+}).index('by_comment', ['commentId', 'editedAt'])
+
 const stars = defineTable({
   skillId: v.id('skills'),
   userId: v.id('users'),
@@ -472,6 +734,15 @@ const stars = defineTable({
   .index('by_user', ['userId'])
   .index('by_skill_user', ['skillId', 'userId'])
 
+const skillDependencies = defineTable({
+  skillId: v.id('skills'),
+  dependencySlug: v.string(),
+  range: v.optional(v.string()),
+  updatedAt: v.number(),
+})
+  .index('by_skill', ['skillId'])
+  .index('by_dependency', ['dependencySlug'])
+
 const soulStars = defineTable({
   soulId: v.id('souls'),
   userId: v.id('users'),
@@ -515,6 +786,8 @@ const apiTokens = defineTable({
   label: v.string(),
   prefix: v.string(),
   tokenHash: v.string(),
+  scopes: v.optional(v.array(v.string())),
+  expiresAt: v.optional(v.number()),
   createdAt: v.number(),
   lastUsedAt: v.optional(v.number()),
   revokedAt: v.optional(v.number()),
@@ -522,6 +795,53 @@ const apiTokens = defineTable({
   .index('by_user', ['userId'])
   .index('by_hash', ['tokenHash'])
 
+const notifications = defineTable({
+  userId: v.id('users'),
+  kind: notificationKindValidator,
+  title: v.string(),
+  body: v.optional(v.string()),
+  // Site-relative link, e.g. the skill page.
+  url: v.optional(v.string()),
+  data: v.optional(v.any()),
+  dedupeKey: v.optional(v.string()),
+  readAt: v.optional(v.number()),
+  createdAt: v.number(),
+})
+  .index('by_user', ['userId', 'createdAt'])
+  .index('by_user_read', ['userId', 'readAt', 'createdAt'])
+  .index('by_user_dedupe', ['userId', 'dedupeKey'])
+
+const webhookEndpoints = defineTable({
+  userId: v.id('users'),
+  url: v.string(),
+  label: v.optional(v.string()),
+  secret: v.string(),
+  events: v.array(v.string()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+  disabledAt: v.optional(v.number()),
+  lastDeliveryAt: v.optional(v.number()),
+  lastDeliveryStatus: v.optional(v.union(v.literal('success'), v.literal('failed'))),
+}).index('by_user', ['userId'])
+
+const webhookDeliveries = defineTable({
+  endpointId: v.id('webhookEndpoints'),
+  userId: v.id('users'),
+  event: v.string(),
+  payload: v.string(),
+  status: v.union(v.literal('pending'), v.literal('success'), v.literal('failed')),
+  attempts: v.number(),
+  nextAttemptAt: v.optional(v.number()),
+  lastAttemptAt: v.optional(v.number()),
+  responseStatus: v.optional(v.number()),
+  error: v.optional(v.string()),
+  createdAt: v.number(),
+  deliveredAt: v.optional(v.number()),
+})
+  .index('by_endpoint', ['endpointId', 'createdAt'])
+  .index('by_status_next_attempt', ['status', 'nextAttemptAt'])
+  .index('by_created', ['createdAt'])
+
 const rateLimits = defineTable({
   key: v.string(),
   windowStart: v.number(),
@@ -601,15 +921,26 @@ const userSkillRootInstalls = defineTable({
 export default defineSchema({
   ...authTables,
   users,
+  orgs,
+  orgMembers,
   skills,
+  skillShares,
+  collections,
+  collectionItems,
   souls,
   skillVersions,
+  scanResults,
+  scanRulesets,
   soulVersions,
   skillVersionFingerprints,
   skillBadges,
   soulVersionFingerprints,
   skillEmbeddings,
   embeddingSkillMap,
+  skillSearchDocs,
+  skillSearchPostings,
+  skillSearchTerms,
+  skillSearchStats,
   soulEmbeddings,
   skillDailyStats,
   skillLeaderboards,
@@ -618,14 +949,22 @@ export default defineSchema({
   skillStatEvents,
   skillStatUpdateCursors,
   comments,
+  commentEdits,
   commentReports,
   skillReports,
+  appeals,
+  moderationCases,
   soulComments,
+  soulCommentEdits,
   stars,
   soulStars,
+  skillDependencies,
   auditLogs,
   vtScanLogs,
   apiTokens,
+  notifications,
+  webhookEndpoints,
+  webhookDeliveries,
   rateLimits,
   downloadDedupes,
   reservedSlugs,
@@ -2,13 +2,20 @@
 
 import { describe, expect, it, vi } from 'vitest'
 import { tokenize } from './lib/searchText'
-import { __test, hydrateResults, lexicalFallbackSkills, searchSkills } from './search'
+import {
+  __test,
+  hydrateResults,
+  lexicalFallbackSkills,
+  searchSkills,
+  searchSkillsWithFacets,
+} from './search'
 
 const { generateEmbeddingMock } = vi.hoisted(() => ({
   generateEmbeddingMock: vi.fn(),
 }))
 
-vi.mock('./lib/embeddings', () => ({
+vi.mock('./lib/embeddings', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./lib/embeddings')>()),
   generateEmbedding: generateEmbeddingMock,
 }))
 
@@ -25,6 +32,17 @@ type WrappedHandler = {
 }
 
 const searchSkillsHandler = (searchSkills as unknown as WrappedHandler)._handler
+const searchSkillsWithFacetsHandler = (
+  searchSkillsWithFacets as unknown as {
+    _handler: (
+      ctx: unknown,
+      args: unknown,
+    ) => Promise<{
+      results: Array<{ skill: { slug: string }; score: number; explain?: { total: number } }>
+      facets: Record<string, Array<{ value: string; count: number }>>
+    }>
+  }
+)._handler
 const lexicalFallbackSkillsHandler = (lexicalFallbackSkills as unknown as WrappedHandler)._handler
 const hydrateResultsHandler = (
   hydrateResults as unknown as {
@@ -48,6 +66,7 @@ describe('search helpers', () => {
     ]
     const runQuery = vi
       .fn()
+      .mockResolvedValueOnce([]) // bm25SearchSkills
       .mockResolvedValueOnce([]) // hydrateResults
       .mockResolvedValueOnce(fallback) // lexicalFallbackSkills
 
@@ -184,6 +203,7 @@ describe('search helpers', () => {
 
     const runQuery = vi
       .fn()
+      .mockResolvedValueOnce([]) // bm25SearchSkills
       .mockResolvedValueOnce(vectorEntries) // hydrateResults
       .mockResolvedValueOnce(fallbackEntries) // lexicalFallbackSkills
 
@@ -203,6 +223,143 @@ describe('search helpers', () => {
     expect(new Set(result.map((entry: { skill: { _id: string } }) => entry.skill._id)).size).toBe(2)
   })
 
+  it('applies facet filters to results and counts facets over all query matches', async () => {
+    generateEmbeddingMock.mockResolvedValueOnce([0, 1, 2])
+    const entry = (slug: string, os: string[], requiresEnv: boolean) => ({
+      embeddingId: `skillEmbeddings:${slug}`,
+      skill: makePublicSkill({ id: `skills:${slug}`, slug, displayName: slug }),
+      version: null,
+      ownerHandle: 'owner',
+      owner: null,
+      runtimeFacets: { os, bins: [], requiresEnv, installKinds: [], nixPlugin: false },
+    })
+    const runQuery = vi
+      .fn()
+      .mockResolvedValueOnce([]) // bm25SearchSkills
+      .mockResolvedValueOnce([
+        entry('crab-any', [], false),
+        entry('crab-mac', ['macos'], false),
+        entry('crab-key', ['linux'], true),
+      ])
+      .mockResolvedValueOnce([])
+
+    const { results, facets } = await searchSkillsWithFacetsHandler(
+      { vectorSearch: vi.fn().mockResolvedValue([]), runQuery },
+      { query: 'crab', filters: { os: ['linux'], env: 'none' } },
+    )
+
+    expect(results.map((result) => result.skill.slug)).toEqual(['crab-any'])
+    expect(facets.os).toEqual([
+      { value: 'macos', count: 2 },
+      { value: 'linux', count: 1 },
+      { value: 'windows', count: 1 },
+    ])
+    expect(facets.env).toEqual([
+      { value: 'none', count: 1 },
+      { value: 'required', count: 1 },
+    ])
+  })
+
+  it('fuses BM25 hits into vector results and explains each component', async () => {
+    generateEmbeddingMock.mockResolvedValueOnce([0, 1, 2])
+    const entry = (slug: string, downloads = 0) => ({
+      embeddingId: `skillEmbeddings:${slug}`,
+      skill: makePublicSkill({ id: `skills:${slug}`, slug, displayName: slug, downloads }),
+      version: null,
+      ownerHandle: 'owner',
+      owner: null,
+      runtimeFacets: null,
+    })
+    const { embeddingId: _embeddingId, ...keywordOnly } = entry('pdf-tables')
+    const runQuery = vi
+      .fn()
+      .mockResolvedValueOnce([
+        { ...keywordOnly, bm25: { score: 4, terms: [{ term: 'pdf', score: 4 }] } },
+        { ...entry('pdf-merge'), bm25: { score: 2, terms: [{ term: 'pdf', score: 2 }] } },
+      ]) // bm25SearchSkills
+      .mockResolvedValueOnce([entry('pdf-merge'), entry('pdf-ocr')]) // hydrateResults
+
+    const { results } = await searchSkillsWithFacetsHandler(
+      {
+        vectorSearch: vi.fn().mockResolvedValue([
+          { _id: 'skillEmbeddings:pdf-merge', _score: 0.5 },
+          { _id: 'skillEmbeddings:pdf-ocr', _score: 0.7 },
+        ]),
+        runQuery,
+      },
+      { query: 'pdf', explain: true },
+    )
+
+    expect(results.map((result) => result.skill.slug)).toEqual([
+      'pdf-merge',
+      'pdf-ocr',
+      'pdf-tables',
+    ])
+    const [merge] = results
+    expect(merge.explain).toMatchObject({
+      vector: { score: 0.5, rank: 2, contribution: 0.5 },
+      bm25: { score: 2, rank: 2, contribution: 0.3, terms: [{ term: 'pdf', score: 2 }] },
+      lexicalBoost: 2.5,
+      popularity: 0,
+    })
+    expect(merge.explain?.total).toBeCloseTo(merge.score)
+    expect(runQuery).toHaveBeenCalledTimes(2)
+  })
+
+  it('still answers from BM25 when embedding generation fails', async () => {
+    generateEmbeddingMock.mockRejectedValueOnce(new Error('embeddings down'))
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const vectorSearch = vi.fn()
+    const runQuery = vi.fn().mockResolvedValueOnce([
+      {
+        skill: makePublicSkill({ id: 'skills:orf', slug: 'orf', displayName: 'ORF' }),
+        version: null,
+        ownerHandle: 'owner',
+        owner: null,
+        runtimeFacets: null,
+        bm25: { score: 1, terms: [{ term: 'orf', score: 1 }] },
+      },
+    ])
+
+    const result = await searchSkillsHandler({ vectorSearch, runQuery }, { query: 'orf' })
+
+    expect(result.map((entry) => entry.skill.slug)).toEqual(['orf'])
+    expect(result[0]).not.toHaveProperty('explain')
+    expect(vectorSearch).not.toHaveBeenCalled()
+    warnSpy.mockRestore()
+  })
+
+  it('falls back to vector results when BM25 ranking fails', async () => {
+    generateEmbeddingMock.mockResolvedValueOnce([0, 1, 2])
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const runQuery = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('index unavailable')) // bm25SearchSkills
+      .mockResolvedValueOnce([
+        {
+          embeddingId: 'skillEmbeddings:orf',
+          skill: makePublicSkill({ id: 'skills:orf', slug: 'orf', displayName: 'ORF' }),
+          version: null,
+          ownerHandle: 'owner',
+          owner: null,
+          runtimeFacets: null,
+        },
+      ]) // hydrateResults
+      .mockResolvedValueOnce([]) // lexicalFallbackSkills
+
+    const result = await searchSkillsHandler(
+      {
+        vectorSearch: vi.fn().mockResolvedValue([{ _id: 'skillEmbeddings:orf', _score: 0.8 }]),
+        runQuery,
+      },
+      { query: 'orf' },
+    )
+
+    expect(result.map((entry) => entry.skill.slug)).toEqual(['orf'])
+    expect(warnSpy).toHaveBeenCalledWith('Search BM25 ranking failed', expect.any(Error))
+    warnSpy.mockRestore()
+  })
+
   it('filters suspicious vector results in hydrateResults when requested', async () => {
     const result = await hydrateResultsHandler(
       {
@@ -1,13 +1,36 @@
 import { v } from 'convex/values'
 import { internal } from './_generated/api'
 import type { Doc, Id } from './_generated/dataModel'
-import type { QueryCtx } from './_generated/server'
+import type { ActionCtx, QueryCtx } from './_generated/server'
 import { action, internalQuery } from './_generated/server'
 import { isSkillHighlighted } from './lib/badges'
-import { generateEmbedding } from './lib/embeddings'
+import {
+  EMBEDDING_VECTOR_INDEX,
+  generateEmbedding,
+  getSearchEmbeddingSlot,
+} from './lib/embeddings'
 import { toPublicSkill, toPublicSoul, toPublicUser } from './lib/public'
+import {
+  countSearchFacets,
+  getSearchFacetValues,
+  hasSearchFilters,
+  matchesSearchFilters,
+  type SearchFacetCounts,
+  type SkillRuntimeFacets,
+  type SkillSearchFilters,
+} from './lib/searchFacets'
+import {
+  getBm25Contribution,
+  getSearchQueryTerms,
+  PREFIX_MIN_LENGTH,
+  scoreBm25,
+  type Bm25Posting,
+  type Bm25TermMatch,
+} from './lib/searchIndex'
 import { matchesExactTokens, tokenize } from './lib/searchText'
 import { isSkillSuspicious } from './lib/skillSafety'
+import { isSkillListed } from './lib/skillVisibility'
+import { SEARCH_STATS_KEY } from './searchIndex'
 
 type OwnerInfo = { handle: string | null; owner: ReturnType<typeof toPublicUser> | null }
 
@@ -31,9 +54,52 @@ type SkillSearchEntry = {
   version: Doc<'skillVersions'> | null
   ownerHandle: string | null
   owner: ReturnType<typeof toPublicUser> | null
+  runtimeFacets: SkillRuntimeFacets | null
 }
 
-type SearchResult = SkillSearchEntry & { score: number }
+type Bm25SearchEntry = SkillSearchEntry & { bm25: { score: number; terms: Bm25TermMatch[] } }
+
+/** How a result's score was assembled; returned when a search asks to `explain`. */
+type SearchExplanation = {
+  vector: { score: number; rank: number; contribution: number } | null
+  bm25: { score: number; rank: number; contribution: number; terms: Bm25TermMatch[] } | null
+  lexicalBoost: number
+  popularity: number
+  total: number
+}
+
+type SearchResult = SkillSearchEntry & { score: number; explain?: SearchExplanation }
+
+type FacetedSearchResult = { results: SearchResult[]; facets: SearchFacetCounts }
+
+const searchFiltersValidator = v.object({
+  os: v.optional(v.array(v.string())),
+  bins: v.optional(v.array(v.string())),
+  env: v.optional(v.union(v.literal('required'), v.literal('none'))),
+  install: v.optional(v.array(v.string())),
+  nix: v.optional(v.boolean()),
+  official: v.optional(v.boolean()),
+  deprecated: v.optional(v.boolean()),
+  owner: v.optional(v.string()),
+})
+
+const skillSearchArgs = {
+  query: v.string(),
+  limit: v.optional(v.number()),
+  highlightedOnly: v.optional(v.boolean()),
+  nonSuspiciousOnly: v.optional(v.boolean()),
+  filters: v.optional(searchFiltersValidator),
+  explain: v.optional(v.boolean()),
+}
+
+type SkillSearchArgs = {
+  query: string
+  limit?: number
+  highlightedOnly?: boolean
+  nonSuspiciousOnly?: boolean
+  filters?: SkillSearchFilters
+  explain?: boolean
+}
 
 const SLUG_EXACT_BOOST = 1.4
 const SLUG_PREFIX_BOOST = 0.8
@@ -41,6 +107,10 @@ const NAME_EXACT_BOOST = 1.1
 const NAME_PREFIX_BOOST = 0.6
 const POPULARITY_WEIGHT = 0.08
 const FALLBACK_SCAN_LIMIT = 500
+const BM25_CANDIDATE_LIMIT = 200
+const BM25_POSTINGS_PER_TERM = 1000
+// Longer terms a query term may expand to; exact postings have their own budget.
+const BM25_PREFIX_POSTINGS_PER_TERM = 500
 
 function getNextCandidateLimit(current: number, max: number) {
   const next = Math.min(current * 2, max)
@@ -82,16 +152,25 @@ function getLexicalBoost(queryTokens: string[], displayName: string, slug: strin
   return boost
 }
 
+function getPopularityBoost(downloads: number) {
+  return Math.log1p(Math.max(downloads, 0)) * POPULARITY_WEIGHT
+}
+
+/** `retrievalScore` is the fused vector + BM25 score; boosts are added on top. */
 function scoreSkillResult(
   queryTokens: string[],
-  vectorScore: number,
+  retrievalScore: number,
   displayName: string,
   slug: string,
   downloads: number,
 ) {
   const lexicalBoost = getLexicalBoost(queryTokens, displayName, slug)
-  const popularityBoost = Math.log1p(Math.max(downloads, 0)) * POPULARITY_WEIGHT
-  return vectorScore + lexicalBoost + popularityBoost
+  return retrievalScore + lexicalBoost + getPopularityBoost(downloads)
+}
+
+/** 1-based rank of each skill in a list already ordered best-first. */
+function getRanks(entries: SkillSearchEntry[]) {
+  return new Map(entries.map((entry, index) => [entry.skill._id, index + 1]))
 }
 
 function mergeUniqueBySkillId(primary: SkillSearchEntry[], fallback: SkillSearchEntry[]) {
@@ -106,105 +185,176 @@ function mergeUniqueBySkillId(primary: SkillSearchEntry[], fallback: SkillSearch
   return out
 }
 
-export const searchSkills: ReturnType<typeof action> = action({
-  args: {
-    query: v.string(),
-    limit: v.optional(v.number()),
-    highlightedOnly: v.optional(v.boolean()),
-    nonSuspiciousOnly: v.optional(v.boolean()),
-  },
-  handler: async (ctx, args): Promise<SearchResult[]> => {
-    const query = args.query.trim()
-    if (!query) return []
-    const queryTokens = tokenize(query)
-    if (queryTokens.length === 0) return []
-    let vector: number[]
-    try {
-      vector = await generateEmbedding(query)
-    } catch (error) {
-      console.warn('Search embedding generation failed', error)
-      return []
-    }
-    const limit = args.limit ?? 10
-    // Convex vectorSearch max limit is 256; clamp candidate sizes accordingly.
-    const maxCandidate = Math.min(Math.max(limit * 10, 200), 256)
-    let candidateLimit = Math.min(Math.max(limit * 3, 50), 256)
-    let hydrated: SkillSearchEntry[] = []
-    let scoreById = new Map<Id<'skillEmbeddings'>, number>()
-    let exactMatches: SkillSearchEntry[] = []
-
-    while (candidateLimit <= maxCandidate) {
-      const results = await ctx.vectorSearch('skillEmbeddings', 'by_embedding', {
-        vector,
-        limit: candidateLimit,
-        filter: (q) => q.or(q.eq('visibility', 'latest'), q.eq('visibility', 'latest-approved')),
-      })
+async function runSkillSearch(
+  ctx: Pick<ActionCtx, 'runQuery' | 'vectorSearch'>,
+  args: SkillSearchArgs,
+): Promise<FacetedSearchResult> {
+  const filters = args.filters ?? {}
+  const filtering = hasSearchFilters(filters)
+  const empty = { results: [], facets: countSearchFacets([], filters) }
+  const query = args.query.trim()
+  if (!query) return empty
+  const queryTokens = tokenize(query)
+  if (queryTokens.length === 0) return empty
+  const limit = args.limit ?? 10
+
+  // BM25 runs alongside embedding generation, and still answers if the embedding fails.
+  // If BM25 fails instead, the vector and lexical results answer on their own.
+  const bm25Promise = (
+    ctx.runQuery(internal.search.bm25SearchSkills, {
+      queryTerms: getSearchQueryTerms(query),
+      limit: Math.min(Math.max(limit * 4, 50), BM25_CANDIDATE_LIMIT),
+      highlightedOnly: args.highlightedOnly,
+      nonSuspiciousOnly: args.nonSuspiciousOnly,
+    }) as Promise<Bm25SearchEntry[]>
+  ).catch((error: unknown) => {
+    console.warn('Search BM25 ranking failed', error)
+    return [] as Bm25SearchEntry[]
+  })
+  const slot = getSearchEmbeddingSlot()
+  let vector: number[] | null = null
+  try {
+    vector = await generateEmbedding(query, slot)
+  } catch (error) {
+    console.warn('Search embedding generation failed', error)
+  }
+  const bm25Matches = await bm25Promise
+
+  const matchesFilters = (entry: SkillSearchEntry) =>
+    !filtering || matchesSearchFilters(getSearchFacetValues(entry), filters)
+  // Convex vectorSearch max limit is 256; clamp candidate sizes accordingly.
+  const maxCandidate = Math.min(Math.max(limit * 10, 200), 256)
+  let candidateLimit = Math.min(Math.max(limit * 3, 50), 256)
+  let hydrated: SkillSearchEntry[] = []
+  let scoreById = new Map<Id<'skillEmbeddings'>, number>()
+  let queryMatches: SkillSearchEntry[] = []
+  let exactMatches: SkillSearchEntry[] = []
+
+  while (vector && candidateLimit <= maxCandidate) {
+    const results = await ctx.vectorSearch('skillEmbeddings', EMBEDDING_VECTOR_INDEX[slot], {
+      vector,
+      limit: candidateLimit,
+      filter: (q) => q.or(q.eq('visibility', 'latest'), q.eq('visibility', 'latest-approved')),
+    })
+
+    hydrated = (await ctx.runQuery(internal.search.hydrateResults, {
+      embeddingIds: results.map((result) => result._id),
+      nonSuspiciousOnly: args.nonSuspiciousOnly,
+    })) as SkillSearchEntry[]
+
+    scoreById = new Map<Id<'skillEmbeddings'>, number>(
+      results.map((result) => [result._id, result._score]),
+    )
 
-      hydrated = (await ctx.runQuery(internal.search.hydrateResults, {
-        embeddingIds: results.map((result) => result._id),
-        nonSuspiciousOnly: args.nonSuspiciousOnly,
-      })) as SkillSearchEntry[]
+    // Skills already have badges from their docs (via toPublicSkill).
+    // No need for a separate badge table lookup.
+    const filtered = args.highlightedOnly
+      ? hydrated.filter((entry) => isSkillHighlighted(entry.skill))
+      : hydrated
+
+    queryMatches = filtered.filter((entry) =>
+      matchesExactTokens(queryTokens, [
+        entry.skill.displayName,
+        entry.skill.slug,
+        entry.skill.summary,
+      ]),
+    )
+    exactMatches = queryMatches.filter(matchesFilters)
 
-      scoreById = new Map<Id<'skillEmbeddings'>, number>(
-        results.map((result) => [result._id, result._score]),
-      )
+    if (exactMatches.length >= limit || results.length < candidateLimit) {
+      break
+    }
 
-      // Skills already have badges from their docs (via toPublicSkill).
-      // No need for a separate badge table lookup.
-      const filtered = args.highlightedOnly
-        ? hydrated.filter((entry) => isSkillHighlighted(entry.skill))
-        : hydrated
+    const nextLimit = getNextCandidateLimit(candidateLimit, maxCandidate)
+    if (!nextLimit) break
+    candidateLimit = nextLimit
+  }
 
-      exactMatches = filtered.filter((entry) =>
-        matchesExactTokens(queryTokens, [
-          entry.skill.displayName,
-          entry.skill.slug,
-          entry.skill.summary,
-        ]),
+  const vectorScoreOf = (entry: SkillSearchEntry) =>
+    entry.embeddingId ? (scoreById.get(entry.embeddingId) ?? 0) : 0
+  const vectorRanked = [...queryMatches].sort((a, b) => vectorScoreOf(b) - vectorScoreOf(a))
+  const vectorRanks = getRanks(vectorRanked)
+  const bm25Ranks = getRanks(bm25Matches)
+  const bm25ById = new Map(bm25Matches.map((entry) => [entry.skill._id, entry.bm25]))
+  const maxBm25Score = Math.max(0, ...bm25Matches.map((entry) => entry.bm25.score))
+
+  // The recency scan only backs up an index that hasn't been built yet; it adds
+  // candidates but no rank of its own.
+  const fallbackMatches =
+    bm25Matches.length > 0 || exactMatches.length >= limit
+      ? []
+      : ((await ctx.runQuery(internal.search.lexicalFallbackSkills, {
+          query,
+          queryTokens,
+          limit: Math.min(Math.max(limit * 4, 200), FALLBACK_SCAN_LIMIT),
+          highlightedOnly: args.highlightedOnly,
+          nonSuspiciousOnly: args.nonSuspiciousOnly,
+        })) as SkillSearchEntry[])
+
+  // Facet counts cover every query match; results only the ones passing the filters.
+  const allMatches = mergeUniqueBySkillId(
+    mergeUniqueBySkillId(vectorRanked, bm25Matches.map(toSearchEntry)),
+    fallbackMatches,
+  )
+  const mergedMatches = allMatches.filter(matchesFilters)
+
+  const results = mergedMatches
+    .map((entry) => {
+      const vectorRank = vectorRanks.get(entry.skill._id) ?? null
+      const bm25Rank = bm25Ranks.get(entry.skill._id) ?? null
+      const bm25 = bm25ById.get(entry.skill._id) ?? null
+      const vectorScore = vectorScoreOf(entry)
+      const bm25Contribution = getBm25Contribution(bm25?.score ?? null, maxBm25Score)
+      const score = scoreSkillResult(
+        queryTokens,
+        vectorScore + bm25Contribution,
+        entry.skill.displayName,
+        entry.skill.slug,
+        entry.skill.stats.downloads,
       )
-
-      if (exactMatches.length >= limit || results.length < candidateLimit) {
-        break
+      const result: SearchResult = { ...entry, score }
+      if (args.explain) {
+        result.explain = {
+          vector:
+            vectorRank === null
+              ? null
+              : { score: vectorScore, rank: vectorRank, contribution: vectorScore },
+          bm25:
+            bm25Rank === null || !bm25
+              ? null
+              : { ...bm25, rank: bm25Rank, contribution: bm25Contribution },
+          lexicalBoost: getLexicalBoost(queryTokens, entry.skill.displayName, entry.skill.slug),
+          popularity: getPopularityBoost(entry.skill.stats.downloads),
+          total: score,
+        }
       }
+      return result
+    })
+    .filter((entry) => entry.skill)
+    .sort((a, b) => b.score - a.score || b.skill.stats.downloads - a.skill.stats.downloads)
+    .slice(0, limit)
 
-      const nextLimit = getNextCandidateLimit(candidateLimit, maxCandidate)
-      if (!nextLimit) break
-      candidateLimit = nextLimit
-    }
+  return { results, facets: countSearchFacets(allMatches, filters) }
+}
 
-    const fallbackMatches =
-      exactMatches.length >= limit
-        ? []
-        : ((await ctx.runQuery(internal.search.lexicalFallbackSkills, {
-            query,
-            queryTokens,
-            limit: Math.min(Math.max(limit * 4, 200), FALLBACK_SCAN_LIMIT),
-            highlightedOnly: args.highlightedOnly,
-            nonSuspiciousOnly: args.nonSuspiciousOnly,
-          })) as SkillSearchEntry[])
-
-    const mergedMatches = mergeUniqueBySkillId(exactMatches, fallbackMatches)
-
-    return mergedMatches
-      .map((entry) => {
-        const vectorScore = entry.embeddingId ? (scoreById.get(entry.embeddingId) ?? 0) : 0
-        return {
-          ...entry,
-          score: scoreSkillResult(
-            queryTokens,
-            vectorScore,
-            entry.skill.displayName,
-            entry.skill.slug,
-            entry.skill.stats.downloads,
-          ),
-        }
-      })
-      .filter((entry) => entry.skill)
-      .sort((a, b) => b.score - a.score || b.skill.stats.downloads - a.skill.stats.downloads)
-      .slice(0, limit)
+function toSearchEntry({ bm25: _bm25, ...entry }: Bm25SearchEntry): SkillSearchEntry {
+  return entry
+}
+
+export const searchSkills: ReturnType<typeof action> = action({
+  args: skillSearchArgs,
+  handler: async (ctx, args): Promise<SearchResult[]> => {
+    const { results } = await runSkillSearch(ctx, args)
+    return results
   },
 })
 
+/** Same ranking as `searchSkills`, plus per-facet value counts for the matched skills. */
+export const searchSkillsWithFacets: ReturnType<typeof action> = action({
+  args: skillSearchArgs,
+  handler: async (ctx, args): Promise<FacetedSearchResult> => runSkillSearch(ctx, args),
+})
+
 export const hydrateResults = internalQuery({
   args: {
     embeddingIds: v.array(v.id('skillEmbeddings')),
@@ -227,6 +377,8 @@ export const hydrateResults = internalQuery({
         if (!skillId) return null
         const skill = await ctx.db.get(skillId)
         if (!skill || skill.softDeletedAt) return null
+        // Embedding visibility already excludes these; guard against rows not yet resynced.
+        if (!isSkillListed(skill)) return null
         if (args.nonSuspiciousOnly && isSkillSuspicious(skill)) return null
         const ownerInfo = await getOwnerInfo(skill.ownerUserId)
         const publicSkill = toPublicSkill(skill)
@@ -237,6 +389,7 @@ export const hydrateResults = internalQuery({
           version: null as Doc<'skillVersions'> | null,
           ownerHandle: ownerInfo.handle,
           owner: ownerInfo.owner,
+          runtimeFacets: skill.runtimeFacets ?? null,
         }
       }),
     )
@@ -267,6 +420,7 @@ export const lexicalFallbackSkills = internalQuery({
       if (
         exactSlugSkill &&
         !exactSlugSkill.softDeletedAt &&
+        isSkillListed(exactSlugSkill) &&
         (!args.nonSuspiciousOnly || !isSkillSuspicious(exactSlugSkill))
       ) {
         seenSkillIds.add(exactSlugSkill._id)
@@ -282,6 +436,7 @@ export const lexicalFallbackSkills = internalQuery({
 
     for (const skill of recentSkills) {
       if (seenSkillIds.has(skill._id)) continue
+      if (!isSkillListed(skill)) continue
       if (args.nonSuspiciousOnly && isSkillSuspicious(skill)) continue
       seenSkillIds.add(skill._id)
       candidateSkills.push(skill)
@@ -304,6 +459,7 @@ export const lexicalFallbackSkills = internalQuery({
           version: null as Doc<'skillVersions'> | null,
           ownerHandle: ownerInfo.handle,
           owner: ownerInfo.owner,
+          runtimeFacets: skill.runtimeFacets ?? null,
         }
       }),
     )
@@ -319,6 +475,86 @@ export const lexicalFallbackSkills = internalQuery({
   },
 })
 
+/**
+ * Ranks skills by BM25 over the inverted index built from SKILL.md body,
+ * summary, name and file names (see searchIndex.ts), then hydrates the top hits.
+ */
+export const bm25SearchSkills = internalQuery({
+  args: {
+    queryTerms: v.array(v.string()),
+    limit: v.optional(v.number()),
+    highlightedOnly: v.optional(v.boolean()),
+    nonSuspiciousOnly: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<Bm25SearchEntry[]> => {
+    if (args.queryTerms.length === 0) return []
+    const limit = Math.min(Math.max(args.limit ?? 50, 1), BM25_CANDIDATE_LIMIT)
+    const stats = await ctx.db
+      .query('skillSearchStats')
+      .withIndex('by_key', (q) => q.eq('key', SEARCH_STATS_KEY))
+      .unique()
+    if (!stats || stats.docCount === 0) return []
+
+    const postingsByQueryTerm = new Map<string, Array<Bm25Posting & { docId: Id<'skills'> }>>()
+    const docFrequencies = new Map<string, number>()
+    for (const queryTerm of args.queryTerms) {
+      const postings = await ctx.db
+        .query('skillSearchPostings')
+        .withIndex('by_term', (q) => q.eq('term', queryTerm))
+        .take(BM25_POSTINGS_PER_TERM)
+      if (queryTerm.length >= PREFIX_MIN_LENGTH) {
+        const prefixPostings = await ctx.db
+          .query('skillSearchPostings')
+          .withIndex('by_term', (q) => q.gt('term', queryTerm).lt('term', `${queryTerm}\uffff`))
+          .take(BM25_PREFIX_POSTINGS_PER_TERM)
+        postings.push(...prefixPostings)
+      }
+      for (const term of new Set(postings.map((posting) => posting.term))) {
+        if (docFrequencies.has(term)) continue
+        const entry = await ctx.db
+          .query('skillSearchTerms')
+          .withIndex('by_term', (q) => q.eq('term', term))
+          .unique()
+        if (entry) docFrequencies.set(term, entry.docFrequency)
+      }
+      postingsByQueryTerm.set(
+        queryTerm,
+        postings.map((posting) => ({
+          term: posting.term,
+          weight: posting.weight,
+          docLength: posting.docLength,
+          docId: posting.skillId,
+        })),
+      )
+    }
+
+    const ranked = [
+      ...scoreBm25(args.queryTerms, postingsByQueryTerm, stats, docFrequencies).entries(),
+    ].sort((a, b) => b[1].score - a[1].score)
+    const getOwnerInfo = makeOwnerInfoGetter(ctx)
+    const entries: Bm25SearchEntry[] = []
+    for (const [skillId, bm25] of ranked) {
+      if (entries.length >= limit) break
+      const skill = await ctx.db.get(skillId)
+      if (!skill || skill.softDeletedAt || !isSkillListed(skill)) continue
+      if (args.nonSuspiciousOnly && isSkillSuspicious(skill)) continue
+      const publicSkill = toPublicSkill(skill)
+      if (!publicSkill) continue
+      if (args.highlightedOnly && !isSkillHighlighted(publicSkill)) continue
+      const ownerInfo = await getOwnerInfo(skill.ownerUserId)
+      entries.push({
+        skill: publicSkill,
+        version: null,
+        ownerHandle: ownerInfo.handle,
+        owner: ownerInfo.owner,
+        runtimeFacets: skill.runtimeFacets ?? null,
+        bm25,
+      })
+    }
+    return entries
+  },
+})
+
 type HydratedSoulEntry = {
   embeddingId: Id<'soulEmbeddings'>
   soul: NonNullable<ReturnType<typeof toPublicSoul>>
@@ -337,9 +573,10 @@ export const searchSouls: ReturnType<typeof action> = action({
     if (!query) return []
     const queryTokens = tokenize(query)
     if (queryTokens.length === 0) return []
+    const slot = getSearchEmbeddingSlot()
     let vector: number[]
     try {
-      vector = await generateEmbedding(query)
+      vector = await generateEmbedding(query, slot)
     } catch (error) {
       console.warn('Search embedding generation failed', error)
       return []
@@ -353,7 +590,7 @@ export const searchSouls: ReturnType<typeof action> = action({
     let exactMatches: HydratedSoulEntry[] = []
 
     while (candidateLimit <= maxCandidate) {
-      const results = await ctx.vectorSearch('soulEmbeddings', 'by_embedding', {
+      const results = await ctx.vectorSearch('soulEmbeddings', EMBEDDING_VECTOR_INDEX[slot], {
         vector,
         limit: candidateLimit,
         filter: (q) => q.or(q.eq('visibility', 'latest'), q.eq('visibility', 'latest-approved')),
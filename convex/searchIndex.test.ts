@@ -0,0 +1,95 @@
+/* @vitest-environment node */
+import { describe, expect, it, vi } from 'vitest'
+import type { Doc } from './_generated/dataModel'
+import { replaceSkillSearchDocInternal, syncSkillSearchDoc } from './searchIndex'
+
+const liveSkill = {
+  _id: 'skills:1',
+  latestVersionId: 'skillVersions:1',
+} as unknown as Doc<'skills'>
+const deletedSkill = { ...liveSkill, softDeletedAt: 10 } as Doc<'skills'>
+
+function makeCtx() {
+  const stats = { _id: 'skillSearchStats:1', docCount: 3, totalLength: 90 }
+  const byTable: Record<string, unknown[]> = {
+    skillSearchPostings: [
+      { _id: 'skillSearchPostings:1', term: 'pdf' },
+      { _id: 'skillSearchPostings:2', term: 'pdf' },
+    ],
+    skillSearchTerms: [{ _id: 'skillSearchTerms:pdf', docFrequency: 4 }],
+    skillSearchDocs: [{ _id: 'skillSearchDocs:1', length: 30 }],
+    skillSearchStats: [stats],
+  }
+  const query = vi.fn((table: string) => {
+    const rows = byTable[table]
+    if (!rows) throw new Error(`unexpected table ${table}`)
+    return {
+      withIndex: () => ({
+        collect: async () => rows,
+        unique: async () => rows[0] ?? null,
+      }),
+    }
+  })
+  const db = { query, delete: vi.fn(), patch: vi.fn() }
+  const scheduler = { runAfter: vi.fn() }
+  return { db, scheduler }
+}
+
+describe('syncSkillSearchDoc', () => {
+  it('drops the postings and stats of a skill that was deleted', async () => {
+    const ctx = makeCtx()
+    await syncSkillSearchDoc(ctx as never, liveSkill, deletedSkill)
+
+    expect(ctx.db.delete).toHaveBeenCalledWith('skillSearchPostings:1')
+    expect(ctx.db.delete).toHaveBeenCalledWith('skillSearchPostings:2')
+    expect(ctx.db.delete).toHaveBeenCalledWith('skillSearchDocs:1')
+    expect(ctx.db.patch).toHaveBeenCalledWith('skillSearchTerms:pdf', { docFrequency: 3 })
+    expect(ctx.db.patch).toHaveBeenCalledWith(
+      'skillSearchStats:1',
+      expect.objectContaining({ docCount: 2, totalLength: 60 }),
+    )
+    expect(ctx.scheduler.runAfter).not.toHaveBeenCalled()
+  })
+
+  it('reindexes a restored skill and ignores unrelated updates', async () => {
+    const ctx = makeCtx()
+    await syncSkillSearchDoc(ctx as never, deletedSkill, liveSkill)
+    expect(ctx.scheduler.runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+      versionId: 'skillVersions:1',
+    })
+
+    await syncSkillSearchDoc(ctx as never, liveSkill, { ...liveSkill, summary: 'new' })
+    expect(ctx.scheduler.runAfter).toHaveBeenCalledTimes(1)
+    expect(ctx.db.query).not.toHaveBeenCalled()
+  })
+})
+
+describe('replaceSkillSearchDocInternal', () => {
+  const handler = (
+    replaceSkillSearchDocInternal as unknown as {
+      _handler: (ctx: unknown, args: Record<string, unknown>) => Promise<unknown>
+    }
+  )._handler
+  const args = {
+    skillId: 'skills:1',
+    versionId: 'skillVersions:1',
+    length: 12,
+    terms: [{ term: 'pdf', weight: 1 }],
+  }
+
+  it('skips runs for an older version or a deleted skill', async () => {
+    for (const skill of [
+      { ...liveSkill, latestVersionId: 'skillVersions:2' },
+      deletedSkill,
+      null,
+    ]) {
+      const ctx = makeCtx()
+      const db = { ...ctx.db, get: vi.fn(async () => skill), insert: vi.fn() }
+
+      expect(await handler({ db }, args)).toEqual({ indexed: false })
+      expect(db.query).not.toHaveBeenCalled()
+      expect(db.insert).not.toHaveBeenCalled()
+      expect(db.delete).not.toHaveBeenCalled()
+    }
+  })
+})
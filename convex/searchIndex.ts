@@ -0,0 +1,262 @@
+import { isTextFile } from 'clawhub-schema'
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import type { ActionCtx, MutationCtx } from './_generated/server'
+import { internalAction, internalMutation, internalQuery } from './_generated/server'
+import { buildSkillSearchDocument } from './lib/searchIndex'
+
+export const SEARCH_STATS_KEY = 'default'
+
+const MAX_INDEXED_FILE_PATHS = 200
+
+async function indexSkillVersionHandler(ctx: ActionCtx, versionId: Id<'skillVersions'>) {
+  const version = (await ctx.runQuery(internal.skills.getVersionByIdInternal, {
+    versionId,
+  })) as Doc<'skillVersions'> | null
+  if (!version) return { indexed: false as const }
+  const skill = (await ctx.runQuery(internal.skills.getSkillByIdInternal, {
+    skillId: version.skillId,
+  })) as Doc<'skills'> | null
+  // A newer publish may have landed first; only the latest version is searchable.
+  if (!skill || skill.softDeletedAt || skill.latestVersionId !== versionId) {
+    return { indexed: false as const }
+  }
+
+  const readmeFile = version.files.find((file) => {
+    const path = file.path.toLowerCase()
+    return path === 'skill.md' || path === 'skills.md'
+  })
+  let readme = ''
+  if (readmeFile && isTextFile(readmeFile.path, readmeFile.contentType)) {
+    const blob = await ctx.storage.get(readmeFile.storageId)
+    readme = blob ? await blob.text() : ''
+  }
+
+  const document = buildSkillSearchDocument({
+    slug: skill.slug,
+    displayName: skill.displayName,
+    summary: skill.summary,
+    readme,
+    filePaths: version.files.slice(0, MAX_INDEXED_FILE_PATHS).map((file) => file.path),
+  })
+  const { indexed } = await ctx.runMutation(internal.searchIndex.replaceSkillSearchDocInternal, {
+    skillId: skill._id,
+    versionId,
+    length: document.length,
+    terms: document.terms,
+  })
+  if (!indexed) return { indexed: false as const }
+  return { indexed: true as const, terms: document.terms.length }
+}
+
+async function adjustTermDocFrequencies(
+  ctx: Pick<MutationCtx, 'db'>,
+  terms: string[],
+  delta: 1 | -1,
+) {
+  for (const term of terms) {
+    const existing = await ctx.db
+      .query('skillSearchTerms')
+      .withIndex('by_term', (q) => q.eq('term', term))
+      .unique()
+    const docFrequency = (existing?.docFrequency ?? 0) + delta
+    if (existing && docFrequency <= 0) {
+      await ctx.db.delete(existing._id)
+    } else if (existing) {
+      await ctx.db.patch(existing._id, { docFrequency })
+    } else if (docFrequency > 0) {
+      await ctx.db.insert('skillSearchTerms', { term, docFrequency })
+    }
+  }
+}
+
+/** Rebuilds a skill's postings from its latest version; scheduled after every publish. */
+export const indexSkillVersion = internalAction({
+  args: { versionId: v.id('skillVersions') },
+  handler: async (ctx, args) => indexSkillVersionHandler(ctx, args.versionId),
+})
+
+export const replaceSkillSearchDocInternal = internalMutation({
+  args: {
+    skillId: v.id('skills'),
+    versionId: v.id('skillVersions'),
+    length: v.number(),
+    terms: v.array(v.object({ term: v.string(), weight: v.number() })),
+  },
+  handler: async (ctx, args) => {
+    // Re-checked here: the action read the skill before a slower build, so a newer publish or a
+    // delete may have landed since.
+    const skill = await ctx.db.get(args.skillId)
+    if (!skill || skill.softDeletedAt || skill.latestVersionId !== args.versionId) {
+      return { indexed: false as const }
+    }
+    const postings = await ctx.db
+      .query('skillSearchPostings')
+      .withIndex('by_skill', (q) => q.eq('skillId', args.skillId))
+      .collect()
+    for (const posting of postings) await ctx.db.delete(posting._id)
+    const previousTerms = new Set(postings.map((posting) => posting.term))
+    const nextTerms = new Set(args.terms.map((entry) => entry.term))
+    await adjustTermDocFrequencies(
+      ctx,
+      [...previousTerms].filter((term) => !nextTerms.has(term)),
+      -1,
+    )
+    await adjustTermDocFrequencies(
+      ctx,
+      [...nextTerms].filter((term) => !previousTerms.has(term)),
+      1,
+    )
+    for (const entry of args.terms) {
+      await ctx.db.insert('skillSearchPostings', {
+        term: entry.term,
+        skillId: args.skillId,
+        weight: entry.weight,
+        docLength: args.length,
+      })
+    }
+
+    const now = Date.now()
+    const existing = await ctx.db
+      .query('skillSearchDocs')
+      .withIndex('by_skill', (q) => q.eq('skillId', args.skillId))
+      .unique()
+    const doc = {
+      versionId: args.versionId,
+      length: args.length,
+      termCount: args.terms.length,
+      indexedAt: now,
+    }
+    if (existing) {
+      await ctx.db.patch(existing._id, doc)
+    } else {
+      await ctx.db.insert('skillSearchDocs', { skillId: args.skillId, ...doc })
+    }
+
+    const stats = await ctx.db
+      .query('skillSearchStats')
+      .withIndex('by_key', (q) => q.eq('key', SEARCH_STATS_KEY))
+      .unique()
+    const docDelta = existing ? 0 : 1
+    const lengthDelta = args.length - (existing?.length ?? 0)
+    if (stats) {
+      await ctx.db.patch(stats._id, {
+        docCount: Math.max(0, stats.docCount + docDelta),
+        totalLength: Math.max(0, stats.totalLength + lengthDelta),
+        updatedAt: now,
+      })
+    } else {
+      await ctx.db.insert('skillSearchStats', {
+        key: SEARCH_STATS_KEY,
+        docCount: docDelta,
+        totalLength: Math.max(0, lengthDelta),
+        updatedAt: now,
+      })
+    }
+    return { indexed: true as const }
+  },
+})
+
+/** Drops a skill from the index, e.g. once it is deleted or before a dev seed recreates it. */
+export async function removeSkillSearchDoc(ctx: Pick<MutationCtx, 'db'>, skillId: Id<'skills'>) {
+  const postings = await ctx.db
+    .query('skillSearchPostings')
+    .withIndex('by_skill', (q) => q.eq('skillId', skillId))
+    .collect()
+  for (const posting of postings) await ctx.db.delete(posting._id)
+  await adjustTermDocFrequencies(ctx, postings.map((posting) => posting.term), -1)
+  const doc = await ctx.db
+    .query('skillSearchDocs')
+    .withIndex('by_skill', (q) => q.eq('skillId', skillId))
+    .unique()
+  if (!doc) return
+  await ctx.db.delete(doc._id)
+  const stats = await ctx.db
+    .query('skillSearchStats')
+    .withIndex('by_key', (q) => q.eq('key', SEARCH_STATS_KEY))
+    .unique()
+  if (!stats) return
+  await ctx.db.patch(stats._id, {
+    docCount: Math.max(0, stats.docCount - 1),
+    totalLength: Math.max(0, stats.totalLength - doc.length),
+    updatedAt: Date.now(),
+  })
+}
+
+/** Whether a skill belongs in the index: live and published, as the backfill selects them. */
+export function isSkillSearchIndexable(
+  skill: Pick<Doc<'skills'>, 'softDeletedAt' | 'latestVersionId'> | null | undefined,
+) {
+  return Boolean(skill && !skill.softDeletedAt && skill.latestVersionId)
+}
+
+/**
+ * Keeps the index in step with a skill update: drops a skill that stopped being indexable so
+ * its postings and the BM25 stats do not drift, and reindexes one that came back.
+ */
+export async function syncSkillSearchDoc(
+  ctx: Pick<MutationCtx, 'db' | 'scheduler'>,
+  previousSkill: Doc<'skills'> | null | undefined,
+  nextSkill: Doc<'skills'> | null | undefined,
+) {
+  const wasIndexable = isSkillSearchIndexable(previousSkill)
+  const isIndexable = isSkillSearchIndexable(nextSkill)
+  if (wasIndexable === isIndexable) return
+  if (!isIndexable) {
+    const skillId = (previousSkill ?? nextSkill)?._id
+    if (skillId) await removeSkillSearchDoc(ctx, skillId)
+    return
+  }
+  if (nextSkill?.latestVersionId) {
+    await ctx.scheduler.runAfter(0, internal.searchIndex.indexSkillVersion, {
+      versionId: nextSkill.latestVersionId,
+    })
+  }
+}
+
+export const getSearchIndexBackfillPageInternal = internalQuery({
+  args: { cursor: v.optional(v.string()), batchSize: v.number() },
+  handler: async (ctx, args) => {
+    const { page, continueCursor, isDone } = await ctx.db
+      .query('skills')
+      .paginate({ cursor: args.cursor ?? null, numItems: args.batchSize })
+    const versionIds = page
+      .filter((skill) => !skill.softDeletedAt && skill.latestVersionId)
+      .map((skill) => skill.latestVersionId as Id<'skillVersions'>)
+    return { versionIds, continueCursor, isDone, scanned: page.length }
+  },
+})
+
+/** Indexes every skill's latest version, one page per run, rescheduling until done. */
+export const backfillSkillSearchIndexInternal = internalAction({
+  args: {
+    cursor: v.optional(v.string()),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const batchSize = Math.min(Math.max(Math.trunc(args.batchSize ?? 25), 1), 100)
+    const page = (await ctx.runQuery(internal.searchIndex.getSearchIndexBackfillPageInternal, {
+      cursor: args.cursor,
+      batchSize,
+    })) as { versionIds: Id<'skillVersions'>[]; continueCursor: string; isDone: boolean }
+
+    let indexed = 0
+    for (const versionId of page.versionIds) {
+      try {
+        const result = await indexSkillVersionHandler(ctx, versionId)
+        if (result.indexed) indexed++
+      } catch (error) {
+        console.error('Search index backfill failed for version', versionId, error)
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.searchIndex.backfillSkillSearchIndexInternal, {
+        cursor: page.continueCursor,
+        batchSize: args.batchSize,
+      })
+    }
+    return { indexed, isDone: page.isDone }
+  },
+})
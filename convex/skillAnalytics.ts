@@ -0,0 +1,133 @@
+import { v } from 'convex/values'
+import type { Doc, Id } from './_generated/dataModel'
+import type { QueryCtx } from './_generated/server'
+import { internalQuery, query } from './_generated/server'
+import { requireUser } from './lib/access'
+import {
+  buildSkillAnalytics,
+  clampAnalyticsDays,
+  formatSkillAnalyticsCsv,
+  getAnalyticsRange,
+} from './lib/skillAnalytics'
+import { canManageSkill, canViewSkill } from './lib/skillVisibility'
+
+const MAX_EVENTS_PER_KIND = 5000
+const MAX_INSTALL_ROWS = 5000
+const HISTORY_EVENT_KINDS = ['star', 'unstar', 'comment', 'uncomment'] as const
+
+const formatValidator = v.union(v.literal('json'), v.literal('csv'))
+
+async function loadSkillAnalytics(ctx: QueryCtx, skill: Doc<'skills'>, days: number) {
+  const now = Date.now()
+  const { startDay } = getAnalyticsRange(now, days)
+  const startAt = startDay * 24 * 60 * 60 * 1000
+
+  const dailyStats = await ctx.db
+    .query('skillDailyStats')
+    .withIndex('by_skill_day', (q) => q.eq('skillId', skill._id).gte('day', startDay))
+    .collect()
+  const eventPages = await Promise.all(
+    HISTORY_EVENT_KINDS.map((kind) =>
+      ctx.db
+        .query('skillStatEvents')
+        .withIndex('by_skill_kind_occurred', (q) =>
+          q.eq('skillId', skill._id).eq('kind', kind).gte('occurredAt', startAt),
+        )
+        .take(MAX_EVENTS_PER_KIND),
+    ),
+  )
+  const installs = await ctx.db
+    .query('userSkillInstalls')
+    .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+    .take(MAX_INSTALL_ROWS)
+  const rootInstalls = await ctx.db
+    .query('userSkillRootInstalls')
+    .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+    .take(MAX_INSTALL_ROWS)
+
+  const analytics = buildSkillAnalytics({
+    now,
+    days,
+    dailyStats,
+    events: eventPages.flat(),
+    installs,
+    rootInstalls,
+  })
+  // Very popular skills hit the read caps; the UI flags the affected numbers as partial.
+  const truncated =
+    eventPages.some((page) => page.length >= MAX_EVENTS_PER_KIND) ||
+    installs.length >= MAX_INSTALL_ROWS ||
+    rootInstalls.length >= MAX_INSTALL_ROWS
+  return { ...analytics, truncated }
+}
+
+async function requireManagedSkill(ctx: QueryCtx, skillId: Id<'skills'>) {
+  const { userId } = await requireUser(ctx)
+  const skill = await ctx.db.get(skillId)
+  if (!skill || skill.softDeletedAt) throw new Error('Skill not found')
+  if (!(await canManageSkill(ctx, skill, userId))) {
+    throw new Error('Only the owner can view analytics for this skill')
+  }
+  return skill
+}
+
+function exportAnalytics(
+  slug: string,
+  analytics: Awaited<ReturnType<typeof loadSkillAnalytics>>,
+  format: 'json' | 'csv',
+) {
+  const filename = `${slug}-stats-${analytics.series[0]?.date}-${analytics.series.at(-1)?.date}`
+  if (format === 'csv') {
+    return {
+      filename: `${filename}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      body: formatSkillAnalyticsCsv(analytics),
+    }
+  }
+  return {
+    filename: `${filename}.json`,
+    contentType: 'application/json',
+    body: JSON.stringify({ slug, ...analytics }, null, 2),
+  }
+}
+
+export const getForOwner = query({
+  args: { skillId: v.id('skills'), days: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const skill = await requireManagedSkill(ctx, args.skillId)
+    return loadSkillAnalytics(ctx, skill, clampAnalyticsDays(args.days))
+  },
+})
+
+export const exportForOwner = query({
+  args: { skillId: v.id('skills'), days: v.optional(v.number()), format: formatValidator },
+  handler: async (ctx, args) => {
+    const skill = await requireManagedSkill(ctx, args.skillId)
+    const analytics = await loadSkillAnalytics(ctx, skill, clampAnalyticsDays(args.days))
+    return exportAnalytics(skill.slug, analytics, args.format)
+  },
+})
+
+/** `/api/v1/skills/<slug>/stats`: skills the caller can see but not manage are `forbidden`. */
+export const exportForUserInternal = internalQuery({
+  args: {
+    userId: v.id('users'),
+    slug: v.string(),
+    days: v.optional(v.number()),
+    format: formatValidator,
+  },
+  handler: async (ctx, args) => {
+    const skill = await ctx.db
+      .query('skills')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .unique()
+    if (!skill || skill.softDeletedAt || !(await canViewSkill(ctx, skill, args.userId))) {
+      return { ok: false as const, status: 404, message: 'Skill not found' }
+    }
+    if (!(await canManageSkill(ctx, skill, args.userId))) {
+      return { ok: false as const, status: 403, message: 'Only the owner can export stats' }
+    }
+    const analytics = await loadSkillAnalytics(ctx, skill, clampAnalyticsDays(args.days))
+    return { ok: true as const, ...exportAnalytics(skill.slug, analytics, args.format) }
+  },
+})
@@ -0,0 +1,63 @@
+/* @vitest-environment node */
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@convex-dev/auth/server', () => ({
+  getAuthUserId: vi.fn(async () => null),
+}))
+
+const { checkDependenciesInternal, listForSkill } = await import('./skillDependencies')
+
+type WrappedHandler = {
+  _handler: (ctx: unknown, args: Record<string, unknown>) => Promise<unknown>
+}
+
+const checkHandler = (checkDependenciesInternal as unknown as WrappedHandler)._handler
+const listHandler = (listForSkill as unknown as WrappedHandler)._handler
+
+const privateSkill = {
+  _id: 'skills:private',
+  slug: 'acme-private',
+  ownerUserId: 'users:owner',
+  visibility: 'private',
+}
+
+function makeCtx() {
+  const query = vi.fn((table: string) => ({
+    withIndex: () => {
+      if (table === 'skills') return { unique: async () => privateSkill }
+      if (table === 'skillVersions') return { take: async () => [{ version: '1.0.0' }] }
+      if (table === 'skillShares') return { collect: async () => [], take: async () => [] }
+      throw new Error(`unexpected table ${table}`)
+    },
+  }))
+  const get = vi.fn(async (id: string) => (id === privateSkill._id ? privateSkill : null))
+  return { db: { get, query } }
+}
+
+describe('skillDependencies', () => {
+  it('hides the dependency graph of a private skill from other viewers', async () => {
+    const ctx = makeCtx()
+
+    expect(await listHandler(ctx, { skillId: privateSkill._id })).toEqual({
+      dependsOn: [],
+      usedBy: [],
+    })
+    expect(ctx.db.query).not.toHaveBeenCalledWith('skillDependencies')
+  })
+
+  it('only lets private skills depend on private skills', async () => {
+    const dependencies = [{ slug: 'acme-private', version: '^1.0.0' }]
+
+    expect(
+      await checkHandler(makeCtx(), { dependencies, userId: 'users:owner', visibility: 'public' }),
+    ).toEqual([
+      'Skill dependency acme-private is private; only private skills can depend on it',
+    ])
+    expect(
+      await checkHandler(makeCtx(), { dependencies, userId: 'users:owner', visibility: 'private' }),
+    ).toEqual([])
+    expect(
+      await checkHandler(makeCtx(), { dependencies, userId: 'users:other', visibility: 'private' }),
+    ).toEqual(['Unknown skill dependency: acme-private'])
+  })
+})
@@ -0,0 +1,126 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
+import { findSatisfyingSkillVersion } from 'clawhub-schema'
+import { v } from 'convex/values'
+import type { Doc } from './_generated/dataModel'
+import type { QueryCtx } from './_generated/server'
+import { internalQuery, query } from './_generated/server'
+import { toPublicSkill } from './lib/public'
+import { formatSkillDependency } from './lib/skillDependencies'
+import {
+  canViewSkill,
+  getSkillVisibility,
+  isSkillListed,
+  skillVisibilityValidator,
+} from './lib/skillVisibility'
+
+const MAX_USED_BY = 50
+const MAX_VERSIONS_CHECKED = 500
+
+const dependencyValidator = v.object({
+  slug: v.string(),
+  version: v.optional(v.string()),
+})
+
+function isInstallableDependency(skill: Doc<'skills'> | null): skill is Doc<'skills'> {
+  if (!skill || skill.softDeletedAt) return false
+  if (skill.moderationStatus === 'removed') return false
+  return !(skill.moderationFlags?.includes('blocked.malware') ?? false)
+}
+
+async function getOwnerHandle(ctx: QueryCtx, skill: Doc<'skills'>) {
+  const owner = await ctx.db.get(skill.ownerUserId)
+  if (!owner || owner.deletedAt || owner.deactivatedAt) return null
+  return owner.handle ?? owner.name ?? null
+}
+
+/**
+ * Checks declared dependencies against the registry at publish time.
+ * Returns one human-readable problem per dependency that cannot be satisfied.
+ * Private dependencies are only allowed on private skills: anyone else installing the
+ * dependent could not resolve them.
+ */
+export const checkDependenciesInternal = internalQuery({
+  args: {
+    dependencies: v.array(dependencyValidator),
+    userId: v.id('users'),
+    visibility: skillVisibilityValidator,
+  },
+  handler: async (ctx, args) => {
+    const problems: string[] = []
+    for (const dependency of args.dependencies) {
+      const skill = await ctx.db
+        .query('skills')
+        .withIndex('by_slug', (q) => q.eq('slug', dependency.slug))
+        .unique()
+      if (!isInstallableDependency(skill) || !(await canViewSkill(ctx, skill, args.userId))) {
+        problems.push(`Unknown skill dependency: ${dependency.slug}`)
+        continue
+      }
+      if (getSkillVisibility(skill) === 'private' && args.visibility !== 'private') {
+        problems.push(
+          `Skill dependency ${dependency.slug} is private; only private skills can depend on it`,
+        )
+        continue
+      }
+      const versions = await ctx.db
+        .query('skillVersions')
+        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+        .take(MAX_VERSIONS_CHECKED)
+      const published = versions.filter((entry) => !entry.softDeletedAt).map((entry) => entry.version)
+      if (!findSatisfyingSkillVersion(published, dependency.version)) {
+        problems.push(`No published version satisfies ${formatSkillDependency(dependency)}`)
+      }
+    }
+    return problems
+  },
+})
+
+export const listForSkill = query({
+  args: { skillId: v.id('skills') },
+  handler: async (ctx, args) => {
+    const skill = await ctx.db.get(args.skillId)
+    if (!skill || skill.softDeletedAt) return { dependsOn: [], usedBy: [] }
+    if (!(await canViewSkill(ctx, skill, await getAuthUserId(ctx)))) {
+      return { dependsOn: [], usedBy: [] }
+    }
+
+    const edges = await ctx.db
+      .query('skillDependencies')
+      .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+      .collect()
+    const dependsOn = []
+    for (const edge of edges) {
+      const dependency = await ctx.db
+        .query('skills')
+        .withIndex('by_slug', (q) => q.eq('slug', edge.dependencySlug))
+        .unique()
+      const publicSkill = dependency && isSkillListed(dependency) ? toPublicSkill(dependency) : null
+      dependsOn.push({
+        slug: edge.dependencySlug,
+        range: edge.range ?? null,
+        skill: publicSkill,
+        ownerHandle: publicSkill && dependency ? await getOwnerHandle(ctx, dependency) : null,
+      })
+    }
+
+    const dependents = await ctx.db
+      .query('skillDependencies')
+      .withIndex('by_dependency', (q) => q.eq('dependencySlug', skill.slug))
+      .take(MAX_USED_BY)
+    const usedBy = []
+    for (const edge of dependents) {
+      const dependent = await ctx.db.get(edge.skillId)
+      if (dependent && !isSkillListed(dependent)) continue
+      const publicSkill = toPublicSkill(dependent)
+      if (!publicSkill || !dependent) continue
+      usedBy.push({
+        slug: publicSkill.slug,
+        range: edge.range ?? null,
+        skill: publicSkill,
+        ownerHandle: await getOwnerHandle(ctx, dependent),
+      })
+    }
+
+    return { dependsOn, usedBy }
+  },
+})
@@ -0,0 +1,116 @@
+import { v } from 'convex/values'
+import { mutation, query } from './_generated/server'
+import { requireUser } from './lib/access'
+import { getOrgByHandle, toPublicOrg } from './lib/orgs'
+import { toPublicUser } from './lib/public'
+import { MAX_SKILL_SHARES, requireSkillAccessManager } from './lib/skillVisibility'
+
+export const listForSkill = query({
+  args: { skillId: v.id('skills') },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const skill = await ctx.db.get(args.skillId)
+    if (!skill || skill.softDeletedAt) return []
+    await requireSkillAccessManager(ctx, skill, userId)
+
+    const shares = await ctx.db
+      .query('skillShares')
+      .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+      .take(MAX_SKILL_SHARES)
+    const items = []
+    for (const share of shares) {
+      const user = share.userId ? toPublicUser(await ctx.db.get(share.userId)) : null
+      const org = share.orgId ? toPublicOrg(await ctx.db.get(share.orgId)) : null
+      if (!user && !org) continue
+      items.push({ _id: share._id, user, org, createdAt: share.createdAt })
+    }
+    return items
+  },
+})
+
+export const grant = mutation({
+  args: {
+    skillId: v.id('skills'),
+    kind: v.union(v.literal('user'), v.literal('org')),
+    handle: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const skill = await ctx.db.get(args.skillId)
+    if (!skill || skill.softDeletedAt) throw new Error('Skill not found')
+    await requireSkillAccessManager(ctx, skill, userId)
+
+    const handle = args.handle.trim().replace(/^@/, '')
+    let target: { userId?: typeof userId; orgId?: NonNullable<typeof skill.ownerOrgId> }
+    if (args.kind === 'org') {
+      const org = await getOrgByHandle(ctx, handle)
+      if (!org) throw new Error('Org not found')
+      const existing = await ctx.db
+        .query('skillShares')
+        .withIndex('by_skill_org', (q) => q.eq('skillId', skill._id).eq('orgId', org._id))
+        .unique()
+      if (existing) return { ok: true as const, shareId: existing._id }
+      target = { orgId: org._id }
+    } else {
+      const user = await ctx.db
+        .query('users')
+        .withIndex('handle', (q) => q.eq('handle', handle))
+        .unique()
+      if (!user || user.deletedAt || user.deactivatedAt) throw new Error('User not found')
+      const existing = await ctx.db
+        .query('skillShares')
+        .withIndex('by_skill_user', (q) => q.eq('skillId', skill._id).eq('userId', user._id))
+        .unique()
+      if (existing) return { ok: true as const, shareId: existing._id }
+      target = { userId: user._id }
+    }
+
+    const shares = await ctx.db
+      .query('skillShares')
+      .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+      .take(MAX_SKILL_SHARES)
+    if (shares.length >= MAX_SKILL_SHARES) {
+      throw new Error(`Share limit reached (max ${MAX_SKILL_SHARES})`)
+    }
+
+    const now = Date.now()
+    const shareId = await ctx.db.insert('skillShares', {
+      skillId: skill._id,
+      ...target,
+      grantedByUserId: userId,
+      createdAt: now,
+    })
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'skill.share.grant',
+      targetType: 'skill',
+      targetId: skill._id,
+      metadata: { kind: args.kind, handle, ...target },
+      createdAt: now,
+    })
+    return { ok: true as const, shareId }
+  },
+})
+
+export const revoke = mutation({
+  args: { shareId: v.id('skillShares') },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const share = await ctx.db.get(args.shareId)
+    if (!share) throw new Error('Share not found')
+    const skill = await ctx.db.get(share.skillId)
+    if (!skill) throw new Error('Skill not found')
+    await requireSkillAccessManager(ctx, skill, userId)
+
+    await ctx.db.delete(share._id)
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'skill.share.revoke',
+      targetType: 'skill',
+      targetId: skill._id,
+      metadata: { userId: share.userId, orgId: share.orgId },
+      createdAt: Date.now(),
+    })
+    return { ok: true as const }
+  },
+})
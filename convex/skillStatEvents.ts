@@ -22,7 +22,9 @@ import { internal } from './_generated/api'
 import type { Doc, Id } from './_generated/dataModel'
 import type { MutationCtx } from './_generated/server'
 import { internalAction, internalMutation, internalQuery } from './_generated/server'
+import { crossedStarMilestone, insertNotification } from './lib/notifications'
 import { applySkillStatDeltas, bumpDailySkillStats } from './lib/skillStats'
+import { buildWebhookSkillRef } from './lib/webhooks'
 
 /**
  * Event types that affect skill stats:
@@ -99,6 +101,9 @@ type AggregatedDeltas = {
   downloadEvents: number[]
   /** Original timestamps for each new install event (for daily stats bucketing) */
   installNewEvents: number[]
+  /** Original timestamps of star / unstar events (for monthly star leaderboards) */
+  starEvents: number[]
+  unstarEvents: number[]
 }
 
 /**
@@ -129,6 +134,8 @@ function aggregateEvents(events: Doc<'skillStatEvents'>[]): AggregatedDeltas {
     installsCurrent: 0,
     downloadEvents: [],
     installNewEvents: [],
+    starEvents: [],
+    unstarEvents: [],
   }
 
   for (const event of events) {
@@ -139,9 +146,11 @@ function aggregateEvents(events: Doc<'skillStatEvents'>[]): AggregatedDeltas {
         break
       case 'star':
         result.stars += 1
+        result.starEvents.push(event.occurredAt)
         break
       case 'unstar':
         result.stars -= 1
+        result.unstarEvents.push(event.occurredAt)
         break
       case 'comment':
         result.comments += 1
@@ -259,6 +268,19 @@ export const processSkillStatEventsInternal = internalMutation({
         // Don't update `updatedAt` — stat changes shouldn't move the
         // skill's position in the by_active_updated index.
         await ctx.db.patch(skill._id, patch)
+
+        const starsBefore =
+          typeof skill.statsStars === 'number' ? skill.statsStars : skill.stats.stars
+        const milestone = crossedStarMilestone(starsBefore, patch.statsStars)
+        if (milestone) {
+          await insertNotification(ctx, {
+            userId: skill.ownerUserId,
+            kind: 'star.milestone',
+            data: { skill: await buildWebhookSkillRef(ctx, skill), milestone },
+            // Unstar/restar around a threshold must not notify twice.
+            dedupeKey: `star.milestone:${skill._id}:${milestone}`,
+          })
+        }
       }
 
       // NOTE: Daily stats (skillDailyStats) are written by the 15-minute
@@ -341,6 +363,8 @@ const skillDeltaValidator = v.object({
   installsCurrent: v.number(),
   downloadEvents: v.array(v.number()),
   installNewEvents: v.array(v.number()),
+  starEvents: v.array(v.number()),
+  unstarEvents: v.array(v.number()),
 })
 
 /**
@@ -366,6 +390,12 @@ export const applyAggregatedStatsAndUpdateCursor = internalMutation({
       for (const occurredAt of delta.installNewEvents) {
         await bumpDailySkillStats(ctx, { skillId: delta.skillId, now: occurredAt, installs: 1 })
       }
+      for (const occurredAt of delta.starEvents) {
+        await bumpDailySkillStats(ctx, { skillId: delta.skillId, now: occurredAt, stars: 1 })
+      }
+      for (const occurredAt of delta.unstarEvents) {
+        await bumpDailySkillStats(ctx, { skillId: delta.skillId, now: occurredAt, stars: -1 })
+      }
     }
 
     // Update cursor position (upsert)
@@ -421,6 +451,8 @@ export const processSkillStatEventsAction = internalAction({
         installsCurrent: number
         downloadEvents: number[]
         installNewEvents: number[]
+        starEvents: number[]
+        unstarEvents: number[]
       }
     >()
 
@@ -455,6 +487,8 @@ export const processSkillStatEventsAction = internalAction({
             installsCurrent: 0,
             downloadEvents: [],
             installNewEvents: [],
+            starEvents: [],
+            unstarEvents: [],
           }
           aggregatedBySkill.set(event.skillId, skillDelta)
         }
@@ -467,9 +501,11 @@ export const processSkillStatEventsAction = internalAction({
             break
           case 'star':
             skillDelta.stars += 1
+            skillDelta.starEvents.push(event.occurredAt)
             break
           case 'unstar':
             skillDelta.stars -= 1
+            skillDelta.unstarEvents.push(event.occurredAt)
             break
           case 'comment':
             skillDelta.comments += 1
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest'
+import { hardDeleteInternal } from './skills'
+
+type WrappedHandler<TArgs> = {
+  _handler: (ctx: unknown, args: TArgs) => Promise<unknown>
+}
+
+const hardDeleteInternalHandler = (
+  hardDeleteInternal as unknown as WrappedHandler<Record<string, unknown>>
+)._handler
+
+describe('skills hard delete', () => {
+  it('deletes comment edit history along with the comments', async () => {
+    const removedSkill = {
+      _id: 'skills:1',
+      softDeletedAt: 1,
+      moderationStatus: 'removed',
+      hiddenAt: 1,
+      hiddenBy: 'users:admin',
+    }
+    const editsByComment: Record<string, Array<{ _id: string }>> = {
+      'comments:1': [{ _id: 'commentEdits:1' }, { _id: 'commentEdits:2' }],
+      'comments:2': [],
+    }
+    const deleted: string[] = []
+    const db = {
+      get: vi.fn(async (id: string) => {
+        if (id === 'users:admin') return { _id: 'users:admin', role: 'admin' }
+        if (id === 'skills:1') return removedSkill
+        return null
+      }),
+      query: vi.fn((table: string) => ({
+        withIndex: (
+          name: string,
+          build: (q: { eq: (field: string, value: string) => unknown }) => unknown,
+        ) => {
+          let value = ''
+          build({
+            eq: (_field, next) => {
+              value = next
+              return {}
+            },
+          })
+          if (table === 'comments' && name === 'by_skill') {
+            return { take: async () => [{ _id: 'comments:1' }, { _id: 'comments:2' }] }
+          }
+          if (table === 'commentEdits' && name === 'by_comment') {
+            return { take: async () => editsByComment[value] ?? [] }
+          }
+          throw new Error(`unexpected query ${table}.${name}`)
+        },
+      })),
+      delete: vi.fn(async (id: string) => {
+        deleted.push(id)
+      }),
+      patch: vi.fn(),
+    }
+    const runAfter = vi.fn(async () => {})
+
+    await hardDeleteInternalHandler(
+      { db, scheduler: { runAfter } },
+      { skillId: 'skills:1', actorUserId: 'users:admin', phase: 'comments' },
+    )
+
+    expect(deleted).toEqual(['commentEdits:1', 'commentEdits:2', 'comments:1', 'comments:2'])
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+      skillId: 'skills:1',
+      actorUserId: 'users:admin',
+      phase: 'commentReports',
+    })
+  })
+})
@@ -3,6 +3,7 @@ import {
   approveSkillByHashInternal,
   clearOwnerSuspiciousFlagsInternal,
   escalateByVtInternal,
+  checkPublishAllowedInternal,
   insertVersion,
 } from './skills'
 
@@ -12,6 +13,9 @@ type WrappedHandler<TArgs> = {
 
 const insertVersionHandler = (insertVersion as unknown as WrappedHandler<Record<string, unknown>>)
   ._handler
+const checkPublishAllowedHandler = (
+  checkPublishAllowedInternal as unknown as WrappedHandler<Record<string, unknown>>
+)._handler
 const approveSkillByHashHandler = (
   approveSkillByHashInternal as unknown as WrappedHandler<Record<string, unknown>>
 )._handler
@@ -37,6 +41,66 @@ function buildGlobalStatsQuery(table: string) {
   }
 }
 
+function buildScanResultsQuery(table: string, rows: Array<Record<string, unknown>> = []) {
+  if (table !== 'scanResults') return null
+  return {
+    withIndex: (name: string) => {
+      if (name !== 'by_version') throw new Error(`unexpected scanResults index ${name}`)
+      return { collect: async () => rows }
+    },
+  }
+}
+
+function createHourlyCapDb() {
+  const now = Date.now()
+  const ownerSkills = Array.from({ length: 5 }, (_, i) => ({
+    _id: `skills:${i}`,
+    createdAt: now - i * 10_000,
+  }))
+
+  const db = {
+    get: vi.fn(async () => ({
+      _id: 'users:owner',
+      _creationTime: now - 2 * 24 * 60 * 60 * 1000,
+      createdAt: now - 2 * 24 * 60 * 60 * 1000,
+      deletedAt: undefined,
+    })),
+    query: vi.fn((table: string) => {
+      const globalStatsQuery = buildGlobalStatsQuery(table)
+      if (globalStatsQuery) return globalStatsQuery
+      if (table === 'skills') {
+        return {
+          withIndex: (name: string) => {
+            if (name === 'by_slug') {
+              return { unique: async () => null }
+            }
+            if (name === 'by_owner') {
+              return {
+                order: () => ({
+                  take: async () => ownerSkills,
+                }),
+              }
+            }
+            throw new Error(`unexpected index ${name}`)
+          },
+        }
+      }
+      if (table === 'reservedSlugs') {
+        return {
+          withIndex: (name: string) => {
+            if (name === 'by_slug_active_deletedAt') {
+              return { order: () => ({ take: async () => [] }) }
+            }
+            throw new Error(`unexpected index ${name}`)
+          },
+        }
+      }
+      throw new Error(`unexpected table ${table}`)
+    }),
+  }
+  return db
+}
+
 function createPublishArgs(overrides?: Partial<Record<string, unknown>>) {
   return {
     userId: 'users:owner',
@@ -68,60 +132,64 @@ function createPublishArgs(overrides?: Partial<Record<string, unknown>>) {
 
 describe('skills anti-spam guards', () => {
   it('blocks low-trust users after hourly new-skill cap', async () => {
-    const now = Date.now()
-    const ownerSkills = Array.from({ length: 5 }, (_, i) => ({
-      _id: `skills:${i}`,
-      createdAt: now - i * 10_000,
-    }))
+    const db = createHourlyCapDb()
+
+    await expect(
+      insertVersionHandler({ db } as never, createPublishArgs() as never),
+    ).rejects.toThrow(/max 5 new skills per hour/i)
+  })
+
+  it('applies the same new-skill cap to a publish dry run', async () => {
+    const db = createHourlyCapDb()
 
+    await expect(
+      checkPublishAllowedHandler({ db } as never, {
+        userId: 'users:owner',
+        slug: 'spam-skill',
+        version: '1.0.0',
+      }),
+    ).rejects.toThrow(/max 5 new skills per hour/i)
+  })
+
+  it('rejects dry runs for a slug owned by someone else or an existing version', async () => {
+    const users: Record<string, Record<string, unknown>> = {
+      'users:owner': { _id: 'users:owner' },
+      'users:other': { _id: 'users:other' },
+    }
+    const skill = { _id: 'skills:1', slug: 'taken', ownerUserId: 'users:owner' }
     const db = {
-      get: vi.fn(async () => ({
-        _id: 'users:owner',
-        _creationTime: now - 2 * 24 * 60 * 60 * 1000,
-        createdAt: now - 2 * 24 * 60 * 60 * 1000,
-        deletedAt: undefined,
-      })),
-      query: vi.fn((table: string) => {
-        const globalStatsQuery = buildGlobalStatsQuery(table)
-        if (globalStatsQuery) return globalStatsQuery
-        if (table === 'skills') {
-          return {
-            withIndex: (name: string) => {
-              if (name === 'by_slug') {
-                return { unique: async () => null }
-              }
-              if (name === 'by_owner') {
-                return {
-                  order: () => ({
-                    take: async () => ownerSkills,
-                  }),
-                }
-              }
-              throw new Error(`unexpected index ${name}`)
-            },
-          }
-        }
-        if (table === 'reservedSlugs') {
-          return {
-            withIndex: (name: string) => {
-              if (name === 'by_slug_active_deletedAt') {
-                return { order: () => ({ take: async () => [] }) }
-              }
-              throw new Error(`unexpected index ${name}`)
-            },
+      get: vi.fn(async (id: string) => users[id] ?? null),
+      query: vi.fn((table: string) => ({
+        withIndex: (name: string) => {
+          if (table === 'skills' && name === 'by_slug') return { unique: async () => skill }
+          if (table === 'authAccounts') return { unique: async () => null }
+          if (table === 'skillVersions' && name === 'by_skill_version') {
+            return { unique: async () => ({ _id: 'skillVersions:1' }) }
           }
-        }
-        throw new Error(`unexpected table ${table}`)
-      }),
+          throw new Error(`unexpected query ${table}.${name}`)
+        },
+      })),
     }
 
     await expect(
-      insertVersionHandler({ db } as never, createPublishArgs() as never),
-    ).rejects.toThrow(/max 5 new skills per hour/i)
+      checkPublishAllowedHandler({ db } as never, {
+        userId: 'users:other',
+        slug: 'taken',
+        version: '2.0.0',
+      }),
+    ).rejects.toThrow('Only the owner can publish updates')
+    await expect(
+      checkPublishAllowedHandler({ db } as never, {
+        userId: 'users:owner',
+        slug: 'taken',
+        version: '1.0.0',
+      }),
+    ).rejects.toThrow('Version already exists')
   })
 
   it('keeps suspicious skills visible for low-trust publishers', async () => {
     const patch = vi.fn(async () => {})
+    const insert = vi.fn(async () => 'moderationCases:1')
     const version = { _id: 'skillVersions:1', skillId: 'skills:1' }
     const skill = {
       _id: 'skills:1',
@@ -146,6 +214,8 @@ describe('skills anti-spam guards', () => {
       query: vi.fn((table: string) => {
         const globalStatsQuery = buildGlobalStatsQuery(table)
         if (globalStatsQuery) return globalStatsQuery
+        const scanResultsQuery = buildScanResultsQuery(table)
+        if (scanResultsQuery) return scanResultsQuery
         if (table === 'skillVersions') {
           return {
             withIndex: () => ({
@@ -167,9 +237,19 @@ describe('skills anti-spam guards', () => {
             },
           }
         }
+        if (table === 'moderationCases') {
+          return {
+            withIndex: () => ({
+              order: () => ({
+                take: async () => [],
+              }),
+            }),
+          }
+        }
         throw new Error(`unexpected table ${table}`)
       }),
       patch,
+      insert,
     }
 
     await approveSkillByHashHandler(
@@ -189,6 +269,10 @@ describe('skills anti-spam guards', () => {
         moderationFlags: ['flagged.suspicious'],
       }),
     )
+    expect(insert).toHaveBeenCalledWith(
+      'moderationCases',
+      expect.objectContaining({ kind: 'scanner_flag', targetId: 'skills:1', status: 'open' }),
+    )
   })
 
   it('keeps admin-owned skills non-suspicious for suspicious scanner verdicts', async () => {
@@ -218,6 +302,8 @@ describe('skills anti-spam guards', () => {
       query: vi.fn((table: string) => {
         const globalStatsQuery = buildGlobalStatsQuery(table)
         if (globalStatsQuery) return globalStatsQuery
+        const scanResultsQuery = buildScanResultsQuery(table)
+        if (scanResultsQuery) return scanResultsQuery
         if (table === 'skillVersions') {
           return {
             withIndex: () => ({
@@ -263,6 +349,57 @@ describe('skills anti-spam guards', () => {
     )
   })
 
+  it('keeps a local rule-scan verdict when VirusTotal reports clean', async () => {
+    const patch = vi.fn(async () => {})
+    const version = { _id: 'skillVersions:1', skillId: 'skills:1' }
+    const skill = {
+      _id: 'skills:1',
+      slug: 'shell-skill',
+      ownerUserId: 'users:owner',
+      moderationStatus: 'hidden',
+      moderationFlags: ['flagged.suspicious'],
+      moderationReason: 'pending.scan',
+    }
+    const owner = { _id: 'users:owner', deletedAt: undefined }
+    const scanResults = [
+      { scanner: 'vt', verdict: 'pending' },
+      { scanner: 'yara', verdict: 'suspicious' },
+    ]
+
+    const db = {
+      get: vi.fn(async (id: string) => {
+        if (id === 'skills:1') return skill
+        if (id === 'users:owner') return owner
+        return null
+      }),
+      query: vi.fn((table: string) => {
+        const globalStatsQuery = buildGlobalStatsQuery(table)
+        if (globalStatsQuery) return globalStatsQuery
+        const scanResultsQuery = buildScanResultsQuery(table, scanResults)
+        if (scanResultsQuery) return scanResultsQuery
+        if (table === 'skillVersions') {
+          return { withIndex: () => ({ unique: async () => version }) }
+        }
+        throw new Error(`unexpected table ${table}`)
+      }),
+      patch,
+    }
+
+    await approveSkillByHashHandler(
+      { db, scheduler: { runAfter: vi.fn() } } as never,
+      { sha256hash: 'h'.repeat(64), scanner: 'vt', status: 'clean' } as never,
+    )
+
+    expect(patch).toHaveBeenCalledWith(
+      'skills:1',
+      expect.objectContaining({
+        moderationStatus: 'active',
+        moderationReason: 'scanner.yara.suspicious',
+        moderationFlags: ['flagged.suspicious'],
+      }),
+    )
+  })
+
   it('vt suspicious escalation does not keep suspicious flags for admin owners', async () => {
     const patch = vi.fn(async () => {})
     const version = { _id: 'skillVersions:1', skillId: 'skills:1' }
@@ -366,12 +503,15 @@ describe('skills anti-spam guards', () => {
       patch,
     }
 
+    const runAfter = vi.fn(async () => {})
     const result = await clearOwnerSuspiciousFlagsHandler(
-      { db } as never,
+      { db, scheduler: { runAfter } } as never,
       { ownerUserId: 'users:owner', limit: 20 } as never,
     )
 
     expect(result).toEqual({ inspected: 2, updated: 1 })
+    // One moderation webhook and one inbox notification for the owner.
+    expect(runAfter).toHaveBeenCalledTimes(2)
     expect(patch).toHaveBeenCalledWith(
       'skills:1',
       expect.objectContaining({
@@ -18,6 +18,7 @@ import {
   getSkillBadgeMaps,
   isSkillHighlighted,
 } from './lib/badges'
+import { capabilityLintValidator } from './lib/capabilityLint'
 import { generateChangelogPreview as buildChangelogPreview } from './lib/changelog'
 import {
   canHealSkillOwnershipByGitHubProviderAccountId,
@@ -29,9 +30,27 @@ import {
   getPublicSkillVisibilityDelta,
   readGlobalPublicSkillsCount,
 } from './lib/globalStats'
-import { buildTrendingLeaderboard } from './lib/leaderboards'
+import { buildTrendingLeaderboard, parseLeaderboardKey } from './lib/leaderboards'
 import { deriveModerationFlags } from './lib/moderation'
+import { openModerationCase, syncSkillModerationCases } from './lib/moderationCases'
+import { queueNotification } from './lib/notifications'
 import { toPublicSkill, toPublicUser } from './lib/public'
+import {
+  applyPublishScanFlags,
+  applyScanPolicy,
+  combineScanVerdicts,
+  escalateScanVerdict,
+} from './lib/scanPolicy'
+import {
+  collectFindingFlags,
+  getScanner,
+  listScanResultsForVersion,
+  scanFindingValidator,
+  scanVerdictValidator,
+  toScanVerdict,
+  upsertScanResult,
+} from './lib/scanners'
+import { deriveSkillRuntimeFacets } from './lib/searchFacets'
 import {
   AUTO_HIDE_REPORT_THRESHOLD,
   MAX_ACTIVE_REPORTS_PER_USER,
@@ -40,6 +59,7 @@ import {
 import { embeddingVisibilityFor } from './lib/embeddingVisibility'
 import { scheduleNextBatchIfNeeded } from './lib/batching'
 import {
+  assertSlugNotReservedForOthers,
   enforceReservedSlugCooldownForNewSkill,
   getLatestActiveReservedSlug,
   listActiveReservedSlugsForSlug,
@@ -47,20 +67,55 @@ import {
   upsertReservedSlugForRightfulOwner,
 } from './lib/reservedSlugs'
 import {
+  discardPreviewUploads,
   fetchText,
+  type PublishPreview,
   type PublishResult,
+  previewPublishForUser,
   publishVersionForUser,
   queueHighlightedWebhook,
 } from './lib/skillPublish'
+import { syncSkillDependencies } from './lib/skillDependencies'
 import { isSkillSuspicious } from './lib/skillSafety'
-import { getFrontmatterValue, hashSkillFiles } from './lib/skills'
-
-export { publishVersionForUser } from './lib/skillPublish'
+import {
+  canManageSkill,
+  canViewSkill,
+  getSkillVisibility,
+  isSkillListed,
+  requireSkillAccessManager,
+  skillVisibilityValidator,
+} from './lib/skillVisibility'
+import {
+  type ClawdisSkillMetadata,
+  getFrontmatterValue,
+  hashSkillFiles,
+  parseSkillCategory,
+} from './lib/skills'
+import {
+  canPublishForOrg,
+  getOrgMembership,
+  requireOrgPublisher,
+  toPublicOrg,
+} from './lib/orgs'
+import {
+  buildWebhookSkillRef,
+  queueModerationWebhook,
+  queueUserWebhookEvent,
+} from './lib/webhooks'
+import { removeSkillSearchDoc, syncSkillSearchDoc } from './searchIndex'
+
+export {
+  discardPreviewUploads,
+  previewPublishForUser,
+  publishVersionForUser,
+} from './lib/skillPublish'
 
 type ReadmeResult = { path: string; text: string }
 type FileTextResult = { path: string; text: string; size: number; sha256: string }
 
 const MAX_DIFF_FILE_BYTES = 200 * 1024
+// VT statuses that are bookkeeping, not verdicts; no owner webhook for these.
+const QUIET_VT_STATUSES = new Set(['pending', 'stale'])
 const MAX_LIST_LIMIT = 50
 const MAX_PUBLIC_LIST_LIMIT = 200
 const MAX_LIST_BULK_LIMIT = 200
@@ -125,11 +180,12 @@ function normalizeScannerSuspiciousReason(reason: string | undefined) {
   return `${reason.slice(0, -'.suspicious'.length)}.clean`
 }
 
-async function adjustGlobalPublicCountForSkillChange(
+async function applySkillVisibilityChange(
   ctx: MutationCtx,
   previousSkill: Doc<'skills'> | null | undefined,
   nextSkill: Doc<'skills'> | null | undefined,
 ) {
+  await syncSkillSearchDoc(ctx, previousSkill, nextSkill)
   const delta = getPublicSkillVisibilityDelta(previousSkill, nextSkill)
   if (delta === 0) return
   await adjustGlobalPublicSkillsCount(ctx, delta)
@@ -184,14 +240,83 @@ function enforceNewSkillRateLimit(signals: OwnerTrustSignals) {
   }
 }
 
+/**
+ * Read-only publish checks shared by `insertVersion` and the publish dry run: ownership of an
+ * existing personal skill, duplicate versions, and for a new slug the reserved-slug cooldown and
+ * the new-skill rate limit. `healOwnership` is set when the caller owns the skill through a
+ * duplicate `users` record with the same GitHub identity.
+ */
+async function assertCanPublishVersion(
+  ctx: QueryCtx | MutationCtx,
+  params: {
+    user: Doc<'users'>
+    skill: Doc<'skills'> | null
+    slug: string
+    version: string
+    now: number
+    bypassNewSkillRateLimit?: boolean
+  },
+) {
+  const { user, skill, now } = params
+  if (!skill) {
+    const reservation = await getLatestActiveReservedSlug(ctx, params.slug)
+    assertSlugNotReservedForOthers(reservation, { slug: params.slug, userId: user._id, now })
+    if (!params.bypassNewSkillRateLimit) {
+      enforceNewSkillRateLimit(await getOwnerTrustSignals(ctx, user, now))
+    }
+    return { healOwnership: false }
+  }
+
+  let healOwnership = false
+  if (!skill.ownerOrgId && skill.ownerUserId !== user._id) {
+    // Fallback: Convex Auth can create duplicate `users` records. Heal ownership ONLY
+    // when the underlying GitHub identity matches (authAccounts.providerAccountId).
+    const owner = await ctx.db.get(skill.ownerUserId)
+    if (!owner || owner.deletedAt || owner.deactivatedAt) {
+      throw new Error('Only the owner can publish updates')
+    }
+
+    const [ownerProviderAccountId, callerProviderAccountId] = await Promise.all([
+      getGitHubProviderAccountId(ctx, skill.ownerUserId),
+      getGitHubProviderAccountId(ctx, user._id),
+    ])
+
+    // Deny healing when GitHub identity isn't present/consistent.
+    if (
+      !canHealSkillOwnershipByGitHubProviderAccountId(
+        ownerProviderAccountId,
+        callerProviderAccountId,
+      )
+    ) {
+      throw new Error('Only the owner can publish updates')
+    }
+    healOwnership = true
+  }
+
+  const existingVersion = await ctx.db
+    .query('skillVersions')
+    .withIndex('by_skill_version', (q) => q.eq('skillId', skill._id).eq('version', params.version))
+    .unique()
+  if (existingVersion) {
+    throw new Error('Version already exists')
+  }
+  return { healOwnership }
+}
+
 const HARD_DELETE_PHASES = [
   'versions',
+  'scanResults',
   'fingerprints',
   'embeddings',
   'comments',
   'commentReports',
   'reports',
   'stars',
+  'dependencies',
+  'shares',
+  'collectionItems',
+  'appeals',
+  'moderationCases',
   'badges',
   'dailyStats',
   'statEvents',
@@ -240,7 +365,7 @@ async function hardDeleteSkillStep(
     patch.updatedAt = now
     const nextSkill = { ...skill, ...patch }
     await ctx.db.patch(skill._id, patch)
-    await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
   }
 
   switch (phase) {
@@ -256,6 +381,21 @@ async function hardDeleteSkillStep(
         await scheduleHardDelete(ctx, skill._id, actorUserId, 'versions')
         return
       }
+      await scheduleHardDelete(ctx, skill._id, actorUserId, 'scanResults')
+      return
+    }
+    case 'scanResults': {
+      const results = await ctx.db
+        .query('scanResults')
+        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+        .take(HARD_DELETE_BATCH_SIZE)
+      for (const result of results) {
+        await ctx.db.delete(result._id)
+      }
+      if (results.length === HARD_DELETE_BATCH_SIZE) {
+        await scheduleHardDelete(ctx, skill._id, actorUserId, 'scanResults')
+        return
+      }
       await scheduleHardDelete(ctx, skill._id, actorUserId, 'fingerprints')
       return
     }
@@ -295,6 +435,18 @@ async function hardDeleteSkillStep(
         .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
         .take(HARD_DELETE_BATCH_SIZE)
       for (const comment of comments) {
+        // Edit history holds earlier bodies; the comment goes once its edits are gone.
+        const edits = await ctx.db
+          .query('commentEdits')
+          .withIndex('by_comment', (q) => q.eq('commentId', comment._id))
+          .take(HARD_DELETE_BATCH_SIZE)
+        for (const edit of edits) {
+          await ctx.db.delete(edit._id)
+        }
+        if (edits.length === HARD_DELETE_BATCH_SIZE) {
+          await scheduleHardDelete(ctx, skill._id, actorUserId, 'comments')
+          return
+        }
         await ctx.db.delete(comment._id)
       }
       if (comments.length === HARD_DELETE_BATCH_SIZE) {
@@ -346,6 +498,89 @@ async function hardDeleteSkillStep(
         await scheduleHardDelete(ctx, skill._id, actorUserId, 'stars')
         return
       }
+      await scheduleHardDelete(ctx, skill._id, actorUserId, 'dependencies')
+      return
+    }
+    case 'dependencies': {
+      const dependencies = await ctx.db
+        .query('skillDependencies')
+        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+        .take(HARD_DELETE_BATCH_SIZE)
+      for (const dependency of dependencies) {
+        await ctx.db.delete(dependency._id)
+      }
+      if (dependencies.length === HARD_DELETE_BATCH_SIZE) {
+        await scheduleHardDelete(ctx, skill._id, actorUserId, 'dependencies')
+        return
+      }
+      await scheduleHardDelete(ctx, skill._id, actorUserId, 'shares')
+      return
+    }
+    case 'shares': {
+      const shares = await ctx.db
+        .query('skillShares')
+        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+        .take(HARD_DELETE_BATCH_SIZE)
+      for (const share of shares) {
+        await ctx.db.delete(share._id)
+      }
+      if (shares.length === HARD_DELETE_BATCH_SIZE) {
+        await scheduleHardDelete(ctx, skill._id, actorUserId, 'shares')
+        return
+      }
+      await scheduleHardDelete(ctx, skill._id, actorUserId, 'collectionItems')
+      return
+    }
+    case 'collectionItems': {
+      const items = await ctx.db
+        .query('collectionItems')
+        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+        .take(HARD_DELETE_BATCH_SIZE)
+      for (const item of items) {
+        await ctx.db.delete(item._id)
+        const collection = await ctx.db.get(item.collectionId)
+        if (collection) {
+          await ctx.db.patch(collection._id, {
+            itemCount: Math.max(0, collection.itemCount - 1),
+            updatedAt: now,
+          })
+        }
+      }
+      if (items.length === HARD_DELETE_BATCH_SIZE) {
+        await scheduleHardDelete(ctx, skill._id, actorUserId, 'collectionItems')
+        return
+      }
+      await scheduleHardDelete(ctx, skill._id, actorUserId, 'appeals')
+      return
+    }
+    case 'appeals': {
+      const appeals = await ctx.db
+        .query('appeals')
+        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+        .take(HARD_DELETE_BATCH_SIZE)
+      for (const appeal of appeals) {
+        await ctx.db.delete(appeal._id)
+      }
+      if (appeals.length === HARD_DELETE_BATCH_SIZE) {
+        await scheduleHardDelete(ctx, skill._id, actorUserId, 'appeals')
+        return
+      }
+      await scheduleHardDelete(ctx, skill._id, actorUserId, 'moderationCases')
+      return
+    }
+    case 'moderationCases': {
+      // Skill and comment cases alike carry the skill id.
+      const cases = await ctx.db
+        .query('moderationCases')
+        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+        .take(HARD_DELETE_BATCH_SIZE)
+      for (const entry of cases) {
+        await ctx.db.delete(entry._id)
+      }
+      if (cases.length === HARD_DELETE_BATCH_SIZE) {
+        await scheduleHardDelete(ctx, skill._id, actorUserId, 'moderationCases')
+        return
+      }
       await scheduleHardDelete(ctx, skill._id, actorUserId, 'badges')
       return
     }
@@ -485,6 +720,7 @@ async function hardDeleteSkillStep(
         expiresAt: now + SLUG_RESERVATION_MS,
       })
 
+      await removeSkillSearchDoc(ctx, skill._id)
       await ctx.db.delete(skill._id)
       await ctx.db.insert('auditLogs', {
         actorUserId,
@@ -562,6 +798,7 @@ async function buildPublicSkillEntries(
         includeVersion && skill.latestVersionId ? ctx.db.get(skill.latestVersionId) : null,
         getOwnerInfo(skill.ownerUserId),
       ])
+      if (!isSkillListed(skill)) return null
       const publicSkill = toPublicSkill(skill)
       if (!publicSkill) return null
       const latestVersion = toPublicSkillListVersion(latestVersionDoc)
@@ -640,7 +877,7 @@ async function loadHighlightedSkills(ctx: QueryCtx, limit: number) {
   const skills: Doc<'skills'>[] = []
   for (const badge of entries) {
     const skill = await ctx.db.get(badge.skillId)
-    if (!skill || skill.softDeletedAt) continue
+    if (!skill || skill.softDeletedAt || !isSkillListed(skill)) continue
     skills.push(skill)
     if (skills.length >= limit) break
   }
@@ -699,106 +936,155 @@ async function removeSkillBadge(ctx: MutationCtx, skillId: Id<'skills'>, kind: B
 
 export const getBySlug = query({
   args: { slug: v.string() },
-  handler: async (ctx, args) => {
-    const skill = await ctx.db
-      .query('skills')
-      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
-      .unique()
-    if (!skill || skill.softDeletedAt) return null
-
-    const userId = await getAuthUserId(ctx)
-    const isOwner = Boolean(userId && userId === skill.ownerUserId)
-
-    const latestVersion = skill.latestVersionId ? await ctx.db.get(skill.latestVersionId) : null
-    const owner = await ctx.db.get(skill.ownerUserId)
-    const badges = await getSkillBadgeMap(ctx, skill._id)
-
-    const forkOfSkill = skill.forkOf?.skillId ? await ctx.db.get(skill.forkOf.skillId) : null
-    const forkOfOwner = forkOfSkill ? await ctx.db.get(forkOfSkill.ownerUserId) : null
+  handler: async (ctx, args) => getSkillBySlugForViewer(ctx, args.slug, await getAuthUserId(ctx)),
+})
 
-    const canonicalSkill = skill.canonicalSkillId ? await ctx.db.get(skill.canonicalSkillId) : null
-    const canonicalOwner = canonicalSkill ? await ctx.db.get(canonicalSkill.ownerUserId) : null
+/**
+ * Same shape as getBySlug, for HTTP callers that authenticate with an API token instead of a
+ * session (private skills need to know who is asking).
+ */
+export const getBySlugForViewerInternal = internalQuery({
+  args: { slug: v.string(), viewerUserId: v.optional(v.id('users')) },
+  handler: async (ctx, args) => getSkillBySlugForViewer(ctx, args.slug, args.viewerUserId ?? null),
+})
 
-    const publicSkill = toPublicSkill({ ...skill, badges })
+export const canViewSkillInternal = internalQuery({
+  args: { skillId: v.id('skills'), viewerUserId: v.optional(v.id('users')) },
+  handler: async (ctx, args) => {
+    const skill = await ctx.db.get(args.skillId)
+    if (!skill || skill.softDeletedAt) return false
+    return canViewSkill(ctx, skill, args.viewerUserId)
+  },
+})
 
-    // Determine moderation state
-    const isPendingScan =
-      skill.moderationStatus === 'hidden' && skill.moderationReason === 'pending.scan'
-    const isMalwareBlocked = skill.moderationFlags?.includes('blocked.malware') ?? false
-    const isSuspicious = skill.moderationFlags?.includes('flagged.suspicious') ?? false
-    const isHiddenByMod = skill.moderationStatus === 'hidden' && !isPendingScan && !isMalwareBlocked
-    const isRemoved = skill.moderationStatus === 'removed'
+async function getSkillBySlugForViewer(
+  ctx: QueryCtx,
+  slug: string,
+  userId: Id<'users'> | null,
+) {
+  const skill = await ctx.db
+    .query('skills')
+    .withIndex('by_slug', (q) => q.eq('slug', slug))
+    .unique()
+  if (!skill || skill.softDeletedAt) return null
+  // Private skills 404 for everyone without access so their slugs don't leak.
+  if (!(await canViewSkill(ctx, skill, userId))) return null
+
+  const ownerOrg = skill.ownerOrgId ? toPublicOrg(await ctx.db.get(skill.ownerOrgId)) : null
+  const orgMembership =
+    userId && ownerOrg ? await getOrgMembership(ctx, ownerOrg._id, userId) : null
+  const isOwner = Boolean(
+    userId && (userId === skill.ownerUserId || canPublishForOrg(orgMembership?.role)),
+  )
 
-    // Non-owners can see malware-blocked skills (transparency), but not other hidden states
-    // Owners can see all their moderated skills
-    if (!publicSkill && !isOwner && !isMalwareBlocked) return null
+  const latestVersion = skill.latestVersionId ? await ctx.db.get(skill.latestVersionId) : null
+  const owner = await ctx.db.get(skill.ownerUserId)
+  const badges = await getSkillBadgeMap(ctx, skill._id)
+
+  const forkOfSkill = skill.forkOf?.skillId ? await ctx.db.get(skill.forkOf.skillId) : null
+  const forkOfOwner = forkOfSkill ? await ctx.db.get(forkOfSkill.ownerUserId) : null
+
+  const canonicalSkill = skill.canonicalSkillId ? await ctx.db.get(skill.canonicalSkillId) : null
+  const canonicalOwner = canonicalSkill ? await ctx.db.get(canonicalSkill.ownerUserId) : null
+
+  const publicSkill = toPublicSkill({ ...skill, badges })
+
+  // Determine moderation state
+  const isPendingScan =
+    skill.moderationStatus === 'hidden' && skill.moderationReason === 'pending.scan'
+  const isMalwareBlocked = skill.moderationFlags?.includes('blocked.malware') ?? false
+  const isSuspicious = skill.moderationFlags?.includes('flagged.suspicious') ?? false
+  const isHiddenByMod = skill.moderationStatus === 'hidden' && !isPendingScan && !isMalwareBlocked
+  const isRemoved = skill.moderationStatus === 'removed'
+
+  // Non-owners can see malware-blocked skills (transparency), but not other hidden states
+  // Owners can see all their moderated skills
+  if (!publicSkill && !isOwner && !isMalwareBlocked) return null
+
+  // For owners viewing their moderated skill, construct the response manually
+  const skillData = publicSkill ?? {
+    _id: skill._id,
+    _creationTime: skill._creationTime,
+    slug: skill.slug,
+    displayName: skill.displayName,
+    summary: skill.summary,
+    ownerUserId: skill.ownerUserId,
+    ownerOrgId: skill.ownerOrgId,
+    visibility: skill.visibility,
+    canonicalSkillId: skill.canonicalSkillId,
+    forkOf: skill.forkOf,
+    latestVersionId: skill.latestVersionId,
+    tags: skill.tags,
+    badges,
+    stats: skill.stats,
+    createdAt: skill.createdAt,
+    updatedAt: skill.updatedAt,
+  }
 
-    // For owners viewing their moderated skill, construct the response manually
-    const skillData = publicSkill ?? {
-      _id: skill._id,
-      _creationTime: skill._creationTime,
-      slug: skill.slug,
-      displayName: skill.displayName,
-      summary: skill.summary,
-      ownerUserId: skill.ownerUserId,
-      canonicalSkillId: skill.canonicalSkillId,
-      forkOf: skill.forkOf,
-      latestVersionId: skill.latestVersionId,
-      tags: skill.tags,
-      badges,
-      stats: skill.stats,
-      createdAt: skill.createdAt,
-      updatedAt: skill.updatedAt,
-    }
+  // Moderation info - visible to owners for all states, or anyone for flagged skills (transparency)
+  const showModerationInfo = isOwner || isMalwareBlocked || isSuspicious
+  const moderationInfo = showModerationInfo
+    ? {
+        isPendingScan,
+        isMalwareBlocked,
+        isSuspicious,
+        isHiddenByMod,
+        isRemoved,
+        reason: isOwner ? skill.moderationReason : undefined,
+      }
+    : null
+
+  // VirusTotal and the LLM evaluator render from their own version fields.
+  const scanResults = latestVersion
+    ? (await listScanResultsForVersion(ctx, latestVersion._id))
+        .filter((result) => result.scanner !== 'vt' && result.scanner !== 'llm')
+        .map((result) => ({
+          scanner: result.scanner,
+          label: getScanner(result.scanner)?.label ?? result.scanner,
+          verdict: result.verdict,
+          summary: result.summary,
+          findings: result.findings,
+          checkedAt: result.checkedAt,
+        }))
+    : []
 
-    // Moderation info - visible to owners for all states, or anyone for flagged skills (transparency)
-    const showModerationInfo = isOwner || isMalwareBlocked || isSuspicious
-    const moderationInfo = showModerationInfo
+  return {
+    skill: skillData,
+    latestVersion,
+    scanResults,
+    owner,
+    ownerOrg,
+    canManageAccess: isOwner,
+    pendingReview: isOwner && isPendingScan,
+    moderationInfo,
+    forkOf: forkOfSkill
       ? {
-          isPendingScan,
-          isMalwareBlocked,
-          isSuspicious,
-          isHiddenByMod,
-          isRemoved,
-          reason: isOwner ? skill.moderationReason : undefined,
+          kind: skill.forkOf?.kind ?? 'fork',
+          version: skill.forkOf?.version ?? null,
+          skill: {
+            slug: forkOfSkill.slug,
+            displayName: forkOfSkill.displayName,
+          },
+          owner: {
+            handle: forkOfOwner?.handle ?? forkOfOwner?.name ?? null,
+            userId: forkOfOwner?._id ?? null,
+          },
         }
-      : null
-
-    return {
-      skill: skillData,
-      latestVersion,
-      owner,
-      pendingReview: isOwner && isPendingScan,
-      moderationInfo,
-      forkOf: forkOfSkill
-        ? {
-            kind: skill.forkOf?.kind ?? 'fork',
-            version: skill.forkOf?.version ?? null,
-            skill: {
-              slug: forkOfSkill.slug,
-              displayName: forkOfSkill.displayName,
-            },
-            owner: {
-              handle: forkOfOwner?.handle ?? forkOfOwner?.name ?? null,
-              userId: forkOfOwner?._id ?? null,
-            },
-          }
-        : null,
-      canonical: canonicalSkill
-        ? {
-            skill: {
-              slug: canonicalSkill.slug,
-              displayName: canonicalSkill.displayName,
-            },
-            owner: {
-              handle: canonicalOwner?.handle ?? canonicalOwner?.name ?? null,
-              userId: canonicalOwner?._id ?? null,
-            },
-          }
-        : null,
-    }
-  },
-})
+      : null,
+    canonical: canonicalSkill
+      ? {
+          skill: {
+            slug: canonicalSkill.slug,
+            displayName: canonicalSkill.displayName,
+          },
+          owner: {
+            handle: canonicalOwner?.handle ?? canonicalOwner?.name ?? null,
+            userId: canonicalOwner?._id ?? null,
+          },
+        }
+      : null,
+  }
+}
 
 export const getBySlugForStaff = query({
   args: { slug: v.string() },
@@ -822,10 +1108,13 @@ export const getBySlugForStaff = query({
     const canonicalSkill = skill.canonicalSkillId ? await ctx.db.get(skill.canonicalSkillId) : null
     const canonicalOwner = canonicalSkill ? await ctx.db.get(canonicalSkill.ownerUserId) : null
 
+    const ownerOrg = skill.ownerOrgId ? toPublicOrg(await ctx.db.get(skill.ownerOrgId)) : null
+
     return {
       skill: { ...skill, badges },
       latestVersion,
       owner,
+      ownerOrg,
       forkOf: forkOfSkill
         ? {
             kind: skill.forkOf?.kind ?? 'fork',
@@ -863,6 +1152,26 @@ export const getReservedSlugInternal = internalQuery({
   },
 })
 
+/** Dry-run counterpart of the checks `insertVersion` makes before writing anything. */
+export const checkPublishAllowedInternal = internalQuery({
+  args: {
+    userId: v.id('users'),
+    slug: v.string(),
+    version: v.string(),
+    bypassNewSkillRateLimit: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId)
+    if (!user || user.deletedAt || user.deactivatedAt) throw new Error('User not found')
+    const skill = await ctx.db
+      .query('skills')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .unique()
+    await assertCanPublishVersion(ctx, { ...args, user, skill, now: Date.now() })
+    return null
+  },
+})
+
 export const getSkillBySlugInternal = internalQuery({
   args: { slug: v.string() },
   handler: async (ctx, args) => {
@@ -940,7 +1249,9 @@ export const clearOwnerSuspiciousFlagsInternal = internalMutation({
 
       const nextSkill = { ...skill, ...patch }
       await ctx.db.patch(skill._id, patch)
-      await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+      await applySkillVisibilityChange(ctx, skill, nextSkill)
+      await queueModerationWebhook(ctx, skill, nextSkill)
+      await syncSkillModerationCases(ctx, skill, nextSkill)
       updated += 1
     }
 
@@ -1153,7 +1464,9 @@ export const list = query({
         .withIndex('by_batch', (q) => q.eq('batch', args.batch))
         .order('desc')
         .take(takeLimit)
-      const filtered = entries.filter((skill) => !skill.softDeletedAt).slice(0, limit)
+      const filtered = entries
+        .filter((skill) => !skill.softDeletedAt && isSkillListed(skill))
+        .slice(0, limit)
       const withBadges = await attachBadgesToSkills(ctx, filtered)
       return withBadges
         .map((skill) => toPublicSkill(skill))
@@ -1168,7 +1481,10 @@ export const list = query({
         .withIndex('by_owner', (q) => q.eq('ownerUserId', ownerUserId))
         .order('desc')
         .take(takeLimit)
-      const filtered = entries.filter((skill) => !skill.softDeletedAt).slice(0, limit)
+      // Unlisted and private skills only show up on their owner's own dashboard.
+      const filtered = entries
+        .filter((skill) => !skill.softDeletedAt && (isOwnDashboard || isSkillListed(skill)))
+        .slice(0, limit)
       const withBadges = await attachBadgesToSkills(ctx, filtered)
 
       if (isOwnDashboard) {
@@ -1190,6 +1506,7 @@ export const list = query({
                 displayName: skill.displayName,
                 summary: skill.summary,
                 ownerUserId: skill.ownerUserId,
+                visibility: skill.visibility,
                 canonicalSkillId: skill.canonicalSkillId,
                 forkOf: skill.forkOf,
                 latestVersionId: skill.latestVersionId,
@@ -1211,7 +1528,9 @@ export const list = query({
         .filter((skill): skill is NonNullable<typeof skill> => Boolean(skill))
     }
     const entries = await ctx.db.query('skills').order('desc').take(takeLimit)
-    const filtered = entries.filter((skill) => !skill.softDeletedAt).slice(0, limit)
+    const filtered = entries
+      .filter((skill) => !skill.softDeletedAt && isSkillListed(skill))
+      .slice(0, limit)
     const withBadges = await attachBadgesToSkills(ctx, filtered)
     return withBadges
       .map((skill) => toPublicSkill(skill))
@@ -1250,7 +1569,7 @@ export const listWithLatest = query({
       entries = await ctx.db.query('skills').order('desc').take(takeLimit)
     }
 
-    const filtered = entries.filter((skill) => !skill.softDeletedAt)
+    const filtered = entries.filter((skill) => !skill.softDeletedAt && isSkillListed(skill))
     const withBadges = await attachBadgesToSkills(ctx, filtered)
     const ordered =
       args.batch === 'highlighted'
@@ -1496,6 +1815,17 @@ export const report = mutation({
       reason: reason.slice(0, MAX_REPORT_REASON_LENGTH),
       createdAt: now,
     })
+    await openModerationCase(
+      ctx,
+      {
+        kind: 'skill_report',
+        targetType: 'skill',
+        targetId: skill._id,
+        skillId: skill._id,
+        summary: `Reported: ${reason.slice(0, MAX_REPORT_REASON_LENGTH)}`,
+      },
+      now,
+    )
 
     const nextReportCount = (skill.reportCount ?? 0) + 1
     const shouldAutoHide = nextReportCount > AUTO_HIDE_REPORT_THRESHOLD && !skill.softDeletedAt
@@ -1517,7 +1847,9 @@ export const report = mutation({
 
     const nextSkill = { ...skill, ...updates }
     await ctx.db.patch(skill._id, updates)
-    await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await queueModerationWebhook(ctx, skill, nextSkill)
+    await syncSkillModerationCases(ctx, skill, nextSkill)
 
     if (shouldAutoHide) {
       await setSkillEmbeddingsSoftDeleted(ctx, skill._id, true, now)
@@ -1549,6 +1881,9 @@ export const listPublicPage = query({
         v.literal('installsCurrent'),
         v.literal('installsAllTime'),
         v.literal('trending'),
+        v.literal('rising'),
+        v.literal('new'),
+        v.literal('topMonth'),
       ),
     ),
   },
@@ -1569,8 +1904,9 @@ export const listPublicPage = query({
       return { items, nextCursor: isDone ? null : continueCursor }
     }
 
-    if (sort === 'trending') {
-      const entries = await getTrendingEntries(ctx, limit)
+    if (sort === 'trending' || sort === 'rising' || sort === 'new' || sort === 'topMonth') {
+      const kind = sort === 'topMonth' ? 'top-month' : sort
+      const entries = await getLeaderboardEntries(ctx, kind, limit)
       const skills: Doc<'skills'>[] = []
 
       for (const entry of entries) {
@@ -1635,12 +1971,12 @@ export const listPublicPageV2 = query({
 
     // Use the index to filter out soft-deleted skills at query time.
     // softDeletedAt === undefined means active (non-deleted) skills only.
-    // When post-pagination filters are active, skip empty filtered pages so clients
-    // don't bounce between CanLoadMore/LoadingMore with no visible new rows.
+    // Post-pagination filters (visibility, highlighted, suspicious) can empty a page; skip
+    // those so clients don't bounce between CanLoadMore/LoadingMore with no visible new rows.
     let result = await paginateWithStaleCursorRecovery(runPaginate, initialCursor)
     let filteredPage = filterPublicSkillPage(result.page, args)
 
-    while ((args.nonSuspiciousOnly || args.highlightedOnly) && filteredPage.length === 0 && !result.isDone) {
+    while (filteredPage.length === 0 && result.page.length > 0 && !result.isDone) {
       result = await runPaginate(result.continueCursor)
       filteredPage = filterPublicSkillPage(result.page, args)
     }
@@ -1654,10 +1990,8 @@ function filterPublicSkillPage(
   page: Array<Doc<'skills'>>,
   args: { highlightedOnly?: boolean; nonSuspiciousOnly?: boolean },
 ) {
-  if (!args.nonSuspiciousOnly && !args.highlightedOnly) {
-    return page
-  }
   return page.filter((skill) => {
+    if (!isSkillListed(skill)) return false
     if (args.nonSuspiciousOnly && isSkillSuspicious(skill)) return false
     if (args.highlightedOnly && !isSkillHighlighted(skill)) return false
     return true
@@ -1728,27 +2062,96 @@ function sortToIndex(
   }
 }
 
-async function getTrendingEntries(ctx: QueryCtx, limit: number) {
+async function getLatestLeaderboard(ctx: QueryCtx, kind: string) {
   // Use the pre-computed leaderboard from the hourly cron job.
   // Avoid Date.now() here to keep the query deterministic and cacheable.
   const latest = await ctx.db
     .query('skillLeaderboards')
-    .withIndex('by_kind', (q) => q.eq('kind', 'trending'))
+    .withIndex('by_kind', (q) => q.eq('kind', kind))
     .order('desc')
     .take(1)
+  return latest[0] ?? null
+}
 
-  if (latest[0]) {
-    return latest[0].items.slice(0, limit)
-  }
+async function getLeaderboardEntries(ctx: QueryCtx, kind: string, limit: number) {
+  const latest = await getLatestLeaderboard(ctx, kind)
+  if (latest) return latest.items.slice(0, limit)
+  if (kind !== 'trending') return []
 
   // No leaderboard exists yet (cold start) - compute on the fly
   const fallback = await buildTrendingLeaderboard(ctx, { limit, now: Date.now() })
   return fallback.items
 }
 
+/** One pre-computed leaderboard with its skills; `kind` is a board key like `os:macos`. */
+export const listLeaderboard = query({
+  args: { kind: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const limit = clampInt(args.limit ?? 50, 1, MAX_PUBLIC_LIST_LIMIT)
+    const board = await getLatestLeaderboard(ctx, args.kind)
+    if (!board) return null
+
+    const skills: Doc<'skills'>[] = []
+    const entryBySkill = new Map<Id<'skills'>, (typeof board.items)[number]>()
+    for (const entry of board.items) {
+      const skill = await ctx.db.get(entry.skillId)
+      if (!skill || skill.softDeletedAt) continue
+      skills.push(skill)
+      entryBySkill.set(skill._id, entry)
+      if (skills.length >= limit) break
+    }
+    const entries = await buildPublicSkillEntries(ctx, skills)
+    return {
+      kind: board.kind,
+      generatedAt: board.generatedAt,
+      rangeStartDay: board.rangeStartDay,
+      rangeEndDay: board.rangeEndDay,
+      items: entries.flatMap((entry) => {
+        const ranked = entryBySkill.get(entry.skill._id)
+        if (!ranked) return []
+        const { skillId: _skillId, ...ranking } = ranked
+        return [{ ...entry, ranking }]
+      }),
+    }
+  },
+})
+
+/** Category and OS boards built by the latest cron run, for the leaderboard picker. */
+export const listLeaderboardScopes = query({
+  args: {},
+  handler: async (ctx) => {
+    const trending = await getLatestLeaderboard(ctx, 'trending')
+    if (!trending) return { categories: [], os: [] }
+    const boards = await ctx.db
+      .query('skillLeaderboards')
+      .withIndex('by_generated', (q) => q.eq('generatedAt', trending.generatedAt))
+      .collect()
+    const categories: string[] = []
+    const os: string[] = []
+    for (const board of boards) {
+      const scope = parseLeaderboardKey(board.kind)
+      if (!scope || typeof scope === 'string' || board.items.length === 0) continue
+      if (scope.type === 'category') categories.push(scope.value)
+      else os.push(scope.value)
+    }
+    return { categories: categories.sort(), os: os.sort() }
+  },
+})
+
+/** Whether the caller may read a skill's versions and files (private skills need access). */
+async function canViewSkillById(
+  ctx: QueryCtx,
+  skillId: Id<'skills'>,
+  userId: Id<'users'> | null,
+) {
+  const skill = await ctx.db.get(skillId)
+  return Boolean(skill && (await canViewSkill(ctx, skill, userId)))
+}
+
 export const listVersions = query({
   args: { skillId: v.id('skills'), limit: v.optional(v.number()) },
   handler: async (ctx, args) => {
+    if (!(await canViewSkillById(ctx, args.skillId, await getAuthUserId(ctx)))) return []
     const limit = args.limit ?? 20
     return ctx.db
       .query('skillVersions')
@@ -1758,29 +2161,64 @@ export const listVersions = query({
   },
 })
 
+const listVersionsPageArgs = {
+  skillId: v.id('skills'),
+  cursor: v.optional(v.string()),
+  limit: v.optional(v.number()),
+}
+
+async function listVersionsPageForSkill(
+  ctx: QueryCtx,
+  args: { skillId: Id<'skills'>; cursor?: string; limit?: number },
+) {
+  const limit = clampInt(args.limit ?? 20, 1, MAX_LIST_LIMIT)
+  const { page, isDone, continueCursor } = await ctx.db
+    .query('skillVersions')
+    .withIndex('by_skill', (q) => q.eq('skillId', args.skillId))
+    .order('desc')
+    .paginate({ cursor: args.cursor ?? null, numItems: limit })
+  const items = page.filter((version) => !version.softDeletedAt)
+  return { items, nextCursor: isDone ? null : continueCursor }
+}
+
 export const listVersionsPage = query({
-  args: {
-    skillId: v.id('skills'),
-    cursor: v.optional(v.string()),
-    limit: v.optional(v.number()),
-  },
+  args: listVersionsPageArgs,
   handler: async (ctx, args) => {
-    const limit = clampInt(args.limit ?? 20, 1, MAX_LIST_LIMIT)
-    const { page, isDone, continueCursor } = await ctx.db
-      .query('skillVersions')
-      .withIndex('by_skill', (q) => q.eq('skillId', args.skillId))
-      .order('desc')
-      .paginate({ cursor: args.cursor ?? null, numItems: limit })
-    const items = page.filter((version) => !version.softDeletedAt)
-    return { items, nextCursor: isDone ? null : continueCursor }
+    if (!(await canViewSkillById(ctx, args.skillId, await getAuthUserId(ctx)))) {
+      return { items: [], nextCursor: null }
+    }
+    return listVersionsPageForSkill(ctx, args)
   },
 })
 
+/** For HTTP handlers that already checked the token user can view the skill. */
+export const listVersionsPageInternal = internalQuery({
+  args: listVersionsPageArgs,
+  handler: async (ctx, args) => listVersionsPageForSkill(ctx, args),
+})
+
 export const getVersionById = query({
   args: { versionId: v.id('skillVersions') },
-  handler: async (ctx, args) => ctx.db.get(args.versionId),
+  handler: async (ctx, args) =>
+    getVersionForViewer(ctx, args.versionId, await getAuthUserId(ctx)),
+})
+
+export const getVersionForViewerInternal = internalQuery({
+  args: { versionId: v.id('skillVersions'), viewerUserId: v.optional(v.id('users')) },
+  handler: async (ctx, args) =>
+    getVersionForViewer(ctx, args.versionId, args.viewerUserId ?? null),
 })
 
+async function getVersionForViewer(
+  ctx: QueryCtx,
+  versionId: Id<'skillVersions'>,
+  userId: Id<'users'> | null,
+) {
+  const version = await ctx.db.get(versionId)
+  if (!version || !(await canViewSkillById(ctx, version.skillId, userId))) return null
+  return version
+}
+
 export const getVersionsByIdsInternal = internalQuery({
   args: { versionIds: v.array(v.id('skillVersions')) },
   handler: async (ctx, args) => {
@@ -2246,9 +2684,15 @@ export const updateSkillModerationReasonInternal = internalMutation({
     moderationReason: v.string(),
   },
   handler: async (ctx, args) => {
+    const skill = await ctx.db.get(args.skillId)
     await ctx.db.patch(args.skillId, {
       moderationReason: args.moderationReason,
     })
+    if (skill) {
+      const nextSkill = { ...skill, moderationReason: args.moderationReason }
+      await queueModerationWebhook(ctx, skill, nextSkill)
+      await syncSkillModerationCases(ctx, skill, nextSkill)
+    }
   },
 })
 
@@ -2289,7 +2733,9 @@ export const setSkillModerationStatusActiveInternal = internalMutation({
     const patch: Partial<Doc<'skills'>> = { moderationStatus: 'active' }
     const nextSkill = { ...skill, ...patch }
     await ctx.db.patch(args.skillId, patch)
-    await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await queueModerationWebhook(ctx, skill, nextSkill)
+    await syncSkillModerationCases(ctx, skill, nextSkill)
   },
 })
 
@@ -2308,10 +2754,16 @@ async function markSkillEmbeddingsDeleted(ctx: MutationCtx, skillId: Id<'skills'
   }
 }
 
+async function isSkillListedForEmbeddings(ctx: MutationCtx, skillId: Id<'skills'>) {
+  const skill = await ctx.db.get(skillId)
+  return skill ? isSkillListed(skill) : true
+}
+
 async function restoreSkillEmbeddingsVisibility(ctx: MutationCtx, skillId: Id<'skills'>, now: number) {
   const embeddings = await listSkillEmbeddingsForSkill(ctx, skillId)
+  const listed = await isSkillListedForEmbeddings(ctx, skillId)
   for (const embedding of embeddings) {
-    const visibility = embeddingVisibilityFor(embedding.isLatest, embedding.isApproved)
+    const visibility = embeddingVisibilityFor(embedding.isLatest, embedding.isApproved, listed)
     await ctx.db.patch(embedding._id, { visibility, updatedAt: now })
   }
 }
@@ -2337,11 +2789,12 @@ async function setSkillEmbeddingsLatestVersion(
   now: number,
 ) {
   const embeddings = await listSkillEmbeddingsForSkill(ctx, skillId)
+  const listed = await isSkillListedForEmbeddings(ctx, skillId)
   for (const embedding of embeddings) {
     const isLatest = embedding.versionId === latestVersionId
     await ctx.db.patch(embedding._id, {
       isLatest,
-      visibility: embeddingVisibilityFor(isLatest, embedding.isApproved),
+      visibility: embeddingVisibilityFor(isLatest, embedding.isApproved, listed),
       updatedAt: now,
     })
   }
@@ -2354,10 +2807,27 @@ async function setSkillEmbeddingsApproved(
   now: number,
 ) {
   const embeddings = await listSkillEmbeddingsForSkill(ctx, skillId)
+  const listed = await isSkillListedForEmbeddings(ctx, skillId)
   for (const embedding of embeddings) {
     await ctx.db.patch(embedding._id, {
       isApproved: approved,
-      visibility: embeddingVisibilityFor(embedding.isLatest, approved),
+      visibility: embeddingVisibilityFor(embedding.isLatest, approved, listed),
+      updatedAt: now,
+    })
+  }
+}
+
+async function setSkillEmbeddingsListed(
+  ctx: MutationCtx,
+  skillId: Id<'skills'>,
+  listed: boolean,
+  now: number,
+) {
+  const embeddings = await listSkillEmbeddingsForSkill(ctx, skillId)
+  for (const embedding of embeddings) {
+    if (embedding.visibility === 'deleted') continue
+    await ctx.db.patch(embedding._id, {
+      visibility: embeddingVisibilityFor(embedding.isLatest, embedding.isApproved, listed),
       updatedAt: now,
     })
   }
@@ -2397,7 +2867,7 @@ export const applyBanToOwnedSkillsBatchInternal = internalMutation({
 
       const nextSkill = { ...skill, ...patch }
       await ctx.db.patch(skill._id, patch)
-      await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+      await applySkillVisibilityChange(ctx, skill, nextSkill)
       await setSkillEmbeddingsSoftDeleted(ctx, skill._id, true, args.bannedAt)
     }
 
@@ -2448,7 +2918,7 @@ export const restoreOwnedSkillsForUnbanBatchInternal = internalMutation({
       }
       const nextSkill = { ...skill, ...patch }
       await ctx.db.patch(skill._id, patch)
-      await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+      await applySkillVisibilityChange(ctx, skill, nextSkill)
 
       await setSkillEmbeddingsSoftDeleted(ctx, skill._id, false, now)
       restoredCount += 1
@@ -2616,6 +3086,40 @@ export const updateVersionScanResultsInternal = internalMutation({
     if (Object.keys(patch).length > 0) {
       await ctx.db.patch(args.versionId, patch)
     }
+    if (args.vtAnalysis && args.vtAnalysis.status !== 'stale') {
+      await upsertScanResult(ctx, version, 'vt', {
+        verdict: toScanVerdict(args.vtAnalysis.status),
+        summary: args.vtAnalysis.verdict,
+        findings: [],
+        checkedAt: args.vtAnalysis.checkedAt,
+      })
+    }
+
+    const previous = version.vtAnalysis
+    const next = args.vtAnalysis
+    const verdictChanged =
+      next &&
+      !QUIET_VT_STATUSES.has(next.status) &&
+      (previous?.status !== next.status || previous?.verdict !== next.verdict)
+    if (verdictChanged) {
+      const skill = await ctx.db.get(version.skillId)
+      if (skill && !skill.softDeletedAt) {
+        const data = {
+          skill: await buildWebhookSkillRef(ctx, skill),
+          version: version.version,
+          verdict: { status: next.status, verdict: next.verdict ?? null, source: next.source ?? null },
+          previous: previous
+            ? { status: previous.status, verdict: previous.verdict ?? null }
+            : null,
+        }
+        await queueUserWebhookEvent(ctx, {
+          userId: skill.ownerUserId,
+          event: 'skill.verdict',
+          data,
+        })
+        await queueNotification(ctx, { userId: skill.ownerUserId, kind: 'skill.verdict', data })
+      }
+    }
   },
 })
 
@@ -2647,6 +3151,72 @@ export const updateVersionLlmAnalysisInternal = internalMutation({
     const version = await ctx.db.get(args.versionId)
     if (!version) return
     await ctx.db.patch(args.versionId, { llmAnalysis: args.llmAnalysis })
+    await upsertScanResult(ctx, version, 'llm', {
+      verdict: toScanVerdict(args.llmAnalysis.status),
+      summary: args.llmAnalysis.summary,
+      findings: [],
+      checkedAt: args.llmAnalysis.checkedAt,
+    })
+  },
+})
+
+export const updateVersionCapabilityLintInternal = internalMutation({
+  args: {
+    versionId: v.id('skillVersions'),
+    capabilityLint: capabilityLintValidator,
+  },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.versionId)
+    if (!version) return
+    await ctx.db.patch(args.versionId, { capabilityLint: args.capabilityLint })
+  },
+})
+
+/**
+ * Stores a local scanner's result and applies the combined verdict of all enforcing
+ * scanners to the skill. Only the latest version drives moderation.
+ */
+export const recordScanResultInternal = internalMutation({
+  args: {
+    versionId: v.id('skillVersions'),
+    scanner: v.string(),
+    verdict: scanVerdictValidator,
+    summary: v.optional(v.string()),
+    findings: v.array(scanFindingValidator),
+    rulesetVersion: v.optional(v.number()),
+    checkedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.versionId)
+    if (!version) return
+    await upsertScanResult(ctx, version, args.scanner, {
+      verdict: args.verdict,
+      summary: args.summary,
+      findings: args.findings,
+      rulesetVersion: args.rulesetVersion,
+      checkedAt: args.checkedAt,
+    })
+
+    const skill = await ctx.db.get(version.skillId)
+    if (!skill || skill.softDeletedAt || skill.latestVersionId !== version._id) return
+    const results = await listScanResultsForVersion(ctx, version._id)
+    const decision = combineScanVerdicts([
+      { scanner: args.scanner, verdict: args.verdict },
+      ...results.filter((result) => result.scanner !== args.scanner),
+    ])
+    const owner = await ctx.db.get(skill.ownerUserId)
+    const moderation = applyScanPolicy(skill, decision, {
+      privilegedOwner: isPrivilegedOwnerForSuspiciousBypass(owner),
+      findingFlags: collectFindingFlags(args.findings),
+    })
+    if (!moderation) return
+
+    const patch: Partial<Doc<'skills'>> = { ...moderation, updatedAt: Date.now() }
+    const nextSkill = { ...skill, ...patch }
+    await ctx.db.patch(skill._id, patch)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await queueModerationWebhook(ctx, skill, nextSkill)
+    await syncSkillModerationCases(ctx, skill, nextSkill)
   },
 })
 
@@ -2669,8 +3239,13 @@ export const approveSkillByHashInternal = internalMutation({
     const skill = await ctx.db.get(version.skillId)
     if (skill) {
       const owner = skill.ownerUserId ? await ctx.db.get(skill.ownerUserId) : null
-      const isMalicious = args.status === 'malicious'
-      const isSuspicious = args.status === 'suspicious'
+      // A stricter verdict from another enforcing scanner (see lib/scanPolicy) wins.
+      const { scanner, status } = escalateScanVerdict(
+        { scanner: args.scanner, status: args.status },
+        await listScanResultsForVersion(ctx, version._id),
+      )
+      const isMalicious = status === 'malicious'
+      const isSuspicious = status === 'suspicious'
       const isClean = !isMalicious && !isSuspicious
 
       // Defense-in-depth: read existing flags to merge scanner results.
@@ -2693,7 +3268,7 @@ export const approveSkillByHashInternal = internalMutation({
         // Clean from this scanner — only clear if no other scanner has flagged
         const otherScannerFlagged =
           existingReason?.startsWith('scanner.') &&
-          !existingReason.startsWith(`scanner.${args.scanner}.`) &&
+          !existingReason.startsWith(`scanner.${scanner}.`) &&
           !existingReason.endsWith('.clean') &&
           !existingReason.endsWith('.pending')
         newFlags = otherScannerFlagged ? existingFlags : undefined
@@ -2708,8 +3283,8 @@ export const approveSkillByHashInternal = internalMutation({
       const nextModerationReason = qualityLocked
         ? 'quality.low'
         : bypassSuspicious
-          ? `scanner.${args.scanner}.clean`
-          : `scanner.${args.scanner}.${args.status}`
+          ? `scanner.${scanner}.clean`
+          : `scanner.${scanner}.${status}`
       const nextModerationNotes = qualityLocked
         ? (skill.moderationNotes ??
           'Quality gate quarantine is still active. Manual moderation review required.')
@@ -2727,10 +3302,13 @@ export const approveSkillByHashInternal = internalMutation({
       }
       const nextSkill = { ...skill, ...patch }
       await ctx.db.patch(skill._id, patch)
-      await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+      await applySkillVisibilityChange(ctx, skill, nextSkill)
+      await queueModerationWebhook(ctx, skill, nextSkill)
+      await syncSkillModerationCases(ctx, skill, nextSkill)
 
-      // Auto-ban authors of malicious skills (skips moderators/admins)
-      if (isMalicious && skill.ownerUserId) {
+      // Auto-ban authors of malicious skills (skips moderators/admins). Only the
+      // reporting scanner's own verdict counts here, not an escalation.
+      if (args.status === 'malicious' && skill.ownerUserId) {
         await ctx.scheduler.runAfter(0, internal.users.autobanMalwareAuthorInternal, {
           ownerUserId: skill.ownerUserId,
           sha256hash: args.sha256hash,
@@ -2797,7 +3375,9 @@ export const escalateByVtInternal = internalMutation({
 
     const nextSkill = { ...skill, ...patch }
     await ctx.db.patch(skill._id, patch)
-    await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await queueModerationWebhook(ctx, skill, nextSkill)
+    await syncSkillModerationCases(ctx, skill, nextSkill)
 
     // Auto-ban authors of malicious skills
     if (isMalicious && skill.ownerUserId) {
@@ -2812,47 +3392,76 @@ export const escalateByVtInternal = internalMutation({
   },
 })
 
+async function getVersionBySkillAndVersionValue(
+  ctx: QueryCtx,
+  args: { skillId: Id<'skills'>; version: string },
+) {
+  return ctx.db
+    .query('skillVersions')
+    .withIndex('by_skill_version', (q) => q.eq('skillId', args.skillId).eq('version', args.version))
+    .unique()
+}
+
 export const getVersionBySkillAndVersion = query({
   args: { skillId: v.id('skills'), version: v.string() },
   handler: async (ctx, args) => {
-    return ctx.db
-      .query('skillVersions')
-      .withIndex('by_skill_version', (q) =>
-        q.eq('skillId', args.skillId).eq('version', args.version),
-      )
-      .unique()
+    if (!(await canViewSkillById(ctx, args.skillId, await getAuthUserId(ctx)))) return null
+    return getVersionBySkillAndVersionValue(ctx, args)
   },
 })
 
+/** For HTTP handlers that already checked the caller can view the skill. */
+export const getVersionBySkillAndVersionInternal = internalQuery({
+  args: { skillId: v.id('skills'), version: v.string() },
+  handler: async (ctx, args) => getVersionBySkillAndVersionValue(ctx, args),
+})
+
+const publishVersionArgs = {
+  slug: v.string(),
+  displayName: v.string(),
+  version: v.string(),
+  changelog: v.string(),
+  tags: v.optional(v.array(v.string())),
+  forkOf: v.optional(
+    v.object({
+      slug: v.string(),
+      version: v.optional(v.string()),
+    }),
+  ),
+  org: v.optional(v.string()),
+  visibility: v.optional(skillVisibilityValidator),
+  files: v.array(
+    v.object({
+      path: v.string(),
+      size: v.number(),
+      storageId: v.id('_storage'),
+      sha256: v.string(),
+      contentType: v.optional(v.string()),
+    }),
+  ),
+}
+
 export const publishVersion: ReturnType<typeof action> = action({
-  args: {
-    slug: v.string(),
-    displayName: v.string(),
-    version: v.string(),
-    changelog: v.string(),
-    tags: v.optional(v.array(v.string())),
-    forkOf: v.optional(
-      v.object({
-        slug: v.string(),
-        version: v.optional(v.string()),
-      }),
-    ),
-    files: v.array(
-      v.object({
-        path: v.string(),
-        size: v.number(),
-        storageId: v.id('_storage'),
-        sha256: v.string(),
-        contentType: v.optional(v.string()),
-      }),
-    ),
-  },
+  args: publishVersionArgs,
   handler: async (ctx, args): Promise<PublishResult> => {
     const { userId } = await requireUserFromAction(ctx)
     return publishVersionForUser(ctx, userId, args)
   },
 })
 
+/** Dry run for the upload page: same checks and scanners as publish, nothing is stored. */
+export const previewPublish: ReturnType<typeof action> = action({
+  args: publishVersionArgs,
+  handler: async (ctx, args): Promise<PublishPreview> => {
+    const { userId } = await requireUserFromAction(ctx)
+    try {
+      return await previewPublishForUser(ctx, userId, args)
+    } finally {
+      await discardPreviewUploads(ctx, args.files)
+    }
+  },
+})
+
 export const generateChangelogPreview = action({
   args: {
     slug: v.string(),
@@ -2875,8 +3484,9 @@ export const generateChangelogPreview = action({
 export const getReadme: ReturnType<typeof action> = action({
   args: { versionId: v.id('skillVersions') },
   handler: async (ctx, args): Promise<ReadmeResult> => {
-    const version = (await ctx.runQuery(internal.skills.getVersionByIdInternal, {
+    const version = (await ctx.runQuery(internal.skills.getVersionForViewerInternal, {
       versionId: args.versionId,
+      viewerUserId: (await getAuthUserId(ctx)) ?? undefined,
     })) as Doc<'skillVersions'> | null
     if (!version) throw new ConvexError('Version not found')
     const readmeFile = version.files.find(
@@ -2891,8 +3501,9 @@ export const getReadme: ReturnType<typeof action> = action({
 export const getFileText: ReturnType<typeof action> = action({
   args: { versionId: v.id('skillVersions'), path: v.string() },
   handler: async (ctx, args): Promise<FileTextResult> => {
-    const version = (await ctx.runQuery(internal.skills.getVersionByIdInternal, {
+    const version = (await ctx.runQuery(internal.skills.getVersionForViewerInternal, {
       versionId: args.versionId,
+      viewerUserId: (await getAuthUserId(ctx)) ?? undefined,
     })) as Doc<'skillVersions'> | null
     if (!version) throw new ConvexError('Version not found')
 
@@ -2913,66 +3524,79 @@ export const getFileText: ReturnType<typeof action> = action({
 
 export const resolveVersionByHash = query({
   args: { slug: v.string(), hash: v.string() },
-  handler: async (ctx, args) => {
-    const slug = args.slug.trim().toLowerCase()
-    const hash = args.hash.trim().toLowerCase()
-    if (!slug || !/^[a-f0-9]{64}$/.test(hash)) return null
+  handler: async (ctx, args) => resolveVersionByHashForViewer(ctx, args, await getAuthUserId(ctx)),
+})
 
-    const skill = await ctx.db
-      .query('skills')
-      .withIndex('by_slug', (q) => q.eq('slug', slug))
-      .unique()
-    if (!skill || skill.softDeletedAt) return null
+export const resolveVersionByHashForViewerInternal = internalQuery({
+  args: { slug: v.string(), hash: v.string(), viewerUserId: v.optional(v.id('users')) },
+  handler: async (ctx, args) =>
+    resolveVersionByHashForViewer(ctx, args, args.viewerUserId ?? null),
+})
 
-    const latestVersion = skill.latestVersionId ? await ctx.db.get(skill.latestVersionId) : null
+async function resolveVersionByHashForViewer(
+  ctx: QueryCtx,
+  args: { slug: string; hash: string },
+  userId: Id<'users'> | null,
+) {
+  const slug = args.slug.trim().toLowerCase()
+  const hash = args.hash.trim().toLowerCase()
+  if (!slug || !/^[a-f0-9]{64}$/.test(hash)) return null
 
-    const fingerprintMatches = await ctx.db
-      .query('skillVersionFingerprints')
-      .withIndex('by_skill_fingerprint', (q) => q.eq('skillId', skill._id).eq('fingerprint', hash))
-      .take(25)
+  const skill = await ctx.db
+    .query('skills')
+    .withIndex('by_slug', (q) => q.eq('slug', slug))
+    .unique()
+  if (!skill || skill.softDeletedAt) return null
+  if (!(await canViewSkill(ctx, skill, userId))) return null
 
-    let match: { version: string } | null = null
-    if (fingerprintMatches.length > 0) {
-      const newest = fingerprintMatches.reduce(
-        (best, entry) => (entry.createdAt > best.createdAt ? entry : best),
-        fingerprintMatches[0] as (typeof fingerprintMatches)[number],
-      )
-      const version = await ctx.db.get(newest.versionId)
-      if (version && !version.softDeletedAt) {
-        match = { version: version.version }
-      }
+  const latestVersion = skill.latestVersionId ? await ctx.db.get(skill.latestVersionId) : null
+
+  const fingerprintMatches = await ctx.db
+    .query('skillVersionFingerprints')
+    .withIndex('by_skill_fingerprint', (q) => q.eq('skillId', skill._id).eq('fingerprint', hash))
+    .take(25)
+
+  let match: { version: string } | null = null
+  if (fingerprintMatches.length > 0) {
+    const newest = fingerprintMatches.reduce(
+      (best, entry) => (entry.createdAt > best.createdAt ? entry : best),
+      fingerprintMatches[0] as (typeof fingerprintMatches)[number],
+    )
+    const version = await ctx.db.get(newest.versionId)
+    if (version && !version.softDeletedAt) {
+      match = { version: version.version }
     }
+  }
 
-    if (!match) {
-      const versions = await ctx.db
-        .query('skillVersions')
-        .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
-        .order('desc')
-        .take(200)
+  if (!match) {
+    const versions = await ctx.db
+      .query('skillVersions')
+      .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+      .order('desc')
+      .take(200)
 
-      for (const version of versions) {
-        if (version.softDeletedAt) continue
-        if (typeof version.fingerprint === 'string' && version.fingerprint === hash) {
-          match = { version: version.version }
-          break
-        }
+    for (const version of versions) {
+      if (version.softDeletedAt) continue
+      if (typeof version.fingerprint === 'string' && version.fingerprint === hash) {
+        match = { version: version.version }
+        break
+      }
 
-        const fingerprint = await hashSkillFiles(
-          version.files.map((file) => ({ path: file.path, sha256: file.sha256 })),
-        )
-        if (fingerprint === hash) {
-          match = { version: version.version }
-          break
-        }
+      const fingerprint = await hashSkillFiles(
+        version.files.map((file) => ({ path: file.path, sha256: file.sha256 })),
+      )
+      if (fingerprint === hash) {
+        match = { version: version.version }
+        break
       }
     }
+  }
 
-    return {
-      match,
-      latestVersion: latestVersion ? { version: latestVersion.version } : null,
-    }
-  },
-})
+  return {
+    match,
+    latestVersion: latestVersion ? { version: latestVersion.version } : null,
+  }
+}
 
 export const updateTags = mutation({
   args: {
@@ -2983,7 +3607,7 @@ export const updateTags = mutation({
     const { user } = await requireUser(ctx)
     const skill = await ctx.db.get(args.skillId)
     if (!skill) throw new Error('Skill not found')
-    if (skill.ownerUserId !== user._id) {
+    if (!(await canManageSkill(ctx, skill, user._id))) {
       assertModerator(user)
     }
 
@@ -2993,12 +3617,21 @@ export const updateTags = mutation({
     }
 
     const latestEntry = args.tags.find((entry) => entry.tag === 'latest')
+    const latestVersion = latestEntry ? await ctx.db.get(latestEntry.versionId) : null
     const now = Date.now()
     await ctx.db.patch(skill._id, {
       tags: nextTags,
       latestVersionId: latestEntry ? latestEntry.versionId : skill.latestVersionId,
+      ...(latestVersion
+        ? { runtimeFacets: deriveSkillRuntimeFacets(latestVersion.parsed.clawdis) }
+        : {}),
       updatedAt: now,
     })
+    if (latestVersion) {
+      await ctx.scheduler.runAfter(0, internal.searchIndex.indexSkillVersion, {
+        versionId: latestVersion._id,
+      })
+    }
 
     if (latestEntry) {
       await setSkillEmbeddingsLatestVersion(ctx, skill._id, latestEntry.versionId, now)
@@ -3006,6 +3639,35 @@ export const updateTags = mutation({
   },
 })
 
+export const setVisibility = mutation({
+  args: { skillId: v.id('skills'), visibility: skillVisibilityValidator },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const skill = await ctx.db.get(args.skillId)
+    if (!skill || skill.softDeletedAt) throw new Error('Skill not found')
+    await requireSkillAccessManager(ctx, skill, userId)
+
+    const previous = getSkillVisibility(skill)
+    if (previous === args.visibility) return { ok: true as const }
+
+    const now = Date.now()
+    const nextSkill = { ...skill, visibility: args.visibility }
+    await ctx.db.patch(skill._id, { visibility: args.visibility })
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await setSkillEmbeddingsListed(ctx, skill._id, isSkillListed(nextSkill), now)
+
+    await ctx.db.insert('auditLogs', {
+      actorUserId: userId,
+      action: 'skill.visibility',
+      targetType: 'skill',
+      targetId: skill._id,
+      metadata: { slug: skill.slug, from: previous, to: args.visibility },
+      createdAt: now,
+    })
+    return { ok: true as const }
+  },
+})
+
 export const setRedactionApproved = mutation({
   args: { skillId: v.id('skills'), approved: v.boolean() },
   handler: async (ctx, args) => {
@@ -3078,6 +3740,27 @@ export const setBatch = mutation({
   },
 })
 
+/**
+ * Applies a moderation patch with the usual side effects: public counts, owner webhook and
+ * notification, moderation cases, and search embeddings when the soft-delete state flips.
+ */
+export async function patchSkillModeration(
+  ctx: MutationCtx,
+  skill: Doc<'skills'>,
+  patch: Partial<Doc<'skills'>>,
+) {
+  const now = patch.updatedAt ?? Date.now()
+  const nextSkill = { ...skill, ...patch }
+  await ctx.db.patch(skill._id, patch)
+  await applySkillVisibilityChange(ctx, skill, nextSkill)
+  await queueModerationWebhook(ctx, skill, nextSkill)
+  await syncSkillModerationCases(ctx, skill, nextSkill)
+  if (Boolean(skill.softDeletedAt) !== Boolean(nextSkill.softDeletedAt)) {
+    await setSkillEmbeddingsSoftDeleted(ctx, skill._id, Boolean(nextSkill.softDeletedAt), now)
+  }
+  return nextSkill
+}
+
 export const setSoftDeleted = mutation({
   args: { skillId: v.id('skills'), deleted: v.boolean() },
   handler: async (ctx, args) => {
@@ -3097,7 +3780,9 @@ export const setSoftDeleted = mutation({
     }
     const nextSkill = { ...skill, ...patch }
     await ctx.db.patch(skill._id, patch)
-    await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await queueModerationWebhook(ctx, skill, nextSkill)
+    await syncSkillModerationCases(ctx, skill, nextSkill)
 
     await setSkillEmbeddingsSoftDeleted(ctx, skill._id, args.deleted, now)
 
@@ -3541,6 +4226,8 @@ export const insertVersion = internalMutation({
     changelogSource: v.optional(v.union(v.literal('auto'), v.literal('user'))),
     tags: v.optional(v.array(v.string())),
     fingerprint: v.string(),
+    orgId: v.optional(v.id('orgs')),
+    visibility: v.optional(skillVisibilityValidator),
     bypassNewSkillRateLimit: v.optional(v.boolean()),
     forkOf: v.optional(
       v.object({
@@ -3583,6 +4270,20 @@ export const insertVersion = internalMutation({
       }),
     ),
     embedding: v.array(v.number()),
+    embeddingModel: v.optional(v.string()),
+    embeddingNext: v.optional(v.array(v.number())),
+    embeddingNextModel: v.optional(v.string()),
+    scanResults: v.optional(
+      v.array(
+        v.object({
+          scanner: v.string(),
+          verdict: scanVerdictValidator,
+          summary: v.optional(v.string()),
+          findings: v.array(scanFindingValidator),
+          rulesetVersion: v.optional(v.number()),
+        }),
+      ),
+    ),
   },
   handler: async (ctx, args) => {
     const userId = args.userId
@@ -3596,29 +4297,26 @@ export const insertVersion = internalMutation({
       .withIndex('by_slug', (q) => q.eq('slug', args.slug))
       .unique()
 
-    if (skill && skill.ownerUserId !== userId) {
-      // Fallback: Convex Auth can create duplicate `users` records. Heal ownership ONLY
-      // when the underlying GitHub identity matches (authAccounts.providerAccountId).
-      const owner = await ctx.db.get(skill.ownerUserId)
-      if (!owner || owner.deletedAt || owner.deactivatedAt) {
-        throw new Error('Only the owner can publish updates')
-      }
-
-      const [ownerProviderAccountId, callerProviderAccountId] = await Promise.all([
-        getGitHubProviderAccountId(ctx, skill.ownerUserId),
-        getGitHubProviderAccountId(ctx, userId),
-      ])
-
-      // Deny healing when GitHub identity isn't present/consistent.
-      if (
-        !canHealSkillOwnershipByGitHubProviderAccountId(
-          ownerProviderAccountId,
-          callerProviderAccountId,
-        )
-      ) {
-        throw new Error('Only the owner can publish updates')
-      }
+    if (skill && args.orgId && skill.ownerOrgId !== args.orgId) {
+      throw new Error('Skill is not owned by this org')
+    }
+    // Org-owned skills are published by any owner/maintainer, not just the original author.
+    const publishOrgId = skill ? skill.ownerOrgId : args.orgId
+    if (publishOrgId) {
+      const org = await ctx.db.get(publishOrgId)
+      if (!org || org.deletedAt) throw new Error('Org not found')
+      await requireOrgPublisher(ctx, publishOrgId, userId)
+    }
 
+    const { healOwnership } = await assertCanPublishVersion(ctx, {
+      user,
+      skill,
+      slug: args.slug,
+      version: args.version,
+      now,
+      bypassNewSkillRateLimit: args.bypassNewSkillRateLimit,
+    })
+    if (skill && healOwnership) {
       await ctx.db.patch(skill._id, { ownerUserId: userId, updatedAt: now })
       skill = { ...skill, ownerUserId: userId }
     }
@@ -3639,6 +4337,9 @@ export const insertVersion = internalMutation({
       ? `Auto-quarantined by quality gate (score=${qualityAssessment.score}, tier=${qualityAssessment.trustTier}, similar=${qualityAssessment.similarRecentCount}).`
       : undefined
 
+    const scanResults = args.scanResults ?? []
+    const privilegedPublisher = isPrivilegedOwnerForSuspiciousBypass(user)
+
     const qualityRecord = qualityAssessment
       ? {
           score: qualityAssessment.score,
@@ -3655,11 +4356,6 @@ export const insertVersion = internalMutation({
       // Anti-squatting: enforce reserved slug cooldown.
       await enforceReservedSlugCooldownForNewSkill(ctx, { slug: args.slug, userId, now })
 
-      if (!args.bypassNewSkillRateLimit) {
-        const ownerTrustSignals = await getOwnerTrustSignals(ctx, user, now)
-        enforceNewSkillRateLimit(ownerTrustSignals)
-      }
-
       const forkOfSlug = args.forkOf?.slug.trim().toLowerCase() || ''
       const forkOfVersion = args.forkOf?.version?.trim() || undefined
 
@@ -3700,16 +4396,22 @@ export const insertVersion = internalMutation({
 
       const summary = args.summary ?? getFrontmatterValue(args.parsed.frontmatter, 'description')
       const summaryValue = summary ?? undefined
-      const moderationFlags = deriveModerationFlags({
-        skill: { slug: args.slug, displayName: args.displayName, summary: summaryValue },
-        parsed: args.parsed,
-        files: args.files,
-      })
+      const moderationFlags = applyPublishScanFlags(
+        deriveModerationFlags({
+          skill: { slug: args.slug, displayName: args.displayName, summary: summaryValue },
+          parsed: args.parsed,
+          files: args.files,
+        }),
+        scanResults,
+        privilegedPublisher,
+      )
       const skillId = await ctx.db.insert('skills', {
         slug: args.slug,
         displayName: args.displayName,
         summary: summaryValue,
         ownerUserId: userId,
+        ownerOrgId: args.orgId,
+        visibility: args.visibility,
         canonicalSkillId,
         forkOf,
         latestVersionId: undefined,
@@ -3745,20 +4447,13 @@ export const insertVersion = internalMutation({
       })
       skill = await ctx.db.get(skillId)
       if (skill) {
-        await adjustGlobalPublicCountForSkillChange(ctx, null, skill)
+        await applySkillVisibilityChange(ctx, null, skill)
+        await syncSkillModerationCases(ctx, null, skill)
       }
     }
 
     if (!skill) throw new Error('Skill creation failed')
 
-    const existingVersion = await ctx.db
-      .query('skillVersions')
-      .withIndex('by_skill_version', (q) => q.eq('skillId', skill._id).eq('version', args.version))
-      .unique()
-    if (existingVersion) {
-      throw new Error('Version already exists')
-    }
-
     const versionId = await ctx.db.insert('skillVersions', {
       skillId: skill._id,
       version: args.version,
@@ -3771,6 +4466,12 @@ export const insertVersion = internalMutation({
       createdAt: now,
       softDeletedAt: undefined,
     })
+    for (const { scanner, ...outcome } of scanResults) {
+      await upsertScanResult(ctx, { _id: versionId, skillId: skill._id }, scanner, {
+        ...outcome,
+        checkedAt: now,
+      })
+    }
 
     const nextTags: Record<string, Id<'skillVersions'>> = { ...skill.tags }
     nextTags.latest = versionId
@@ -3782,11 +4483,19 @@ export const insertVersion = internalMutation({
 
     const nextSummary =
       args.summary ?? getFrontmatterValue(args.parsed.frontmatter, 'description') ?? skill.summary
-    const moderationFlags = deriveModerationFlags({
-      skill: { slug: skill.slug, displayName: args.displayName, summary: nextSummary ?? undefined },
-      parsed: args.parsed,
-      files: args.files,
-    })
+    const moderationFlags = applyPublishScanFlags(
+      deriveModerationFlags({
+        skill: {
+          slug: skill.slug,
+          displayName: args.displayName,
+          summary: nextSummary ?? undefined,
+        },
+        parsed: args.parsed,
+        files: args.files,
+      }),
+      scanResults,
+      privilegedPublisher,
+    )
 
     const patch: Partial<Doc<'skills'>> = {
       displayName: args.displayName,
@@ -3800,11 +4509,15 @@ export const insertVersion = internalMutation({
       moderationNotes,
       quality: qualityRecord ?? skill.quality,
       moderationFlags: moderationFlags.length ? moderationFlags : undefined,
+      runtimeFacets: deriveSkillRuntimeFacets(args.parsed.clawdis),
+      category: parseSkillCategory(args.parsed.frontmatter),
+      visibility: args.visibility ?? skill.visibility,
       updatedAt: now,
     }
     const nextSkill = { ...skill, ...patch }
     await ctx.db.patch(skill._id, patch)
-    await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await syncSkillModerationCases(ctx, skill, nextSkill)
 
     const badgeMap = await getSkillBadgeMap(ctx, skill._id)
     const isApproved = Boolean(badgeMap.redactionApproved)
@@ -3814,9 +4527,12 @@ export const insertVersion = internalMutation({
       versionId,
       ownerId: userId,
       embedding: args.embedding,
+      embeddingModel: args.embeddingModel,
+      embeddingNext: args.embeddingNext,
+      embeddingNextModel: args.embeddingNextModel,
       isLatest: true,
       isApproved,
-      visibility: embeddingVisibilityFor(true, isApproved),
+      visibility: embeddingVisibilityFor(true, isApproved, isSkillListed(nextSkill)),
       updatedAt: now,
     })
     // Lightweight lookup so search hydration can skip reading the 12KB embedding doc
@@ -3830,11 +4546,18 @@ export const insertVersion = internalMutation({
       if (previousEmbedding) {
         await ctx.db.patch(previousEmbedding._id, {
           isLatest: false,
-          visibility: embeddingVisibilityFor(false, previousEmbedding.isApproved),
+          visibility: embeddingVisibilityFor(
+            false,
+            previousEmbedding.isApproved,
+            isSkillListed(nextSkill),
+          ),
           updatedAt: now,
         })
       }
     }
+    if (isSkillListed(skill) !== isSkillListed(nextSkill)) {
+      await setSkillEmbeddingsListed(ctx, skill._id, isSkillListed(nextSkill), now)
+    }
 
     await ctx.db.insert('skillVersionFingerprints', {
       skillId: skill._id,
@@ -3843,6 +4566,13 @@ export const insertVersion = internalMutation({
       createdAt: now,
     })
 
+    await syncSkillDependencies(
+      ctx,
+      skill._id,
+      (args.parsed.clawdis as ClawdisSkillMetadata | undefined)?.requires?.skills ?? [],
+      now,
+    )
+
     return { skillId: skill._id, versionId, embeddingId }
   },
 })
@@ -3881,7 +4611,9 @@ export const setSkillSoftDeletedInternal = internalMutation({
     }
     const nextSkill = { ...skill, ...patch }
     await ctx.db.patch(skill._id, patch)
-    await adjustGlobalPublicCountForSkillChange(ctx, skill, nextSkill)
+    await applySkillVisibilityChange(ctx, skill, nextSkill)
+    await queueModerationWebhook(ctx, skill, nextSkill)
+    await syncSkillModerationCases(ctx, skill, nextSkill)
 
     await setSkillEmbeddingsSoftDeleted(ctx, skill._id, args.deleted, now)
 
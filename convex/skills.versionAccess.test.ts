@@ -0,0 +1,71 @@
+/* @vitest-environment node */
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@convex-dev/auth/server', () => ({
+  getAuthUserId: vi.fn(),
+}))
+
+const { getAuthUserId } = await import('@convex-dev/auth/server')
+const { getVersionById, getVersionBySkillAndVersion, listVersions } = await import('./skills')
+
+type WrappedHandler<TArgs> = {
+  _handler: (ctx: unknown, args: TArgs) => Promise<unknown>
+}
+
+const handler = <TArgs>(fn: unknown) => (fn as WrappedHandler<TArgs>)._handler
+
+const privateSkill = {
+  _id: 'skills:private',
+  ownerUserId: 'users:owner',
+  visibility: 'private',
+}
+const version = { _id: 'skillVersions:1', skillId: 'skills:private', version: '1.0.0' }
+
+function makeCtx() {
+  const get = vi.fn(async (id: string) => {
+    if (id === 'skills:private') return privateSkill
+    if (id === 'skillVersions:1') return version
+    return null
+  })
+  const query = vi.fn((table: string) => {
+    if (table === 'skillShares') {
+      return { withIndex: () => ({ take: async () => [] }) }
+    }
+    if (table === 'skillVersions') {
+      return {
+        withIndex: () => ({
+          order: () => ({ take: async () => [version] }),
+          unique: async () => version,
+        }),
+      }
+    }
+    throw new Error(`unexpected table ${table}`)
+  })
+  return { db: { get, query } }
+}
+
+describe('skill version reads', () => {
+  it('hide private skill versions from callers without access', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue('users:stranger' as never)
+    const ctx = makeCtx()
+
+    expect(
+      await handler(getVersionById)(ctx, { versionId: 'skillVersions:1' }),
+    ).toBeNull()
+    expect(
+      await handler(getVersionBySkillAndVersion)(ctx, {
+        skillId: 'skills:private',
+        version: '1.0.0',
+      }),
+    ).toBeNull()
+    expect(await handler(listVersions)(ctx, { skillId: 'skills:private' })).toEqual([])
+  })
+
+  it('return private skill versions to the owner', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue('users:owner' as never)
+    const ctx = makeCtx()
+
+    expect(await handler(getVersionById)(ctx, { versionId: 'skillVersions:1' })).toBe(version)
+    expect(await handler(listVersions)(ctx, { skillId: 'skills:private' })).toEqual([version])
+  })
+})
@@ -1,6 +1,10 @@
 /* @vitest-environment node */
 import { afterEach, describe, expect, it, vi } from 'vitest'
 
+vi.mock('@convex-dev/auth/server', () => ({
+  getAuthUserId: vi.fn(async () => null),
+}))
+
 vi.mock('./lib/access', () => ({
   assertModerator: vi.fn(),
   requireUser: vi.fn(),
@@ -12,7 +16,8 @@ vi.mock('./lib/githubAccount', () => ({
 
 const { requireUser } = await import('./lib/access')
 const { requireGitHubAccountAge } = await import('./lib/githubAccount')
-const { addHandler } = await import('./soulComments')
+const { getAuthUserId } = await import('@convex-dev/auth/server')
+const { addHandler, listEdits } = await import('./soulComments')
 
 describe('soul comments mutations', () => {
   afterEach(() => {
@@ -77,3 +82,40 @@ describe('soul comments mutations', () => {
     expect(patch).not.toHaveBeenCalled()
   })
 })
+
+describe('soulComments.listEdits', () => {
+  function makeEditsCtx(viewer: Record<string, unknown>) {
+    const docs: Record<string, Record<string, unknown>> = {
+      'soulComments:1': { _id: 'soulComments:1', soulId: 'souls:1', userId: 'users:author' },
+      'souls:1': { _id: 'souls:1', ownerUserId: 'users:owner' },
+      [String(viewer._id)]: viewer,
+    }
+    const edits = [{ previousBody: 'old body', editedAt: 5 }]
+    const query = () => ({ withIndex: () => ({ order: () => ({ take: async () => edits }) }) })
+    return { db: { get: async (id: string) => docs[id] ?? null, query } } as never
+  }
+  const handler = (listEdits as unknown as { _handler: (...args: unknown[]) => unknown })._handler
+
+  it('hides earlier bodies from anonymous and unrelated viewers', async () => {
+    vi.mocked(getAuthUserId).mockResolvedValue(null)
+    const anonymous = makeEditsCtx({ _id: 'users:reader', role: 'user' })
+    expect(await handler(anonymous, { commentId: 'soulComments:1' })).toEqual([])
+
+    vi.mocked(getAuthUserId).mockResolvedValue('users:reader' as never)
+    const reader = makeEditsCtx({ _id: 'users:reader', role: 'user' })
+    expect(await handler(reader, { commentId: 'soulComments:1' })).toEqual([])
+  })
+
+  it('shows earlier bodies to the author, the soul owner and moderators', async () => {
+    for (const viewer of [
+      { _id: 'users:author', role: 'user' },
+      { _id: 'users:owner', role: 'user' },
+      { _id: 'users:mod', role: 'moderator' },
+    ]) {
+      vi.mocked(getAuthUserId).mockResolvedValue(viewer._id as never)
+      expect(await handler(makeEditsCtx(viewer), { commentId: 'soulComments:1' })).toEqual([
+        { previousBody: 'old body', editedAt: 5 },
+      ])
+    }
+  })
+})
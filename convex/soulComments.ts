@@ -1,57 +1,137 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
 import { v } from 'convex/values'
-import type { Id } from './_generated/dataModel'
-import type { Doc } from './_generated/dataModel'
+import type { Doc, Id } from './_generated/dataModel'
 import type { MutationCtx } from './_generated/server'
 import { mutation, query } from './_generated/server'
+import { notifyMentionedUsers } from './comments.handlers'
 import { assertModerator, requireUser } from './lib/access'
+import {
+  buildCommentThreads,
+  extractMentions,
+  MAX_PINNED_COMMENTS,
+  newMentions,
+  normalizeCommentBody,
+} from './lib/comments'
 import { requireGitHubAccountAge } from './lib/githubAccount'
 import { type PublicUser, toPublicUser } from './lib/public'
 
+type SoulCommentRow = {
+  comment: Doc<'soulComments'>
+  user: PublicUser | null
+  isSoulOwner: boolean
+}
+
 export const listBySoul = query({
   args: { soulId: v.id('souls'), limit: v.optional(v.number()) },
   handler: async (ctx, args) => {
     const limit = args.limit ?? 50
-    const comments = await ctx.db
+    const soul = await ctx.db.get(args.soulId)
+    const recent = await ctx.db
       .query('soulComments')
       .withIndex('by_soul', (q) => q.eq('soulId', args.soulId))
       .order('desc')
       .take(limit)
+    const pinned = await ctx.db
+      .query('soulComments')
+      .withIndex('by_soul_pinned', (q) => q.eq('soulId', args.soulId).gt('pinnedAt', 0))
+      .order('desc')
+      .take(MAX_PINNED_COMMENTS)
 
-    const results: Array<{ comment: Doc<'soulComments'>; user: PublicUser | null }> = []
-    for (const comment of comments) {
+    const byId = new Map<string, Doc<'soulComments'>>()
+    for (const comment of [...recent, ...pinned]) byId.set(comment._id, comment)
+    const missingParentIds = new Set<Id<'soulComments'>>()
+    for (const comment of byId.values()) {
+      if (comment.parentCommentId && !byId.has(comment.parentCommentId)) {
+        missingParentIds.add(comment.parentCommentId)
+      }
+    }
+    for (const parentId of missingParentIds) {
+      const parent = await ctx.db.get(parentId)
+      if (parent) byId.set(parent._id, parent)
+    }
+
+    const results: SoulCommentRow[] = []
+    for (const comment of byId.values()) {
       if (comment.softDeletedAt) continue
       const user = toPublicUser(await ctx.db.get(comment.userId))
-      results.push({ comment, user })
+      results.push({ comment, user, isSoulOwner: comment.userId === soul?.ownerUserId })
     }
-    return results
+    return buildCommentThreads(results)
+  },
+})
+
+export const listEdits = query({
+  args: { commentId: v.id('soulComments') },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx)
+    if (!userId) return []
+    const comment = await ctx.db.get(args.commentId)
+    if (!comment || comment.softDeletedAt) return []
+    const [soul, user] = await Promise.all([ctx.db.get(comment.soulId), ctx.db.get(userId)])
+    if (!soul || !user) return []
+    const isStaff = user.role === 'admin' || user.role === 'moderator'
+    if (comment.userId !== userId && !isStaff && soul.ownerUserId !== userId) return []
+    const edits = await ctx.db
+      .query('soulCommentEdits')
+      .withIndex('by_comment', (q) => q.eq('commentId', args.commentId))
+      .order('desc')
+      .take(50)
+    return edits.map((edit) => ({ previousBody: edit.previousBody, editedAt: edit.editedAt }))
   },
 })
 
 export const add = mutation({
-  args: { soulId: v.id('souls'), body: v.string() },
+  args: {
+    soulId: v.id('souls'),
+    body: v.string(),
+    parentCommentId: v.optional(v.id('soulComments')),
+  },
   handler: addHandler,
 })
 
+export const edit = mutation({
+  args: { commentId: v.id('soulComments'), body: v.string() },
+  handler: editHandler,
+})
+
+export const pin = mutation({
+  args: { commentId: v.id('soulComments'), pinned: v.boolean() },
+  handler: pinHandler,
+})
+
 export const remove = mutation({
   args: { commentId: v.id('soulComments') },
   handler: removeHandler,
 })
 
-export async function addHandler(ctx: MutationCtx, args: { soulId: Id<'souls'>; body: string }) {
-  const { userId } = await requireUser(ctx)
+export async function addHandler(
+  ctx: MutationCtx,
+  args: { soulId: Id<'souls'>; body: string; parentCommentId?: Id<'soulComments'> },
+) {
+  const { userId, user } = await requireUser(ctx)
   await requireGitHubAccountAge(ctx, userId)
 
-  const body = args.body.trim()
-  if (!body) throw new Error('Comment body required')
+  const body = normalizeCommentBody(args.body)
 
   const soul = await ctx.db.get(args.soulId)
   if (!soul) throw new Error('Soul not found')
 
-  await ctx.db.insert('soulComments', {
+  let parentCommentId: Id<'soulComments'> | undefined
+  if (args.parentCommentId) {
+    const parent = await ctx.db.get(args.parentCommentId)
+    if (!parent || parent.softDeletedAt || parent.soulId !== soul._id) {
+      throw new Error('Comment not found')
+    }
+    parentCommentId = parent.parentCommentId ?? parent._id
+  }
+
+  const createdAt = Date.now()
+  const commentId = await ctx.db.insert('soulComments', {
     soulId: args.soulId,
     userId,
+    ...(parentCommentId ? { parentCommentId } : {}),
     body,
-    createdAt: Date.now(),
+    createdAt,
     softDeletedAt: undefined,
     deletedBy: undefined,
   })
@@ -60,6 +140,97 @@ export async function addHandler(ctx: MutationCtx, args: { soulId: Id<'souls'>;
     stats: { ...soul.stats, comments: soul.stats.comments + 1 },
     updatedAt: Date.now(),
   })
+
+  const handles = extractMentions(body)
+  if (handles.length > 0) {
+    await notifyMentionedUsers(ctx, {
+      handles,
+      authorUserId: userId,
+      data: {
+        soul: { slug: soul.slug, displayName: soul.displayName },
+        comment: { id: commentId, body, authorHandle: user.handle ?? null, createdAt },
+      },
+    })
+  }
+}
+
+export async function editHandler(
+  ctx: MutationCtx,
+  args: { commentId: Id<'soulComments'>; body: string },
+) {
+  const { userId, user } = await requireUser(ctx)
+  const comment = await ctx.db.get(args.commentId)
+  if (!comment || comment.softDeletedAt) throw new Error('Comment not found')
+  if (comment.userId !== userId) throw new Error('Only the author can edit this comment')
+
+  const body = normalizeCommentBody(args.body)
+  if (body === comment.body) return { ok: true as const, edited: false }
+
+  const editedAt = Date.now()
+  await ctx.db.insert('soulCommentEdits', {
+    commentId: comment._id,
+    userId,
+    previousBody: comment.body,
+    editedAt,
+  })
+  await ctx.db.patch(comment._id, { body, editedAt })
+
+  const handles = newMentions(comment.body, body)
+  const soul = handles.length > 0 ? await ctx.db.get(comment.soulId) : null
+  if (soul) {
+    await notifyMentionedUsers(ctx, {
+      handles,
+      authorUserId: userId,
+      data: {
+        soul: { slug: soul.slug, displayName: soul.displayName },
+        comment: {
+          id: comment._id,
+          body,
+          authorHandle: user.handle ?? null,
+          createdAt: comment.createdAt,
+        },
+      },
+    })
+  }
+  return { ok: true as const, edited: true }
+}
+
+export async function pinHandler(
+  ctx: MutationCtx,
+  args: { commentId: Id<'soulComments'>; pinned: boolean },
+) {
+  const { user } = await requireUser(ctx)
+  const comment = await ctx.db.get(args.commentId)
+  if (!comment || comment.softDeletedAt) throw new Error('Comment not found')
+  if (comment.parentCommentId) throw new Error('Only top-level comments can be pinned')
+  const soul = await ctx.db.get(comment.soulId)
+  if (!soul) throw new Error('Soul not found')
+  if (soul.ownerUserId !== user._id) assertModerator(user)
+  if (Boolean(comment.pinnedAt) === args.pinned) return { ok: true as const }
+
+  const now = Date.now()
+  if (args.pinned) {
+    const pinned = await ctx.db
+      .query('soulComments')
+      .withIndex('by_soul_pinned', (q) => q.eq('soulId', soul._id).gt('pinnedAt', 0))
+      .take(MAX_PINNED_COMMENTS + 1)
+    if (pinned.filter((entry) => !entry.softDeletedAt).length >= MAX_PINNED_COMMENTS) {
+      throw new Error(`At most ${MAX_PINNED_COMMENTS} comments can be pinned`)
+    }
+    await ctx.db.patch(comment._id, { pinnedAt: now, pinnedBy: user._id })
+  } else {
+    await ctx.db.patch(comment._id, { pinnedAt: undefined, pinnedBy: undefined })
+  }
+
+  await ctx.db.insert('auditLogs', {
+    actorUserId: user._id,
+    action: args.pinned ? 'soul.comment.pin' : 'soul.comment.unpin',
+    targetType: 'soulComment',
+    targetId: comment._id,
+    metadata: { soulId: comment.soulId },
+    createdAt: now,
+  })
+  return { ok: true as const }
 }
 
 export async function removeHandler(
@@ -391,6 +391,9 @@ export const insertVersion = internalMutation({
       metadata: v.optional(v.any()),
     }),
     embedding: v.array(v.number()),
+    embeddingModel: v.optional(v.string()),
+    embeddingNext: v.optional(v.array(v.number())),
+    embeddingNextModel: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = args.userId
@@ -478,6 +481,9 @@ export const insertVersion = internalMutation({
       versionId,
       ownerId: userId,
       embedding: args.embedding,
+      embeddingModel: args.embeddingModel,
+      embeddingNext: args.embeddingNext,
+      embeddingNextModel: args.embeddingNextModel,
       isLatest: true,
       isApproved: true,
       visibility: embeddingVisibilityFor(true, true),
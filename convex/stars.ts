@@ -2,6 +2,7 @@ import { v } from 'convex/values'
 import { internalMutation, mutation, query } from './_generated/server'
 import { requireUser } from './lib/access'
 import { toPublicSkill } from './lib/public'
+import { isSkillListed } from './lib/skillVisibility'
 import { insertStatEvent } from './skillStatEvents'
 
 export const isStarred = query({
@@ -58,6 +59,7 @@ export const listByUser = query({
     const skills: NonNullable<ReturnType<typeof toPublicSkill>>[] = []
     for (const star of stars) {
       const skill = await ctx.db.get(star.skillId)
+      if (skill && !isSkillListed(skill)) continue
       const publicSkill = toPublicSkill(skill)
       if (!publicSkill) continue
       skills.push(publicSkill)
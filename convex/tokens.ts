@@ -2,7 +2,10 @@ import { v } from 'convex/values'
 import type { Doc } from './_generated/dataModel'
 import { internalMutation, internalQuery, mutation, query } from './_generated/server'
 import { requireUser } from './lib/access'
-import { generateToken, hashToken } from './lib/tokens'
+import { DEFAULT_TOKEN_SCOPES, normalizeTokenScopes } from './lib/tokenScopes'
+import { generateToken, hashToken, isApiTokenActive } from './lib/tokens'
+
+const MAX_TOKEN_LIFETIME_MS = 366 * 24 * 60 * 60_000
 
 export const listMine = query({
   args: {},
@@ -17,6 +20,8 @@ export const listMine = query({
       _id: token._id,
       label: token.label,
       prefix: token.prefix,
+      scopes: token.scopes ?? null,
+      expiresAt: token.expiresAt,
       createdAt: token.createdAt,
       lastUsedAt: token.lastUsedAt,
       revokedAt: token.revokedAt,
@@ -25,25 +30,38 @@ export const listMine = query({
 })
 
 export const create = mutation({
-  args: { label: v.string() },
+  args: {
+    label: v.string(),
+    scopes: v.optional(v.array(v.string())),
+    expiresAt: v.optional(v.number()),
+  },
   handler: async (ctx, args) => {
     const { userId } = await requireUser(ctx)
     const label = args.label.trim() || 'CLI token'
+    const scopes = args.scopes ? normalizeTokenScopes(args.scopes) : DEFAULT_TOKEN_SCOPES
+    const now = Date.now()
+    if (args.expiresAt !== undefined) {
+      if (args.expiresAt <= now) throw new Error('Expiry must be in the future')
+      if (args.expiresAt > now + MAX_TOKEN_LIFETIME_MS) {
+        throw new Error('Expiry must be within a year')
+      }
+    }
     const { token, prefix } = generateToken()
     const tokenHash = await hashToken(token)
 
-    const now = Date.now()
     const tokenId = await ctx.db.insert('apiTokens', {
       userId,
       label,
       prefix,
       tokenHash,
+      scopes,
+      expiresAt: args.expiresAt,
       createdAt: now,
       lastUsedAt: undefined,
       revokedAt: undefined,
     })
 
-    return { token, tokenId, label, prefix, createdAt: now }
+    return { token, tokenId, label, prefix, scopes, expiresAt: args.expiresAt, createdAt: now }
   },
 })
 
@@ -73,7 +91,7 @@ export const touchInternal = internalMutation({
   args: { tokenId: v.id('apiTokens') },
   handler: async (ctx, args) => {
     const token = await ctx.db.get(args.tokenId)
-    if (!token || token.revokedAt) return
+    if (!token || !isApiTokenActive(token, Date.now())) return
     await ctx.db.patch(token._id, { lastUsedAt: Date.now() })
   },
 })
@@ -82,7 +100,7 @@ export const getUserForTokenInternal = internalQuery({
   args: { tokenId: v.id('apiTokens') },
   handler: async (ctx, args): Promise<Doc<'users'> | null> => {
     const token = await ctx.db.get(args.tokenId)
-    if (!token || token.revokedAt) return null
+    if (!token || !isApiTokenActive(token, Date.now())) return null
     return ctx.db.get(token.userId)
   },
 })
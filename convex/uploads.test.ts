@@ -0,0 +1,56 @@
+/* @vitest-environment node */
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { discardUnusedUploadsInternal } from './uploads'
+
+type WrappedHandler<TArgs> = {
+  _handler: (ctx: unknown, args: TArgs) => Promise<unknown>
+}
+
+const discardHandler = (
+  discardUnusedUploadsInternal as unknown as WrappedHandler<Record<string, unknown>>
+)._handler
+
+const NOW = 1_700_000_000_000
+
+function makeCtx(skillVersions: Array<{ files: Array<{ storageId: string }> }>) {
+  const uploads: Record<string, { _id: string; _creationTime: number }> = {
+    '_storage:fresh': { _id: '_storage:fresh', _creationTime: NOW - 60_000 },
+    '_storage:published': { _id: '_storage:published', _creationTime: NOW - 60_000 },
+    '_storage:old': { _id: '_storage:old', _creationTime: NOW - 2 * 60 * 60_000 },
+  }
+  const query = vi.fn((table: string) => {
+    const rows = { skillVersions, soulVersions: [] }[table]
+    if (!rows) throw new Error(`unexpected table ${table}`)
+    return { withIndex: () => ({ take: async () => rows }) }
+  })
+  const storage = { delete: vi.fn() }
+  const system = { get: async (id: string) => uploads[id] ?? null }
+  return { db: { query, system }, storage }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('uploads.discardUnusedUploadsInternal', () => {
+  it('deletes only recent uploads that no version references', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(NOW)
+    const ctx = makeCtx([{ files: [{ storageId: '_storage:published' }] }])
+
+    const result = await discardHandler(ctx, {
+      storageIds: ['_storage:fresh', '_storage:published', '_storage:old', '_storage:gone'],
+    })
+
+    expect(result).toEqual({ deleted: 1 })
+    expect(ctx.storage.delete).toHaveBeenCalledTimes(1)
+    expect(ctx.storage.delete).toHaveBeenCalledWith('_storage:fresh')
+  })
+
+  it('keeps everything when there are too many recent versions to check', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(NOW)
+    const ctx = makeCtx(Array.from({ length: 500 }, () => ({ files: [] })))
+
+    expect(await discardHandler(ctx, { storageIds: ['_storage:fresh'] })).toEqual({ deleted: 0 })
+    expect(ctx.storage.delete).not.toHaveBeenCalled()
+  })
+})
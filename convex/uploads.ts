@@ -18,3 +18,46 @@ export const generateUploadUrlForUserInternal = internalMutation({
     return ctx.storage.generateUploadUrl()
   },
 })
+
+// Dry-run uploads are discarded right after the preview; older blobs are left alone.
+const DISCARD_UPLOAD_MAX_AGE_MS = 60 * 60_000
+const DISCARD_REFERENCE_SCAN_LIMIT = 500
+
+/**
+ * Deletes blobs staged for a publish dry run. Storage ids come from the client, so a blob is
+ * only deleted when it is recent and no skill or soul version created since references it.
+ */
+export const discardUnusedUploadsInternal = internalMutation({
+  args: { storageIds: v.array(v.id('_storage')) },
+  handler: async (ctx, args) => {
+    const now = Date.now()
+    const uploads = []
+    for (const storageId of new Set(args.storageIds)) {
+      const upload = await ctx.db.system.get(storageId)
+      if (upload && now - upload._creationTime <= DISCARD_UPLOAD_MAX_AGE_MS) uploads.push(upload)
+    }
+    if (uploads.length === 0) return { deleted: 0 }
+
+    const since = Math.min(...uploads.map((upload) => upload._creationTime))
+    const referenced = new Set<string>()
+    for (const table of ['skillVersions', 'soulVersions'] as const) {
+      const versions = await ctx.db
+        .query(table)
+        .withIndex('by_creation_time', (q) => q.gte('_creationTime', since))
+        .take(DISCARD_REFERENCE_SCAN_LIMIT)
+      // Too many versions to be sure; keeping a stray blob beats deleting a published file.
+      if (versions.length === DISCARD_REFERENCE_SCAN_LIMIT) return { deleted: 0 }
+      for (const version of versions) {
+        for (const file of version.files) referenced.add(file.storageId)
+      }
+    }
+
+    let deleted = 0
+    for (const upload of uploads) {
+      if (referenced.has(upload._id)) continue
+      await ctx.storage.delete(upload._id)
+      deleted += 1
+    }
+    return { deleted }
+  },
+})
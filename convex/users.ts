@@ -6,6 +6,7 @@ import type { ActionCtx, MutationCtx } from './_generated/server'
 import { internalAction, internalMutation, internalQuery, mutation, query } from './_generated/server'
 import { assertAdmin, assertModerator, requireUser } from './lib/access'
 import { syncGitHubProfile } from './lib/githubAccount'
+import { insertNotification } from './lib/notifications'
 import { toPublicUser } from './lib/public'
 import { buildUserSearchResults } from './lib/userSearch'
 import { insertStatEvent } from './skillStatEvents'
@@ -488,6 +489,11 @@ async function banUserWithActor(
     },
     createdAt: now,
   })
+  await insertNotification(ctx, {
+    userId: targetUserId,
+    kind: 'account.ban',
+    data: { reason: reason || null },
+  })
 
   return {
     ok: true as const,
@@ -549,6 +555,11 @@ async function unbanUserWithActor(
     metadata: { reason: reason || undefined, restoredSkills: restoredCount },
     createdAt: now,
   })
+  await insertNotification(ctx, {
+    userId: targetUserId,
+    kind: 'account.unban',
+    data: { restoredSkills: restoredCount },
+  })
 
   return { ok: true as const, alreadyUnbanned: false, restoredSkills: restoredCount, scheduledSkills }
 }
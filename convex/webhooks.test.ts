@@ -0,0 +1,302 @@
+/* @vitest-environment node */
+import { createHmac } from 'node:crypto'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MAX_WEBHOOK_ATTEMPTS } from './lib/webhooks'
+import {
+  deliverInternal,
+  enqueueUserEventInternal,
+  fanOutStarredVersionInternal,
+  recordDeliveryAttemptInternal,
+} from './webhooks'
+
+type WrappedHandler<TArgs> = {
+  _handler: (ctx: unknown, args: TArgs) => Promise<unknown>
+}
+
+const deliverHandler = (deliverInternal as unknown as WrappedHandler<Record<string, unknown>>)
+  ._handler
+const recordAttemptHandler = (
+  recordDeliveryAttemptInternal as unknown as WrappedHandler<Record<string, unknown>>
+)._handler
+const enqueueHandler = (
+  enqueueUserEventInternal as unknown as WrappedHandler<Record<string, unknown>>
+)._handler
+const fanOutHandler = (
+  fanOutStarredVersionInternal as unknown as WrappedHandler<Record<string, unknown>>
+)._handler
+
+type Received = { url: string; headers: Headers; body: string; redirect?: RequestRedirect }
+
+function stubFetch(status: number) {
+  const received: Received[] = []
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    received.push({
+      url,
+      headers: new Headers(init.headers),
+      body: init.body as string,
+      redirect: init.redirect,
+    })
+    return new Response(status === 200 ? 'ok' : 'boom', { status })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return { url: 'https://hooks.example/hook', received }
+}
+
+function makeDeliveryCtx(url: string) {
+  const delivery = {
+    _id: 'webhookDeliveries:1',
+    endpointId: 'webhookEndpoints:1',
+    event: 'webhook.test',
+    payload: JSON.stringify({ event: 'webhook.test', createdAt: 1, data: { ok: true } }),
+    status: 'pending',
+    attempts: 0,
+  }
+  const endpoint = { _id: 'webhookEndpoints:1', url, secret: 'whsec_stub' }
+  const runQuery = vi.fn(async () => ({ delivery, endpoint }))
+  const runMutation = vi.fn(async () => {})
+  return { ctx: { runQuery, runMutation }, delivery, runMutation }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('webhook delivery', () => {
+  it('posts a signed payload to the endpoint and records success', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const stub = stubFetch(200)
+    const { ctx, delivery, runMutation } = makeDeliveryCtx(stub.url)
+
+    const result = await deliverHandler(ctx, { deliveryId: delivery._id })
+
+    expect(result).toEqual({ ok: true })
+    expect(stub.received).toHaveLength(1)
+    const [request] = stub.received
+    expect(request?.url).toBe(stub.url)
+    expect(request?.redirect).toBe('manual')
+    expect(request?.body).toBe(delivery.payload)
+    expect(request?.headers.get('x-clawhub-event')).toBe('webhook.test')
+    expect(request?.headers.get('x-clawhub-delivery')).toBe(delivery._id)
+    const timestamp = String(request?.headers.get('x-clawhub-timestamp'))
+    const expected = createHmac('sha256', 'whsec_stub')
+      .update(`${timestamp}.${delivery.payload}`)
+      .digest('hex')
+    expect(request?.headers.get('x-clawhub-signature')).toBe(`sha256=${expected}`)
+    expect(runMutation).toHaveBeenCalledWith(expect.anything(), {
+      deliveryId: delivery._id,
+      ok: true,
+      responseStatus: 200,
+    })
+  })
+
+  it('records the response status when the endpoint fails', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const stub = stubFetch(500)
+    const { ctx, delivery, runMutation } = makeDeliveryCtx(stub.url)
+
+    const result = await deliverHandler(ctx, { deliveryId: delivery._id })
+
+    expect(result).toEqual({ ok: false })
+    expect(runMutation).toHaveBeenCalledWith(expect.anything(), {
+      deliveryId: delivery._id,
+      ok: false,
+      responseStatus: 500,
+      error: 'boom',
+    })
+  })
+
+  it('refuses endpoints that point at private addresses without sending', async () => {
+    const stub = stubFetch(200)
+    const { ctx, delivery, runMutation } = makeDeliveryCtx('https://169.254.169.254/latest')
+
+    const result = await deliverHandler(ctx, { deliveryId: delivery._id })
+
+    expect(result).toEqual({ ok: false, skipped: true })
+    expect(stub.received).toHaveLength(0)
+    expect(runMutation).toHaveBeenCalledWith(expect.anything(), {
+      deliveryId: delivery._id,
+      ok: false,
+      error: 'Webhook URL must not point to a private or local address',
+      final: true,
+    })
+  })
+})
+
+describe('webhook delivery attempts', () => {
+  function makeAttemptCtx(attempts: number) {
+    const delivery = {
+      _id: 'webhookDeliveries:1',
+      endpointId: 'webhookEndpoints:1',
+      status: 'pending',
+      attempts,
+    }
+    const patch = vi.fn(async () => {})
+    const get = vi.fn(async (id: string) =>
+      id === delivery._id ? delivery : { _id: 'webhookEndpoints:1' },
+    )
+    return { ctx: { db: { get, patch } }, patch }
+  }
+
+  it('schedules a retry with backoff after a failed attempt', async () => {
+    const { ctx, patch } = makeAttemptCtx(0)
+
+    await recordAttemptHandler(ctx, {
+      deliveryId: 'webhookDeliveries:1',
+      ok: false,
+      responseStatus: 502,
+    })
+
+    expect(patch).toHaveBeenCalledWith(
+      'webhookDeliveries:1',
+      expect.objectContaining({
+        status: 'pending',
+        attempts: 1,
+        nextAttemptAt: expect.any(Number),
+        responseStatus: 502,
+      }),
+    )
+    expect(patch).toHaveBeenCalledWith('webhookEndpoints:1', {
+      lastDeliveryAt: expect.any(Number),
+      lastDeliveryStatus: 'failed',
+    })
+  })
+
+  it('marks the delivery failed after the last attempt', async () => {
+    const { ctx, patch } = makeAttemptCtx(MAX_WEBHOOK_ATTEMPTS - 1)
+
+    await recordAttemptHandler(ctx, { deliveryId: 'webhookDeliveries:1', ok: false })
+
+    expect(patch).toHaveBeenCalledWith(
+      'webhookDeliveries:1',
+      expect.objectContaining({
+        status: 'failed',
+        attempts: MAX_WEBHOOK_ATTEMPTS,
+        nextAttemptAt: undefined,
+      }),
+    )
+  })
+})
+
+describe('webhook fan-out', () => {
+  it('queues deliveries only for enabled endpoints subscribed to the event', async () => {
+    const endpoints = [
+      { _id: 'webhookEndpoints:1', userId: 'users:1', events: ['skill.comment'] },
+      { _id: 'webhookEndpoints:2', userId: 'users:1', events: ['starred.version'] },
+      {
+        _id: 'webhookEndpoints:3',
+        userId: 'users:1',
+        events: ['skill.comment'],
+        disabledAt: 1,
+      },
+    ]
+    const insert = vi.fn(async () => 'webhookDeliveries:new')
+    const runAfter = vi.fn(async () => {})
+    const ctx = {
+      db: {
+        insert,
+        query: vi.fn(() => ({
+          withIndex: () => ({ take: async () => endpoints }),
+        })),
+      },
+      scheduler: { runAfter },
+    }
+
+    const result = await enqueueHandler(ctx, {
+      userId: 'users:1',
+      event: 'skill.comment',
+      data: { skill: { slug: 'demo' } },
+    })
+
+    expect(result).toEqual({ queued: 1 })
+    expect(insert).toHaveBeenCalledWith(
+      'webhookDeliveries',
+      expect.objectContaining({
+        endpointId: 'webhookEndpoints:1',
+        event: 'skill.comment',
+        status: 'pending',
+        attempts: 0,
+      }),
+    )
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+      deliveryId: 'webhookDeliveries:new',
+    })
+  })
+  function createFanOutCtx(skill: Record<string, unknown>) {
+    const stars = [
+      { userId: 'users:owner' },
+      { userId: 'users:shared' },
+      { userId: 'users:stranger' },
+    ]
+    const insert = vi.fn(async () => 'webhookDeliveries:new')
+    const query = vi.fn((table: string) => {
+      if (table === 'stars') {
+        return {
+          withIndex: () => ({
+            paginate: async () => ({ page: stars, isDone: true, continueCursor: '' }),
+          }),
+        }
+      }
+      if (table === 'skillShares') {
+        return {
+          withIndex: () => ({ take: async () => [{ userId: 'users:shared' }] }),
+        }
+      }
+      if (table === 'webhookEndpoints') {
+        return {
+          withIndex: (
+            _name: string,
+            build: (q: { eq: (field: string, value: string) => unknown }) => unknown,
+          ) => {
+            let userId = ''
+            build({ eq: (_field, value) => (userId = value) })
+            const events = ['starred.version']
+            return { take: async () => [{ _id: `webhookEndpoints:${userId}`, userId, events }] }
+          },
+        }
+      }
+      throw new Error(`unexpected table ${table}`)
+    })
+    const get = vi.fn(async (id: string) => {
+      if (id === skill._id) return skill
+      return { _id: id, handle: id.replace('users:', '') }
+    })
+    const ctx = { db: { get, insert, query }, scheduler: { runAfter: vi.fn(async () => {}) } }
+    return { ctx, insert }
+  }
+
+  function deliveredEndpoints(insert: ReturnType<typeof vi.fn>) {
+    return insert.mock.calls
+      .filter(([table]) => table === 'webhookDeliveries')
+      .map(([, doc]) => (doc as { endpointId: string }).endpointId)
+  }
+
+  it('only notifies stargazers who can still see a private skill', async () => {
+    const { ctx, insert } = createFanOutCtx({
+      _id: 'skills:1',
+      slug: 'demo',
+      displayName: 'Demo',
+      ownerUserId: 'users:owner',
+      visibility: 'private',
+      moderationStatus: 'active',
+    })
+
+    await fanOutHandler(ctx, { skillId: 'skills:1', version: '1.1.0' })
+
+    expect(deliveredEndpoints(insert)).toEqual(['webhookEndpoints:users:shared'])
+  })
+
+  it('skips hidden skills', async () => {
+    const { ctx, insert } = createFanOutCtx({
+      _id: 'skills:1',
+      slug: 'demo',
+      displayName: 'Demo',
+      ownerUserId: 'users:owner',
+      moderationStatus: 'hidden',
+    })
+
+    await fanOutHandler(ctx, { skillId: 'skills:1', version: '1.1.0' })
+
+    expect(insert).not.toHaveBeenCalled()
+  })
+})
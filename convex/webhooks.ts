@@ -1,6 +1,34 @@
 import { v } from 'convex/values'
-import { internalAction } from './_generated/server'
-import { buildDiscordPayload, getWebhookConfig, shouldSendWebhook } from './lib/webhooks'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from './_generated/server'
+import { requireUser } from './lib/access'
+import { insertNotification } from './lib/notifications'
+import { canViewSkill } from './lib/skillVisibility'
+import {
+  buildDiscordPayload,
+  buildWebhookBody,
+  buildWebhookHeaders,
+  buildWebhookSkillRef,
+  generateWebhookSecret,
+  getWebhookConfig,
+  MAX_WEBHOOK_ENDPOINTS_PER_USER,
+  nextWebhookRetryAt,
+  normalizeWebhookEvents,
+  normalizeWebhookUrl,
+  shouldSendWebhook,
+  signWebhookPayload,
+  type UserWebhookEvent,
+  WEBHOOK_DELIVERY_TIMEOUT_MS,
+  WEBHOOK_TEST_EVENT,
+} from './lib/webhooks'
 
 export const sendDiscordWebhook = internalAction({
   args: {
@@ -48,3 +76,465 @@ export const sendDiscordWebhook = internalAction({
     return { ok: true }
   },
 })
+
+const userWebhookEventValidator = v.union(
+  v.literal('starred.version'),
+  v.literal('skill.moderation'),
+  v.literal('skill.comment'),
+  v.literal('skill.verdict'),
+  v.literal('comment.mention'),
+)
+
+// Keeps the retry cron from re-sending while the first attempt is in flight.
+const DELIVERY_LEASE_MS = 2 * 60_000
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60_000
+const STARRED_FANOUT_PAGE_SIZE = 200
+
+function toPublicEndpoint(endpoint: Doc<'webhookEndpoints'>) {
+  return {
+    _id: endpoint._id,
+    url: endpoint.url,
+    label: endpoint.label,
+    events: endpoint.events,
+    secretPrefix: endpoint.secret.slice(0, 12),
+    createdAt: endpoint.createdAt,
+    disabledAt: endpoint.disabledAt,
+    lastDeliveryAt: endpoint.lastDeliveryAt,
+    lastDeliveryStatus: endpoint.lastDeliveryStatus,
+  }
+}
+
+function toPublicDelivery(delivery: Doc<'webhookDeliveries'>) {
+  return {
+    _id: delivery._id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt : undefined,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+    createdAt: delivery.createdAt,
+    deliveredAt: delivery.deliveredAt,
+  }
+}
+
+async function listEndpointsForUser(ctx: QueryCtx, userId: Id<'users'>) {
+  const endpoints = await ctx.db
+    .query('webhookEndpoints')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .order('desc')
+    .take(MAX_WEBHOOK_ENDPOINTS_PER_USER)
+  return endpoints.map(toPublicEndpoint)
+}
+
+async function requireOwnedEndpoint(
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  endpointId: Id<'webhookEndpoints'>,
+) {
+  const endpoint = await ctx.db.get(endpointId)
+  if (!endpoint) throw new Error('Webhook not found')
+  if (endpoint.userId !== userId) throw new Error('Forbidden')
+  return endpoint
+}
+
+async function createEndpointForUser(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  args: { url: string; events: string[]; label?: string },
+) {
+  const url = normalizeWebhookUrl(args.url)
+  const events = normalizeWebhookEvents(args.events)
+  const existing = await ctx.db
+    .query('webhookEndpoints')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .take(MAX_WEBHOOK_ENDPOINTS_PER_USER)
+  if (existing.length >= MAX_WEBHOOK_ENDPOINTS_PER_USER) {
+    throw new Error(`Webhook limit reached (max ${MAX_WEBHOOK_ENDPOINTS_PER_USER})`)
+  }
+
+  const now = Date.now()
+  const secret = generateWebhookSecret()
+  const label = args.label?.trim() || undefined
+  const endpointId = await ctx.db.insert('webhookEndpoints', {
+    userId,
+    url,
+    label,
+    secret,
+    events,
+    createdAt: now,
+    updatedAt: now,
+  })
+  return { endpointId, url, label, events, secret, createdAt: now }
+}
+
+async function removeEndpointForUser(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  endpointId: Id<'webhookEndpoints'>,
+) {
+  const endpoint = await requireOwnedEndpoint(ctx, userId, endpointId)
+  // Older deliveries are left to the retention prune.
+  const deliveries = await ctx.db
+    .query('webhookDeliveries')
+    .withIndex('by_endpoint', (q) => q.eq('endpointId', endpoint._id))
+    .take(500)
+  for (const delivery of deliveries) await ctx.db.delete(delivery._id)
+  await ctx.db.delete(endpoint._id)
+  return { ok: true as const }
+}
+
+async function insertDelivery(
+  ctx: MutationCtx,
+  endpoint: Doc<'webhookEndpoints'>,
+  event: string,
+  data: unknown,
+) {
+  const now = Date.now()
+  const deliveryId = await ctx.db.insert('webhookDeliveries', {
+    endpointId: endpoint._id,
+    userId: endpoint.userId,
+    event,
+    payload: buildWebhookBody(event, data, now),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now + DELIVERY_LEASE_MS,
+    createdAt: now,
+  })
+  await ctx.scheduler.runAfter(0, internal.webhooks.deliverInternal, { deliveryId })
+  return deliveryId
+}
+
+async function enqueueForUser(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  event: UserWebhookEvent,
+  data: unknown,
+) {
+  const endpoints = await ctx.db
+    .query('webhookEndpoints')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .take(MAX_WEBHOOK_ENDPOINTS_PER_USER)
+  let queued = 0
+  for (const endpoint of endpoints) {
+    if (endpoint.disabledAt || !endpoint.events.includes(event)) continue
+    await insertDelivery(ctx, endpoint, event, data)
+    queued += 1
+  }
+  return queued
+}
+
+async function sendTestForUser(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  endpointId: Id<'webhookEndpoints'>,
+) {
+  const endpoint = await requireOwnedEndpoint(ctx, userId, endpointId)
+  const deliveryId = await insertDelivery(ctx, endpoint, WEBHOOK_TEST_EVENT, {
+    message: 'Test event from ClawHub.',
+    endpointId: endpoint._id,
+  })
+  return { ok: true as const, deliveryId }
+}
+
+async function listDeliveriesForUser(
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  endpointId: Id<'webhookEndpoints'>,
+  limit = 20,
+) {
+  const endpoint = await requireOwnedEndpoint(ctx, userId, endpointId)
+  const deliveries = await ctx.db
+    .query('webhookDeliveries')
+    .withIndex('by_endpoint', (q) => q.eq('endpointId', endpoint._id))
+    .order('desc')
+    .take(Math.min(Math.max(limit, 1), 100))
+  return deliveries.map(toPublicDelivery)
+}
+
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const { userId } = await requireUser(ctx)
+    return listEndpointsForUser(ctx, userId)
+  },
+})
+
+export const listDeliveries = query({
+  args: { endpointId: v.id('webhookEndpoints'), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    return listDeliveriesForUser(ctx, userId, args.endpointId, args.limit)
+  },
+})
+
+export const create = mutation({
+  args: { url: v.string(), events: v.array(v.string()), label: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    return createEndpointForUser(ctx, userId, args)
+  },
+})
+
+export const setDisabled = mutation({
+  args: { endpointId: v.id('webhookEndpoints'), disabled: v.boolean() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    const endpoint = await requireOwnedEndpoint(ctx, userId, args.endpointId)
+    const now = Date.now()
+    await ctx.db.patch(endpoint._id, {
+      disabledAt: args.disabled ? now : undefined,
+      updatedAt: now,
+    })
+  },
+})
+
+export const remove = mutation({
+  args: { endpointId: v.id('webhookEndpoints') },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    return removeEndpointForUser(ctx, userId, args.endpointId)
+  },
+})
+
+export const sendTest = mutation({
+  args: { endpointId: v.id('webhookEndpoints') },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUser(ctx)
+    return sendTestForUser(ctx, userId, args.endpointId)
+  },
+})
+
+export const listForUserInternal = internalQuery({
+  args: { userId: v.id('users') },
+  handler: async (ctx, args) => listEndpointsForUser(ctx, args.userId),
+})
+
+export const listDeliveriesForUserInternal = internalQuery({
+  args: {
+    userId: v.id('users'),
+    endpointId: v.id('webhookEndpoints'),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) =>
+    listDeliveriesForUser(ctx, args.userId, args.endpointId, args.limit),
+})
+
+export const createForUserInternal = internalMutation({
+  args: {
+    userId: v.id('users'),
+    url: v.string(),
+    events: v.array(v.string()),
+    label: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, ...rest } = args
+    return createEndpointForUser(ctx, userId, rest)
+  },
+})
+
+export const removeForUserInternal = internalMutation({
+  args: { userId: v.id('users'), endpointId: v.id('webhookEndpoints') },
+  handler: async (ctx, args) => removeEndpointForUser(ctx, args.userId, args.endpointId),
+})
+
+export const sendTestForUserInternal = internalMutation({
+  args: { userId: v.id('users'), endpointId: v.id('webhookEndpoints') },
+  handler: async (ctx, args) => sendTestForUser(ctx, args.userId, args.endpointId),
+})
+
+export const enqueueUserEventInternal = internalMutation({
+  args: { userId: v.id('users'), event: userWebhookEventValidator, data: v.any() },
+  handler: async (ctx, args) => {
+    const queued = await enqueueForUser(ctx, args.userId, args.event, args.data)
+    return { queued }
+  },
+})
+
+/** Tells everyone who starred a skill about a new version (webhook and inbox), a page at a time. */
+export const fanOutStarredVersionInternal = internalMutation({
+  args: {
+    skillId: v.id('skills'),
+    version: v.string(),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const skill = await ctx.db.get(args.skillId)
+    if (!skill || skill.softDeletedAt) return
+    // Hidden skills stay quiet; private ones only reach stargazers who can still see them.
+    if ((skill.moderationStatus ?? 'active') !== 'active') return
+    const page = await ctx.db
+      .query('stars')
+      .withIndex('by_skill', (q) => q.eq('skillId', skill._id))
+      .paginate({ cursor: args.cursor ?? null, numItems: STARRED_FANOUT_PAGE_SIZE })
+
+    const data = { skill: await buildWebhookSkillRef(ctx, skill), version: args.version }
+    for (const star of page.page) {
+      if (star.userId === skill.ownerUserId) continue
+      if (!(await canViewSkill(ctx, skill, star.userId))) continue
+      await enqueueForUser(ctx, star.userId, 'starred.version', data)
+      await insertNotification(ctx, { userId: star.userId, kind: 'starred.version', data })
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.webhooks.fanOutStarredVersionInternal, {
+        skillId: skill._id,
+        version: args.version,
+        cursor: page.continueCursor,
+      })
+    }
+  },
+})
+
+export const getDeliveryForSendInternal = internalQuery({
+  args: { deliveryId: v.id('webhookDeliveries') },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId)
+    if (!delivery) return null
+    const endpoint = await ctx.db.get(delivery.endpointId)
+    return { delivery, endpoint }
+  },
+})
+
+export const recordDeliveryAttemptInternal = internalMutation({
+  args: {
+    deliveryId: v.id('webhookDeliveries'),
+    ok: v.boolean(),
+    responseStatus: v.optional(v.number()),
+    error: v.optional(v.string()),
+    final: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId)
+    if (!delivery || delivery.status !== 'pending') return
+    const now = Date.now()
+    const attempts = delivery.attempts + 1
+    const retryAt = args.ok || args.final ? null : nextWebhookRetryAt(attempts, now)
+    const status = args.ok ? 'success' : retryAt ? 'pending' : 'failed'
+    await ctx.db.patch(delivery._id, {
+      status,
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: retryAt ?? undefined,
+      responseStatus: args.responseStatus,
+      error: args.error?.slice(0, 500),
+      deliveredAt: args.ok ? now : undefined,
+    })
+    const endpoint = await ctx.db.get(delivery.endpointId)
+    if (endpoint) {
+      await ctx.db.patch(endpoint._id, {
+        lastDeliveryAt: now,
+        lastDeliveryStatus: args.ok ? 'success' : 'failed',
+      })
+    }
+  },
+})
+
+export const deliverInternal = internalAction({
+  args: { deliveryId: v.id('webhookDeliveries') },
+  handler: async (ctx, args) => {
+    const record = await ctx.runQuery(internal.webhooks.getDeliveryForSendInternal, args)
+    if (!record || record.delivery.status !== 'pending') return { ok: false, skipped: true }
+    const { delivery, endpoint } = record
+    if (!endpoint || endpoint.disabledAt) {
+      await ctx.runMutation(internal.webhooks.recordDeliveryAttemptInternal, {
+        deliveryId: delivery._id,
+        ok: false,
+        error: endpoint ? 'Endpoint disabled' : 'Endpoint deleted',
+        final: true,
+      })
+      return { ok: false, skipped: true }
+    }
+    // Re-checked at send time so endpoints saved before the host rule cannot reach private hosts.
+    try {
+      normalizeWebhookUrl(endpoint.url)
+    } catch (error) {
+      await ctx.runMutation(internal.webhooks.recordDeliveryAttemptInternal, {
+        deliveryId: delivery._id,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+        final: true,
+      })
+      return { ok: false, skipped: true }
+    }
+
+    const timestamp = Date.now()
+    const signature = await signWebhookPayload(endpoint.secret, timestamp, delivery.payload)
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_DELIVERY_TIMEOUT_MS)
+    let result: { ok: boolean; responseStatus?: number; error?: string }
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: buildWebhookHeaders({
+          event: delivery.event,
+          deliveryId: delivery._id,
+          timestamp,
+          signature,
+        }),
+        body: delivery.payload,
+        // A redirect could bounce the request to a private address; report it as a failure.
+        redirect: 'manual',
+        signal: controller.signal,
+      })
+      result = response.ok
+        ? { ok: true, responseStatus: response.status }
+        : {
+            ok: false,
+            responseStatus: response.status,
+            error: (await response.text().catch(() => '')).slice(0, 300) || undefined,
+          }
+    } catch (error) {
+      result = { ok: false, error: error instanceof Error ? error.message : String(error) }
+    } finally {
+      clearTimeout(timeout)
+    }
+
+    await ctx.runMutation(internal.webhooks.recordDeliveryAttemptInternal, {
+      deliveryId: delivery._id,
+      ...result,
+    })
+    console.info('[webhook] delivery', {
+      event: delivery.event,
+      deliveryId: delivery._id,
+      ok: result.ok,
+      status: result.responseStatus ?? null,
+    })
+    return { ok: result.ok }
+  },
+})
+
+export const retryDueDeliveriesInternal = internalMutation({
+  args: { batchSize: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const now = Date.now()
+    const due = await ctx.db
+      .query('webhookDeliveries')
+      .withIndex('by_status_next_attempt', (q) =>
+        q.eq('status', 'pending').lte('nextAttemptAt', now),
+      )
+      .take(args.batchSize ?? 100)
+    for (const delivery of due) {
+      await ctx.db.patch(delivery._id, { nextAttemptAt: now + DELIVERY_LEASE_MS })
+      await ctx.scheduler.runAfter(0, internal.webhooks.deliverInternal, {
+        deliveryId: delivery._id,
+      })
+    }
+    return { scheduled: due.length }
+  },
+})
+
+export const pruneDeliveriesInternal = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - DELIVERY_RETENTION_MS
+    const stale = await ctx.db
+      .query('webhookDeliveries')
+      .withIndex('by_created', (q) => q.lt('createdAt', cutoff))
+      .take(500)
+    for (const delivery of stale) await ctx.db.delete(delivery._id)
+    if (stale.length === 500) {
+      await ctx.scheduler.runAfter(0, internal.webhooks.pruneDeliveriesInternal, {})
+    }
+    return { deleted: stale.length }
+  },
+})
@@ -21,6 +21,18 @@ describe('browserAuth', () => {
     expect(url).toContain('state=')
   })
 
+  it('passes requested token scopes', () => {
+    const url = new URL(
+      buildCliAuthUrl({
+        siteUrl: 'https://example.com',
+        redirectUri: 'http://127.0.0.1:1234/callback',
+        scopes: ['read', 'publish:my-*'],
+        state: 'state123',
+      }),
+    )
+    expect(url.searchParams.get('scopes')).toBe('read,publish:my-*')
+  })
+
   it('builds auth url without label', () => {
     const url = buildCliAuthUrl({
       siteUrl: 'https://example.com',
@@ -11,11 +11,13 @@ export function buildCliAuthUrl(params: {
   siteUrl: string
   redirectUri: string
   label?: string
+  scopes?: string[]
   state: string
 }) {
   const url = new URL('/cli/auth', params.siteUrl)
   url.searchParams.set('redirect_uri', params.redirectUri)
   if (params.label) url.searchParams.set('label_b64', encodeBase64Url(params.label))
+  if (params.scopes?.length) url.searchParams.set('scopes', params.scopes.join(','))
   url.searchParams.set('state', params.state)
   return url.toString()
 }
@@ -4,6 +4,7 @@ import { join, resolve } from 'node:path'
 import { Command } from 'commander'
 import { getCliBuildLabel, getCliVersion } from './cli/buildInfo.js'
 import { resolveClawdbotDefaultWorkspace } from './cli/clawdbotConfig.js'
+import { cmdAppeal } from './cli/commands/appeal.js'
 import { cmdLoginFlow, cmdLogout, cmdWhoami } from './cli/commands/auth.js'
 import {
   cmdDeleteSkill,
@@ -11,12 +12,24 @@ import {
   cmdUndeleteSkill,
   cmdUnhideSkill,
 } from './cli/commands/delete.js'
+import { cmdDev } from './cli/commands/dev.js'
 import { cmdInspect } from './cli/commands/inspect.js'
+import { cmdLink, cmdUnlink } from './cli/commands/link.js'
 import { cmdBanUser, cmdSetRole } from './cli/commands/moderation.js'
+import { cmdNotifications } from './cli/commands/notifications.js'
 import { cmdPublish } from './cli/commands/publish.js'
+import {
+  cmdRegistryAdd,
+  cmdRegistryList,
+  cmdRegistryRemove,
+  cmdRegistryRoute,
+  cmdRegistryUnroute,
+} from './cli/commands/registries.js'
 import {
   cmdExplore,
   cmdInstall,
+  cmdInstallCollection,
+  cmdInstallFromLockfile,
   cmdList,
   cmdSearch,
   cmdUninstall,
@@ -25,8 +38,9 @@ import {
 import { cmdStarSkill } from './cli/commands/star.js'
 import { cmdSync } from './cli/commands/sync.js'
 import { cmdUnstarSkill } from './cli/commands/unstar.js'
+import { cmdValidate } from './cli/commands/validate.js'
 import { configureCommanderHelp, styleEnvBlock, styleTitle } from './cli/helpStyle.js'
-import { DEFAULT_REGISTRY, DEFAULT_SITE } from './cli/registry.js'
+import { DEFAULT_REGISTRY, DEFAULT_SITE, isRegistryUrl } from './cli/registry.js'
 import type { GlobalOpts } from './cli/types.js'
 import { fail } from './cli/ui.js'
 import { readGlobalConfig } from './config.js'
@@ -42,7 +56,7 @@ const program = new Command()
   .option('--workdir <dir>', 'Working directory (default: cwd)')
   .option('--dir <dir>', 'Skills directory (relative to workdir, default: skills)')
   .option('--site <url>', 'Site base URL (for browser login)')
-  .option('--registry <url>', 'Registry API base URL')
+  .option('--registry <url|name>', 'Registry API base URL or configured registry name')
   .option('--no-input', 'Disable prompts')
   .showHelpAfterError()
   .showSuggestionAfterError()
@@ -70,7 +84,8 @@ async function resolveGlobalOpts(): Promise<GlobalOpts> {
     process.env.CLAWHUB_REGISTRY ??
     process.env.CLAWDHUB_REGISTRY ??
     DEFAULT_REGISTRY
-  return { workdir, dir, site, registry, registrySource }
+  const registryName = isRegistryUrl(registry) ? undefined : registry.trim()
+  return { workdir, dir, site, registry, registrySource, registryName }
 }
 
 function isInputAllowed() {
@@ -116,6 +131,7 @@ program
   .description('Log in (opens browser or stores token)')
   .option('--token <token>', 'API token')
   .option('--label <label>', 'Token label (browser flow only)', 'CLI token')
+  .option('--scopes <scopes>', 'Token scopes, comma-separated (browser flow only)')
   .option('--no-browser', 'Do not open browser (requires --token)')
   .action(async (options) => {
     const opts = await resolveGlobalOpts()
@@ -149,6 +165,7 @@ auth
   .description('Log in (opens browser or stores token)')
   .option('--token <token>', 'API token')
   .option('--label <label>', 'Token label (browser flow only)', 'CLI token')
+  .option('--scopes <scopes>', 'Token scopes, comma-separated (browser flow only)')
   .option('--no-browser', 'Do not open browser (requires --token)')
   .action(async (options) => {
     const opts = await resolveGlobalOpts()
@@ -171,33 +188,113 @@ auth
     await cmdWhoami(opts)
   })
 
+const registryCmd = program
+  .command('registry')
+  .description('Manage named registries and routing rules')
+  .showHelpAfterError()
+  .showSuggestionAfterError()
+
+registryCmd
+  .command('add')
+  .description('Add or update a named registry (site URL, discovered via .well-known)')
+  .argument('<name>', 'Registry name')
+  .argument('<url>', 'Site URL (or API base with --api)')
+  .option('--api', 'Treat <url> as the registry API base (skip discovery)')
+  .option('--token <token>', 'API token for this registry')
+  .action(async (name, url, options) => {
+    await cmdRegistryAdd(name, url, options)
+  })
+
+registryCmd
+  .command('remove')
+  .description('Remove a named registry and its routes')
+  .argument('<name>', 'Registry name')
+  .action(async (name) => {
+    await cmdRegistryRemove(name)
+  })
+
+registryCmd
+  .command('list')
+  .description('List configured registries and routes')
+  .action(async () => {
+    await cmdRegistryList()
+  })
+
+registryCmd
+  .command('route')
+  .description('Route a slug (or prefix ending in *) to a named registry')
+  .argument('<pattern>', 'Slug or prefix pattern, e.g. acme-*')
+  .argument('<name>', 'Registry name')
+  .action(async (pattern, name) => {
+    await cmdRegistryRoute(pattern, name)
+  })
+
+registryCmd
+  .command('unroute')
+  .description('Remove a routing rule')
+  .argument('<pattern>', 'Slug or prefix pattern')
+  .action(async (pattern) => {
+    await cmdRegistryUnroute(pattern)
+  })
+
 program
   .command('search')
-  .description('Vector search skills')
+  .description('Search skills (vector + keyword)')
   .argument('<query...>', 'Query string')
   .option('--limit <n>', 'Max results', (value) => Number.parseInt(value, 10))
+  .option('--os <list>', 'Runs on any of these (linux,macos,windows)')
+  .option('--bins <list>', 'Requires all of these binaries')
+  .option('--env', 'Only skills that need env vars (API keys)')
+  .option('--no-env', 'Only skills that need no env vars')
+  .option('--install <kinds>', 'Installs via any of these (brew,node,go,uv)')
+  .option('--nix', 'Only skills with a nix plugin')
+  .option('--official', 'Only official skills')
+  .option('--deprecated', 'Only deprecated skills')
+  .option('--no-deprecated', 'Hide deprecated skills')
+  .option('--owner <handle>', 'Only skills by this owner')
+  .option('--facets', 'Print match counts per facet value')
+  .option('--explain', 'Print how each result was scored (vector, BM25, boosts)')
   .action(async (queryParts, options) => {
     const opts = await resolveGlobalOpts()
     const query = queryParts.join(' ').trim()
-    await cmdSearch(opts, query, options.limit)
+    await cmdSearch(opts, query, options.limit, options)
   })
 
 program
   .command('install')
-  .description('Install into <dir>/<slug>')
-  .argument('<slug>', 'Skill slug')
+  .description('Install into <dir>/<slug> (no slug: restore the lockfile)')
+  .argument('[slug]', 'Skill slug')
   .option('--version <version>', 'Version to install')
   .option('--force', 'Overwrite existing folder')
+  .option('--no-deps', 'Skip installing skill dependencies')
+  .option('--frozen', 'Fail if local files or the registry disagree with the lockfile')
+  .option('--collection <owner/name>', 'Install every skill in a collection')
   .action(async (slug, options) => {
     const opts = await resolveGlobalOpts()
-    await cmdInstall(opts, slug, options.version, options.force)
+    if (options.collection) {
+      if (slug) fail('Use either <slug> or --collection')
+      if (options.version) fail('--version requires <slug>; collections carry their own pins')
+      if (options.frozen) fail('--frozen restores the lockfile; omit --collection')
+      await cmdInstallCollection(opts, options.collection, {
+        force: options.force,
+        withDependencies: options.deps,
+      })
+      return
+    }
+    if (!slug) {
+      if (options.version) fail('--version requires <slug>')
+      await cmdInstallFromLockfile(opts, { frozen: options.frozen, force: options.force })
+      return
+    }
+    if (options.frozen) fail('--frozen restores the lockfile; omit <slug>')
+    await cmdInstall(opts, slug, options.version, options.force, options.deps)
   })
 
 program
   .command('update')
   .description('Update installed skills')
   .argument('[slug]', 'Skill slug')
-  .option('--all', 'Update all installed skills')
+  .option('--all', 'Update all installed skills and sync installed collections')
   .option('--version <version>', 'Update to specific version (single slug only)')
   .option('--force', 'Overwrite when local files do not match any version')
   .action(async (slug, options) => {
@@ -223,6 +320,37 @@ program
     await cmdList(opts)
   })
 
+program
+  .command('link')
+  .description('Link a local skill folder into <dir>/<slug> (no publish needed)')
+  .argument('<path>', 'Skill folder path')
+  .option('--slug <slug>', 'Skill slug (default: folder name)')
+  .option('--copy', 'Copy files instead of symlinking (for tools that do not follow links)')
+  .option('--force', 'Replace an installed skill with the link')
+  .action(async (folder, options) => {
+    const opts = await resolveGlobalOpts()
+    await cmdLink(opts, folder, options)
+  })
+
+program
+  .command('unlink')
+  .description('Remove a linked skill (the source folder is left alone)')
+  .argument('<slug>', 'Skill slug')
+  .action(async (slug) => {
+    const opts = await resolveGlobalOpts()
+    await cmdUnlink(opts, slug)
+  })
+
+program
+  .command('dev')
+  .description('Watch a skill folder (or all linked skills) and re-run publish checks')
+  .argument('[path]', 'Skill folder path (default: every linked skill)')
+  .option('--slug <slug>', 'Skill slug (default: folder name)')
+  .action(async (folder, options) => {
+    const opts = await resolveGlobalOpts()
+    await cmdDev(opts, folder, options)
+  })
+
 program
   .command('explore')
   .description('Browse latest updated skills from the registry')
@@ -234,7 +362,8 @@ program
   )
   .option(
     '--sort <order>',
-    'Sort by newest, downloads, rating, installs, installsAllTime, or trending',
+    'Sort by newest, downloads, rating, installs, installsAllTime, trending, rising, new, ' +
+      'or top-month',
     'newest',
   )
   .option('--json', 'Output JSON')
@@ -269,13 +398,28 @@ program
   .option('--name <name>', 'Display name')
   .option('--version <version>', 'Version (semver)')
   .option('--fork-of <slug[@version]>', 'Mark as a fork of an existing skill')
+  .option('--org <handle>', 'Publish under an org you own or maintain')
+  .option('--visibility <visibility>', 'public, unlisted, or private (default: keep current)')
   .option('--changelog <text>', 'Changelog text')
   .option('--tags <tags>', 'Comma-separated tags', 'latest')
+  .option('--dry-run', 'Run the publish checks and security scans without publishing')
   .action(async (folder, options) => {
     const opts = await resolveGlobalOpts()
     await cmdPublish(opts, folder, options)
   })
 
+program
+  .command('validate')
+  .description('Run the registry publish checks locally (no login, nothing uploaded)')
+  .argument('<path>', 'Skill folder path')
+  .option('--slug <slug>', 'Skill slug (default: folder name)')
+  .option('--trust-tier <tier>', 'Quality gate tier: low, medium, or trusted (default: low)')
+  .option('--json', 'Output JSON')
+  .action(async (folder, options) => {
+    const opts = await resolveGlobalOpts()
+    await cmdValidate(opts, folder, options)
+  })
+
 program
   .command('delete')
   .description('Soft-delete a skill (owner, moderator, or admin)')
@@ -316,6 +460,17 @@ program
     await cmdUnhideSkill(opts, slug, options, isInputAllowed())
   })
 
+program
+  .command('appeal')
+  .description('Appeal a moderation decision on your skill, or show the appeal status')
+  .argument('<slug>', 'Skill slug')
+  .option('--message <text>', 'Why the decision should be lifted (files the appeal)')
+  .option('--json', 'Output JSON')
+  .action(async (slug, options) => {
+    const opts = await resolveGlobalOpts()
+    await cmdAppeal(opts, slug, { message: options.message, json: options.json })
+  })
+
 program
   .command('ban-user')
   .description('Ban a user and delete owned skills (moderator/admin only)')
@@ -362,6 +517,36 @@ program
     await cmdUnstarSkill(opts, slug, options, isInputAllowed())
   })
 
+program
+  .command('notifications')
+  .description('Show your notification inbox')
+  .option('--unread', 'Only show unread notifications')
+  .option(
+    '--limit <n>',
+    'Number of notifications to show (max 100)',
+    (value) => Number.parseInt(value, 10),
+  )
+  .option('--mark-read', 'Mark the listed notifications as read')
+  .option('--watch', 'Keep polling and print new notifications as they arrive')
+  .option(
+    '--interval <seconds>',
+    'Polling interval for --watch (min 15)',
+    (value) => Number.parseInt(value, 10),
+    60,
+  )
+  .option('--json', 'Output JSON')
+  .action(async (options) => {
+    const opts = await resolveGlobalOpts()
+    await cmdNotifications(opts, {
+      unread: options.unread,
+      limit: options.limit,
+      markRead: options.markRead,
+      watch: options.watch,
+      interval: options.interval,
+      json: options.json,
+    })
+  })
+
 program
   .command('sync')
   .description('Scan local skills and publish new/updated ones')
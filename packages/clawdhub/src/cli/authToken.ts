@@ -1,14 +1,24 @@
 import { readGlobalConfig } from '../config.js'
+import type { GlobalOpts } from './types.js'
 import { fail } from './ui.js'
 
-export async function getOptionalAuthToken(): Promise<string | undefined> {
+/** Named registries only ever see their own token, never the default one. */
+export async function getOptionalAuthToken(
+  opts?: Pick<GlobalOpts, 'registryName'>,
+): Promise<string | undefined> {
   const cfg = await readGlobalConfig()
+  if (opts?.registryName) return cfg?.registries?.[opts.registryName]?.token ?? undefined
   return cfg?.token ?? undefined
 }
 
-export async function requireAuthToken(): Promise<string> {
-  const token = await getOptionalAuthToken()
-  if (!token) fail('Not logged in. Run: clawhub login')
+export async function requireAuthToken(opts?: Pick<GlobalOpts, 'registryName'>): Promise<string> {
+  const token = await getOptionalAuthToken(opts)
+  if (!token) {
+    fail(
+      opts?.registryName
+        ? `Not logged in to ${opts.registryName}. Run: clawhub login --registry ${opts.registryName}`
+        : 'Not logged in. Run: clawhub login',
+    )
+  }
   return token
 }
-
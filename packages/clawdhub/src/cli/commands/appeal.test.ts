@@ -0,0 +1,92 @@
+/* @vitest-environment node */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { GlobalOpts } from '../types'
+
+vi.mock('../authToken.js', () => ({
+  requireAuthToken: vi.fn(async () => 'tkn'),
+}))
+
+vi.mock('../registry.js', () => ({
+  getRegistry: vi.fn(async () => 'https://clawhub.ai'),
+}))
+
+const mockApiRequest = vi.fn()
+vi.mock('../../http.js', () => ({
+  apiRequest: (registry: unknown, args: unknown, schema?: unknown) =>
+    mockApiRequest(registry, args, schema),
+}))
+
+const mockFail = vi.fn((message: string) => {
+  throw new Error(message)
+})
+
+vi.mock('../ui.js', () => ({
+  createSpinner: vi.fn(() => ({ stop: vi.fn(), succeed: vi.fn(), fail: vi.fn() })),
+  fail: (message: string) => mockFail(message),
+  formatError: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}))
+
+const { cmdAppeal } = await import('./appeal')
+
+function makeOpts(): GlobalOpts {
+  return {
+    workdir: '/work',
+    dir: '/work/skills',
+    site: 'https://clawhub.ai',
+    registry: 'https://clawhub.ai',
+    registrySource: 'default',
+  }
+}
+
+const appeal = {
+  id: 'appeals:1',
+  status: 'changes_requested',
+  message: 'False positive',
+  response: 'Drop the curl | sh line.',
+  createdAt: 0,
+  resolvedAt: 1,
+}
+
+afterEach(() => {
+  vi.clearAllMocks()
+  vi.restoreAllMocks()
+})
+
+describe('cmdAppeal', () => {
+  it('files an appeal with --message', async () => {
+    mockApiRequest.mockResolvedValueOnce({ ok: true, appeal: { ...appeal, status: 'open' } })
+    await cmdAppeal(makeOpts(), 'Demo', { message: '  False positive ' })
+    expect(mockApiRequest).toHaveBeenCalledWith(
+      'https://clawhub.ai',
+      {
+        method: 'POST',
+        path: '/api/v1/skills/demo/appeal',
+        token: 'tkn',
+        body: { message: 'False positive' },
+      },
+      expect.anything(),
+    )
+  })
+
+  it('prints the decision and moderator response without --message', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    mockApiRequest.mockResolvedValueOnce({
+      decision: { kind: 'suspicious', label: 'Flagged as suspicious', reason: null },
+      canAppeal: true,
+      appeal,
+    })
+    await cmdAppeal(makeOpts(), 'demo', {})
+    expect(mockApiRequest.mock.calls[0]?.[1]).toMatchObject({ method: 'GET' })
+    const output = log.mock.calls.map((call) => call.join(' ')).join('\n')
+    expect(output).toContain('Decision: Flagged as suspicious')
+    expect(output).toContain('Appeal: changes requested')
+    expect(output).toContain('Moderator: Drop the curl | sh line.')
+    expect(output).toContain('clawhub appeal demo --message')
+  })
+
+  it('rejects an empty message', async () => {
+    await expect(cmdAppeal(makeOpts(), 'demo', { message: ' ' })).rejects.toThrow(/--message/)
+    expect(mockApiRequest).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,85 @@
+import { apiRequest } from '../../http.js'
+import {
+  ApiRoutes,
+  type ApiV1Appeal,
+  ApiV1AppealResponseSchema,
+  ApiV1AppealStateResponseSchema,
+  parseArk,
+} from '../../schema/index.js'
+import { requireAuthToken } from '../authToken.js'
+import { getRegistry } from '../registry.js'
+import type { GlobalOpts } from '../types.js'
+import { createSpinner, fail, formatError } from '../ui.js'
+
+const STATUS_LABELS: Record<ApiV1Appeal['status'], string> = {
+  open: 'waiting for review',
+  accepted: 'accepted',
+  rejected: 'rejected',
+  changes_requested: 'changes requested',
+}
+
+/** Files an appeal with `--message`; without it, prints the decision and latest appeal. */
+export async function cmdAppeal(
+  opts: GlobalOpts,
+  slugArg: string,
+  options: { message?: string; json?: boolean },
+) {
+  const slug = slugArg.trim().toLowerCase()
+  if (!slug) fail('Slug required')
+  const message = options.message?.trim()
+  if (options.message !== undefined && !message) fail('--message must not be empty')
+
+  const token = await requireAuthToken(opts)
+  const registry = await getRegistry(opts, { cache: true })
+  const path = `${ApiRoutes.skills}/${encodeURIComponent(slug)}/appeal`
+
+  if (!message) {
+    const spinner = createSpinner(`Checking appeal status for ${slug}`)
+    try {
+      const result = await apiRequest(
+        registry,
+        { method: 'GET', path, token },
+        ApiV1AppealStateResponseSchema,
+      )
+      const state = parseArk(ApiV1AppealStateResponseSchema, result, 'Appeal status response')
+      spinner.stop()
+      if (options.json) {
+        console.log(JSON.stringify(state, null, 2))
+        return state
+      }
+      const { decision } = state
+      const reason = decision?.reason ? ` (${decision.reason})` : ''
+      console.log(
+        decision ? `Decision: ${decision.label}${reason}` : 'Decision: none (nothing to appeal)',
+      )
+      if (state.appeal) printAppeal(state.appeal)
+      if (state.canAppeal) console.log(`Appeal with: clawhub appeal ${slug} --message "..."`)
+      return state
+    } catch (error) {
+      spinner.fail(formatError(error))
+      throw error
+    }
+  }
+
+  const spinner = createSpinner(`Filing appeal for ${slug}`)
+  try {
+    const result = await apiRequest(
+      registry,
+      { method: 'POST', path, token, body: { message } },
+      ApiV1AppealResponseSchema,
+    )
+    const parsed = parseArk(ApiV1AppealResponseSchema, result, 'Appeal response')
+    spinner.succeed(`OK. Appeal filed for ${slug}; moderators will review it`)
+    if (options.json) console.log(JSON.stringify(parsed, null, 2))
+    return parsed
+  } catch (error) {
+    spinner.fail(formatError(error))
+    throw error
+  }
+}
+
+function printAppeal(appeal: ApiV1Appeal) {
+  const filed = new Date(appeal.createdAt).toISOString().slice(0, 10)
+  console.log(`Appeal: ${STATUS_LABELS[appeal.status]} (filed ${filed})`)
+  if (appeal.response) console.log(`Moderator: ${appeal.response}`)
+}
@@ -4,16 +4,18 @@ import { discoverRegistryFromSite } from '../../discovery.js'
 import { apiRequest } from '../../http.js'
 import { ApiRoutes, ApiV1WhoamiResponseSchema } from '../../schema/index.js'
 import { requireAuthToken } from '../authToken.js'
-import { getRegistry } from '../registry.js'
+import { DEFAULT_REGISTRY, getRegistry } from '../registry.js'
 import type { GlobalOpts } from '../types.js'
 import { createSpinner, fail, formatError, openInBrowser, promptHidden } from '../ui.js'
 
 export async function cmdLoginFlow(
   opts: GlobalOpts,
-  options: { token?: string; label?: string; browser?: boolean },
+  options: { token?: string; label?: string; scopes?: string; browser?: boolean },
   inputAllowed: boolean,
 ) {
+  const scopes = parseScopesOption(options.scopes)
   if (options.token) {
+    if (scopes) fail('--scopes only applies to browser login (pick scopes when creating the token)')
     await cmdLogin(opts, options.token, inputAllowed)
     return
   }
@@ -23,13 +25,15 @@ export async function cmdLoginFlow(
   }
 
   const label = String(options.label ?? 'CLI token').trim() || 'CLI token'
+  const site = await resolveLoginSite(opts)
   const receiver = await startLoopbackAuthServer()
-  const discovery = await discoverRegistryFromSite(opts.site).catch(() => null)
-  const authBase = discovery?.authBase?.trim() || opts.site
+  const discovery = await discoverRegistryFromSite(site).catch(() => null)
+  const authBase = discovery?.authBase?.trim() || site
   const authUrl = buildCliAuthUrl({
     siteUrl: authBase,
     redirectUri: receiver.redirectUri,
     label,
+    scopes,
     state: receiver.state,
   })
 
@@ -37,6 +41,10 @@ export async function cmdLoginFlow(
   openInBrowser(authUrl)
 
   const result = await receiver.waitForResult()
+  if (opts.registryName) {
+    await cmdLogin(opts, result.token, inputAllowed)
+    return
+  }
   const registry = result.registry?.trim() || opts.registry
   const registrySource = result.registry?.trim() ? 'cli' : opts.registrySource
   await cmdLogin({ ...opts, registry, registrySource }, result.token, inputAllowed)
@@ -62,7 +70,7 @@ export async function cmdLogin(
     )
     if (!whoami.user) fail('Login failed')
 
-    await writeGlobalConfig({ registry, token })
+    await storeToken(opts, registry, token)
     const handle = whoami.user.handle ? `@${whoami.user.handle}` : 'unknown user'
     spinner.succeed(`OK. Logged in as ${handle}.`)
   } catch (error) {
@@ -73,13 +81,17 @@ export async function cmdLogin(
 
 export async function cmdLogout(opts: GlobalOpts) {
   const cfg = await readGlobalConfig()
-  const registry = cfg?.registry || (await getRegistry(opts, { cache: true }))
-  await writeGlobalConfig({ registry, token: undefined })
+  if (opts.registryName) {
+    await storeToken(opts, DEFAULT_REGISTRY, undefined)
+  } else {
+    const registry = cfg?.registry || (await getRegistry(opts, { cache: true }))
+    await writeGlobalConfig({ ...cfg, registry, token: undefined })
+  }
   console.log('OK. Logged out locally. Token still valid until revoked (Settings -> API tokens).')
 }
 
 export async function cmdWhoami(opts: GlobalOpts) {
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
 
   const spinner = createSpinner('Checking token')
@@ -95,3 +107,38 @@ export async function cmdWhoami(opts: GlobalOpts) {
     throw error
   }
 }
+
+/** `read,publish:my-*` → list; the site validates the scope names when minting the token. */
+function parseScopesOption(value: string | undefined) {
+  if (value === undefined) return undefined
+  const scopes = [
+    ...new Set(
+      value
+        .split(',')
+        .map((scope) => scope.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  ]
+  if (scopes.length === 0) fail('--scopes needs at least one scope (e.g. read,publish:*)')
+  return scopes
+}
+
+async function resolveLoginSite(opts: GlobalOpts) {
+  if (!opts.registryName) return opts.site
+  const cfg = await readGlobalConfig()
+  const entry = cfg?.registries?.[opts.registryName]
+  if (!entry) fail(`Unknown registry "${opts.registryName}" (see: clawhub registry list)`)
+  return entry.site?.trim() || entry.registry?.trim() || opts.site
+}
+
+/** Named registries keep their token on their own entry; the default token stays untouched. */
+async function storeToken(opts: GlobalOpts, registry: string, token: string | undefined) {
+  const cfg = await readGlobalConfig()
+  if (!opts.registryName) {
+    await writeGlobalConfig({ ...cfg, registry, token })
+    return
+  }
+  const registries = { ...cfg?.registries }
+  registries[opts.registryName] = { ...registries[opts.registryName], token }
+  await writeGlobalConfig({ ...cfg, registry: cfg?.registry ?? DEFAULT_REGISTRY, registries })
+}
@@ -57,7 +57,7 @@ export async function cmdDeleteSkill(
     if (!ok) return
   }
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
   const spinner = createSpinner(`${labels.progress} ${slug}`)
   try {
@@ -91,7 +91,7 @@ export async function cmdUndeleteSkill(
     if (!ok) return
   }
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
   const spinner = createSpinner(`${labels.progress} ${slug}`)
   try {
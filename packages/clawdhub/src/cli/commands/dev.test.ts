@@ -0,0 +1,74 @@
+/* @vitest-environment node */
+
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { runDevCheck } from './dev'
+
+const README = `---
+description: Rotate and audit SSH keys across a fleet of hosts.
+---
+# SSH key rotation
+
+Rotate SSH keys on every host listed in an inventory file, keeping the old key
+valid until the new one has been verified, then remove it and record an audit
+entry so reviewers can trace who changed which host and when.
+
+## Steps
+
+- Generate a fresh ed25519 key pair for each host group in the inventory.
+- Push the public key and confirm a login with the new key before continuing.
+- Remove the previous key only after the verification step has succeeded.
+- Write a summary with host, fingerprint, and timestamp to the audit log.
+`
+
+async function makeSkill(files: Record<string, string>) {
+  const folder = await mkdtemp(join(tmpdir(), 'clawhub-dev-'))
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(folder, name), content)
+  }
+  return folder
+}
+
+function captureLog() {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+  return () => log.mock.calls.map((call) => String(call[0]))
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('runDevCheck', () => {
+  it('reports ok for a skill that passes validation', async () => {
+    const lines = captureLog()
+    const folder = await makeSkill({ 'SKILL.md': README })
+
+    await runDevCheck({ slug: 'ssh-rotate', folder })
+
+    expect(lines()).toEqual([expect.stringMatching(/✔ ssh-rotate: ok$/)])
+  })
+
+  it('lists validation errors without throwing', async () => {
+    const lines = captureLog()
+    const folder = await makeSkill({ 'notes.md': 'hi' })
+
+    await runDevCheck({ slug: 'Bad Slug', folder })
+
+    const output = lines()
+    expect(output[0]).toMatch(/✖ Bad Slug$/)
+    expect(output).toContain('    error: Slug must be lowercase and url-safe')
+    expect(output).toContain('    error: SKILL.md is required')
+  })
+
+  it('mirrors copy-mode links before checking', async () => {
+    captureLog()
+    const folder = await makeSkill({ 'SKILL.md': README })
+    const copyTo = join(await mkdtemp(join(tmpdir(), 'clawhub-dev-copy-')), 'ssh-rotate')
+
+    await runDevCheck({ slug: 'ssh-rotate', folder, copyTo })
+
+    expect(await readFile(join(copyTo, 'SKILL.md'), 'utf8')).toBe(README)
+  })
+})
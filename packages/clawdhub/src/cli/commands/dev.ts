@@ -0,0 +1,78 @@
+import { watch } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import { basename, resolve } from 'node:path'
+import { readLockfile } from '../../skills.js'
+import { sanitizeSlug } from '../slug.js'
+import type { GlobalOpts } from '../types.js'
+import { fail, formatError } from '../ui.js'
+import { mirrorSkillFolder } from './link.js'
+import { formatValidationProblem, validateSkillFolder } from './validate.js'
+
+const WATCH_DEBOUNCE_MS = 150
+
+type DevTarget = { slug: string; folder: string; copyTo?: string }
+
+export async function cmdDev(
+  opts: GlobalOpts,
+  folderArg: string | undefined,
+  options: { slug?: string } = {},
+) {
+  const targets = await resolveDevTargets(opts, folderArg, options.slug)
+  if (targets.length === 0) fail('Nothing to watch (pass a skill folder or `clawhub link` one)')
+
+  for (const target of targets) await runDevCheck(target)
+
+  const watchers = targets.map((target) => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+    return watch(target.folder, { recursive: true }, () => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => void runDevCheck(target), WATCH_DEBOUNCE_MS)
+    })
+  })
+  console.log(`Watching ${targets.length} skill(s). Ctrl+C to stop.`)
+  await new Promise<void>((resolveStop) => {
+    process.once('SIGINT', () => {
+      for (const watcher of watchers) watcher.close()
+      resolveStop()
+    })
+  })
+}
+
+async function resolveDevTargets(opts: GlobalOpts, folderArg?: string, slugArg?: string) {
+  const lock = await readLockfile(opts.workdir)
+  const linked = Object.entries(lock.skills).flatMap(([slug, entry]): DevTarget[] =>
+    entry.link
+      ? [
+          {
+            slug,
+            folder: entry.link.path,
+            copyTo: entry.link.mode === 'copy' ? resolve(opts.dir, slug) : undefined,
+          },
+        ]
+      : [],
+  )
+  if (!folderArg) return linked
+
+  const folder = resolve(opts.workdir, folderArg)
+  const folderStat = await stat(folder).catch(() => null)
+  if (!folderStat?.isDirectory()) fail('Path must be a folder')
+  const match = linked.find((target) => target.folder === folder)
+  if (match) return [match]
+  return [{ slug: slugArg?.trim().toLowerCase() || sanitizeSlug(basename(folder)), folder }]
+}
+
+export async function runDevCheck(target: DevTarget) {
+  const time = new Date().toLocaleTimeString()
+  try {
+    if (target.copyTo) await mirrorSkillFolder(target.folder, target.copyTo)
+    const { ok, problems } = await validateSkillFolder(target.folder, target.slug)
+    if (problems.length === 0) {
+      console.log(`[${time}] ✔ ${target.slug}: ok`)
+      return
+    }
+    console.log(`[${time}] ${ok ? '⚠' : '✖'} ${target.slug}`)
+    for (const problem of problems) console.log(`    ${formatValidationProblem(problem)}`)
+  } catch (error) {
+    console.log(`[${time}] ✖ ${target.slug}: ${formatError(error)}`)
+  }
+}
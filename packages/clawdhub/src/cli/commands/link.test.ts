@@ -0,0 +1,91 @@
+/* @vitest-environment node */
+
+import { lstat, mkdir, mkdtemp, readFile, readlink, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { readLockfile, writeLockfile } from '../../skills'
+import type { GlobalOpts } from '../types'
+
+vi.mock('../ui.js', () => ({
+  fail: (message: string) => {
+    throw new Error(message)
+  },
+}))
+
+const { cmdLink, cmdUnlink } = await import('./link')
+
+async function makeWorkspace() {
+  const workdir = await mkdtemp(join(tmpdir(), 'clawhub-link-'))
+  const source = join(workdir, 'src', 'my-skill')
+  await mkdir(source, { recursive: true })
+  await writeFile(join(source, 'SKILL.md'), '---\ndescription: Demo\n---\n# Demo\n')
+  const opts: GlobalOpts = {
+    workdir,
+    dir: join(workdir, 'skills'),
+    site: 'https://clawhub.ai',
+    registry: 'https://clawhub.ai',
+    registrySource: 'default',
+  }
+  return { opts, source }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('link/unlink', () => {
+  it('symlinks the folder and records it in the lockfile', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const { opts, source } = await makeWorkspace()
+
+    await cmdLink(opts, 'src/my-skill')
+
+    const target = join(opts.dir, 'my-skill')
+    expect((await lstat(target)).isSymbolicLink()).toBe(true)
+    expect(await readlink(target)).toBe(source)
+    const lock = await readLockfile(opts.workdir)
+    expect(lock.skills['my-skill']).toMatchObject({
+      version: null,
+      link: { path: source, mode: 'symlink' },
+    })
+  })
+
+  it('copies files with --copy', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const { opts } = await makeWorkspace()
+
+    await cmdLink(opts, 'src/my-skill', { slug: 'demo', copy: true })
+
+    const target = join(opts.dir, 'demo')
+    expect((await lstat(target)).isSymbolicLink()).toBe(false)
+    expect(await readFile(join(target, 'SKILL.md'), 'utf8')).toContain('# Demo')
+    expect((await readLockfile(opts.workdir)).skills.demo?.link?.mode).toBe('copy')
+  })
+
+  it('refuses to replace an installed skill without --force', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const { opts } = await makeWorkspace()
+    await writeLockfile(opts.workdir, {
+      version: 2,
+      skills: { 'my-skill': { version: '1.0.0', installedAt: 1 } },
+    })
+
+    await expect(cmdLink(opts, 'src/my-skill')).rejects.toThrow(/already installed/i)
+    await cmdLink(opts, 'src/my-skill', { force: true })
+    expect((await readLockfile(opts.workdir)).skills['my-skill']?.link).toBeTruthy()
+  })
+
+  it('unlinks without touching the source folder', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const { opts, source } = await makeWorkspace()
+    await cmdLink(opts, 'src/my-skill')
+
+    await cmdUnlink(opts, 'my-skill')
+
+    await expect(lstat(join(opts.dir, 'my-skill'))).rejects.toBeTruthy()
+    expect(await readFile(join(source, 'SKILL.md'), 'utf8')).toContain('# Demo')
+    expect((await readLockfile(opts.workdir)).skills['my-skill']).toBeUndefined()
+    await expect(cmdUnlink(opts, 'my-skill')).rejects.toThrow(/not linked/i)
+  })
+})
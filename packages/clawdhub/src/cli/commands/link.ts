@@ -0,0 +1,82 @@
+import { lstat, mkdir, rm, stat, symlink, unlink, writeFile } from 'node:fs/promises'
+import { basename, dirname, join, resolve } from 'node:path'
+import type { LockfileEntry } from '../../schema/index.js'
+import { listTextFiles, readLockfile, writeLockfile } from '../../skills.js'
+import { sanitizeSlug } from '../slug.js'
+import type { GlobalOpts } from '../types.js'
+import { fail } from '../ui.js'
+
+type LinkMode = NonNullable<LockfileEntry['link']>['mode']
+
+export function isLinkedEntry(entry: LockfileEntry | undefined) {
+  return Boolean(entry?.link)
+}
+
+export async function cmdLink(
+  opts: GlobalOpts,
+  folderArg: string,
+  options: { slug?: string; copy?: boolean; force?: boolean } = {},
+) {
+  const folder = folderArg ? resolve(opts.workdir, folderArg) : null
+  if (!folder) fail('Path required')
+  const folderStat = await stat(folder).catch(() => null)
+  if (!folderStat?.isDirectory()) fail('Path must be a folder')
+
+  const slug = options.slug?.trim().toLowerCase() || sanitizeSlug(basename(folder))
+  if (!slug) fail('--slug required')
+  const target = join(opts.dir, slug)
+  if (resolve(target) === folder) fail(`${folderArg} is already in the skills dir`)
+
+  const lock = await readLockfile(opts.workdir)
+  const existing = lock.skills[slug]
+  const targetExists = Boolean(await lstat(target).catch(() => null))
+  if ((existing || targetExists) && !isLinkedEntry(existing) && !options.force) {
+    fail(`${slug} is already installed (use --force to replace it with the link)`)
+  }
+
+  const mode: LinkMode = options.copy ? 'copy' : 'symlink'
+  await removeSkillTarget(target)
+  await mkdir(opts.dir, { recursive: true })
+  if (mode === 'symlink') {
+    // `junction` lets Windows link folders without admin rights; other platforms ignore it.
+    await symlink(folder, target, 'junction')
+  } else {
+    await mirrorSkillFolder(folder, target)
+  }
+
+  lock.skills[slug] = { version: null, installedAt: Date.now(), link: { path: folder, mode } }
+  await writeLockfile(opts.workdir, lock)
+  console.log(`OK. Linked ${slug} -> ${folder}${mode === 'copy' ? ' (copy)' : ''}`)
+}
+
+export async function cmdUnlink(opts: GlobalOpts, slugArg: string) {
+  const slug = slugArg.trim().toLowerCase()
+  if (!slug) fail('Slug required')
+  const lock = await readLockfile(opts.workdir)
+  if (!isLinkedEntry(lock.skills[slug])) fail(`${slug} is not linked`)
+
+  await removeSkillTarget(join(opts.dir, slug))
+  delete lock.skills[slug]
+  await writeLockfile(opts.workdir, lock)
+  console.log(`OK. Unlinked ${slug} (source folder untouched)`)
+}
+
+/** Copies the files `publish` would upload, so a mirror looks like an installed version. */
+export async function mirrorSkillFolder(folder: string, target: string) {
+  const files = await listTextFiles(folder)
+  await rm(target, { recursive: true, force: true })
+  await mkdir(target, { recursive: true })
+  for (const file of files) {
+    const outPath = join(target, file.relPath)
+    await mkdir(dirname(outPath), { recursive: true })
+    await writeFile(outPath, file.bytes)
+  }
+}
+
+async function removeSkillTarget(target: string) {
+  const info = await lstat(target).catch(() => null)
+  if (!info) return
+  // Never follow a link: removing it must leave the author's folder alone.
+  if (info.isSymbolicLink()) await unlink(target)
+  else await rm(target, { recursive: true, force: true })
+}
@@ -23,7 +23,7 @@ export async function cmdBanUser(
 
   const reason = options.reason?.trim() || undefined
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
   const allowPrompt = isInteractive() && inputAllowed !== false
   const resolved = await resolveUserIdentifier(
@@ -80,7 +80,7 @@ export async function cmdSetRole(
   if (!raw) fail('Handle or user id required')
   const role = normalizeRole(roleArg)
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
   const allowPrompt = isInteractive() && inputAllowed !== false
   const resolved = await resolveUserIdentifier(
@@ -0,0 +1,112 @@
+/* @vitest-environment node */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { GlobalOpts } from '../types'
+
+vi.mock('../authToken.js', () => ({
+  requireAuthToken: vi.fn(async () => 'tkn'),
+}))
+
+vi.mock('../registry.js', () => ({
+  getRegistry: vi.fn(async () => 'https://clawhub.ai'),
+}))
+
+const mockApiRequest = vi.fn()
+const mockRegistryUrl = vi.fn((path: string, registry: string) => {
+  const base = registry.endsWith('/') ? registry : `${registry}/`
+  const relative = path.startsWith('/') ? path.slice(1) : path
+  return new URL(relative, base)
+})
+vi.mock('../../http.js', () => ({
+  apiRequest: (registry: unknown, args: unknown, schema?: unknown) =>
+    mockApiRequest(registry, args, schema),
+  registryUrl: (...args: [string, string]) => mockRegistryUrl(...args),
+}))
+
+vi.mock('../ui.js', () => ({
+  createSpinner: vi.fn(() => ({ stop: vi.fn(), succeed: vi.fn(), fail: vi.fn() })),
+  fail: (message: string) => {
+    throw new Error(message)
+  },
+  formatError: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}))
+
+const { cmdNotifications, formatNotificationLine } = await import('./notifications')
+
+function makeOpts(): GlobalOpts {
+  return {
+    workdir: '/work',
+    dir: '/work/skills',
+    site: 'https://clawhub.ai',
+    registry: 'https://clawhub.ai',
+    registrySource: 'default',
+  }
+}
+
+const unreadItem = {
+  id: 'n1',
+  kind: 'skill.comment',
+  title: '@alice commented on Demo',
+  body: 'Nice work',
+  url: '/bob/demo',
+  createdAt: Date.UTC(2026, 0, 2, 3, 4),
+  readAt: null,
+}
+
+afterEach(() => {
+  vi.clearAllMocks()
+  vi.restoreAllMocks()
+})
+
+describe('cmdNotifications', () => {
+  it('requests unread notifications with a clamped limit', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    mockApiRequest.mockResolvedValueOnce({ items: [], unreadCount: 0 })
+    await cmdNotifications(makeOpts(), { unread: true, limit: 500 })
+    const [, args] = mockApiRequest.mock.calls[0] as [string, { url: string; token: string }]
+    const url = new URL(args.url)
+    expect(url.pathname).toBe('/api/v1/notifications')
+    expect(url.searchParams.get('unread')).toBe('1')
+    expect(url.searchParams.get('limit')).toBe('100')
+    expect(args.token).toBe('tkn')
+  })
+
+  it('marks listed unread notifications read', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    mockApiRequest
+      .mockResolvedValueOnce({
+        items: [unreadItem, { ...unreadItem, id: 'n2', readAt: 1 }],
+        unreadCount: 1,
+      })
+      .mockResolvedValueOnce({ ok: true, updated: 1 })
+    await cmdNotifications(makeOpts(), { markRead: true })
+    expect(mockApiRequest).toHaveBeenLastCalledWith(
+      'https://clawhub.ai',
+      expect.objectContaining({
+        method: 'POST',
+        path: '/api/v1/notifications/read',
+        body: { ids: ['n1'] },
+      }),
+      expect.anything(),
+    )
+  })
+
+  it('rejects a watch interval below the minimum', async () => {
+    await expect(cmdNotifications(makeOpts(), { watch: true, interval: 1 })).rejects.toThrow(
+      /--interval/,
+    )
+    expect(mockApiRequest).not.toHaveBeenCalled()
+  })
+})
+
+describe('formatNotificationLine', () => {
+  it('marks unread entries and resolves links against the site', () => {
+    expect(formatNotificationLine(unreadItem, 'https://clawhub.ai')).toBe(
+      [
+        '* 2026-01-02 03:04  @alice commented on Demo',
+        '    Nice work',
+        '    https://clawhub.ai/bob/demo',
+      ].join('\n'),
+    )
+  })
+})
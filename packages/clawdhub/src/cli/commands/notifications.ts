@@ -0,0 +1,127 @@
+import { apiRequest, registryUrl } from '../../http.js'
+import {
+  ApiRoutes,
+  ApiV1NotificationListResponseSchema,
+  ApiV1NotificationsReadResponseSchema,
+} from '../../schema/index.js'
+import { requireAuthToken } from '../authToken.js'
+import { getRegistry } from '../registry.js'
+import type { GlobalOpts } from '../types.js'
+import { createSpinner, fail, formatError } from '../ui.js'
+
+type NotificationItem = {
+  id: string
+  kind: string
+  title: string
+  body?: string | null
+  url?: string | null
+  createdAt: number
+  readAt?: number | null
+}
+
+export type NotificationsOptions = {
+  unread?: boolean
+  limit?: number
+  markRead?: boolean
+  watch?: boolean
+  interval?: number
+  json?: boolean
+}
+
+const MIN_POLL_INTERVAL_SECONDS = 15
+
+export async function cmdNotifications(opts: GlobalOpts, options: NotificationsOptions = {}) {
+  const token = await requireAuthToken(opts)
+  const registry = await getRegistry(opts, { cache: true })
+
+  if (options.watch) {
+    const interval = options.interval ?? 60
+    if (!Number.isFinite(interval) || interval < MIN_POLL_INTERVAL_SECONDS) {
+      fail(`--interval must be at least ${MIN_POLL_INTERVAL_SECONDS} seconds`)
+    }
+    await watchNotifications(opts, registry, token, options, interval * 1000)
+    return
+  }
+
+  const spinner = createSpinner('Fetching notifications')
+  try {
+    const result = await fetchNotifications(registry, token, options)
+    spinner.stop()
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2))
+    } else if (result.items.length === 0) {
+      console.log(options.unread ? 'No unread notifications.' : 'No notifications.')
+    } else {
+      console.log(`${formatUnreadCount(result.unreadCount)} unread`)
+      for (const item of result.items) console.log(formatNotificationLine(item, opts.site))
+    }
+    if (options.markRead) await markRead(registry, token, unreadIds(result.items))
+    return result
+  } catch (error) {
+    spinner.fail(formatError(error))
+    throw error
+  }
+}
+
+async function watchNotifications(
+  opts: GlobalOpts,
+  registry: string,
+  token: string,
+  options: NotificationsOptions,
+  intervalMs: number,
+) {
+  // Only unread entries are interesting while polling; the first pass prints the backlog.
+  const seen = new Set<string>()
+  console.log('Watching for notifications (Ctrl+C to stop)')
+  for (;;) {
+    const result = await fetchNotifications(registry, token, { ...options, unread: true })
+    const fresh = result.items
+      .filter((item) => !seen.has(item.id))
+      .sort((a, b) => a.createdAt - b.createdAt)
+    for (const item of fresh) {
+      seen.add(item.id)
+      console.log(options.json ? JSON.stringify(item) : formatNotificationLine(item, opts.site))
+    }
+    if (options.markRead) await markRead(registry, token, unreadIds(fresh))
+    await new Promise((resolve) => setTimeout(resolve, intervalMs))
+  }
+}
+
+async function fetchNotifications(registry: string, token: string, options: NotificationsOptions) {
+  const url = registryUrl(ApiRoutes.notifications, registry)
+  if (options.unread) url.searchParams.set('unread', '1')
+  if (options.limit) {
+    url.searchParams.set('limit', String(Math.min(Math.max(options.limit, 1), 100)))
+  }
+  return apiRequest(
+    registry,
+    { method: 'GET', url: url.toString(), token },
+    ApiV1NotificationListResponseSchema,
+  )
+}
+
+async function markRead(registry: string, token: string, ids: string[]) {
+  if (ids.length === 0) return
+  await apiRequest(
+    registry,
+    { method: 'POST', path: `${ApiRoutes.notifications}/read`, token, body: { ids } },
+    ApiV1NotificationsReadResponseSchema,
+  )
+}
+
+function unreadIds(items: NotificationItem[]) {
+  return items.filter((item) => !item.readAt).map((item) => item.id)
+}
+
+function formatUnreadCount(count: number) {
+  return count >= 100 ? '99+' : String(count)
+}
+
+export function formatNotificationLine(item: NotificationItem, site: string) {
+  const marker = item.readAt ? ' ' : '*'
+  const date = new Date(item.createdAt).toISOString().slice(0, 16).replace('T', ' ')
+  const lines = [`${marker} ${date}  ${item.title}`]
+  if (item.body) lines.push(`    ${item.body.replace(/\s+/g, ' ')}`)
+  if (item.url) lines.push(`    ${new URL(item.url, site).toString()}`)
+  return lines.join('\n')
+}
@@ -119,4 +119,127 @@ describe('cmdPublish', () => {
       await rm(workdir, { recursive: true, force: true })
     }
   })
+
+  it('sends the org handle when publishing with --org', async () => {
+    const workdir = await makeTmpWorkdir()
+    try {
+      const folder = join(workdir, 'team-skill')
+      await mkdir(folder, { recursive: true })
+      await writeFile(join(folder, 'SKILL.md'), '# Skill\n', 'utf8')
+
+      mockApiRequestForm.mockResolvedValueOnce({ ok: true, skillId: 'skill_1', versionId: 'ver_1' })
+
+      await cmdPublish(makeOpts(workdir), 'team-skill', {
+        version: '1.0.0',
+        tags: 'latest',
+        org: '@Acme',
+      })
+
+      const publishArgs = mockApiRequestForm.mock.calls[0]?.[1] as { form: FormData } | undefined
+      const payloadEntry = publishArgs?.form.get('payload')
+      if (typeof payloadEntry !== 'string') throw new Error('Missing publish payload')
+      expect(JSON.parse(payloadEntry).org).toBe('acme')
+      expect(mockSpinner.succeed).toHaveBeenCalledWith(
+        expect.stringContaining('@acme/team-skill@1.0.0'),
+      )
+    } finally {
+      await rm(workdir, { recursive: true, force: true })
+    }
+  })
+
+  it('sends --visibility and rejects unknown values', async () => {
+    const workdir = await makeTmpWorkdir()
+    try {
+      const folder = join(workdir, 'secret-skill')
+      await mkdir(folder, { recursive: true })
+      await writeFile(join(folder, 'SKILL.md'), '# Skill\n', 'utf8')
+
+      mockApiRequestForm.mockResolvedValueOnce({ ok: true, skillId: 'skill_1', versionId: 'ver_1' })
+
+      await cmdPublish(makeOpts(workdir), 'secret-skill', {
+        version: '1.0.0',
+        tags: 'latest',
+        visibility: 'Private',
+      })
+
+      const publishArgs = mockApiRequestForm.mock.calls[0]?.[1] as { form: FormData } | undefined
+      const payloadEntry = publishArgs?.form.get('payload')
+      if (typeof payloadEntry !== 'string') throw new Error('Missing publish payload')
+      expect(JSON.parse(payloadEntry).visibility).toBe('private')
+
+      await expect(
+        cmdPublish(makeOpts(workdir), 'secret-skill', { version: '1.0.1', visibility: 'hidden' }),
+      ).rejects.toThrow(/--visibility must be/)
+    } finally {
+      await rm(workdir, { recursive: true, force: true })
+    }
+  })
+
+  it('prints scan findings for --dry-run and fails when publish would be blocked', async () => {
+    const workdir = await makeTmpWorkdir()
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    try {
+      const folder = join(workdir, 'risky-skill')
+      await mkdir(folder, { recursive: true })
+      await writeFile(join(folder, 'SKILL.md'), '# Skill\n', 'utf8')
+
+      const preview = {
+        ok: true,
+        dryRun: true,
+        slug: 'risky-skill',
+        version: '1.0.0',
+        quality: null,
+        moderation: { status: 'hidden', reason: 'pending.scan', flags: ['suspicious.exec_pipe'] },
+        scanResults: [
+          {
+            scanner: 'yara',
+            label: 'Rule scan',
+            verdict: 'suspicious',
+            summary: 'Matched pipe_to_shell',
+            findings: [
+              {
+                ruleId: 'pipe_to_shell',
+                severity: 'suspicious',
+                message: 'Pipes a downloaded script straight into a shell',
+                file: 'SKILL.md',
+                line: 3,
+              },
+            ],
+          },
+        ],
+        llmAnalysis: null,
+      }
+      mockApiRequestForm.mockResolvedValueOnce(preview)
+
+      await cmdPublish(makeOpts(workdir), 'risky-skill', {
+        version: '1.0.0',
+        tags: 'latest',
+        dryRun: true,
+      })
+
+      const publishArgs = mockApiRequestForm.mock.calls[0]?.[1] as { form: FormData } | undefined
+      const payloadEntry = publishArgs?.form.get('payload')
+      if (typeof payloadEntry !== 'string') throw new Error('Missing publish payload')
+      expect(JSON.parse(payloadEntry).dryRun).toBe(true)
+      expect(mockSpinner.succeed).toHaveBeenCalledWith(
+        'Dry run for risky-skill@1.0.0; nothing was published',
+      )
+      const output = log.mock.calls.map((call) => String(call[0]))
+      expect(output).toContain('Moderation: hidden (pending.scan); flags: suspicious.exec_pipe')
+      expect(output).toContain(
+        '  suspicious: SKILL.md:3: Pipes a downloaded script straight into a shell [pipe_to_shell]',
+      )
+
+      mockApiRequestForm.mockResolvedValueOnce({
+        ...preview,
+        scanResults: [{ ...preview.scanResults[0], verdict: 'malicious' }],
+      })
+      await expect(
+        cmdPublish(makeOpts(workdir), 'risky-skill', { version: '1.0.0', dryRun: true }),
+      ).rejects.toThrow('risky-skill: publish would be rejected or blocked')
+    } finally {
+      log.mockRestore()
+      await rm(workdir, { recursive: true, force: true })
+    }
+  })
 })
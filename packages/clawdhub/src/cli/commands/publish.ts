@@ -2,7 +2,12 @@ import { stat } from 'node:fs/promises'
 import { basename, resolve } from 'node:path'
 import semver from 'semver'
 import { apiRequestForm } from '../../http.js'
-import { ApiRoutes, ApiV1PublishResponseSchema } from '../../schema/index.js'
+import {
+  ApiRoutes,
+  type ApiV1PublishPreviewResponse,
+  ApiV1PublishPreviewResponseSchema,
+  ApiV1PublishResponseSchema,
+} from '../../schema/index.js'
 import { listTextFiles } from '../../skills.js'
 import { requireAuthToken } from '../authToken.js'
 import { getRegistry } from '../registry.js'
@@ -10,6 +15,8 @@ import { sanitizeSlug, titleCase } from '../slug.js'
 import type { GlobalOpts } from '../types.js'
 import { createSpinner, fail, formatError } from '../ui.js'
 
+const VISIBILITIES = ['public', 'unlisted', 'private'] as const
+
 export async function cmdPublish(
   opts: GlobalOpts,
   folderArg: string,
@@ -20,6 +27,9 @@ export async function cmdPublish(
     changelog?: string
     tags?: string
     forkOf?: string
+    org?: string
+    visibility?: string
+    dryRun?: boolean
   },
 ) {
   const folder = folderArg ? resolve(opts.workdir, folderArg) : null
@@ -27,7 +37,7 @@ export async function cmdPublish(
   const folderStat = await stat(folder).catch(() => null)
   if (!folderStat || !folderStat.isDirectory()) fail('Path must be a folder')
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
 
   const slug = options.slug ?? sanitizeSlug(basename(folder))
@@ -42,6 +52,8 @@ export async function cmdPublish(
 
   const forkOfRaw = options.forkOf?.trim()
   const forkOf = forkOfRaw ? parseForkOf(forkOfRaw) : undefined
+  const org = options.org?.trim().replace(/^@/, '').toLowerCase() || undefined
+  const visibility = parseVisibility(options.visibility)
 
   if (!slug) fail('--slug required')
   if (!displayName) fail('--name required')
@@ -70,6 +82,9 @@ export async function cmdPublish(
         changelog,
         tags,
         ...(forkOf ? { forkOf } : {}),
+        ...(org ? { org } : {}),
+        ...(visibility ? { visibility } : {}),
+        ...(options.dryRun ? { dryRun: true } : {}),
       }),
     )
 
@@ -81,6 +96,23 @@ export async function cmdPublish(
       form.append('files', blob, file.relPath)
     }
 
+    const target = org ? `@${org}/${slug}` : slug
+    if (options.dryRun) {
+      spinner.text = `Checking ${slug}@${version}`
+      const preview = await apiRequestForm(
+        registry,
+        { method: 'POST', path: ApiRoutes.skills, token, form },
+        ApiV1PublishPreviewResponseSchema,
+      )
+      spinner.succeed(`Dry run for ${target}@${version}; nothing was published`)
+      printPublishPreview(preview)
+      const blocked =
+        preview.quality?.decision === 'reject' ||
+        preview.scanResults.some((result) => result.verdict === 'malicious')
+      if (blocked) fail(`${slug}: publish would be rejected or blocked`)
+      return
+    }
+
     spinner.text = `Publishing ${slug}@${version}`
     const result = await apiRequestForm(
       registry,
@@ -88,13 +120,48 @@ export async function cmdPublish(
       ApiV1PublishResponseSchema,
     )
 
-    spinner.succeed(`OK. Published ${slug}@${version} (${result.versionId})`)
+    spinner.succeed(`OK. Published ${target}@${version} (${result.versionId})`)
   } catch (error) {
     spinner.fail(formatError(error))
     throw error
   }
 }
 
+function printPublishPreview(preview: ApiV1PublishPreviewResponse) {
+  const quality = preview.quality
+  if (quality) {
+    console.log(
+      `Quality: ${quality.decision} (score ${quality.score}, ${quality.trustTier} trust) - ` +
+        quality.reason,
+    )
+  }
+  const moderation = preview.moderation
+  const flags = moderation.flags.length ? `; flags: ${moderation.flags.join(', ')}` : ''
+  console.log(`Moderation: ${moderation.status} (${moderation.reason})${flags}`)
+  for (const result of preview.scanResults) {
+    console.log(`${result.label}: ${result.verdict}${result.summary ? ` - ${result.summary}` : ''}`)
+    for (const finding of result.findings) {
+      const location = finding.file
+        ? `${finding.file}${finding.line ? `:${finding.line}` : ''}: `
+        : ''
+      console.log(`  ${finding.severity}: ${location}${finding.message} [${finding.ruleId}]`)
+    }
+  }
+  const lint = preview.capabilityLint
+  if (lint) {
+    console.log(
+      `Capabilities: ${lint.status === 'clean' ? 'match' : 'mismatch'} ` +
+        `(${lint.undeclared.length} undeclared, ${lint.unused.length} unused)`,
+    )
+  }
+  const llm = preview.llmAnalysis
+  if (llm) {
+    const verdict = llm.verdict ?? llm.status
+    const confidence = llm.confidence ? ` (${llm.confidence} confidence)` : ''
+    console.log(`OpenClaw: ${verdict}${confidence}${llm.summary ? ` - ${llm.summary}` : ''}`)
+  }
+}
+
 function parseForkOf(value: string) {
   const trimmed = value.trim()
   const [slugRaw, versionRaw] = trimmed.split('@')
@@ -104,3 +171,11 @@ function parseForkOf(value: string) {
   if (version && !semver.valid(version)) fail('--fork-of version must be valid semver')
   return { slug, version: version || undefined }
 }
+
+function parseVisibility(value: string | undefined) {
+  const normalized = value?.trim().toLowerCase()
+  if (!normalized) return undefined
+  const match = VISIBILITIES.find((entry) => entry === normalized)
+  if (!match) fail('--visibility must be public, unlisted, or private')
+  return match
+}
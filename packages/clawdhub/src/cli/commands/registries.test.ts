@@ -0,0 +1,63 @@
+/* @vitest-environment node */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+const mockReadGlobalConfig = vi.fn()
+const mockWriteGlobalConfig = vi.fn(async (_cfg: unknown) => {})
+vi.mock('../../config.js', () => ({
+  readGlobalConfig: () => mockReadGlobalConfig(),
+  writeGlobalConfig: (cfg: unknown) => mockWriteGlobalConfig(cfg),
+}))
+
+vi.mock('../ui.js', () => ({
+  fail: (message: string) => {
+    throw new Error(message)
+  },
+}))
+
+const { cmdRegistryAdd, cmdRegistryRemove, cmdRegistryRoute } = await import('./registries')
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+afterEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('registry commands', () => {
+  it('adds a site-discovered registry without touching the default token', async () => {
+    mockReadGlobalConfig.mockResolvedValue({ registry: 'https://clawhub.ai', token: 'tkn' })
+
+    await cmdRegistryAdd('internal', 'https://skills.acme.dev', { token: 'acme' })
+
+    expect(mockWriteGlobalConfig).toHaveBeenCalledWith({
+      registry: 'https://clawhub.ai',
+      token: 'tkn',
+      registries: { internal: { site: 'https://skills.acme.dev', token: 'acme' } },
+    })
+  })
+
+  it('rejects routes to unknown registries', async () => {
+    mockReadGlobalConfig.mockResolvedValue({ registry: 'https://clawhub.ai' })
+
+    await expect(cmdRegistryRoute('acme-*', 'internal')).rejects.toThrow(
+      'Unknown registry "internal"',
+    )
+    expect(mockWriteGlobalConfig).not.toHaveBeenCalled()
+  })
+
+  it('drops routes when a registry is removed', async () => {
+    mockReadGlobalConfig.mockResolvedValue({
+      registry: 'https://clawhub.ai',
+      registries: { internal: { registry: 'https://api.acme.dev' } },
+      routes: [{ match: 'acme-*', registry: 'internal' }],
+    })
+
+    await cmdRegistryRemove('internal')
+
+    expect(mockWriteGlobalConfig).toHaveBeenCalledWith({
+      registry: 'https://clawhub.ai',
+      registries: {},
+      routes: undefined,
+    })
+  })
+})
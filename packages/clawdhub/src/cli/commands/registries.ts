@@ -0,0 +1,82 @@
+import { readGlobalConfig, writeGlobalConfig } from '../../config.js'
+import type { GlobalConfig, RegistrySource } from '../../schema/index.js'
+import { DEFAULT_REGISTRY, isRegistryUrl } from '../registry.js'
+import { fail } from '../ui.js'
+
+const REGISTRY_NAME_PATTERN = /^[a-z0-9][a-z0-9-_]*$/i
+
+async function readConfigOrDefault(): Promise<GlobalConfig> {
+  return (await readGlobalConfig()) ?? { registry: DEFAULT_REGISTRY }
+}
+
+export async function cmdRegistryAdd(
+  name: string,
+  url: string,
+  options: { api?: boolean; token?: string },
+) {
+  const trimmedName = name.trim()
+  if (!REGISTRY_NAME_PATTERN.test(trimmedName)) {
+    fail('Registry name must be alphanumeric (dashes/underscores allowed)')
+  }
+  const trimmedUrl = url.trim()
+  if (!isRegistryUrl(trimmedUrl)) fail('Registry URL must start with http:// or https://')
+
+  const cfg = await readConfigOrDefault()
+  const existing = cfg.registries?.[trimmedName]
+  const entry: RegistrySource = options.api ? { registry: trimmedUrl } : { site: trimmedUrl }
+  const token = options.token?.trim() || existing?.token
+  if (token) entry.token = token
+
+  await writeGlobalConfig({
+    ...cfg,
+    registries: { ...cfg.registries, [trimmedName]: entry },
+  })
+  console.log(`OK. ${existing ? 'Updated' : 'Added'} registry ${trimmedName} -> ${trimmedUrl}`)
+}
+
+export async function cmdRegistryRemove(name: string) {
+  const cfg = await readConfigOrDefault()
+  if (!cfg.registries?.[name]) fail(`Unknown registry "${name}"`)
+  const registries = { ...cfg.registries }
+  delete registries[name]
+  const routes = (cfg.routes ?? []).filter((route) => route.registry !== name)
+  await writeGlobalConfig({
+    ...cfg,
+    registries,
+    routes: routes.length ? routes : undefined,
+  })
+  console.log(`OK. Removed registry ${name}`)
+}
+
+export async function cmdRegistryList() {
+  const cfg = await readConfigOrDefault()
+  console.log(`default  ${cfg.registry}${cfg.token ? '  (logged in)' : ''}`)
+  for (const [name, entry] of Object.entries(cfg.registries ?? {})) {
+    const url = entry.registry ?? entry.site ?? '?'
+    const kind = entry.registry ? 'api' : 'site'
+    console.log(`${name}  ${url}  [${kind}]${entry.token ? '  (logged in)' : ''}`)
+  }
+  for (const route of cfg.routes ?? []) {
+    console.log(`route  ${route.match} -> ${route.registry}`)
+  }
+}
+
+export async function cmdRegistryRoute(pattern: string, name: string) {
+  const match = pattern.trim().toLowerCase()
+  if (!match || match === '*') fail('Route pattern must be a slug or a prefix ending in *')
+  const cfg = await readConfigOrDefault()
+  if (!cfg.registries?.[name]) fail(`Unknown registry "${name}"`)
+  const routes = (cfg.routes ?? []).filter((route) => route.match !== match)
+  routes.push({ match, registry: name })
+  await writeGlobalConfig({ ...cfg, routes })
+  console.log(`OK. ${match} -> ${name}`)
+}
+
+export async function cmdRegistryUnroute(pattern: string) {
+  const match = pattern.trim().toLowerCase()
+  const cfg = await readConfigOrDefault()
+  const routes = (cfg.routes ?? []).filter((route) => route.match !== match)
+  if (routes.length === (cfg.routes ?? []).length) fail(`No route for ${match}`)
+  await writeGlobalConfig({ ...cfg, routes: routes.length ? routes : undefined })
+  console.log(`OK. Removed route ${match}`)
+}
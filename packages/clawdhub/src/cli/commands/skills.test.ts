@@ -18,13 +18,19 @@ vi.mock('../../http.js', () => ({
 }))
 
 const mockGetRegistry = vi.fn(async () => 'https://clawhub.ai')
+const mockGetOptionalAuthToken = vi.fn(async () => undefined as string | undefined)
+const mockResolveRegistryTarget = vi.fn(
+  async (_opts: unknown, params: { slug?: string; source?: string }) => ({
+    registry: await mockGetRegistry(),
+    token: await mockGetOptionalAuthToken(),
+    source: params.source,
+  }),
+)
 vi.mock('../registry.js', () => ({
   getRegistry: () => mockGetRegistry(),
-}))
-
-const mockGetOptionalAuthToken = vi.fn(async () => undefined as string | undefined)
-vi.mock('../authToken.js', () => ({
-  getOptionalAuthToken: () => mockGetOptionalAuthToken(),
+  isRegistryUrl: (value: string) => /^https?:\/\//i.test(value),
+  resolveRegistryTarget: (opts: unknown, params: { slug?: string; source?: string }) =>
+    mockResolveRegistryTarget(opts, params),
 }))
 
 const mockSpinner = {
@@ -47,15 +53,19 @@ vi.mock('../ui.js', () => ({
   promptConfirm: mockPromptConfirm,
 }))
 
-vi.mock('../../skills.js', () => ({
-  extractZipToDir: vi.fn(),
-  hashSkillFiles: vi.fn(),
-  listTextFiles: vi.fn(),
-  readLockfile: vi.fn(),
-  readSkillOrigin: vi.fn(),
-  writeLockfile: vi.fn(),
-  writeSkillOrigin: vi.fn(),
-}))
+vi.mock('../../skills.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../skills.js')>()
+  return {
+    diffLockedFiles: actual.diffLockedFiles,
+    extractZipToDir: vi.fn(),
+    hashInstalledSkill: vi.fn(async () => ({ files: [], fingerprint: 'fp' })),
+    readLockfile: vi.fn(),
+    readSkillOrigin: vi.fn(),
+    toLockIntegrity: actual.toLockIntegrity,
+    writeLockfile: vi.fn(),
+    writeSkillOrigin: vi.fn(),
+  }
+})
 
 vi.mock('node:fs/promises', () => ({
   mkdir: vi.fn(),
@@ -63,11 +73,20 @@ vi.mock('node:fs/promises', () => ({
   stat: vi.fn(),
 }))
 
-const { clampLimit, cmdExplore, cmdInstall, cmdUninstall, cmdUpdate, formatExploreLine } = await import('./skills')
+const {
+  clampLimit,
+  cmdExplore,
+  cmdInstall,
+  cmdInstallCollection,
+  cmdInstallFromLockfile,
+  cmdSearch,
+  cmdUninstall,
+  cmdUpdate,
+  formatExploreLine,
+} = await import('./skills')
 const {
   extractZipToDir,
-  hashSkillFiles,
-  listTextFiles,
+  hashInstalledSkill,
   readLockfile,
   readSkillOrigin,
   writeLockfile,
@@ -176,6 +195,89 @@ describe('cmdExplore', () => {
     expect(first.searchParams.get('sort')).toBe('installsAllTime')
     expect(second.searchParams.get('sort')).toBe('trending')
   })
+
+  it('maps leaderboard sorts and rejects unknown ones', async () => {
+    mockApiRequest.mockResolvedValue({ items: [], nextCursor: null })
+
+    await cmdExplore(makeOpts(), { sort: 'rising' })
+    await cmdExplore(makeOpts(), { sort: 'new' })
+    await cmdExplore(makeOpts(), { sort: 'topMonth' })
+
+    const sorts = mockApiRequest.mock.calls.map((call) =>
+      new URL(String(call[1]?.url)).searchParams.get('sort'),
+    )
+    expect(sorts).toEqual(['rising', 'new', 'top-month'])
+    await expect(cmdExplore(makeOpts(), { sort: 'hot' })).rejects.toThrow(/Invalid sort "hot"/)
+  })
+})
+
+describe('cmdSearch', () => {
+  it('sends facet filters and prints facet counts', async () => {
+    mockApiRequest.mockResolvedValue({
+      results: [{ slug: 'gh', displayName: 'GitHub', version: '1.0.0', score: 0.5 }],
+      facets: {
+        os: [{ value: 'linux', count: 3 }],
+        bins: [],
+        env: [{ value: 'none', count: 2 }],
+        install: [],
+        nix: [],
+        badges: [],
+        owner: [],
+      },
+    })
+
+    await cmdSearch(makeOpts(), 'github', undefined, {
+      os: 'linux, macos',
+      env: false,
+      deprecated: false,
+      owner: '@steipete',
+      facets: true,
+    })
+
+    const url = new URL(String(mockApiRequest.mock.calls[0]?.[1]?.url))
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      q: 'github',
+      os: 'linux,macos',
+      env: 'none',
+      deprecated: 'false',
+      owner: 'steipete',
+    })
+    expect(mockLog).toHaveBeenCalledWith('gh v1.0.0  GitHub  (0.500)')
+    expect(mockLog).toHaveBeenCalledWith('os: linux (3)')
+    expect(mockLog).toHaveBeenCalledWith('env: none (2)')
+  })
+
+  it('requests and prints score breakdowns with explain', async () => {
+    mockApiRequest.mockResolvedValue({
+      results: [
+        {
+          slug: 'gh',
+          displayName: 'GitHub',
+          score: 2.2,
+          explain: {
+            vector: { score: 0.5, rank: 2, contribution: 0.5 },
+            bm25: {
+              score: 3.2,
+              rank: 1,
+              contribution: 0.6,
+              terms: [{ term: 'github', score: 3.2 }],
+            },
+            lexicalBoost: 1.1,
+            popularity: 0,
+            total: 2.2,
+          },
+        },
+      ],
+    })
+
+    await cmdSearch(makeOpts(), 'github', undefined, { explain: true })
+
+    const url = new URL(String(mockApiRequest.mock.calls[0]?.[1]?.url))
+    expect(url.searchParams.get('explain')).toBe('true')
+    expect(mockLog).toHaveBeenCalledWith(
+      '  vector 0.500 (#2)  bm25 0.600 (#1: github 3.20)  boost 1.100  popularity 0.000',
+    )
+  })
 })
 
 describe('cmdUpdate', () => {
@@ -183,15 +285,14 @@ describe('cmdUpdate', () => {
     mockApiRequest.mockResolvedValue({ latestVersion: { version: '1.0.0' } })
     mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: { demo: { version: '0.1.0', installedAt: 123 } },
     })
     vi.mocked(writeLockfile).mockResolvedValue()
     vi.mocked(readSkillOrigin).mockResolvedValue(null)
     vi.mocked(writeSkillOrigin).mockResolvedValue()
     vi.mocked(extractZipToDir).mockResolvedValue()
-    vi.mocked(listTextFiles).mockResolvedValue([])
-    vi.mocked(hashSkillFiles).mockReturnValue({ fingerprint: 'hash', files: [] })
+    vi.mocked(hashInstalledSkill).mockResolvedValue({ fingerprint: 'hash', files: [] })
     vi.mocked(stat).mockRejectedValue(new Error('missing'))
     vi.mocked(rm).mockResolvedValue()
 
@@ -201,6 +302,58 @@ describe('cmdUpdate', () => {
     expect(args?.path).toBe(`${ApiRoutes.skills}/${encodeURIComponent('demo')}`)
     expect(args?.url).toBeUndefined()
   })
+
+  it('updates from the registry recorded in the lockfile', async () => {
+    mockResolveRegistryTarget.mockResolvedValueOnce({
+      registry: 'https://mirror.example',
+      token: 'mirror-token',
+      source: 'internal',
+    })
+    mockApiRequest.mockResolvedValue({ latestVersion: { version: '1.0.0' } })
+    mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
+    vi.mocked(readLockfile).mockResolvedValue({
+      version: 2,
+      skills: { demo: { version: '0.1.0', installedAt: 123, registry: 'internal' } },
+    })
+    vi.mocked(readSkillOrigin).mockResolvedValue(null)
+    vi.mocked(stat).mockRejectedValue(new Error('missing'))
+
+    await cmdUpdate(makeOpts(), undefined, { all: true }, false)
+
+    expect(mockResolveRegistryTarget).toHaveBeenCalledWith(expect.anything(), {
+      slug: 'demo',
+      source: 'internal',
+    })
+    const [registry, zipArgs] = mockDownloadZip.mock.calls[0] ?? []
+    expect(registry).toBe('https://mirror.example')
+    expect(zipArgs?.token).toBe('mirror-token')
+    const [, lock] = vi.mocked(writeLockfile).mock.calls[0] ?? []
+    expect(lock?.skills.demo).toEqual(
+      expect.objectContaining({ version: '1.0.0', registry: 'internal' }),
+    )
+  })
+
+  it('keeps collection members within their pinned range', async () => {
+    mockApiRequest.mockImplementation(async (_registry: string, args: { url?: string }) => {
+      if (args.url) return { items: [{ version: '2.0.0' }, { version: '1.4.0' }], nextCursor: null }
+      return { latestVersion: { version: '2.0.0' } }
+    })
+    mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
+    vi.mocked(readLockfile).mockResolvedValue({
+      version: 2,
+      skills: { demo: { version: '1.0.0', installedAt: 123 } },
+      collections: {
+        'alice/onboarding': { installedAt: 1, items: [{ slug: 'demo', pin: '^1.0.0' }] },
+      },
+    })
+    vi.mocked(readSkillOrigin).mockResolvedValue(null)
+    vi.mocked(stat).mockRejectedValue(new Error('missing'))
+
+    await cmdUpdate(makeOpts(), 'demo', {}, false)
+
+    const [, zipArgs] = mockDownloadZip.mock.calls[0] ?? []
+    expect(zipArgs?.version).toBe('1.4.0')
+  })
 })
 
 describe('cmdInstall', () => {
@@ -213,7 +366,7 @@ describe('cmdInstall', () => {
       moderation: null,
     })
     mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
-    vi.mocked(readLockfile).mockResolvedValue({ version: 1, skills: {} })
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: {} })
     vi.mocked(writeLockfile).mockResolvedValue()
     vi.mocked(writeSkillOrigin).mockResolvedValue()
     vi.mocked(extractZipToDir).mockResolvedValue()
@@ -227,12 +380,244 @@ describe('cmdInstall', () => {
     const [, zipArgs] = mockDownloadZip.mock.calls[0] ?? []
     expect(zipArgs?.token).toBe('tkn')
   })
+
+  it('installs declared skill dependencies before the skill', async () => {
+    mockApiRequest.mockImplementation(async (_registry: string, args: { path?: string }) => {
+      if (args.path === '/api/v1/skills/demo/versions/1.0.0') {
+        return { version: { version: '1.0.0', dependencies: [{ slug: 'gh-cli', version: '^1.0.0' }] } }
+      }
+      if (args.path === '/api/v1/skills/gh-cli/versions/1.2.0') {
+        return { version: { version: '1.2.0', dependencies: [] } }
+      }
+      const slug = args.path?.split('/').pop()
+      return {
+        skill: null,
+        latestVersion: { version: slug === 'gh-cli' ? '1.2.0' : '1.0.0' },
+        owner: null,
+        moderation: null,
+      }
+    })
+    mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: {} })
+    vi.mocked(stat).mockRejectedValue(new Error('missing'))
+
+    await cmdInstall(makeOpts(), 'demo')
+
+    expect(mockDownloadZip.mock.calls.map(([, args]) => `${args.slug}@${args.version}`)).toEqual([
+      'gh-cli@1.2.0',
+      'demo@1.0.0',
+    ])
+  })
+
+  it('resolves each dependency through its own registry route', async () => {
+    const root = { registry: 'https://clawhub.ai', token: undefined, source: undefined }
+    const acme = { registry: 'https://acme.example', token: 'acme-tkn', source: 'acme' }
+    mockResolveRegistryTarget.mockResolvedValueOnce(root).mockResolvedValueOnce(acme)
+    mockApiRequest.mockImplementation(async (_registry: string, args: { path?: string }) => {
+      if (args.path === '/api/v1/skills/demo/versions/1.0.0') {
+        const dependencies = [{ slug: 'acme-lint', version: '1' }]
+        return { version: { version: '1.0.0', dependencies } }
+      }
+      if (args.path?.includes('/versions/')) return { version: { version: '1.0.0' } }
+      return { skill: null, latestVersion: { version: '1.0.0' }, owner: null, moderation: null }
+    })
+    mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: {} })
+    vi.mocked(stat).mockRejectedValue(new Error('missing'))
+
+    await cmdInstall(makeOpts(), 'demo')
+
+    expect(mockResolveRegistryTarget.mock.calls.map(([, params]) => params.slug)).toEqual([
+      'demo',
+      'acme-lint',
+    ])
+    const depCalls = mockApiRequest.mock.calls.filter(([, args]) => args.path.includes('acme-lint'))
+    expect(depCalls.length).toBeGreaterThan(0)
+    for (const [registry, args] of depCalls) {
+      expect(registry).toBe('https://acme.example')
+      expect(args.token).toBe('acme-tkn')
+    }
+    expect(mockDownloadZip.mock.calls.map(([registry, args]) => [registry, args.slug])).toEqual([
+      ['https://acme.example', 'acme-lint'],
+      ['https://clawhub.ai', 'demo'],
+    ])
+    const [, lock] = vi.mocked(writeLockfile).mock.calls[0] ?? []
+    expect(lock?.skills['acme-lint']?.registry).toBe('acme')
+  })
+
+  it('skips dependencies with --no-deps', async () => {
+    mockApiRequest.mockResolvedValue({
+      skill: null,
+      latestVersion: { version: '1.0.0' },
+      owner: null,
+      moderation: null,
+    })
+    mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: {} })
+    vi.mocked(stat).mockRejectedValue(new Error('missing'))
+
+    await cmdInstall(makeOpts(), 'demo', undefined, false, false)
+
+    expect(mockApiRequest).toHaveBeenCalledTimes(1)
+    expect(mockDownloadZip).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('cmdInstallCollection', () => {
+  function mockCollectionRegistry() {
+    mockApiRequest.mockImplementation(
+      async (_registry: string, args: { path?: string; url?: string }) => {
+        if (args.path === '/api/v1/collections/alice/onboarding') {
+          return {
+            collection: {
+              owner: 'alice',
+              name: 'onboarding',
+              displayName: 'Onboarding kit',
+              description: null,
+              itemCount: 2,
+              updatedAt: 0,
+            },
+            items: [
+              { slug: 'demo', displayName: 'Demo', summary: null, note: null, versionPin: null },
+              { slug: 'gh-cli', displayName: 'GH', summary: null, note: null, versionPin: '~1.1.0' },
+            ].map((item) => ({ ...item, latestVersion: null })),
+          }
+        }
+        if (args.url?.includes('/api/v1/skills/gh-cli/versions')) {
+          return { items: [{ version: '1.2.0' }, { version: '1.1.3' }], nextCursor: null }
+        }
+        const slug = args.path?.split('/').pop()
+        return {
+          skill: null,
+          latestVersion: { version: slug === 'gh-cli' ? '1.2.0' : '1.0.0' },
+          owner: null,
+          moderation: null,
+        }
+      },
+    )
+    mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
+  }
+
+  it('installs every member at its pin and records the collection', async () => {
+    mockCollectionRegistry()
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: {} })
+    vi.mocked(stat).mockRejectedValue(new Error('missing'))
+
+    await cmdInstallCollection(makeOpts(), '@Alice/onboarding', { withDependencies: false })
+
+    expect(mockDownloadZip.mock.calls.map(([, args]) => `${args.slug}@${args.version}`)).toEqual([
+      'demo@1.0.0',
+      'gh-cli@1.1.3',
+    ])
+    const [, lock] = vi.mocked(writeLockfile).mock.calls.at(-1) ?? []
+    expect(lock?.collections?.['alice/onboarding']?.items).toEqual([
+      { slug: 'demo' },
+      { slug: 'gh-cli', pin: '~1.1.0' },
+    ])
+  })
+
+  it('keeps members that are already installed', async () => {
+    mockCollectionRegistry()
+    vi.mocked(readLockfile).mockResolvedValue({
+      version: 2,
+      skills: { demo: { version: '0.9.0', installedAt: 1 } },
+    })
+    vi.mocked(stat).mockImplementation(async (path) => {
+      if (String(path).endsWith('/demo')) return {} as Awaited<ReturnType<typeof stat>>
+      throw new Error('missing')
+    })
+
+    await cmdInstallCollection(makeOpts(), 'alice/onboarding', { withDependencies: false })
+
+    expect(mockDownloadZip).toHaveBeenCalledTimes(1)
+    expect(mockLog).toHaveBeenCalledWith(
+      'Keeping installed demo@0.9.0 (member of alice/onboarding)',
+    )
+  })
+
+  it('rejects refs without an owner', async () => {
+    await expect(cmdInstallCollection(makeOpts(), 'onboarding')).rejects.toThrow(
+      /expected <owner>\/<name>/,
+    )
+  })
+})
+
+describe('cmdInstallFromLockfile', () => {
+  const lockedDemo = {
+    version: '1.0.0',
+    installedAt: 123,
+    fingerprint: 'fp',
+    files: { 'SKILL.md': 'aaa' },
+  }
+
+  it('downloads missing skills at the locked version and records integrity', async () => {
+    mockApiRequest.mockResolvedValue({ skill: null, latestVersion: { version: '2.0.0' }, moderation: null })
+    mockDownloadZip.mockResolvedValue(new Uint8Array([1, 2, 3]))
+    vi.mocked(readLockfile).mockResolvedValue({
+      version: 2,
+      skills: { demo: { version: '1.0.0', installedAt: 123 } },
+    })
+    vi.mocked(stat).mockRejectedValue(new Error('missing'))
+    vi.mocked(hashInstalledSkill).mockResolvedValueOnce({
+      fingerprint: 'fp',
+      files: [{ path: 'SKILL.md', sha256: 'aaa', size: 3 }],
+    })
+
+    await cmdInstallFromLockfile(makeOpts())
+
+    const [, zipArgs] = mockDownloadZip.mock.calls[0] ?? []
+    expect(zipArgs).toEqual(expect.objectContaining({ slug: 'demo', version: '1.0.0' }))
+    expect(writeLockfile).toHaveBeenCalledWith('/work', { version: 2, skills: { demo: lockedDemo } })
+  })
+
+  it('fails --frozen when local files differ from the lock', async () => {
+    mockApiRequest.mockResolvedValue({ match: { version: '1.0.0' }, latestVersion: null })
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: { demo: lockedDemo } })
+    vi.mocked(stat).mockResolvedValue({} as Awaited<ReturnType<typeof stat>>)
+    vi.mocked(hashInstalledSkill).mockResolvedValueOnce({
+      fingerprint: 'changed',
+      files: [{ path: 'SKILL.md', sha256: 'bbb', size: 3 }],
+    })
+
+    await expect(cmdInstallFromLockfile(makeOpts(), { frozen: true })).rejects.toThrow(
+      'demo: modified SKILL.md',
+    )
+    expect(mockDownloadZip).not.toHaveBeenCalled()
+    expect(writeLockfile).not.toHaveBeenCalled()
+  })
+
+  it('fails when a skill has local changes and --force is not set', async () => {
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: { demo: lockedDemo } })
+    vi.mocked(stat).mockResolvedValue({} as Awaited<ReturnType<typeof stat>>)
+    vi.mocked(hashInstalledSkill).mockResolvedValueOnce({
+      fingerprint: 'changed',
+      files: [{ path: 'SKILL.md', sha256: 'bbb', size: 3 }],
+    })
+
+    await expect(cmdInstallFromLockfile(makeOpts())).rejects.toThrow(
+      'demo: local changes (use --force to restore 1.0.0)',
+    )
+    expect(mockDownloadZip).not.toHaveBeenCalled()
+    expect(rm).not.toHaveBeenCalled()
+  })
+
+  it('fails --frozen when the registry resolves the fingerprint to another version', async () => {
+    mockApiRequest.mockResolvedValue({ match: { version: '1.1.0' }, latestVersion: null })
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: { demo: lockedDemo } })
+
+    await expect(cmdInstallFromLockfile(makeOpts(), { frozen: true })).rejects.toThrow(
+      'registry resolves the locked fingerprint to 1.1.0',
+    )
+    const [, args] = mockApiRequest.mock.calls[0] ?? []
+    const url = new URL(String(args?.url))
+    expect(url.searchParams.get('hash')).toBe('fp')
+  })
 })
 
 describe('cmdUninstall', () => {
   it('requires --yes when input is disabled', async () => {
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: { demo: { version: '1.0.0', installedAt: 123 } },
     })
 
@@ -241,7 +626,7 @@ describe('cmdUninstall', () => {
 
   it('prompts when interactive and proceeds on confirm', async () => {
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: { demo: { version: '1.0.0', installedAt: 123 } },
     })
     vi.mocked(writeLockfile).mockResolvedValue()
@@ -258,7 +643,7 @@ describe('cmdUninstall', () => {
 
   it('prints Cancelled and does not remove when prompt declines', async () => {
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: { demo: { version: '1.0.0', installedAt: 123 } },
     })
     mockIsInteractive.mockReturnValue(true)
@@ -281,7 +666,7 @@ describe('cmdUninstall', () => {
   })
 
   it('fails when skill is not installed', async () => {
-    vi.mocked(readLockfile).mockResolvedValue({ version: 1, skills: {} })
+    vi.mocked(readLockfile).mockResolvedValue({ version: 2, skills: {} })
 
     await expect(cmdUninstall(makeOpts(), 'missing', {}, false)).rejects.toThrow(
       'Not installed: missing',
@@ -290,7 +675,7 @@ describe('cmdUninstall', () => {
 
   it('removes skill directory and lockfile entry with --yes flag', async () => {
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: { demo: { version: '1.0.0', installedAt: 123 } },
     })
     vi.mocked(writeLockfile).mockResolvedValue()
@@ -300,7 +685,7 @@ describe('cmdUninstall', () => {
 
     expect(rm).toHaveBeenCalledWith('/work/skills/demo', { recursive: true, force: true })
     expect(writeLockfile).toHaveBeenCalledWith('/work', {
-      version: 1,
+      version: 2,
       skills: {},
     })
     expect(mockSpinner.succeed).toHaveBeenCalledWith('Uninstalled demo')
@@ -308,7 +693,7 @@ describe('cmdUninstall', () => {
 
   it('does not update lockfile if remove fails', async () => {
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: { demo: { version: '1.0.0', installedAt: 123 } },
     })
     vi.mocked(rm).mockRejectedValue(new Error('nope'))
@@ -320,7 +705,7 @@ describe('cmdUninstall', () => {
 
 	  it('updates lockfile after removing directory', async () => {
 	    vi.mocked(readLockfile).mockResolvedValue({
-	      version: 1,
+	      version: 2,
 	      skills: { demo: { version: '1.0.0', installedAt: 123 } },
 	    })
 	    vi.mocked(writeLockfile).mockResolvedValue()
@@ -337,7 +722,7 @@ describe('cmdUninstall', () => {
 
   it('removes skill and updates lockfile keeping other skills', async () => {
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: {
         demo: { version: '1.0.0', installedAt: 123 },
         other: { version: '2.0.0', installedAt: 456 },
@@ -350,14 +735,14 @@ describe('cmdUninstall', () => {
 
     expect(rm).toHaveBeenCalledWith('/work/skills/demo', { recursive: true, force: true })
     expect(writeLockfile).toHaveBeenCalledWith('/work', {
-      version: 1,
+      version: 2,
       skills: { other: { version: '2.0.0', installedAt: 456 } },
     })
   })
 
   it('trims slug whitespace', async () => {
     vi.mocked(readLockfile).mockResolvedValue({
-      version: 1,
+      version: 2,
       skills: { demo: { version: '1.0.0', installedAt: 123 } },
     })
     vi.mocked(writeLockfile).mockResolvedValue()
@@ -4,24 +4,40 @@ import semver from 'semver'
 import { apiRequest, downloadZip, registryUrl } from '../../http.js'
 import {
   ApiRoutes,
+  ApiV1CollectionResponseSchema,
+  type ApiV1SearchExplain,
   ApiV1SearchResponseSchema,
   ApiV1SkillListResponseSchema,
   ApiV1SkillResolveResponseSchema,
   ApiV1SkillResponseSchema,
+  ApiV1SkillVersionListResponseSchema,
+  ApiV1SkillVersionResponseSchema,
+  findSatisfyingSkillVersion,
+  type Lockfile,
+  type LockfileEntry,
+  satisfiesSkillVersionRange,
 } from '../../schema/index.js'
 import {
+  diffLockedFiles,
   extractZipToDir,
-  hashSkillFiles,
-  listTextFiles,
+  hashInstalledSkill,
   readLockfile,
   readSkillOrigin,
+  toLockIntegrity,
   writeLockfile,
   writeSkillOrigin,
 } from '../../skills.js'
-import { getRegistry } from '../registry.js'
+import { resolveSkillDependencies } from '../dependencies.js'
+import {
+  getRegistry,
+  isRegistryUrl,
+  type RegistryTarget,
+  resolveRegistryTarget,
+} from '../registry.js'
 import type { GlobalOpts, ResolveResult } from '../types.js'
 import { createSpinner, fail, formatError, isInteractive, promptConfirm } from '../ui.js'
-import { getOptionalAuthToken } from '../authToken.js'
+
+const MAX_VERSION_PAGES = 10
 
 function normalizeSkillSlugOrFail(raw: string) {
   const slug = raw.trim()
@@ -37,7 +53,25 @@ function isSafeSkillSlug(slug: string) {
   return Boolean(slug) && !slug.includes('/') && !slug.includes('\\') && !slug.includes('..')
 }
 
-export async function cmdSearch(opts: GlobalOpts, query: string, limit?: number) {
+export type SearchFilterOptions = {
+  os?: string
+  bins?: string
+  env?: boolean
+  install?: string
+  nix?: boolean
+  official?: boolean
+  deprecated?: boolean
+  owner?: string
+  facets?: boolean
+  explain?: boolean
+}
+
+export async function cmdSearch(
+  opts: GlobalOpts,
+  query: string,
+  limit?: number,
+  filters: SearchFilterOptions = {},
+) {
   if (!query) fail('Query required')
 
   const registry = await getRegistry(opts, { cache: true })
@@ -48,6 +82,8 @@ export async function cmdSearch(opts: GlobalOpts, query: string, limit?: number)
     if (typeof limit === 'number' && Number.isFinite(limit)) {
       url.searchParams.set('limit', String(limit))
     }
+    for (const [name, value] of searchFilterParams(filters)) url.searchParams.set(name, value)
+    if (filters.explain) url.searchParams.set('explain', 'true')
     const result = await apiRequest(
       registry,
       { method: 'GET', url: url.toString() },
@@ -60,6 +96,14 @@ export async function cmdSearch(opts: GlobalOpts, query: string, limit?: number)
       const name = entry.displayName ?? slug
       const version = entry.version ? ` v${entry.version}` : ''
       console.log(`${slug}${version}  ${name}  (${entry.score.toFixed(3)})`)
+      if (filters.explain && entry.explain) console.log(`  ${formatSearchExplain(entry.explain)}`)
+    }
+    if (filters.facets && result.facets) {
+      for (const [facet, values] of Object.entries(result.facets)) {
+        if (values.length === 0) continue
+        const counts = values.map((entry) => `${entry.value} (${entry.count})`).join(', ')
+        console.log(`${facet}: ${counts}`)
+      }
     }
   } catch (error) {
     spinner.fail(formatError(error))
@@ -67,17 +111,73 @@ export async function cmdSearch(opts: GlobalOpts, query: string, limit?: number)
   }
 }
 
+function formatSearchExplain(explain: ApiV1SearchExplain) {
+  const vector = explain.vector
+    ? `vector ${explain.vector.contribution.toFixed(3)} (#${explain.vector.rank})`
+    : 'vector -'
+  const terms = explain.bm25?.terms
+    .map((match) => `${match.term} ${match.score.toFixed(2)}`)
+    .join(', ')
+  const bm25 = explain.bm25
+    ? `bm25 ${explain.bm25.contribution.toFixed(3)} (#${explain.bm25.rank}: ${terms})`
+    : 'bm25 -'
+  return [
+    vector,
+    bm25,
+    `boost ${explain.lexicalBoost.toFixed(3)}`,
+    `popularity ${explain.popularity.toFixed(3)}`,
+  ].join('  ')
+}
+
+function searchFilterParams(filters: SearchFilterOptions) {
+  const params: Array<[string, string]> = []
+  const list = (name: string, value?: string) => {
+    const items = (value ?? '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean)
+    if (items.length) params.push([name, items.join(',')])
+  }
+  list('os', filters.os)
+  list('bins', filters.bins)
+  list('install', filters.install)
+  if (filters.env !== undefined) params.push(['env', filters.env ? 'required' : 'none'])
+  if (filters.nix) params.push(['nix', 'true'])
+  if (filters.official) params.push(['official', 'true'])
+  if (filters.deprecated !== undefined) params.push(['deprecated', String(filters.deprecated)])
+  const owner = filters.owner?.trim().replace(/^@/, '')
+  if (owner) params.push(['owner', owner])
+  return params
+}
+
 export async function cmdInstall(
   opts: GlobalOpts,
   slug: string,
   versionFlag?: string,
   force = false,
+  withDependencies = true,
 ) {
   const trimmed = normalizeSkillSlugOrFail(slug)
+  const registryTarget = await resolveRegistryTarget(opts, { slug: trimmed })
+  await installFromRegistry(opts, registryTarget, trimmed, { versionFlag, force, withDependencies })
+}
 
-  const token = await getOptionalAuthToken()
-
-  const registry = await getRegistry(opts, { cache: true })
+/**
+ * Installs one skill and its dependencies from an already resolved registry. `versionRange`
+ * (a collection pin) is resolved against the published versions; `versionFlag` is used as is.
+ */
+async function installFromRegistry(
+  opts: GlobalOpts,
+  { registry, token, source }: RegistryTarget,
+  trimmed: string,
+  options: {
+    versionFlag?: string
+    versionRange?: string
+    force: boolean
+    withDependencies: boolean
+  },
+) {
+  const { versionFlag, force, withDependencies } = options
   await mkdir(opts.dir, { recursive: true })
   const target = join(opts.dir, trimmed)
   if (!force) {
@@ -95,57 +195,429 @@ export async function cmdInstall(
       { method: 'GET', path: `${ApiRoutes.skills}/${encodeURIComponent(trimmed)}`, token },
       ApiV1SkillResponseSchema,
     )
+    await confirmModeration(trimmed, skillMeta.moderation, force, spinner)
 
-    // Check moderation status before proceeding
-    if (skillMeta.moderation?.isMalwareBlocked) {
-      spinner.fail(`Blocked: ${trimmed} is flagged as malicious`)
-      fail('This skill has been flagged as malware and cannot be installed.')
+    const resolvedVersion =
+      versionFlag ??
+      (await resolveVersionInRange(
+        registry,
+        trimmed,
+        options.versionRange,
+        skillMeta.latestVersion,
+        token,
+      ))
+    if (!resolvedVersion) {
+      fail(
+        options.versionRange
+          ? `No version of ${trimmed} matches ${options.versionRange}`
+          : 'Could not resolve latest version',
+      )
     }
 
-    if (skillMeta.moderation?.isSuspicious && !force) {
-      spinner.stop()
-      console.log(
-        `\n⚠️  Warning: "${trimmed}" is flagged as suspicious by VirusTotal Code Insight.\n` +
-          '   This skill may contain risky patterns (crypto keys, external APIs, eval, etc.)\n' +
-          '   Review the skill code before use.\n',
+    if (withDependencies) {
+      const lock = await readLockfile(opts.workdir)
+      // Each dependency is looked up where `clawhub install <dep>` would find it (routing rules
+      // included), not in the registry the root skill came from.
+      const depTargets = new Map<string, Promise<RegistryTarget>>([
+        [trimmed, Promise.resolve({ registry, token, source })],
+      ])
+      const dependencyTarget = (depSlug: string) => {
+        let target = depTargets.get(depSlug)
+        if (!target) {
+          target = resolveRegistryTarget(opts, { slug: depSlug })
+          depTargets.set(depSlug, target)
+        }
+        return target
+      }
+      const dependencies = await resolveSkillDependencies(
+        { slug: trimmed, version: resolvedVersion },
+        {
+          resolveVersion: async (depSlug, range) => {
+            spinner.text = `Resolving ${depSlug}`
+            const dep = await dependencyTarget(depSlug)
+            const depMeta = await apiRequest(
+              dep.registry,
+              {
+                method: 'GET',
+                path: `${ApiRoutes.skills}/${encodeURIComponent(depSlug)}`,
+                token: dep.token,
+              },
+              ApiV1SkillResponseSchema,
+            )
+            await confirmModeration(depSlug, depMeta.moderation, force, spinner)
+            return resolveVersionInRange(
+              dep.registry,
+              depSlug,
+              range,
+              depMeta.latestVersion,
+              dep.token,
+            )
+          },
+          getDependencies: async (depSlug, version) => {
+            const dep = await dependencyTarget(depSlug)
+            const result = await apiRequest(
+              dep.registry,
+              {
+                method: 'GET',
+                path: `${ApiRoutes.skills}/${encodeURIComponent(depSlug)}/versions/${encodeURIComponent(version)}`,
+                token: dep.token,
+              },
+              ApiV1SkillVersionResponseSchema,
+            )
+            return result?.version?.dependencies ?? []
+          },
+          installedVersion: async (depSlug) => {
+            if (!isSafeSkillSlug(depSlug)) return undefined
+            const installed = lock.skills[depSlug]?.version ?? undefined
+            if (!installed) return undefined
+            return (await fileExists(join(opts.dir, depSlug))) ? installed : undefined
+          },
+        },
+        { replaceConflicting: force },
       )
-      if (isInteractive()) {
-        const confirm = await promptConfirm('Install anyway?')
-        if (!confirm) fail('Installation cancelled')
-        spinner.start(`Resolving ${trimmed}`)
-      } else {
-        fail('Use --force to install suspicious skills in non-interactive mode')
+      for (const dependency of dependencies) {
+        if (!isSafeSkillSlug(dependency.slug)) fail(`Invalid dependency slug: ${dependency.slug}`)
+        if (lock.skills[dependency.slug]?.link) {
+          console.log(
+            `Keeping linked ${dependency.slug} (required by ${dependency.requiredBy.join(', ')})`,
+          )
+          continue
+        }
+        spinner.text = `Downloading ${dependency.slug}@${dependency.version} (dependency)`
+        const depTarget = join(opts.dir, dependency.slug)
+        await rm(depTarget, { recursive: true, force: true })
+        await installSkillVersion(
+          opts,
+          await dependencyTarget(dependency.slug),
+          dependency.slug,
+          dependency.version,
+        )
+        console.log(
+          `Installed dependency ${dependency.slug}@${dependency.version} (required by ${dependency.requiredBy.join(', ')})`,
+        )
       }
     }
 
-    const resolvedVersion = versionFlag ?? skillMeta.latestVersion?.version ?? null
-    if (!resolvedVersion) fail('Could not resolve latest version')
-
     spinner.text = `Downloading ${trimmed}@${resolvedVersion}`
-    const zip = await downloadZip(registry, { slug: trimmed, version: resolvedVersion, token })
-    await extractZipToDir(zip, target)
+    await installSkillVersion(opts, { registry, token, source }, trimmed, resolvedVersion)
+    spinner.succeed(`OK. Installed ${trimmed} -> ${target}`)
+  } catch (error) {
+    const message = formatError(error)
+    // Private skills 404 for anonymous callers; point at login instead of a dead end.
+    const hint =
+      !token && /skill not found|HTTP 404/i.test(message)
+        ? ' (private skills need `clawhub login`)'
+        : ''
+    spinner.fail(`${message}${hint}`)
+    throw error
+  }
+}
 
-    await writeSkillOrigin(target, {
-      version: 1,
-      registry,
-      slug: trimmed,
-      installedVersion: resolvedVersion,
-      installedAt: Date.now(),
+/**
+ * Installs every member of `owner/name` from the registry and records the collection in the
+ * lockfile so `clawhub update --all` keeps the set (and its version pins) in step.
+ */
+export async function cmdInstallCollection(
+  opts: GlobalOpts,
+  ref: string,
+  options: { force?: boolean; withDependencies?: boolean } = {},
+) {
+  const { key, owner, name } = parseCollectionRefOrFail(ref)
+  const registryTarget = await resolveRegistryTarget(opts, {})
+  const installed = await installCollectionMembers(opts, registryTarget, owner, name, {
+    force: Boolean(options.force),
+    withDependencies: options.withDependencies ?? true,
+  })
+  console.log(`OK. Installed collection ${key} (${installed} skill(s))`)
+}
+
+function parseCollectionRefOrFail(raw: string) {
+  const [owner, name, ...rest] = raw.trim().replace(/^@/, '').split('/')
+  if (!owner || !name || rest.length > 0 || !isSafeSkillSlug(owner) || !isSafeSkillSlug(name)) {
+    fail(`Invalid collection: ${raw} (expected <owner>/<name>)`)
+  }
+  const normalizedOwner = owner.toLowerCase()
+  const normalizedName = name.toLowerCase()
+  return {
+    key: `${normalizedOwner}/${normalizedName}`,
+    owner: normalizedOwner,
+    name: normalizedName,
+  }
+}
+
+/** Installs members not yet present and rewrites the collection's lock entry; returns the count. */
+async function installCollectionMembers(
+  opts: GlobalOpts,
+  registryTarget: RegistryTarget,
+  owner: string,
+  name: string,
+  options: { force: boolean; withDependencies: boolean },
+) {
+  const key = `${owner}/${name}`
+  const { items } = await apiRequest(
+    registryTarget.registry,
+    {
+      method: 'GET',
+      path: `${ApiRoutes.collections}/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`,
+      token: registryTarget.token,
+    },
+    ApiV1CollectionResponseSchema,
+  )
+  if (items.length === 0) console.log(`${key}: collection is empty`)
+
+  let installed = 0
+  for (const item of items) {
+    if (!isSafeSkillSlug(item.slug)) fail(`Invalid collection member slug: ${item.slug}`)
+    const entry = (await readLockfile(opts.workdir)).skills[item.slug]
+    if (entry?.link) {
+      console.log(`Keeping linked ${item.slug} (member of ${key})`)
+      continue
+    }
+    if (!options.force && (await fileExists(join(opts.dir, item.slug)))) {
+      const version = entry?.version ? `@${entry.version}` : ''
+      console.log(`Keeping installed ${item.slug}${version} (member of ${key})`)
+      continue
+    }
+    await installFromRegistry(opts, registryTarget, item.slug, {
+      versionRange: item.versionPin ?? undefined,
+      force: options.force,
+      withDependencies: options.withDependencies,
     })
+    installed += 1
+  }
 
-    const lock = await readLockfile(opts.workdir)
-    lock.skills[trimmed] = {
-      version: resolvedVersion,
-      installedAt: Date.now(),
+  const lock = await readLockfile(opts.workdir)
+  lock.collections = {
+    ...lock.collections,
+    [key]: {
+      installedAt: lock.collections?.[key]?.installedAt ?? Date.now(),
+      ...(registryTarget.source ? { registry: registryTarget.source } : {}),
+      items: items.map((item) => ({
+        slug: item.slug,
+        ...(item.versionPin ? { pin: item.versionPin } : {}),
+      })),
+    },
+  }
+  await writeLockfile(opts.workdir, lock)
+  return installed
+}
+
+async function confirmModeration(
+  slug: string,
+  moderation: { isSuspicious: boolean; isMalwareBlocked: boolean } | null | undefined,
+  force: boolean,
+  spinner: ReturnType<typeof createSpinner>,
+) {
+  // Check moderation status before proceeding
+  if (moderation?.isMalwareBlocked) {
+    spinner.fail(`Blocked: ${slug} is flagged as malicious`)
+    fail('This skill has been flagged as malware and cannot be installed.')
+  }
+
+  if (moderation?.isSuspicious && !force) {
+    spinner.stop()
+    console.log(
+      `\n⚠️  Warning: "${slug}" is flagged as suspicious by VirusTotal Code Insight.\n` +
+        '   This skill may contain risky patterns (crypto keys, external APIs, eval, etc.)\n' +
+        '   Review the skill code before use.\n',
+    )
+    if (isInteractive()) {
+      const confirm = await promptConfirm('Install anyway?')
+      if (!confirm) fail('Installation cancelled')
+      spinner.start(`Resolving ${slug}`)
+    } else {
+      fail('Use --force to install suspicious skills in non-interactive mode')
     }
-    await writeLockfile(opts.workdir, lock)
-    spinner.succeed(`OK. Installed ${trimmed} -> ${target}`)
-  } catch (error) {
-    spinner.fail(formatError(error))
-    throw error
   }
 }
 
+async function downloadSkillVersion(
+  opts: GlobalOpts,
+  { registry, token, source }: RegistryTarget,
+  slug: string,
+  version: string,
+) {
+  const target = join(opts.dir, slug)
+  const zip = await downloadZip(registry, { slug, version, token })
+  await extractZipToDir(zip, target)
+
+  await writeSkillOrigin(target, {
+    version: 1,
+    registry,
+    ...(source && !isRegistryUrl(source) ? { registryName: source } : {}),
+    slug,
+    installedVersion: version,
+    installedAt: Date.now(),
+  })
+  return toLockIntegrity(await hashInstalledSkill(target))
+}
+
+async function installSkillVersion(
+  opts: GlobalOpts,
+  registryTarget: RegistryTarget,
+  slug: string,
+  version: string,
+) {
+  const integrity = await downloadSkillVersion(opts, registryTarget, slug, version)
+  const lock = await readLockfile(opts.workdir)
+  lock.skills[slug] = withRegistrySource(
+    { version, installedAt: Date.now(), ...integrity },
+    registryTarget.source,
+  )
+  await writeLockfile(opts.workdir, lock)
+}
+
+function withRegistrySource(entry: LockfileEntry, source?: string): LockfileEntry {
+  return source ? { ...entry, registry: source } : entry
+}
+
+/**
+ * Restores exactly the skills recorded in the lockfile. With `frozen`, the
+ * lockfile is never rewritten and any disagreement between the lock, the local
+ * files and the registry fails the command.
+ */
+export async function cmdInstallFromLockfile(
+  opts: GlobalOpts,
+  options: { frozen?: boolean; force?: boolean } = {},
+) {
+  const frozen = Boolean(options.frozen)
+  const force = Boolean(options.force)
+  const lock = await readLockfile(opts.workdir)
+  const entries = Object.entries(lock.skills).filter(([slug, entry]) => {
+    if (entry.link) console.log(`${slug}: linked to ${entry.link.path}, skipped`)
+    return !entry.link
+  })
+  if (entries.length === 0) {
+    if (frozen) fail('No skills in lockfile')
+    console.log('No skills in lockfile.')
+    return
+  }
+  await mkdir(opts.dir, { recursive: true })
+
+  const problems: string[] = []
+  for (const [slug, entry] of entries) {
+    if (!isSafeSkillSlug(slug)) {
+      problems.push(`${slug}: invalid slug`)
+      continue
+    }
+    const version = entry.version
+    if (!version) {
+      problems.push(`${slug}: no locked version`)
+      continue
+    }
+    const spinner = createSpinner(`Checking ${slug}@${version}`)
+    try {
+      const registryTarget = await resolveRegistryTarget(opts, { slug, source: entry.registry })
+      const { registry, token } = registryTarget
+      const target = join(opts.dir, slug)
+
+      if (frozen) {
+        if (!entry.fingerprint || !entry.files) {
+          spinner.fail(`${slug}: no integrity recorded`)
+          problems.push(`${slug}: no integrity recorded (run clawhub install to upgrade the lockfile)`)
+          continue
+        }
+        const resolved = await resolveSkillVersion(registry, slug, entry.fingerprint, token)
+        const matched = resolved.match?.version ?? null
+        if (matched !== version) {
+          spinner.fail(`${slug}: registry disagrees with lock`)
+          problems.push(
+            matched
+              ? `${slug}@${version}: registry resolves the locked fingerprint to ${matched}`
+              : `${slug}@${version}: registry has no version with the locked fingerprint`,
+          )
+          continue
+        }
+        if (!(await fileExists(target))) {
+          spinner.text = `Downloading ${slug}@${version}`
+          await downloadSkillVersion(opts, registryTarget, slug, version)
+        }
+        const local = toLockIntegrity(await hashInstalledSkill(target))
+        if (local.fingerprint !== entry.fingerprint) {
+          spinner.fail(`${slug}: local files differ from lock`)
+          problems.push(`${slug}: ${diffLockedFiles(entry.files, local.files).join(', ')}`)
+          continue
+        }
+        spinner.succeed(`${slug}@${version}: verified`)
+        continue
+      }
+
+      if (await fileExists(target)) {
+        const local = toLockIntegrity(await hashInstalledSkill(target))
+        const matchesLock = entry.fingerprint
+          ? local.fingerprint === entry.fingerprint
+          : (await resolveSkillVersion(registry, slug, local.fingerprint, token)).match
+              ?.version === version
+        if (matchesLock) {
+          lock.skills[slug] = { ...entry, ...local }
+          spinner.succeed(`${slug}@${version}: up to date`)
+          continue
+        }
+        if (!force) {
+          spinner.fail(`${slug}: local changes (use --force to restore ${version})`)
+          problems.push(`${slug}: local changes (use --force to restore ${version})`)
+          continue
+        }
+        await rm(target, { recursive: true, force: true })
+      }
+
+      const skillMeta = await apiRequest(
+        registry,
+        { method: 'GET', path: `${ApiRoutes.skills}/${encodeURIComponent(slug)}`, token },
+        ApiV1SkillResponseSchema,
+      )
+      await confirmModeration(slug, skillMeta.moderation, force, spinner)
+      spinner.text = `Downloading ${slug}@${version}`
+      const integrity = await downloadSkillVersion(opts, registryTarget, slug, version)
+      if (entry.fingerprint && integrity.fingerprint !== entry.fingerprint) {
+        spinner.fail(`${slug}@${version}: downloaded files do not match the lock`)
+        problems.push(`${slug}: ${diffLockedFiles(entry.files ?? {}, integrity.files).join(', ')}`)
+        continue
+      }
+      lock.skills[slug] = { ...entry, ...integrity }
+      spinner.succeed(`${slug}@${version}: installed`)
+    } catch (error) {
+      spinner.fail(formatError(error))
+      throw error
+    }
+  }
+
+  if (!frozen) await writeLockfile(opts.workdir, lock)
+  if (problems.length > 0) {
+    fail(`Lockfile check failed:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`)
+  }
+  if (frozen) console.log(`OK. ${entries.length} skill(s) match the lockfile`)
+}
+
+async function resolveVersionInRange(
+  registry: string,
+  slug: string,
+  range: string | undefined,
+  latestVersion: { version: string } | null | undefined,
+  token?: string,
+) {
+  const latest = latestVersion?.version ?? null
+  if (!range) return latest
+  if (latest && satisfiesSkillVersionRange(latest, range)) return latest
+
+  const versions: string[] = []
+  let cursor: string | null = null
+  for (let page = 0; page < MAX_VERSION_PAGES; page += 1) {
+    const url = registryUrl(`${ApiRoutes.skills}/${encodeURIComponent(slug)}/versions`, registry)
+    url.searchParams.set('limit', '50')
+    if (cursor) url.searchParams.set('cursor', cursor)
+    const result = await apiRequest(
+      registry,
+      { method: 'GET', url: url.toString(), token },
+      ApiV1SkillVersionListResponseSchema,
+    )
+    versions.push(...result.items.map((item) => item.version))
+    cursor = result.nextCursor
+    if (!cursor) break
+  }
+  return findSatisfyingSkillVersion(versions, range)
+}
+
 export async function cmdUpdate(
   opts: GlobalOpts,
   slugArg: string | undefined,
@@ -160,11 +632,17 @@ export async function cmdUpdate(
   if (options.version && !semver.valid(options.version)) fail('--version must be valid semver')
   const allowPrompt = isInteractive() && inputAllowed
 
-  const token = await getOptionalAuthToken()
-
-  const registry = await getRegistry(opts, { cache: true })
+  if (all) await syncInstalledCollections(opts)
   const lock = await readLockfile(opts.workdir)
-  const slugs = slug ? [slug] : Object.keys(lock.skills).filter(isSafeSkillSlug)
+  const pins = collectionPins(lock)
+  const linkedPath = slug ? lock.skills[slug]?.link?.path : undefined
+  if (linkedPath) fail(`${slug} is linked to ${linkedPath} (run clawhub unlink ${slug} first)`)
+  // Linked skills are local working copies; there is nothing to update them to.
+  const slugs = slug
+    ? [slug]
+    : Object.keys(lock.skills).filter(
+        (entry) => isSafeSkillSlug(entry) && !lock.skills[entry]?.link,
+      )
   if (slugs.length === 0) {
     console.log('No installed skills.')
     return
@@ -173,6 +651,10 @@ export async function cmdUpdate(
   for (const entry of slugs) {
     const spinner = createSpinner(`Checking ${entry}`)
     try {
+      const { registry, token, source } = await resolveRegistryTarget(opts, {
+        slug: entry,
+        source: lock.skills[entry]?.registry,
+      })
       const target = join(opts.dir, entry)
       const exists = await fileExists(target)
 
@@ -209,14 +691,12 @@ export async function cmdUpdate(
         }
       }
 
-      let localFingerprint: string | null = null
+      let localHash: ReturnType<typeof toLockIntegrity> | null = null
       if (exists) {
-        const filesOnDisk = await listTextFiles(target)
-        if (filesOnDisk.length > 0) {
-          const hashed = hashSkillFiles(filesOnDisk)
-          localFingerprint = hashed.fingerprint
-        }
+        const hashed = await hashInstalledSkill(target)
+        if (hashed.files.length > 0) localHash = toLockIntegrity(hashed)
       }
+      const localFingerprint = localHash?.fingerprint ?? null
 
       let resolveResult: ResolveResult
       if (localFingerprint) {
@@ -228,11 +708,15 @@ export async function cmdUpdate(
       const latest = resolveResult.latestVersion?.version ?? null
       const matched = resolveResult.match?.version ?? null
 
-      if (matched && lock.skills[entry]?.version !== matched) {
-        lock.skills[entry] = {
-          version: matched,
-          installedAt: lock.skills[entry]?.installedAt ?? Date.now(),
-        }
+      if (matched && localHash) {
+        lock.skills[entry] = withRegistrySource(
+          {
+            version: matched,
+            installedAt: lock.skills[entry]?.installedAt ?? Date.now(),
+            ...localHash,
+          },
+          source,
+        )
       }
 
       if (!latest) {
@@ -240,6 +724,15 @@ export async function cmdUpdate(
         continue
       }
 
+      const pin = options.version ? undefined : pins.get(entry)
+      const targetVersion = pin
+        ? await resolveVersionInRange(registry, entry, pin, resolveResult.latestVersion, token)
+        : (options.version ?? latest)
+      if (!targetVersion) {
+        spinner.fail(`${entry}: no version matches collection pin ${pin}`)
+        continue
+      }
+
       if (!matched && localFingerprint && !options.force) {
         spinner.stop()
         if (!allowPrompt) {
@@ -247,17 +740,16 @@ export async function cmdUpdate(
           continue
         }
         const confirm = await promptConfirm(
-          `${entry}: local changes (no match). Overwrite with ${options.version ?? latest}?`,
+          `${entry}: local changes (no match). Overwrite with ${targetVersion}?`,
         )
         if (!confirm) {
           console.log(`${entry}: skipped`)
           continue
         }
-        spinner.start(`Updating ${entry} -> ${options.version ?? latest}`)
+        spinner.start(`Updating ${entry} -> ${targetVersion}`)
       }
 
-      const targetVersion = options.version ?? latest
-      if (options.version) {
+      if (options.version || pin) {
         if (matched && matched === targetVersion) {
           spinner.succeed(`${entry}: already at ${matched}`)
           continue
@@ -279,13 +771,21 @@ export async function cmdUpdate(
       const existingOrigin = await readSkillOrigin(target)
       await writeSkillOrigin(target, {
         version: 1,
-        registry: existingOrigin?.registry ?? registry,
+        registry,
+        ...(source && !isRegistryUrl(source) ? { registryName: source } : {}),
         slug: existingOrigin?.slug ?? entry,
         installedVersion: targetVersion,
         installedAt: existingOrigin?.installedAt ?? Date.now(),
       })
 
-      lock.skills[entry] = { version: targetVersion, installedAt: Date.now() }
+      lock.skills[entry] = withRegistrySource(
+        {
+          version: targetVersion,
+          installedAt: Date.now(),
+          ...toLockIntegrity(await hashInstalledSkill(target)),
+        },
+        source,
+      )
       spinner.succeed(`${entry}: updated -> ${targetVersion}`)
     } catch (error) {
       spinner.fail(formatError(error))
@@ -296,6 +796,32 @@ export async function cmdUpdate(
   await writeLockfile(opts.workdir, lock)
 }
 
+/** Installs members added to recorded collections since the last install or update. */
+async function syncInstalledCollections(opts: GlobalOpts) {
+  const collections = (await readLockfile(opts.workdir)).collections ?? {}
+  for (const [key, collection] of Object.entries(collections)) {
+    const [owner, name] = key.split('/')
+    if (!owner || !name) continue
+    const registryTarget = await resolveRegistryTarget(opts, { source: collection.registry })
+    const installed = await installCollectionMembers(opts, registryTarget, owner, name, {
+      force: false,
+      withDependencies: true,
+    })
+    if (installed > 0) console.log(`${key}: installed ${installed} new skill(s)`)
+  }
+}
+
+/** Version pins from recorded collections; when two collections pin a skill, the first wins. */
+function collectionPins(lock: Lockfile) {
+  const pins = new Map<string, string>()
+  for (const collection of Object.values(lock.collections ?? {})) {
+    for (const item of collection.items) {
+      if (item.pin && !pins.has(item.slug)) pins.set(item.slug, item.pin)
+    }
+  }
+  return pins
+}
+
 export async function cmdList(opts: GlobalOpts) {
   const lock = await readLockfile(opts.workdir)
   const entries = Object.entries(lock.skills)
@@ -304,7 +830,8 @@ export async function cmdList(opts: GlobalOpts) {
     return
   }
   for (const [slug, entry] of entries) {
-    console.log(`${slug}  ${entry.version ?? 'latest'}`)
+    if (entry.link) console.log(`${slug}  linked -> ${entry.link.path}`)
+    else console.log(`${slug}  ${entry.version ?? 'latest'}`)
   }
 }
 
@@ -347,7 +874,16 @@ export async function cmdUninstall(
   }
 }
 
-type ExploreSort = 'newest' | 'downloads' | 'rating' | 'installs' | 'installsAllTime' | 'trending'
+type ExploreSort =
+  | 'newest'
+  | 'downloads'
+  | 'rating'
+  | 'installs'
+  | 'installsAllTime'
+  | 'trending'
+  | 'rising'
+  | 'new'
+  | 'topMonth'
 type ApiExploreSort =
   | 'updated'
   | 'downloads'
@@ -355,6 +891,9 @@ type ApiExploreSort =
   | 'installsCurrent'
   | 'installsAllTime'
   | 'trending'
+  | 'rising'
+  | 'new'
+  | 'top-month'
 
 export async function cmdExplore(
   opts: GlobalOpts,
@@ -459,8 +998,17 @@ function resolveExploreSort(raw?: string): { sort: ExploreSort; apiSort: ApiExpl
   if (normalized === 'trending') {
     return { sort: 'trending', apiSort: 'trending' }
   }
+  if (normalized === 'rising') {
+    return { sort: 'rising', apiSort: 'rising' }
+  }
+  if (normalized === 'new') {
+    return { sort: 'new', apiSort: 'new' }
+  }
+  if (normalized === 'top-month' || normalized === 'topmonth') {
+    return { sort: 'topMonth', apiSort: 'top-month' }
+  }
   fail(
-    `Invalid sort "${raw}". Use newest, downloads, rating, installs, installsAllTime, or trending.`,
+    `Invalid sort "${raw}". Use newest, downloads, rating, installs, installsAllTime, trending, rising, new, or top-month.`,
   )
 }
 
@@ -21,7 +21,7 @@ export async function cmdStarSkill(
     if (!ok) return
   }
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
   const spinner = createSpinner(`Starring ${slug}`)
   try {
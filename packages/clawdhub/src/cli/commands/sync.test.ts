@@ -72,6 +72,7 @@ vi.mock('../../skills.js', async () => {
   const actual = await vi.importActual<typeof import('../../skills.js')>('../../skills.js')
   return {
     ...actual,
+    readLockfile: vi.fn(actual.readLockfile),
     listTextFiles: vi.fn(async (folder: string) => [
       { relPath: 'SKILL.md', bytes: new TextEncoder().encode(folder) },
     ]),
@@ -307,4 +308,35 @@ describe('cmdSync', () => {
     ).toBe(false)
     delete process.env.CLAWHUB_DISABLE_TELEMETRY
   })
+
+  it('leaves linked skills out of telemetry', async () => {
+    interactive = false
+    const { readLockfile } = await import('../../skills.js')
+    vi.mocked(readLockfile).mockResolvedValueOnce({
+      version: 2,
+      skills: {
+        'new-skill': {
+          version: null,
+          installedAt: 0,
+          link: { path: '/scan/new-skill', mode: 'symlink' },
+        },
+      },
+    })
+    mockApiRequest.mockImplementation(async (_registry: string, args: { path: string }) => {
+      if (args.path === '/api/v1/whoami') return { user: { handle: 'steipete' } }
+      if (args.path === '/api/cli/telemetry/sync') return { ok: true }
+      if (args.path.startsWith('/api/v1/resolve?')) {
+        return { match: { version: '1.0.0' }, latestVersion: { version: '1.0.0' } }
+      }
+      throw new Error(`Unexpected apiRequest: ${args.path}`)
+    })
+
+    await cmdSync(makeOpts(), { root: ['/scan'], all: true, dryRun: true }, true)
+
+    const telemetry = mockApiRequest.mock.calls.find(
+      (call) => call[1]?.path === '/api/cli/telemetry/sync',
+    )?.[1] as { body: { roots: Array<{ skills: Array<{ slug: string }> }> } } | undefined
+    const slugs = telemetry?.body.roots.flatMap((root) => root.skills.map((skill) => skill.slug))
+    expect(slugs).toEqual(['synced-skill', 'update-skill'])
+  })
 })
@@ -1,5 +1,5 @@
 import { intro, outro } from '@clack/prompts'
-import { hashSkillFiles, listTextFiles, readSkillOrigin } from '../../skills.js'
+import { hashSkillFiles, listTextFiles, readLockfile, readSkillOrigin } from '../../skills.js'
 import { resolveClawdbotSkillRoots } from '../clawdbotConfig.js'
 import { requireAuthToken } from '../authToken.js'
 import { getFallbackSkillRoots } from '../scanSkills.js'
@@ -32,7 +32,7 @@ export async function cmdSync(opts: GlobalOpts, options: SyncOptions, inputAllow
   const allowPrompt = isInteractive() && inputAllowed !== false
   intro('ClawHub sync')
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
 
   const registry = await getRegistryWithAuth(opts, token)
   const selectedRoots = buildScanRoots(opts, options.root)
@@ -121,11 +121,13 @@ export async function cmdSync(opts: GlobalOpts, options: SyncOptions, inputAllow
     candidatesSpinner.stop()
   }
 
+  const lock = await readLockfile(opts.workdir)
   await reportTelemetryIfEnabled({
     token,
     registry,
     scan: telemetryScan,
     candidates,
+    skipSlugs: new Set(Object.keys(lock.skills).filter((slug) => lock.skills[slug]?.link)),
   })
 
   const synced = candidates.filter((candidate) => candidate.status === 'synced')
@@ -25,6 +25,8 @@ export async function reportTelemetryIfEnabled(params: {
   registry: string
   scan: { roots: string[]; skillsByRoot: Record<string, SkillFolder[]> }
   candidates: Candidate[]
+  /** Slugs linked with `clawhub link`: local work in progress, not installs. */
+  skipSlugs?: Set<string>
 }) {
   if (isTelemetryDisabled()) return
   const versionBySlug = new Map<string, string | null>()
@@ -35,10 +37,12 @@ export async function reportTelemetryIfEnabled(params: {
   const roots = params.scan.roots.map((root) => ({
     rootId: rootTelemetryId(root),
     label: formatRootLabel(root),
-    skills: (params.scan.skillsByRoot[root] ?? []).map((skill) => ({
-      slug: skill.slug,
-      version: versionBySlug.get(skill.slug) ?? null,
-    })),
+    skills: (params.scan.skillsByRoot[root] ?? [])
+      .filter((skill) => !params.skipSlugs?.has(skill.slug))
+      .map((skill) => ({
+        slug: skill.slug,
+        version: versionBySlug.get(skill.slug) ?? null,
+      })),
   }))
 
   try {
@@ -21,7 +21,7 @@ export async function cmdUnstarSkill(
     if (!ok) return
   }
 
-  const token = await requireAuthToken()
+  const token = await requireAuthToken(opts)
   const registry = await getRegistry(opts, { cache: true })
   const spinner = createSpinner(`Unstarring ${slug}`)
   try {
@@ -0,0 +1,97 @@
+/* @vitest-environment node */
+
+import { mkdir, mkdtemp, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { GlobalOpts } from '../types'
+
+vi.mock('../ui.js', () => ({
+  fail: (message: string) => {
+    throw new Error(message)
+  },
+}))
+
+const { cmdValidate } = await import('./validate')
+
+const README = `---
+description: Rotate and audit SSH keys across a fleet of hosts.
+---
+# SSH key rotation
+
+Rotate SSH keys on every host listed in an inventory file, keeping the old key
+valid until the new one has been verified, then remove it and record an audit
+entry so reviewers can trace who changed which host and when.
+
+## Steps
+
+- Generate a fresh ed25519 key pair for each host group in the inventory.
+- Push the public key and confirm a login with the new key before continuing.
+- Remove the previous key only after the verification step has succeeded.
+- Write a summary with host, fingerprint, and timestamp to the audit log.
+`
+
+async function makeSkill(files: Record<string, string>) {
+  const workdir = await mkdtemp(join(tmpdir(), 'clawhub-validate-'))
+  const folder = join(workdir, 'ssh-rotate')
+  await mkdir(folder)
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(folder, name), content)
+  }
+  const opts: GlobalOpts = {
+    workdir,
+    dir: join(workdir, 'skills'),
+    site: 'https://clawhub.ai',
+    registry: 'https://clawhub.ai',
+    registrySource: 'default',
+  }
+  return opts
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('cmdValidate', () => {
+  it('prints the quality decision and passes a clean skill', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const opts = await makeSkill({ 'SKILL.md': README, 'logo.png': 'png' })
+
+    await cmdValidate(opts, 'ssh-rotate')
+
+    const output = log.mock.calls.map((call) => String(call[0]))
+    expect(output).toContain('warning: logo.png: Not a text file; publish leaves it out')
+    expect(output.some((line) => line.startsWith('Quality: pass'))).toBe(true)
+    expect(output).toContain('Capabilities: match (0 undeclared, 0 unused)')
+    expect(output.at(-1)).toBe('OK. ssh-rotate passes publish checks (1 warning(s))')
+  })
+
+  it('emits JSON and fails when publish would be rejected', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const opts = await makeSkill({ 'SKILL.md': '---\ndescription: Tiny.\n---\n# Tiny\n' })
+
+    await expect(cmdValidate(opts, 'ssh-rotate', { json: true })).rejects.toThrow(
+      /1 error\(s\)/,
+    )
+
+    const report = JSON.parse(String(log.mock.calls[0]?.[0])) as {
+      slug: string
+      ok: boolean
+      trustTier: string
+      quality: { decision: string }
+      problems: Array<{ level: string; file?: string }>
+    }
+    expect(report).toMatchObject({ slug: 'ssh-rotate', ok: false, trustTier: 'low' })
+    expect(report.quality.decision).toBe('reject')
+    expect(report.problems).toContainEqual(
+      expect.objectContaining({ level: 'error', file: 'SKILL.md' }),
+    )
+  })
+
+  it('rejects unknown trust tiers', async () => {
+    const opts = await makeSkill({ 'SKILL.md': README })
+    await expect(cmdValidate(opts, 'ssh-rotate', { trustTier: 'gold' })).rejects.toThrow(
+      /--trust-tier/,
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import { stat } from 'node:fs/promises'
+import { basename, resolve } from 'node:path'
+import {
+  type SkillValidationProblem,
+  type SkillValidationResult,
+  type TrustTier,
+  validateSkillFiles,
+} from '../../schema/index.js'
+import { listTextFiles } from '../../skills.js'
+import { sanitizeSlug } from '../slug.js'
+import type { GlobalOpts } from '../types.js'
+import { fail } from '../ui.js'
+
+const TRUST_TIERS = new Set<string>(['low', 'medium', 'trusted'])
+
+export async function cmdValidate(
+  opts: GlobalOpts,
+  folderArg: string,
+  options: { slug?: string; trustTier?: string; json?: boolean } = {},
+) {
+  const folder = folderArg ? resolve(opts.workdir, folderArg) : null
+  if (!folder) fail('Path required')
+  const folderStat = await stat(folder).catch(() => null)
+  if (!folderStat?.isDirectory()) fail('Path must be a folder')
+
+  const trustTier = (options.trustTier?.trim().toLowerCase() || 'low') as TrustTier
+  if (!TRUST_TIERS.has(trustTier)) fail('--trust-tier must be low, medium, or trusted')
+
+  const slug = options.slug?.trim().toLowerCase() || sanitizeSlug(basename(folder))
+  const result = await validateSkillFolder(folder, slug, trustTier)
+
+  if (options.json) {
+    console.log(JSON.stringify({ slug, path: folder, trustTier, ...result }, null, 2))
+  } else {
+    printValidation(slug, result)
+  }
+  const errors = result.problems.filter((problem) => problem.level === 'error').length
+  if (errors > 0) fail(`${slug}: ${errors} error(s); publish would fail`)
+}
+
+/** Runs the registry's publish checks against the files `clawhub publish` would upload. */
+export async function validateSkillFolder(folder: string, slug: string, trustTier?: TrustTier) {
+  const skipped: string[] = []
+  const files = await listTextFiles(folder, { onSkipped: (relPath) => skipped.push(relPath) })
+  const decoder = new TextDecoder()
+  const result = validateSkillFiles({
+    slug,
+    trustTier,
+    files: files.map((file) => ({
+      path: file.relPath,
+      size: file.bytes.byteLength,
+      contentType: file.contentType,
+      text: decoder.decode(file.bytes),
+    })),
+  })
+  const notes = skipped.map(
+    (relPath): SkillValidationProblem => ({
+      level: 'warning',
+      message: 'Not a text file; publish leaves it out',
+      file: relPath,
+    }),
+  )
+  return { ...result, problems: [...result.problems, ...notes] } satisfies SkillValidationResult
+}
+
+export function formatValidationProblem(problem: SkillValidationProblem) {
+  const location = problem.file
+    ? `${problem.file}${problem.line ? `:${problem.line}` : ''}: `
+    : ''
+  return `${problem.level}: ${location}${problem.message}`
+}
+
+function printValidation(slug: string, result: SkillValidationResult) {
+  for (const problem of result.problems) console.log(formatValidationProblem(problem))
+  const quality = result.quality
+  if (quality) {
+    const signals = quality.signals
+    console.log(
+      `Quality: ${quality.decision} (score ${quality.score}, ${quality.trustTier} trust) - ` +
+        `${signals.bodyWords} words, ${signals.headingCount} headings, ` +
+        `${signals.bulletCount} bullets, ${signals.templateMarkerHits} template phrases`,
+    )
+  }
+  const capabilities = result.capabilities
+  if (capabilities) {
+    console.log(
+      `Capabilities: ${capabilities.status === 'clean' ? 'match' : 'mismatch'} ` +
+        `(${capabilities.undeclared.length} undeclared, ${capabilities.unused.length} unused)`,
+    )
+  }
+  if (!result.ok) return
+  const warnings = result.problems.length
+  console.log(`OK. ${slug} passes publish checks${warnings ? ` (${warnings} warning(s))` : ''}`)
+}
@@ -0,0 +1,100 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import type { SkillDependency } from '../schema/index.js'
+import { type DependencySource, resolveSkillDependencies } from './dependencies'
+
+function makeSource(
+  graph: Record<string, Record<string, SkillDependency[]>>,
+  installed: Record<string, string> = {},
+): DependencySource {
+  return {
+    resolveVersion: async (slug, range) => {
+      const versions = Object.keys(graph[slug] ?? {})
+      const { maxSatisfying } = await import('semver')
+      return maxSatisfying(versions, range ?? '*')
+    },
+    getDependencies: async (slug, version) => graph[slug]?.[version] ?? [],
+    installedVersion: async (slug) => installed[slug],
+  }
+}
+
+describe('resolveSkillDependencies', () => {
+  it('returns transitive dependencies leaves first', async () => {
+    const source = makeSource({
+      app: { '1.0.0': [{ slug: 'gh', version: '^1.0.0' }, { slug: 'jq' }] },
+      gh: { '1.0.0': [], '1.2.0': [{ slug: 'jq', version: '>=2.0.0' }], '2.0.0': [] },
+      jq: { '2.1.0': [] },
+    })
+
+    const result = await resolveSkillDependencies({ slug: 'app', version: '1.0.0' }, source)
+
+    expect(result.map((entry) => `${entry.slug}@${entry.version}`)).toEqual([
+      'jq@2.1.0',
+      'gh@1.2.0',
+    ])
+    expect(result[0]?.requiredBy).toEqual(['gh@1.2.0', 'app@1.0.0'])
+  })
+
+  it('detects cycles', async () => {
+    const source = makeSource({
+      app: { '1.0.0': [{ slug: 'a' }] },
+      a: { '1.0.0': [{ slug: 'b' }] },
+      b: { '1.0.0': [{ slug: 'a' }] },
+    })
+
+    await expect(
+      resolveSkillDependencies({ slug: 'app', version: '1.0.0' }, source),
+    ).rejects.toThrow('Dependency cycle: a -> b -> a')
+  })
+
+  it('reports conflicting ranges with their requirers', async () => {
+    const source = makeSource({
+      app: { '1.0.0': [{ slug: 'a' }, { slug: 'b' }] },
+      a: { '1.0.0': [{ slug: 'shared', version: '^1.0.0' }] },
+      b: { '1.0.0': [{ slug: 'shared', version: '^2.0.0' }] },
+      shared: { '1.5.0': [], '2.0.0': [] },
+    })
+
+    await expect(
+      resolveSkillDependencies({ slug: 'app', version: '1.0.0' }, source),
+    ).rejects.toThrow(
+      'Conflicting requirements for shared: a@1.0.0 requires ^1.0.0, b@1.0.0 requires ^2.0.0',
+    )
+  })
+
+  it('reuses satisfying installs and rejects incompatible ones unless replacing', async () => {
+    const graph = {
+      app: { '1.0.0': [{ slug: 'gh', version: '^1.0.0' }] },
+      gh: { '1.3.0': [] },
+    }
+
+    const reused = await resolveSkillDependencies(
+      { slug: 'app', version: '1.0.0' },
+      makeSource(graph, { gh: '1.1.0' }),
+    )
+    expect(reused).toEqual([])
+
+    await expect(
+      resolveSkillDependencies({ slug: 'app', version: '1.0.0' }, makeSource(graph, { gh: '0.9.0' })),
+    ).rejects.toThrow(/0\.9\.0 is installed/)
+
+    const replaced = await resolveSkillDependencies(
+      { slug: 'app', version: '1.0.0' },
+      makeSource(graph, { gh: '0.9.0' }),
+      { replaceConflicting: true },
+    )
+    expect(replaced.map((entry) => entry.version)).toEqual(['1.3.0'])
+  })
+
+  it('fails when no published version satisfies a range', async () => {
+    const source = makeSource({
+      app: { '1.0.0': [{ slug: 'gh', version: '^3.0.0' }] },
+      gh: { '1.0.0': [] },
+    })
+
+    await expect(
+      resolveSkillDependencies({ slug: 'app', version: '1.0.0' }, source),
+    ).rejects.toThrow('No version of gh satisfies ^3.0.0 (required by app@1.0.0)')
+  })
+})
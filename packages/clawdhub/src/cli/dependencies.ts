@@ -0,0 +1,100 @@
+import { satisfiesSkillVersionRange, type SkillDependency } from '../schema/index.js'
+
+export type DependencySource = {
+  /** Highest published version of `slug` satisfying `range` (latest when no range). */
+  resolveVersion: (slug: string, range: string | undefined) => Promise<string | null>
+  getDependencies: (slug: string, version: string) => Promise<SkillDependency[]>
+  /** Version already present in the install dir, if any. */
+  installedVersion: (slug: string) => Promise<string | undefined>
+}
+
+export type ResolvedDependency = {
+  slug: string
+  version: string
+  requiredBy: string[]
+  installed: boolean
+}
+
+type Requirement = { by: string; range: string | undefined }
+
+function describeRequirements(requirements: Requirement[]) {
+  return requirements.map((entry) => `${entry.by} requires ${entry.range ?? '*'}`).join(', ')
+}
+
+/**
+ * Walks the skill dependency graph depth-first starting at `root`.
+ * Returns dependencies in install order (leaves first), excluding the root.
+ * Throws on cycles, unsatisfiable ranges, and conflicting requirements.
+ */
+export async function resolveSkillDependencies(
+  root: { slug: string; version: string },
+  source: DependencySource,
+  options: { replaceConflicting?: boolean } = {},
+): Promise<ResolvedDependency[]> {
+  const resolved = new Map<string, ResolvedDependency>()
+  const requirements = new Map<string, Requirement[]>()
+  const order: ResolvedDependency[] = []
+
+  const visit = async (slug: string, version: string, path: string[]) => {
+    const dependencies = await source.getDependencies(slug, version)
+    for (const dependency of dependencies) {
+      if (path.includes(dependency.slug)) {
+        const start = path.indexOf(dependency.slug)
+        throw new Error(`Dependency cycle: ${[...path.slice(start), dependency.slug].join(' -> ')}`)
+      }
+
+      const requirement = { by: `${slug}@${version}`, range: dependency.version }
+      const known = requirements.get(dependency.slug) ?? []
+      known.push(requirement)
+      requirements.set(dependency.slug, known)
+
+      const existing = resolved.get(dependency.slug)
+      if (existing) {
+        if (!satisfiesSkillVersionRange(existing.version, dependency.version)) {
+          throw new Error(
+            `Conflicting requirements for ${dependency.slug}: ${describeRequirements(known)}`,
+          )
+        }
+        existing.requiredBy.push(requirement.by)
+        continue
+      }
+
+      const installedVersion = await source.installedVersion(dependency.slug)
+      if (installedVersion && satisfiesSkillVersionRange(installedVersion, dependency.version)) {
+        resolved.set(dependency.slug, {
+          slug: dependency.slug,
+          version: installedVersion,
+          requiredBy: [requirement.by],
+          installed: true,
+        })
+        continue
+      }
+      if (installedVersion && !options.replaceConflicting) {
+        throw new Error(
+          `Conflicting requirements for ${dependency.slug}: ${installedVersion} is installed, ` +
+            `${describeRequirements(known)} (use --force to replace it)`,
+        )
+      }
+
+      const picked = await source.resolveVersion(dependency.slug, dependency.version)
+      if (!picked) {
+        throw new Error(
+          `No version of ${dependency.slug} satisfies ${dependency.version ?? '*'} ` +
+            `(required by ${requirement.by})`,
+        )
+      }
+      const entry: ResolvedDependency = {
+        slug: dependency.slug,
+        version: picked,
+        requiredBy: [requirement.by],
+        installed: false,
+      }
+      resolved.set(dependency.slug, entry)
+      await visit(dependency.slug, picked, [...path, dependency.slug])
+      order.push(entry)
+    }
+  }
+
+  await visit(root.slug, root.version, [root.slug])
+  return order
+}
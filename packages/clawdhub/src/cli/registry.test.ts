@@ -16,7 +16,8 @@ vi.mock('../discovery.js', () => ({
   discoverRegistryFromSite: (...args: unknown[]) => discoverRegistryFromSite(...args),
 }))
 
-const { DEFAULT_REGISTRY, getRegistry, resolveRegistry } = await import('./registry')
+const { DEFAULT_REGISTRY, getRegistry, matchRegistryRoute, resolveRegistry, resolveRegistryTarget } =
+  await import('./registry')
 
 function makeOpts(overrides: Partial<GlobalOpts> = {}): GlobalOpts {
   return {
@@ -61,3 +62,69 @@ describe('registry resolution', () => {
     })
   })
 })
+
+describe('named registries', () => {
+  const config = {
+    registry: DEFAULT_REGISTRY,
+    token: 'default-token',
+    registries: {
+      internal: { site: 'https://mirror.example', token: 'mirror-token' },
+      staging: { registry: 'https://staging-api.example' },
+    },
+    routes: [
+      { match: 'acme-*', registry: 'internal' },
+      { match: 'exact-skill', registry: 'staging' },
+    ],
+  }
+
+  it('matches exact slugs and prefix patterns', () => {
+    expect(matchRegistryRoute(config.routes, 'acme-tools')).toBe('internal')
+    expect(matchRegistryRoute(config.routes, 'exact-skill')).toBe('staging')
+    expect(matchRegistryRoute(config.routes, 'exact-skill-2')).toBeNull()
+    expect(matchRegistryRoute(undefined, 'acme-tools')).toBeNull()
+  })
+
+  it('routes slugs to named registries with their own token', async () => {
+    readGlobalConfig.mockResolvedValue(config)
+    discoverRegistryFromSite.mockResolvedValue({ apiBase: 'https://mirror-api.example' })
+
+    const target = await resolveRegistryTarget(makeOpts(), { slug: 'acme-tools' })
+
+    expect(discoverRegistryFromSite).toHaveBeenCalledWith('https://mirror.example')
+    expect(target).toEqual({
+      registry: 'https://mirror-api.example',
+      token: 'mirror-token',
+      source: 'internal',
+    })
+  })
+
+  it('never sends the default token to a named registry without one', async () => {
+    readGlobalConfig.mockResolvedValue(config)
+
+    const target = await resolveRegistryTarget(makeOpts(), { slug: 'exact-skill' })
+
+    expect(target).toEqual({ registry: 'https://staging-api.example', token: undefined, source: 'staging' })
+  })
+
+  it('prefers the recorded source over routes and falls back to the default registry', async () => {
+    readGlobalConfig.mockResolvedValue(config)
+    discoverRegistryFromSite.mockResolvedValue({ apiBase: DEFAULT_REGISTRY })
+
+    const recorded = await resolveRegistryTarget(makeOpts(), {
+      slug: 'acme-tools',
+      source: 'staging',
+    })
+    expect(recorded.registry).toBe('https://staging-api.example')
+
+    const fallback = await resolveRegistryTarget(makeOpts(), { slug: 'weather' })
+    expect(fallback).toEqual({ registry: DEFAULT_REGISTRY, token: 'default-token' })
+  })
+
+  it('fails clearly for unknown registry names', async () => {
+    readGlobalConfig.mockResolvedValue(config)
+
+    await expect(
+      resolveRegistryTarget(makeOpts(), { slug: 'demo', source: 'missing' }),
+    ).rejects.toThrow('Unknown registry "missing"')
+  })
+})
@@ -1,12 +1,25 @@
 import { readGlobalConfig, writeGlobalConfig } from '../config.js'
 import { discoverRegistryFromSite } from '../discovery.js'
+import type { GlobalConfig, RegistryRoute } from '../schema/index.js'
 import type { GlobalOpts } from './types.js'
 
 export const DEFAULT_SITE = 'https://clawhub.ai'
 export const DEFAULT_REGISTRY = 'https://clawhub.ai'
 const LEGACY_REGISTRY_HOSTS = new Set(['auth.clawdhub.com', 'auth.clawhub.com', 'auth.clawhub.ai'])
 
+export type RegistryTarget = {
+  registry: string
+  token?: string
+  /** Configured registry name or explicit URL; undefined for the default registry. */
+  source?: string
+}
+
 export async function resolveRegistry(opts: GlobalOpts) {
+  if (opts.registryName) {
+    const cfg = await readGlobalConfig()
+    return (await resolveNamedRegistry(cfg, opts.registryName)).registry
+  }
+
   const explicit = opts.registrySource !== 'default' ? opts.registry.trim() : ''
   if (explicit) return explicit
 
@@ -23,17 +36,75 @@ export async function resolveRegistry(opts: GlobalOpts) {
 export async function getRegistry(opts: GlobalOpts, params?: { cache?: boolean }) {
   const cache = params?.cache !== false
   const registry = await resolveRegistry(opts)
-  if (!cache) return registry
+  if (!cache || opts.registryName) return registry
   const cfg = await readGlobalConfig()
   const cached = cfg?.registry?.trim()
   const shouldUpdate =
     !cached ||
     isLegacyRegistry(cached) ||
     (cached === DEFAULT_REGISTRY && registry !== DEFAULT_REGISTRY)
-  if (shouldUpdate) await writeGlobalConfig({ registry, token: cfg?.token })
+  if (shouldUpdate) await writeGlobalConfig({ ...cfg, registry, token: cfg?.token })
   return registry
 }
 
+export function isRegistryUrl(value: string) {
+  return /^https?:\/\//i.test(value.trim())
+}
+
+/** Routes match an exact slug, or a prefix when the pattern ends with `*`. */
+export function matchRegistryRoute(routes: RegistryRoute[] | undefined, slug: string) {
+  for (const route of routes ?? []) {
+    const pattern = route.match.trim()
+    if (!pattern) continue
+    const matches = pattern.endsWith('*')
+      ? slug.startsWith(pattern.slice(0, -1))
+      : slug === pattern
+    if (matches) return route.registry
+  }
+  return null
+}
+
+export async function resolveNamedRegistry(cfg: GlobalConfig | null, name: string) {
+  const entry = cfg?.registries?.[name]
+  if (!entry) throw new Error(`Unknown registry "${name}" (see: clawhub registry list)`)
+  const explicit = entry.registry?.trim()
+  if (explicit) return { registry: explicit, token: entry.token }
+  const site = entry.site?.trim()
+  if (!site) throw new Error(`Registry "${name}" has no URL configured`)
+  const discovery = await discoverRegistryFromSite(site).catch(() => null)
+  return { registry: discovery?.apiBase?.trim() || site, token: entry.token }
+}
+
+/**
+ * Picks the registry (and matching token) for a skill. Precedence: the source
+ * recorded at install time, then an explicit --registry, then routing rules,
+ * then the default registry.
+ */
+export async function resolveRegistryTarget(
+  opts: GlobalOpts,
+  params: { slug?: string; source?: string } = {},
+): Promise<RegistryTarget> {
+  const cfg = await readGlobalConfig()
+  const recorded = params.source?.trim()
+  if (recorded) {
+    if (isRegistryUrl(recorded)) return { registry: recorded, token: cfg?.token, source: recorded }
+    return { ...(await resolveNamedRegistry(cfg, recorded)), source: recorded }
+  }
+
+  if (opts.registryName) {
+    return { ...(await resolveNamedRegistry(cfg, opts.registryName)), source: opts.registryName }
+  }
+  if (opts.registrySource !== 'default') {
+    const registry = opts.registry.trim()
+    return { registry, token: cfg?.token, source: registry }
+  }
+
+  const routed = params.slug ? matchRegistryRoute(cfg?.routes, params.slug) : null
+  if (routed) return { ...(await resolveNamedRegistry(cfg, routed)), source: routed }
+
+  return { registry: await getRegistry(opts, { cache: true }), token: cfg?.token ?? undefined }
+}
+
 function isLegacyRegistry(registry: string) {
   try {
     return LEGACY_REGISTRY_HOSTS.has(new URL(registry).hostname)
@@ -4,6 +4,8 @@ export type GlobalOpts = {
   site: string
   registry: string
   registrySource: 'cli' | 'env' | 'default'
+  /** Set when --registry names a configured registry instead of a URL. */
+  registryName?: string
 }
 
 export type ResolveResult = {
@@ -2,7 +2,8 @@ const TRUST_TIER_ACCOUNT_AGE_LOW_MS = 30 * 24 * 60 * 60 * 1000
 const TRUST_TIER_ACCOUNT_AGE_MEDIUM_MS = 90 * 24 * 60 * 60 * 1000
 const TRUST_TIER_SKILLS_LOW = 10
 const TRUST_TIER_SKILLS_MEDIUM = 50
-const TEMPLATE_MARKERS = [
+/** Stock phrases from generated skill templates; each hit lowers the quality score. */
+export const TEMPLATE_MARKERS = [
   'expert guidance for',
   'practical skill guidance',
   'step-by-step tutorials',
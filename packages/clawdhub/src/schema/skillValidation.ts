@@ -0,0 +1,364 @@
+import semver from 'semver'
+import { parseDocument } from 'yaml'
+import {
+  type CapabilityLintResult,
+  formatCapabilityReference,
+  lintSkillCapabilities,
+  readDeclaredCapabilities,
+} from './capabilities.js'
+import type { SkillDependency } from './schemas.js'
+import {
+  computeQualitySignals,
+  evaluateQuality,
+  type QualityAssessment,
+  TEMPLATE_MARKERS,
+  type TrustTier,
+} from './skillQuality.js'
+import { isTextContentType, TEXT_FILE_EXTENSION_SET } from './textFiles.js'
+
+export const SKILL_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+export const MAX_SKILL_BUNDLE_BYTES = 50 * 1024 * 1024
+export const MAX_SKILL_DEPENDENCIES = 32
+
+const METADATA_KEYS = ['clawdbot', 'clawdis', 'openclaw'] as const
+
+/** `error` fails publish; `warning` means the registry drops, ignores, or penalizes something. */
+export type SkillValidationProblem = {
+  level: 'error' | 'warning'
+  message: string
+  file?: string
+  line?: number
+}
+
+export type SkillValidationFile = {
+  path: string
+  size: number
+  contentType?: string
+  /** Needed for SKILL.md; other files without text are skipped by the capability lint. */
+  text?: string
+}
+
+export type SkillValidationResult = {
+  ok: boolean
+  problems: SkillValidationProblem[]
+  /** What the quality gate decides for a new skill; null when SKILL.md is missing. */
+  quality: QualityAssessment | null
+  /** Declared-vs-actual capability diff; null when SKILL.md is missing. */
+  capabilities: CapabilityLintResult | null
+}
+
+type AddProblem = (
+  level: SkillValidationProblem['level'],
+  message: string,
+  location?: { file?: string; line?: number },
+) => void
+
+export function sanitizeSkillPath(path: string) {
+  const trimmed = path.trim().replace(/^\/+/, '')
+  if (!trimmed || trimmed.includes('..') || trimmed.includes('\\')) {
+    return null
+  }
+  return trimmed
+}
+
+export function isMacJunkPath(path: string) {
+  const normalized = path
+    .trim()
+    .replaceAll('\\', '/')
+    .replace(/^\/+/, '')
+    .toLowerCase()
+  if (!normalized) return false
+  const segments = normalized.split('/').filter(Boolean)
+  if (segments.length === 0) return false
+  if (segments.includes('__macosx')) return true
+  const basename = segments.at(-1) ?? ''
+  if (basename === '.ds_store') return true
+  if (basename.startsWith('._')) return true
+  return false
+}
+
+export function isTextFile(path: string, contentType?: string | null) {
+  const trimmed = path.trim().toLowerCase()
+  if (!trimmed) return false
+  const parts = trimmed.split('.')
+  const extension = parts.length > 1 ? (parts.at(-1) ?? '') : ''
+  if (contentType) {
+    if (isTextContentType(contentType)) return true
+  }
+  if (extension && TEXT_FILE_EXTENSION_SET.has(extension)) return true
+  return false
+}
+
+export function isSkillReadmePath(path: string) {
+  const lower = path.toLowerCase()
+  return lower === 'skill.md' || lower === 'skills.md'
+}
+
+/** Accepts `slug`, `slug@range`, `{ slug, version }`, or a list of those. */
+export function parseSkillDependencyList(input: unknown): SkillDependency[] {
+  const items = typeof input === 'string' ? [input] : Array.isArray(input) ? input : []
+  return items
+    .map((item): SkillDependency | null => {
+      if (typeof item === 'string') {
+        const trimmed = item.trim()
+        const at = trimmed.indexOf('@')
+        if (at === -1) return { slug: trimmed.toLowerCase() }
+        const slug = trimmed.slice(0, at).trim().toLowerCase()
+        const version = trimmed.slice(at + 1).trim()
+        return version ? { slug, version } : { slug }
+      }
+      if (isRecord(item) && typeof item.slug === 'string') {
+        const dep: SkillDependency = { slug: item.slug.trim().toLowerCase() }
+        if (typeof item.version === 'string' && item.version.trim()) {
+          dep.version = item.version.trim()
+        }
+        return dep
+      }
+      return null
+    })
+    .filter((item): item is SkillDependency => item !== null && item.slug.length > 0)
+}
+
+/**
+ * Shape checks that don't need the registry: slug format, semver ranges,
+ * self-references and duplicates.
+ */
+export function findSkillDependencyProblems(slug: string, dependencies: SkillDependency[]) {
+  const problems: string[] = []
+  if (dependencies.length > MAX_SKILL_DEPENDENCIES) {
+    problems.push(`Too many skill dependencies (max ${MAX_SKILL_DEPENDENCIES})`)
+  }
+  const seen = new Set<string>()
+  for (const dependency of dependencies) {
+    if (!SKILL_SLUG_PATTERN.test(dependency.slug)) {
+      problems.push(`Invalid skill dependency slug: ${dependency.slug}`)
+    } else if (dependency.slug === slug) {
+      problems.push('A skill cannot depend on itself')
+    } else if (seen.has(dependency.slug)) {
+      problems.push(`Duplicate skill dependency: ${dependency.slug}`)
+    }
+    seen.add(dependency.slug)
+    if (dependency.version && !semver.validRange(dependency.version)) {
+      problems.push(
+        `Invalid version range for skill dependency ${dependency.slug}: ${dependency.version}`,
+      )
+    }
+  }
+  return problems
+}
+
+/**
+ * Range matching shared by the registry and the CLI. Uses semver's default prerelease rule: a
+ * prerelease only satisfies a range that names a prerelease of the same version. No range matches
+ * any version.
+ */
+export function satisfiesSkillVersionRange(version: string, range?: string | null) {
+  if (!semver.valid(version)) return false
+  return range ? semver.satisfies(version, range) : true
+}
+
+/** Highest valid version satisfying `range` (the highest overall when there is no range). */
+export function findSatisfyingSkillVersion(versions: string[], range?: string | null) {
+  const matching = versions.filter((version) => satisfiesSkillVersionRange(version, range))
+  return semver.rsort(matching)[0] ?? null
+}
+
+/**
+ * Runs the publish checks that need no account or registry state, so a skill
+ * can be gated before upload. The quality decision assumes a new skill from a
+ * publisher at `trustTier` (default `low`) with no similar recent uploads.
+ */
+export function validateSkillFiles(args: {
+  slug: string
+  files: SkillValidationFile[]
+  trustTier?: TrustTier
+}): SkillValidationResult {
+  const problems: SkillValidationProblem[] = []
+  const add: AddProblem = (level, message, location = {}) => {
+    problems.push({ level, message, ...location })
+  }
+  const done = (
+    quality: QualityAssessment | null,
+    capabilities: CapabilityLintResult | null = null,
+  ): SkillValidationResult => ({
+    ok: problems.every((problem) => problem.level !== 'error'),
+    problems,
+    quality,
+    capabilities,
+  })
+
+  const slug = args.slug.trim().toLowerCase()
+  if (!SKILL_SLUG_PATTERN.test(slug)) add('error', 'Slug must be lowercase and url-safe')
+
+  const publishFiles: Array<SkillValidationFile & { path: string }> = []
+  for (const file of args.files) {
+    const path = sanitizeSkillPath(file.path)
+    if (!path) {
+      add('error', 'Invalid file path', { file: file.path })
+      continue
+    }
+    if (isMacJunkPath(path)) continue
+    if (!isTextFile(path, file.contentType)) {
+      add('error', 'Only text-based files are allowed', { file: path })
+      continue
+    }
+    publishFiles.push({ ...file, path })
+  }
+
+  const totalBytes = publishFiles.reduce((sum, file) => sum + file.size, 0)
+  if (totalBytes > MAX_SKILL_BUNDLE_BYTES) add('error', 'Skill bundle exceeds 50MB limit')
+
+  const readme = publishFiles.find((file) => isSkillReadmePath(file.path))
+  if (!readme) {
+    add('error', 'SKILL.md is required')
+    return done(null)
+  }
+
+  const readmeText = (readme.text ?? '').replace(/\r\n/g, '\n').replace(/\r/g, '\n')
+  const lines = readmeText.split('\n')
+  const { fields, bodyStartLine } = readFrontmatter(readmeText, readme.path, add)
+  const findLine = (test: (line: string) => boolean, from = 1, to = lines.length) => {
+    for (let index = from - 1; index < Math.min(to, lines.length); index += 1) {
+      if (test(lines[index] ?? '')) return index + 1
+    }
+    return undefined
+  }
+  const frontmatterKeyLine = (key: string) =>
+    findLine((line) => new RegExp(`^\\s*${key}\\s*:`).test(line), 2, bodyStartLine - 1)
+
+  const metadata = readMetadata(fields.metadata, () =>
+    add(
+      'warning',
+      'Frontmatter `metadata` must be a YAML object (or a JSON string); it will be ignored',
+      { file: readme.path, line: frontmatterKeyLine('metadata') },
+    ),
+  )
+  const summary =
+    (typeof metadata?.description === 'string' ? metadata.description : undefined) ??
+    (typeof fields.description === 'string' ? fields.description : undefined)
+  if (Object.keys(fields).length > 0 && !summary?.trim()) {
+    add('warning', 'Frontmatter `description` is missing (used as the registry summary)', {
+      file: readme.path,
+      line: 1,
+    })
+  }
+
+  const block =
+    METADATA_KEYS.map((key) => metadata?.[key]).find(isRecord) ??
+    (isRecord(fields.clawdis) ? fields.clawdis : undefined)
+  if (block && isRecord(block.requires)) {
+    const dependencies = parseSkillDependencyList(block.requires.skills)
+    const line = frontmatterKeyLine('skills')
+    for (const message of findSkillDependencyProblems(slug, dependencies)) {
+      add('error', message, { file: readme.path, line })
+    }
+  }
+
+  const signals = computeQualitySignals({ readmeText, summary })
+  for (const marker of TEMPLATE_MARKERS) {
+    const line = findLine((text) => text.toLowerCase().includes(marker), bodyStartLine)
+    if (line) {
+      add('warning', `Template phrase "${marker}" lowers the quality score`, {
+        file: readme.path,
+        line,
+      })
+    }
+  }
+  if (signals.genericSummary) {
+    add('warning', 'Description is generic ("Expert guidance for …"); say what the skill does', {
+      file: readme.path,
+      line: frontmatterKeyLine('description'),
+    })
+  }
+
+  const capabilities = lintSkillCapabilities({
+    files: publishFiles.flatMap((file) =>
+      file.text === undefined ? [] : [{ path: file.path, text: file.text }],
+    ),
+    declared: readDeclaredCapabilities(block),
+  })
+  for (const reference of capabilities.undeclared) {
+    add('warning', formatCapabilityReference(reference), {
+      file: reference.file,
+      line: reference.line,
+    })
+  }
+  for (const entry of capabilities.unused) {
+    const key = entry.kind === 'bin' ? 'bins' : entry.kind
+    add('warning', `requires.${key} lists ${entry.name}, but no file references it`, {
+      file: readme.path,
+      line: frontmatterKeyLine(key),
+    })
+  }
+
+  const quality = evaluateQuality({
+    signals,
+    trustTier: args.trustTier ?? 'low',
+    similarRecentCount: 0,
+  })
+  if (quality.decision !== 'pass') {
+    add(quality.decision === 'reject' ? 'error' : 'warning', quality.reason, { file: readme.path })
+  }
+  return done(quality, capabilities)
+}
+
+function readFrontmatter(
+  text: string,
+  file: string,
+  add: AddProblem,
+): { fields: Record<string, unknown>; bodyStartLine: number } {
+  const empty = { fields: {}, bodyStartLine: 1 }
+  if (!text.startsWith('---')) {
+    add('warning', 'SKILL.md has no frontmatter; name, description, and metadata will be empty', {
+      file,
+      line: 1,
+    })
+    return empty
+  }
+  const endIndex = text.indexOf('\n---', 3)
+  if (endIndex === -1) {
+    add('warning', 'Frontmatter is never closed (missing `---`); it will be ignored', {
+      file,
+      line: 1,
+    })
+    return empty
+  }
+
+  const bodyStartLine = text.slice(0, endIndex + 1).split('\n').length + 1
+  const document = parseDocument(text.slice(4, endIndex))
+  const yamlError = document.errors[0]
+  if (yamlError) {
+    const reason = yamlError.message.split('\n')[0] ?? 'parse error'
+    add('warning', `Frontmatter is not valid YAML and will be ignored: ${reason}`, {
+      file,
+      line: (yamlError.linePos?.[0].line ?? 1) + 1,
+    })
+    return { fields: {}, bodyStartLine }
+  }
+  const parsed = document.toJS() as unknown
+  if (!isRecord(parsed)) {
+    add('warning', 'Frontmatter must be `key: value` pairs; it will be ignored', { file, line: 2 })
+    return { fields: {}, bodyStartLine }
+  }
+  return { fields: parsed, bodyStartLine }
+}
+
+function readMetadata(raw: unknown, onInvalid: () => void) {
+  if (raw === undefined || raw === null) return undefined
+  if (isRecord(raw)) return raw
+  if (typeof raw === 'string') {
+    try {
+      // Trailing commas are a common authoring mistake; the registry strips them too.
+      const parsed = JSON.parse(raw.replace(/,\s*([\]}])/g, '$1')) as unknown
+      if (isRecord(parsed)) return parsed
+    } catch {
+      // fall through
+    }
+  }
+  onInvalid()
+  return undefined
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
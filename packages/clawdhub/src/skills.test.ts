@@ -7,13 +7,16 @@ import { describe, expect, it } from 'vitest'
 import type { SkillOrigin } from './skills'
 import {
   buildSkillFingerprint,
+  diffLockedFiles,
   extractZipToDir,
+  hashInstalledSkill,
   hashSkillFiles,
   hashSkillZip,
   listTextFiles,
   readLockfile,
   readSkillOrigin,
   sha256Hex,
+  toLockIntegrity,
   writeLockfile,
   writeSkillOrigin,
 } from './skills'
@@ -37,11 +40,32 @@ describe('skills', () => {
   it('writes and reads lockfile', async () => {
     const workdir = await mkdtemp(join(tmpdir(), 'clawhub-work-'))
     await writeLockfile(workdir, {
-      version: 1,
-      skills: { demo: { version: '1.0.0', installedAt: 1 } },
+      version: 2,
+      skills: {
+        demo: { version: '1.0.0', installedAt: 1, fingerprint: 'fp', files: { 'SKILL.md': 'abc' } },
+      },
     })
     const read = await readLockfile(workdir)
     expect(read.skills.demo?.version).toBe('1.0.0')
+    expect(read.skills.demo?.files).toEqual({ 'SKILL.md': 'abc' })
+  })
+
+  it('migrates v1 lockfiles to v2', async () => {
+    const workdir = await mkdtemp(join(tmpdir(), 'clawhub-work-v1-'))
+    await mkdir(join(workdir, '.clawhub'), { recursive: true })
+    await writeFile(
+      join(workdir, '.clawhub', 'lock.json'),
+      JSON.stringify({
+        version: 1,
+        skills: { demo: { version: '1.0.0', installedAt: 1, registry: 'internal' } },
+      }),
+      'utf8',
+    )
+    const read = await readLockfile(workdir)
+    expect(read).toEqual({
+      version: 2,
+      skills: { demo: { version: '1.0.0', installedAt: 1, registry: 'internal' } },
+    })
   })
 
   it('returns empty lockfile on invalid json', async () => {
@@ -49,7 +73,7 @@ describe('skills', () => {
     await mkdir(join(workdir, '.clawhub'), { recursive: true })
     await writeFile(join(workdir, '.clawhub', 'lock.json'), '{', 'utf8')
     const read = await readLockfile(workdir)
-    expect(read).toEqual({ version: 1, skills: {} })
+    expect(read).toEqual({ version: 2, skills: {} })
   })
 
   it('returns empty lockfile on schema mismatch', async () => {
@@ -61,7 +85,27 @@ describe('skills', () => {
       'utf8',
     )
     const read = await readLockfile(workdir)
-    expect(read).toEqual({ version: 1, skills: {} })
+    expect(read).toEqual({ version: 2, skills: {} })
+  })
+
+  it('hashes installed skills without the registry _meta.json', async () => {
+    const workdir = await mkdtemp(join(tmpdir(), 'clawhub-installed-'))
+    await writeFile(join(workdir, 'SKILL.md'), 'hi', 'utf8')
+    await writeFile(join(workdir, '_meta.json'), '{}', 'utf8')
+
+    const hashed = await hashInstalledSkill(workdir)
+    const integrity = toLockIntegrity(hashed)
+
+    expect(Object.keys(integrity.files)).toEqual(['SKILL.md'])
+    expect(integrity.fingerprint).toBe(
+      buildSkillFingerprint([{ path: 'SKILL.md', sha256: sha256Hex(strToU8('hi')) }]),
+    )
+  })
+
+  it('describes file differences against the lock', () => {
+    expect(
+      diffLockedFiles({ 'SKILL.md': 'a', 'notes.md': 'b' }, { 'SKILL.md': 'x', 'extra.md': 'c' }),
+    ).toEqual(['modified SKILL.md', 'missing notes.md', 'added extra.md'])
   })
 
   it('skips dotfiles and node_modules when listing text files', async () => {
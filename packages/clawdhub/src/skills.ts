@@ -4,16 +4,26 @@ import { dirname, join, relative, resolve, sep } from 'node:path'
 import { unzipSync } from 'fflate'
 import ignore from 'ignore'
 import mime from 'mime'
-import { type Lockfile, LockfileSchema, parseArk, TEXT_FILE_EXTENSION_SET } from './schema/index.js'
+import {
+  type Lockfile,
+  LockfileSchema,
+  LockfileV1Schema,
+  parseArk,
+  TEXT_FILE_EXTENSION_SET,
+} from './schema/index.js'
 
 const DOT_DIR = '.clawhub'
 const LEGACY_DOT_DIR = '.clawdhub'
 const DOT_IGNORE = '.clawhubignore'
 const LEGACY_DOT_IGNORE = '.clawdhubignore'
+// Generated by the registry download endpoint; not part of the published version.
+const REGISTRY_META_FILE = '_meta.json'
 
 export type SkillOrigin = {
   version: 1
   registry: string
+  /** Configured registry name the skill was installed through, if any. */
+  registryName?: string
   slug: string
   installedVersion: string
   installedAt: number
@@ -31,7 +41,11 @@ export async function extractZipToDir(zipBytes: Uint8Array, targetDir: string) {
   }
 }
 
-export async function listTextFiles(root: string) {
+/** `onSkipped` sees files left out because they are not text (publish never uploads them). */
+export async function listTextFiles(
+  root: string,
+  options: { onSkipped?: (relPath: string) => void } = {},
+) {
   const files: Array<{ relPath: string; bytes: Uint8Array; contentType?: string }> = []
   const absRoot = resolve(root)
   const ig = ignore()
@@ -45,7 +59,10 @@ export async function listTextFiles(root: string) {
     if (!relPath) return
     if (ig.ignores(relPath)) return
     const ext = relPath.split('.').at(-1)?.toLowerCase() ?? ''
-    if (!ext || !TEXT_FILE_EXTENSION_SET.has(ext)) return
+    if (!ext || !TEXT_FILE_EXTENSION_SET.has(ext)) {
+      options.onSkipped?.(relPath)
+      return
+    }
     const buffer = await readFile(absPath)
     const contentType = mime.getType(relPath) ?? 'text/plain'
     files.push({ relPath, bytes: new Uint8Array(buffer), contentType })
@@ -92,18 +109,49 @@ export function hashSkillZip(zipBytes: Uint8Array) {
   return { files: hashed, fingerprint: buildSkillFingerprint(hashed) }
 }
 
+/** Hashes an installed skill folder the same way the registry fingerprints a version. */
+export async function hashInstalledSkill(skillFolder: string) {
+  const files = await listTextFiles(skillFolder)
+  return hashSkillFiles(files.filter((file) => file.relPath !== REGISTRY_META_FILE))
+}
+
+export function toLockIntegrity(hashed: { files: SkillFileHash[]; fingerprint: string }) {
+  const files: Record<string, string> = {}
+  for (const file of [...hashed.files].sort((a, b) => a.path.localeCompare(b.path))) {
+    files[file.path] = file.sha256
+  }
+  return { fingerprint: hashed.fingerprint, files }
+}
+
+export function diffLockedFiles(locked: Record<string, string>, actual: Record<string, string>) {
+  const changes: string[] = []
+  for (const [path, sha256] of Object.entries(locked)) {
+    if (!(path in actual)) changes.push(`missing ${path}`)
+    else if (actual[path] !== sha256) changes.push(`modified ${path}`)
+  }
+  for (const path of Object.keys(actual)) {
+    if (!(path in locked)) changes.push(`added ${path}`)
+  }
+  return changes
+}
+
 export async function readLockfile(workdir: string): Promise<Lockfile> {
   const paths = [join(workdir, DOT_DIR, 'lock.json'), join(workdir, LEGACY_DOT_DIR, 'lock.json')]
   for (const path of paths) {
     try {
       const raw = await readFile(path, 'utf8')
-      const parsed = JSON.parse(raw) as unknown
+      const parsed = JSON.parse(raw) as { version?: unknown }
+      if (parsed?.version === 1) {
+        // v1 entries are a subset of v2; integrity is filled in on the next install/update.
+        const legacy = parseArk(LockfileV1Schema, parsed, 'Lockfile')
+        return { version: 2, skills: legacy.skills }
+      }
       return parseArk(LockfileSchema, parsed, 'Lockfile')
     } catch {
       // try next
     }
   }
-  return { version: 1, skills: {} }
+  return { version: 2, skills: {} }
 }
 
 export async function writeLockfile(workdir: string, lock: Lockfile) {
@@ -129,6 +177,7 @@ export async function readSkillOrigin(skillFolder: string): Promise<SkillOrigin
       return {
         version: 1,
         registry: String(parsed.registry),
+        ...(parsed.registryName ? { registryName: String(parsed.registryName) } : {}),
         slug: String(parsed.slug),
         installedVersion: String(parsed.installedVersion),
         installedAt: parsed.installedAt,
@@ -0,0 +1,45 @@
+export type CapabilityKind = 'env' | 'bin' | 'host' | 'config';
+export type CapabilityReference = {
+    kind: CapabilityKind;
+    name: string;
+    file: string;
+    line: number;
+};
+/** What a skill says it needs, read from its `openclaw` (or `clawdis`) metadata block. */
+export type DeclaredCapabilities = {
+    env: string[];
+    bins: string[];
+    hosts: string[];
+    config: string[];
+};
+export type CapabilityLintResult = {
+    /** `mismatch` when the bundle uses something it does not declare. */
+    status: 'clean' | 'mismatch';
+    /** First use of each undeclared env var, binary, host, or config path. */
+    undeclared: CapabilityReference[];
+    /** Declared env vars, binaries, and config paths the bundle never mentions. */
+    unused: Array<{
+        kind: CapabilityKind;
+        name: string;
+    }>;
+};
+export declare const MAX_CAPABILITY_FINDINGS = 50;
+export declare function readDeclaredCapabilities(metadata: unknown): DeclaredCapabilities;
+/**
+ * Static scan of a bundle: env vars read by code or shell snippets, binaries
+ * invoked from shell snippets or subprocess calls, hosts in URLs inside code,
+ * and dot-paths under the home directory. Markdown prose is ignored; only
+ * fenced code blocks count.
+ */
+export declare function extractCapabilityReferences(files: Array<{
+    path: string;
+    text: string;
+}>): CapabilityReference[];
+export declare function lintSkillCapabilities(args: {
+    files: Array<{
+        path: string;
+        text: string;
+    }>;
+    declared: DeclaredCapabilities;
+}): CapabilityLintResult;
+export declare function formatCapabilityReference(reference: CapabilityReference): string;
@@ -1,5 +1,8 @@
 export type { ArkValidator } from './ark.js';
 export { formatArkErrors, parseArk } from './ark.js';
+export * from './capabilities.js';
 export { ApiRoutes, LegacyApiRoutes } from './routes.js';
 export * from './schemas.js';
+export * from './skillQuality.js';
+export * from './skillValidation.js';
 export * from './textFiles.js';
@@ -1,5 +1,8 @@
 export { formatArkErrors, parseArk } from './ark.js';
+export * from './capabilities.js';
 export { ApiRoutes, LegacyApiRoutes } from './routes.js';
 export * from './schemas.js';
+export * from './skillQuality.js';
+export * from './skillValidation.js';
 export * from './textFiles.js';
 //# sourceMappingURL=index.js.map
\ No newline at end of file
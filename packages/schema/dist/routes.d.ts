@@ -16,7 +16,11 @@ export declare const ApiRoutes: {
     readonly download: "/api/v1/download";
     readonly skills: "/api/v1/skills";
     readonly stars: "/api/v1/stars";
+    readonly collections: "/api/v1/collections";
+    readonly notifications: "/api/v1/notifications";
+    readonly emailUnsubscribe: "/api/v1/email/unsubscribe";
     readonly souls: "/api/v1/souls";
     readonly users: "/api/v1/users";
     readonly whoami: "/api/v1/whoami";
+    readonly webhooks: "/api/v1/webhooks";
 };
@@ -16,8 +16,12 @@ export const ApiRoutes = {
     download: '/api/v1/download',
     skills: '/api/v1/skills',
     stars: '/api/v1/stars',
+    collections: '/api/v1/collections',
+    notifications: '/api/v1/notifications',
+    emailUnsubscribe: '/api/v1/email/unsubscribe',
     souls: '/api/v1/souls',
     users: '/api/v1/users',
     whoami: '/api/v1/whoami',
+    webhooks: '/api/v1/webhooks',
 };
 //# sourceMappingURL=routes.js.map
\ No newline at end of file
@@ -1,7 +1,29 @@
 import { type inferred } from 'arktype';
+export declare const RegistrySourceSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    site?: string | undefined;
+    registry?: string | undefined;
+    token?: string | undefined;
+}, {}>;
+export type RegistrySource = (typeof RegistrySourceSchema)[inferred];
+export declare const RegistryRouteSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    match: string;
+    registry: string;
+}, {}>;
+export type RegistryRoute = (typeof RegistryRouteSchema)[inferred];
 export declare const GlobalConfigSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     registry: string;
     token?: string | undefined;
+    registries?: {
+        [x: string]: {
+            site?: string | undefined;
+            registry?: string | undefined;
+            token?: string | undefined;
+        };
+    } | undefined;
+    routes?: {
+        match: string;
+        registry: string;
+    }[] | undefined;
 }, {}>;
 export type GlobalConfig = (typeof GlobalConfigSchema)[inferred];
 export declare const WellKnownConfigSchema: import("arktype/internal/variants/object.ts").ObjectType<{
@@ -14,15 +36,68 @@ export declare const WellKnownConfigSchema: import("arktype/internal/variants/ob
     minCliVersion?: string | undefined;
 }, {}>;
 export type WellKnownConfig = (typeof WellKnownConfigSchema)[inferred];
-export declare const LockfileSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+export declare const LockfileV1Schema: import("arktype/internal/variants/object.ts").ObjectType<{
     version: 1;
     skills: {
         [x: string]: {
             version: string | null;
             installedAt: number;
+            registry?: string | undefined;
         };
     };
 }, {}>;
+export type LockfileV1 = (typeof LockfileV1Schema)[inferred];
+export declare const LockfileEntrySchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    version: string | null;
+    installedAt: number;
+    registry?: string | undefined;
+    fingerprint?: string | undefined;
+    files?: {
+        [x: string]: string;
+    } | undefined;
+    link?: {
+        path: string;
+        mode: "symlink" | "copy";
+    } | undefined;
+}, {}>;
+export type LockfileEntry = (typeof LockfileEntrySchema)[inferred];
+export declare const LockfileCollectionSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    installedAt: number;
+    items: {
+        slug: string;
+        pin?: string | undefined;
+    }[];
+    registry?: string | undefined;
+}, {}>;
+export type LockfileCollection = (typeof LockfileCollectionSchema)[inferred];
+export declare const LockfileSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    version: 2;
+    skills: {
+        [x: string]: {
+            version: string | null;
+            installedAt: number;
+            registry?: string | undefined;
+            fingerprint?: string | undefined;
+            files?: {
+                [x: string]: string;
+            } | undefined;
+            link?: {
+                path: string;
+                mode: "symlink" | "copy";
+            } | undefined;
+        };
+    };
+    collections?: {
+        [x: string]: {
+            installedAt: number;
+            items: {
+                slug: string;
+                pin?: string | undefined;
+            }[];
+            registry?: string | undefined;
+        };
+    } | undefined;
+}, {}>;
 export type Lockfile = (typeof LockfileSchema)[inferred];
 export declare const ApiCliWhoamiResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     user: {
@@ -92,6 +167,9 @@ export declare const CliPublishRequestSchema: import("arktype/internal/variants/
         slug: string;
         version?: string | undefined;
     } | undefined;
+    org?: string | undefined;
+    visibility?: "public" | "unlisted" | "private" | undefined;
+    dryRun?: boolean | undefined;
 }, {}>;
 export type CliPublishRequest = (typeof CliPublishRequestSchema)[inferred];
 export declare const ApiCliPublishResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
@@ -135,6 +213,40 @@ export declare const ApiV1WhoamiResponseSchema: import("arktype/internal/variant
         image?: string | null | undefined;
     };
 }, {}>;
+export declare const ApiV1UserSearchResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    items: {
+        userId: string;
+        handle: string | null;
+        displayName?: string | null | undefined;
+        name?: string | null | undefined;
+        role?: "user" | "admin" | "moderator" | null | undefined;
+    }[];
+    total: number;
+}, {}>;
+export declare const ApiV1SearchFacetValuesSchema: import("arktype/internal/variants/array.ts").ArrayType<{
+    value: string;
+    count: number;
+}[], {}>;
+export declare const ApiV1SearchExplainSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    vector: {
+        score: number;
+        rank: number;
+        contribution: number;
+    } | null;
+    bm25: {
+        score: number;
+        rank: number;
+        contribution: number;
+        terms: {
+            term: string;
+            score: number;
+        }[];
+    } | null;
+    lexicalBoost: number;
+    popularity: number;
+    total: number;
+}, {}>;
+export type ApiV1SearchExplain = (typeof ApiV1SearchExplainSchema)[inferred];
 export declare const ApiV1SearchResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     results: {
         score: number;
@@ -143,7 +255,56 @@ export declare const ApiV1SearchResponseSchema: import("arktype/internal/variant
         summary?: string | null | undefined;
         version?: string | null | undefined;
         updatedAt?: number | undefined;
+        explain?: {
+            vector: {
+                score: number;
+                rank: number;
+                contribution: number;
+            } | null;
+            bm25: {
+                score: number;
+                rank: number;
+                contribution: number;
+                terms: {
+                    term: string;
+                    score: number;
+                }[];
+            } | null;
+            lexicalBoost: number;
+            popularity: number;
+            total: number;
+        } | undefined;
     }[];
+    facets?: {
+        os: {
+            value: string;
+            count: number;
+        }[];
+        bins: {
+            value: string;
+            count: number;
+        }[];
+        env: {
+            value: string;
+            count: number;
+        }[];
+        install: {
+            value: string;
+            count: number;
+        }[];
+        nix: {
+            value: string;
+            count: number;
+        }[];
+        badges: {
+            value: string;
+            count: number;
+        }[];
+        owner: {
+            value: string;
+            count: number;
+        }[];
+    } | undefined;
 }, {}>;
 export declare const ApiV1SkillListResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     items: {
@@ -171,6 +332,7 @@ export declare const ApiV1SkillResponseSchema: import("arktype/internal/variants
         createdAt: number;
         updatedAt: number;
         summary?: string | null | undefined;
+        visibility?: "public" | "unlisted" | "private" | undefined;
     } | null;
     latestVersion: {
         version: string;
@@ -182,6 +344,10 @@ export declare const ApiV1SkillResponseSchema: import("arktype/internal/variants
         displayName?: string | null | undefined;
         image?: string | null | undefined;
     } | null;
+    org?: {
+        handle: string;
+        displayName: string;
+    } | null | undefined;
 }, {}>;
 export declare const ApiV1SkillVersionListResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     items: {
@@ -192,6 +358,17 @@ export declare const ApiV1SkillVersionListResponseSchema: import("arktype/intern
     }[];
     nextCursor: string | null;
 }, {}>;
+export declare const SkillDependencySchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    slug: string;
+    version?: string | undefined;
+}, {}>;
+export type SkillDependency = (typeof SkillDependencySchema)[inferred];
+export declare const SecurityStatusSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    status: "clean" | "suspicious" | "malicious" | "pending" | "error";
+    hasWarnings: boolean;
+    checkedAt: number | null;
+    model: string | null;
+}, {}>;
 export declare const ApiV1SkillVersionResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     version: {
         version: string;
@@ -199,6 +376,16 @@ export declare const ApiV1SkillVersionResponseSchema: import("arktype/internal/v
         changelog: string;
         changelogSource?: "user" | "auto" | null | undefined;
         files?: unknown;
+        dependencies?: {
+            slug: string;
+            version?: string | undefined;
+        }[] | undefined;
+        security?: {
+            status: "clean" | "suspicious" | "malicious" | "pending" | "error";
+            hasWarnings: boolean;
+            checkedAt: number | null;
+            model: string | null;
+        } | undefined;
     } | null;
     skill: {
         slug: string;
@@ -218,6 +405,58 @@ export declare const ApiV1PublishResponseSchema: import("arktype/internal/varian
     skillId: string;
     versionId: string;
 }, {}>;
+export declare const ApiV1PublishPreviewResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    ok: true;
+    dryRun: true;
+    slug: string;
+    version: string;
+    quality: {
+        decision: "reject" | "pass" | "quarantine";
+        score: number;
+        reason: string;
+        trustTier: string;
+    } | null;
+    moderation: {
+        status: "active" | "hidden";
+        reason: string;
+        flags: string[];
+    };
+    scanResults: {
+        scanner: string;
+        label: string;
+        verdict: string;
+        findings: {
+            ruleId: string;
+            severity: string;
+            message: string;
+            flag?: string | undefined;
+            file?: string | undefined;
+            line?: number | undefined;
+            excerpt?: string | undefined;
+        }[];
+        summary?: string | undefined;
+    }[];
+    capabilityLint?: {
+        status: "clean" | "mismatch";
+        undeclared: {
+            kind: string;
+            name: string;
+            file: string;
+            line: number;
+        }[];
+        unused: {
+            kind: string;
+            name: string;
+        }[];
+    } | undefined;
+    llmAnalysis?: {
+        status: string;
+        verdict?: string | undefined;
+        confidence?: string | undefined;
+        summary?: string | undefined;
+    } | null | undefined;
+}, {}>;
+export type ApiV1PublishPreviewResponse = (typeof ApiV1PublishPreviewResponseSchema)[inferred];
 export declare const ApiV1DeleteResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     ok: true;
 }, {}>;
@@ -235,6 +474,103 @@ export declare const ApiV1UnstarResponseSchema: import("arktype/internal/variant
     unstarred: boolean;
     alreadyUnstarred: boolean;
 }, {}>;
+export declare const ApiV1CollectionSummarySchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    owner: string | null;
+    name: string;
+    displayName: string;
+    description: string | null;
+    itemCount: number;
+    updatedAt: number;
+}, {}>;
+export declare const ApiV1CollectionListResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    items: {
+        owner: string | null;
+        name: string;
+        displayName: string;
+        description: string | null;
+        itemCount: number;
+        updatedAt: number;
+    }[];
+}, {}>;
+export declare const ApiV1CollectionResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    collection: {
+        owner: string | null;
+        name: string;
+        displayName: string;
+        description: string | null;
+        itemCount: number;
+        updatedAt: number;
+    };
+    items: {
+        slug: string;
+        displayName: string;
+        summary: string | null;
+        note: string | null;
+        versionPin: string | null;
+        latestVersion: string | null;
+    }[];
+}, {}>;
+export declare const ApiV1NotificationSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    id: string;
+    kind: string;
+    title: string;
+    body: string | null;
+    url: string | null;
+    createdAt: number;
+    readAt: number | null;
+}, {}>;
+export declare const ApiV1NotificationListResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    items: {
+        id: string;
+        kind: string;
+        title: string;
+        body: string | null;
+        url: string | null;
+        createdAt: number;
+        readAt: number | null;
+    }[];
+    unreadCount: number;
+}, {}>;
+export declare const ApiV1NotificationsReadResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    ok: true;
+    updated: number;
+}, {}>;
+export declare const ApiV1AppealSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    id: string;
+    status: "open" | "accepted" | "rejected" | "changes_requested";
+    message: string;
+    response: string | null;
+    createdAt: number;
+    resolvedAt: number | null;
+}, {}>;
+export type ApiV1Appeal = (typeof ApiV1AppealSchema)[inferred];
+export declare const ApiV1AppealStateResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    decision: {
+        kind: string;
+        label: string;
+        reason: string | null;
+    } | null;
+    canAppeal: boolean;
+    appeal: {
+        id: string;
+        status: "open" | "accepted" | "rejected" | "changes_requested";
+        message: string;
+        response: string | null;
+        createdAt: number;
+        resolvedAt: number | null;
+    } | null;
+}, {}>;
+export declare const ApiV1AppealResponseSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    ok: true;
+    appeal: {
+        id: string;
+        status: "open" | "accepted" | "rejected" | "changes_requested";
+        message: string;
+        response: string | null;
+        createdAt: number;
+        resolvedAt: number | null;
+    };
+}, {}>;
 export declare const SkillInstallSpecSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     kind: "brew" | "node" | "go" | "uv";
     id?: string | undefined;
@@ -262,8 +598,34 @@ export declare const ClawdisRequiresSchema: import("arktype/internal/variants/ob
     anyBins?: string[] | undefined;
     env?: string[] | undefined;
     config?: string[] | undefined;
+    hosts?: string[] | undefined;
+    skills?: {
+        slug: string;
+        version?: string | undefined;
+    }[] | undefined;
 }, {}>;
 export type ClawdisRequires = (typeof ClawdisRequiresSchema)[inferred];
+export declare const EnvVarDeclarationSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    name: string;
+    required?: boolean | undefined;
+    description?: string | undefined;
+}, {}>;
+export type EnvVarDeclaration = (typeof EnvVarDeclarationSchema)[inferred];
+export declare const DependencyDeclarationSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    name: string;
+    type: "brew" | "go" | "pip" | "npm" | "cargo" | "apt" | "other";
+    version?: string | undefined;
+    url?: string | undefined;
+    repository?: string | undefined;
+}, {}>;
+export type DependencyDeclaration = (typeof DependencyDeclarationSchema)[inferred];
+export declare const SkillLinksSchema: import("arktype/internal/variants/object.ts").ObjectType<{
+    homepage?: string | undefined;
+    repository?: string | undefined;
+    documentation?: string | undefined;
+    changelog?: string | undefined;
+}, {}>;
+export type SkillLinks = (typeof SkillLinksSchema)[inferred];
 export declare const ClawdisSkillMetadataSchema: import("arktype/internal/variants/object.ts").ObjectType<{
     always?: boolean | undefined;
     skillKey?: string | undefined;
@@ -277,6 +639,11 @@ export declare const ClawdisSkillMetadataSchema: import("arktype/internal/varian
         anyBins?: string[] | undefined;
         env?: string[] | undefined;
         config?: string[] | undefined;
+        hosts?: string[] | undefined;
+        skills?: {
+            slug: string;
+            version?: string | undefined;
+        }[] | undefined;
     } | undefined;
     install?: {
         kind: "brew" | "node" | "go" | "uv";
@@ -297,5 +664,24 @@ export declare const ClawdisSkillMetadataSchema: import("arktype/internal/varian
         stateDirs?: string[] | undefined;
         example?: string | undefined;
     } | undefined;
+    envVars?: {
+        name: string;
+        required?: boolean | undefined;
+        description?: string | undefined;
+    }[] | undefined;
+    dependencies?: {
+        name: string;
+        type: "brew" | "go" | "pip" | "npm" | "cargo" | "apt" | "other";
+        version?: string | undefined;
+        url?: string | undefined;
+        repository?: string | undefined;
+    }[] | undefined;
+    author?: string | undefined;
+    links?: {
+        homepage?: string | undefined;
+        repository?: string | undefined;
+        documentation?: string | undefined;
+        changelog?: string | undefined;
+    } | undefined;
 }, {}>;
 export type ClawdisSkillMetadata = (typeof ClawdisSkillMetadataSchema)[inferred];
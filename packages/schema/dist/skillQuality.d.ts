@@ -0,0 +1,33 @@
+/** Stock phrases from generated skill templates; each hit lowers the quality score. */
+export declare const TEMPLATE_MARKERS: readonly ["expert guidance for", "practical skill guidance", "step-by-step tutorials", "tips and techniques", "project ideas", "resource recommendations", "help with this skill", "learning guidance"];
+export type TrustTier = 'low' | 'medium' | 'trusted';
+export type QualitySignals = {
+    bodyChars: number;
+    bodyWords: number;
+    uniqueWordRatio: number;
+    headingCount: number;
+    bulletCount: number;
+    templateMarkerHits: number;
+    genericSummary: boolean;
+    cjkChars: number;
+    structuralFingerprint: string;
+};
+export type QualityAssessment = {
+    score: number;
+    decision: 'pass' | 'quarantine' | 'reject';
+    reason: string;
+    trustTier: TrustTier;
+    similarRecentCount: number;
+    signals: Omit<QualitySignals, 'structuralFingerprint'>;
+};
+export declare function toStructuralFingerprint(markdown: string): string;
+export declare function getTrustTier(accountAgeMs: number, totalSkills: number): TrustTier;
+export declare function computeQualitySignals(args: {
+    readmeText: string;
+    summary: string | null | undefined;
+}): QualitySignals;
+export declare function evaluateQuality(args: {
+    signals: QualitySignals;
+    trustTier: TrustTier;
+    similarRecentCount: number;
+}): QualityAssessment;
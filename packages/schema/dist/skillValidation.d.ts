@@ -0,0 +1,57 @@
+import { type CapabilityLintResult } from './capabilities.js';
+import type { SkillDependency } from './schemas.js';
+import { type QualityAssessment, type TrustTier } from './skillQuality.js';
+export declare const SKILL_SLUG_PATTERN: RegExp;
+export declare const MAX_SKILL_BUNDLE_BYTES: number;
+export declare const MAX_SKILL_DEPENDENCIES = 32;
+/** `error` fails publish; `warning` means the registry drops, ignores, or penalizes something. */
+export type SkillValidationProblem = {
+    level: 'error' | 'warning';
+    message: string;
+    file?: string;
+    line?: number;
+};
+export type SkillValidationFile = {
+    path: string;
+    size: number;
+    contentType?: string;
+    /** Needed for SKILL.md; other files without text are skipped by the capability lint. */
+    text?: string;
+};
+export type SkillValidationResult = {
+    ok: boolean;
+    problems: SkillValidationProblem[];
+    /** What the quality gate decides for a new skill; null when SKILL.md is missing. */
+    quality: QualityAssessment | null;
+    /** Declared-vs-actual capability diff; null when SKILL.md is missing. */
+    capabilities: CapabilityLintResult | null;
+};
+export declare function sanitizeSkillPath(path: string): string | null;
+export declare function isMacJunkPath(path: string): boolean;
+export declare function isTextFile(path: string, contentType?: string | null): boolean;
+export declare function isSkillReadmePath(path: string): boolean;
+/** Accepts `slug`, `slug@range`, `{ slug, version }`, or a list of those. */
+export declare function parseSkillDependencyList(input: unknown): SkillDependency[];
+/**
+ * Shape checks that don't need the registry: slug format, semver ranges,
+ * self-references and duplicates.
+ */
+export declare function findSkillDependencyProblems(slug: string, dependencies: SkillDependency[]): string[];
+/**
+ * Range matching shared by the registry and the CLI. Uses semver's default prerelease rule: a
+ * prerelease only satisfies a range that names a prerelease of the same version. No range matches
+ * any version.
+ */
+export declare function satisfiesSkillVersionRange(version: string, range?: string | null): boolean;
+/** Highest valid version satisfying `range` (the highest overall when there is no range). */
+export declare function findSatisfyingSkillVersion(versions: string[], range?: string | null): string;
+/**
+ * Runs the publish checks that need no account or registry state, so a skill
+ * can be gated before upload. The quality decision assumes a new skill from a
+ * publisher at `trustTier` (default `low`) with no similar recent uploads.
+ */
+export declare function validateSkillFiles(args: {
+    slug: string;
+    files: SkillValidationFile[];
+    trustTier?: TrustTier;
+}): SkillValidationResult;
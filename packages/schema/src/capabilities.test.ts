@@ -0,0 +1,105 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  extractCapabilityReferences,
+  lintSkillCapabilities,
+  readDeclaredCapabilities,
+} from './capabilities'
+
+const SKILL_MD = `---
+name: todoist
+metadata:
+  openclaw:
+    requires:
+      env: [TODOIST_API_KEY, UNUSED_TOKEN]
+      bins: [curl]
+---
+# Todoist
+
+Export your key first (see https://docs.prose-only.dev, which is ignored).
+
+\`\`\`bash
+curl -H "Authorization: Bearer $TODOIST_API_KEY" https://api.todoist.com/rest/v2/tasks | jq .
+\`\`\`
+`
+
+const SCRIPT = `#!/usr/bin/env bash
+set -euo pipefail
+OUT=\${OUT_DIR:-/tmp}
+cleanup() { rm -f "$OUT/tmp.json"; }
+cleanup
+gh api user > "$OUT/me.json"
+cat <<EOF > "$OUT/notes.txt"
+jq would not run here
+EOF
+`
+
+const CODE = `import { execSync } from 'node:child_process'
+const token = process.env.GITHUB_TOKEN
+execSync('git status')
+fetch('http://localhost:3000/health')
+const config = '~/.config/todoist/config.json'
+`
+
+describe('extractCapabilityReferences', () => {
+  it('finds env vars, binaries, hosts and config paths with locations', () => {
+    const references = extractCapabilityReferences([
+      { path: 'SKILL.md', text: SKILL_MD },
+      { path: 'scripts/sync.sh', text: SCRIPT },
+      { path: 'index.ts', text: CODE },
+    ])
+    expect(references).toEqual([
+      { kind: 'host', name: 'api.todoist.com', file: 'SKILL.md', line: 14 },
+      { kind: 'env', name: 'TODOIST_API_KEY', file: 'SKILL.md', line: 14 },
+      { kind: 'bin', name: 'curl', file: 'SKILL.md', line: 14 },
+      { kind: 'bin', name: 'jq', file: 'SKILL.md', line: 14 },
+      { kind: 'env', name: 'OUT_DIR', file: 'scripts/sync.sh', line: 3 },
+      { kind: 'bin', name: 'gh', file: 'scripts/sync.sh', line: 6 },
+      { kind: 'env', name: 'GITHUB_TOKEN', file: 'index.ts', line: 2 },
+      { kind: 'bin', name: 'git', file: 'index.ts', line: 3 },
+      { kind: 'config', name: '~/.config/todoist/config.json', file: 'index.ts', line: 5 },
+    ])
+  })
+})
+
+describe('lintSkillCapabilities', () => {
+  it('reports undeclared uses and unused declarations', () => {
+    const declared = readDeclaredCapabilities({
+      requires: { env: ['TODOIST_API_KEY', 'UNUSED_TOKEN'], bins: ['curl'] },
+    })
+    const result = lintSkillCapabilities({
+      files: [{ path: 'SKILL.md', text: SKILL_MD }],
+      declared,
+    })
+    expect(result.status).toBe('mismatch')
+    expect(result.undeclared.map((entry) => `${entry.kind}:${entry.name}`)).toEqual([
+      'host:api.todoist.com',
+      'bin:jq',
+    ])
+    expect(result.unused).toEqual([{ kind: 'env', name: 'UNUSED_TOKEN' }])
+  })
+
+  it('accepts hosts, install bins, primaryEnv and config prefixes as declarations', () => {
+    const declared = readDeclaredCapabilities({
+      primaryEnv: 'GITHUB_TOKEN',
+      homepage: 'https://todoist.com',
+      requires: { config: ['$HOME/.config/todoist'], env: 'OUT_DIR' },
+      install: [{ kind: 'brew', formula: 'gh', bins: ['gh', 'git'] }],
+    })
+    expect(declared).toEqual({
+      env: ['OUT_DIR', 'GITHUB_TOKEN'],
+      bins: ['gh', 'git'],
+      hosts: ['todoist.com'],
+      config: ['$HOME/.config/todoist'],
+    })
+    const result = lintSkillCapabilities({
+      files: [
+        { path: 'scripts/sync.sh', text: SCRIPT },
+        { path: 'index.ts', text: CODE },
+      ],
+      declared,
+    })
+    expect(result).toEqual({ status: 'clean', undeclared: [], unused: [] })
+  })
+})
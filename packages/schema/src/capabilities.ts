@@ -0,0 +1,452 @@
+export type CapabilityKind = 'env' | 'bin' | 'host' | 'config'
+
+export type CapabilityReference = {
+  kind: CapabilityKind
+  name: string
+  file: string
+  line: number
+}
+
+/** What a skill says it needs, read from its `openclaw` (or `clawdis`) metadata block. */
+export type DeclaredCapabilities = {
+  env: string[]
+  bins: string[]
+  hosts: string[]
+  config: string[]
+}
+
+export type CapabilityLintResult = {
+  /** `mismatch` when the bundle uses something it does not declare. */
+  status: 'clean' | 'mismatch'
+  /** First use of each undeclared env var, binary, host, or config path. */
+  undeclared: CapabilityReference[]
+  /** Declared env vars, binaries, and config paths the bundle never mentions. */
+  unused: Array<{ kind: CapabilityKind; name: string }>
+}
+
+export const MAX_CAPABILITY_FINDINGS = 50
+
+const SHELL_FENCE_LANGUAGES = new Set(['sh', 'bash', 'shell', 'zsh', 'console', 'shell-session'])
+const SHELL_EXTENSIONS = new Set(['sh', 'bash', 'zsh'])
+const ENV_NAME = /^[A-Z][A-Z0-9_]*[A-Z0-9]$/
+const BIN_NAME = /^[a-z][a-z0-9._+-]*$/
+
+// Always present (shell builtins, coreutils, the shell itself); declaring them adds nothing.
+const IGNORED_BINS = new Set([
+  '.',
+  'alias',
+  'awk',
+  'basename',
+  'bash',
+  'break',
+  'case',
+  'cat',
+  'cd',
+  'chmod',
+  'command',
+  'continue',
+  'cp',
+  'cut',
+  'date',
+  'declare',
+  'dirname',
+  'do',
+  'done',
+  'echo',
+  'elif',
+  'else',
+  'env',
+  'esac',
+  'eval',
+  'exec',
+  'exit',
+  'export',
+  'false',
+  'fi',
+  'find',
+  'for',
+  'function',
+  'grep',
+  'head',
+  'if',
+  'kill',
+  'local',
+  'ls',
+  'mkdir',
+  'mv',
+  'printf',
+  'ps',
+  'pwd',
+  'read',
+  'return',
+  'rm',
+  'sed',
+  'set',
+  'sh',
+  'shift',
+  'sleep',
+  'sort',
+  'source',
+  'tail',
+  'tee',
+  'test',
+  'then',
+  'time',
+  'touch',
+  'tr',
+  'trap',
+  'true',
+  'uniq',
+  'unset',
+  'wc',
+  'which',
+  'while',
+  'xargs',
+])
+
+// Set by the shell or the OS rather than by the user installing the skill.
+const IGNORED_ENV = new Set([
+  'BASH_SOURCE',
+  'CI',
+  'DEBUG',
+  'EDITOR',
+  'EUID',
+  'FORCE_COLOR',
+  'HOME',
+  'HOSTNAME',
+  'IFS',
+  'LANG',
+  'LC_ALL',
+  'LINENO',
+  'NODE_ENV',
+  'NO_COLOR',
+  'OLDPWD',
+  'OSTYPE',
+  'PAGER',
+  'PATH',
+  'PPID',
+  'PWD',
+  'RANDOM',
+  'SECONDS',
+  'SHELL',
+  'TEMP',
+  'TERM',
+  'TMP',
+  'TMPDIR',
+  'UID',
+  'USER',
+  'VISUAL',
+  'XDG_CACHE_HOME',
+  'XDG_CONFIG_HOME',
+  'XDG_DATA_HOME',
+  'XDG_RUNTIME_DIR',
+  'XDG_STATE_HOME',
+])
+
+const CODE_ENV_PATTERNS = [
+  /process\.env\.([A-Z_][A-Z0-9_]*)/g,
+  /process\.env\[\s*['"]([A-Z_][A-Z0-9_]*)['"]\s*\]/g,
+  /Bun\.env\.([A-Z_][A-Z0-9_]*)/g,
+  /Deno\.env\.get\(\s*['"]([A-Z_][A-Z0-9_]*)['"]/g,
+  /os\.environ(?:\.get\(|\[)\s*['"]([A-Z_][A-Z0-9_]*)['"]/g,
+  /os\.getenv\(\s*['"]([A-Z_][A-Z0-9_]*)['"]/g,
+  /os\.Getenv\(\s*"([A-Z_][A-Z0-9_]*)"/g,
+  /env::var\(\s*"([A-Z_][A-Z0-9_]*)"/g,
+  /System\.getenv\(\s*"([A-Z_][A-Z0-9_]*)"/g,
+  /\bENV\[\s*['"]([A-Z_][A-Z0-9_]*)['"]/g,
+]
+
+const CODE_BIN_PATTERNS = [
+  /subprocess\.\w+\(\s*\[\s*['"]([a-z][\w.+-]*)['"]/g,
+  /subprocess\.\w+\(\s*['"]([a-z][\w.+-]*)[\s'"]/g,
+  /os\.system\(\s*['"]([a-z][\w.+-]*)[\s'"]/g,
+  /\b(?:execSync|execFileSync|spawnSync|spawn|execFile|exec)\(\s*['"`]([a-z][\w.+-]*)[\s'"`]/g,
+  /exec\.Command\(\s*"([a-z][\w.+-]*)"/g,
+  /Command::new\(\s*"([a-z][\w.+-]*)"/g,
+]
+
+const URL_PATTERN = /\b(?:https?|wss?):\/\/([a-z0-9-]+(?:\.[a-z0-9-]+)+)(?::\d+)?/gi
+const FRONTMATTER_BLOCK = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/
+const HOME_PATH_PATTERN = /(?:~|\$HOME|\$\{HOME\})\/(\.[\w.-]+(?:\/[\w.-]+)*)/g
+
+type Segment = { file: string; startLine: number; lines: string[]; shell: boolean }
+
+export function readDeclaredCapabilities(metadata: unknown): DeclaredCapabilities {
+  const block = isRecord(metadata) ? metadata : {}
+  const requires = isRecord(block.requires) ? block.requires : {}
+
+  const env = stringList(requires.env)
+  if (typeof block.primaryEnv === 'string') env.push(block.primaryEnv.trim())
+  for (const entry of [block.envVars, block.env].flatMap(listOf)) {
+    if (isRecord(entry) && typeof entry.name === 'string') env.push(entry.name.trim())
+  }
+
+  const bins = [...stringList(requires.bins), ...stringList(requires.anyBins)]
+  for (const spec of listOf(block.install)) {
+    if (isRecord(spec)) bins.push(...stringList(spec.bins))
+  }
+
+  const hosts = stringList(requires.hosts).map((host) => host.toLowerCase())
+  const links = isRecord(block.links) ? Object.values(block.links) : []
+  for (const url of [block.homepage, ...links]) {
+    const host = typeof url === 'string' ? hostOf(url) : null
+    if (host) hosts.push(host)
+  }
+
+  return {
+    env: unique(env),
+    bins: unique(bins),
+    hosts: unique(hosts),
+    config: unique(stringList(requires.config)),
+  }
+}
+
+/**
+ * Static scan of a bundle: env vars read by code or shell snippets, binaries
+ * invoked from shell snippets or subprocess calls, hosts in URLs inside code,
+ * and dot-paths under the home directory. Markdown prose is ignored; only
+ * fenced code blocks count.
+ */
+export function extractCapabilityReferences(files: Array<{ path: string; text: string }>) {
+  const references: CapabilityReference[] = []
+  for (const segment of files.flatMap(toSegments)) {
+    const add = (kind: CapabilityKind, name: string, index: number) =>
+      references.push({ kind, name, file: segment.file, line: segment.startLine + index })
+    const assigned = segment.shell ? collectShellAssignments(segment.lines) : new Set<string>()
+    const functions = segment.shell ? collectShellFunctions(segment.lines) : new Set<string>()
+
+    let heredocEnd: string | null = null
+    segment.lines.forEach((line, index) => {
+      for (const name of matchAll(CODE_ENV_PATTERNS, line)) add('env', name, index)
+      for (const name of matchAll(CODE_BIN_PATTERNS, line)) add('bin', name, index)
+      for (const host of matchAll([URL_PATTERN], line)) add('host', host.toLowerCase(), index)
+      for (const path of matchAll([HOME_PATH_PATTERN], line)) add('config', `~/${path}`, index)
+      if (!segment.shell) return
+
+      for (const name of matchAll([/\$\{?([A-Z_][A-Z0-9_]*)/g], line)) {
+        if (!assigned.has(name)) add('env', name, index)
+      }
+      if (heredocEnd) {
+        if (line.trim() === heredocEnd) heredocEnd = null
+        return
+      }
+      heredocEnd = /<<-?\s*['"]?(\w+)['"]?/.exec(line)?.[1] ?? null
+      const previous = segment.lines[index - 1]
+      if (previous?.trimEnd().endsWith('\\')) return
+      for (const name of shellCommands(line)) {
+        if (!functions.has(name)) add('bin', name, index)
+      }
+    })
+  }
+  return references.filter((reference) => {
+    if (reference.kind === 'env') {
+      return ENV_NAME.test(reference.name) && !IGNORED_ENV.has(reference.name)
+    }
+    if (reference.kind === 'bin') return !IGNORED_BINS.has(reference.name)
+    if (reference.kind === 'host') return !isLocalOrExampleHost(reference.name)
+    return true
+  })
+}
+
+export function lintSkillCapabilities(args: {
+  files: Array<{ path: string; text: string }>
+  declared: DeclaredCapabilities
+}): CapabilityLintResult {
+  const { declared } = args
+  const seen = new Set<string>()
+  const undeclared: CapabilityReference[] = []
+  for (const reference of extractCapabilityReferences(args.files)) {
+    const key = `${reference.kind}:${reference.name}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    if (isDeclared(reference, declared)) continue
+    if (undeclared.length < MAX_CAPABILITY_FINDINGS) undeclared.push(reference)
+  }
+
+  // Frontmatter is where things are declared, so it can't count as a use.
+  const corpus = args.files.map((file) => file.text.replace(FRONTMATTER_BLOCK, '')).join('\n')
+  const mentioned = (name: string) =>
+    new RegExp(`(^|[^\\w-])${escapeRegExp(name)}($|[^\\w-])`).test(corpus)
+  const unusedOf = (kind: CapabilityKind, names: string[], term = (name: string) => name) =>
+    names.filter((name) => !mentioned(term(name))).map((name) => ({ kind, name }))
+  const unused = [
+    ...unusedOf('env', declared.env),
+    ...unusedOf('bin', declared.bins),
+    ...unusedOf('config', declared.config.filter(isHomePath), (path) => basenameOf(path)),
+  ].slice(0, MAX_CAPABILITY_FINDINGS)
+
+  return { status: undeclared.length > 0 ? 'mismatch' : 'clean', undeclared, unused }
+}
+
+export function formatCapabilityReference(reference: CapabilityReference) {
+  switch (reference.kind) {
+    case 'env':
+      return `Env var ${reference.name} is used but not declared in requires.env`
+    case 'bin':
+      return `Binary \`${reference.name}\` is invoked but not declared in requires.bins`
+    case 'host':
+      return `Contacts ${reference.name}, which is not declared in requires.hosts`
+    case 'config':
+      return `Reads ${reference.name}, which is not declared in requires.config`
+  }
+}
+
+function isDeclared(reference: CapabilityReference, declared: DeclaredCapabilities) {
+  switch (reference.kind) {
+    case 'env':
+      return declared.env.includes(reference.name)
+    case 'bin':
+      return declared.bins.includes(reference.name)
+    case 'host':
+      return declared.hosts.some((host) => hostMatches(host, reference.name))
+    case 'config':
+      return declared.config.some((path) => pathMatches(normalizeHomePath(path), reference.name))
+  }
+}
+
+function toSegments(file: { path: string; text: string }): Segment[] {
+  const lines = file.text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n')
+  const extension = file.path.split('.').at(-1)?.toLowerCase() ?? ''
+  if (extension !== 'md' && extension !== 'mdx') {
+    return [{ file: file.path, startLine: 1, lines, shell: SHELL_EXTENSIONS.has(extension) }]
+  }
+
+  const segments: Segment[] = []
+  let open: Segment | null = null
+  lines.forEach((line, index) => {
+    const fence = /^\s*(`{3,}|~{3,})\s*([\w-]*)/.exec(line)
+    if (!fence) {
+      open?.lines.push(line)
+      return
+    }
+    if (open) {
+      segments.push(open)
+      open = null
+      return
+    }
+    const language = (fence[2] ?? '').toLowerCase()
+    open = {
+      file: file.path,
+      startLine: index + 2,
+      lines: [],
+      shell: SHELL_FENCE_LANGUAGES.has(language),
+    }
+  })
+  return segments
+}
+
+function collectShellAssignments(lines: string[]) {
+  const names = new Set<string>()
+  for (const line of lines) {
+    for (const match of line.matchAll(/(?:^|[\s;(])(?:export\s+|local\s+)?([A-Z_][A-Z0-9_]*)=/g)) {
+      if (match[1]) names.add(match[1])
+    }
+    for (const match of line.matchAll(/\b(?:for|read(?:\s+-\w+)*)\s+([A-Z_][A-Z0-9_]*)/g)) {
+      if (match[1]) names.add(match[1])
+    }
+  }
+  return names
+}
+
+function collectShellFunctions(lines: string[]) {
+  const names = new Set<string>()
+  for (const line of lines) {
+    const match = /^\s*(?:function\s+([\w.-]+)|([\w.-]+)\s*\(\s*\))/.exec(line)
+    const name = match?.[1] ?? match?.[2]
+    if (name) names.add(name)
+  }
+  return names
+}
+
+function shellCommands(line: string) {
+  const trimmed = line.trim().replace(/^\$\s+/, '')
+  if (!trimmed || trimmed.startsWith('#')) return []
+  const names: string[] = []
+  for (const match of trimmed.matchAll(/\$\(\s*([a-z][\w.+-]*)/g)) {
+    if (match[1]) names.push(match[1])
+  }
+  for (const part of trimmed.split(/\|\||&&|[|;]|\$\(|`/)) {
+    const words = part
+      .trim()
+      .replace(/^(?:[A-Za-z_][A-Za-z0-9_]*=\S*\s+)+/, '')
+      .replace(/^(?:(?:sudo|nohup|time|exec|env)\s+)+/, '')
+      .split(/\s+/)
+    const first = words[0] ?? ''
+    if (BIN_NAME.test(first)) names.push(first)
+  }
+  return names
+}
+
+function matchAll(patterns: RegExp[], line: string) {
+  const names: string[] = []
+  for (const pattern of patterns) {
+    for (const match of line.matchAll(pattern)) {
+      if (match[1]) names.push(match[1])
+    }
+  }
+  return names
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url.trim()).hostname.toLowerCase() || null
+  } catch {
+    return null
+  }
+}
+
+/** `todoist.com` and `*.todoist.com` both cover `api.todoist.com`. */
+function hostMatches(declared: string, host: string) {
+  const base = declared.replace(/^\*\./, '')
+  return host === base || host.endsWith(`.${base}`)
+}
+
+function isLocalOrExampleHost(host: string) {
+  if (host === 'localhost' || host === '0.0.0.0' || host.startsWith('127.')) return true
+  return /(^|\.)example\.(com|org|net)$/.test(host)
+}
+
+function isHomePath(path: string) {
+  return /^(?:~|\$HOME|\$\{HOME\})\//.test(path.trim())
+}
+
+function basenameOf(path: string) {
+  return path.replace(/\/+$/, '').split('/').at(-1) ?? path
+}
+
+function normalizeHomePath(path: string) {
+  return path.trim().replace(/^(?:\$HOME|\$\{HOME\})\//, '~/').replace(/\/+$/, '')
+}
+
+function pathMatches(declared: string, path: string) {
+  return path === declared || path.startsWith(`${declared}/`) || declared.startsWith(`${path}/`)
+}
+
+function stringList(input: unknown): string[] {
+  if (typeof input === 'string') {
+    return input
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean)
+  }
+  return listOf(input)
+    .filter((value): value is string => typeof value === 'string')
+    .map((value) => value.trim())
+    .filter(Boolean)
+}
+
+function listOf(input: unknown): unknown[] {
+  return Array.isArray(input) ? input : []
+}
+
+function unique(values: string[]) {
+  return [...new Set(values.filter(Boolean))]
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
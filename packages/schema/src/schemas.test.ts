@@ -7,6 +7,7 @@ import {
   CliPublishRequestSchema,
   CliSkillDeleteRequestSchema,
   LockfileSchema,
+  LockfileV1Schema,
   WellKnownConfigSchema,
 } from './schemas'
 
@@ -14,10 +15,23 @@ describe('clawhub-schema', () => {
   it('parses lockfile records', () => {
     const lock = parseArk(
       LockfileSchema,
-      { version: 1, skills: { demo: { version: '1.0.0', installedAt: 123 } } },
+      {
+        version: 2,
+        skills: {
+          demo: { version: '1.0.0', installedAt: 123, fingerprint: 'fp', files: { 'SKILL.md': 'a' } },
+        },
+      },
       'Lockfile',
     )
     expect(lock.skills.demo?.version).toBe('1.0.0')
+    expect(lock.skills.demo?.files?.['SKILL.md']).toBe('a')
+
+    const legacy = parseArk(
+      LockfileV1Schema,
+      { version: 1, skills: { demo: { version: '1.0.0', installedAt: 123 } } },
+      'Lockfile',
+    )
+    expect(legacy.skills.demo?.version).toBe('1.0.0')
   })
 
   it('allows publish payload without tags', () => {
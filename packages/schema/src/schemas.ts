@@ -1,8 +1,23 @@
 import { type inferred, type } from 'arktype'
 
+export const RegistrySourceSchema = type({
+  site: 'string?',
+  registry: 'string?',
+  token: 'string?',
+})
+export type RegistrySource = (typeof RegistrySourceSchema)[inferred]
+
+export const RegistryRouteSchema = type({
+  match: 'string',
+  registry: 'string',
+})
+export type RegistryRoute = (typeof RegistryRouteSchema)[inferred]
+
 export const GlobalConfigSchema = type({
   registry: 'string',
   token: 'string?',
+  registries: type({ '[string]': RegistrySourceSchema }).optional(),
+  routes: RegistryRouteSchema.array().optional(),
 })
 export type GlobalConfig = (typeof GlobalConfigSchema)[inferred]
 
@@ -17,15 +32,46 @@ export const WellKnownConfigSchema = type({
 })
 export type WellKnownConfig = (typeof WellKnownConfigSchema)[inferred]
 
-export const LockfileSchema = type({
+export const LockfileV1Schema = type({
   version: '1',
   skills: {
     '[string]': {
       version: 'string|null',
       installedAt: 'number',
+      'registry?': 'string',
     },
   },
 })
+export type LockfileV1 = (typeof LockfileV1Schema)[inferred]
+
+export const LockfileEntrySchema = type({
+  version: 'string|null',
+  installedAt: 'number',
+  'registry?': 'string',
+  'fingerprint?': 'string',
+  'files?': { '[string]': 'string' },
+  // Set by `clawhub link`: a local folder symlinked/copied into the skills dir, not from a registry.
+  'link?': { path: 'string', mode: '"symlink"|"copy"' },
+})
+export type LockfileEntry = (typeof LockfileEntrySchema)[inferred]
+
+export const LockfileCollectionSchema = type({
+  installedAt: 'number',
+  'registry?': 'string',
+  items: type({ slug: 'string', 'pin?': 'string' }).array(),
+})
+export type LockfileCollection = (typeof LockfileCollectionSchema)[inferred]
+
+export const LockfileSchema = type({
+  version: '2',
+  skills: {
+    '[string]': LockfileEntrySchema,
+  },
+  // Set by `clawhub install --collection`, keyed by `owner/name`; `update` re-syncs members.
+  'collections?': {
+    '[string]': LockfileCollectionSchema,
+  },
+})
 export type Lockfile = (typeof LockfileSchema)[inferred]
 
 export const ApiCliWhoamiResponseSchema = type({
@@ -88,6 +134,9 @@ export const CliPublishRequestSchema = type({
     slug: 'string',
     version: 'string?',
   }).optional(),
+  org: 'string?',
+  visibility: '"public"|"unlisted"|"private"?',
+  dryRun: 'boolean?',
   files: CliPublishFileSchema.array(),
 })
 export type CliPublishRequest = (typeof CliPublishRequestSchema)[inferred]
@@ -147,6 +196,22 @@ export const ApiV1UserSearchResponseSchema = type({
   total: 'number',
 })
 
+export const ApiV1SearchFacetValuesSchema = type({ value: 'string', count: 'number' }).array()
+
+const ApiV1SearchRankSchema = type({ score: 'number', rank: 'number', contribution: 'number' })
+
+// Returned per result with `explain=true`; `total` is the sum of the contributions and boosts.
+export const ApiV1SearchExplainSchema = type({
+  vector: ApiV1SearchRankSchema.or('null'),
+  bm25: ApiV1SearchRankSchema.and({
+    terms: type({ term: 'string', score: 'number' }).array(),
+  }).or('null'),
+  lexicalBoost: 'number',
+  popularity: 'number',
+  total: 'number',
+})
+export type ApiV1SearchExplain = (typeof ApiV1SearchExplainSchema)[inferred]
+
 export const ApiV1SearchResponseSchema = type({
   results: type({
     slug: 'string?',
@@ -155,7 +220,18 @@ export const ApiV1SearchResponseSchema = type({
     version: 'string|null?',
     score: 'number',
     updatedAt: 'number?',
+    explain: ApiV1SearchExplainSchema.optional(),
   }).array(),
+  // Per-value counts over every match; each facet ignores its own filter.
+  facets: type({
+    os: ApiV1SearchFacetValuesSchema,
+    bins: ApiV1SearchFacetValuesSchema,
+    env: ApiV1SearchFacetValuesSchema,
+    install: ApiV1SearchFacetValuesSchema,
+    nix: ApiV1SearchFacetValuesSchema,
+    badges: ApiV1SearchFacetValuesSchema,
+    owner: ApiV1SearchFacetValuesSchema,
+  }).optional(),
 })
 
 export const ApiV1SkillListResponseSchema = type({
@@ -185,6 +261,7 @@ export const ApiV1SkillResponseSchema = type({
     stats: 'unknown',
     createdAt: 'number',
     updatedAt: 'number',
+    visibility: '"public"|"unlisted"|"private"?',
   }).or('null'),
   latestVersion: type({
     version: 'string',
@@ -196,6 +273,10 @@ export const ApiV1SkillResponseSchema = type({
     displayName: 'string|null?',
     image: 'string|null?',
   }).or('null'),
+  'org?': type({
+    handle: 'string',
+    displayName: 'string',
+  }).or('null'),
 })
 
 export const ApiV1SkillVersionListResponseSchema = type({
@@ -208,6 +289,12 @@ export const ApiV1SkillVersionListResponseSchema = type({
   nextCursor: 'string|null',
 })
 
+export const SkillDependencySchema = type({
+  slug: 'string',
+  version: 'string?',
+})
+export type SkillDependency = (typeof SkillDependencySchema)[inferred]
+
 export const SecurityStatusSchema = type({
   status: '"clean" | "suspicious" | "malicious" | "pending" | "error"',
   hasWarnings: 'boolean',
@@ -222,6 +309,7 @@ export const ApiV1SkillVersionResponseSchema = type({
     changelog: 'string',
     changelogSource: '"auto"|"user"|null?',
     files: 'unknown?',
+    dependencies: SkillDependencySchema.array().optional(),
     security: SecurityStatusSchema.optional(),
   }).or('null'),
   skill: type({
@@ -241,6 +329,53 @@ export const ApiV1PublishResponseSchema = type({
   versionId: 'string',
 })
 
+export const ApiV1PublishPreviewResponseSchema = type({
+  ok: 'true',
+  dryRun: 'true',
+  slug: 'string',
+  version: 'string',
+  quality: type({
+    decision: '"pass"|"quarantine"|"reject"',
+    score: 'number',
+    reason: 'string',
+    trustTier: 'string',
+  }).or('null'),
+  moderation: type({
+    status: '"active"|"hidden"',
+    reason: 'string',
+    flags: 'string[]',
+  }),
+  scanResults: type({
+    scanner: 'string',
+    label: 'string',
+    verdict: 'string',
+    summary: 'string?',
+    findings: type({
+      ruleId: 'string',
+      severity: 'string',
+      message: 'string',
+      flag: 'string?',
+      file: 'string?',
+      line: 'number?',
+      excerpt: 'string?',
+    }).array(),
+  }).array(),
+  capabilityLint: type({
+    status: '"clean"|"mismatch"',
+    undeclared: type({ kind: 'string', name: 'string', file: 'string', line: 'number' }).array(),
+    unused: type({ kind: 'string', name: 'string' }).array(),
+  }).optional(),
+  llmAnalysis: type({
+    status: 'string',
+    verdict: 'string?',
+    confidence: 'string?',
+    summary: 'string?',
+  })
+    .or('null')
+    .optional(),
+})
+export type ApiV1PublishPreviewResponse = (typeof ApiV1PublishPreviewResponseSchema)[inferred]
+
 export const ApiV1DeleteResponseSchema = type({
   ok: 'true',
 })
@@ -262,6 +397,72 @@ export const ApiV1UnstarResponseSchema = type({
   alreadyUnstarred: 'boolean',
 })
 
+export const ApiV1CollectionSummarySchema = type({
+  owner: 'string|null',
+  name: 'string',
+  displayName: 'string',
+  description: 'string|null',
+  itemCount: 'number',
+  updatedAt: 'number',
+})
+
+export const ApiV1CollectionListResponseSchema = type({
+  items: ApiV1CollectionSummarySchema.array(),
+})
+
+export const ApiV1CollectionResponseSchema = type({
+  collection: ApiV1CollectionSummarySchema,
+  items: type({
+    slug: 'string',
+    displayName: 'string',
+    summary: 'string|null',
+    note: 'string|null',
+    versionPin: 'string|null',
+    latestVersion: 'string|null',
+  }).array(),
+})
+
+export const ApiV1NotificationSchema = type({
+  id: 'string',
+  kind: 'string',
+  title: 'string',
+  body: 'string|null',
+  url: 'string|null',
+  createdAt: 'number',
+  readAt: 'number|null',
+})
+
+export const ApiV1NotificationListResponseSchema = type({
+  items: ApiV1NotificationSchema.array(),
+  unreadCount: 'number',
+})
+
+export const ApiV1NotificationsReadResponseSchema = type({
+  ok: 'true',
+  updated: 'number',
+})
+
+export const ApiV1AppealSchema = type({
+  id: 'string',
+  status: '"open"|"accepted"|"rejected"|"changes_requested"',
+  message: 'string',
+  response: 'string|null',
+  createdAt: 'number',
+  resolvedAt: 'number|null',
+})
+export type ApiV1Appeal = (typeof ApiV1AppealSchema)[inferred]
+
+export const ApiV1AppealStateResponseSchema = type({
+  decision: type({ kind: 'string', label: 'string', reason: 'string|null' }).or('null'),
+  canAppeal: 'boolean',
+  appeal: ApiV1AppealSchema.or('null'),
+})
+
+export const ApiV1AppealResponseSchema = type({
+  ok: 'true',
+  appeal: ApiV1AppealSchema,
+})
+
 export const SkillInstallSpecSchema = type({
   id: 'string?',
   kind: '"brew"|"node"|"go"|"uv"',
@@ -292,6 +493,9 @@ export const ClawdisRequiresSchema = type({
   anyBins: 'string[]?',
   env: 'string[]?',
   config: 'string[]?',
+  // Hosts the skill talks to; `example.com` also covers its subdomains.
+  hosts: 'string[]?',
+  skills: SkillDependencySchema.array().optional(),
 })
 export type ClawdisRequires = (typeof ClawdisRequiresSchema)[inferred]
 
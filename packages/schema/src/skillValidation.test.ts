@@ -0,0 +1,179 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  findSatisfyingSkillVersion,
+  findSkillDependencyProblems,
+  satisfiesSkillVersionRange,
+  validateSkillFiles,
+} from './skillValidation'
+
+const GOOD_README = `---
+name: pdf-tools
+description: Split, merge, and OCR PDF files from the command line.
+---
+# PDF tools
+
+Work with PDF files without leaving the terminal. The skill wraps qpdf and
+ocrmypdf so an agent can split large scans, merge chapters back together, and
+make image-only documents searchable before summarizing them.
+
+## Setup
+
+- Install qpdf with your package manager.
+- Install ocrmypdf for text recognition on scanned pages.
+- Confirm both binaries are on PATH before asking the agent to run them.
+
+## Usage
+
+- Split a document by page range and keep the original file untouched.
+- Merge several files in the order given, preserving bookmarks when present.
+- Run OCR on image-only pages, then extract text for downstream summaries.
+- Report the page count and file size after every operation for quick checks.
+`
+
+function readme(text: string) {
+  return { path: 'SKILL.md', size: text.length, text }
+}
+
+describe('validateSkillFiles', () => {
+  it('passes a well-documented skill', () => {
+    const result = validateSkillFiles({ slug: 'pdf-tools', files: [readme(GOOD_README)] })
+    expect(result.problems).toEqual([])
+    expect(result.ok).toBe(true)
+    expect(result.quality?.decision).toBe('pass')
+  })
+
+  it('reports publish blockers with file names', () => {
+    const result = validateSkillFiles({
+      slug: 'Bad Slug',
+      files: [
+        { path: 'notes.md', size: 4, text: 'hi' },
+        { path: 'tool.exe', size: 10 },
+        { path: '../escape.md', size: 1 },
+        { path: '__MACOSX/._notes.md', size: 1 },
+      ],
+    })
+    expect(result.ok).toBe(false)
+    expect(result.quality).toBeNull()
+    expect(result.problems).toEqual([
+      { level: 'error', message: 'Slug must be lowercase and url-safe' },
+      { level: 'error', message: 'Only text-based files are allowed', file: 'tool.exe' },
+      { level: 'error', message: 'Invalid file path', file: '../escape.md' },
+      { level: 'error', message: 'SKILL.md is required' },
+    ])
+  })
+
+  it('points YAML errors and dependency problems at SKILL.md lines', () => {
+    const broken = validateSkillFiles({
+      slug: 'demo',
+      files: [readme('---\nname: demo\ndescription: [oops\n---\n# Demo\n')],
+    })
+    expect(broken.problems[0]).toMatchObject({ level: 'warning', file: 'SKILL.md', line: 3 })
+    expect(broken.problems[0]?.message).toMatch(/not valid YAML/)
+
+    const text = GOOD_README.replace(
+      'description: Split',
+      'metadata:\n  openclaw:\n    requires:\n      skills: ["demo", "x@nope"]\ndescription: Split',
+    )
+    const deps = validateSkillFiles({ slug: 'demo', files: [readme(text)] })
+    expect(deps.problems.filter((problem) => problem.level === 'error')).toEqual([
+      { level: 'error', message: 'A skill cannot depend on itself', file: 'SKILL.md', line: 6 },
+      {
+        level: 'error',
+        message: 'Invalid version range for skill dependency x: nope',
+        file: 'SKILL.md',
+        line: 6,
+      },
+    ])
+  })
+
+  it('explains the quality gate decision for templated content', () => {
+    const result = validateSkillFiles({
+      slug: 'sushi-rolls',
+      files: [
+        readme(
+          '---\ndescription: Expert guidance for sushi-rolls.\n---\n# Sushi Rolls\n' +
+            '## Getting Started\n- Step-by-step tutorials\n- Tips and techniques\n- Project ideas\n',
+        ),
+      ],
+    })
+    expect(result.quality?.decision).toBe('reject')
+    expect(result.ok).toBe(false)
+    expect(result.problems).toContainEqual({
+      level: 'warning',
+      message: 'Template phrase "tips and techniques" lowers the quality score',
+      file: 'SKILL.md',
+      line: 7,
+    })
+    expect(result.problems).toContainEqual(
+      expect.objectContaining({ level: 'warning', file: 'SKILL.md', line: 2 }),
+    )
+    expect(result.problems.at(-1)).toMatchObject({ level: 'error', file: 'SKILL.md' })
+  })
+
+  it('flags capabilities the bundle uses without declaring them', () => {
+    const text = GOOD_README.replace(
+      'description: Split',
+      'metadata:\n  openclaw:\n    requires:\n      bins: [qpdf, ocrmypdf]\ndescription: Split',
+    )
+    const result = validateSkillFiles({
+      slug: 'pdf-tools',
+      files: [
+        readme(text),
+        {
+          path: 'scripts/ocr.sh',
+          size: 1,
+          text: 'qpdf --split "$1"\nocrmypdf -l "$OCR_LANG" "$1" out.pdf\n',
+        },
+      ],
+    })
+    expect(result.ok).toBe(true)
+    expect(result.capabilities?.status).toBe('mismatch')
+    expect(result.problems).toEqual([
+      {
+        level: 'warning',
+        message: 'Env var OCR_LANG is used but not declared in requires.env',
+        file: 'scripts/ocr.sh',
+        line: 2,
+      },
+    ])
+  })
+
+  it('lets higher trust tiers through where low trust is rejected', () => {
+    const text = '---\ndescription: Short helper.\n---\n# Helper\n\n' + 'Run the helper. '.repeat(12)
+    const low = validateSkillFiles({ slug: 'helper', files: [readme(text)] })
+    const trusted = validateSkillFiles({
+      slug: 'helper',
+      files: [readme(text)],
+      trustTier: 'trusted',
+    })
+    expect(low.quality?.decision).toBe('reject')
+    expect(trusted.quality?.decision).not.toBe('reject')
+  })
+})
+
+describe('findSkillDependencyProblems', () => {
+  it('collects every problem instead of stopping at the first', () => {
+    expect(
+      findSkillDependencyProblems('demo', [{ slug: 'Bad!' }, { slug: 'a' }, { slug: 'a' }]),
+    ).toEqual(['Invalid skill dependency slug: Bad!', 'Duplicate skill dependency: a'])
+  })
+})
+
+describe('skill version ranges', () => {
+  it('picks the highest version satisfying a range', () => {
+    const versions = ['1.0.0', '1.4.2', '2.0.0', 'garbage']
+    expect(findSatisfyingSkillVersion(versions, '^1.0.0')).toBe('1.4.2')
+    expect(findSatisfyingSkillVersion(versions)).toBe('2.0.0')
+    expect(findSatisfyingSkillVersion(versions, '^3.0.0')).toBeNull()
+  })
+
+  it('only matches prereleases when the range names one', () => {
+    const versions = ['1.0.0', '1.1.0-beta.1']
+    expect(findSatisfyingSkillVersion(versions, '^1.0.0')).toBe('1.0.0')
+    expect(findSatisfyingSkillVersion(versions, '^1.1.0-beta.0')).toBe('1.1.0-beta.1')
+    expect(satisfiesSkillVersionRange('1.1.0-beta.1', '^1.0.0')).toBe(false)
+    expect(satisfiesSkillVersionRange('1.1.0-beta.1', undefined)).toBe(true)
+  })
+})
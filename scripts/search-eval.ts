@@ -0,0 +1,87 @@
+#!/usr/bin/env bun
+
+/**
+ * Offline search evaluation: runs every judged query through `search:searchSkills`
+ * on a local Convex deployment and reports nDCG/MRR/recall, optionally against a
+ * saved baseline report. See docs/search-eval.md.
+ */
+
+import { spawnSync } from 'node:child_process'
+import { readFile, writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '../convex/_generated/api'
+import {
+  buildEvalReport,
+  type EvalReport,
+  formatEvalReport,
+  parseJudgedQuerySet,
+} from './search-eval/metrics'
+
+const DEFAULT_QUERIES = 'scripts/search-eval/golden.json'
+
+function convex(args: string[]) {
+  const result = spawnSync('bunx', ['convex', ...args], { encoding: 'utf8' })
+  if (result.status !== 0) {
+    throw new Error(`convex ${args.join(' ')} failed:\n${result.stderr || result.stdout}`)
+  }
+  return result.stdout.trim()
+}
+
+function seedDeployment() {
+  const provider = convex(['env', 'get', 'EMBEDDING_PROVIDER'])
+  if (provider !== 'hash') {
+    throw new Error(
+      'Run `bunx convex env set EMBEDDING_PROVIDER hash` first; evals need stable embeddings.',
+    )
+  }
+  const reset = JSON.stringify({ reset: true })
+  console.log('Seeding devSeed + devSeedExtra skills…')
+  convex(['run', '--no-push', 'devSeed:seedNixSkills', reset])
+  convex(['run', '--no-push', 'devSeedExtra:seedExtraSkillsInternal', reset])
+  // Seeds schedule indexing; run it inline so the BM25 index is complete before querying.
+  convex(['run', '--no-push', 'searchIndex:backfillSkillSearchIndexInternal', '{"batchSize":100}'])
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      queries: { type: 'string', default: DEFAULT_QUERIES },
+      url: { type: 'string' },
+      k: { type: 'string' },
+      seed: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+    },
+  })
+
+  const url = values.url ?? process.env.CONVEX_URL ?? process.env.VITE_CONVEX_URL
+  if (!url) throw new Error('Pass --url or set VITE_CONVEX_URL (bun loads .env.local)')
+
+  const set = parseJudgedQuerySet(JSON.parse(await readFile(values.queries, 'utf8')))
+  if (values.k) set.k = Number.parseInt(values.k, 10)
+  const baseline = values.baseline
+    ? (JSON.parse(await readFile(values.baseline, 'utf8')) as EvalReport)
+    : null
+
+  if (values.seed) seedDeployment()
+
+  const client = new ConvexHttpClient(url)
+  const rankings = new Map<string, string[]>()
+  for (const judged of set.queries) {
+    const results = (await client.action(api.search.searchSkills, {
+      query: judged.query,
+      limit: set.k,
+    })) as Array<{ skill: { slug: string } }>
+    rankings.set(judged.query, results.map((result) => result.skill.slug))
+  }
+
+  const report = buildEvalReport(set, rankings)
+  console.log(formatEvalReport(report, baseline))
+  if (values.out) {
+    await writeFile(values.out, `${JSON.stringify(report, null, 2)}\n`)
+    console.log(`\nWrote ${values.out}`)
+  }
+}
+
+await main()
@@ -0,0 +1,92 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildEvalReport,
+  formatEvalReport,
+  parseJudgedQuerySet,
+  scoreRanking,
+} from './metrics'
+import golden from './golden.json'
+
+describe('parseJudgedQuerySet', () => {
+  it('accepts the bundled golden set', () => {
+    const set = parseJudgedQuerySet(golden)
+    expect(set.k).toBe(10)
+    expect(set.queries.length).toBeGreaterThan(10)
+  })
+
+  it('rejects bad grades, duplicates and queries with nothing relevant', () => {
+    expect(() =>
+      parseJudgedQuerySet({ queries: [{ query: 'a', relevant: { x: 4 } }] }),
+    ).toThrow('queries[0].relevant.x must be an integer 0-3')
+    expect(() =>
+      parseJudgedQuerySet({
+        queries: [
+          { query: 'a', relevant: { x: 1 } },
+          { query: 'a', relevant: { y: 1 } },
+        ],
+      }),
+    ).toThrow('queries[1].query "a" is duplicated')
+    expect(() => parseJudgedQuerySet({ queries: [{ query: 'a', relevant: { x: 0 } }] })).toThrow(
+      'queries[0] needs at least one slug graded above 0',
+    )
+  })
+})
+
+describe('scoreRanking', () => {
+  const relevant = { best: 3, good: 2, meh: 1 }
+
+  it('scores the ideal ordering as 1 across the board', () => {
+    expect(scoreRanking(['best', 'good', 'meh'], relevant, 10)).toEqual({
+      ndcg: 1,
+      mrr: 1,
+      recall: 1,
+    })
+  })
+
+  it('penalises misordered and missing results', () => {
+    const metrics = scoreRanking(['noise', 'meh', 'best'], relevant, 10)
+    // DCG = 1/log2(3) + 7/log2(4); IDCG = 7 + 3/log2(3) + 1/2
+    expect(metrics.ndcg).toBeCloseTo((1 / Math.log2(3) + 3.5) / (7.5 + 3 / Math.log2(3)), 6)
+    expect(metrics.mrr).toBe(0.5)
+    expect(metrics.recall).toBeCloseTo(2 / 3)
+  })
+
+  it('only counts the top k', () => {
+    expect(scoreRanking(['noise', 'best'], relevant, 1)).toEqual({ ndcg: 0, mrr: 0, recall: 0 })
+  })
+})
+
+describe('eval reports', () => {
+  it('aggregates per-query metrics and prints deltas against a baseline', () => {
+    const set = parseJudgedQuerySet({
+      k: 5,
+      queries: [
+        { query: 'kubernetes', relevant: { 'kubectl-helper': 3 } },
+        { query: 'mqtt', relevant: { 'mqtt-broker': 3 } },
+      ],
+    })
+    const baseline = buildEvalReport(
+      set,
+      new Map([
+        ['kubernetes', ['helm-charts', 'kubectl-helper']],
+        ['mqtt', ['mqtt-broker']],
+      ]),
+    )
+    const report = buildEvalReport(
+      set,
+      new Map([
+        ['kubernetes', ['kubectl-helper']],
+        ['mqtt', ['mqtt-broker']],
+      ]),
+    )
+    expect(baseline.aggregate.mrr).toBe(0.75)
+    expect(report.aggregate).toEqual({ ndcg: 1, mrr: 1, recall: 1 })
+
+    const lines = formatEvalReport(report, baseline).split('\n')
+    expect(lines[0]).toMatch(/^query\s+nDCG@5\s+MRR\s+R@5$/)
+    expect(lines[1]).toMatch(/^kubernetes\s+1\.000 \+0\.369\s+1\.000 \+0\.500\s+1\.000  0\.000$/)
+    expect(lines[3]).toMatch(/^mean \(2 queries\)\s+1\.000 \+0\.185/)
+  })
+})
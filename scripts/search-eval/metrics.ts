@@ -0,0 +1,155 @@
+/**
+ * Judged query sets and ranking metrics for `bun run search:eval`.
+ *
+ * A query set is JSON:
+ *   { "k": 10, "queries": [{ "query": "kubernetes", "relevant": { "kubectl-helper": 3 } }] }
+ * Grades run 0-3 (3 = exactly what the user wants, 1 = loosely related);
+ * unlisted slugs count as 0.
+ */
+
+export const MAX_GRADE = 3
+export const DEFAULT_K = 10
+
+export type JudgedQuery = {
+  query: string
+  relevant: Record<string, number>
+  notes?: string
+}
+
+export type JudgedQuerySet = {
+  k: number
+  queries: JudgedQuery[]
+}
+
+export type QueryMetrics = { ndcg: number; mrr: number; recall: number }
+
+export type QueryReport = QueryMetrics & { query: string; results: string[] }
+
+export type EvalReport = {
+  k: number
+  queries: QueryReport[]
+  aggregate: QueryMetrics
+}
+
+const METRIC_KEYS = ['ndcg', 'mrr', 'recall'] as const
+
+export function parseJudgedQuerySet(value: unknown): JudgedQuerySet {
+  if (!isRecord(value)) throw new Error('Query set must be a JSON object')
+  const k = value.k === undefined ? DEFAULT_K : value.k
+  if (typeof k !== 'number' || !Number.isInteger(k) || k < 1) {
+    throw new Error('k must be a positive integer')
+  }
+  if (!Array.isArray(value.queries) || value.queries.length === 0) {
+    throw new Error('queries must be a non-empty array')
+  }
+  const seen = new Set<string>()
+  const queries = value.queries.map((entry, index): JudgedQuery => {
+    const at = `queries[${index}]`
+    if (!isRecord(entry)) throw new Error(`${at} must be an object`)
+    const query = typeof entry.query === 'string' ? entry.query.trim() : ''
+    if (!query) throw new Error(`${at}.query is required`)
+    if (seen.has(query)) throw new Error(`${at}.query "${query}" is duplicated`)
+    seen.add(query)
+    if (!isRecord(entry.relevant)) throw new Error(`${at}.relevant must map slugs to grades`)
+    const relevant: Record<string, number> = {}
+    for (const [slug, grade] of Object.entries(entry.relevant)) {
+      if (typeof grade !== 'number' || !Number.isInteger(grade) || grade < 0 || grade > MAX_GRADE) {
+        throw new Error(`${at}.relevant.${slug} must be an integer 0-${MAX_GRADE}`)
+      }
+      relevant[slug] = grade
+    }
+    if (!Object.values(relevant).some((grade) => grade > 0)) {
+      throw new Error(`${at} needs at least one slug graded above 0`)
+    }
+    return {
+      query,
+      relevant,
+      ...(typeof entry.notes === 'string' ? { notes: entry.notes } : {}),
+    }
+  })
+  return { k, queries }
+}
+
+function discountedGain(grades: number[]) {
+  return grades.reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0)
+}
+
+/** nDCG@k (exponential gain), reciprocal rank and recall@k for one ranked list. */
+export function scoreRanking(
+  results: string[],
+  relevant: Record<string, number>,
+  k: number,
+): QueryMetrics {
+  const top = results.slice(0, k)
+  const grades = top.map((slug) => relevant[slug] ?? 0)
+  const ideal = Object.values(relevant)
+    .filter((grade) => grade > 0)
+    .sort((a, b) => b - a)
+  const idealGain = discountedGain(ideal.slice(0, k))
+  const firstHit = grades.findIndex((grade) => grade > 0)
+  const found = top.filter((slug) => (relevant[slug] ?? 0) > 0).length
+  return {
+    ndcg: idealGain > 0 ? discountedGain(grades) / idealGain : 0,
+    mrr: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    recall: ideal.length > 0 ? found / ideal.length : 0,
+  }
+}
+
+export function buildEvalReport(
+  set: JudgedQuerySet,
+  rankings: Map<string, string[]>,
+): EvalReport {
+  const queries = set.queries.map((judged) => {
+    const results = rankings.get(judged.query) ?? []
+    return { query: judged.query, results, ...scoreRanking(results, judged.relevant, set.k) }
+  })
+  const mean = (key: keyof QueryMetrics) =>
+    queries.reduce((sum, entry) => sum + entry[key], 0) / Math.max(queries.length, 1)
+  return {
+    k: set.k,
+    queries,
+    aggregate: { ndcg: mean('ndcg'), mrr: mean('mrr'), recall: mean('recall') },
+  }
+}
+
+/** Plain-text table; with a baseline each metric gets a signed delta. */
+export function formatEvalReport(report: EvalReport, baseline?: EvalReport | null) {
+  const baselineByQuery = new Map(baseline?.queries.map((entry) => [entry.query, entry]))
+  const width = Math.max(24, ...report.queries.map((entry) => entry.query.length + 2))
+  const header = [
+    'query'.padEnd(width),
+    `nDCG@${report.k}`.padEnd(baseline ? 16 : 8),
+    'MRR'.padEnd(baseline ? 16 : 8),
+    `R@${report.k}`,
+  ].join('')
+  const row = (label: string, metrics: QueryMetrics, before?: QueryMetrics) =>
+    [
+      label.padEnd(width),
+      ...METRIC_KEYS.map((key, index) => {
+        const cell = before
+          ? `${metrics[key].toFixed(3)} ${formatDelta(metrics[key] - before[key])}`
+          : metrics[key].toFixed(3)
+        return index < METRIC_KEYS.length - 1 ? cell.padEnd(baseline ? 16 : 8) : cell
+      }),
+    ]
+      .join('')
+      .trimEnd()
+
+  const lines = [header]
+  for (const entry of report.queries) {
+    lines.push(row(entry.query, entry, baselineByQuery.get(entry.query)))
+  }
+  lines.push(
+    row(`mean (${report.queries.length} queries)`, report.aggregate, baseline?.aggregate),
+  )
+  return lines.join('\n')
+}
+
+function formatDelta(delta: number) {
+  if (Math.abs(delta) < 0.0005) return ' 0.000'
+  return `${delta > 0 ? '+' : '-'}${Math.abs(delta).toFixed(3)}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
@@ -1,4 +1,5 @@
 import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { getFunctionName } from 'convex/server'
 import { vi } from 'vitest'
 import { SkillDetailPage } from '../components/SkillDetailPage'
 
@@ -11,10 +12,11 @@ vi.mock('@tanstack/react-router', () => ({
 
 const useQueryMock = vi.fn()
 const getReadmeMock = vi.fn()
+const mutationMock = vi.fn()
 
 vi.mock('convex/react', () => ({
   useQuery: (...args: unknown[]) => useQueryMock(...args),
-  useMutation: () => vi.fn(),
+  useMutation: () => mutationMock,
   useAction: () => getReadmeMock,
 }))
 
@@ -26,6 +28,7 @@ describe('SkillDetailPage', () => {
   beforeEach(() => {
     useQueryMock.mockReset()
     getReadmeMock.mockReset()
+    mutationMock.mockReset()
     navigateMock.mockReset()
     useAuthStatusMock.mockReset()
     getReadmeMock.mockResolvedValue({ text: '' })
@@ -61,6 +64,42 @@ describe('SkillDetailPage', () => {
     expect(await screen.findByText(/Skill not found/i)).toBeTruthy()
   })
 
+  it('lets the owner of a hidden skill file an appeal', async () => {
+    useAuthStatusMock.mockReturnValue({
+      isAuthenticated: true,
+      isLoading: false,
+      me: { _id: 'users:1', role: 'user' },
+    })
+    useQueryMock.mockImplementation((fn: unknown, args: unknown) => {
+      if (args === 'skip') return undefined
+      if (getFunctionName(fn as never) === 'appeals:getForSkill') {
+        return {
+          decision: { kind: 'reports', label: 'Hidden after user reports', reason: 'auto.reports' },
+          canAppeal: true,
+          appeal: null,
+        }
+      }
+      return null
+    })
+    mutationMock.mockResolvedValue({ status: 'open' })
+
+    render(<SkillDetailPage slug="weather" />)
+    expect(await screen.findByText(/Skill not found/i)).toBeTruthy()
+    expect(screen.getByText('Hidden after user reports')).toBeTruthy()
+
+    fireEvent.click(screen.getByRole('button', { name: /appeal this decision/i }))
+    fireEvent.change(screen.getByLabelText('Appeal message'), {
+      target: { value: 'The reports were a brigade.' },
+    })
+    fireEvent.click(screen.getByRole('button', { name: /submit appeal/i }))
+    await waitFor(() => {
+      expect(mutationMock).toHaveBeenCalledWith({
+        slug: 'weather',
+        message: 'The reports were a brigade.',
+      })
+    })
+  })
+
   it('redirects legacy routes to canonical owner/slug', async () => {
     useQueryMock.mockImplementation((_fn: unknown, args: unknown) => {
       if (args === 'skip') return undefined
@@ -126,7 +126,7 @@ describe('SkillsIndex', () => {
     // When searching and results are empty, show "No skills match" not "Loading"
     // This tests the hasQuery condition in the empty state logic
     searchMock = { q: 'nonexistent-skill-xyz' }
-    const actionFn = vi.fn().mockResolvedValue([])
+    const actionFn = vi.fn().mockResolvedValue({ results: [] })
     convexReactMocks.useAction.mockReturnValue(actionFn)
     // Pagination is skipped in search mode, so status stays 'LoadingFirstPage'
     convexReactMocks.usePaginatedQuery.mockReturnValue({
@@ -148,7 +148,7 @@ describe('SkillsIndex', () => {
 
   it('skips list query and calls search when query is set', async () => {
     searchMock = { q: 'remind' }
-    const actionFn = vi.fn().mockResolvedValue([])
+    const actionFn = vi.fn().mockResolvedValue({ results: [] })
     convexReactMocks.useAction.mockReturnValue(actionFn)
     vi.useFakeTimers()
 
@@ -183,8 +183,8 @@ describe('SkillsIndex', () => {
     vi.stubGlobal('IntersectionObserver', undefined)
     const actionFn = vi
       .fn()
-      .mockResolvedValueOnce(makeSearchResults(25))
-      .mockResolvedValueOnce(makeSearchResults(50))
+      .mockResolvedValueOnce({ results: makeSearchResults(25) })
+      .mockResolvedValueOnce({ results: makeSearchResults(50) })
     convexReactMocks.useAction.mockReturnValue(actionFn)
     vi.useFakeTimers()
 
@@ -211,11 +211,13 @@ describe('SkillsIndex', () => {
     searchMock = { q: 'remind', sort: 'stars', dir: 'desc' }
     const actionFn = vi
       .fn()
-      .mockResolvedValue([
-        makeSearchEntry({ slug: 'skill-a', displayName: 'Skill A', stars: 5, updatedAt: 100 }),
-        makeSearchEntry({ slug: 'skill-b', displayName: 'Skill B', stars: 5, updatedAt: 200 }),
-        makeSearchEntry({ slug: 'skill-c', displayName: 'Skill C', stars: 4, updatedAt: 999 }),
-      ])
+      .mockResolvedValue({
+        results: [
+          makeSearchEntry({ slug: 'skill-a', displayName: 'Skill A', stars: 5, updatedAt: 100 }),
+          makeSearchEntry({ slug: 'skill-b', displayName: 'Skill B', stars: 5, updatedAt: 200 }),
+          makeSearchEntry({ slug: 'skill-c', displayName: 'Skill C', stars: 4, updatedAt: 999 }),
+        ],
+      })
     convexReactMocks.useAction.mockReturnValue(actionFn)
     vi.useFakeTimers()
 
@@ -237,10 +239,12 @@ describe('SkillsIndex', () => {
     searchMock = { q: 'notion' }
     const actionFn = vi
       .fn()
-      .mockResolvedValue([
-        makeSearchResult('newer-low-score', 'Newer Low Score', 0.1, 2000),
-        makeSearchResult('older-high-score', 'Older High Score', 0.9, 1000),
-      ])
+      .mockResolvedValue({
+        results: [
+          makeSearchResult('newer-low-score', 'Newer Low Score', 0.1, 2000),
+          makeSearchResult('older-high-score', 'Older High Score', 0.9, 1000),
+        ],
+      })
     convexReactMocks.useAction.mockReturnValue(actionFn)
     vi.useFakeTimers()
 
@@ -257,6 +261,48 @@ describe('SkillsIndex', () => {
     expect(titles[1]).toBe('Newer Low Score')
   })
 
+  it('sends facet filters from the URL and toggles facet values', async () => {
+    searchMock = { q: 'github', os: 'linux', env: 'none' }
+    const actionFn = vi.fn().mockResolvedValue({
+      results: [makeSearchResult('gh', 'GitHub', 0.9, 1000)],
+      facets: {
+        os: [
+          { value: 'linux', count: 4 },
+          { value: 'macos', count: 2 },
+        ],
+        bins: [],
+        env: [{ value: 'none', count: 1 }],
+        install: [],
+        nix: [],
+        badges: [],
+        owner: [],
+      },
+    })
+    convexReactMocks.useAction.mockReturnValue(actionFn)
+    vi.useFakeTimers()
+
+    render(<SkillsIndex />)
+    await act(async () => {
+      await vi.runAllTimersAsync()
+    })
+
+    expect(actionFn).toHaveBeenCalledWith({
+      query: 'github',
+      highlightedOnly: false,
+      nonSuspiciousOnly: false,
+      limit: 25,
+      filters: expect.objectContaining({ os: ['linux'], env: 'none' }),
+    })
+    const linux = screen.getByRole('button', { name: /Linux\s*4/ })
+    expect(linux.getAttribute('aria-pressed')).toBe('true')
+
+    fireEvent.click(screen.getByRole('button', { name: /macOS\s*2/ }))
+    const update = navigateMock.mock.calls.at(-1)?.[0] as {
+      search: (prev: Record<string, unknown>) => Record<string, unknown>
+    }
+    expect(update.search({ q: 'github', os: 'linux' })).toEqual({ q: 'github', os: 'linux,macos' })
+  })
+
   it('passes nonSuspiciousOnly to list query when filter is active', () => {
     searchMock = { nonSuspicious: true }
     render(<SkillsIndex />)
@@ -0,0 +1,159 @@
+import { Link } from '@tanstack/react-router'
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+
+type AppealResolution = 'accept' | 'reject' | 'request_changes'
+
+type AppealQueueEntry = {
+  _id: Id<'appeals'>
+  message: string
+  decision: { kind: string; reason?: string; flags?: string[] }
+  createdAt: number
+  appellantHandle: string | null
+  ownerHandle: string | null
+  skill: {
+    _id: Id<'skills'>
+    slug: string
+    displayName: string
+    ownerUserId: Id<'users'>
+    moderationStatus: string
+    moderationReason: string | null
+    moderationFlags: string[]
+    reportCount: number
+  }
+}
+
+const RESOLUTION_LABELS: Record<AppealResolution, string> = {
+  accept: 'Accept',
+  request_changes: 'Request changes',
+  reject: 'Reject',
+}
+
+function formatResolveError(error: unknown) {
+  if (error instanceof Error) {
+    const cleaned = error.message
+      .replace(/\[CONVEX[^\]]*\]\s*/g, '')
+      .replace(/\[Request ID:[^\]]*\]\s*/g, '')
+      .replace(/^Server Error Called by client\s*/i, '')
+      .replace(/^ConvexError:\s*/i, '')
+      .trim()
+    if (cleaned && cleaned !== 'Server Error') return cleaned
+  }
+  return 'Could not resolve the appeal.'
+}
+
+/** Moderator queue for owner appeals; accepting lifts the decision on the skill. */
+export function AppealQueue() {
+  const appeals = useQuery(api.appeals.listQueue) as AppealQueueEntry[] | undefined
+  const resolveAppeal = useMutation(api.appeals.resolve)
+  const [responses, setResponses] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [pendingId, setPendingId] = useState<Id<'appeals'> | null>(null)
+
+  if (!appeals) return <div className="stat">Loading appeals…</div>
+
+  async function onResolve(appealId: Id<'appeals'>, resolution: AppealResolution) {
+    setPendingId(appealId)
+    setErrors((current) => ({ ...current, [appealId]: '' }))
+    try {
+      await resolveAppeal({
+        appealId,
+        resolution,
+        response: responses[appealId]?.trim() || undefined,
+      })
+    } catch (error) {
+      setErrors((current) => ({ ...current, [appealId]: formatResolveError(error) }))
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <>
+      <p className="section-subtitle">
+        Oldest first. Accept restores the skill and clears its block flags; reject and request
+        changes need a response for the owner. Every action is written to the audit log.
+      </p>
+      <div className="management-list">
+        {appeals.length === 0 ? (
+          <div className="stat">No open appeals.</div>
+        ) : (
+          appeals.map((entry) => {
+            const { skill } = entry
+            const owner = entry.ownerHandle ?? String(skill.ownerUserId)
+            return (
+              <div key={entry._id} className="management-item">
+                <div className="management-item-main">
+                  <Link to="/management" search={{ skill: skill.slug }}>
+                    {skill.displayName}
+                  </Link>
+                  <div className="section-subtitle" style={{ margin: 0 }}>
+                    @{owner} · {entry.decision.kind}
+                    {entry.decision.reason ? ` (${entry.decision.reason})` : ''} · now{' '}
+                    {skill.moderationStatus} · {skill.reportCount} report
+                    {skill.reportCount === 1 ? '' : 's'} · filed {formatTimestamp(entry.createdAt)}
+                    {entry.appellantHandle && entry.appellantHandle !== entry.ownerHandle
+                      ? ` by @${entry.appellantHandle}`
+                      : ''}
+                  </div>
+                  {skill.moderationFlags.length ? (
+                    <div className="management-tags">
+                      {skill.moderationFlags.map((flag) => (
+                        <span key={flag} className="tag">
+                          {flag}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                  <div className="management-sublist">
+                    <div className="management-report-item">
+                      <span>{entry.message}</span>
+                    </div>
+                  </div>
+                  <div className="management-controls">
+                    <div className="management-control management-search">
+                      <span className="mono">Response</span>
+                      <input
+                        value={responses[entry._id] ?? ''}
+                        maxLength={1000}
+                        placeholder="Shown to the owner"
+                        onChange={(event) =>
+                          setResponses((current) => ({
+                            ...current,
+                            [entry._id]: event.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+                    {errors[entry._id] ? (
+                      <div className="management-count">{errors[entry._id]}</div>
+                    ) : null}
+                  </div>
+                </div>
+                <div className="management-actions">
+                  {(Object.keys(RESOLUTION_LABELS) as AppealResolution[]).map((resolution) => (
+                    <button
+                      key={resolution}
+                      className="btn"
+                      type="button"
+                      disabled={pendingId === entry._id}
+                      onClick={() => void onResolve(entry._id, resolution)}
+                    >
+                      {RESOLUTION_LABELS[resolution]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </>
+  )
+}
+
+function formatTimestamp(value: number) {
+  return new Date(value).toLocaleString()
+}
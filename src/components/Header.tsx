@@ -1,7 +1,9 @@
 import { useAuthActions } from '@convex-dev/auth/react'
 import { Link } from '@tanstack/react-router'
-import { Menu, Monitor, Moon, Sun } from 'lucide-react'
+import { useQuery } from 'convex/react'
+import { Bell, Menu, Monitor, Moon, Sun } from 'lucide-react'
 import { useMemo, useRef } from 'react'
+import { api } from '../../convex/_generated/api'
 import { gravatarUrl } from '../lib/gravatar'
 import { isModerator } from '../lib/roles'
 import { getClawHubSiteUrl, getSiteMode, getSiteName } from '../lib/site'
@@ -32,6 +34,8 @@ export default function Header() {
   const initial = (me?.displayName ?? me?.name ?? handle).charAt(0).toUpperCase()
   const isStaff = isModerator(me)
   const signInRedirectTo = getCurrentRelativeUrl()
+  const unreadCount = useQuery(api.notifications.unreadCount, isAuthenticated && me ? {} : 'skip')
+  const unreadLabel = unreadCount && unreadCount >= 100 ? '99+' : String(unreadCount ?? 0)
 
   const setTheme = (next: 'system' | 'light' | 'dark') => {
     startThemeTransition({
@@ -118,6 +122,12 @@ export default function Header() {
           >
             Search
           </Link>
+          {isSoulMode ? null : (
+            <Link to="/leaderboards" search={{ board: undefined }}>
+              Leaderboards
+            </Link>
+          )}
+          {isSoulMode ? null : <Link to="/collections">Collections</Link>}
           {me ? <Link to="/stars">Stars</Link> : null}
           {isStaff ? (
             <Link to="/management" search={{ skill: undefined }}>
@@ -206,6 +216,18 @@ export default function Header() {
                     Search
                   </Link>
                 </DropdownMenuItem>
+                {isSoulMode ? null : (
+                  <DropdownMenuItem asChild>
+                    <Link to="/leaderboards" search={{ board: undefined }}>
+                      Leaderboards
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {isSoulMode ? null : (
+                  <DropdownMenuItem asChild>
+                    <Link to="/collections">Collections</Link>
+                  </DropdownMenuItem>
+                )}
                 {me ? (
                   <DropdownMenuItem asChild>
                     <Link to="/stars">Stars</Link>
@@ -258,6 +280,16 @@ export default function Header() {
               </ToggleGroupItem>
             </ToggleGroup>
           </div>
+          {isAuthenticated && me ? (
+            <Link
+              to="/notifications"
+              className="notification-bell"
+              aria-label={unreadCount ? `Notifications (${unreadLabel} unread)` : 'Notifications'}
+            >
+              <Bell className="h-4 w-4" aria-hidden="true" />
+              {unreadCount ? <span className="notification-badge">{unreadLabel}</span> : null}
+            </Link>
+          ) : null}
           {isAuthenticated && me ? (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -275,6 +307,9 @@ export default function Header() {
                 <DropdownMenuItem asChild>
                   <Link to="/dashboard">Dashboard</Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/notifications">Notifications</Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link to="/settings">Settings</Link>
                 </DropdownMenuItem>
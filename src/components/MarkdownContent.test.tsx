@@ -0,0 +1,25 @@
+import { render } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import { MarkdownContent } from './MarkdownContent'
+
+describe('MarkdownContent', () => {
+  it('links @mentions outside code and drops raw html', () => {
+    const { container } = render(
+      <MarkdownContent mentions>
+        {'thanks @alice, see `@code` and <script>alert(1)</script>'}
+      </MarkdownContent>,
+    )
+
+    const links = Array.from(container.querySelectorAll('a'))
+    expect(links.map((link) => [link.textContent, link.getAttribute('href')])).toEqual([
+      ['@alice', '/u/alice'],
+    ])
+    expect(container.querySelector('code')?.textContent).toBe('@code')
+    expect(container.querySelector('script')).toBeNull()
+  })
+
+  it('leaves mentions as text unless enabled', () => {
+    const { container } = render(<MarkdownContent>{'ping @alice'}</MarkdownContent>)
+    expect(container.querySelector('a')).toBeNull()
+  })
+})
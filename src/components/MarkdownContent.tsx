@@ -0,0 +1,62 @@
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+
+type MarkdownNode = {
+  type: string
+  value?: string
+  url?: string
+  children?: MarkdownNode[]
+}
+
+// Mirrors the server-side mention pattern in convex/lib/comments.ts.
+const MENTION_PATTERN = /(^|[^\w@./-])@([a-z0-9][a-z0-9-]{0,38})/gi
+
+function splitMentions(value: string): MarkdownNode[] {
+  const nodes: MarkdownNode[] = []
+  let cursor = 0
+  for (const match of value.matchAll(MENTION_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length
+    if (start > cursor) nodes.push({ type: 'text', value: value.slice(cursor, start) })
+    const handle = match[2]
+    nodes.push({
+      type: 'link',
+      url: `/u/${encodeURIComponent(handle)}`,
+      children: [{ type: 'text', value: `@${handle}` }],
+    })
+    cursor = start + handle.length + 1
+  }
+  if (cursor === 0) return [{ type: 'text', value }]
+  if (cursor < value.length) nodes.push({ type: 'text', value: value.slice(cursor) })
+  return nodes
+}
+
+function linkMentions(node: MarkdownNode) {
+  // Code nodes carry `value` rather than text children, so they are never rewritten.
+  if (!node.children || node.type === 'link' || node.type === 'linkReference') return
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text') return splitMentions(child.value ?? '')
+    linkMentions(child)
+    return [child]
+  })
+}
+
+function remarkMentions() {
+  return (tree: MarkdownNode) => linkMentions(tree)
+}
+
+type MarkdownContentProps = {
+  children: string
+  mentions?: boolean
+}
+
+/**
+ * The one markdown renderer for user content (SKILL.md, SOUL.md, comments). react-markdown
+ * drops raw HTML and unsafe URLs by default, so every surface shares the same sanitizing.
+ */
+export function MarkdownContent({ children, mentions = false }: MarkdownContentProps) {
+  return (
+    <ReactMarkdown remarkPlugins={mentions ? [remarkGfm, remarkMentions] : [remarkGfm]}>
+      {children}
+    </ReactMarkdown>
+  )
+}
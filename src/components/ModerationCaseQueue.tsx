@@ -0,0 +1,395 @@
+import { Link } from '@tanstack/react-router'
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+
+type CaseKind = 'skill_report' | 'comment_report' | 'scanner_flag' | 'quality_quarantine' | 'appeal'
+type CaseStatus = 'open' | 'in_progress' | 'resolved' | 'dismissed'
+type QueueStatus = 'active' | CaseStatus
+type AssigneeFilter = 'all' | 'me' | 'unassigned'
+type CaseAction = 'assign_to_me' | 'unassign' | 'start' | 'resolve' | 'dismiss' | 'reopen'
+type SlaState = 'ok' | 'due_soon' | 'overdue' | 'closed'
+
+type CaseEntry = {
+  _id: Id<'moderationCases'>
+  kind: CaseKind
+  status: CaseStatus
+  summary: string
+  signalCount: number
+  noteCount: number
+  createdAt: number
+  slaDueAt: number
+  slaState: SlaState
+  ageMs: number
+  assignee: { userId: Id<'users'>; handle: string | null } | null
+  assignedToMe: boolean
+  target: {
+    type: 'skill' | 'comment'
+    id: string
+    skill: {
+      slug: string
+      displayName: string
+      ownerParam: string
+      moderationStatus: string
+    } | null
+    commentBody: string | null
+  }
+}
+
+type CaseHistory = {
+  notes: Array<{ body: string; createdAt: number; authorHandle: string | null }>
+  auditLogs: Array<{
+    _id: string
+    action: string
+    createdAt: number
+    actorHandle: string | null
+  }>
+}
+
+const KIND_LABELS: Record<CaseKind, string> = {
+  skill_report: 'Skill report',
+  comment_report: 'Comment report',
+  scanner_flag: 'Scanner flag',
+  quality_quarantine: 'Quality quarantine',
+  appeal: 'Appeal',
+}
+
+const STATUS_LABELS: Record<QueueStatus, string> = {
+  active: 'Open + in progress',
+  open: 'Open',
+  in_progress: 'In progress',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+}
+
+const ACTION_LABELS: Record<CaseAction, string> = {
+  assign_to_me: 'Assign to me',
+  unassign: 'Unassign',
+  start: 'Start',
+  resolve: 'Resolve',
+  dismiss: 'Dismiss',
+  reopen: 'Reopen',
+}
+
+const SLA_TAG_CLASS: Record<SlaState, string> = {
+  ok: 'tag',
+  due_soon: 'tag tag-pending',
+  overdue: 'tag tag-accent',
+  closed: 'tag tag-compact',
+}
+
+function formatQueueError(error: unknown) {
+  if (error instanceof Error) {
+    const cleaned = error.message
+      .replace(/\[CONVEX[^\]]*\]\s*/g, '')
+      .replace(/\[Request ID:[^\]]*\]\s*/g, '')
+      .replace(/^Server Error Called by client\s*/i, '')
+      .replace(/^ConvexError:\s*/i, '')
+      .trim()
+    if (cleaned && cleaned !== 'Server Error') return cleaned
+  }
+  return 'Could not update the queue.'
+}
+
+/**
+ * Every moderation signal (reports, scanner flags, quarantines, appeals) as a case with an
+ * assignee, status, internal notes and SLA, worked one at a time or in bulk.
+ */
+export function ModerationCaseQueue() {
+  const [status, setStatus] = useState<QueueStatus>('active')
+  const [kind, setKind] = useState<CaseKind | 'all'>('all')
+  const [assignee, setAssignee] = useState<AssigneeFilter>('all')
+  const [selected, setSelected] = useState<Set<Id<'moderationCases'>>>(() => new Set())
+  const [expandedId, setExpandedId] = useState<Id<'moderationCases'> | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const cases = useQuery(api.moderationCases.listQueue, {
+    status,
+    kind: kind === 'all' ? undefined : kind,
+    assignee,
+  }) as CaseEntry[] | undefined
+  const bulkUpdate = useMutation(api.moderationCases.bulkUpdate)
+
+  const visibleIds = (cases ?? []).map((entry) => entry._id)
+  const selectedIds = visibleIds.filter((id) => selected.has(id))
+  const allSelected = visibleIds.length > 0 && selectedIds.length === visibleIds.length
+  const overdueCount = (cases ?? []).filter((entry) => entry.slaState === 'overdue').length
+
+  function toggle(id: Id<'moderationCases'>) {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  async function runAction(action: CaseAction, caseIds: Id<'moderationCases'>[]) {
+    if (caseIds.length === 0) return
+    setIsUpdating(true)
+    setMessage(null)
+    try {
+      const result = await bulkUpdate({ caseIds, action })
+      setMessage(
+        `${ACTION_LABELS[action]}: ${result.updated} updated` +
+          (result.skipped ? `, ${result.skipped} skipped` : ''),
+      )
+      setSelected(new Set())
+    } catch (error) {
+      setMessage(formatQueueError(error))
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="management-controls">
+        <label className="management-control">
+          <span className="mono">status</span>
+          <select
+            value={status}
+            onChange={(event) => setStatus(event.target.value as QueueStatus)}
+          >
+            {(Object.keys(STATUS_LABELS) as QueueStatus[]).map((value) => (
+              <option key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="management-control">
+          <span className="mono">kind</span>
+          <select
+            value={kind}
+            onChange={(event) => setKind(event.target.value as CaseKind | 'all')}
+          >
+            <option value="all">All kinds</option>
+            {(Object.keys(KIND_LABELS) as CaseKind[]).map((value) => (
+              <option key={value} value={value}>
+                {KIND_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="management-control">
+          <span className="mono">assignee</span>
+          <select
+            value={assignee}
+            onChange={(event) => setAssignee(event.target.value as AssigneeFilter)}
+          >
+            <option value="all">Anyone</option>
+            <option value="me">Me</option>
+            <option value="unassigned">Unassigned</option>
+          </select>
+        </label>
+        <div className="management-count">
+          {cases
+            ? `${cases.length} case${cases.length === 1 ? '' : 's'}` +
+              (overdueCount ? ` · ${overdueCount} overdue` : '')
+            : 'Loading cases…'}
+        </div>
+      </div>
+      <div className="management-controls" style={{ marginTop: 10 }}>
+        <label className="management-control">
+          <input
+            type="checkbox"
+            aria-label="Select all cases"
+            checked={allSelected}
+            disabled={visibleIds.length === 0}
+            onChange={() => setSelected(allSelected ? new Set() : new Set(visibleIds))}
+          />
+          <span className="mono">{selectedIds.length} selected</span>
+        </label>
+        {(Object.keys(ACTION_LABELS) as CaseAction[]).map((action) => (
+          <button
+            key={action}
+            className="btn"
+            type="button"
+            disabled={isUpdating || selectedIds.length === 0}
+            onClick={() => void runAction(action, selectedIds)}
+          >
+            {ACTION_LABELS[action]}
+          </button>
+        ))}
+        {message ? <div className="management-count">{message}</div> : null}
+      </div>
+      <div className="management-list">
+        {cases && cases.length === 0 ? <div className="stat">No cases.</div> : null}
+        {(cases ?? []).map((entry) => {
+          const { skill } = entry.target
+          const isOpen = entry.status === 'open' || entry.status === 'in_progress'
+          return (
+            <div key={entry._id} className="management-item">
+              <div className="management-item-main">
+                <div className="management-tags">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select case ${entry.summary}`}
+                    checked={selected.has(entry._id)}
+                    onChange={() => toggle(entry._id)}
+                  />
+                  <span className="tag tag-compact">{KIND_LABELS[entry.kind]}</span>
+                  <span className={SLA_TAG_CLASS[entry.slaState]}>
+                    {formatSla(entry.slaState, entry.slaDueAt)}
+                  </span>
+                  {skill ? (
+                    <Link
+                      to="/$owner/$slug"
+                      params={{ owner: skill.ownerParam, slug: skill.slug }}
+                    >
+                      {skill.displayName}
+                    </Link>
+                  ) : (
+                    <span className="mono">{entry.target.id}</span>
+                  )}
+                </div>
+                <div>{entry.summary}</div>
+                {entry.target.commentBody ? (
+                  <div className="management-sublist">
+                    <div className="management-report-item">
+                      <span>{entry.target.commentBody}</span>
+                    </div>
+                  </div>
+                ) : null}
+                <div className="section-subtitle" style={{ margin: 0 }}>
+                  {STATUS_LABELS[entry.status]} ·{' '}
+                  {entry.assignee
+                    ? `assigned to @${entry.assignee.handle ?? 'moderator'}`
+                    : 'unassigned'}{' '}
+                  · opened {formatDuration(entry.ageMs)} ago · {entry.signalCount} signal
+                  {entry.signalCount === 1 ? '' : 's'} · {entry.noteCount} note
+                  {entry.noteCount === 1 ? '' : 's'}
+                  {skill ? ` · skill ${skill.moderationStatus}` : ''}
+                </div>
+                {expandedId === entry._id ? <CaseDetails caseId={entry._id} /> : null}
+              </div>
+              <div className="management-actions">
+                {isOpen && !entry.assignedToMe ? (
+                  <button
+                    className="btn"
+                    type="button"
+                    disabled={isUpdating}
+                    onClick={() => void runAction('assign_to_me', [entry._id])}
+                  >
+                    Take
+                  </button>
+                ) : null}
+                {isOpen ? (
+                  <button
+                    className="btn"
+                    type="button"
+                    disabled={isUpdating}
+                    onClick={() => void runAction('resolve', [entry._id])}
+                  >
+                    Resolve
+                  </button>
+                ) : null}
+                <button
+                  className="btn btn-ghost"
+                  type="button"
+                  onClick={() => setExpandedId(expandedId === entry._id ? null : entry._id)}
+                >
+                  {expandedId === entry._id ? 'Hide history' : 'Notes & history'}
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </>
+  )
+}
+
+function CaseDetails({ caseId }: { caseId: Id<'moderationCases'> }) {
+  const history = useQuery(api.moderationCases.getHistory, { caseId }) as
+    | CaseHistory
+    | null
+    | undefined
+  const addNote = useMutation(api.moderationCases.addNote)
+  const [note, setNote] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  async function submit() {
+    if (!note.trim()) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await addNote({ caseId, body: note })
+      setNote('')
+    } catch (submitError) {
+      setError(formatQueueError(submitError))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (history === undefined) return <div className="stat">Loading history…</div>
+  if (!history) return <div className="stat">Case not found.</div>
+
+  return (
+    <div className="management-sublist">
+      {history.notes.map((entry) => (
+        <div key={entry.createdAt} className="management-report-item">
+          <span>{entry.body}</span>
+          <span className="management-report-meta">
+            note by @{entry.authorHandle ?? 'moderator'} · {formatTimestamp(entry.createdAt)}
+          </span>
+        </div>
+      ))}
+      <form
+        className="management-controls"
+        onSubmit={(event) => {
+          event.preventDefault()
+          void submit()
+        }}
+      >
+        <div className="management-control management-search">
+          <input
+            aria-label="Internal note"
+            placeholder="Internal note (moderators only)"
+            value={note}
+            maxLength={1000}
+            onChange={(event) => setNote(event.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+        <button className="btn" type="submit" disabled={isSaving || !note.trim()}>
+          Add note
+        </button>
+        {error ? <div className="management-count">{error}</div> : null}
+      </form>
+      {history.auditLogs.length === 0 ? (
+        <div className="management-report-meta">No audit log entries for this target.</div>
+      ) : (
+        history.auditLogs.map((log) => (
+          <div key={log._id} className="management-report-meta">
+            <span className="mono">{log.action}</span> by @{log.actorHandle ?? 'unknown'} ·{' '}
+            {formatTimestamp(log.createdAt)}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+function formatSla(state: SlaState, dueAt: number) {
+  if (state === 'closed') return 'closed'
+  const remaining = dueAt - Date.now()
+  if (remaining <= 0) return `overdue ${formatDuration(-remaining)}`
+  return `due in ${formatDuration(remaining)}`
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.max(1, Math.round(ms / 60_000))
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.round(minutes / 60)
+  if (hours < 48) return `${hours}h`
+  return `${Math.round(hours / 24)}d`
+}
+
+function formatTimestamp(value: number) {
+  return new Date(value).toLocaleString()
+}
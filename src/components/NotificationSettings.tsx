@@ -0,0 +1,112 @@
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+
+const NOTIFICATION_KIND_OPTIONS = [
+  { value: 'starred.version', label: 'New version of a starred skill' },
+  { value: 'skill.moderation', label: 'Moderation status change on my skills' },
+  { value: 'skill.verdict', label: 'VirusTotal verdict change on my skills' },
+  { value: 'skill.comment', label: 'New comment on my skills' },
+  { value: 'comment.mention', label: 'Someone @mentioned me in a comment' },
+  { value: 'star.milestone', label: 'My skill reached a star milestone' },
+  { value: 'skill.appeal', label: 'A moderator answered my appeal' },
+  { value: 'account.ban', label: 'My account was banned' },
+  { value: 'account.unban', label: 'My account was reinstated' },
+] as const
+
+const DIGEST_OPTIONS = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly (Mondays)' },
+] as const
+
+type DigestFrequency = (typeof DIGEST_OPTIONS)[number]['value']
+
+type NotificationPreferences = {
+  muted: string[]
+  required: string[]
+  digest: DigestFrequency
+  hasEmail: boolean
+}
+
+export function NotificationSettings() {
+  const preferences = useQuery(api.notifications.getPreferences) as
+    | NotificationPreferences
+    | undefined
+  const updatePreferences = useMutation(api.notifications.updatePreferences)
+  const updateDigest = useMutation(api.notifications.updateDigest)
+  const [error, setError] = useState<string | null>(null)
+
+  async function toggleKind(value: string, enabled: boolean) {
+    if (!preferences) return
+    setError(null)
+    const muted = enabled
+      ? preferences.muted.filter((kind) => kind !== value)
+      : [...preferences.muted, value]
+    try {
+      await updatePreferences({ muted })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update notifications.')
+    }
+  }
+
+  async function setDigest(frequency: DigestFrequency) {
+    setError(null)
+    try {
+      await updateDigest({ frequency })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update the email digest.')
+    }
+  }
+
+  return (
+    <div className="card settings-card">
+      <h2 className="section-title danger-title" style={{ marginTop: 0 }}>
+        Notifications
+      </h2>
+      <p className="section-subtitle">
+        Choose what shows up in your inbox. Account notices are always delivered.
+      </p>
+      <div className="settings-field">
+        <span>Notify me about</span>
+        <div className="token-scopes">
+          {NOTIFICATION_KIND_OPTIONS.map((option) => {
+            const required = preferences?.required.includes(option.value) ?? false
+            return (
+              <label key={option.value} className="token-scope">
+                <input
+                  type="checkbox"
+                  checked={required || !preferences?.muted.includes(option.value)}
+                  disabled={!preferences || required}
+                  onChange={(event) => void toggleKind(option.value, event.target.checked)}
+                />
+                <span>{option.label}</span>
+              </label>
+            )
+          })}
+        </div>
+      </div>
+      <div className="settings-field">
+        <span>Email digest</span>
+        <select
+          className="settings-input"
+          value={preferences?.digest ?? 'off'}
+          disabled={!preferences || (!preferences.hasEmail && preferences.digest === 'off')}
+          onChange={(event) => void setDigest(event.target.value as DigestFrequency)}
+        >
+          {DIGEST_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="section-subtitle">
+        {preferences && !preferences.hasEmail
+          ? 'Your account has no email address, so digests are unavailable.'
+          : 'A summary of unread updates on starred skills, comments and moderation, by email.'}
+      </p>
+      {error ? <div className="stat">{error}</div> : null}
+    </div>
+  )
+}
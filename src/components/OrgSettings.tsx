@@ -0,0 +1,255 @@
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import type { PublicOrg, PublicUser } from '../lib/publicUser'
+
+type OrgRole = 'owner' | 'maintainer' | 'member'
+
+const ORG_ROLE_OPTIONS: OrgRole[] = ['owner', 'maintainer', 'member']
+
+type MyOrg = { org: PublicOrg; role: OrgRole }
+
+type OrgDetail = {
+  org: PublicOrg | null
+  members: Array<{ user: PublicUser; role: OrgRole }>
+  skills: Array<{ _id: Id<'skills'>; slug: string; displayName: string }>
+} | null
+
+export function OrgSettings() {
+  const orgs = useQuery(api.orgs.listMine) as MyOrg[] | undefined
+  const createOrg = useMutation(api.orgs.create)
+  const [handle, setHandle] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [expandedHandle, setExpandedHandle] = useState<string | null>(null)
+
+  async function onCreate() {
+    setError(null)
+    try {
+      await createOrg({ handle: handle.trim(), displayName: displayName.trim() || undefined })
+      setHandle('')
+      setDisplayName('')
+    } catch (err) {
+      setError(formatError(err, 'Could not create org.'))
+    }
+  }
+
+  return (
+    <div className="card settings-card">
+      <h2 className="section-title danger-title" style={{ marginTop: 0 }}>
+        Organizations
+      </h2>
+      <p className="section-subtitle">
+        Orgs own skills together. Owners manage members; owners and maintainers can publish
+        (`clawhub publish --org &lt;handle&gt;`). Org skills live at `@org/slug`.
+      </p>
+
+      <div className="settings-field">
+        <span>Handle</span>
+        <input
+          className="settings-input"
+          value={handle}
+          onChange={(event) => setHandle(event.target.value)}
+          placeholder="acme"
+        />
+      </div>
+      <div className="settings-field">
+        <span>Display name</span>
+        <input
+          className="settings-input"
+          value={displayName}
+          onChange={(event) => setDisplayName(event.target.value)}
+          placeholder="Acme Labs"
+        />
+      </div>
+      <div className="settings-actions">
+        <button
+          className="btn btn-primary settings-save"
+          type="button"
+          disabled={!handle.trim()}
+          onClick={() => void onCreate()}
+        >
+          Create org
+        </button>
+        {error ? <div className="stat">{error}</div> : null}
+      </div>
+
+      {(orgs ?? []).length ? (
+        <div style={{ display: 'grid', gap: 10, marginTop: 16 }}>
+          {(orgs ?? []).map(({ org, role }) => (
+            <div key={org._id} className="stat">
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}>
+                <div>
+                  <strong>@{org.handle}</strong>{' '}
+                  <span style={{ opacity: 0.7 }}>
+                    {org.displayName} · {role}
+                  </span>
+                </div>
+                <button
+                  className="btn"
+                  type="button"
+                  onClick={() =>
+                    setExpandedHandle((current) => (current === org.handle ? null : org.handle))
+                  }
+                >
+                  {expandedHandle === org.handle ? 'Close' : 'Manage'}
+                </button>
+              </div>
+              {expandedHandle === org.handle ? <OrgManager handle={org.handle} role={role} /> : null}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="section-subtitle" style={{ marginTop: 16 }}>
+          You are not in any orgs yet.
+        </p>
+      )}
+    </div>
+  )
+}
+
+function OrgManager({ handle, role }: { handle: string; role: OrgRole }) {
+  const detail = useQuery(api.orgs.getByHandle, { handle }) as OrgDetail | undefined
+  const addMember = useMutation(api.orgs.addMember)
+  const setMemberRole = useMutation(api.orgs.setMemberRole)
+  const removeMember = useMutation(api.orgs.removeMember)
+  const transferSkill = useMutation(api.orgs.transferSkill)
+  const [memberHandle, setMemberHandle] = useState('')
+  const [memberRole, setMemberRoleInput] = useState<OrgRole>('member')
+  const [skillSlug, setSkillSlug] = useState('')
+  const [status, setStatus] = useState<string | null>(null)
+
+  if (!detail?.org) return <div style={{ marginTop: 10, opacity: 0.7 }}>Loading…</div>
+  const orgId = detail.org._id
+  const isOwner = role === 'owner'
+  const canPublish = role === 'owner' || role === 'maintainer'
+
+  async function run(action: () => Promise<unknown>, done: string) {
+    setStatus(null)
+    try {
+      await action()
+      setStatus(done)
+    } catch (err) {
+      setStatus(formatError(err, 'Request failed.'))
+    }
+  }
+
+  return (
+    <div className="org-manager">
+      <ul className="org-members">
+        {detail.members.map((member) => (
+          <li key={member.user._id}>
+            <span>@{member.user.handle ?? member.user.name ?? 'user'}</span>
+            {isOwner ? (
+              <select
+                className="settings-input org-role-select"
+                value={member.role}
+                onChange={(event) =>
+                  void run(
+                    () =>
+                      setMemberRole({
+                        orgId,
+                        userId: member.user._id,
+                        role: event.target.value as OrgRole,
+                      }),
+                    'Role updated.',
+                  )
+                }
+              >
+                {ORG_ROLE_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span style={{ opacity: 0.7 }}>{member.role}</span>
+            )}
+            {isOwner ? (
+              <button
+                className="btn btn-sm"
+                type="button"
+                onClick={() =>
+                  void run(() => removeMember({ orgId, userId: member.user._id }), 'Member removed.')
+                }
+              >
+                Remove
+              </button>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner ? (
+        <div className="org-inline-form">
+          <input
+            className="settings-input"
+            value={memberHandle}
+            onChange={(event) => setMemberHandle(event.target.value)}
+            placeholder="GitHub handle"
+          />
+          <select
+            className="settings-input org-role-select"
+            value={memberRole}
+            onChange={(event) => setMemberRoleInput(event.target.value as OrgRole)}
+          >
+            {ORG_ROLE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <button
+            className="btn"
+            type="button"
+            disabled={!memberHandle.trim()}
+            onClick={() =>
+              void run(async () => {
+                await addMember({ orgId, handle: memberHandle.trim(), role: memberRole })
+                setMemberHandle('')
+              }, 'Member added.')
+            }
+          >
+            Add member
+          </button>
+        </div>
+      ) : null}
+
+      {canPublish ? (
+        <div className="org-inline-form">
+          <input
+            className="settings-input"
+            value={skillSlug}
+            onChange={(event) => setSkillSlug(event.target.value)}
+            placeholder="Slug of a skill you own"
+          />
+          <button
+            className="btn"
+            type="button"
+            disabled={!skillSlug.trim()}
+            onClick={() =>
+              void run(async () => {
+                await transferSkill({ orgId, slug: skillSlug.trim() })
+                setSkillSlug('')
+              }, 'Skill moved to the org.')
+            }
+          >
+            Move skill to org
+          </button>
+        </div>
+      ) : null}
+
+      {detail.skills.length ? (
+        <div style={{ opacity: 0.7 }}>
+          Skills: {detail.skills.map((skill) => `@${handle}/${skill.slug}`).join(', ')}
+        </div>
+      ) : null}
+      {status ? <div style={{ marginTop: 8 }}>{status}</div> : null}
+    </div>
+  )
+}
+
+function formatError(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback
+}
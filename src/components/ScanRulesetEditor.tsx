@@ -0,0 +1,147 @@
+import { useConvex, useMutation, useQuery } from 'convex/react'
+import { useEffect, useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { YaraRule } from '../../convex/lib/yaraRules'
+
+type RulesetHistoryEntry = {
+  version: number
+  ruleCount: number
+  notes: string | null
+  createdAt: number
+  createdByHandle: string | null
+}
+
+type RulesetList = {
+  active: { version: number; rules: YaraRule[] }
+  defaults: YaraRule[]
+  history: RulesetHistoryEntry[]
+}
+
+function formatRules(rules: YaraRule[]) {
+  return JSON.stringify(rules, null, 2)
+}
+
+function formatSaveError(error: unknown) {
+  if (error instanceof Error) {
+    const cleaned = error.message
+      .replace(/\[CONVEX[^\]]*\]\s*/g, '')
+      .replace(/\[Request ID:[^\]]*\]\s*/g, '')
+      .replace(/^Server Error Called by client\s*/i, '')
+      .replace(/^ConvexError:\s*/i, '')
+      .trim()
+    if (cleaned && cleaned !== 'Server Error') return cleaned
+  }
+  return 'Could not save the ruleset.'
+}
+
+/** Admin editor for the static heuristics that run on every publish (see lib/yaraRules). */
+export function ScanRulesetEditor() {
+  const convex = useConvex()
+  const rulesets = useQuery(api.scanRulesets.list) as RulesetList | undefined
+  const publishRuleset = useMutation(api.scanRulesets.publish)
+  const [draft, setDraft] = useState<string | null>(null)
+  const [notes, setNotes] = useState('')
+  const [status, setStatus] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (rulesets && draft === null) setDraft(formatRules(rulesets.active.rules))
+  }, [rulesets, draft])
+
+  if (!rulesets) {
+    return <div className="stat">Loading rules…</div>
+  }
+
+  async function onLoad(version: number) {
+    setStatus(null)
+    const ruleset = await convex.query(api.scanRulesets.get, { version })
+    if (!ruleset) {
+      setStatus(`Ruleset v${version} not found.`)
+      return
+    }
+    setDraft(formatRules(ruleset.rules))
+    setStatus(`Loaded v${version}. Save to make it the active ruleset.`)
+  }
+
+  async function onSave() {
+    if (draft === null) return
+    setSaving(true)
+    setStatus(null)
+    try {
+      const result = await publishRuleset({ rulesJson: draft, notes: notes.trim() || undefined })
+      setNotes('')
+      setStatus(`Published v${result.version} with ${result.ruleCount} rules.`)
+    } catch (error) {
+      setStatus(formatSaveError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <p className="section-subtitle">
+        Active ruleset v{rulesets.active.version}
+        {rulesets.active.version === 0 ? ' (built-in)' : ''}. Rules run on every publish; each
+        rule needs an id, description, severity, strings (literal or /regex/flags) and a
+        condition. Rescan older versions with scanners:scanVersionLocally.
+      </p>
+      <textarea
+        className="settings-input mono"
+        style={{ width: '100%', minHeight: 320, resize: 'vertical', fontSize: 12 }}
+        spellCheck={false}
+        value={draft ?? ''}
+        onChange={(event) => setDraft(event.target.value)}
+        aria-label="Scan rules (JSON)"
+      />
+      <div className="management-controls" style={{ marginTop: 10 }}>
+        <div className="management-control management-search">
+          <span className="mono">Notes</span>
+          <input
+            value={notes}
+            maxLength={500}
+            placeholder="What changed"
+            onChange={(event) => setNotes(event.target.value)}
+          />
+        </div>
+        <button className="btn" type="button" disabled={saving} onClick={() => void onSave()}>
+          {saving ? 'Saving…' : 'Publish ruleset'}
+        </button>
+        <button
+          className="btn"
+          type="button"
+          onClick={() => {
+            setDraft(formatRules(rulesets.defaults))
+            setStatus('Loaded built-in defaults. Save to make them the active ruleset.')
+          }}
+        >
+          Load built-in defaults
+        </button>
+        {status ? <div className="management-count">{status}</div> : null}
+      </div>
+      <div className="management-list">
+        {rulesets.history.length === 0 ? (
+          <div className="stat">No saved rulesets yet; publishes use the built-in rules.</div>
+        ) : (
+          rulesets.history.map((entry) => (
+            <div key={entry.version} className="management-item">
+              <div className="management-item-main">
+                <strong>v{entry.version}</strong>
+                <div className="section-subtitle" style={{ margin: 0 }}>
+                  {entry.ruleCount} rules · @{entry.createdByHandle ?? 'admin'} ·{' '}
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.notes ? ` · ${entry.notes}` : ''}
+                </div>
+              </div>
+              <div className="management-actions">
+                <button className="btn" type="button" onClick={() => void onLoad(entry.version)}>
+                  Load
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  )
+}
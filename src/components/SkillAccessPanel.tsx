@@ -0,0 +1,134 @@
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import type { PublicOrg, PublicUser } from '../lib/publicUser'
+
+type SkillVisibility = 'public' | 'unlisted' | 'private'
+
+const VISIBILITY_OPTIONS: Array<{ value: SkillVisibility; label: string; hint: string }> = [
+  { value: 'public', label: 'Public', hint: 'Listed in browse and search.' },
+  {
+    value: 'unlisted',
+    label: 'Unlisted',
+    hint: 'Anyone with the link; hidden from browse and search.',
+  },
+  {
+    value: 'private',
+    label: 'Private',
+    hint: 'Only you, org members, and people you share with.',
+  },
+]
+
+type ShareEntry = {
+  _id: Id<'skillShares'>
+  user: PublicUser | null
+  org: PublicOrg | null
+  createdAt: number
+}
+
+type SkillAccessPanelProps = {
+  skillId: Id<'skills'>
+  visibility: SkillVisibility
+}
+
+export function SkillAccessPanel({ skillId, visibility }: SkillAccessPanelProps) {
+  const shares = useQuery(api.skillShares.listForSkill, { skillId }) as ShareEntry[] | undefined
+  const setVisibility = useMutation(api.skills.setVisibility)
+  const grantShare = useMutation(api.skillShares.grant)
+  const revokeShare = useMutation(api.skillShares.revoke)
+  const [kind, setKind] = useState<'user' | 'org'>('user')
+  const [handle, setHandle] = useState('')
+  const [status, setStatus] = useState<string | null>(null)
+
+  async function run(action: () => Promise<unknown>, done: string) {
+    setStatus(null)
+    try {
+      await action()
+      setStatus(done)
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Request failed.')
+    }
+  }
+
+  return (
+    <div className="card">
+      <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
+        Access
+      </h2>
+      <div className="skill-access-options">
+        {VISIBILITY_OPTIONS.map((option) => (
+          <label key={option.value} className="skill-access-option">
+            <input
+              type="radio"
+              name="skill-visibility"
+              checked={visibility === option.value}
+              onChange={() =>
+                void run(
+                  () => setVisibility({ skillId, visibility: option.value }),
+                  `Skill is now ${option.label.toLowerCase()}.`,
+                )
+              }
+            />
+            <span>
+              <strong>{option.label}</strong> <span className="stat">{option.hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {visibility === 'private' ? (
+        <>
+          <ul className="org-members">
+            {(shares ?? []).map((share) => (
+              <li key={share._id}>
+                <span>
+                  {share.org
+                    ? `@${share.org.handle} (org)`
+                    : `@${share.user?.handle ?? share.user?.name ?? 'user'}`}
+                </span>
+                <button
+                  className="btn btn-sm"
+                  type="button"
+                  onClick={() => void run(() => revokeShare({ shareId: share._id }), 'Removed.')}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="org-inline-form">
+            <select
+              className="settings-input org-role-select"
+              value={kind}
+              onChange={(event) => setKind(event.target.value as 'user' | 'org')}
+            >
+              <option value="user">user</option>
+              <option value="org">org</option>
+            </select>
+            <input
+              className="settings-input"
+              value={handle}
+              onChange={(event) => setHandle(event.target.value)}
+              placeholder={kind === 'org' ? 'Org handle' : 'GitHub handle'}
+            />
+            <button
+              className="btn"
+              type="button"
+              disabled={!handle.trim()}
+              onClick={() =>
+                void run(async () => {
+                  await grantShare({ skillId, kind, handle: handle.trim() })
+                  setHandle('')
+                }, 'Shared.')
+              }
+            >
+              Share
+            </button>
+          </div>
+        </>
+      ) : null}
+      {status ? <div style={{ marginTop: 8 }}>{status}</div> : null}
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+import { useConvex, useQuery } from 'convex/react'
+import { Download } from 'lucide-react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import { formatCompactStat } from '../lib/numberFormat'
+
+const RANGE_OPTIONS = [7, 30, 90] as const
+const CHART_METRICS = [
+  { key: 'downloads', label: 'Downloads' },
+  { key: 'installs', label: 'Installs' },
+  { key: 'uninstalls', label: 'Uninstalls' },
+  { key: 'stars', label: 'Stars (net)' },
+  { key: 'comments', label: 'Comments (net)' },
+] as const
+
+type ChartMetric = (typeof CHART_METRICS)[number]['key']
+
+type AnalyticsDay = { date: string } & Record<ChartMetric, number>
+
+type SkillAnalyticsResult = {
+  series: AnalyticsDay[]
+  totals: Record<ChartMetric, number>
+  versions: Array<{ version: string | null; users: number; share: number }>
+  retention: {
+    installs: number
+    active: number
+    removed: number
+    retentionRate: number | null
+    removedWithinWeek: number
+    medianDaysToRemoval: number | null
+  }
+  truncated: boolean
+}
+
+export function SkillAnalyticsPanel({ skillId }: { skillId: Id<'skills'> }) {
+  const convex = useConvex()
+  const [days, setDays] = useState<number>(30)
+  const [exporting, setExporting] = useState(false)
+  const analytics = useQuery(api.skillAnalytics.getForOwner, { skillId, days }) as
+    | SkillAnalyticsResult
+    | undefined
+
+  const exportAs = async (format: 'json' | 'csv') => {
+    setExporting(true)
+    try {
+      const file = await convex.query(api.skillAnalytics.exportForOwner, { skillId, days, format })
+      const url = URL.createObjectURL(new Blob([file.body], { type: file.contentType }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = file.filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to export analytics:', error)
+      window.alert('Unable to export analytics. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <section className="analytics-panel" aria-label="Skill analytics">
+      <div className="analytics-toolbar">
+        <div className="profile-tabs" role="tablist" aria-label="Analytics range">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option}
+              className={days === option ? 'profile-tab is-active' : 'profile-tab'}
+              type="button"
+              role="tab"
+              aria-selected={days === option}
+              onClick={() => setDays(option)}
+            >
+              {option} days
+            </button>
+          ))}
+        </div>
+        <div className="analytics-export">
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              className="btn btn-ghost btn-sm"
+              type="button"
+              disabled={exporting || !analytics}
+              onClick={() => void exportAs(format)}
+            >
+              <Download className="h-3 w-3" aria-hidden="true" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {analytics === undefined ? (
+        <div className="loading-indicator">Loading analytics…</div>
+      ) : (
+        <>
+          {analytics.truncated ? (
+            <p className="analytics-note">
+              This skill has more activity than one report reads; some numbers are partial.
+            </p>
+          ) : null}
+          <div className="analytics-charts">
+            {CHART_METRICS.map((metric) => (
+              <AnalyticsChart
+                key={metric.key}
+                label={metric.label}
+                total={analytics.totals[metric.key]}
+                series={analytics.series}
+                metric={metric.key}
+              />
+            ))}
+          </div>
+          <div className="analytics-columns">
+            <div>
+              <h3 className="analytics-heading">Active installs by version</h3>
+              {analytics.versions.length === 0 ? (
+                <p className="analytics-note">No active installs reported yet.</p>
+              ) : (
+                <ul className="analytics-versions">
+                  {analytics.versions.map((entry) => (
+                    <li key={entry.version ?? 'unknown'}>
+                      <span className="analytics-version">{entry.version ?? 'unknown'}</span>
+                      <span className="analytics-bar">
+                        <span style={{ width: `${Math.round(entry.share * 100)}%` }} />
+                      </span>
+                      <span>
+                        {formatCompactStat(entry.users)} ({Math.round(entry.share * 100)}%)
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <h3 className="analytics-heading">Retention (all time)</h3>
+              <dl className="analytics-retention">
+                <dt>Installs</dt>
+                <dd>{formatCompactStat(analytics.retention.installs)}</dd>
+                <dt>Still installed</dt>
+                <dd>
+                  {analytics.retention.retentionRate === null
+                    ? '—'
+                    : `${Math.round(analytics.retention.retentionRate * 100)}%`}
+                </dd>
+                <dt>Removed within a week</dt>
+                <dd>{formatCompactStat(analytics.retention.removedWithinWeek)}</dd>
+                <dt>Median days before removal</dt>
+                <dd>
+                  {analytics.retention.medianDaysToRemoval === null
+                    ? '—'
+                    : analytics.retention.medianDaysToRemoval.toFixed(1)}
+                </dd>
+              </dl>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
+
+function AnalyticsChart({
+  label,
+  total,
+  series,
+  metric,
+}: {
+  label: string
+  total: number
+  series: AnalyticsDay[]
+  metric: ChartMetric
+}) {
+  const max = Math.max(1, ...series.map((day) => Math.abs(day[metric])))
+  const barWidth = 100 / Math.max(series.length, 1)
+  return (
+    <figure className="analytics-chart">
+      <figcaption>
+        <span>{label}</span>
+        <strong>{formatCompactStat(total)}</strong>
+      </figcaption>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" role="img" aria-label={label}>
+        {series.map((day, index) => {
+          const value = day[metric]
+          const height = (Math.abs(value) / max) * 40
+          return (
+            <rect
+              key={day.date}
+              className={value < 0 ? 'is-negative' : undefined}
+              x={index * barWidth + barWidth * 0.1}
+              y={40 - height}
+              width={barWidth * 0.8}
+              height={height}
+            >
+              <title>{`${day.date}: ${value}`}</title>
+            </rect>
+          )
+        })}
+      </svg>
+    </figure>
+  )
+}
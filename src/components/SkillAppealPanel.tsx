@@ -0,0 +1,138 @@
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+
+type AppealStatus = 'open' | 'accepted' | 'rejected' | 'changes_requested'
+
+type AppealState = {
+  decision: { kind: string; label: string; reason: string | null } | null
+  canAppeal: boolean
+  appeal: {
+    status: AppealStatus
+    message: string
+    response: string | null
+    createdAt: number
+    resolvedAt: number | null
+  } | null
+}
+
+const STATUS_TEXT: Record<AppealStatus, string> = {
+  open: 'Your appeal is waiting for a moderator.',
+  accepted: 'Your appeal was accepted.',
+  rejected: 'Your appeal was rejected.',
+  changes_requested: 'A moderator asked for changes before lifting the decision.',
+}
+
+function formatAppealError(error: unknown) {
+  if (error instanceof Error) {
+    const cleaned = error.message
+      .replace(/\[CONVEX[^\]]*\]\s*/g, '')
+      .replace(/\[Request ID:[^\]]*\]\s*/g, '')
+      .replace(/^Server Error Called by client\s*/i, '')
+      .replace(/^ConvexError:\s*/i, '')
+      .trim()
+    if (cleaned && cleaned !== 'Server Error') return cleaned
+  }
+  return 'Could not submit the appeal. Please try again.'
+}
+
+/**
+ * Owner-only: the moderation decision on a skill, the latest appeal and a form to file one.
+ * Renders nothing for other viewers or when there is nothing to show.
+ */
+export function SkillAppealPanel({ slug, enabled }: { slug: string; enabled: boolean }) {
+  const state = useQuery(api.appeals.getForSkill, enabled ? { slug } : 'skip') as
+    | AppealState
+    | null
+    | undefined
+  const createAppeal = useMutation(api.appeals.create)
+  const [isOpen, setIsOpen] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  if (!state || (!state.decision && !state.appeal)) return null
+  const { decision, appeal, canAppeal } = state
+
+  async function submit() {
+    const trimmed = message.trim()
+    if (!trimmed) {
+      setError('Tell moderators why the decision should be lifted.')
+      return
+    }
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await createAppeal({ slug, message: trimmed })
+      setMessage('')
+      setIsOpen(false)
+    } catch (submitError) {
+      setError(formatAppealError(submitError))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="card">
+      <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
+        Moderation
+      </h2>
+      {decision ? (
+        <p className="section-subtitle" style={{ margin: 0 }}>
+          {decision.label}
+          {decision.reason ? <span className="mono"> · {decision.reason}</span> : null}
+        </p>
+      ) : null}
+      {appeal ? (
+        <div className="stat" style={{ marginTop: 8 }}>
+          <strong>{STATUS_TEXT[appeal.status]}</strong>{' '}
+          <span>Filed {new Date(appeal.createdAt).toLocaleDateString()}.</span>
+          {appeal.response ? <div>Moderator: {appeal.response}</div> : null}
+        </div>
+      ) : null}
+      {canAppeal && !isOpen ? (
+        <div style={{ marginTop: 10 }}>
+          <button className="btn" type="button" onClick={() => setIsOpen(true)}>
+            Appeal this decision
+          </button>
+        </div>
+      ) : null}
+      {canAppeal && isOpen ? (
+        <form
+          className="report-dialog-form"
+          style={{ marginTop: 10 }}
+          onSubmit={(event) => {
+            event.preventDefault()
+            void submit()
+          }}
+        >
+          <textarea
+            className="report-dialog-textarea"
+            aria-label="Appeal message"
+            placeholder="What changed, or why was this decision wrong?"
+            value={message}
+            onChange={(event) => setMessage(event.target.value)}
+            rows={5}
+            maxLength={2000}
+            disabled={isSubmitting}
+          />
+          {error ? <p className="report-dialog-error">{error}</p> : null}
+          <div className="report-dialog-actions">
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() => setIsOpen(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button type="submit" className="btn" disabled={isSubmitting}>
+              {isSubmitting ? 'Submitting…' : 'Submit appeal'}
+            </button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  )
+}
@@ -2,12 +2,21 @@ import { useMutation, useQuery } from 'convex/react'
 import { useState } from 'react'
 import { api } from '../../convex/_generated/api'
 import type { Doc, Id } from '../../convex/_generated/dataModel'
+import type { PublicUser } from '../lib/publicUser'
 import { isModerator } from '../lib/roles'
+import { MarkdownContent } from './MarkdownContent'
 
 type SkillCommentsPanelProps = {
   skillId: Id<'skills'>
   isAuthenticated: boolean
   me: Doc<'users'> | null
+  canManage?: boolean
+}
+
+type CommentEntry = {
+  comment: Doc<'comments'>
+  user: PublicUser | null
+  isSkillOwner: boolean
 }
 
 function formatReportError(error: unknown) {
@@ -23,8 +32,33 @@ function formatReportError(error: unknown) {
   return 'Failed to report comment'
 }
 
-export function SkillCommentsPanel({ skillId, isAuthenticated, me }: SkillCommentsPanelProps) {
+function CommentEditHistory({ commentId }: { commentId: Id<'comments'> }) {
+  const edits = useQuery(api.comments.listEdits, { commentId })
+  if (edits === undefined) return <div className="stat">Loading history…</div>
+  if (edits.length === 0) return <div className="stat">No earlier versions.</div>
+  return (
+    <div className="comment-history">
+      {edits.map((edit) => (
+        <div key={edit.editedAt} className="comment-history-entry">
+          <div className="stat">Before {new Date(edit.editedAt).toLocaleString()}</div>
+          <div className="comment-body-text markdown">
+            <MarkdownContent mentions>{edit.previousBody}</MarkdownContent>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function SkillCommentsPanel({
+  skillId,
+  isAuthenticated,
+  me,
+  canManage = false,
+}: SkillCommentsPanelProps) {
   const addComment = useMutation(api.comments.add)
+  const editComment = useMutation(api.comments.edit)
+  const pinComment = useMutation(api.comments.pin)
   const removeComment = useMutation(api.comments.remove)
   const reportComment = useMutation(api.comments.report)
   const [comment, setComment] = useState('')
@@ -37,6 +71,12 @@ export function SkillCommentsPanel({ skillId, isAuthenticated, me }: SkillCommen
   const [reportError, setReportError] = useState<string | null>(null)
   const [reportNotice, setReportNotice] = useState<string | null>(null)
   const [isSubmittingReport, setIsSubmittingReport] = useState(false)
+  const [replyingToId, setReplyingToId] = useState<Id<'comments'> | null>(null)
+  const [reply, setReply] = useState('')
+  const [editingId, setEditingId] = useState<Id<'comments'> | null>(null)
+  const [editBody, setEditBody] = useState('')
+  const [historyId, setHistoryId] = useState<Id<'comments'> | null>(null)
+  const [threadError, setThreadError] = useState<string | null>(null)
   const comments = useQuery(api.comments.listBySkill, { skillId, limit: 50 })
 
   const submitComment = async () => {
@@ -54,6 +94,45 @@ export function SkillCommentsPanel({ skillId, isAuthenticated, me }: SkillCommen
     }
   }
 
+  const submitReply = async (parentCommentId: Id<'comments'>) => {
+    const body = reply.trim()
+    if (!body || isSubmitting) return
+    setIsSubmitting(true)
+    setThreadError(null)
+    try {
+      await addComment({ skillId, body, parentCommentId })
+      setReply('')
+      setReplyingToId(null)
+    } catch (error) {
+      setThreadError(error instanceof Error ? error.message : 'Failed to post reply')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const submitEdit = async (commentId: Id<'comments'>) => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    setThreadError(null)
+    try {
+      await editComment({ commentId, body: editBody })
+      setEditingId(null)
+    } catch (error) {
+      setThreadError(error instanceof Error ? error.message : 'Failed to edit comment')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const togglePin = async (entry: CommentEntry) => {
+    setThreadError(null)
+    try {
+      await pinComment({ commentId: entry.comment._id, pinned: !entry.comment.pinnedAt })
+    } catch (error) {
+      setThreadError(error instanceof Error ? error.message : 'Failed to pin comment')
+    }
+  }
+
   const deleteComment = async (commentId: Id<'comments'>) => {
     if (deletingCommentId) return
     setDeleteError(null)
@@ -105,6 +184,176 @@ export function SkillCommentsPanel({ skillId, isAuthenticated, me }: SkillCommen
     }
   }
 
+  const renderComment = (entry: CommentEntry, isReply: boolean) => {
+    const isAuthor = me?._id === entry.comment.userId
+    const threadId = entry.comment.parentCommentId ?? entry.comment._id
+    return (
+      <div
+        key={entry.comment._id}
+        className={`comment-item${entry.isSkillOwner ? ' is-owner' : ''}${
+          entry.comment.pinnedAt ? ' is-pinned' : ''
+        }`}
+      >
+        <div className="comment-body">
+          <div className="comment-meta">
+            <strong>@{entry.user?.handle ?? entry.user?.name ?? 'user'}</strong>
+            {entry.isSkillOwner ? <span className="tag tag-compact">Owner</span> : null}
+            {entry.comment.pinnedAt && !isReply ? (
+              <span className="tag tag-compact">Pinned</span>
+            ) : null}
+            {entry.comment.editedAt && !(isAuthor || canManage || isModerator(me)) ? (
+              <span className="comment-edited">edited</span>
+            ) : entry.comment.editedAt ? (
+              <button
+                className="comment-edited"
+                type="button"
+                onClick={() =>
+                  setHistoryId(historyId === entry.comment._id ? null : entry.comment._id)
+                }
+              >
+                edited
+              </button>
+            ) : null}
+          </div>
+          {editingId === entry.comment._id ? (
+            <form
+              className="comment-report-form"
+              onSubmit={(event) => {
+                event.preventDefault()
+                void submitEdit(entry.comment._id)
+              }}
+            >
+              <textarea
+                className="comment-input comment-report-input"
+                rows={4}
+                value={editBody}
+                onChange={(event) => setEditBody(event.target.value)}
+                disabled={isSubmitting}
+              />
+              <div className="comment-report-actions">
+                <button
+                  className="btn comment-delete"
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button className="btn comment-submit" type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Saving…' : 'Save'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="comment-body-text markdown">
+              <MarkdownContent mentions>{entry.comment.body}</MarkdownContent>
+            </div>
+          )}
+          {historyId === entry.comment._id ? (
+            <CommentEditHistory commentId={entry.comment._id} />
+          ) : null}
+          {isAuthenticated && reportingCommentId === entry.comment._id ? (
+            <form
+              className="comment-report-form"
+              onSubmit={(event) => {
+                event.preventDefault()
+                void submitReport(entry.comment._id)
+              }}
+            >
+              <textarea
+                className="comment-input comment-report-input"
+                rows={3}
+                value={reportReason}
+                onChange={(event) => setReportReason(event.target.value)}
+                placeholder="Why are you reporting this comment?"
+                disabled={isSubmittingReport}
+              />
+              <div className="comment-report-actions">
+                <button
+                  className="btn comment-delete"
+                  type="button"
+                  onClick={closeReportForm}
+                  disabled={isSubmittingReport}
+                >
+                  Cancel
+                </button>
+                <button className="btn comment-submit" type="submit" disabled={isSubmittingReport}>
+                  {isSubmittingReport ? 'Reporting…' : 'Submit report'}
+                </button>
+              </div>
+              {reportError ? <div className="report-dialog-error">{reportError}</div> : null}
+              <div className="stat">
+                Reports require a reason. Abuse of reporting may result in bans.
+              </div>
+            </form>
+          ) : null}
+        </div>
+        {isAuthenticated && me ? (
+          <div className="comment-actions">
+            <button
+              className="btn comment-delete"
+              type="button"
+              onClick={() => {
+                setReplyingToId(threadId)
+                setReply('')
+              }}
+              disabled={isSubmitting}
+            >
+              Reply
+            </button>
+            {isAuthor ? (
+              <button
+                className="btn comment-delete"
+                type="button"
+                onClick={() => {
+                  setEditingId(entry.comment._id)
+                  setEditBody(entry.comment.body)
+                }}
+                disabled={isSubmitting || editingId === entry.comment._id}
+              >
+                Edit
+              </button>
+            ) : null}
+            {canManage && !isReply ? (
+              <button
+                className="btn comment-delete"
+                type="button"
+                onClick={() => void togglePin(entry)}
+                disabled={isSubmitting}
+              >
+                {entry.comment.pinnedAt ? 'Unpin' : 'Pin'}
+              </button>
+            ) : null}
+            {isAuthor || isModerator(me) ? (
+              <button
+                className="btn comment-delete"
+                type="button"
+                onClick={() => void deleteComment(entry.comment._id)}
+                disabled={Boolean(deletingCommentId) || isSubmitting || isSubmittingReport}
+              >
+                {deletingCommentId === entry.comment._id ? 'Deleting…' : 'Delete'}
+              </button>
+            ) : null}
+            {!isAuthor ? (
+              <button
+                className="btn comment-delete"
+                type="button"
+                onClick={() => openReportForm(entry.comment._id)}
+                disabled={
+                  isSubmitting ||
+                  Boolean(deletingCommentId) ||
+                  (Boolean(reportingCommentId) && reportingCommentId !== entry.comment._id)
+                }
+              >
+                {reportingCommentId === entry.comment._id ? 'Report open' : 'Report'}
+              </button>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    )
+  }
+
   return (
     <div className="card">
       <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
@@ -123,7 +372,7 @@ export function SkillCommentsPanel({ skillId, isAuthenticated, me }: SkillCommen
             rows={4}
             value={comment}
             onChange={(event) => setComment(event.target.value)}
-            placeholder="Leave a note…"
+            placeholder="Leave a note… Markdown and @mentions are supported."
             disabled={isSubmitting}
           />
           {submitError ? <div className="report-dialog-error">{submitError}</div> : null}
@@ -136,78 +385,49 @@ export function SkillCommentsPanel({ skillId, isAuthenticated, me }: SkillCommen
       )}
       {deleteError ? <div className="report-dialog-error">{deleteError}</div> : null}
       {reportNotice ? <div className="stat">{reportNotice}</div> : null}
+      {threadError ? <div className="report-dialog-error">{threadError}</div> : null}
       <div style={{ display: 'grid', gap: 12, marginTop: 16 }}>
         {(comments ?? []).length === 0 ? (
           <div className="stat">No comments yet.</div>
         ) : (
-          (comments ?? []).map((entry) => (
-            <div key={entry.comment._id} className="comment-item">
-              <div className="comment-body">
-                <strong>@{entry.user?.handle ?? entry.user?.name ?? 'user'}</strong>
-                <div className="comment-body-text">{entry.comment.body}</div>
-                {isAuthenticated && reportingCommentId === entry.comment._id ? (
-                  <form
-                    className="comment-report-form"
-                    onSubmit={(event) => {
-                      event.preventDefault()
-                      void submitReport(entry.comment._id)
-                    }}
-                  >
-                    <textarea
-                      className="comment-input comment-report-input"
-                      rows={3}
-                      value={reportReason}
-                      onChange={(event) => setReportReason(event.target.value)}
-                      placeholder="Why are you reporting this comment?"
-                      disabled={isSubmittingReport}
-                    />
-                    <div className="comment-report-actions">
-                      <button
-                        className="btn comment-delete"
-                        type="button"
-                        onClick={closeReportForm}
-                        disabled={isSubmittingReport}
-                      >
-                        Cancel
-                      </button>
-                      <button className="btn comment-submit" type="submit" disabled={isSubmittingReport}>
-                        {isSubmittingReport ? 'Reporting…' : 'Submit report'}
-                      </button>
-                    </div>
-                    {reportError ? <div className="report-dialog-error">{reportError}</div> : null}
-                    <div className="stat">
-                      Reports require a reason. Abuse of reporting may result in bans.
-                    </div>
-                  </form>
-                ) : null}
-              </div>
-              {isAuthenticated && me ? (
-                <div className="comment-actions">
-                  {me._id === entry.comment.userId || isModerator(me) ? (
+          (comments ?? []).map((thread) => (
+            <div key={thread.comment._id} className="comment-thread">
+              {renderComment(thread, false)}
+              {thread.replies.length > 0 ? (
+                <div className="comment-replies">
+                  {thread.replies.map((replyEntry) => renderComment(replyEntry, true))}
+                </div>
+              ) : null}
+              {isAuthenticated && replyingToId === thread.comment._id ? (
+                <form
+                  className="comment-form comment-reply-form"
+                  onSubmit={(event) => {
+                    event.preventDefault()
+                    void submitReply(thread.comment._id)
+                  }}
+                >
+                  <textarea
+                    className="comment-input comment-report-input"
+                    rows={3}
+                    value={reply}
+                    onChange={(event) => setReply(event.target.value)}
+                    placeholder="Write a reply…"
+                    disabled={isSubmitting}
+                  />
+                  <div className="comment-report-actions">
                     <button
                       className="btn comment-delete"
                       type="button"
-                      onClick={() => void deleteComment(entry.comment._id)}
-                      disabled={Boolean(deletingCommentId) || isSubmitting || isSubmittingReport}
+                      onClick={() => setReplyingToId(null)}
+                      disabled={isSubmitting}
                     >
-                      {deletingCommentId === entry.comment._id ? 'Deleting…' : 'Delete'}
+                      Cancel
                     </button>
-                  ) : null}
-                  {me._id !== entry.comment.userId ? (
-                    <button
-                      className="btn comment-delete"
-                      type="button"
-                      onClick={() => openReportForm(entry.comment._id)}
-                      disabled={
-                        isSubmitting ||
-                        Boolean(deletingCommentId) ||
-                        (Boolean(reportingCommentId) && reportingCommentId !== entry.comment._id)
-                      }
-                    >
-                      {reportingCommentId === entry.comment._id ? 'Report open' : 'Report'}
+                    <button className="btn comment-submit" type="submit" disabled={isSubmitting}>
+                      {isSubmitting ? 'Posting…' : 'Post reply'}
                     </button>
-                  ) : null}
-                </div>
+                  </div>
+                </form>
               ) : null}
             </div>
           ))
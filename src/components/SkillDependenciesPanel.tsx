@@ -0,0 +1,67 @@
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import type { PublicSkill } from '../lib/publicUser'
+import { buildSkillHref } from './skillDetailUtils'
+
+type DependencyEntry = {
+  slug: string
+  range: string | null
+  skill: PublicSkill | null
+  ownerHandle: string | null
+}
+
+type SkillDependenciesPanelProps = {
+  skillId: Id<'skills'>
+}
+
+function DependencyList({ entries }: { entries: DependencyEntry[] }) {
+  return (
+    <ul className="dependency-list">
+      {entries.map((entry) => (
+        <li key={entry.slug} className="dependency-item">
+          {entry.skill ? (
+            <a href={buildSkillHref(entry.ownerHandle, entry.skill.ownerUserId, entry.skill.slug)}>
+              {entry.skill.displayName}
+            </a>
+          ) : (
+            <span>{entry.slug}</span>
+          )}
+          <code className="dependency-range">{entry.range ?? '*'}</code>
+          {entry.skill ? null : <span className="stat">unavailable</span>}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function SkillDependenciesPanel({ skillId }: SkillDependenciesPanelProps) {
+  const graph = useQuery(api.skillDependencies.listForSkill, { skillId })
+  const dependsOn = graph?.dependsOn ?? []
+  const usedBy = graph?.usedBy ?? []
+  if (dependsOn.length === 0 && usedBy.length === 0) return null
+
+  return (
+    <div className="card">
+      <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
+        Dependencies
+      </h2>
+      {dependsOn.length > 0 ? (
+        <div className="dependency-group">
+          <h3 className="section-title" style={{ fontSize: '1rem' }}>
+            Depends on
+          </h3>
+          <DependencyList entries={dependsOn} />
+        </div>
+      ) : null}
+      {usedBy.length > 0 ? (
+        <div className="dependency-group">
+          <h3 className="section-title" style={{ fontSize: '1rem' }}>
+            Used by
+          </h3>
+          <DependencyList entries={usedBy} />
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -4,13 +4,17 @@ import { useAction, useMutation, useQuery } from 'convex/react'
 import { useEffect, useMemo, useState } from 'react'
 import { api } from '../../convex/_generated/api'
 import type { Doc, Id } from '../../convex/_generated/dataModel'
-import type { PublicSkill, PublicUser } from '../lib/publicUser'
+import type { PublicOrg, PublicSkill, PublicUser } from '../lib/publicUser'
 import { canManageSkill, isModerator } from '../lib/roles'
 import { useAuthStatus } from '../lib/useAuthStatus'
+import { SkillAccessPanel } from './SkillAccessPanel'
+import { SkillAppealPanel } from './SkillAppealPanel'
 import { SkillCommentsPanel } from './SkillCommentsPanel'
+import { SkillDependenciesPanel } from './SkillDependenciesPanel'
 import { SkillDetailTabs } from './SkillDetailTabs'
 import { SkillHeader, type SkillModerationInfo } from './SkillHeader'
 import { SkillReportDialog } from './SkillReportDialog'
+import type { ScanResultSummary } from './SkillSecurityScanResults'
 import {
   buildSkillHref,
   formatConfigSnippet,
@@ -28,7 +32,10 @@ type SkillDetailPageProps = {
 type SkillBySlugResult = {
   skill: Doc<'skills'> | PublicSkill
   latestVersion: Doc<'skillVersions'> | null
+  scanResults?: ScanResultSummary[]
   owner: Doc<'users'> | PublicUser | null
+  ownerOrg?: PublicOrg | null
+  canManageAccess?: boolean
   pendingReview?: boolean
   moderationInfo?: SkillModerationInfo | null
   forkOf: {
@@ -126,10 +133,15 @@ export function SkillDetailPage({
     isAuthenticated && skill ? { skillId: skill._id } : 'skip',
   )
 
-  const canManage = canManageSkill(me, skill)
+  // Org owners and maintainers manage the skill too (`canManageAccess` comes from the server).
+  const canManage = canManageSkill(me, skill) || Boolean(result?.canManageAccess)
 
+  const ownerOrg = result?.ownerOrg ?? null
   const ownerHandle = owner?.handle ?? owner?.name ?? null
-  const ownerParam = ownerHandle ?? (owner?._id ? String(owner._id) : null)
+  // Org skills live at `/@org/slug`.
+  const ownerParam = ownerOrg
+    ? `@${ownerOrg.handle}`
+    : (ownerHandle ?? (owner?._id ? String(owner._id) : null))
   const wantsCanonicalRedirect = Boolean(
     ownerParam &&
       (redirectToCanonical ||
@@ -293,9 +305,13 @@ export function SkillDetailPage({
   }
 
   if (result === null || !skill) {
+    // Owners of report-hidden skills land here; the appeal panel is how they contest it.
     return (
       <main className="section">
-        <div className="card">Skill not found.</div>
+        <div className="skill-detail-stack">
+          <div className="card">Skill not found.</div>
+          <SkillAppealPanel slug={slug} enabled={isAuthenticated} />
+        </div>
       </main>
     )
   }
@@ -309,7 +325,9 @@ export function SkillDetailPage({
           skill={skill}
           owner={owner}
           ownerHandle={ownerHandle}
+          ownerOrg={ownerOrg}
           latestVersion={latestVersion}
+          scanResults={result?.scanResults}
           modInfo={modInfo}
           canManage={canManage}
           isAuthenticated={isAuthenticated}
@@ -344,6 +362,11 @@ export function SkillDetailPage({
           osLabels={osLabels}
         />
 
+        <SkillAppealPanel
+          slug={skill.slug}
+          enabled={isAuthenticated && canManage}
+        />
+
         {nixSnippet ? (
           <div className="card">
             <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
@@ -386,7 +409,18 @@ export function SkillDetailPage({
           nixPlugin={Boolean(nixPlugin)}
         />
 
-        <SkillCommentsPanel skillId={skill._id} isAuthenticated={isAuthenticated} me={me ?? null} />
+        <SkillDependenciesPanel skillId={skill._id} />
+
+        {result.canManageAccess ? (
+          <SkillAccessPanel skillId={skill._id} visibility={skill.visibility ?? 'public'} />
+        ) : null}
+
+        <SkillCommentsPanel
+          skillId={skill._id}
+          isAuthenticated={isAuthenticated}
+          me={me ?? null}
+          canManage={canManage}
+        />
       </div>
 
       <SkillReportDialog
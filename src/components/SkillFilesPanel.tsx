@@ -1,9 +1,8 @@
 import { useAction } from 'convex/react'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
 import { api } from '../../convex/_generated/api'
 import type { Doc, Id } from '../../convex/_generated/dataModel'
+import { MarkdownContent } from './MarkdownContent'
 import { formatBytes } from './skillDetailUtils'
 
 type SkillFile = Doc<'skillVersions'>['files'][number]
@@ -98,7 +97,7 @@ export function SkillFilesPanel({
         </h2>
         <div className="markdown">
           {readmeContent ? (
-            <ReactMarkdown remarkPlugins={[remarkGfm]}>{readmeContent}</ReactMarkdown>
+            <MarkdownContent>{readmeContent}</MarkdownContent>
           ) : readmeError ? (
             <div className="stat">Failed to load SKILL.md: {readmeError}</div>
           ) : (
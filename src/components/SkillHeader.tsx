@@ -4,8 +4,12 @@ import { Package } from 'lucide-react'
 import type { Doc, Id } from '../../convex/_generated/dataModel'
 import { getSkillBadges } from '../lib/badges'
 import { formatCompactStat, formatSkillStatsTriplet } from '../lib/numberFormat'
-import type { PublicSkill, PublicUser } from '../lib/publicUser'
-import { type LlmAnalysis, SecurityScanResults } from './SkillSecurityScanResults'
+import type { PublicOrg, PublicSkill, PublicUser } from '../lib/publicUser'
+import {
+  type LlmAnalysis,
+  type ScanResultSummary,
+  SecurityScanResults,
+} from './SkillSecurityScanResults'
 import { SkillInstallCard } from './SkillInstallCard'
 import { UserBadge } from './UserBadge'
 
@@ -34,7 +38,9 @@ type SkillHeaderProps = {
   skill: Doc<'skills'> | PublicSkill
   owner: Doc<'users'> | PublicUser | null
   ownerHandle: string | null
+  ownerOrg?: PublicOrg | null
   latestVersion: Doc<'skillVersions'> | null
+  scanResults?: ScanResultSummary[]
   modInfo: SkillModerationInfo | null
   canManage: boolean
   isAuthenticated: boolean
@@ -73,7 +79,9 @@ export function SkillHeader({
   skill,
   owner,
   ownerHandle,
+  ownerOrg,
   latestVersion,
+  scanResults,
   modInfo,
   canManage,
   isAuthenticated,
@@ -139,15 +147,8 @@ export function SkillHeader({
             <p>ClawHub Security flagged this skill as suspicious. Review the scan results before using.</p>
             {canManage ? (
               <p className="pending-banner-appeal">
-                If you believe this skill has been incorrectly flagged, please{' '}
-                <a
-                  href="https://github.com/openclaw/clawhub/issues"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                >
-                  submit an issue on GitHub
-                </a>{' '}
-                and we'll break down why it was flagged and what you can do.
+                If you believe this skill has been incorrectly flagged, use "Appeal this decision"
+                below and a moderator will review it.
               </p>
             ) : null}
           </div>
@@ -177,6 +178,11 @@ export function SkillHeader({
                   {skill.displayName}
                 </h1>
                 {nixPlugin ? <span className="tag tag-accent">Plugin bundle (nix)</span> : null}
+                {skill.visibility === 'private' || skill.visibility === 'unlisted' ? (
+                  <span className="tag">
+                    {skill.visibility === 'private' ? 'Private' : 'Unlisted'}
+                  </span>
+                ) : null}
               </div>
               <p className="section-subtitle">{skill.summary ?? 'No summary provided.'}</p>
 
@@ -193,8 +199,20 @@ export function SkillHeader({
                 {formattedStats.downloads} · {formatCompactStat(skill.stats.installsCurrent ?? 0)} current
                 installs · {formattedStats.installsAllTime} all-time installs
               </div>
+              {ownerOrg ? (
+                <div className="stat">
+                  by <strong>@{ownerOrg.handle}</strong>
+                  {ownerOrg.displayName !== ownerOrg.handle ? ` (${ownerOrg.displayName})` : null}
+                </div>
+              ) : null}
               <div className="stat">
-                <UserBadge user={owner} fallbackHandle={ownerHandle} prefix="by" size="md" showName />
+                <UserBadge
+                  user={owner}
+                  fallbackHandle={ownerHandle}
+                  prefix={ownerOrg ? 'published by' : 'by'}
+                  size="md"
+                  showName
+                />
               </div>
               {forkOf && forkOfHref ? (
                 <div className="stat">
@@ -251,8 +269,13 @@ export function SkillHeader({
                 sha256hash={latestVersion?.sha256hash}
                 vtAnalysis={latestVersion?.vtAnalysis}
                 llmAnalysis={latestVersion?.llmAnalysis as LlmAnalysis | undefined}
+                capabilityLint={latestVersion?.capabilityLint}
+                scanResults={scanResults}
               />
-              {latestVersion?.sha256hash || latestVersion?.llmAnalysis ? (
+              {latestVersion?.sha256hash ||
+              latestVersion?.llmAnalysis ||
+              latestVersion?.capabilityLint ||
+              scanResults?.length ? (
                 <p className="scan-disclaimer">
                   Like a lobster shell, security has layers — review code before you run it.
                 </p>
@@ -27,13 +27,49 @@ export type LlmAnalysis = {
   checkedAt: number
 }
 
+type CapabilityKind = 'env' | 'bin' | 'host' | 'config'
+
+export type CapabilityLint = {
+  status: 'clean' | 'mismatch'
+  undeclared: Array<{ kind: CapabilityKind; name: string; file: string; line: number }>
+  unused: Array<{ kind: CapabilityKind; name: string }>
+  checkedAt: number
+}
+
+/** A row from the generic `scanResults` table (local scanners such as the rule scan). */
+export type ScanResultSummary = {
+  scanner: string
+  label: string
+  verdict: string
+  summary?: string
+  findings: Array<{
+    ruleId: string
+    severity: 'suspicious' | 'malicious'
+    message: string
+    flag?: string
+    file?: string
+    line?: number
+    excerpt?: string
+  }>
+  checkedAt: number
+}
+
 type SecurityScanResultsProps = {
   sha256hash?: string
   vtAnalysis?: VtAnalysis | null
   llmAnalysis?: LlmAnalysis | null
+  capabilityLint?: CapabilityLint | null
+  scanResults?: ScanResultSummary[] | null
   variant?: 'panel' | 'badge'
 }
 
+const CAPABILITY_LABELS: Record<CapabilityKind, { noun: string; field: string }> = {
+  env: { noun: 'Env var', field: 'requires.env' },
+  bin: { noun: 'Binary', field: 'requires.bins' },
+  host: { noun: 'Host', field: 'requires.hosts' },
+  config: { noun: 'Config path', field: 'requires.config' },
+}
+
 function VirusTotalIcon({ className }: { className?: string }) {
   return (
     <svg
@@ -193,13 +229,79 @@ function LlmAnalysisDetail({ analysis }: { analysis: LlmAnalysis }) {
   )
 }
 
+function CapabilityLintDetail({ lint }: { lint: CapabilityLint }) {
+  if (lint.undeclared.length === 0 && lint.unused.length === 0) return null
+  return (
+    <div className="scan-findings-section">
+      {lint.undeclared.length > 0 ? (
+        <>
+          <div className="scan-findings-title">Used but not declared</div>
+          {lint.undeclared.map((entry) => (
+            <div key={`${entry.kind}:${entry.name}`} className="scan-finding-row">
+              <span>
+                {CAPABILITY_LABELS[entry.kind].noun} <code>{entry.name}</code> (missing from{' '}
+                {CAPABILITY_LABELS[entry.kind].field})
+              </span>
+              <span className="scan-finding-location">
+                {entry.file}:{entry.line}
+              </span>
+            </div>
+          ))}
+        </>
+      ) : null}
+      {lint.unused.length > 0 ? (
+        <>
+          <div className="scan-findings-title">Declared but never referenced</div>
+          {lint.unused.map((entry) => (
+            <div key={`${entry.kind}:${entry.name}`} className="scan-finding-row">
+              <span>
+                {CAPABILITY_LABELS[entry.kind].noun} <code>{entry.name}</code>
+              </span>
+            </div>
+          ))}
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+function ScanFindingsDetail({ result }: { result: ScanResultSummary }) {
+  if (result.findings.length === 0) return null
+  return (
+    <div className="scan-findings-section">
+      {result.findings.map((finding, index) => (
+        <div key={`${finding.ruleId}:${finding.file ?? ''}:${index}`} className="scan-finding-row">
+          <span>
+            {finding.message} (<code>{finding.ruleId}</code>)
+            {finding.excerpt ? (
+              <>
+                {' '}
+                <code>{finding.excerpt}</code>
+              </>
+            ) : null}
+          </span>
+          {finding.file ? (
+            <span className="scan-finding-location">
+              {finding.file}
+              {finding.line ? `:${finding.line}` : ''}
+            </span>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  )
+}
+
 export function SecurityScanResults({
   sha256hash,
   vtAnalysis,
   llmAnalysis,
+  capabilityLint,
+  scanResults,
   variant = 'panel',
 }: SecurityScanResultsProps) {
-  if (!sha256hash && !llmAnalysis) return null
+  const otherResults = scanResults ?? []
+  if (!sha256hash && !llmAnalysis && !capabilityLint && otherResults.length === 0) return null
 
   const vtStatus = vtAnalysis?.status ?? 'pending'
   const vtUrl = sha256hash ? `https://www.virustotal.com/gui/file/${sha256hash}` : null
@@ -209,6 +311,11 @@ export function SecurityScanResults({
 
   const llmVerdict = llmAnalysis?.verdict ?? llmAnalysis?.status
   const llmStatusInfo = llmVerdict ? getScanStatusInfo(llmVerdict) : null
+  const lintStatusInfo = capabilityLint
+    ? capabilityLint.status === 'mismatch'
+      ? { label: 'Mismatch', className: 'scan-status-suspicious' }
+      : { label: 'Matches', className: 'scan-status-clean' }
+    : null
 
   if (variant === 'badge') {
     return (
@@ -236,6 +343,20 @@ export function SecurityScanResults({
             <span className={llmStatusInfo.className}>{llmStatusInfo.label}</span>
           </div>
         ) : null}
+        {capabilityLint?.status === 'mismatch' ? (
+          <div className="version-scan-badge">
+            <span className="scan-status-suspicious">Undeclared access</span>
+          </div>
+        ) : null}
+        {otherResults.map((result) => {
+          const info = getScanStatusInfo(result.verdict)
+          return (
+            <div key={result.scanner} className="version-scan-badge">
+              <span>{result.label}</span>
+              <span className={info.className}>{info.label}</span>
+            </div>
+          )
+        })}
       </>
     )
   }
@@ -287,6 +408,33 @@ export function SecurityScanResults({
         llmAnalysis.summary ? (
           <LlmAnalysisDetail analysis={llmAnalysis} />
         ) : null}
+        {lintStatusInfo && capabilityLint ? (
+          <>
+            <div className="scan-result-row">
+              <div className="scan-result-scanner">
+                <span className="scan-result-scanner-name">Declared capabilities</span>
+              </div>
+              <div className={`scan-result-status ${lintStatusInfo.className}`}>
+                {lintStatusInfo.label}
+              </div>
+            </div>
+            <CapabilityLintDetail lint={capabilityLint} />
+          </>
+        ) : null}
+        {otherResults.map((result) => {
+          const info = getScanStatusInfo(result.verdict)
+          return (
+            <div key={result.scanner}>
+              <div className="scan-result-row">
+                <div className="scan-result-scanner">
+                  <span className="scan-result-scanner-name">{result.label}</span>
+                </div>
+                <div className={`scan-result-status ${info.className}`}>{info.label}</div>
+              </div>
+              <ScanFindingsDetail result={result} />
+            </div>
+          )
+        })}
       </div>
     </div>
   )
@@ -33,11 +33,12 @@ export function SkillVersionsPanel({ versions, nixPlugin, skillSlug }: SkillVers
                 </div>
                 <div style={{ color: '#5c554e', whiteSpace: 'pre-wrap' }}>{version.changelog}</div>
                 <div className="version-scan-results">
-                  {version.sha256hash || version.llmAnalysis ? (
+                  {version.sha256hash || version.llmAnalysis || version.capabilityLint ? (
                     <SecurityScanResults
                       sha256hash={version.sha256hash}
                       vtAnalysis={version.vtAnalysis}
                       llmAnalysis={version.llmAnalysis as LlmAnalysis | undefined}
+                      capabilityLint={version.capabilityLint}
                       variant="badge"
                     />
                   ) : null}
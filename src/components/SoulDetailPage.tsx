@@ -1,9 +1,8 @@
 import { useAction, useMutation, useQuery } from 'convex/react'
 import { useEffect, useMemo, useRef, useState } from 'react'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
 import { api } from '../../convex/_generated/api'
 import type { Doc } from '../../convex/_generated/dataModel'
+import { MarkdownContent } from './MarkdownContent'
 import { SoulStatsTripletLine } from './SoulStats'
 import type { PublicSoul, PublicUser } from '../lib/publicUser'
 import { isModerator } from '../lib/roles'
@@ -20,18 +19,27 @@ type SoulBySlugResult = {
   owner: PublicUser | null
 } | null
 
+type SoulCommentEntry = {
+  comment: Doc<'soulComments'>
+  user: PublicUser | null
+  isSoulOwner: boolean
+}
+
 export function SoulDetailPage({ slug }: SoulDetailPageProps) {
   const { isAuthenticated, me } = useAuthStatus()
   const result = useQuery(api.souls.getBySlug, { slug }) as SoulBySlugResult | undefined
   const toggleStar = useMutation(api.soulStars.toggle)
   const addComment = useMutation(api.soulComments.add)
   const removeComment = useMutation(api.soulComments.remove)
+  const editComment = useMutation(api.soulComments.edit)
+  const pinComment = useMutation(api.soulComments.pin)
   const getReadme = useAction(api.souls.getReadme)
   const ensureSoulSeeds = useAction(api.seed.ensureSoulSeeds)
   const seedEnsuredRef = useRef(false)
   const [readme, setReadme] = useState<string | null>(null)
   const [readmeError, setReadmeError] = useState<string | null>(null)
   const [comment, setComment] = useState('')
+  const [replyTo, setReplyTo] = useState<SoulCommentEntry | null>(null)
 
   const isLoadingSoul = result === undefined
   const soul = result?.soul
@@ -50,7 +58,7 @@ export function SoulDetailPage({ slug }: SoulDetailPageProps) {
   const comments = useQuery(
     api.soulComments.listBySoul,
     soul ? { soulId: soul._id, limit: 50 } : 'skip',
-  ) as Array<{ comment: Doc<'soulComments'>; user: PublicUser | null }> | undefined
+  ) as Array<SoulCommentEntry & { replies: SoulCommentEntry[] }> | undefined
 
   const readmeContent = useMemo(() => {
     if (!readme) return null
@@ -154,7 +162,7 @@ export function SoulDetailPage({ slug }: SoulDetailPageProps) {
         <div className="card">
           <div className="skill-readme markdown">
             {readmeContent ? (
-              <ReactMarkdown remarkPlugins={[remarkGfm]}>{readmeContent}</ReactMarkdown>
+              <MarkdownContent>{readmeContent}</MarkdownContent>
             ) : readmeError ? (
               <div className="stat">Failed to load SOUL.md: {readmeError}</div>
             ) : (
@@ -207,21 +215,38 @@ export function SoulDetailPage({ slug }: SoulDetailPageProps) {
               onSubmit={(event) => {
                 event.preventDefault()
                 if (!comment.trim()) return
-                void addComment({ soulId: soul._id, body: comment.trim() }).then(() =>
-                  setComment(''),
-                )
+                void addComment({
+                  soulId: soul._id,
+                  body: comment.trim(),
+                  parentCommentId: replyTo?.comment._id,
+                }).then(() => {
+                  setComment('')
+                  setReplyTo(null)
+                })
               }}
               className="comment-form"
             >
+              {replyTo ? (
+                <div className="stat">
+                  Replying to @{replyTo.user?.handle ?? replyTo.user?.name ?? 'user'}{' '}
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    type="button"
+                    onClick={() => setReplyTo(null)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : null}
               <textarea
                 className="comment-input"
                 rows={4}
                 value={comment}
                 onChange={(event) => setComment(event.target.value)}
-                placeholder="Leave a note…"
+                placeholder="Leave a note… Markdown and @mentions are supported."
               />
               <button className="btn comment-submit" type="submit">
-                Post comment
+                {replyTo ? 'Post reply' : 'Post comment'}
               </button>
             </form>
           ) : (
@@ -231,21 +256,80 @@ export function SoulDetailPage({ slug }: SoulDetailPageProps) {
             {(comments ?? []).length === 0 ? (
               <div className="stat">No comments yet.</div>
             ) : (
-              (comments ?? []).map((entry) => (
-                <div key={entry.comment._id} className="comment-item">
-                  <div className="comment-body">
-                    <strong>@{entry.user?.handle ?? entry.user?.name ?? 'user'}</strong>
-                    <div className="comment-body-text">{entry.comment.body}</div>
-                  </div>
-                  {isAuthenticated && me && (me._id === entry.comment.userId || isModerator(me)) ? (
-                    <button
-                      className="btn comment-delete"
-                      type="button"
-                      onClick={() => void removeComment({ commentId: entry.comment._id })}
+              (comments ?? []).map((thread) => (
+                <div key={thread.comment._id} className="comment-thread">
+                  {[thread, ...thread.replies].map((entry) => (
+                    <div
+                      key={entry.comment._id}
+                      className={`comment-item${entry.isSoulOwner ? ' is-owner' : ''}${
+                        entry.comment.parentCommentId ? ' is-reply' : ''
+                      }`}
                     >
-                      Delete
-                    </button>
-                  ) : null}
+                      <div className="comment-body">
+                        <div className="comment-meta">
+                          <strong>@{entry.user?.handle ?? entry.user?.name ?? 'user'}</strong>
+                          {entry.isSoulOwner ? (
+                            <span className="tag tag-compact">Owner</span>
+                          ) : null}
+                          {entry.comment.pinnedAt ? (
+                            <span className="tag tag-compact">Pinned</span>
+                          ) : null}
+                          {entry.comment.editedAt ? <span className="stat">edited</span> : null}
+                        </div>
+                        <div className="comment-body-text markdown">
+                          <MarkdownContent mentions>{entry.comment.body}</MarkdownContent>
+                        </div>
+                      </div>
+                      {isAuthenticated && me ? (
+                        <div className="comment-actions">
+                          <button
+                            className="btn comment-delete"
+                            type="button"
+                            onClick={() => setReplyTo(thread)}
+                          >
+                            Reply
+                          </button>
+                          {me._id === entry.comment.userId ? (
+                            <button
+                              className="btn comment-delete"
+                              type="button"
+                              onClick={() => {
+                                const body = window.prompt('Edit comment', entry.comment.body)
+                                if (body === null) return
+                                void editComment({ commentId: entry.comment._id, body })
+                              }}
+                            >
+                              Edit
+                            </button>
+                          ) : null}
+                          {!entry.comment.parentCommentId &&
+                          (me._id === soul.ownerUserId || isModerator(me)) ? (
+                            <button
+                              className="btn comment-delete"
+                              type="button"
+                              onClick={() =>
+                                void pinComment({
+                                  commentId: entry.comment._id,
+                                  pinned: !entry.comment.pinnedAt,
+                                })
+                              }
+                            >
+                              {entry.comment.pinnedAt ? 'Unpin' : 'Pin'}
+                            </button>
+                          ) : null}
+                          {me._id === entry.comment.userId || isModerator(me) ? (
+                            <button
+                              className="btn comment-delete"
+                              type="button"
+                              onClick={() => void removeComment({ commentId: entry.comment._id })}
+                            >
+                              Delete
+                            </button>
+                          ) : null}
+                        </div>
+                      ) : null}
+                    </div>
+                  ))}
                 </div>
               ))
             )}
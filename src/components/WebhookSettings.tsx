@@ -0,0 +1,218 @@
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+
+const WEBHOOK_EVENT_OPTIONS = [
+  { value: 'starred.version', label: 'New version of a starred skill' },
+  { value: 'skill.moderation', label: 'Moderation status change on my skills' },
+  { value: 'skill.comment', label: 'New comment on my skills' },
+  { value: 'skill.verdict', label: 'VirusTotal verdict change on my skills' },
+  { value: 'comment.mention', label: 'Someone @mentioned me in a comment' },
+] as const
+
+type WebhookEndpoint = {
+  _id: Id<'webhookEndpoints'>
+  url: string
+  label?: string
+  events: string[]
+  secretPrefix: string
+  createdAt: number
+  disabledAt?: number
+  lastDeliveryAt?: number
+  lastDeliveryStatus?: 'success' | 'failed'
+}
+
+type WebhookDelivery = {
+  _id: Id<'webhookDeliveries'>
+  event: string
+  status: 'pending' | 'success' | 'failed'
+  attempts: number
+  nextAttemptAt?: number
+  responseStatus?: number
+  error?: string
+  createdAt: number
+}
+
+export function WebhookSettings() {
+  const endpoints = useQuery(api.webhooks.listMine) as WebhookEndpoint[] | undefined
+  const createEndpoint = useMutation(api.webhooks.create)
+  const removeEndpoint = useMutation(api.webhooks.remove)
+  const setDisabled = useMutation(api.webhooks.setDisabled)
+  const sendTest = useMutation(api.webhooks.sendTest)
+  const [url, setUrl] = useState('')
+  const [events, setEvents] = useState<string[]>(WEBHOOK_EVENT_OPTIONS.map((option) => option.value))
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<Id<'webhookEndpoints'> | null>(null)
+
+  function toggleEvent(value: string) {
+    setEvents((current) =>
+      current.includes(value) ? current.filter((event) => event !== value) : [...current, value],
+    )
+  }
+
+  async function onCreate() {
+    setError(null)
+    try {
+      const result = await createEndpoint({ url: url.trim(), events })
+      setNewSecret(result.secret)
+      setUrl('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add webhook.')
+    }
+  }
+
+  return (
+    <div className="card settings-card">
+      <h2 className="section-title danger-title" style={{ marginTop: 0 }}>
+        Webhooks
+      </h2>
+      <p className="section-subtitle">
+        POST signed JSON to your own endpoint. Verify the `X-ClawHub-Signature` header (HMAC-SHA256
+        of `timestamp.body`) with the signing secret, which is shown once on creation.
+      </p>
+
+      <div className="settings-field">
+        <span>Endpoint URL</span>
+        <input
+          className="settings-input"
+          value={url}
+          onChange={(event) => setUrl(event.target.value)}
+          placeholder="https://example.com/clawhub-webhook"
+        />
+      </div>
+      <div className="webhook-events">
+        {WEBHOOK_EVENT_OPTIONS.map((option) => (
+          <label key={option.value} className="webhook-event">
+            <input
+              type="checkbox"
+              checked={events.includes(option.value)}
+              onChange={() => toggleEvent(option.value)}
+            />
+            <span>{option.label}</span>
+          </label>
+        ))}
+      </div>
+      <div className="settings-actions">
+        <button
+          className="btn btn-primary settings-save"
+          type="button"
+          disabled={!url.trim() || events.length === 0}
+          onClick={() => void onCreate()}
+        >
+          Add webhook
+        </button>
+        {error ? <div className="stat">{error}</div> : null}
+        {newSecret ? (
+          <div className="stat" style={{ overflowX: 'auto' }}>
+            <div style={{ marginBottom: 8 }}>Copy this signing secret now:</div>
+            <code>{newSecret}</code>
+          </div>
+        ) : null}
+      </div>
+
+      {(endpoints ?? []).length ? (
+        <div style={{ display: 'grid', gap: 10, marginTop: 16 }}>
+          {(endpoints ?? []).map((endpoint) => (
+            <div key={endpoint._id} className="stat">
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}>
+                <div style={{ minWidth: 0 }}>
+                  <div className="webhook-url">
+                    <strong>{endpoint.label ?? endpoint.url}</strong>{' '}
+                    <span style={{ opacity: 0.7 }}>({endpoint.secretPrefix}…)</span>
+                  </div>
+                  <div style={{ opacity: 0.7 }}>
+                    {endpoint.events.join(', ')}
+                    {endpoint.lastDeliveryAt
+                      ? ` · Last delivery ${endpoint.lastDeliveryStatus ?? ''} ${formatDate(endpoint.lastDeliveryAt)}`
+                      : ''}
+                    {endpoint.disabledAt ? ' · Paused' : ''}
+                  </div>
+                </div>
+                <div className="webhook-actions">
+                  <button
+                    className="btn"
+                    type="button"
+                    disabled={Boolean(endpoint.disabledAt)}
+                    onClick={() => void sendTest({ endpointId: endpoint._id })}
+                  >
+                    Send test event
+                  </button>
+                  <button
+                    className="btn"
+                    type="button"
+                    onClick={() =>
+                      setExpandedId((current) => (current === endpoint._id ? null : endpoint._id))
+                    }
+                  >
+                    {expandedId === endpoint._id ? 'Hide log' : 'Deliveries'}
+                  </button>
+                  <button
+                    className="btn"
+                    type="button"
+                    onClick={() =>
+                      void setDisabled({
+                        endpointId: endpoint._id,
+                        disabled: !endpoint.disabledAt,
+                      })
+                    }
+                  >
+                    {endpoint.disabledAt ? 'Resume' : 'Pause'}
+                  </button>
+                  <button
+                    className="btn"
+                    type="button"
+                    onClick={() => void removeEndpoint({ endpointId: endpoint._id })}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {expandedId === endpoint._id ? <WebhookDeliveryLog endpointId={endpoint._id} /> : null}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="section-subtitle" style={{ marginTop: 16 }}>
+          No webhooks yet.
+        </p>
+      )}
+    </div>
+  )
+}
+
+function WebhookDeliveryLog({ endpointId }: { endpointId: Id<'webhookEndpoints'> }) {
+  const deliveries = useQuery(api.webhooks.listDeliveries, { endpointId, limit: 20 }) as
+    | WebhookDelivery[]
+    | undefined
+  if (!deliveries) return <div style={{ marginTop: 10, opacity: 0.7 }}>Loading…</div>
+  if (deliveries.length === 0) {
+    return <div style={{ marginTop: 10, opacity: 0.7 }}>No deliveries yet.</div>
+  }
+  return (
+    <ul className="webhook-deliveries">
+      {deliveries.map((delivery) => (
+        <li key={delivery._id}>
+          <code>{delivery.event}</code>{' '}
+          <span className={`webhook-status webhook-status-${delivery.status}`}>
+            {delivery.status}
+          </span>{' '}
+          {delivery.responseStatus ? `HTTP ${delivery.responseStatus} · ` : ''}
+          {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'} ·{' '}
+          {formatDate(delivery.createdAt)}
+          {delivery.nextAttemptAt ? ` · retry ${formatDate(delivery.nextAttemptAt)}` : ''}
+          {delivery.error ? <div style={{ opacity: 0.7 }}>{delivery.error}</div> : null}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function formatDate(value: number) {
+  try {
+    return new Date(value).toLocaleString()
+  } catch {
+    return String(value)
+  }
+}
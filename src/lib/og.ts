@@ -60,12 +60,13 @@ export async function fetchSkillMeta(slug: string) {
     const payload = (await response.json()) as {
       skill?: { displayName?: string; summary?: string | null } | null
       owner?: { handle?: string | null; userId?: string | null } | null
+      org?: { handle?: string | null } | null
       latestVersion?: { version?: string | null } | null
     }
     return {
       displayName: payload.skill?.displayName ?? null,
       summary: payload.skill?.summary ?? null,
-      owner: payload.owner?.handle ?? null,
+      owner: payload.org?.handle ? `@${payload.org.handle}` : (payload.owner?.handle ?? null),
       ownerId: payload.owner?.userId ?? null,
       version: payload.latestVersion?.version ?? null,
     }
@@ -105,7 +106,8 @@ export function buildSkillMeta(source: SkillMetaSource): SkillMeta {
   const version = clean(source.version)
   const title = `${displayName} — ClawHub`
   const description =
-    summary || (owner ? `Agent skill by @${owner} on ClawHub.` : DEFAULT_DESCRIPTION)
+    summary ||
+    (owner ? `Agent skill by ${formatOwnerLabel(owner)} on ClawHub.` : DEFAULT_DESCRIPTION)
   const ownerPath = owner || ownerId || 'unknown'
   const url = `${siteUrl}/${ownerPath}/${source.slug}`
   const imageParams = new URLSearchParams()
@@ -154,3 +156,8 @@ function truncate(value: string, max: number) {
   if (value.length <= max) return value
   return `${value.slice(0, max - 1).trim()}…`
 }
+
+// Org owners already carry their `@` (`@acme`); user handles do not.
+function formatOwnerLabel(owner: string) {
+  return owner.startsWith('@') ? owner : `@${owner}`
+}
@@ -5,6 +5,8 @@ export type PublicUser = Pick<
   '_id' | '_creationTime' | 'handle' | 'name' | 'displayName' | 'image' | 'bio'
 >
 
+export type PublicOrg = Pick<Doc<'orgs'>, '_id' | 'handle' | 'displayName' | 'bio' | 'createdAt'>
+
 export type PublicSkill = Pick<
   Doc<'skills'>,
   | '_id'
@@ -13,6 +15,8 @@ export type PublicSkill = Pick<
   | 'displayName'
   | 'summary'
   | 'ownerUserId'
+  | 'ownerOrgId'
+  | 'visibility'
   | 'canonicalSkillId'
   | 'forkOf'
   | 'latestVersionId'
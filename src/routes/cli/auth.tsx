@@ -19,6 +19,7 @@ function CliAuth() {
     redirect_uri?: string
     label?: string
     label_b64?: string
+    scopes?: string
     state?: string
   }
   const [status, setStatus] = useState<string>('Preparing…')
@@ -28,6 +29,7 @@ function CliAuth() {
   const redirectUri = search.redirect_uri ?? ''
   const label = (decodeLabel(search.label_b64) ?? search.label ?? 'CLI token').trim() || 'CLI token'
   const state = typeof search.state === 'string' ? search.state.trim() : ''
+  const scopes = useMemo(() => parseScopes(search.scopes), [search.scopes])
   const signInRedirectTo = getCurrentRelativeUrl()
 
   const safeRedirect = useMemo(() => isAllowedRedirectUri(redirectUri), [redirectUri])
@@ -47,7 +49,7 @@ function CliAuth() {
 
     const run = async () => {
       setStatus('Creating token…')
-      const result = await createToken({ label })
+      const result = await createToken({ label, scopes })
       setToken(result.token)
       setStatus('Redirecting to CLI…')
       const hash = new URLSearchParams()
@@ -62,7 +64,17 @@ function CliAuth() {
       setStatus(message)
       setToken(null)
     })
-  }, [createToken, isAuthenticated, label, me, redirectUri, registry, safeRedirect, state])
+  }, [
+    createToken,
+    isAuthenticated,
+    label,
+    me,
+    redirectUri,
+    registry,
+    safeRedirect,
+    scopes,
+    state,
+  ])
 
   if (!safeRedirect) {
     return (
@@ -150,6 +162,16 @@ function isAllowedRedirectUri(value: string) {
   return host === '127.0.0.1' || host === 'localhost' || host === '::1' || host === '[::1]'
 }
 
+/** `scopes=read,publish:my-*` from `clawhub login --scopes`; absent means the default set. */
+function parseScopes(value: string | undefined) {
+  if (typeof value !== 'string') return undefined
+  const scopes = value
+    .split(',')
+    .map((scope) => scope.trim())
+    .filter(Boolean)
+  return scopes.length ? scopes : undefined
+}
+
 function decodeLabel(value: string | undefined) {
   if (!value) return null
   try {
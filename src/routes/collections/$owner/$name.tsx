@@ -0,0 +1,294 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useMutation, useQuery } from 'convex/react'
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react'
+import { type FormEvent, useState } from 'react'
+import { api } from '../../../../convex/_generated/api'
+import type { Id } from '../../../../convex/_generated/dataModel'
+import { SkillCard } from '../../../components/SkillCard'
+import { SkillStatsTripletLine } from '../../../components/SkillStats'
+import { UserBadge } from '../../../components/UserBadge'
+import { getSkillBadges } from '../../../lib/badges'
+import type { PublicSkill, PublicUser } from '../../../lib/publicUser'
+
+type CollectionEntry = {
+  _id: Id<'collectionItems'>
+  position: number
+  note: string | null
+  versionPin: string | null
+  skill: PublicSkill
+  latestVersion: string | null
+}
+
+type CollectionPageData = {
+  collection: {
+    _id: Id<'collections'>
+    name: string
+    displayName: string
+    description: string | null
+    visibility: 'public' | 'unlisted'
+    itemCount: number
+    updatedAt: number
+  }
+  owner: PublicUser
+  items: CollectionEntry[]
+  isOwner: boolean
+} | null
+
+export const Route = createFileRoute('/collections/$owner/$name')({
+  component: CollectionPage,
+})
+
+function CollectionPage() {
+  const { owner, name } = Route.useParams()
+  const data = useQuery(api.collections.getByOwnerAndName, { owner, name }) as
+    | CollectionPageData
+    | undefined
+
+  if (data === undefined) {
+    return (
+      <main className="section">
+        <div className="card">
+          <div className="loading-indicator">Loading collection…</div>
+        </div>
+      </main>
+    )
+  }
+  if (data === null) {
+    return (
+      <main className="section">
+        <div className="card">Collection not found.</div>
+      </main>
+    )
+  }
+
+  const { collection, items, isOwner } = data
+  const ref = `${data.owner.handle ?? owner}/${collection.name}`
+
+  return (
+    <main className="section">
+      <h1 className="section-title">{collection.displayName}</h1>
+      <div className="collection-meta">
+        <UserBadge user={data.owner} prefix="by" />
+        {collection.visibility === 'unlisted' ? (
+          <span className="tag tag-compact">Unlisted</span>
+        ) : null}
+      </div>
+      {collection.description ? (
+        <p className="section-subtitle">{collection.description}</p>
+      ) : null}
+      <div className="card collection-install">
+        <span>Install all {items.length} skills:</span>
+        <code>clawhub install --collection {ref}</code>
+      </div>
+
+      {isOwner ? <CollectionOwnerControls collection={collection} /> : null}
+
+      <div className="grid">
+        {items.length === 0 ? (
+          <div className="card">This collection has no skills yet.</div>
+        ) : (
+          items.map((item, index) => (
+            <div key={item._id} className="collection-entry">
+              <SkillCard
+                skill={item.skill}
+                badge={getSkillBadges(item.skill)}
+                chip={item.versionPin ? `pinned ${item.versionPin}` : undefined}
+                summaryFallback="Agent-ready skill pack."
+                meta={
+                  <div className="skill-card-footer-rows">
+                    {item.note ? <div className="collection-note">{item.note}</div> : null}
+                    <div className="stat">
+                      {item.latestVersion ? `Latest v${item.latestVersion}` : 'No versions'}
+                    </div>
+                    <div className="stat">
+                      <SkillStatsTripletLine stats={item.skill.stats} />
+                    </div>
+                  </div>
+                }
+              />
+              {isOwner ? (
+                <CollectionItemControls
+                  collectionId={collection._id}
+                  items={items}
+                  item={item}
+                  index={index}
+                />
+              ) : null}
+            </div>
+          ))
+        )}
+      </div>
+    </main>
+  )
+}
+
+function CollectionOwnerControls({
+  collection,
+}: {
+  collection: NonNullable<CollectionPageData>['collection']
+}) {
+  const navigate = useNavigate()
+  const addItem = useMutation(api.collections.addItem)
+  const updateCollection = useMutation(api.collections.update)
+  const removeCollection = useMutation(api.collections.remove)
+  const [slug, setSlug] = useState('')
+  const [note, setNote] = useState('')
+  const [versionPin, setVersionPin] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  async function onAdd(event: FormEvent) {
+    event.preventDefault()
+    setError(null)
+    try {
+      await addItem({ collectionId: collection._id, slug, note, versionPin })
+      setSlug('')
+      setNote('')
+      setVersionPin('')
+    } catch (addError) {
+      setError(addError instanceof Error ? addError.message : 'Could not add skill.')
+    }
+  }
+
+  async function onDelete() {
+    if (!window.confirm(`Delete the collection "${collection.displayName}"?`)) return
+    try {
+      await removeCollection({ collectionId: collection._id })
+      void navigate({ to: '/collections' })
+    } catch (deleteError) {
+      console.error('Failed to delete collection:', deleteError)
+      window.alert('Unable to delete this collection. Please try again.')
+    }
+  }
+
+  return (
+    <form className="card settings-card" onSubmit={onAdd}>
+      <div className="settings-field">
+        <span>Add a skill</span>
+        <input
+          className="settings-input"
+          value={slug}
+          onChange={(event) => setSlug(event.target.value)}
+          placeholder="skill-slug"
+        />
+      </div>
+      <div className="settings-field">
+        <span>Note</span>
+        <input
+          className="settings-input"
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="Why it's in the set (optional)"
+        />
+      </div>
+      <div className="settings-field">
+        <span>Version pin</span>
+        <input
+          className="settings-input"
+          value={versionPin}
+          onChange={(event) => setVersionPin(event.target.value)}
+          placeholder="1.2.0 or ^1.2.0 (empty: latest)"
+        />
+      </div>
+      <div className="settings-actions">
+        <button className="btn btn-primary settings-save" type="submit" disabled={!slug.trim()}>
+          Add skill
+        </button>
+        <select
+          className="skills-sort"
+          value={collection.visibility}
+          onChange={(event) =>
+            void updateCollection({
+              collectionId: collection._id,
+              visibility: event.target.value as 'public' | 'unlisted',
+            })
+          }
+          aria-label="Visibility"
+        >
+          <option value="public">Public</option>
+          <option value="unlisted">Unlisted</option>
+        </select>
+        <button className="btn btn-ghost btn-sm" type="button" onClick={() => void onDelete()}>
+          Delete collection
+        </button>
+        {error ? <div className="stat">{error}</div> : null}
+      </div>
+      <p className="section-subtitle" style={{ margin: 0 }}>
+        Back to <Link to="/collections">all collections</Link>.
+      </p>
+    </form>
+  )
+}
+
+function CollectionItemControls({
+  collectionId,
+  items,
+  item,
+  index,
+}: {
+  collectionId: Id<'collections'>
+  items: CollectionEntry[]
+  item: CollectionEntry
+  index: number
+}) {
+  const reorder = useMutation(api.collections.reorder)
+  const updateItem = useMutation(api.collections.updateItem)
+  const removeItem = useMutation(api.collections.removeItem)
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error('Failed to update collection:', error)
+      window.alert(error instanceof Error ? error.message : 'Unable to update the collection.')
+    }
+  }
+
+  const move = (offset: number) => {
+    const ids = items.map((entry) => entry._id)
+    const [moved] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, moved)
+    void run(() => reorder({ collectionId, itemIds: ids }))
+  }
+
+  const edit = () => {
+    const note = window.prompt('Note (empty to clear)', item.note ?? '')
+    if (note === null) return
+    const versionPin = window.prompt('Version pin (empty for latest)', item.versionPin ?? '')
+    if (versionPin === null) return
+    void run(() => updateItem({ itemId: item._id, note, versionPin }))
+  }
+
+  return (
+    <div className="collection-entry-actions">
+      <button
+        className="btn btn-ghost btn-sm"
+        type="button"
+        disabled={index === 0}
+        onClick={() => move(-1)}
+        aria-label={`Move ${item.skill.displayName} up`}
+      >
+        <ArrowUp className="h-3 w-3" aria-hidden="true" />
+      </button>
+      <button
+        className="btn btn-ghost btn-sm"
+        type="button"
+        disabled={index === items.length - 1}
+        onClick={() => move(1)}
+        aria-label={`Move ${item.skill.displayName} down`}
+      >
+        <ArrowDown className="h-3 w-3" aria-hidden="true" />
+      </button>
+      <button className="btn btn-ghost btn-sm" type="button" onClick={edit}>
+        Note / pin
+      </button>
+      <button
+        className="btn btn-ghost btn-sm"
+        type="button"
+        onClick={() => void run(() => removeItem({ itemId: item._id }))}
+        aria-label={`Remove ${item.skill.displayName}`}
+      >
+        <Trash2 className="h-3 w-3" aria-hidden="true" />
+      </button>
+    </div>
+  )
+}
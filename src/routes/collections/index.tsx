@@ -0,0 +1,195 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useMutation, useQuery } from 'convex/react'
+import { type FormEvent, useState } from 'react'
+import { api } from '../../../convex/_generated/api'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import { UserBadge } from '../../components/UserBadge'
+import { formatCompactStat } from '../../lib/numberFormat'
+import type { PublicUser } from '../../lib/publicUser'
+
+type CollectionSummary = {
+  _id: string
+  name: string
+  displayName: string
+  description: string | null
+  visibility: 'public' | 'unlisted'
+  itemCount: number
+  updatedAt: number
+}
+
+export const Route = createFileRoute('/collections/')({
+  component: Collections,
+})
+
+function Collections() {
+  const me = useQuery(api.users.me) as Doc<'users'> | null | undefined
+  const mine = useQuery(api.collections.listMine, me ? {} : 'skip') as
+    | CollectionSummary[]
+    | undefined
+  const recent = useQuery(api.collections.listPublic, { limit: 48 }) as
+    | Array<CollectionSummary & { owner: PublicUser }>
+    | undefined
+
+  return (
+    <main className="section">
+      <h1 className="section-title">Collections</h1>
+      <p className="section-subtitle">
+        Curated sets of skills, installable together with{' '}
+        <code>clawhub install --collection &lt;owner&gt;/&lt;name&gt;</code>.
+      </p>
+
+      {me ? (
+        <>
+          <h2 className="section-title" style={{ fontSize: '1.3rem' }}>
+            Your collections
+          </h2>
+          <CreateCollectionForm handle={me.handle ?? null} />
+          <div className="grid">
+            {mine === undefined ? (
+              <div className="card">
+                <div className="loading-indicator">Loading collections…</div>
+              </div>
+            ) : mine.length === 0 ? (
+              <div className="card">No collections yet.</div>
+            ) : (
+              mine.map((collection) => (
+                <CollectionCard
+                  key={collection._id}
+                  collection={collection}
+                  ownerHandle={me.handle ?? null}
+                />
+              ))
+            )}
+          </div>
+        </>
+      ) : null}
+
+      <h2 className="section-title" style={{ fontSize: '1.3rem' }}>
+        Recently updated
+      </h2>
+      <div className="grid">
+        {recent === undefined ? (
+          <div className="card">
+            <div className="loading-indicator">Loading collections…</div>
+          </div>
+        ) : recent.length === 0 ? (
+          <div className="card">No public collections yet.</div>
+        ) : (
+          recent.map((collection) => (
+            <CollectionCard
+              key={collection._id}
+              collection={collection}
+              owner={collection.owner}
+              ownerHandle={collection.owner.handle ?? null}
+            />
+          ))
+        )}
+      </div>
+    </main>
+  )
+}
+
+function CollectionCard({
+  collection,
+  owner,
+  ownerHandle,
+}: {
+  collection: CollectionSummary
+  owner?: PublicUser
+  ownerHandle: string | null
+}) {
+  const body = (
+    <>
+      {collection.visibility === 'unlisted' ? (
+        <div className="skill-card-tags">
+          <div className="tag tag-compact">Unlisted</div>
+        </div>
+      ) : null}
+      <h3 className="skill-card-title">{collection.displayName}</h3>
+      <p className="skill-card-summary">{collection.description ?? collection.name}</p>
+      <div className="skill-card-footer">
+        <div className="skill-card-footer-rows">
+          {owner ? <UserBadge user={owner} prefix="by" link={false} /> : null}
+          <div className="stat">{formatCompactStat(collection.itemCount)} skills</div>
+        </div>
+      </div>
+    </>
+  )
+  if (!ownerHandle) return <div className="card skill-card">{body}</div>
+  return (
+    <Link
+      to="/collections/$owner/$name"
+      params={{ owner: ownerHandle, name: collection.name }}
+      className="card skill-card"
+    >
+      {body}
+    </Link>
+  )
+}
+
+function CreateCollectionForm({ handle }: { handle: string | null }) {
+  const navigate = useNavigate()
+  const createCollection = useMutation(api.collections.create)
+  const [name, setName] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [description, setDescription] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  async function onCreate(event: FormEvent) {
+    event.preventDefault()
+    setError(null)
+    try {
+      const result = await createCollection({ name, displayName, description })
+      setName('')
+      setDisplayName('')
+      setDescription('')
+      if (handle) {
+        void navigate({
+          to: '/collections/$owner/$name',
+          params: { owner: handle, name: result.name },
+        })
+      }
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Could not create collection.')
+    }
+  }
+
+  return (
+    <form className="card settings-card" onSubmit={onCreate}>
+      <label className="settings-field">
+        <span>Name</span>
+        <input
+          className="settings-input"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="onboarding-kit"
+        />
+      </label>
+      <label className="settings-field">
+        <span>Title</span>
+        <input
+          className="settings-input"
+          value={displayName}
+          onChange={(event) => setDisplayName(event.target.value)}
+          placeholder="Our onboarding kit"
+        />
+      </label>
+      <label className="settings-field">
+        <span>Description</span>
+        <textarea
+          className="settings-input"
+          rows={3}
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          placeholder="What this set is for and who should install it."
+        />
+      </label>
+      <div className="settings-actions">
+        <button className="btn btn-primary settings-save" type="submit" disabled={!name.trim()}>
+          Create collection
+        </button>
+        {error ? <div className="stat">{error}</div> : null}
+      </div>
+    </form>
+  )
+}
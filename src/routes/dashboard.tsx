@@ -1,8 +1,10 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { useQuery } from 'convex/react'
-import { Clock, Package, Plus, Upload } from 'lucide-react'
+import { BarChart3, Clock, Package, Plus, Upload } from 'lucide-react'
+import { useState } from 'react'
 import { api } from '../../convex/_generated/api'
-import type { Doc } from '../../convex/_generated/dataModel'
+import type { Doc, Id } from '../../convex/_generated/dataModel'
+import { SkillAnalyticsPanel } from '../components/SkillAnalyticsPanel'
 import { formatCompactStat } from '../lib/numberFormat'
 import type { PublicSkill } from '../lib/publicUser'
 
@@ -18,6 +20,7 @@ function Dashboard() {
     api.skills.list,
     me?._id ? { ownerUserId: me._id, limit: 100 } : 'skip',
   ) as DashboardSkill[] | undefined
+  const [analyticsSkillId, setAnalyticsSkillId] = useState<Id<'skills'> | null>(null)
 
   if (!me) {
     return (
@@ -55,7 +58,15 @@ function Dashboard() {
       ) : (
         <div className="dashboard-grid">
           {skills.map((skill) => (
-            <SkillCard key={skill._id} skill={skill} ownerHandle={ownerHandle} />
+            <SkillCard
+              key={skill._id}
+              skill={skill}
+              ownerHandle={ownerHandle}
+              showAnalytics={analyticsSkillId === skill._id}
+              onToggleAnalytics={() =>
+                setAnalyticsSkillId((current) => (current === skill._id ? null : skill._id))
+              }
+            />
           ))}
         </div>
       )}
@@ -63,48 +74,70 @@ function Dashboard() {
   )
 }
 
-function SkillCard({ skill, ownerHandle }: { skill: DashboardSkill; ownerHandle: string | null }) {
+function SkillCard({
+  skill,
+  ownerHandle,
+  showAnalytics,
+  onToggleAnalytics,
+}: {
+  skill: DashboardSkill
+  ownerHandle: string | null
+  showAnalytics: boolean
+  onToggleAnalytics: () => void
+}) {
   return (
-    <div className="dashboard-skill-card">
-      <div className="dashboard-skill-info">
-        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+    <div className="dashboard-skill-entry">
+      <div className="dashboard-skill-card">
+        <div className="dashboard-skill-info">
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+            <Link
+              to="/$owner/$slug"
+              params={{ owner: ownerHandle ?? 'unknown', slug: skill.slug }}
+              className="dashboard-skill-name"
+            >
+              {skill.displayName}
+            </Link>
+            <span className="dashboard-skill-slug">/{skill.slug}</span>
+            {skill.pendingReview ? (
+              <span className="tag tag-pending">
+                <Clock className="h-3 w-3" aria-hidden="true" />
+                Scanning
+              </span>
+            ) : null}
+          </div>
+          {skill.summary && <p className="dashboard-skill-description">{skill.summary}</p>}
+          <div className="dashboard-skill-stats">
+            <span>
+              <Package size={13} aria-hidden="true" /> {formatCompactStat(skill.stats.downloads)}
+            </span>
+            <span>★ {formatCompactStat(skill.stats.stars)}</span>
+            <span>{skill.stats.versions} v</span>
+          </div>
+        </div>
+        <div className="dashboard-skill-actions">
+          <button
+            className={showAnalytics ? 'btn btn-sm is-active' : 'btn btn-sm'}
+            type="button"
+            aria-expanded={showAnalytics}
+            onClick={onToggleAnalytics}
+          >
+            <BarChart3 className="h-3 w-3" aria-hidden="true" />
+            Analytics
+          </button>
+          <Link to="/upload" search={{ updateSlug: skill.slug }} className="btn btn-sm">
+            <Upload className="h-3 w-3" aria-hidden="true" />
+            New Version
+          </Link>
           <Link
             to="/$owner/$slug"
             params={{ owner: ownerHandle ?? 'unknown', slug: skill.slug }}
-            className="dashboard-skill-name"
+            className="btn btn-ghost btn-sm"
           >
-            {skill.displayName}
+            View
           </Link>
-          <span className="dashboard-skill-slug">/{skill.slug}</span>
-          {skill.pendingReview ? (
-            <span className="tag tag-pending">
-              <Clock className="h-3 w-3" aria-hidden="true" />
-              Scanning
-            </span>
-          ) : null}
         </div>
-        {skill.summary && <p className="dashboard-skill-description">{skill.summary}</p>}
-        <div className="dashboard-skill-stats">
-          <span>
-            <Package size={13} aria-hidden="true" /> {formatCompactStat(skill.stats.downloads)}
-          </span>
-          <span>★ {formatCompactStat(skill.stats.stars)}</span>
-          <span>{skill.stats.versions} v</span>
-        </div>
-      </div>
-      <div className="dashboard-skill-actions">
-        <Link to="/upload" search={{ updateSlug: skill.slug }} className="btn btn-sm">
-          <Upload className="h-3 w-3" aria-hidden="true" />
-          New Version
-        </Link>
-        <Link
-          to="/$owner/$slug"
-          params={{ owner: ownerHandle ?? 'unknown', slug: skill.slug }}
-          className="btn btn-ghost btn-sm"
-        >
-          View
-        </Link>
       </div>
+      {showAnalytics ? <SkillAnalyticsPanel skillId={skill._id} /> : null}
     </div>
   )
 }
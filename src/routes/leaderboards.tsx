@@ -0,0 +1,168 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { SkillCard } from '../components/SkillCard'
+import { SkillStatsTripletLine } from '../components/SkillStats'
+import { UserBadge } from '../components/UserBadge'
+import { getSkillBadges } from '../lib/badges'
+import { formatCompactStat } from '../lib/numberFormat'
+import type { PublicSkill, PublicUser } from '../lib/publicUser'
+
+const KINDS = [
+  { kind: 'trending', label: 'Trending', subtitle: 'Installs this week, recent days weigh more.' },
+  { kind: 'rising', label: 'Rising', subtitle: 'Fastest install growth over the previous week.' },
+  { kind: 'new', label: 'New this week', subtitle: 'Published in the last 7 days.' },
+  { kind: 'top-month', label: 'Most starred', subtitle: 'Stars gained in the last 30 days.' },
+] as const
+
+type LeaderboardRanking = {
+  score: number
+  installs: number
+  downloads: number
+  stars?: number
+  previousInstalls?: number
+}
+
+type LeaderboardResult = {
+  kind: string
+  generatedAt: number
+  items: Array<{
+    skill: PublicSkill
+    ownerHandle?: string | null
+    owner?: PublicUser | null
+    ranking: LeaderboardRanking
+  }>
+} | null
+
+export const Route = createFileRoute('/leaderboards')({
+  validateSearch: (search) => ({
+    board: typeof search.board === 'string' && search.board.trim() ? search.board : undefined,
+  }),
+  component: Leaderboards,
+})
+
+function Leaderboards() {
+  const search = Route.useSearch()
+  const navigate = useNavigate({ from: '/leaderboards' })
+  const board = search.board ?? 'trending'
+  const result = useQuery(api.skills.listLeaderboard, { kind: board, limit: 50 }) as
+    | LeaderboardResult
+    | undefined
+  const scopes = useQuery(api.skills.listLeaderboardScopes) as
+    | { categories: string[]; os: string[] }
+    | undefined
+
+  const active = KINDS.find((entry) => entry.kind === board)
+  const scopeLabel = board.startsWith('category:')
+    ? `Trending in ${board.slice('category:'.length)}`
+    : board.startsWith('os:')
+      ? `Trending on ${board.slice('os:'.length)}`
+      : null
+  const setBoard = (next: string) => {
+    void navigate({ search: { board: next === 'trending' ? undefined : next } })
+  }
+
+  return (
+    <main className="section">
+      <h1 className="section-title">Leaderboards</h1>
+      <p className="section-subtitle">
+        {active?.subtitle ?? 'Installs this week within one category or platform.'} Rebuilt
+        hourly.
+      </p>
+
+      <div className="profile-tabs" role="tablist" aria-label="Leaderboards">
+        {KINDS.map((entry) => (
+          <button
+            key={entry.kind}
+            className={board === entry.kind ? 'profile-tab is-active' : 'profile-tab'}
+            type="button"
+            role="tab"
+            aria-selected={board === entry.kind}
+            onClick={() => setBoard(entry.kind)}
+          >
+            {entry.label}
+          </button>
+        ))}
+        {scopes && (scopes.categories.length > 0 || scopes.os.length > 0) ? (
+          <select
+            className="skills-sort"
+            value={scopeLabel ? board : ''}
+            onChange={(event) => setBoard(event.target.value || 'trending')}
+            aria-label="Category or platform"
+          >
+            <option value="">Category or platform…</option>
+            {scopes.categories.length > 0 ? (
+              <optgroup label="Category">
+                {scopes.categories.map((category) => (
+                  <option key={category} value={`category:${category}`}>
+                    {category}
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+            {scopes.os.length > 0 ? (
+              <optgroup label="Platform">
+                {scopes.os.map((os) => (
+                  <option key={os} value={`os:${os}`}>
+                    {os}
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+          </select>
+        ) : null}
+      </div>
+
+      {scopeLabel ? (
+        <h2 className="section-title" style={{ fontSize: '1.3rem' }}>
+          {scopeLabel}
+        </h2>
+      ) : null}
+
+      <div className="grid">
+        {result === undefined ? (
+          <div className="card">
+            <div className="loading-indicator">Loading leaderboard…</div>
+          </div>
+        ) : result === null || result.items.length === 0 ? (
+          <div className="card">Nothing ranked here yet.</div>
+        ) : (
+          result.items.map((entry, index) => (
+            <SkillCard
+              key={entry.skill._id}
+              skill={entry.skill}
+              badge={getSkillBadges(entry.skill)}
+              chip={`#${index + 1}`}
+              summaryFallback="Agent-ready skill pack."
+              meta={
+                <div className="skill-card-footer-rows">
+                  <UserBadge
+                    user={entry.owner}
+                    fallbackHandle={entry.ownerHandle ?? null}
+                    prefix="by"
+                    link={false}
+                  />
+                  <div className="stat">{formatRanking(result.kind, entry.ranking)}</div>
+                  <div className="stat">
+                    <SkillStatsTripletLine stats={entry.skill.stats} />
+                  </div>
+                </div>
+              }
+            />
+          ))
+        )}
+      </div>
+    </main>
+  )
+}
+
+function formatRanking(kind: string, ranking: LeaderboardRanking) {
+  if (kind === 'rising') {
+    return `${formatCompactStat(ranking.installs)} installs this week, up from ${formatCompactStat(
+      ranking.previousInstalls ?? 0,
+    )}`
+  }
+  if (kind === 'top-month') return `⭐ ${formatCompactStat(ranking.stars ?? 0)} this month`
+  if (kind === 'new') return `${formatCompactStat(ranking.downloads)} downloads since launch`
+  return `${formatCompactStat(ranking.installs)} installs this week`
+}
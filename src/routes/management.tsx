@@ -3,6 +3,9 @@ import { useMutation, useQuery } from 'convex/react'
 import { useEffect, useState } from 'react'
 import { api } from '../../convex/_generated/api'
 import type { Doc, Id } from '../../convex/_generated/dataModel'
+import { AppealQueue } from '../components/AppealQueue'
+import { ModerationCaseQueue } from '../components/ModerationCaseQueue'
+import { ScanRulesetEditor } from '../components/ScanRulesetEditor'
 import {
   getSkillBadges,
   isSkillDeprecated,
@@ -199,6 +202,13 @@ function Management() {
       <p className="section-subtitle">Moderation, curation, and ownership tools.</p>
 
       <div className="card">
+        <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
+          Moderation queue
+        </h2>
+        <ModerationCaseQueue />
+      </div>
+
+      <div className="card" style={{ marginTop: 20 }}>
         <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
           Reported skills
         </h2>
@@ -289,6 +299,13 @@ function Management() {
         </div>
       </div>
 
+      <div className="card" style={{ marginTop: 20 }}>
+        <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
+          Appeals
+        </h2>
+        <AppealQueue />
+      </div>
+
       <div className="card" style={{ marginTop: 20 }}>
         <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
           Skill tools
@@ -697,6 +714,15 @@ function Management() {
           </div>
         </div>
       ) : null}
+
+      {admin ? (
+        <div className="card" style={{ marginTop: 20 }}>
+          <h2 className="section-title" style={{ fontSize: '1.2rem', margin: 0 }}>
+            Scan rules
+          </h2>
+          <ScanRulesetEditor />
+        </div>
+      ) : null}
     </main>
   )
 }
@@ -0,0 +1,127 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery } from 'convex/react'
+import { useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import type { Doc, Id } from '../../convex/_generated/dataModel'
+
+export const Route = createFileRoute('/notifications')({
+  component: Notifications,
+})
+
+type NotificationEntry = {
+  _id: Id<'notifications'>
+  kind: string
+  title: string
+  body: string | null
+  url: string | null
+  createdAt: number
+  readAt: number | null
+}
+
+function Notifications() {
+  const me = useQuery(api.users.me) as Doc<'users'> | null | undefined
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const notifications = useQuery(
+    api.notifications.list,
+    me ? { limit: 100, unreadOnly } : 'skip',
+  ) as NotificationEntry[] | undefined
+  const markRead = useMutation(api.notifications.markRead)
+
+  if (!me) {
+    return (
+      <main className="section">
+        <div className="card">Sign in to see your notifications.</div>
+      </main>
+    )
+  }
+
+  const hasUnread = (notifications ?? []).some((entry) => !entry.readAt)
+
+  return (
+    <main className="section">
+      <h1 className="section-title">Notifications</h1>
+      <p className="section-subtitle">
+        Updates about your skills, comments and account. Choose what you get in Settings.
+      </p>
+      <div className="notifications-toolbar">
+        <div className="profile-tabs" role="tablist" aria-label="Notification filter">
+          <button
+            className={unreadOnly ? 'profile-tab' : 'profile-tab is-active'}
+            type="button"
+            role="tab"
+            aria-selected={!unreadOnly}
+            onClick={() => setUnreadOnly(false)}
+          >
+            All
+          </button>
+          <button
+            className={unreadOnly ? 'profile-tab is-active' : 'profile-tab'}
+            type="button"
+            role="tab"
+            aria-selected={unreadOnly}
+            onClick={() => setUnreadOnly(true)}
+          >
+            Unread
+          </button>
+        </div>
+        <button
+          className="btn btn-ghost btn-sm"
+          type="button"
+          disabled={!hasUnread}
+          onClick={() => void markRead({ all: true })}
+        >
+          Mark all read
+        </button>
+      </div>
+      {notifications === undefined ? (
+        <div className="loading-indicator">Loading notifications…</div>
+      ) : notifications.length === 0 ? (
+        <div className="card">{unreadOnly ? 'No unread notifications.' : 'Nothing here yet.'}</div>
+      ) : (
+        <ul className="notification-list">
+          {notifications.map((entry) => (
+            <li
+              key={entry._id}
+              className={`card notification-item${entry.readAt ? '' : ' is-unread'}`}
+            >
+              <div className="notification-main">
+                {entry.url ? (
+                  <a
+                    href={entry.url}
+                    className="notification-title"
+                    onClick={() => {
+                      if (!entry.readAt) void markRead({ notificationIds: [entry._id] })
+                    }}
+                  >
+                    {entry.title}
+                  </a>
+                ) : (
+                  <span className="notification-title">{entry.title}</span>
+                )}
+                {entry.body ? <p className="notification-body">{entry.body}</p> : null}
+                <span className="notification-meta">{formatTimestamp(entry.createdAt)}</span>
+              </div>
+              {entry.readAt ? null : (
+                <button
+                  className="btn btn-ghost btn-sm"
+                  type="button"
+                  onClick={() => void markRead({ notificationIds: [entry._id] })}
+                >
+                  Mark read
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  )
+}
+
+function formatTimestamp(value: number) {
+  try {
+    return new Date(value).toLocaleString()
+  } catch {
+    return String(value)
+  }
+}
@@ -1,5 +1,6 @@
 import { createFileRoute, redirect } from '@tanstack/react-router'
 import { detectSiteMode } from '../lib/site'
+import { parseFacetSearch } from './skills/-params'
 
 export const Route = createFileRoute('/search')({
   validateSearch: (search) => ({
@@ -7,6 +8,7 @@ export const Route = createFileRoute('/search')({
     highlighted: search.highlighted === '1' || search.highlighted === 'true' ? true : undefined,
     nonSuspicious:
       search.nonSuspicious === '1' || search.nonSuspicious === 'true' ? true : undefined,
+    ...parseFacetSearch(search),
   }),
   beforeLoad: ({ search, location }) => {
     const hostname =
@@ -24,6 +26,14 @@ export const Route = createFileRoute('/search')({
           nonSuspicious: search.nonSuspicious || undefined,
           view: undefined,
           focus: undefined,
+          os: search.os,
+          bins: search.bins,
+          env: search.env,
+          install: search.install,
+          nix: search.nix,
+          official: search.official,
+          deprecated: search.deprecated,
+          owner: search.owner,
         },
         replace: true,
       })
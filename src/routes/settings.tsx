@@ -3,12 +3,32 @@ import { useMutation, useQuery } from 'convex/react'
 import { useEffect, useState } from 'react'
 import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
+import { NotificationSettings } from '../components/NotificationSettings'
+import { OrgSettings } from '../components/OrgSettings'
+import { WebhookSettings } from '../components/WebhookSettings'
 import { gravatarUrl } from '../lib/gravatar'
 
 export const Route = createFileRoute('/settings')({
   component: Settings,
 })
 
+const TOKEN_SCOPE_OPTIONS = [
+  { value: 'read', hint: 'private skills you can see' },
+  { value: 'star', hint: 'star and unstar' },
+  { value: 'webhooks', hint: 'manage webhooks' },
+  { value: 'notifications', hint: 'mark notifications read' },
+  { value: 'telemetry', hint: 'report installs from sync' },
+  { value: 'admin', hint: 'moderator/admin API actions' },
+] as const
+
+const TOKEN_EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+]
+
 function Settings() {
   const me = useQuery(api.users.me)
   const updateProfile = useMutation(api.users.updateProfile)
@@ -18,6 +38,8 @@ function Settings() {
         _id: Id<'apiTokens'>
         label: string
         prefix: string
+        scopes: string[] | null
+        expiresAt?: number
         createdAt: number
         lastUsedAt?: number
         revokedAt?: number
@@ -29,6 +51,16 @@ function Settings() {
   const [bio, setBio] = useState('')
   const [status, setStatus] = useState<string | null>(null)
   const [tokenLabel, setTokenLabel] = useState('CLI token')
+  const [tokenScopes, setTokenScopes] = useState<string[]>([
+    'read',
+    'star',
+    'webhooks',
+    'notifications',
+    'telemetry',
+  ])
+  const [publishPatterns, setPublishPatterns] = useState('*')
+  const [tokenExpiryDays, setTokenExpiryDays] = useState(0)
+  const [tokenError, setTokenError] = useState<string | null>(null)
   const [newToken, setNewToken] = useState<string | null>(null)
 
   useEffect(() => {
@@ -66,8 +98,28 @@ function Settings() {
 
   async function onCreateToken() {
     const label = tokenLabel.trim() || 'CLI token'
-    const result = await createToken({ label })
-    setNewToken(result.token)
+    const publishScopes = publishPatterns
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((pattern) => `publish:${pattern}`)
+    const expiresAt = tokenExpiryDays ? Date.now() + tokenExpiryDays * 86_400_000 : undefined
+    setTokenError(null)
+    try {
+      const result = await createToken({
+        label,
+        scopes: [...tokenScopes, ...publishScopes],
+        expiresAt,
+      })
+      setNewToken(result.token)
+    } catch (error) {
+      setTokenError(error instanceof Error ? error.message : 'Could not create token.')
+    }
+  }
+
+  function toggleTokenScope(scope: string, enabled: boolean) {
+    setTokenScopes((current) =>
+      enabled ? [...current, scope] : current.filter((entry) => entry !== scope),
+    )
   }
 
   return (
@@ -119,7 +171,8 @@ function Settings() {
           API tokens
         </h2>
         <p className="section-subtitle">
-          Use these tokens for the `clawhub` CLI. Tokens are shown once on creation.
+          Use these tokens for the `clawhub` CLI. Tokens are shown once on creation. Give each
+          token only the scopes it needs; tokens created before scopes existed keep full access.
         </p>
 
         <div className="settings-field">
@@ -131,6 +184,45 @@ function Settings() {
             placeholder="CLI token"
           />
         </div>
+        <div className="settings-field">
+          <span>Scopes</span>
+          <div className="token-scopes">
+            {TOKEN_SCOPE_OPTIONS.map((option) => (
+              <label key={option.value} className="token-scope">
+                <input
+                  type="checkbox"
+                  checked={tokenScopes.includes(option.value)}
+                  onChange={(event) => toggleTokenScope(option.value, event.target.checked)}
+                />
+                <code>{option.value}</code>
+                <span style={{ opacity: 0.7 }}>{option.hint}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="settings-field">
+          <span>Publish slugs</span>
+          <input
+            className="settings-input"
+            value={publishPatterns}
+            onChange={(event) => setPublishPatterns(event.target.value)}
+            placeholder="* or my-skill, acme-*  (empty: no publishing)"
+          />
+        </div>
+        <div className="settings-field">
+          <span>Expires</span>
+          <select
+            className="settings-input"
+            value={tokenExpiryDays}
+            onChange={(event) => setTokenExpiryDays(Number(event.target.value))}
+          >
+            {TOKEN_EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
         <div className="settings-actions">
           <button
             className="btn btn-primary settings-save"
@@ -139,6 +231,7 @@ function Settings() {
           >
             Create token
           </button>
+          {tokenError ? <div className="stat">{tokenError}</div> : null}
           {newToken ? (
             <div className="stat" style={{ overflowX: 'auto' }}>
               <div style={{ marginBottom: 8 }}>Copy this token now:</div>
@@ -160,9 +253,13 @@ function Settings() {
                     <strong>{token.label}</strong>{' '}
                     <span style={{ opacity: 0.7 }}>({token.prefix}…)</span>
                   </div>
+                  <div style={{ opacity: 0.7 }}>
+                    Scopes: {token.scopes ? token.scopes.join(', ') : 'all (legacy token)'}
+                  </div>
                   <div style={{ opacity: 0.7 }}>
                     Created {formatDate(token.createdAt)}
                     {token.lastUsedAt ? ` · Used ${formatDate(token.lastUsedAt)}` : ''}
+                    {token.expiresAt ? ` · ${formatExpiry(token.expiresAt)}` : ''}
                     {token.revokedAt ? ` · Revoked ${formatDate(token.revokedAt)}` : ''}
                   </div>
                 </div>
@@ -186,6 +283,12 @@ function Settings() {
         )}
       </div>
 
+      <OrgSettings />
+
+      <NotificationSettings />
+
+      <WebhookSettings />
+
       <div className="card danger-card">
         <h2 className="section-title danger-title">Danger zone</h2>
         <p className="section-subtitle">
@@ -199,6 +302,11 @@ function Settings() {
   )
 }
 
+function formatExpiry(expiresAt: number) {
+  const prefix = expiresAt <= Date.now() ? 'Expired' : 'Expires'
+  return `${prefix} ${formatDate(expiresAt)}`
+}
+
 function formatDate(value: number) {
   try {
     return new Date(value).toLocaleString()
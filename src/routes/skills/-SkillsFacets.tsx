@@ -0,0 +1,84 @@
+import { formatOsList } from '../../components/skillDetailUtils'
+import type { FacetCounts, FacetKey, SearchFilters } from './-params'
+
+type SkillsFacetsProps = {
+  facets: FacetCounts
+  filters: SearchFilters
+  onToggleFacet: (facet: FacetKey, value: string) => void
+}
+
+const FACET_LABELS: Record<FacetKey, string> = {
+  os: 'Runs on',
+  bins: 'Needs binary',
+  env: 'API keys',
+  install: 'Installs via',
+  nix: 'Nix',
+  badges: 'Badges',
+  owner: 'Owner',
+}
+
+function formatFacetValue(facet: FacetKey, value: string) {
+  switch (facet) {
+    case 'os':
+      return formatOsList([value])[0] ?? value
+    case 'env':
+      return value === 'none' ? 'No env vars' : 'Needs env vars'
+    case 'nix':
+      return 'Nix plugin'
+    case 'badges':
+      return value === 'official' ? 'Official' : 'Deprecated'
+    case 'owner':
+      return `@${value}`
+    default:
+      return value
+  }
+}
+
+function isFacetValueActive(filters: SearchFilters, facet: FacetKey, value: string) {
+  switch (facet) {
+    case 'os':
+    case 'bins':
+    case 'install':
+      return Boolean(filters[facet]?.includes(value))
+    case 'env':
+      return filters.env === value
+    case 'nix':
+      return Boolean(filters.nix)
+    case 'badges':
+      return value === 'official' ? Boolean(filters.official) : filters.deprecated === true
+    case 'owner':
+      return filters.owner?.toLowerCase() === value
+  }
+}
+
+export function SkillsFacets({ facets, filters, onToggleFacet }: SkillsFacetsProps) {
+  const groups = (Object.keys(FACET_LABELS) as FacetKey[]).filter(
+    (facet) => facets[facet]?.length,
+  )
+  if (groups.length === 0) return null
+
+  return (
+    <div className="skills-facets" aria-label="Search filters">
+      {groups.map((facet) => (
+        <div key={facet} className="skills-facet-group">
+          <span className="skills-facet-label">{FACET_LABELS[facet]}</span>
+          {facets[facet].map((entry) => {
+            const active = isFacetValueActive(filters, facet, entry.value)
+            return (
+              <button
+                key={entry.value}
+                className={`search-filter-button skills-facet${active ? ' is-active' : ''}`}
+                type="button"
+                aria-pressed={active}
+                onClick={() => onToggleFacet(facet, entry.value)}
+              >
+                {formatFacetValue(facet, entry.value)}
+                <span className="skills-facet-count">{entry.count}</span>
+              </button>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
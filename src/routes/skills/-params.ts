@@ -26,3 +26,76 @@ export function parseDir(value: unknown, sort: SortKey): SortDir {
 export function toListSort(sort: SortKey): ListSortKey {
   return sort === 'relevance' ? 'downloads' : sort
 }
+
+export type FacetKey = 'os' | 'bins' | 'env' | 'install' | 'nix' | 'badges' | 'owner'
+
+export type FacetCounts = Record<FacetKey, Array<{ value: string; count: number }>>
+
+/** Facet filters as they appear in the URL; list facets are comma-separated. */
+export type FacetSearch = {
+  os?: string
+  bins?: string
+  env?: 'required' | 'none'
+  install?: string
+  nix?: boolean
+  official?: boolean
+  deprecated?: boolean
+  owner?: string
+}
+
+export type SearchFilters = {
+  os?: string[]
+  bins?: string[]
+  env?: 'required' | 'none'
+  install?: string[]
+  nix?: boolean
+  official?: boolean
+  deprecated?: boolean
+  owner?: string
+}
+
+export function parseFacetSearch(search: Record<string, unknown>): FacetSearch {
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined
+  const flag = (value: unknown) => {
+    if (value === true || value === 'true' || value === '1') return true
+    if (value === false || value === 'false' || value === '0') return false
+    return undefined
+  }
+  return {
+    os: text(search.os),
+    bins: text(search.bins),
+    env: search.env === 'required' || search.env === 'none' ? search.env : undefined,
+    install: text(search.install),
+    nix: flag(search.nix) || undefined,
+    official: flag(search.official) || undefined,
+    deprecated: flag(search.deprecated),
+    owner: text(search.owner),
+  }
+}
+
+export function splitFacetList(value?: string) {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+export function toSearchFilters(search: FacetSearch): SearchFilters | undefined {
+  const list = (value?: string) => {
+    const items = splitFacetList(value)
+    return items.length ? items : undefined
+  }
+  const filters: SearchFilters = {
+    os: list(search.os),
+    bins: list(search.bins),
+    env: search.env,
+    install: list(search.install),
+    nix: search.nix,
+    official: search.official,
+    deprecated: search.deprecated,
+    owner: search.owner,
+  }
+  const active = Object.values(filters).some((value) => value !== undefined)
+  return active ? filters : undefined
+}
@@ -1,14 +1,25 @@
 import { useAction, usePaginatedQuery } from 'convex/react'
 import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react'
 import { api } from '../../../convex/_generated/api'
-import { parseDir, parseSort, toListSort, type SortDir, type SortKey } from './-params'
+import {
+  type FacetCounts,
+  type FacetKey,
+  type FacetSearch,
+  parseDir,
+  parseSort,
+  splitFacetList,
+  toListSort,
+  toSearchFilters,
+  type SortDir,
+  type SortKey,
+} from './-params'
 import type { SkillListEntry, SkillSearchEntry } from './-types'
 
 const pageSize = 25
 
 type SkillsView = 'cards' | 'list'
 
-export type SkillsSearchState = {
+export type SkillsSearchState = FacetSearch & {
   q?: string
   sort?: SortKey
   dir?: SortDir
@@ -34,6 +45,7 @@ export function useSkillsBrowseModel({
 }) {
   const [query, setQuery] = useState(search.q ?? '')
   const [searchResults, setSearchResults] = useState<Array<SkillSearchEntry>>([])
+  const [facets, setFacets] = useState<FacetCounts | null>(null)
   const [searchLimit, setSearchLimit] = useState(pageSize)
   const [isSearching, setIsSearching] = useState(false)
   const searchRequest = useRef(0)
@@ -43,7 +55,30 @@ export function useSkillsBrowseModel({
   const view: SkillsView = search.view ?? 'list'
   const highlightedOnly = search.highlighted ?? false
   const nonSuspiciousOnly = search.nonSuspicious ?? false
-  const searchSkills = useAction(api.search.searchSkills)
+  const searchSkills = useAction(api.search.searchSkillsWithFacets)
+  const filters = useMemo(
+    () =>
+      toSearchFilters({
+        os: search.os,
+        bins: search.bins,
+        env: search.env,
+        install: search.install,
+        nix: search.nix,
+        official: search.official,
+        deprecated: search.deprecated,
+        owner: search.owner,
+      }),
+    [
+      search.os,
+      search.bins,
+      search.env,
+      search.install,
+      search.nix,
+      search.official,
+      search.deprecated,
+      search.owner,
+    ],
+  )
 
   const trimmedQuery = useMemo(() => query.trim(), [query])
   const hasQuery = trimmedQuery.length > 0
@@ -53,8 +88,11 @@ export function useSkillsBrowseModel({
       : (search.sort ?? (hasQuery ? 'relevance' : 'downloads'))
   const listSort = toListSort(sort)
   const dir = parseDir(search.dir, sort)
+  const filtersKey = filters ? JSON.stringify(filters) : ''
   const searchKey = trimmedQuery
-    ? `${trimmedQuery}::${highlightedOnly ? '1' : '0'}::${nonSuspiciousOnly ? '1' : '0'}`
+    ? [trimmedQuery, highlightedOnly ? '1' : '0', nonSuspiciousOnly ? '1' : '0', filtersKey].join(
+        '::',
+      )
     : ''
 
   const {
@@ -87,6 +125,7 @@ export function useSkillsBrowseModel({
   useEffect(() => {
     if (!searchKey) {
       setSearchResults([])
+      setFacets(null)
       setIsSearching(false)
       return
     }
@@ -107,9 +146,11 @@ export function useSkillsBrowseModel({
             highlightedOnly,
             nonSuspiciousOnly,
             limit: searchLimit,
-          })) as Array<SkillSearchEntry>
+            ...(filters ? { filters } : {}),
+          })) as { results: Array<SkillSearchEntry>; facets?: FacetCounts }
           if (requestId === searchRequest.current) {
-            setSearchResults(data)
+            setSearchResults(data.results)
+            setFacets(data.facets ?? null)
           }
         } finally {
           if (requestId === searchRequest.current) {
@@ -119,7 +160,15 @@ export function useSkillsBrowseModel({
       })()
     }, 220)
     return () => window.clearTimeout(handle)
-  }, [hasQuery, highlightedOnly, nonSuspiciousOnly, searchLimit, searchSkills, trimmedQuery])
+  }, [
+    filters,
+    hasQuery,
+    highlightedOnly,
+    nonSuspiciousOnly,
+    searchLimit,
+    searchSkills,
+    trimmedQuery,
+  ])
 
   const baseItems = useMemo(() => {
     if (hasQuery) {
@@ -283,15 +332,66 @@ export function useSkillsBrowseModel({
     })
   }, [navigate])
 
+  const onToggleFacet = useCallback(
+    (facet: FacetKey, value: string) => {
+      const toggleList = (current: string | undefined) => {
+        const items = splitFacetList(current)
+        const next = items.includes(value)
+          ? items.filter((item) => item !== value)
+          : [...items, value]
+        return next.length ? next.join(',') : undefined
+      }
+      void navigate({
+        search: (prev) => {
+          switch (facet) {
+            case 'os':
+            case 'bins':
+            case 'install':
+              return { ...prev, [facet]: toggleList(prev[facet]) }
+            case 'env':
+              return {
+                ...prev,
+                env: prev.env === value ? undefined : (value as 'required' | 'none'),
+              }
+            case 'nix':
+              return { ...prev, nix: prev.nix ? undefined : true }
+            case 'badges':
+              return value === 'official'
+                ? { ...prev, official: prev.official ? undefined : true }
+                : { ...prev, deprecated: prev.deprecated === undefined ? true : undefined }
+            case 'owner':
+              return { ...prev, owner: prev.owner === value ? undefined : value }
+          }
+        },
+        replace: true,
+      })
+    },
+    [navigate],
+  )
+
   const activeFilters: string[] = []
   if (highlightedOnly) activeFilters.push('highlighted')
   if (nonSuspiciousOnly) activeFilters.push('non-suspicious')
+  if (hasQuery && filters) {
+    if (filters.os) activeFilters.push(`os: ${filters.os.join('/')}`)
+    if (filters.bins) activeFilters.push(`needs ${filters.bins.join(', ')}`)
+    if (filters.env) activeFilters.push(filters.env === 'none' ? 'no env vars' : 'needs env vars')
+    if (filters.install) activeFilters.push(`installs via ${filters.install.join('/')}`)
+    if (filters.nix) activeFilters.push('nix plugin')
+    if (filters.official) activeFilters.push('official')
+    if (filters.deprecated !== undefined) {
+      activeFilters.push(filters.deprecated ? 'deprecated' : 'not deprecated')
+    }
+    if (filters.owner) activeFilters.push(`by @${filters.owner}`)
+  }
 
   return {
     activeFilters,
     canAutoLoad,
     canLoadMore,
     dir,
+    facets: hasQuery ? facets : null,
+    filters: filters ?? {},
     hasQuery,
     highlightedOnly,
     isLoadingMore,
@@ -302,6 +402,7 @@ export function useSkillsBrowseModel({
     onQueryChange,
     onSortChange,
     onToggleDir,
+    onToggleFacet,
     onToggleHighlighted,
     onToggleNonSuspicious,
     onToggleView,
@@ -2,7 +2,8 @@ import { createFileRoute, redirect } from '@tanstack/react-router'
 import { useQuery } from 'convex/react'
 import { useRef } from 'react'
 import { api } from '../../../convex/_generated/api'
-import { parseSort } from './-params'
+import { parseFacetSearch, parseSort } from './-params'
+import { SkillsFacets } from './-SkillsFacets'
 import { SkillsResults } from './-SkillsResults'
 import { SkillsToolbar } from './-SkillsToolbar'
 import { useSkillsBrowseModel } from './-useSkillsBrowseModel'
@@ -25,6 +26,7 @@ export const Route = createFileRoute('/skills/')({
           : undefined,
       view: search.view === 'cards' || search.view === 'list' ? search.view : undefined,
       focus: search.focus === 'search' ? 'search' : undefined,
+      ...parseFacetSearch(search),
     }
   },
   beforeLoad: ({ search }) => {
@@ -40,6 +42,14 @@ export const Route = createFileRoute('/skills/')({
         nonSuspicious: search.nonSuspicious || undefined,
         view: search.view || undefined,
         focus: search.focus || undefined,
+        os: search.os,
+        bins: search.bins,
+        env: search.env,
+        install: search.install,
+        nix: search.nix,
+        official: search.official,
+        deprecated: search.deprecated,
+        owner: search.owner,
       },
       replace: true,
     })
@@ -91,6 +101,13 @@ export function SkillsIndex() {
           onToggleDir={model.onToggleDir}
           onToggleView={model.onToggleView}
         />
+        {model.facets ? (
+          <SkillsFacets
+            facets={model.facets}
+            filters={model.filters}
+            onToggleFacet={model.onToggleFacet}
+          />
+        ) : null}
         <SkillsResults
           isLoadingSkills={model.isLoadingSkills}
           sorted={model.sorted}
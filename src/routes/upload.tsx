@@ -3,6 +3,12 @@ import { useAction, useMutation, useQuery } from 'convex/react'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import semver from 'semver'
 import { api } from '../../convex/_generated/api'
+import {
+  type CapabilityLint,
+  type LlmAnalysis,
+  type ScanResultSummary,
+  SecurityScanResults,
+} from '../components/SkillSecurityScanResults'
 import { getSiteMode } from '../lib/site'
 import { expandDroppedItems, expandFilesWithReport } from '../lib/uploadFiles'
 import { useAuthStatus } from '../lib/useAuthStatus'
@@ -17,6 +23,22 @@ import {
 
 const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
 
+type UploadedFile = {
+  path: string
+  size: number
+  storageId: string
+  sha256: string
+  contentType?: string
+}
+
+type PublishPreview = {
+  quality: { decision: 'pass' | 'quarantine' | 'reject'; score: number; reason: string } | null
+  moderation: { status: 'active' | 'hidden'; reason: string; flags: string[] }
+  scanResults: ScanResultSummary[]
+  capabilityLint: CapabilityLint
+  llmAnalysis: LlmAnalysis | null
+}
+
 export const Route = createFileRoute('/upload')({
   validateSearch: (search) => ({
     updateSlug: typeof search.updateSlug === 'string' ? search.updateSlug : undefined,
@@ -39,6 +61,7 @@ export function Upload() {
   const generateChangelogPreview = useAction(
     isSoulMode ? api.souls.generateChangelogPreview : api.skills.generateChangelogPreview,
   )
+  const previewPublish = useAction(api.skills.previewPublish)
   const existingSkill = useQuery(
     api.skills.getBySlug,
     !isSoulMode && updateSlug ? { slug: updateSlug } : 'skip',
@@ -75,6 +98,11 @@ export function Upload() {
   const isSubmitting = status !== null
   const [error, setError] = useState<string | null>(null)
   const [isDragging, setIsDragging] = useState(false)
+  const [preview, setPreview] = useState<{ key: string; result: PublishPreview } | null>(null)
+  const [previewStatus, setPreviewStatus] = useState<string | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  // Staged uploads are reused by publish when the files have not changed since the preview.
+  const uploadedRef = useRef<{ key: string; files: UploadedFile[] } | null>(null)
   const fileInputRef = useRef<HTMLInputElement | null>(null)
   const validationRef = useRef<HTMLDivElement | null>(null)
   const navigate = useNavigate()
@@ -121,6 +149,15 @@ export function Upload() {
   const trimmedSlug = slug.trim()
   const trimmedName = displayName.trim()
   const trimmedChangelog = changelog.trim()
+  const filesKey = useMemo(
+    () =>
+      files
+        .map((file, index) => `${normalizedPaths[index]}:${file.size}:${file.lastModified}`)
+        .join('|'),
+    [files, normalizedPaths],
+  )
+  const previewKey = `${trimmedSlug}@${version}#${filesKey}`
+  const currentPreview = preview?.key === previewKey ? preview.result : null
 
   useEffect(() => {
     if (!existing?.latestVersion || (!existing?.skill && !existing?.soul)) return
@@ -264,6 +301,49 @@ export function Upload() {
     setIgnoredMacJunkPaths(report.ignoredMacJunkPaths)
   }
 
+  async function uploadStagedFiles() {
+    if (uploadedRef.current?.key === filesKey) return uploadedRef.current.files
+    const uploaded: UploadedFile[] = []
+    for (const [index, file] of files.entries()) {
+      const uploadUrl = await generateUploadUrl()
+      const sha256 = await hashFile(file)
+      const storageId = await uploadFile(uploadUrl, file)
+      uploaded.push({
+        path: normalizedPaths[index] ?? file.name,
+        size: file.size,
+        storageId,
+        sha256,
+        contentType: file.type || undefined,
+      })
+    }
+    uploadedRef.current = { key: filesKey, files: uploaded }
+    return uploaded
+  }
+
+  async function handlePreview() {
+    setHasAttempted(true)
+    if (!validation.ready) return
+    setPreviewError(null)
+    setPreviewStatus('Uploading files…')
+    try {
+      const uploaded = await uploadStagedFiles()
+      setPreviewStatus('Running security checks…')
+      const result = (await previewPublish({
+        slug: trimmedSlug,
+        displayName: trimmedName,
+        version,
+        changelog: trimmedChangelog,
+        tags: parsedTags,
+        files: uploaded,
+      })) as PublishPreview
+      setPreview({ key: previewKey, result })
+    } catch (error) {
+      setPreviewError(formatPublishError(error))
+    } finally {
+      setPreviewStatus(null)
+    }
+  }
+
   async function handleSubmit(event: React.FormEvent) {
     event.preventDefault()
     setHasAttempted(true)
@@ -283,32 +363,7 @@ export function Upload() {
       return
     }
     setStatus('Uploading files…')
-
-    const uploaded = [] as Array<{
-      path: string
-      size: number
-      storageId: string
-      sha256: string
-      contentType?: string
-    }>
-
-    for (const file of files) {
-      const uploadUrl = await generateUploadUrl()
-      const rawPath = (file.webkitRelativePath || file.name).replace(/^\.\//, '')
-      const path =
-        stripRoot && rawPath.startsWith(`${stripRoot}/`)
-          ? rawPath.slice(stripRoot.length + 1)
-          : rawPath
-      const sha256 = await hashFile(file)
-      const storageId = await uploadFile(uploadUrl, file)
-      uploaded.push({
-        path,
-        size: file.size,
-        storageId,
-        sha256,
-        contentType: file.type || undefined,
-      })
-    }
+    const uploaded = await uploadStagedFiles()
 
     setStatus('Publishing…')
     try {
@@ -502,6 +557,33 @@ export function Upload() {
           ) : null}
         </div>
 
+        {!isSoulMode ? (
+          <div className="card upload-panel">
+            <h2 className="upload-panel-title">Security preview</h2>
+            <p className="upload-dropzone-hint">
+              Runs the quality gate, rule scan, capability check and AI review on these files
+              without publishing, so you can fix findings first.
+            </p>
+            <div>
+              <button
+                className="btn"
+                type="button"
+                disabled={!validation.ready || previewStatus !== null || isSubmitting}
+                onClick={() => void handlePreview()}
+              >
+                Run security checks
+              </button>
+            </div>
+            {previewStatus ? <div className="stat">{previewStatus}</div> : null}
+            {previewError ? (
+              <div className="error" role="alert">
+                {previewError}
+              </div>
+            ) : null}
+            {currentPreview ? <PublishPreviewSummary preview={currentPreview} /> : null}
+          </div>
+        ) : null}
+
         <div className="upload-submit-row">
           <div className="upload-submit-notes">
             {error ? (
@@ -526,3 +608,31 @@ export function Upload() {
     </main>
   )
 }
+
+function PublishPreviewSummary({ preview }: { preview: PublishPreview }) {
+  const { quality, moderation } = preview
+  const visibility =
+    moderation.reason === 'quality.low'
+      ? 'Would be hidden for review: the quality gate quarantines this version.'
+      : moderation.status === 'hidden'
+        ? 'Would stay hidden until the VirusTotal scan finishes.'
+        : 'Would be visible right away; VirusTotal still scans it.'
+  return (
+    <>
+      {quality ? (
+        <div className={quality.decision === 'pass' ? 'stat' : 'error'}>
+          Quality: {quality.decision} (score {quality.score}) · {quality.reason}
+        </div>
+      ) : null}
+      <div className="stat">{visibility}</div>
+      {moderation.flags.length ? (
+        <div className="stat">Flags: {moderation.flags.join(', ')}</div>
+      ) : null}
+      <SecurityScanResults
+        llmAnalysis={preview.llmAnalysis}
+        capabilityLint={preview.capabilityLint}
+        scanResults={preview.scanResults}
+      />
+    </>
+  )
+}